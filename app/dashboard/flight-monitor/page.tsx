@@ -1,6 +1,10 @@
 'use client';
 
+import { Suspense } from 'react';
 import dynamic from 'next/dynamic';
+import { useRouter, useSearchParams } from 'next/navigation';
+import FlightReplayProvider from '@/components/FlightReplayProvider';
+import type { SelectedMission } from '@/components/DroneFlightVisualization';
 
 // Import with SSR disabled due to Leaflet's window dependency
 const DroneFlightVisualization = dynamic(
@@ -8,6 +12,27 @@ const DroneFlightVisualization = dynamic(
   { ssr: false }
 );
 
+function FlightMonitor() {
+  const router = useRouter();
+  const replayId = useSearchParams().get('replay');
+
+  if (!replayId) {
+    return <DroneFlightVisualization />;
+  }
+
+  return (
+    <FlightReplayProvider recordingId={replayId} onClose={() => router.push('/dashboard/flight-monitor')}>
+      {(recording) => (
+        <DroneFlightVisualization selectedMission={(recording.mission as SelectedMission | undefined) ?? null} />
+      )}
+    </FlightReplayProvider>
+  );
+}
+
 export default function FlightMonitorPage() {
-  return <DroneFlightVisualization />;
-}
\ No newline at end of file
+  return (
+    <Suspense>
+      <FlightMonitor />
+    </Suspense>
+  );
+}
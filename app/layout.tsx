@@ -1,6 +1,8 @@
 import type { Metadata } from 'next'
 import "leaflet/dist/leaflet.css"
 import './globals.css'
+import TelemetryProvider from '@/components/TelemetryProvider'
+import AlertCenter from '@/components/AlertCenter'
 
 export const metadata: Metadata = {
   title: 'Jarbits - SkyrouteX Platform v1.0',
@@ -14,7 +16,12 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <TelemetryProvider>
+          {children}
+          <AlertCenter />
+        </TelemetryProvider>
+      </body>
     </html>
   )
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { Suspense, useState } from 'react';
 import dynamic from 'next/dynamic';
-import { ArrowLeft } from 'lucide-react';
-import { useRouter } from 'next/navigation';
+import { ArrowLeft, History } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import FlightRecordingList from '@/components/FlightRecordingList';
+import FlightReplayProvider from '@/components/FlightReplayProvider';
 
 // Dynamically import the component to avoid SSR issues with Leaflet
 const MultiDroneSituationalAwareness = dynamic(
@@ -22,13 +24,15 @@ const MultiDroneSituationalAwareness = dynamic(
   }
 );
 
-export default function MultiDroneAwarenessPage() {
+function MultiDroneAwareness() {
   const router = useRouter();
+  const replayId = useSearchParams().get('replay');
+  const [showRecordings, setShowRecordings] = useState(false);
 
   return (
     <div className="h-screen w-full bg-slate-950 flex flex-col">
       {/* Top Navigation Bar */}
-      <div className="bg-slate-900 border-b border-slate-700 p-3 flex items-center justify-between z-[1000]">
+      <div className="bg-slate-900 border-b border-slate-700 p-3 flex items-center justify-between z-[1100]">
         <button
           onClick={() => router.back()}
           className="flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors border border-slate-600"
@@ -44,19 +48,62 @@ export default function MultiDroneAwarenessPage() {
         </div>
 
         <div className="flex items-center space-x-2">
-          <div className="px-3 py-1.5 bg-green-900/30 border border-green-600 rounded-lg">
-            <div className="flex items-center space-x-2">
-              <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-              <span className="text-xs font-medium text-green-400">LIVE SIMULATION</span>
-            </div>
+          <div className="relative">
+            <button
+              onClick={() => setShowRecordings(!showRecordings)}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors border border-slate-600"
+            >
+              <History size={16} />
+              <span className="text-xs font-medium">Recordings</span>
+            </button>
+            {showRecordings && (
+              <div className="absolute right-0 mt-2 w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-xl">
+                <FlightRecordingList
+                  onReplay={(recording) => {
+                    setShowRecordings(false);
+                    router.push(`/multi-drone-awareness?replay=${recording.id}`);
+                  }}
+                />
+              </div>
+            )}
           </div>
+
+          {replayId ? (
+            <div className="px-3 py-1.5 bg-purple-900/30 border border-purple-600 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <History size={12} className="text-purple-400" />
+                <span className="text-xs font-medium text-purple-400">REPLAY</span>
+              </div>
+            </div>
+          ) : (
+            <div className="px-3 py-1.5 bg-green-900/30 border border-green-600 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
+                <span className="text-xs font-medium text-green-400">LIVE SIMULATION</span>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main Content */}
       <div className="flex-1">
-        <MultiDroneSituationalAwareness />
+        {replayId ? (
+          <FlightReplayProvider recordingId={replayId} onClose={() => router.push('/multi-drone-awareness')}>
+            {() => <MultiDroneSituationalAwareness />}
+          </FlightReplayProvider>
+        ) : (
+          <MultiDroneSituationalAwareness />
+        )}
       </div>
     </div>
   );
+}
+
+export default function MultiDroneAwarenessPage() {
+  return (
+    <Suspense>
+      <MultiDroneAwareness />
+    </Suspense>
+  );
 }
\ No newline at end of file
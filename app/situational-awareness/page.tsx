@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { ArrowLeft, RefreshCw, Activity, Zap } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { ObstacleZone } from '@/types/gridMission';
 
 // Dynamically import the component to avoid SSR issues with Leaflet
 const SituationalAwareness = dynamic(
@@ -24,6 +25,7 @@ const SituationalAwareness = dynamic(
 interface SelectedMissionData {
   id: string;
   mission_name: string;
+  vehicle_id?: string;
   waypoints: Array<{
     lat: number;
     lon: number;
@@ -40,6 +42,7 @@ interface SelectedMissionData {
   total_distance?: number;
   mission_type?: string;
   status?: string;
+  obstacles?: ObstacleZone[];
 }
 
 export default function SituationalAwarenessPage() {
@@ -136,6 +139,7 @@ export default function SituationalAwarenessPage() {
     const transformedMission: SelectedMissionData = {
       id: mission.id.toString(),
       mission_name: mission.mission_name,
+      vehicle_id: mission.vehicle_id,
       mission_type: mission.mission_type,
       status: mission.status,
       total_distance: mission.total_distance,
@@ -152,6 +156,7 @@ export default function SituationalAwarenessPage() {
         color: mission.corridor_color,
         description: mission.corridor_description,
       } : undefined,
+      obstacles: mission.obstacles,
     };
 
     setSelectedMission(transformedMission);
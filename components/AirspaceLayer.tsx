@@ -0,0 +1,48 @@
+/**
+ * Airspace Layer
+ * Draws imported airspace zones on a react-leaflet map, coloured by zone
+ */
+
+'use client';
+
+import React from 'react';
+import { Circle, Polygon, Tooltip } from 'react-leaflet';
+import { AirspaceZone } from '@/types/airspace';
+import { AIRSPACE_COLORS, formatAirspaceLimit } from '@/utils/airspace';
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const AirspaceLayer: React.FC<{ zones: AirspaceZone[] }> = ({ zones }) => (
+  <>
+    {zones.map((zone) => {
+      const pathOptions = {
+        color: AIRSPACE_COLORS[zone.color],
+        fillColor: AIRSPACE_COLORS[zone.color],
+        fillOpacity: zone.color === 'green' ? 0.05 : 0.15,
+        weight: 1.5,
+        dashArray: zone.color === 'green' ? '4, 6' : undefined,
+      };
+      const tooltip = (
+        <Tooltip sticky>
+          <strong>{zone.name}</strong>
+          <br />
+          {zone.category ?? `${zone.color} zone`} · {formatAirspaceLimit(zone.floor, 'GND')} – {formatAirspaceLimit(zone.ceiling, 'UNL')}
+        </Tooltip>
+      );
+
+      return zone.type === 'circle' && zone.center && zone.radius ? (
+        <Circle key={zone.id} center={[zone.center.lat, zone.center.lng]} radius={zone.radius} pathOptions={pathOptions}>
+          {tooltip}
+        </Circle>
+      ) : (
+        <Polygon key={zone.id} positions={zone.vertices.map((v) => [v.lat, v.lng] as [number, number])} pathOptions={pathOptions}>
+          {tooltip}
+        </Polygon>
+      );
+    })}
+  </>
+);
+
+export default AirspaceLayer;
@@ -0,0 +1,148 @@
+/**
+ * Airspace Panel
+ * Imports airspace zone files and lists the zones the planned route enters,
+ * with a permission reference field for each yellow zone
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Ban, CheckCircle, FileUp, Plane, X } from 'lucide-react';
+import { AirspaceCheck, AirspacePermissions, AirspaceZone } from '@/types/airspace';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AirspacePanelProps {
+  zones: AirspaceZone[];
+  files: string[];
+  check: AirspaceCheck;
+  permissions: AirspacePermissions;
+  onPermissionChange: (zoneId: string, reference: string) => void;
+  onImport: (file: File) => Promise<AirspaceZone[]>;
+  onRemoveFile: (fileName: string) => void;
+  hasRoute: boolean;
+}
+
+const ZONE_STYLES = {
+  red: 'bg-red-900/40 border-red-600 text-red-300',
+  yellow: 'bg-yellow-900/30 border-yellow-600 text-yellow-200',
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const AirspacePanel: React.FC<AirspacePanelProps> = ({
+  zones,
+  files,
+  check,
+  permissions,
+  onPermissionChange,
+  onImport,
+  onRemoveFile,
+  hasRoute,
+}) => {
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      await onImport(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import airspace file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const count = (color: AirspaceZone['color']) => zones.filter((zone) => zone.color === color).length;
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-lg p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-medium text-white">
+          <Plane size={16} />
+          Airspace
+        </h3>
+        <label className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-200 cursor-pointer">
+          <FileUp size={12} />
+          {importing ? 'Importing...' : 'Import zones'}
+          <input
+            type="file"
+            accept=".geojson,.json,.aip,.xml,.kml,.kmz"
+            onChange={handleFile}
+            disabled={importing}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {files.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Import Digital Sky zone exports, OpenAIP airspace files or GeoJSON to check the route against them.
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-3 text-xs">
+            <span className="text-red-400">{count('red')} red</span>
+            <span className="text-yellow-400">{count('yellow')} yellow</span>
+            <span className="text-green-400">{count('green')} green</span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {files.map((fileName) => (
+              <span key={fileName} className="flex items-center gap-1 px-2 py-0.5 bg-slate-700 rounded text-xs text-slate-300">
+                {fileName}
+                <button onClick={() => onRemoveFile(fileName)} className="hover:text-white">
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {hasRoute && files.length > 0 && check.conflicts.length === 0 && (
+        <div className="flex items-center gap-2 text-xs text-green-400">
+          <CheckCircle size={14} />
+          Route is clear of red and yellow zones
+        </div>
+      )}
+
+      {check.conflicts.map((conflict) => (
+        <div key={conflict.zoneId} className={`border rounded p-2 space-y-1 ${ZONE_STYLES[conflict.color]}`}>
+          <div className="flex items-center gap-2 font-medium">
+            {conflict.color === 'red' && <Ban size={14} />}
+            <span className="flex-1">{conflict.zoneName}</span>
+            <span className="text-xs uppercase">{conflict.category ?? conflict.color}</span>
+          </div>
+          <div className="text-xs opacity-80">
+            {conflict.legs.length} leg{conflict.legs.length === 1 ? '' : 's'} from waypoint {conflict.legs[0] + 1}
+          </div>
+          {conflict.color === 'red' ? (
+            <div className="text-xs">Red zone: the route cannot be saved until it is moved out.</div>
+          ) : (
+            <input
+              type="text"
+              placeholder="Permission reference (e.g. Digital Sky permission artefact ID)"
+              value={permissions[conflict.zoneId] ?? ''}
+              onChange={(e) => onPermissionChange(conflict.zoneId, e.target.value)}
+              className="w-full px-2 py-1 bg-slate-900 border border-slate-600 rounded text-xs text-white"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AirspacePanel;
@@ -0,0 +1,255 @@
+/**
+ * Alert Center
+ * App-wide telemetry alerts: runs the alert engine on the live streams, sounds
+ * new and escalated alerts, and lists open alerts and their history
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AlertOctagon,
+  AlertTriangle,
+  Bell,
+  BellRing,
+  Check,
+  CheckCheck,
+  History,
+  Info,
+  Trash2,
+  Volume2,
+  VolumeX,
+  X,
+} from 'lucide-react';
+import { ALERT_CONFIG } from '@/config/missionExecution.config';
+import { useAlertCenter } from '@/hooks/useAlertCenter';
+import { AlertHistoryEvent, AlertSeverity } from '@/types/alerts';
+import { ALERT_RULE_KINDS, compareSeverity } from '@/utils/alertRules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type AlertCenterTab = 'active' | 'history';
+
+const SEVERITY_STYLES: Record<AlertSeverity, { card: string; text: string; badge: string }> = {
+  info: { card: 'bg-sky-900/30 border-sky-700', text: 'text-sky-300', badge: 'bg-sky-600' },
+  warning: { card: 'bg-amber-900/30 border-amber-600', text: 'text-amber-300', badge: 'bg-amber-500' },
+  critical: { card: 'bg-red-900/40 border-red-600', text: 'text-red-300', badge: 'bg-red-600' },
+};
+
+const EVENT_LABELS: Record<AlertHistoryEvent, string> = {
+  raised: 'Raised',
+  escalated: 'Escalated',
+  acknowledged: 'Acknowledged',
+  cleared: 'Cleared',
+};
+
+const SeverityIcon: React.FC<{ severity: AlertSeverity; size?: number }> = ({ severity, size = 14 }) => {
+  const className = SEVERITY_STYLES[severity].text;
+  if (severity === 'critical') return <AlertOctagon size={size} className={className} />;
+  if (severity === 'warning') return <AlertTriangle size={size} className={className} />;
+  return <Info size={size} className={className} />;
+};
+
+const formatTime = (at: number): string => new Date(at).toLocaleTimeString();
+
+// ============================================================================
+// Sound
+// ============================================================================
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short tone: one beep for warnings, three rising beeps for critical alerts.
+ * Browsers keep audio blocked until the user has interacted with the page.
+ */
+const playAlertTone = (severity: AlertSeverity) => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const beeps = severity === 'critical' ? [880, 988, 1175] : [660];
+
+    beeps.forEach((frequency, index) => {
+      const start = audioContext!.currentTime + index * 0.18;
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+      oscillator.connect(gain).connect(audioContext!.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.15);
+    });
+  } catch (error) {
+    console.error('Error playing alert tone:', error);
+  }
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const AlertCenter: React.FC = () => {
+  const { alerts, history, acknowledge, acknowledgeAll, clearHistory } = useAlertCenter({ watch: true });
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<AlertCenterTab>('active');
+  const [soundEnabled, setSoundEnabled] = useState<boolean>(ALERT_CONFIG.soundEnabled);
+  const soundedRef = useRef<Map<string, AlertSeverity>>(new Map()); // alert id -> severity last sounded
+
+  const unacknowledged = alerts.filter(alert => !alert.acknowledged);
+  const worst = unacknowledged.reduce<AlertSeverity | null>(
+    (current, alert) => (!current || compareSeverity(alert.severity, current) > 0 ? alert.severity : current),
+    null
+  );
+
+  // Sound alerts that are new or more severe than when they last sounded
+  useEffect(() => {
+    const sounded = soundedRef.current;
+    let tone: AlertSeverity | null = null;
+
+    for (const alert of alerts) {
+      const previous = sounded.get(alert.id);
+      const louder = !previous || compareSeverity(alert.severity, previous) > 0;
+      if (!alert.acknowledged && alert.severity !== 'info' && louder && (!tone || compareSeverity(alert.severity, tone) > 0)) {
+        tone = alert.severity;
+      }
+      sounded.set(alert.id, alert.severity);
+    }
+    const openIds = new Set(alerts.map(alert => alert.id));
+    sounded.forEach((_, id) => {
+      if (!openIds.has(id)) sounded.delete(id);
+    });
+
+    if (tone && soundEnabled) playAlertTone(tone);
+  }, [alerts, soundEnabled]);
+
+  // Remind while a critical alert is unacknowledged
+  useEffect(() => {
+    if (!soundEnabled || worst !== 'critical') return;
+
+    const reminder = setInterval(() => playAlertTone('critical'), ALERT_CONFIG.soundRepeatInterval);
+    return () => clearInterval(reminder);
+  }, [soundEnabled, worst]);
+
+  if (alerts.length === 0 && history.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-20 right-4 z-[1500] flex flex-col items-end gap-2">
+      {open && (
+        <div className="w-96 max-h-[60vh] flex flex-col bg-slate-900/95 backdrop-blur border border-slate-700 rounded-lg shadow-2xl text-white">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setTab('active')}
+                className={`px-2 py-1 rounded text-sm ${tab === 'active' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                Active ({alerts.length})
+              </button>
+              <button
+                onClick={() => setTab('history')}
+                className={`flex items-center gap-1 px-2 py-1 rounded text-sm ${tab === 'history' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                <History size={14} />
+                History
+              </button>
+            </div>
+            <div className="flex items-center gap-1">
+              {tab === 'active' && unacknowledged.length > 0 && (
+                <button onClick={acknowledgeAll} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="Acknowledge all">
+                  <CheckCheck size={16} />
+                </button>
+              )}
+              {tab === 'history' && history.length > 0 && (
+                <button onClick={clearHistory} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="Clear history">
+                  <Trash2 size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => setSoundEnabled(prev => !prev)}
+                className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                title={soundEnabled ? 'Mute alerts' : 'Unmute alerts'}
+              >
+                {soundEnabled ? <Volume2 size={16} /> : <VolumeX size={16} />}
+              </button>
+              <button onClick={() => setOpen(false)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700">
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 space-y-2">
+            {tab === 'active' ? (
+              alerts.length === 0 ? (
+                <p className="text-sm text-slate-400 p-2">No open alerts</p>
+              ) : (
+                alerts.slice(0, ALERT_CONFIG.maxAlerts).map(alert => (
+                  <div
+                    key={alert.id}
+                    className={`p-2 rounded-md border text-xs ${SEVERITY_STYLES[alert.severity].card} ${alert.acknowledged ? 'opacity-70' : ''}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start gap-2">
+                        <span className="mt-0.5"><SeverityIcon severity={alert.severity} /></span>
+                        <div>
+                          <div className={`font-semibold ${SEVERITY_STYLES[alert.severity].text}`}>
+                            {ALERT_RULE_KINDS[alert.kind].label}: {alert.vehicleId}
+                            {alert.escalated && <span className="ml-1 font-normal text-slate-400">(escalated)</span>}
+                          </div>
+                          <div className="text-slate-300">{alert.message}</div>
+                          <div className="text-slate-500">Since {formatTime(alert.raisedAt)}</div>
+                        </div>
+                      </div>
+                      {!alert.acknowledged && (
+                        <button
+                          onClick={() => acknowledge(alert.id)}
+                          className="p-1 text-slate-400 hover:text-white"
+                          title="Acknowledge"
+                        >
+                          <Check size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )
+            ) : history.length === 0 ? (
+              <p className="text-sm text-slate-400 p-2">No alert history</p>
+            ) : (
+              history.map(entry => (
+                <div key={entry.id} className="flex items-start gap-2 px-2 py-1.5 text-xs border-b border-slate-800 last:border-0">
+                  <span className="mt-0.5"><SeverityIcon severity={entry.severity} size={12} /></span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium text-slate-200 truncate">
+                        {EVENT_LABELS[entry.event]} · {entry.vehicleId}
+                      </span>
+                      <span className="text-slate-500 flex-shrink-0">{formatTime(entry.at)}</span>
+                    </div>
+                    <div className="text-slate-400">{entry.message}</div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`relative w-12 h-12 rounded-full flex items-center justify-center shadow-xl border border-slate-700 ${
+          worst ? SEVERITY_STYLES[worst].badge : 'bg-slate-800'
+        } ${worst === 'critical' ? 'animate-pulse' : ''}`}
+        title="Alerts"
+      >
+        {worst ? <BellRing size={20} className="text-white" /> : <Bell size={20} className="text-slate-300" />}
+        {alerts.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-white text-slate-900 text-xs font-bold flex items-center justify-center">
+            {alerts.length}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default AlertCenter;
@@ -0,0 +1,241 @@
+/**
+ * Alert Rules Editor
+ * Settings card for the telemetry alert rules of each vehicle type
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { BellRing, RotateCcw, Save } from 'lucide-react';
+import alertEngine from '@/services/alertEngine';
+import { AlertRule, AlertSeverity } from '@/types/alerts';
+import { ALERT_RULE_KINDS, ALERT_SEVERITIES, DEFAULT_VEHICLE_TYPE } from '@/utils/alertRules';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const typeLabel = (vehicleType: string): string =>
+  vehicleType === DEFAULT_VEHICLE_TYPE ? 'Default (all vehicles)' : vehicleType;
+
+// Empty inputs clear optional fields
+const parseOptional = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+/**
+ * Comma-separated modes. Keeps the typed text, so a trailing comma survives
+ * until the next mode is typed.
+ */
+const ModesInput: React.FC<{ modes: string[]; onChange: (modes: string[]) => void }> = ({ modes, onChange }) => {
+  const [text, setText] = useState(modes.join(', '));
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(',').map(mode => mode.trim()).filter(Boolean));
+      }}
+      placeholder="Any mode, or e.g. RTL, LAND"
+      className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+    />
+  );
+};
+
+const inputClass = 'w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm focus:outline-none focus:border-blue-500';
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const AlertRulesEditor: React.FC = () => {
+  const [vehicleTypes] = useState(() => alertEngine.getVehicleTypes());
+  const [vehicleType, setVehicleType] = useState(DEFAULT_VEHICLE_TYPE);
+  const [rules, setRules] = useState<AlertRule[]>(() => alertEngine.getRules(DEFAULT_VEHICLE_TYPE));
+  const [custom, setCustom] = useState(() => alertEngine.hasCustomRules(DEFAULT_VEHICLE_TYPE));
+  const [dirty, setDirty] = useState(false);
+  const [loadCount, setLoadCount] = useState(0); // remounts the rows when rules are reloaded
+
+  const load = (type: string) => {
+    setVehicleType(type);
+    setRules(alertEngine.getRules(type));
+    setCustom(alertEngine.hasCustomRules(type));
+    setDirty(false);
+    setLoadCount(prev => prev + 1);
+  };
+
+  const updateRule = (index: number, changes: Partial<AlertRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    const invalid = rules.find(rule =>
+      [rule.threshold, rule.critical, rule.hysteresis, rule.escalateAfter].some(v => v !== undefined && !Number.isFinite(v))
+    );
+    if (invalid) {
+      toast.error(`${ALERT_RULE_KINDS[invalid.kind].label} has an invalid number`);
+      return;
+    }
+
+    alertEngine.setRules(vehicleType, rules);
+    setCustom(true);
+    setDirty(false);
+    toast.success(`Alert rules saved for ${typeLabel(vehicleType)}`);
+  };
+
+  const handleReset = () => {
+    alertEngine.resetRules(vehicleType);
+    load(vehicleType);
+    toast.success(
+      vehicleType === DEFAULT_VEHICLE_TYPE ? 'Default alert rules restored' : `${vehicleType} now uses the default rules`
+    );
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl col-span-2">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 bg-red-500 bg-opacity-20 rounded-full flex items-center justify-center">
+            <BellRing size={24} className="text-red-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">Telemetry Alert Rules</h3>
+            <p className="text-slate-400 text-sm">Conditions that raise alerts in the alert center, per vehicle type</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={vehicleType}
+            onChange={(e) => load(e.target.value)}
+            className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            {vehicleTypes.map(type => (
+              <option key={type} value={type}>{typeLabel(type)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleReset}
+            disabled={!custom}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+          >
+            <RotateCcw size={16} />
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            <Save size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+
+      {!custom && vehicleType !== DEFAULT_VEHICLE_TYPE && (
+        <p className="text-sm text-slate-400 mb-3">{vehicleType} uses the default rules. Saving gives it its own.</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2 pr-3 font-medium">Rule</th>
+              <th className="py-2 pr-3 font-medium">On</th>
+              <th className="py-2 pr-3 font-medium">Severity</th>
+              <th className="py-2 pr-3 font-medium">Threshold</th>
+              <th className="py-2 pr-3 font-medium">Critical</th>
+              <th className="py-2 pr-3 font-medium">Hysteresis</th>
+              <th className="py-2 font-medium">Escalate after (s)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule, index) => {
+              const info = ALERT_RULE_KINDS[rule.kind];
+              return (
+                <tr key={`${loadCount}:${rule.kind}`} className="border-b border-slate-700/50 text-white">
+                  <td className="py-2 pr-3">
+                    <div>{info.label}</div>
+                    <div className="text-xs text-slate-500">
+                      {info.direction === 'change'
+                        ? 'Alerts on entering a mode'
+                        : `Alerts ${info.direction} the threshold${info.unit ? ` (${info.unit})` : ''}`}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                      className="w-4 h-4 accent-blue-600"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule(index, { severity: e.target.value as AlertSeverity })}
+                      className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm"
+                    >
+                      {ALERT_SEVERITIES.map(severity => (
+                        <option key={severity} value={severity}>{severity}</option>
+                      ))}
+                    </select>
+                  </td>
+                  {info.direction === 'change' ? (
+                    <td colSpan={3} className="py-2 pr-3">
+                      <ModesInput modes={rule.modes ?? []} onChange={(modes) => updateRule(index, { modes })} />
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="number"
+                          value={rule.threshold}
+                          onChange={(e) => updateRule(index, { threshold: Number(e.target.value) })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="number"
+                          value={rule.critical ?? ''}
+                          onChange={(e) => updateRule(index, { critical: parseOptional(e.target.value) })}
+                          placeholder="None"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="number"
+                          min={0}
+                          value={rule.hysteresis}
+                          onChange={(e) => updateRule(index, { hysteresis: Number(e.target.value) })}
+                          className={inputClass}
+                        />
+                      </td>
+                    </>
+                  )}
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={rule.escalateAfter ?? ''}
+                      onChange={(e) => updateRule(index, { escalateAfter: parseOptional(e.target.value) })}
+                      placeholder="Never"
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRulesEditor;
@@ -36,6 +36,7 @@ const MissionTypes = dynamic(() => import('./MissionTypes'), { ssr: false })
 const LiveMap = dynamic(() => import('./LiveMap'), { ssr: false })
 const VehicleLibrary = dynamic(() => import('./VehicleLibrary'), { ssr: false })
 const OperatorLibrary = dynamic(() => import('./OperatorLibrary'), { ssr: false })
+const GeofenceLibrary = dynamic(() => import('./GeofenceLibrary'), { ssr: false })
 const UserProfile = dynamic(() => import('./UserProfile'), { ssr: false })
 const Settings = dynamic(() => import('./Settings'), { ssr: false })
 const Guide = dynamic(() => import('./Guide'), { ssr: false })
@@ -137,6 +138,7 @@ export default function DashboardLayout() {
       )}
       {currentPage === 'awareness' && <SituationalAwareness />}
       {currentPage === 'vehicles' && <VehicleLibrary />}
+      {currentPage === 'geofences' && <GeofenceLibrary />}
       {currentPage === 'operators' && <OperatorLibrary />}
       {currentPage === 'profile' && <UserProfile />}
       {currentPage === 'settings' && <Settings />}
@@ -14,6 +14,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
 import { MapContainer, TileLayer, Marker, Polyline, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -30,9 +31,25 @@ import {
   Navigation,
   Maximize2,
   Target,
+  History,
+  Circle,
+  LineChart,
 } from 'lucide-react';
 import TelemetryDisplay from '@/components/TelemetryDisplay';
+import FlightRecordingList from '@/components/FlightRecordingList';
+import LinkHealthBadge from '@/components/LinkHealthBadge';
+import TelemetryChartsPanel from '@/components/TelemetryChartsPanel';
 import { createDroneIcon, getDroneStatus } from '@/components/droneIconUtils';
+import { TelemetryStreamMessage, VehicleTelemetry } from '@/types/telemetry';
+import { formatLinkAge } from '@/types/linkHealth';
+import { adaptTelemetry, mergeTelemetry } from '@/utils/telemetryAdapters';
+import { useTelemetryStream } from '@/hooks/useTelemetryStream';
+import { useFlightRecorder, useFlightReplay } from '@/hooks/useFlightRecording';
+import { useLinkHealth } from '@/hooks/useLinkHealth';
+import { useTelemetryHistoryBuffer } from '@/hooks/useKafkaTelemetry';
+import { CHART_CONFIG } from '@/config/missionExecution.config';
+import alertEngine from '@/services/alertEngine';
+import linkHealthMonitor from '@/services/linkHealthMonitor';
 
 // Fix Leaflet default icon issue
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -52,74 +69,6 @@ interface Position {
   alt: number;
 }
 
-interface TelemetryData {
-  position?: {
-    lat?: number;
-    latitude?: number;
-    lon?: number;
-    longitude?: number;
-    alt?: number;
-    altitude?: number;
-    relative_alt?: number;
-    relative_altitude?: number;
-    agl?: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-    ground_speed?: number;
-    groundspeed?: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites?: number;
-    num_satellites?: number;
-    satellites_visible?: number;
-    fix_type: number;
-    hdop?: number;
-  };
-  armed?: boolean;
-  flying?: boolean;
-  flight_mode?: string;
-  mode?: string;
-  vehicle_id?: string;
-  drone_id?: string;
-  timestamp?: number;
-  mission_current?: number;
-  mission_count?: number;
-  alt?: number;
-  altitude?: number;
-  relative_alt?: number;
-  relative_altitude?: number;
-  lat?: number;
-  latitude?: number;
-  lon?: number;
-  longitude?: number;
-}
-
-interface DroneStatus {
-  connected: boolean;
-  armed: boolean;
-  flying: boolean;
-  current_position: Position;
-  home_position?: Position;
-  battery_level: number;
-  flight_mode: string;
-  mission_active: boolean;
-  mission_current: number;
-  mission_count: number;
-}
-
 interface FlightPath {
   lat: number;
   lon: number;
@@ -136,7 +85,7 @@ interface MissionWaypoint {
   label?: string;
 }
 
-interface SelectedMission {
+export interface SelectedMission {
   id: string;
   name?: string;
   mission_name?: string;
@@ -158,15 +107,13 @@ interface WaypointStatus {
   arrivalTime?: number;
 }
 
-type TelemetrySource = 'kafka' | 'websocket' | 'http' | 'disconnected';
+type TelemetrySource = 'kafka' | 'websocket' | 'http' | 'replay' | 'disconnected';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
 const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
-const WS_BASE = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8002';
-const KAFKA_WS_URL = process.env.NEXT_PUBLIC_KAFKA_WS_URL || 'ws://localhost:8002/ws/kafka-telemetry';
 
 const MIN_ZOOM = 3;
 const MAX_ZOOM = 19;
@@ -349,6 +296,8 @@ const TelemetrySourceIndicator: React.FC<{
         return { icon: <Radio className="w-4 h-4" />, label: 'WebSocket', color: 'text-blue-400' };
       case 'http':
         return { icon: <RefreshCw className="w-4 h-4" />, label: 'HTTP Poll', color: 'text-yellow-400' };
+      case 'replay':
+        return { icon: <History className="w-4 h-4" />, label: 'Replay', color: 'text-purple-400' };
       default:
         return { icon: <WifiOff className="w-4 h-4" />, label: 'Disconnected', color: 'text-red-400' };
     }
@@ -376,20 +325,24 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   selectedMission = null,
   onBack 
 }) => {
+  const router = useRouter();
+  const replay = useFlightReplay();
+
   // ============================================================================
   // STATE
   // ============================================================================
   
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
-  const [status, setStatus] = useState<DroneStatus | null>(null);
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
   const [flightPath, setFlightPath] = useState<FlightPath[]>([]);
   const [dronePosition, setDronePosition] = useState<Position | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+  const [httpConnected, setHttpConnected] = useState(false);
   const [currentMissionId] = useState<string>(selectedMission?.id || '');
   
-  // Telemetry source state
-  const [telemetrySource, setTelemetrySource] = useState<TelemetrySource>('disconnected');
-  const [useKafka, setUseKafka] = useState<boolean>(true);
+  // Telemetry source state - a replay subscribes the way the flight was recorded
+  const [useKafka, setUseKafka] = useState<boolean>(replay ? replay.recording.transport === 'kafka' : true);
+  const [httpPolling, setHttpPolling] = useState<boolean>(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showCharts, setShowCharts] = useState(false);
   
   // Mission state
   const [waypointStatuses] = useState<WaypointStatus[]>([]);
@@ -405,15 +358,8 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   const mapRef = useRef<L.Map | null>(null);
   
   // Refs
-  const wsRef = useRef<WebSocket | null>(null);
-  const kafkaWsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const telemetryIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const updateCountRef = useRef<number>(0);
   const updateTimerRef = useRef<NodeJS.Timeout | null>(null);
-  
-  const maxReconnectAttempts = 10;
 
   // Map state
   const getDefaultPosition = useCallback((): [number, number] => {
@@ -508,118 +454,38 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
   // TELEMETRY UPDATE HANDLER
   // ============================================================================
 
-  const handleTelemetryUpdate = useCallback((data: TelemetryData) => {
+  // Charts follow whichever stream is live, including the fallbacks
+  const { histories: chartHistories, push: pushChartSample } = useTelemetryHistoryBuffer({
+    maxHistory: CHART_CONFIG.maxHistory,
+    maxAge: CHART_CONFIG.historyAge,
+    flushInterval: CHART_CONFIG.flushInterval,
+  });
+
+  const handleTelemetryUpdate = useCallback((data: VehicleTelemetry) => {
     try {
-      // Handle both nested position and flat structure
-      const positionData = data.position || data;
-      
-      const safeNumber = (value: any, defaultValue: number = 0): number => {
-        if (value === undefined || value === null || value === '') return defaultValue;
-        const num = Number(value);
-        return isNaN(num) ? defaultValue : num;
-      };
-      
-      // Extract latitude
-      const getLat = (): number => {
-        const sources = [
-          positionData?.lat,
-          positionData?.latitude,
-          (data as any)?.lat,
-          (data as any)?.latitude,
-        ];
-        for (const src of sources) {
-          if (src !== undefined && src !== null) {
-            const num = Number(src);
-            if (!isNaN(num) && num !== 0) return num;
-          }
-        }
-        return 0;
-      };
-
-      // Extract longitude
-      const getLon = (): number => {
-        const sources = [
-          positionData?.lon,
-          positionData?.longitude,
-          (data as any)?.lon,
-          (data as any)?.longitude,
-        ];
-        for (const src of sources) {
-          if (src !== undefined && src !== null) {
-            const num = Number(src);
-            if (!isNaN(num) && num !== 0) return num;
-          }
-        }
-        return 0;
-      };
-      
-      // Extract altitude
-      const getAltitude = (): number => {
-        const altFields = [
-          positionData?.alt,
-          positionData?.altitude,
-          positionData?.relative_alt,
-          positionData?.relative_altitude,
-          positionData?.agl,
-          (data as any)?.alt,
-          (data as any)?.altitude,
-          (data as any)?.relative_alt,
-          (data as any)?.relative_altitude,
-        ];
-        
-        for (const field of altFields) {
-          if (field !== undefined && field !== null && field !== '') {
-            const num = Number(field);
-            if (!isNaN(num)) return num;
-          }
-        }
-        return 0;
-      };
-      
-      const lat = getLat();
-      const lon = getLon();
-      const alt = getAltitude();
-
-      const position: Position | null = (lat !== 0 && lon !== 0) ? { lat, lon, alt } : null;
-
-      // Update telemetry state
-      setTelemetry({
-        position: position ? {
-          lat: position.lat,
-          lon: position.lon,
-          alt: position.alt,
-        } : undefined,
-        velocity: data.velocity,
-        attitude: data.attitude,
-        battery: data.battery,
-        gps: data.gps ? {
-          satellites: data.gps.satellites ?? data.gps.num_satellites ?? 0,
-          fix_type: data.gps.fix_type ?? 0,
-          hdop: data.gps.hdop ?? 0,
-        } : undefined,
-        armed: data.armed,
-        flying: data.flying,
-        flight_mode: data.flight_mode ?? data.mode,
-        vehicle_id: data.vehicle_id ?? data.drone_id,
-      });
+      // Status and telemetry messages carry different sections, so keep the
+      // previous values for whatever this message lacks
+      setTelemetry(prev => mergeTelemetry(prev, data));
 
       setLastTelemetryUpdate(Date.now());
       setTelemetryPulse(true);
       setTimeout(() => setTelemetryPulse(false), 200);
 
       updateCountRef.current += 1;
+      pushChartSample(data);
 
       // Update drone position if valid
+      const position = data.position;
       if (position && isValidCoordinate(position.lat, position.lon)) {
         console.log('📍 Drone position updated:', position.lat.toFixed(6), position.lon.toFixed(6));
-        setDronePosition(position);
+        setDronePosition({ lat: position.lat, lon: position.lon, alt: position.alt });
 
         setFlightPath(prev => {
           const newPath = [...prev, {
             lat: position.lat,
             lon: position.lon,
             alt: position.alt,
-            timestamp: Date.now(),
+            timestamp: data.timestamp,
           }];
           return newPath.slice(-500);
         });
@@ -629,322 +495,121 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         }
       }
 
-      // Update status
-      setStatus(prev => ({
-        connected: true,
-        armed: data.armed ?? prev?.armed ?? false,
-        flying: data.flying ?? prev?.flying ?? false,
-        current_position: position || prev?.current_position || { lat: 0, lon: 0, alt: 0 },
-        battery_level: data.battery?.remaining ?? prev?.battery_level ?? 0,
-        flight_mode: data.flight_mode ?? data.mode ?? prev?.flight_mode ?? 'UNKNOWN',
-        mission_active: prev?.mission_active ?? false,
-        mission_current: data.mission_current ?? prev?.mission_current ?? 0,
-        mission_count: data.mission_count ?? prev?.mission_count ?? 0,
-      }));
-
     } catch (error) {
       console.error('❌ Error handling telemetry update:', error);
     }
-  }, [followDrone]);
+  }, [followDrone, pushChartSample]);
 
   // ============================================================================
-  // STANDARD WEBSOCKET CONNECTION (FALLBACK)
+  // TELEMETRY STREAM (KAFKA, FALLING BACK TO STANDARD WEBSOCKET)
   // ============================================================================
 
-  const connectWebSocket = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      return;
-    }
-
-    try {
-      console.log(`🔌 Connecting to standard WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-
-      ws.onopen = () => {
-        console.log('✅ Standard WebSocket connected');
-        setIsConnected(true);
-        setTelemetrySource('websocket');
-        reconnectAttemptsRef.current = 0;
-
-        if (currentMissionId) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: currentMissionId,
-          }));
+  const handleStreamMessage = useCallback((message: TelemetryStreamMessage) => {
+    switch (message.type) {
+      case 'connection_info':
+        console.log('🔗 Connected to telemetry proxy:', message);
+        if (useKafka && !message.kafka_available) {
+          console.warn('⚠️ Kafka not available on server - telemetry may not work!');
         }
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          if (message.type === 'telemetry_update' || message.type === 'telemetry') {
-            handleTelemetryUpdate(message.data || message);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-        }
-      };
-
-      ws.onerror = () => {
-        console.error('❌ Standard WebSocket error');
-        setIsConnected(false);
-      };
-
-      ws.onclose = () => {
-        console.log('🔌 Standard WebSocket closed');
-        setIsConnected(false);
-        setTelemetrySource('disconnected');
-        wsRef.current = null;
-
-        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        } else {
-          startStatusPolling();
-        }
-      };
-
-      wsRef.current = ws;
-    } catch (error) {
-      console.error('❌ Failed to create WebSocket:', error);
-      startStatusPolling();
-    }
-  }, [currentMissionId, handleTelemetryUpdate]);
+        break;
 
-  // ============================================================================
-  // KAFKA WEBSOCKET CONNECTION (FIXED)
-  // ============================================================================
+      case 'subscribed':
+        console.log('✅ Successfully subscribed to vehicle:', message.vehicle_id);
+        break;
 
-  const connectKafkaWebSocket = useCallback(() => {
-    if (!useKafka) {
-      connectWebSocket();
-      return;
-    }
+      case 'unsubscribed':
+        console.log('🔕 Unsubscribed from vehicle:', message.vehicle_id);
+        break;
 
-    if (kafkaWsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('🟢 Kafka WebSocket already connected');
-      return;
+      case 'stats':
+        console.log('📈 Server stats:', message);
+        break;
     }
+  }, [useKafka]);
+
+  // The Kafka proxy subscribes by vehicle, the standard socket by mission
+  const { state: streamState } = useTelemetryStream({
+    transport: useKafka ? 'kafka' : 'websocket',
+    vehicleId: useKafka ? currentMissionId || undefined : undefined,
+    missionId: useKafka ? undefined : currentMissionId || undefined,
+    enabled: !httpPolling,
+    onTelemetry: handleTelemetryUpdate,
+    onMessage: handleStreamMessage,
+  });
 
-    if (kafkaWsRef.current?.readyState === WebSocket.CONNECTING) {
-      console.log('🟡 Kafka WebSocket connection in progress...');
-      return;
-    }
+  useEffect(() => {
+    if (streamState !== 'failed') return;
 
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
+    if (useKafka) {
       console.warn('🔴 Max reconnect attempts reached, falling back to standard WebSocket');
       setUseKafka(false);
-      connectWebSocket();
-      return;
-    }
-
-    try {
-      console.log(`🔌 Connecting to Kafka WebSocket: ${KAFKA_WS_URL}`);
-      const ws = new WebSocket(KAFKA_WS_URL);
-
-      ws.onopen = () => {
-        console.log('✅ Kafka WebSocket connected!');
-        setIsConnected(true);
-        setTelemetrySource('kafka');
-        reconnectAttemptsRef.current = 0;
-
-        // ✅ FIX: Only send 'subscribe' action - removed invalid 'configure' action
-        // The proxy auto-subscribes to Kafka topics on startup
-        if (currentMissionId) {
-          const subscribeMsg = {
-            action: 'subscribe',
-            vehicle_id: currentMissionId,
-          };
-          console.log('📤 Subscribing to vehicle:', subscribeMsg);
-          ws.send(JSON.stringify(subscribeMsg));
-        }
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          
-          // Debug logging (skip pong messages)
-          if (message.type !== 'pong') {
-            console.log('📥 Kafka message:', message.type, message);
-          }
-
-          switch (message.type) {
-            case 'connection_info':
-              console.log('🔗 Connected to Kafka proxy:', message);
-              if (!message.kafka_available) {
-                console.warn('⚠️ Kafka not available on server - telemetry may not work!');
-              }
-              break;
-
-            case 'telemetry_update':
-            case 'telemetry':
-              // Handle telemetry data
-              const telemetryData = message.data || message;
-              handleTelemetryUpdate(telemetryData);
-              break;
-
-            case 'status_update':
-              if (message.data) {
-                console.log('📋 Status update:', message.data);
-                setStatus(prev => ({
-                  ...prev,
-                  ...message.data,
-                  connected: true,
-                }));
-              }
-              break;
-
-            case 'subscribed':
-              console.log('✅ Successfully subscribed to vehicle:', message.vehicle_id);
-              break;
-
-            case 'unsubscribed':
-              console.log('🔕 Unsubscribed from vehicle:', message.vehicle_id);
-              break;
-
-            case 'pong':
-              // Heartbeat response - no action needed
-              break;
-
-            case 'stats':
-              console.log('📈 Server stats:', message);
-              break;
-
-            case 'error':
-              console.error('❌ Server error:', message.message);
-              break;
-
-            default:
-              // ✅ FIX: Handle raw telemetry that might not have a type wrapper
-              if (message.position || message.lat || message.latitude || 
-                  message.vehicle_id || message.drone_id) {
-                console.log('📊 Raw telemetry (no type wrapper):', message);
-                handleTelemetryUpdate(message);
-              } else {
-                console.log('❓ Unknown message type:', message.type, message);
-              }
-          }
-        } catch (error) {
-          console.error('❌ Error parsing Kafka message:', error, 'Raw:', event.data);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('❌ Kafka WebSocket error:', error);
-        setIsConnected(false);
-      };
-
-      ws.onclose = (event) => {
-        console.log(`🔌 Kafka WebSocket closed. Code: ${event.code}, Reason: ${event.reason || 'none'}`);
-        setIsConnected(false);
-        setTelemetrySource('disconnected');
-        kafkaWsRef.current = null;
-
-        // Reconnect with exponential backoff
-        if (reconnectAttemptsRef.current < maxReconnectAttempts && useKafka) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          console.log(`🔄 Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectKafkaWebSocket();
-          }, delay);
-        } else if (!useKafka) {
-          connectWebSocket();
-        }
-      };
-
-      kafkaWsRef.current = ws;
-    } catch (error) {
-      console.error('❌ Failed to create Kafka WebSocket:', error);
-      setUseKafka(false);
-      connectWebSocket();
+    } else {
+      setHttpPolling(true);
     }
-  }, [useKafka, currentMissionId, handleTelemetryUpdate, connectWebSocket]);
+  }, [streamState, useKafka]);
 
   // ============================================================================
   // HTTP POLLING FALLBACK
   // ============================================================================
 
-  const startStatusPolling = useCallback(() => {
-    if (telemetryIntervalRef.current) return;
+  useEffect(() => {
+    if (!httpPolling) return;
 
     console.log('📡 Starting HTTP polling fallback');
-    setTelemetrySource('http');
 
-    telemetryIntervalRef.current = setInterval(async () => {
+    const telemetryInterval = setInterval(async () => {
       try {
         const response = await fetch(`${API_BASE}/telemetry`);
-        const data = await response.json();
-        handleTelemetryUpdate(data);
-        setIsConnected(true);
+        const data = adaptTelemetry(await response.json(), 'http', { vehicleId: currentMissionId || undefined });
+        if (data) {
+          handleTelemetryUpdate(data);
+          // Polling bypasses the streams the alert engine and link monitor watch
+          alertEngine.reportTelemetry(data);
+          linkHealthMonitor.reportTelemetry(data);
+        }
+        setHttpConnected(true);
       } catch (error) {
         console.error('Error fetching telemetry via HTTP:', error);
-        setIsConnected(false);
+        setHttpConnected(false);
       }
     }, 1000);
-  }, [handleTelemetryUpdate]);
 
-  const stopStatusPolling = useCallback(() => {
-    if (telemetryIntervalRef.current) {
-      clearInterval(telemetryIntervalRef.current);
-      telemetryIntervalRef.current = null;
-    }
-  }, []);
-
-  // ============================================================================
-  // DISCONNECT ALL
-  // ============================================================================
+    return () => {
+      clearInterval(telemetryInterval);
+      setHttpConnected(false);
+    };
+  }, [httpPolling, currentMissionId, handleTelemetryUpdate]);
 
-  const disconnectAll = useCallback(() => {
-    console.log('🔌 Disconnecting all connections...');
-    
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
+  const telemetrySource: TelemetrySource = replay
+    ? 'replay'
+    : httpPolling
+      ? 'http'
+      : streamState === 'open' ? (useKafka ? 'kafka' : 'websocket') : 'disconnected';
+  const isConnected = httpPolling ? httpConnected : streamState === 'open';
 
-    if (kafkaWsRef.current) {
-      kafkaWsRef.current.close();
-      kafkaWsRef.current = null;
-    }
+  // Replayed samples are not live, so they have no link to watch
+  const { getLink } = useLinkHealth();
+  const link = replay ? undefined : getLink(telemetry?.vehicleId);
+  const linkDown = link?.state === 'lost';
 
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-
-    stopStatusPolling();
+  // ============================================================================
+  // FLIGHT RECORDING
+  // ============================================================================
 
-    setIsConnected(false);
-    setTelemetrySource('disconnected');
-    reconnectAttemptsRef.current = 0;
-  }, [stopStatusPolling]);
+  // HTTP polling bypasses the stream, so only streamed flights are recorded
+  const { recording } = useFlightRecorder({
+    missionId: currentMissionId || undefined,
+    missionName: selectedMission?.name || selectedMission?.mission_name,
+    mission: selectedMission,
+    transport: useKafka ? 'kafka' : 'websocket',
+    vehicleId: useKafka ? currentMissionId || undefined : undefined,
+    enabled: !replay && !httpPolling,
+  });
 
   // ============================================================================
   // EFFECTS
   // ============================================================================
 
-  // Initial connection
-  useEffect(() => {
-    console.log('🚀 Initializing telemetry connection...');
-    if (useKafka) {
-      connectKafkaWebSocket();
-    } else {
-      connectWebSocket();
-    }
-
-    return () => {
-      disconnectAll();
-      if (updateTimerRef.current) {
-        clearInterval(updateTimerRef.current);
-      }
-    };
-  }, []);
-
   // Update frequency tracker
   useEffect(() => {
     updateTimerRef.current = setInterval(() => {
@@ -959,21 +624,6 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
     };
   }, []);
 
-  // Ping interval for keeping connection alive
-  useEffect(() => {
-    if (isConnected) {
-      const pingInterval = setInterval(() => {
-        if (kafkaWsRef.current?.readyState === WebSocket.OPEN) {
-          kafkaWsRef.current.send(JSON.stringify({ action: 'ping' }));
-        } else if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-
-      return () => clearInterval(pingInterval);
-    }
-  }, [isConnected]);
-
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -1013,268 +663,318 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         </div>
 
         <div className="flex items-center gap-4">
+          {recording && (
+            <span className="flex items-center gap-1.5 text-xs font-semibold text-red-400">
+              <Circle className="w-3 h-3 fill-red-500 animate-pulse" />
+              REC
+            </span>
+          )}
+
           <TelemetrySourceIndicator
             source={telemetrySource}
             connected={isConnected}
             messageRate={updateFrequency}
           />
 
+          <LinkHealthBadge link={link} />
+
+          {!replay && (
+            <button
+              onClick={() => {
+                setHttpPolling(false);
+                setUseKafka(!useKafka);
+              }}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                useKafka
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-slate-700 text-slate-300'
+              }`}
+            >
+              {useKafka ? 'Kafka On' : 'Kafka Off'}
+            </button>
+          )}
+
           <button
-            onClick={() => {
-              disconnectAll();
-              setUseKafka(!useKafka);
-              setTimeout(() => {
-                if (!useKafka) {
-                  connectKafkaWebSocket();
-                } else {
-                  connectWebSocket();
-                }
-              }, 100);
-            }}
-            className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-              useKafka
-                ? 'bg-purple-600 text-white'
-                : 'bg-slate-700 text-slate-300'
+            onClick={() => setShowCharts(!showCharts)}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded text-sm font-medium transition-colors ${
+              showCharts ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
             }`}
           >
-            {useKafka ? 'Kafka On' : 'Kafka Off'}
+            <LineChart className="w-4 h-4" />
+            Charts
           </button>
+
+          <div className="relative">
+            <button
+              onClick={() => setShowRecordings(!showRecordings)}
+              className="flex items-center gap-1.5 px-3 py-1 rounded text-sm font-medium bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+            >
+              <History className="w-4 h-4" />
+              Recordings
+            </button>
+            {showRecordings && (
+              <div className="absolute right-0 mt-2 w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-[1200]">
+                <FlightRecordingList
+                  onReplay={(selected) => {
+                    setShowRecordings(false);
+                    router.push(`/dashboard/flight-monitor?replay=${selected.id}`);
+                  }}
+                />
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 flex">
-        {/* Map */}
-        <div className="flex-1 relative">
-          <MapContainer
-            center={mapCenter}
-            zoom={mapZoom}
-            style={{ height: '100%', width: '100%' }}
-            className="z-0"
-            ref={mapRef}
-            zoomControl={false}
-          >
-            <TileLayer
-              url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-              attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-              maxZoom={19}
-            />
-            <TileLayer
-              url="https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}"
-              attribution=""
-              maxZoom={19}
-            />
-            <MapController 
-              center={mapCenter} 
-              zoom={mapZoom} 
-              followDrone={followDrone}
-              onZoomChange={handleZoomChange}
-            />
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Map */}
+          <div className="flex-1 relative">
+            <MapContainer
+              center={mapCenter}
+              zoom={mapZoom}
+              style={{ height: '100%', width: '100%' }}
+              className="z-0"
+              ref={mapRef}
+              zoomControl={false}
+            >
+              <TileLayer
+                url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
+                attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
+                maxZoom={19}
+              />
+              <TileLayer
+                url="https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}"
+                attribution=""
+                maxZoom={19}
+              />
+              <MapController 
+                center={mapCenter} 
+                zoom={mapZoom} 
+                followDrone={followDrone}
+                onZoomChange={handleZoomChange}
+              />
 
-            {/* Mission Waypoints */}
-            {selectedMission?.waypoints?.map((wp, index, arr) => {
-              const lng = getWaypointLongitude(wp);
-              if (!isValidCoordinate(wp.lat, lng)) return null;
+              {/* Mission Waypoints */}
+              {selectedMission?.waypoints?.map((wp, index, arr) => {
+                const lng = getWaypointLongitude(wp);
+                if (!isValidCoordinate(wp.lat, lng)) return null;
 
-              const isStart = index === 0;
-              const isEnd = index === arr.length - 1;
-              const waypointStatus = waypointStatuses.find(ws => ws.index === index);
+                const isStart = index === 0;
+                const isEnd = index === arr.length - 1;
+                const waypointStatus = waypointStatuses.find(ws => ws.index === index);
               
-              let statusColor = '#6b7280';
-              let borderColor = 'white';
-              let size = 24;
-              let label = `${index + 1}`;
+                let statusColor = '#6b7280';
+                let borderColor = 'white';
+                let size = 24;
+                let label = `${index + 1}`;
               
-              if (isStart) {
-                statusColor = '#22c55e';
-                borderColor = '#15803d';
-                size = 32;
-                label = 'S';
-              } else if (isEnd) {
-                statusColor = '#ef4444';
-                borderColor = '#b91c1c';
-                size = 32;
-                label = 'E';
-              } else if (waypointStatus?.status === 'completed') {
-                statusColor = '#22c55e';
-              } else if (waypointStatus?.status === 'active') {
-                statusColor = '#3b82f6';
-              }
-
-              return (
-                <Marker
-                  key={`wp-${index}`}
-                  position={[wp.lat, lng!]}
-                  icon={L.divIcon({
-                    className: 'waypoint-marker',
-                    html: `
-                      <div style="
-                        width: ${size}px;
-                        height: ${size}px;
-                        background: ${statusColor};
-                        border: 3px solid ${borderColor};
-                        border-radius: 50%;
-                        display: flex;
-                        align-items: center;
-                        justify-content: center;
-                        color: white;
-                        font-weight: bold;
-                        font-size: ${isStart || isEnd ? '14px' : '12px'};
-                        box-shadow: 0 3px 6px rgba(0,0,0,0.4);
-                        ${isStart || isEnd ? 'animation: pulse 2s infinite;' : ''}
-                      ">
-                        ${label}
-                      </div>
-                      ${isStart ? `
-                        <div style="
-                          position: absolute;
-                          top: -8px;
-                          left: 50%;
-                          transform: translateX(-50%);
-                          background: #22c55e;
-                          color: white;
-                          font-size: 10px;
-                          font-weight: bold;
-                          padding: 2px 6px;
-                          border-radius: 4px;
-                          white-space: nowrap;
-                        ">START</div>
-                      ` : ''}
-                      ${isEnd ? `
+                if (isStart) {
+                  statusColor = '#22c55e';
+                  borderColor = '#15803d';
+                  size = 32;
+                  label = 'S';
+                } else if (isEnd) {
+                  statusColor = '#ef4444';
+                  borderColor = '#b91c1c';
+                  size = 32;
+                  label = 'E';
+                } else if (waypointStatus?.status === 'completed') {
+                  statusColor = '#22c55e';
+                } else if (waypointStatus?.status === 'active') {
+                  statusColor = '#3b82f6';
+                }
+
+                return (
+                  <Marker
+                    key={`wp-${index}`}
+                    position={[wp.lat, lng!]}
+                    icon={L.divIcon({
+                      className: 'waypoint-marker',
+                      html: `
                         <div style="
-                          position: absolute;
-                          top: -8px;
-                          left: 50%;
-                          transform: translateX(-50%);
-                          background: #ef4444;
+                          width: ${size}px;
+                          height: ${size}px;
+                          background: ${statusColor};
+                          border: 3px solid ${borderColor};
+                          border-radius: 50%;
+                          display: flex;
+                          align-items: center;
+                          justify-content: center;
                           color: white;
-                          font-size: 10px;
                           font-weight: bold;
-                          padding: 2px 6px;
-                          border-radius: 4px;
-                          white-space: nowrap;
-                        ">END</div>
-                      ` : ''}
-                    `,
-                    iconSize: [size, size + (isStart || isEnd ? 16 : 0)],
-                    iconAnchor: [size / 2, size / 2],
-                  })}
+                          font-size: ${isStart || isEnd ? '14px' : '12px'};
+                          box-shadow: 0 3px 6px rgba(0,0,0,0.4);
+                          ${isStart || isEnd ? 'animation: pulse 2s infinite;' : ''}
+                        ">
+                          ${label}
+                        </div>
+                        ${isStart ? `
+                          <div style="
+                            position: absolute;
+                            top: -8px;
+                            left: 50%;
+                            transform: translateX(-50%);
+                            background: #22c55e;
+                            color: white;
+                            font-size: 10px;
+                            font-weight: bold;
+                            padding: 2px 6px;
+                            border-radius: 4px;
+                            white-space: nowrap;
+                          ">START</div>
+                        ` : ''}
+                        ${isEnd ? `
+                          <div style="
+                            position: absolute;
+                            top: -8px;
+                            left: 50%;
+                            transform: translateX(-50%);
+                            background: #ef4444;
+                            color: white;
+                            font-size: 10px;
+                            font-weight: bold;
+                            padding: 2px 6px;
+                            border-radius: 4px;
+                            white-space: nowrap;
+                          ">END</div>
+                        ` : ''}
+                      `,
+                      iconSize: [size, size + (isStart || isEnd ? 16 : 0)],
+                      iconAnchor: [size / 2, size / 2],
+                    })}
+                  >
+                    <Popup>
+                      <div className="text-sm">
+                        <strong>
+                          {isStart ? '🟢 Start - ' : isEnd ? '🔴 End - ' : ''}
+                          Waypoint {index + 1}
+                        </strong>
+                        <br />
+                        Lat: {wp.lat.toFixed(6)}
+                        <br />
+                        Lon: {lng?.toFixed(6)}
+                        <br />
+                        Alt: {wp.alt || 0}m
+                        {isStart && <><br /><span style={{color: '#22c55e'}}>● Takeoff Point</span></>}
+                        {isEnd && <><br /><span style={{color: '#ef4444'}}>● Landing Point</span></>}
+                      </div>
+                    </Popup>
+                  </Marker>
+                );
+              })}
+
+              {/* Mission Path */}
+              {selectedMission?.waypoints && selectedMission.waypoints.length > 1 && (
+                <Polyline
+                  positions={selectedMission.waypoints
+                    .filter(wp => isValidCoordinate(wp.lat, getWaypointLongitude(wp)))
+                    .map(wp => [wp.lat, getWaypointLongitude(wp)!])}
+                  color="#3b82f6"
+                  weight={3}
+                  opacity={0.7}
+                  dashArray="10, 10"
+                />
+              )}
+
+              {/* Flight Path */}
+              {flightPath.length > 1 && (
+                <Polyline
+                  positions={flightPath.map(fp => [fp.lat, fp.lon])}
+                  color="#22c55e"
+                  weight={2}
+                  opacity={0.8}
+                />
+              )}
+
+              {/* Drone Position */}
+              {typeof window !== 'undefined' && dronePosition && isValidCoordinate(dronePosition.lat, dronePosition.lon) && (
+                <Marker
+                  position={[dronePosition.lat, dronePosition.lon]}
+                  icon={createDroneIcon({
+                    heading: telemetry?.heading ?? 0,
+                    status: getDroneStatus(
+                      telemetry?.armed ?? false,
+                      telemetry?.flying ?? false,
+                      telemetry?.flightMode
+                    ),
+                    style: 'quadcopter',
+                    size: 56,
+                    showPulse: telemetry?.flying ?? false,
+                    link: link?.state,
+                    linkAge: link?.age,
+                  }) || undefined}
                 >
                   <Popup>
                     <div className="text-sm">
-                      <strong>
-                        {isStart ? '🟢 Start - ' : isEnd ? '🔴 End - ' : ''}
-                        Waypoint {index + 1}
-                      </strong>
+                      <strong>{linkDown ? 'Last Known Position' : 'Drone Position'}</strong>
                       <br />
-                      Lat: {wp.lat.toFixed(6)}
+                      {link && link.state !== 'healthy' && (
+                        <div className={linkDown ? 'text-slate-500' : 'text-amber-600'}>
+                          No new data for {formatLinkAge(link.age)}
+                        </div>
+                      )}
+                      Lat: {Number(dronePosition.lat).toFixed(6)}
                       <br />
-                      Lon: {lng?.toFixed(6)}
+                      Lon: {Number(dronePosition.lon).toFixed(6)}
                       <br />
-                      Alt: {wp.alt || 0}m
-                      {isStart && <><br /><span style={{color: '#22c55e'}}>● Takeoff Point</span></>}
-                      {isEnd && <><br /><span style={{color: '#ef4444'}}>● Landing Point</span></>}
+                      Alt: {Number(dronePosition.alt ?? 0).toFixed(1)}m
                     </div>
                   </Popup>
                 </Marker>
-              );
-            })}
-
-            {/* Mission Path */}
-            {selectedMission?.waypoints && selectedMission.waypoints.length > 1 && (
-              <Polyline
-                positions={selectedMission.waypoints
-                  .filter(wp => isValidCoordinate(wp.lat, getWaypointLongitude(wp)))
-                  .map(wp => [wp.lat, getWaypointLongitude(wp)!])}
-                color="#3b82f6"
-                weight={3}
-                opacity={0.7}
-                dashArray="10, 10"
-              />
-            )}
-
-            {/* Flight Path */}
-            {flightPath.length > 1 && (
-              <Polyline
-                positions={flightPath.map(fp => [fp.lat, fp.lon])}
-                color="#22c55e"
-                weight={2}
-                opacity={0.8}
-              />
-            )}
+              )}
+            </MapContainer>
+
+            {/* Custom Zoom Controls */}
+            <MapZoomControls
+              zoom={mapZoom}
+              onZoomIn={handleZoomIn}
+              onZoomOut={handleZoomOut}
+              onResetZoom={handleResetZoom}
+              onFitMission={handleFitMission}
+              onCenterDrone={handleCenterDrone}
+              followDrone={followDrone}
+              onToggleFollow={handleToggleFollow}
+              hasDronePosition={!!dronePosition && isValidCoordinate(dronePosition.lat, dronePosition.lon)}
+              hasMission={!!selectedMission?.waypoints?.length}
+            />
 
-            {/* Drone Position */}
-            {typeof window !== 'undefined' && dronePosition && isValidCoordinate(dronePosition.lat, dronePosition.lon) && (
-              <Marker
-                position={[dronePosition.lat, dronePosition.lon]}
-                icon={createDroneIcon({
-                  heading: telemetry?.attitude?.yaw || 0,
-                  status: getDroneStatus(
-                    status?.armed ?? false,
-                    status?.flying ?? false,
-                    status?.flight_mode
-                  ),
-                  style: 'quadcopter',
-                  size: 56,
-                  showPulse: status?.flying ?? false,
-                }) || undefined}
-              >
-                <Popup>
-                  <div className="text-sm">
-                    <strong>Drone Position</strong>
-                    <br />
-                    Lat: {Number(dronePosition.lat).toFixed(6)}
-                    <br />
-                    Lon: {Number(dronePosition.lon).toFixed(6)}
-                    <br />
-                    Alt: {Number(dronePosition.alt ?? 0).toFixed(1)}m
+            {/* Mission Progress Overlay */}
+            {missionProgress.total > 0 && (
+              <div className="absolute top-4 left-4 bg-slate-900/90 rounded-lg p-4 z-[1000]">
+                <div className="text-white text-sm">
+                  <div className="font-bold mb-2">Mission Progress</div>
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all duration-300"
+                        style={{
+                          width: `${(missionProgress.current / missionProgress.total) * 100}%`,
+                        }}
+                      />
+                    </div>
+                    <span>
+                      {missionProgress.current}/{missionProgress.total}
+                    </span>
                   </div>
-                </Popup>
-              </Marker>
+                </div>
+              </div>
             )}
-          </MapContainer>
-
-          {/* Custom Zoom Controls */}
-          <MapZoomControls
-            zoom={mapZoom}
-            onZoomIn={handleZoomIn}
-            onZoomOut={handleZoomOut}
-            onResetZoom={handleResetZoom}
-            onFitMission={handleFitMission}
-            onCenterDrone={handleCenterDrone}
-            followDrone={followDrone}
-            onToggleFollow={handleToggleFollow}
-            hasDronePosition={!!dronePosition && isValidCoordinate(dronePosition.lat, dronePosition.lon)}
-            hasMission={!!selectedMission?.waypoints?.length}
-          />
 
-          {/* Mission Progress Overlay */}
-          {missionProgress.total > 0 && (
-            <div className="absolute top-4 left-4 bg-slate-900/90 rounded-lg p-4 z-[1000]">
-              <div className="text-white text-sm">
-                <div className="font-bold mb-2">Mission Progress</div>
-                <div className="flex items-center gap-2">
-                  <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-blue-500 transition-all duration-300"
-                      style={{
-                        width: `${(missionProgress.current / missionProgress.total) * 100}%`,
-                      }}
-                    />
-                  </div>
-                  <span>
-                    {missionProgress.current}/{missionProgress.total}
-                  </span>
-                </div>
+            {/* Follow Mode Indicator */}
+            {followDrone && dronePosition && (
+              <div className="absolute bottom-4 left-4 bg-blue-600/90 text-white px-3 py-1.5 rounded-full text-sm font-medium flex items-center gap-2 z-[1000]">
+                <Navigation className="w-4 h-4 animate-pulse" />
+                Following Drone
               </div>
-            </div>
-          )}
+            )}
+          </div>
 
-          {/* Follow Mode Indicator */}
-          {followDrone && dronePosition && (
-            <div className="absolute bottom-4 left-4 bg-blue-600/90 text-white px-3 py-1.5 rounded-full text-sm font-medium flex items-center gap-2 z-[1000]">
-              <Navigation className="w-4 h-4 animate-pulse" />
-              Following Drone
+          {/* Telemetry Charts */}
+          {showCharts && (
+            <div className="h-[45%] overflow-y-auto border-t border-slate-700 bg-slate-950 p-2">
+              <TelemetryChartsPanel histories={chartHistories} isConnected={isConnected} />
             </div>
           )}
         </div>
@@ -1283,7 +983,6 @@ const DroneFlightVisualization: React.FC<DroneFlightVisualizationProps> = ({
         <div className="w-96 bg-slate-900 border-l border-slate-700 overflow-y-auto">
           <TelemetryDisplay
             telemetry={telemetry}
-            status={status}
             wsConnected={isConnected}
             lastUpdate={lastTelemetryUpdate}
             updateFrequency={updateFrequency}
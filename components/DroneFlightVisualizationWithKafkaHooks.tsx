@@ -29,6 +29,7 @@ import TelemetryDisplay from '@/components/TelemetryDisplay';
 
 // Import Kafka telemetry hook
 import { useKafkaTelemetry, useKafkaStats } from '@/hooks/useKafkaTelemetry';
+import { WEBSOCKET_CONFIG } from '@/config/missionExecution.config';
 
 // Fix Leaflet icons
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -79,7 +80,7 @@ interface FlightPathPoint {
 // CONFIGURATION
 // ============================================================================
 
-const KAFKA_WS_URL = process.env.NEXT_PUBLIC_KAFKA_WS_URL || 'ws://localhost:8002/ws/kafka-telemetry';
+const KAFKA_WS_URL = WEBSOCKET_CONFIG.kafkaUrl;
 
 // ============================================================================
 // HELPERS
@@ -172,11 +173,6 @@ const DroneFlightVisualizationWithKafka: React.FC<DroneFlightVisualizationProps>
   
   const {
     telemetry,
-    position,
-    attitude,
-    battery,
-    gps,
-    velocity,
     isConnected,
     isConnecting,
     error,
@@ -213,14 +209,10 @@ const DroneFlightVisualizationWithKafka: React.FC<DroneFlightVisualizationProps>
   // ============================================================================
 
   const dronePosition = useMemo((): Position | null => {
-    if (!position) return null;
-    const lat = position.lat ?? position.latitude ?? 0;
-    const lon = position.lon ?? position.lng ?? position.longitude ?? 0;
-    const alt = position.alt ?? position.altitude ?? 0;
-    
-    if (!isValidCoordinate(lat, lon)) return null;
-    return { lat, lon, alt };
-  }, [position]);
+    const position = telemetry?.position;
+    if (!position || !isValidCoordinate(position.lat, position.lon)) return null;
+    return { lat: position.lat, lon: position.lon, alt: position.alt };
+  }, [telemetry?.position]);
 
   const mapCenter = useMemo((): [number, number] => {
     if (dronePosition) {
@@ -236,7 +228,7 @@ const DroneFlightVisualizationWithKafka: React.FC<DroneFlightVisualizationProps>
     return [26.8467, 80.9462]; // Default: Lucknow
   }, [dronePosition, selectedMission]);
 
-  const heading = attitude?.yaw ?? 0;
+  const heading = telemetry?.heading ?? 0;
 
   // ============================================================================
   // EFFECTS
@@ -274,22 +266,6 @@ const DroneFlightVisualizationWithKafka: React.FC<DroneFlightVisualizationProps>
     }
   }, [dronePosition]);
 
-  // ============================================================================
-  // STATUS OBJECT FOR TELEMETRY DISPLAY
-  // ============================================================================
-
-  const status = useMemo(() => ({
-    connected: isConnected,
-    armed: telemetry?.armed ?? false,
-    flying: telemetry?.flying ?? false,
-    current_position: dronePosition || { lat: 0, lon: 0, alt: 0 },
-    battery_level: battery?.remaining ?? battery?.level ?? 0,
-    flight_mode: telemetry?.flight_mode ?? telemetry?.mode ?? 'UNKNOWN',
-    mission_active: false,
-    mission_current: telemetry?.mission_current ?? 0,
-    mission_count: telemetry?.mission_count ?? 0,
-  }), [telemetry, dronePosition, battery, isConnected]);
-
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -455,22 +431,7 @@ const DroneFlightVisualizationWithKafka: React.FC<DroneFlightVisualizationProps>
         {/* Telemetry Panel */}
         <div className="w-96 bg-slate-900 border-l border-slate-700 overflow-y-auto">
           <TelemetryDisplay
-            telemetry={{
-              position: dronePosition ? {
-                lat: dronePosition.lat,
-                lon: dronePosition.lon,
-                alt: dronePosition.alt,
-              } : undefined,
-              velocity,
-              attitude,
-              battery,
-              gps: gps ? {
-                satellites: gps.satellites ?? gps.num_satellites ?? 0,
-                fix_type: gps.fix_type ?? 0,
-                hdop: gps.hdop ?? 0,
-              } : undefined,
-            }}
-            status={status}
+            telemetry={telemetry}
             wsConnected={isConnected}
             lastUpdate={lastUpdate ?? undefined}
             updateFrequency={messageRate}
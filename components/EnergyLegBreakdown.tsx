@@ -0,0 +1,88 @@
+/**
+ * Energy Leg Breakdown
+ * Collapsible per-leg energy table from the energy model: distance, climb,
+ * time, energy and the battery left after each leg, with legs that end below
+ * the reserve in red
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { LegEnergy } from '@/utils/energyModel';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(0)} m`;
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest.toString().padStart(2, '0')}s` : `${rest}s`;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+interface EnergyLegBreakdownProps {
+  legs: LegEnergy[];
+  reservePercent?: number; // legs ending below it are flagged
+  className?: string;
+}
+
+const EnergyLegBreakdown: React.FC<EnergyLegBreakdownProps> = ({ legs, reservePercent, className = '' }) => {
+  const [open, setOpen] = useState(false);
+
+  if (legs.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Energy by leg ({legs.length})
+      </button>
+      {open && (
+        <div className="mt-2 max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-800 text-slate-400">
+              <tr>
+                <th className="text-left font-normal py-1">Leg</th>
+                <th className="text-right font-normal">Distance</th>
+                <th className="text-right font-normal">Climb</th>
+                <th className="text-right font-normal">Time</th>
+                <th className="text-right font-normal">Energy</th>
+                <th className="text-right font-normal">Battery</th>
+              </tr>
+            </thead>
+            <tbody>
+              {legs.map(leg => (
+                <tr key={leg.index} className="border-t border-slate-700/50">
+                  <td className="py-0.5 text-slate-400">{leg.index + 1}</td>
+                  <td className="text-right">{formatDistance(leg.distance)}</td>
+                  <td className="text-right">{leg.climb > 0 ? '+' : ''}{leg.climb.toFixed(0)} m</td>
+                  <td className="text-right">{formatDuration(leg.duration)}</td>
+                  <td className="text-right">{leg.energy.toFixed(1)} Wh</td>
+                  <td className={`text-right ${
+                    reservePercent !== undefined && leg.batteryRemaining < reservePercent ? 'text-red-400' : 'text-green-400'
+                  }`}>
+                    {leg.batteryRemaining.toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnergyLegBreakdown;
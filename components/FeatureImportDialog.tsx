@@ -0,0 +1,173 @@
+/**
+ * Feature Import Dialog
+ * Lets the user choose how each feature of an imported GIS file is used
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { MapPin, Minus, Hexagon, X } from 'lucide-react';
+import { GeoFeature, GeoFeatureGeometry, GeoFeatureRole, GeoFeatureSelection } from '@/types/geoFeatures';
+import {
+  AttributeMapping,
+  GEO_FEATURE_ROLE_LABELS,
+  applyAttributeMapping,
+  attributeFields,
+  rolesForFeature,
+  suggestAttributeMapping,
+  suggestRoles,
+} from '@/utils/geoFeatures';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FeatureImportDialogProps {
+  fileName: string;
+  features: GeoFeature[];
+  allowedRoles?: GeoFeatureRole[];
+  onConfirm: (selections: GeoFeatureSelection[]) => void;
+  onCancel: () => void;
+}
+
+const GEOMETRY_ICONS: Record<GeoFeatureGeometry, React.ReactNode> = {
+  polygon: <Hexagon size={14} className="text-blue-400" />,
+  linestring: <Minus size={14} className="text-amber-400" />,
+  point: <MapPin size={14} className="text-green-400" />,
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FeatureImportDialog: React.FC<FeatureImportDialogProps> = ({
+  fileName,
+  features,
+  allowedRoles,
+  onConfirm,
+  onCancel,
+}) => {
+  const fields = useMemo(() => attributeFields(features), [features]);
+  const [mapping, setMapping] = useState<AttributeMapping>(() => suggestAttributeMapping(fields));
+  const mappedFeatures = useMemo(() => applyAttributeMapping(features, mapping), [features, mapping]);
+  const [roles, setRoles] = useState<GeoFeatureRole[]>(() => suggestRoles(mappedFeatures, allowedRoles));
+
+  const setRole = (index: number, role: GeoFeatureRole) => {
+    setRoles(prev => prev.map((r, i) => (i === index ? role : r)));
+  };
+
+  const setAll = (role: GeoFeatureRole) => {
+    setRoles(prev => prev.map((r, i) => (rolesForFeature(features[i], allowedRoles).includes(role) ? role : r)));
+  };
+
+  const selectedCount = roles.filter(role => role !== 'ignore').length;
+
+  const confirm = () => {
+    onConfirm(
+      mappedFeatures
+        .map((feature, index) => ({ feature, role: roles[index] }))
+        .filter(selection => selection.role !== 'ignore')
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[2000]">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-[32rem] max-h-[80vh] flex flex-col text-white">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700">
+          <div>
+            <h2 className="text-lg font-semibold">Import Features</h2>
+            <p className="text-xs text-slate-400">{fileName} · {features.length} features</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        {fields.length > 0 && (
+          <div className="grid grid-cols-2 gap-3 px-5 py-3 border-b border-slate-700 text-xs">
+            <label className="block">
+              <span className="block text-slate-400 mb-1">Name column</span>
+              <select
+                value={mapping.nameField ?? ''}
+                onChange={(e) => setMapping(prev => ({ ...prev, nameField: e.target.value || undefined }))}
+                className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded-md"
+              >
+                <option value="">(file names)</option>
+                {fields.map(field => <option key={field} value={field}>{field}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-slate-400 mb-1">Height column (m, obstacle ceiling)</span>
+              <select
+                value={mapping.altitudeField ?? ''}
+                onChange={(e) => setMapping(prev => ({ ...prev, altitudeField: e.target.value || undefined }))}
+                className="w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded-md"
+              >
+                <option value="">(none)</option>
+                {fields.map(field => <option key={field} value={field}>{field}</option>)}
+              </select>
+            </label>
+          </div>
+        )}
+
+        <div className="flex gap-2 px-5 py-2 border-b border-slate-700 text-xs">
+          <span className="text-slate-400 py-1">Set all:</span>
+          {(['obstacle', 'waypoint', 'ignore'] as GeoFeatureRole[])
+            .filter(role => role === 'ignore' || !allowedRoles || allowedRoles.includes(role))
+            .map(role => (
+              <button
+                key={role}
+                onClick={() => setAll(role)}
+                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded"
+              >
+                {GEO_FEATURE_ROLE_LABELS[role]}
+              </button>
+            ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3 space-y-2">
+          {mappedFeatures.map((feature, index) => (
+            <div key={feature.id} className="flex items-center gap-3 bg-slate-700 p-2 rounded-md text-sm">
+              {GEOMETRY_ICONS[feature.geometry]}
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{feature.name}</div>
+                <div className="text-xs text-slate-400 truncate">
+                  {feature.folder ? `${feature.folder} · ` : ''}
+                  {feature.geometry === 'point' ? 'Point' : `${feature.coordinates.length} vertices`}
+                  {feature.altitudes?.some(alt => alt > 0) ? ` · ${Math.round(Math.max(...feature.altitudes))} m` : ''}
+                </div>
+              </div>
+              <select
+                value={roles[index]}
+                onChange={(e) => setRole(index, e.target.value as GeoFeatureRole)}
+                className="px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-xs"
+              >
+                {rolesForFeature(feature, allowedRoles).map(role => (
+                  <option key={role} value={role}>{GEO_FEATURE_ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 px-5 py-4 border-t border-slate-700">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-md"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={confirm}
+            disabled={selectedCount === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-md font-medium"
+          >
+            Import {selectedCount}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureImportDialog;
@@ -0,0 +1,174 @@
+/**
+ * Flight Log Analysis
+ * Post-flight view of a recording: the flown track against the planned
+ * waypoints, and altitude, battery, attitude, GPS and vibration plots
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CircleMarker, MapContainer, Polyline, TileLayer, Tooltip } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import FlightLogChart from '@/components/FlightLogChart';
+import { getRecordingTelemetry } from '@/services/flightLogService';
+import { FlightRecording } from '@/types/flightRecording';
+import { VehicleTelemetry } from '@/types/telemetry';
+import { flightLogCharts } from '@/utils/flightLog';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FlightLogAnalysisProps {
+  recording: FlightRecording;
+  warnings?: string[]; // from the import, shown above the plots
+}
+
+type LatLng = [number, number];
+
+/**
+ * Waypoints of the mission stored with the recording. Missions from the API
+ * and the flight views use lon or lng.
+ */
+const plannedRoute = (mission: unknown): LatLng[] => {
+  const waypoints = (mission as { waypoints?: unknown } | undefined)?.waypoints;
+  if (!Array.isArray(waypoints)) return [];
+
+  return waypoints.flatMap((wp): LatLng[] => {
+    const lat = Number(wp?.lat);
+    const lon = Number(wp?.lon ?? wp?.lng);
+    return Number.isFinite(lat) && Number.isFinite(lon) ? [[lat, lon]] : [];
+  });
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightLogAnalysis: React.FC<FlightLogAnalysisProps> = ({ recording, warnings = [] }) => {
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTelemetry(null);
+    setError(null);
+
+    getRecordingTelemetry(recording.id)
+      .then((samples) => {
+        if (!cancelled) setTelemetry(samples);
+      })
+      .catch((err) => {
+        console.error('Error loading flight telemetry:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load flight');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.id]);
+
+  const track = useMemo<LatLng[]>(
+    () => (telemetry ?? []).flatMap((s): LatLng[] => (s.position ? [[s.position.lat, s.position.lon]] : [])),
+    [telemetry]
+  );
+  const planned = useMemo(() => plannedRoute(recording.mission), [recording.mission]);
+  const charts = useMemo(() => flightLogCharts(telemetry ?? []), [telemetry]);
+
+  if (error) {
+    return <p className="text-sm text-red-400 p-4">{error}</p>;
+  }
+
+  if (!telemetry) {
+    return (
+      <div className="flex items-center justify-center p-8 text-slate-400">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading flight...
+      </div>
+    );
+  }
+
+  const startedAt = telemetry[0]?.timestamp ?? recording.startedAt;
+  const endedAt = telemetry[telemetry.length - 1]?.timestamp ?? recording.endedAt ?? startedAt;
+  const altitudes = telemetry.flatMap(s => (s.position ? [s.position.alt] : []));
+  const bounds = [...track, ...planned];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-3 text-sm">
+        <div className="bg-slate-900 rounded-lg p-3">
+          <div className="text-slate-400 text-xs">Duration</div>
+          <div className="text-white font-medium">{formatDuration(endedAt - startedAt)}</div>
+        </div>
+        <div className="bg-slate-900 rounded-lg p-3">
+          <div className="text-slate-400 text-xs">Samples</div>
+          <div className="text-white font-medium">{telemetry.length}</div>
+        </div>
+        <div className="bg-slate-900 rounded-lg p-3">
+          <div className="text-slate-400 text-xs">Max Altitude</div>
+          <div className="text-white font-medium">
+            {altitudes.length > 0 ? `${Math.max(...altitudes).toFixed(0)} m` : 'N/A'}
+          </div>
+        </div>
+        <div className="bg-slate-900 rounded-lg p-3">
+          <div className="text-slate-400 text-xs">Source</div>
+          <div className="text-white font-medium truncate">
+            {recording.importedFrom ? recording.importedFrom.fileName : 'Recorded live'}
+          </div>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-3 space-y-1">
+          {warnings.map(warning => (
+            <p key={warning} className="flex items-center gap-2 text-xs text-yellow-400">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {bounds.length > 0 ? (
+        <div className="h-72 rounded-lg overflow-hidden border border-slate-700">
+          <MapContainer bounds={bounds} boundsOptions={{ padding: [20, 20] }} style={{ height: '100%', width: '100%' }}>
+            <TileLayer
+              url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
+              attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
+            />
+            {planned.length > 1 && (
+              <Polyline positions={planned} pathOptions={{ color: '#a78bfa', weight: 2, dashArray: '6, 6' }} />
+            )}
+            {planned.map((point, index) => (
+              <CircleMarker key={index} center={point} radius={5} pathOptions={{ color: '#a78bfa', fillOpacity: 0.8 }}>
+                <Tooltip>Waypoint {index + 1}</Tooltip>
+              </CircleMarker>
+            ))}
+            {track.length > 1 && <Polyline positions={track} pathOptions={{ color: '#38bdf8', weight: 3 }} />}
+          </MapContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">The flight has no position data to show on the map.</p>
+      )}
+
+      <div className="flex items-center gap-4 text-xs text-slate-400">
+        <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 bg-sky-400" /> Flown track</span>
+        <span className="flex items-center gap-1.5"><span className="w-4 h-0.5 border-t-2 border-dashed border-violet-400" /> Planned route</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {charts.map(chart => (
+          <FlightLogChart key={chart.key} chart={chart} startedAt={startedAt} endedAt={endedAt} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FlightLogAnalysis;
@@ -0,0 +1,93 @@
+/**
+ * Flight Log Chart
+ * Line chart of one flight log series against flight time
+ */
+
+'use client';
+
+import React from 'react';
+import { FlightLogChart as FlightLogChartData } from '@/types/flightLog';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FlightLogChartProps {
+  chart: FlightLogChartData;
+  startedAt: number; // epoch ms, the time axis origin
+  endedAt: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 120;
+
+const formatMinutes = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(1);
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightLogChart: React.FC<FlightLogChartProps> = ({ chart, startedAt, endedAt }) => {
+  const values = chart.lines.flatMap(line => line.points.map(([, value]) => value));
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const duration = Math.max(endedAt - startedAt, 1);
+  const x = (t: number) => ((t - startedAt) / duration) * WIDTH;
+  const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-white">
+          {chart.label}{chart.unit && <span className="text-slate-400"> ({chart.unit})</span>}
+        </span>
+        <div className="flex items-center gap-3">
+          {chart.lines.map(line => (
+            <span key={line.name} className="flex items-center gap-1 text-xs text-slate-300">
+              <span className="w-2.5 h-0.5" style={{ backgroundColor: line.color }} />
+              {line.name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[10px] text-slate-500 text-right w-8">
+          <span>{formatValue(max)}</span>
+          <span>{formatValue(min)}</span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="flex-1 h-28">
+          <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" />
+          {chart.lines.map(line => (
+            <polyline
+              key={line.name}
+              points={line.points.map(([t, value]) => `${x(t).toFixed(1)},${y(value).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex justify-between text-[10px] text-slate-500 ml-10">
+        <span>0:00</span>
+        <span>{formatMinutes(duration)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default FlightLogChart;
@@ -0,0 +1,148 @@
+/**
+ * Flight Log Dialog
+ * Imports .ulg and .tlog flight logs into a mission and opens its recorded
+ * flights for analysis or replay
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { ArrowLeft, Loader2, PlayCircle, Upload, X } from 'lucide-react';
+import FlightRecordingList from '@/components/FlightRecordingList';
+import { FLIGHT_LOG_ACCEPT, attachFlightLog, readFlightLog } from '@/services/flightLogService';
+import { FlightRecording } from '@/types/flightRecording';
+
+// Leaflet needs the browser
+const FlightLogAnalysis = dynamic(() => import('@/components/FlightLogAnalysis'), { ssr: false });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FlightLogDialogMission {
+  id: string;
+  name?: string;
+  waypoints: { lat: number; lon?: number; lng?: number; alt?: number }[];
+}
+
+interface FlightLogDialogProps {
+  mission: FlightLogDialogMission;
+  onClose: () => void;
+}
+
+interface Selection {
+  recording: FlightRecording;
+  warnings: string[];
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightLogDialog: React.FC<FlightLogDialogProps> = ({ mission, onClose }) => {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [listVersion, setListVersion] = useState(0); // remounts the list after an import
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const log = await readFlightLog(file);
+      const recording = await attachFlightLog(log, { id: mission.id, name: mission.name, mission });
+      toast.success(`${file.name} imported`);
+      setListVersion(prev => prev + 1);
+      setSelected({ recording, warnings: log.warnings });
+    } catch (err) {
+      console.error('Error importing flight log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import flight log');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const replay = (recording: FlightRecording) => {
+    router.push(`/dashboard/flight-monitor?replay=${recording.id}`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[2000]">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-[56rem] max-h-[90vh] flex flex-col text-white">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700">
+          <div className="flex items-center gap-3">
+            {selected && (
+              <button
+                onClick={() => setSelected(null)}
+                className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                title="All flights"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </button>
+            )}
+            <div>
+              <h2 className="text-lg font-semibold">Flight Logs</h2>
+              <p className="text-xs text-slate-400">
+                {mission.name || `Mission ${mission.id}`}
+                {selected && ` · ${new Date(selected.recording.startedAt).toLocaleString()}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {selected ? (
+              <button
+                onClick={() => replay(selected.recording)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-sm"
+              >
+                <PlayCircle className="w-4 h-4" />
+                Replay
+              </button>
+            ) : (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importing}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import .ulg / .tlog
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept={FLIGHT_LOG_ACCEPT} onChange={handleFile} className="hidden" />
+            <button onClick={onClose} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+          {selected ? (
+            <FlightLogAnalysis recording={selected.recording} warnings={selected.warnings} />
+          ) : (
+            <div className="border border-slate-700 rounded-lg">
+              <FlightRecordingList
+                key={listVersion}
+                missionId={mission.id}
+                onAnalyze={(recording) => setSelected({ recording, warnings: [] })}
+                onReplay={replay}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlightLogDialog;
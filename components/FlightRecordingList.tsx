@@ -0,0 +1,117 @@
+/**
+ * Flight Recording List
+ * Stored flight recordings, newest first, with replay and delete actions
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Circle, FileUp, LineChart, PlayCircle, Trash2 } from 'lucide-react';
+import { useFlightRecordings } from '@/hooks/useFlightRecording';
+import { FlightRecording } from '@/types/flightRecording';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FlightRecordingListProps {
+  missionId?: string; // only this mission's recordings
+  onReplay: (recording: FlightRecording) => void;
+  onAnalyze?: (recording: FlightRecording) => void;
+}
+
+const formatDuration = (recording: FlightRecording): string => {
+  if (!recording.endedAt) return 'incomplete';
+  const seconds = Math.round((recording.endedAt - recording.startedAt) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightRecordingList: React.FC<FlightRecordingListProps> = ({ missionId, onReplay, onAnalyze }) => {
+  const { recordings, active, loading, error, remove } = useFlightRecordings();
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const activeIds = new Set(active.map(recording => recording.id));
+  const shown = missionId ? recordings.filter(recording => recording.missionId === missionId) : recordings;
+
+  const handleDelete = async (recording: FlightRecording) => {
+    if (!window.confirm(`Delete the recording of ${recording.missionName || recording.missionId}?`)) return;
+    setDeleting(recording.id);
+    try {
+      await remove(recording.id);
+    } catch (err) {
+      console.error('Error deleting recording:', err);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-400 p-3">{error}</p>;
+  }
+
+  if (!loading && shown.length === 0) {
+    return <p className="text-sm text-slate-400 p-3">No recordings yet. Flights are recorded while a mission is shown live, or imported from flight logs.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-700 max-h-80 overflow-y-auto">
+      {shown.map(recording => {
+        const isActive = activeIds.has(recording.id);
+
+        return (
+          <li key={recording.id} className="flex items-center gap-3 px-3 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-sm text-white truncate">
+                {isActive && <Circle className="w-3 h-3 text-red-500 fill-red-500 animate-pulse" />}
+                {recording.importedFrom && (
+                  <span title={`Imported from ${recording.importedFrom.fileName}`}>
+                    <FileUp className="w-3.5 h-3.5 text-slate-400" />
+                  </span>
+                )}
+                {recording.missionName || `Mission ${recording.missionId}`}
+              </div>
+              <div className="text-xs text-slate-400">
+                {new Date(recording.startedAt).toLocaleString()} · {isActive ? 'recording' : formatDuration(recording)}
+                {' · '}{recording.telemetryCount} samples
+                {recording.alertCount > 0 && ` · ${recording.alertCount} alerts`}
+              </div>
+            </div>
+
+            {onAnalyze && (
+              <button
+                onClick={() => onAnalyze(recording)}
+                disabled={isActive}
+                className="p-1.5 rounded text-sky-400 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Analyze"
+              >
+                <LineChart className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => onReplay(recording)}
+              disabled={isActive}
+              className="p-1.5 rounded text-purple-400 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Replay"
+            >
+              <PlayCircle className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => handleDelete(recording)}
+              disabled={isActive || deleting === recording.id}
+              className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default FlightRecordingList;
@@ -0,0 +1,142 @@
+/**
+ * Flight Replay Bar
+ * Play, pause, speed and a scrub bar for a flight replay, with command and
+ * alert markers on the timeline
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import FlightReplayPlayer from '@/services/flightReplayPlayer';
+import { useReplayState } from '@/hooks/useFlightRecording';
+import { REPLAY_SPEEDS, ReplaySpeed } from '@/types/flightRecording';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FlightReplayBarProps {
+  player: FlightReplayPlayer;
+  onClose?: () => void;
+}
+
+interface TimelineMarker {
+  position: number; // 0-1 along the timeline
+  kind: 'command' | 'alert';
+  label: string;
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightReplayBar: React.FC<FlightReplayBarProps> = ({ player, onClose }) => {
+  const state = useReplayState(player);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  const markers = useMemo<TimelineMarker[]>(() => {
+    const { startedAt } = player.recording;
+    const duration = player.getReplayState().duration || 1;
+
+    return player.getEvents().flatMap((event): TimelineMarker[] => {
+      if (event.kind === 'command') {
+        return [{ position: (event.t - startedAt) / duration, kind: 'command', label: event.data.command }];
+      }
+      if (event.kind === 'alert') {
+        return [{
+          position: (event.t - startedAt) / duration,
+          kind: 'alert',
+          label: `${event.data.level} - ${event.data.zoneName}`,
+        }];
+      }
+      if (event.kind === 'telemetry_alert') {
+        return [{
+          position: (event.t - startedAt) / duration,
+          kind: 'alert',
+          label: `${event.data.severity} ${event.data.event} - ${event.data.message}`,
+        }];
+      }
+      return [];
+    });
+  }, [player]);
+
+  if (!state) return null;
+
+  const position = scrubPosition ?? state.position;
+
+  const commitScrub = () => {
+    if (scrubPosition === null) return;
+    player.seek(scrubPosition);
+    setScrubPosition(null);
+  };
+
+  return (
+    <div className="bg-slate-900 border-t border-slate-700 px-4 py-2 flex items-center gap-3">
+      <button
+        onClick={() => (state.playing ? player.pause() : player.play())}
+        className="p-2 rounded bg-purple-600 hover:bg-purple-700 text-white"
+        title={state.playing ? 'Pause' : 'Play'}
+      >
+        {state.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+
+      <span className="text-xs font-mono text-slate-300 w-24 text-right">
+        {formatTime(position)} / {formatTime(state.duration)}
+      </span>
+
+      <div className="relative flex-1 h-6 flex items-center">
+        {markers.map((marker, index) => (
+          <div
+            key={index}
+            title={marker.label}
+            className={`absolute top-0 h-2 w-0.5 ${marker.kind === 'alert' ? 'bg-red-500' : 'bg-blue-400'}`}
+            style={{ left: `${Math.min(Math.max(marker.position, 0), 1) * 100}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={state.duration}
+          step={100}
+          value={position}
+          onChange={(e) => setScrubPosition(Number(e.target.value))}
+          onPointerUp={commitScrub}
+          onKeyUp={commitScrub}
+          className="w-full accent-purple-500"
+        />
+      </div>
+
+      <select
+        value={state.speed}
+        onChange={(e) => player.setSpeed(Number(e.target.value) as ReplaySpeed)}
+        className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+      >
+        {REPLAY_SPEEDS.map(speed => (
+          <option key={speed} value={speed}>{speed}x</option>
+        ))}
+      </select>
+
+      {onClose && (
+        <button
+          onClick={onClose}
+          className="p-2 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+          title="Exit replay"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FlightReplayBar;
@@ -0,0 +1,122 @@
+/**
+ * Flight Replay Provider
+ * Loads a flight recording and runs its children against the replay instead
+ * of the live telemetry, with the replay bar docked at the bottom
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import FlightReplayBar from '@/components/FlightReplayBar';
+import { FlightReplayContext } from '@/hooks/useFlightRecording';
+import { KafkaTelemetryContext } from '@/hooks/useKafkaTelemetry';
+import { TelemetryConnectionContext } from '@/hooks/useTelemetryStream';
+import { WEBSOCKET_CONFIG } from '@/config/missionExecution.config';
+import FlightReplayPlayer from '@/services/flightReplayPlayer';
+import { KafkaTelemetryService } from '@/services/kafkaTelemetryService';
+import { FlightRecording } from '@/types/flightRecording';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FlightReplayProviderProps {
+  recordingId: string;
+  onClose?: () => void;
+  children: (recording: FlightRecording) => React.ReactNode;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const FlightReplayProvider: React.FC<FlightReplayProviderProps> = ({ recordingId, onClose, children }) => {
+  const [player, setPlayer] = useState<FlightReplayPlayer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Views keep state built from earlier samples, so a seek remounts them
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: FlightReplayPlayer | null = null;
+
+    setPlayer(null);
+    setError(null);
+
+    FlightReplayPlayer.load(recordingId)
+      .then((result) => {
+        if (cancelled) {
+          result.dispose();
+          return;
+        }
+        loaded = result;
+        setPlayer(result);
+      })
+      .catch((err) => {
+        console.error('Error loading flight recording:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recording');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [recordingId]);
+
+  useEffect(() => {
+    if (!player) return;
+    return player.onSeek(() => setGeneration(prev => prev + 1));
+  }, [player]);
+
+  // Hooks built on the Kafka service read the replay through their own
+  // instance, renewed with each generation so remounted hooks get the history
+  const [kafkaService, setKafkaService] = useState<KafkaTelemetryService | null>(null);
+
+  useEffect(() => {
+    if (!player) {
+      setKafkaService(null);
+      return;
+    }
+
+    const service = new KafkaTelemetryService({ wsUrl: WEBSOCKET_CONFIG.kafkaUrl }, player);
+    setKafkaService(service);
+    return () => service.disconnect();
+  }, [player, generation]);
+
+  if (error) {
+    return (
+      <div className="h-screen w-full bg-slate-950 flex items-center justify-center">
+        <p className="text-red-400">Could not open recording: {error}</p>
+      </div>
+    );
+  }
+
+  if (!player || !kafkaService) {
+    return (
+      <div className="h-screen w-full bg-slate-950 flex items-center justify-center text-slate-400">
+        <Loader2 className="w-6 h-6 animate-spin mr-2" />
+        Loading recording...
+      </div>
+    );
+  }
+
+  return (
+    <FlightReplayContext.Provider value={player}>
+      <TelemetryConnectionContext.Provider value={player}>
+        <KafkaTelemetryContext.Provider value={kafkaService}>
+          <React.Fragment key={generation}>
+            {children(player.recording)}
+          </React.Fragment>
+        </KafkaTelemetryContext.Provider>
+      </TelemetryConnectionContext.Provider>
+
+      <div className="fixed bottom-0 inset-x-0 z-[1100]">
+        <FlightReplayBar player={player} onClose={onClose} />
+      </div>
+    </FlightReplayContext.Provider>
+  );
+};
+
+export default FlightReplayProvider;
@@ -0,0 +1,153 @@
+/**
+ * Geofence Alert Panel
+ * Lists open geofence alerts and lets the operator confirm an RTL or hold
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Home, Pause, ShieldAlert } from 'lucide-react';
+import { GeofenceAlert, BreachResponse, GeofenceViolationReason } from '@/types/geofence';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GeofenceAlertPanelProps {
+  alerts: GeofenceAlert[];
+  onAcknowledge: (alertId: string) => void;
+  onRespond?: (vehicleId: string, response: BreachResponse) => Promise<void>;
+}
+
+const REASON_LABELS: Record<GeofenceViolationReason, string> = {
+  outside: 'outside',
+  inside: 'inside',
+  above: 'above the ceiling of',
+  below: 'below the floor of',
+};
+
+const RESPONSE_LABELS: Record<BreachResponse, string> = {
+  rtl: 'Return to launch',
+  hold: 'Hold position',
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const GeofenceAlertPanel: React.FC<GeofenceAlertPanelProps> = ({ alerts, onAcknowledge, onRespond }) => {
+  const [pending, setPending] = useState<{ alertId: string; response: BreachResponse } | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  const confirm = async (alert: GeofenceAlert, response: BreachResponse) => {
+    if (!onRespond) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onRespond(alert.vehicleId, response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `${RESPONSE_LABELS[response]} failed`);
+    } finally {
+      setSending(false);
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-red-400">
+        <ShieldAlert size={16} />
+        <span>Geofence Alerts ({alerts.length})</span>
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {alerts.map((alert) => {
+        const breach = alert.level === 'breach';
+        const confirming = pending?.alertId === alert.id ? pending.response : null;
+
+        return (
+          <div
+            key={alert.id}
+            className={`p-2 rounded-md border text-xs ${
+              breach ? 'bg-red-900/40 border-red-600' : 'bg-amber-900/30 border-amber-600'
+            } ${alert.acknowledged ? 'opacity-70' : ''}`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle size={14} className={breach ? 'text-red-400 mt-0.5' : 'text-amber-400 mt-0.5'} />
+                <div>
+                  <div className={`font-semibold ${breach ? 'text-red-300' : 'text-amber-300'}`}>
+                    {breach ? 'BREACH' : `Breach in ~${alert.timeToBreach}s`}: {alert.vehicleId}
+                  </div>
+                  <div className="text-slate-300">
+                    {breach ? 'Now' : 'Heading'} {REASON_LABELS[alert.reason]} {alert.zoneName}
+                  </div>
+                  <div className="text-slate-500">
+                    {alert.position.lat.toFixed(5)}, {alert.position.lon.toFixed(5)} · {alert.position.alt.toFixed(0)}m
+                  </div>
+                  {alert.response && (
+                    <div className="text-green-400 mt-1">{RESPONSE_LABELS[alert.response]} sent</div>
+                  )}
+                </div>
+              </div>
+              {!alert.acknowledged && (
+                <button
+                  onClick={() => onAcknowledge(alert.id)}
+                  className="p-1 text-slate-400 hover:text-white"
+                  title="Acknowledge"
+                >
+                  <Check size={14} />
+                </button>
+              )}
+            </div>
+
+            {onRespond && !alert.response && (
+              confirming ? (
+                <div className="flex items-center space-x-2 mt-2">
+                  <span className="flex-1 text-slate-200">{RESPONSE_LABELS[confirming]} {alert.vehicleId}?</span>
+                  <button
+                    onClick={() => confirm(alert, confirming)}
+                    disabled={sending}
+                    className="px-2 py-1 bg-red-600 hover:bg-red-700 disabled:bg-slate-600 text-white rounded"
+                  >
+                    {sending ? 'Sending...' : 'Confirm'}
+                  </button>
+                  <button
+                    onClick={() => setPending(null)}
+                    disabled={sending}
+                    className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex space-x-2 mt-2">
+                  <button
+                    onClick={() => setPending({ alertId: alert.id, response: 'rtl' })}
+                    className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 rounded"
+                  >
+                    <Home size={12} />
+                    <span>RTL</span>
+                  </button>
+                  <button
+                    onClick={() => setPending({ alertId: alert.id, response: 'hold' })}
+                    className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-200 rounded"
+                  >
+                    <Pause size={12} />
+                    <span>Hold</span>
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GeofenceAlertPanel;
@@ -0,0 +1,780 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { MapContainer, TileLayer, Polygon, Polyline, Circle, CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+import { Shield, Search, Plus, Save, Trash2, Upload, History, RotateCcw, MapPin, Hexagon, Circle as CircleIcon, X } from 'lucide-react'
+import { vehiclesData } from '@/lib/data'
+import { LatLngPoint } from '@/types/gridMission'
+import { GeofenceSet, GeofenceSetVersion, GeofenceZone, GeofenceZoneKind, RallyPoint } from '@/types/geofence'
+import { getMissions } from '@/services/missionService'
+import {
+  deleteGeofenceSet,
+  getGeofenceSetVersions,
+  listGeofenceSets,
+  restoreGeofenceSetVersion,
+  saveGeofenceSet,
+  uploadGeofencesToVehicle,
+} from '@/services/geofenceLibraryService'
+import { obstacleToGeofenceZone } from '@/utils/geofence'
+import { featureToObstacle } from '@/utils/geoFeatures'
+import { loadKmlFile } from '@/utils/kml'
+import { parseGeoJson } from '@/utils/geojson'
+import { loadShapefile } from '@/utils/shapefile'
+import { GeoFeature } from '@/types/geoFeatures'
+
+type DrawTool = 'polygon' | 'circle' | 'rally'
+
+interface MissionOption {
+  id: string
+  name: string
+}
+
+// Mission list entry, as the mission database returns it
+interface MissionRecord {
+  id: number | string
+  mission_name?: string
+  name?: string
+}
+
+const DEFAULT_CENTER: [number, number] = [26.8467, 80.9462]
+const DEFAULT_RALLY_ALTITUDE = 30 // meters above home
+
+const ZONE_COLORS: Record<GeofenceZoneKind, string> = {
+  inclusion: '#22c55e',
+  exclusion: '#ef4444',
+}
+
+const emptySet = (): GeofenceSet => ({
+  name: 'New geofence set',
+  version: 0,
+  zones: [],
+  rallyPoints: [],
+  assignment: { missionIds: [], vehicleIds: [] },
+})
+
+function MapClickHandler({ onClick }: { onClick: (point: LatLngPoint) => void }) {
+  useMapEvents({
+    click: (e) => onClick({ lat: e.latlng.lat, lng: e.latlng.lng }),
+  })
+  return null
+}
+
+// South, west, north and east edges of a set's fences and rally points
+function setBounds(set: GeofenceSet | null): [number, number, number, number] | null {
+  if (!set) return null
+  const points: [number, number][] = [
+    ...set.zones.flatMap(zone => zone.type === 'circle' && zone.center
+      ? [[zone.center.lat, zone.center.lng] as [number, number]]
+      : zone.vertices.map(v => [v.lat, v.lng] as [number, number])),
+    ...set.rallyPoints.map(p => [p.lat, p.lon] as [number, number]),
+  ]
+  if (points.length === 0) return null
+
+  const lats = points.map(([lat]) => lat)
+  const lngs = points.map(([, lng]) => lng)
+  return [Math.min(...lats), Math.min(...lngs), Math.max(...lats), Math.max(...lngs)]
+}
+
+// Frame the selected set's fences and rally points when their bounds change
+function FitToSet({ set }: { set: GeofenceSet | null }) {
+  const map = useMap()
+  const [south, west, north, east] = setBounds(set) ?? [NaN, NaN, NaN, NaN]
+
+  useEffect(() => {
+    if (Number.isNaN(south)) return
+    if (south === north && west === east) {
+      map.setView([south, west], 15)
+    } else {
+      map.fitBounds([[south, west], [north, east]], { padding: [40, 40] })
+    }
+  }, [map, south, west, north, east])
+
+  return null
+}
+
+export default function GeofenceLibrary() {
+  const [sets, setSets] = useState<GeofenceSet[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState<string>('')
+  const [selected, setSelected] = useState<GeofenceSet | null>(null)
+  const [versions, setVersions] = useState<GeofenceSetVersion[]>([])
+  const [missions, setMissions] = useState<MissionOption[]>([])
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [uploadVehicleId, setUploadVehicleId] = useState<string>(vehiclesData[0]?.id ?? '')
+
+  // Drawing
+  const [drawTool, setDrawTool] = useState<DrawTool | null>(null)
+  const [drawKind, setDrawKind] = useState<GeofenceZoneKind>('exclusion')
+  const [draftVertices, setDraftVertices] = useState<LatLngPoint[]>([])
+  const [circleRadius, setCircleRadius] = useState(100)
+
+  const showError = (error: unknown, fallback: string) => {
+    setStatus({ type: 'error', text: error instanceof Error ? error.message : fallback })
+  }
+
+  // ============================================================================
+  // LOADING
+  // ============================================================================
+
+  useEffect(() => {
+    listGeofenceSets()
+      .then(setSets)
+      .catch((error: unknown) => setStatus({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load geofences' }))
+      .finally(() => setLoading(false))
+
+    getMissions({ limit: 200 })
+      .then((response: MissionRecord[] | { missions?: MissionRecord[] }) => {
+        const list = Array.isArray(response) ? response : response?.missions || []
+        setMissions(list.map(m => ({ id: String(m.id), name: m.mission_name || m.name || `Mission ${m.id}` })))
+      })
+      .catch((error: unknown) => console.error('Error loading missions for assignment:', error))
+  }, [])
+
+  const selectSet = async (set: GeofenceSet) => {
+    setSelected(set)
+    setDrawTool(null)
+    setDraftVertices([])
+    setVersions([])
+    if (!set.id) return
+
+    try {
+      setVersions(await getGeofenceSetVersions(set.id))
+    } catch (error) {
+      showError(error, 'Failed to load versions')
+    }
+  }
+
+  const updateSelected = (patch: Partial<GeofenceSet>) => {
+    setSelected(prev => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const updateZone = (id: string, patch: Partial<GeofenceZone>) => {
+    if (!selected) return
+    updateSelected({ zones: selected.zones.map(zone => (zone.id === id ? { ...zone, ...patch } : zone)) })
+  }
+
+  const updateRallyPoint = (id: string, patch: Partial<RallyPoint>) => {
+    if (!selected) return
+    updateSelected({ rallyPoints: selected.rallyPoints.map(p => (p.id === id ? { ...p, ...patch } : p)) })
+  }
+
+  // ============================================================================
+  // DRAWING & IMPORT
+  // ============================================================================
+
+  const zoneName = (kind: GeofenceZoneKind) =>
+    `${kind === 'inclusion' ? 'Inclusion' : 'Exclusion'} ${(selected?.zones.filter(z => z.kind === kind).length ?? 0) + 1}`
+
+  const handleMapClick = (point: LatLngPoint) => {
+    if (!selected || !drawTool) return
+
+    if (drawTool === 'polygon') {
+      setDraftVertices(prev => [...prev, point])
+    } else if (drawTool === 'circle') {
+      updateSelected({
+        zones: [...selected.zones, {
+          id: `zone-${Date.now()}`,
+          name: zoneName(drawKind),
+          kind: drawKind,
+          type: 'circle',
+          vertices: [],
+          center: point,
+          radius: circleRadius,
+          source: 'manual',
+        }],
+      })
+    } else {
+      updateSelected({
+        rallyPoints: [...selected.rallyPoints, {
+          id: `rally-${Date.now()}`,
+          name: `Rally ${selected.rallyPoints.length + 1}`,
+          lat: point.lat,
+          lon: point.lng,
+          alt: DEFAULT_RALLY_ALTITUDE,
+        }],
+      })
+    }
+  }
+
+  const finishPolygon = () => {
+    if (!selected || draftVertices.length < 3) return
+    updateSelected({
+      zones: [...selected.zones, {
+        id: `zone-${Date.now()}`,
+        name: zoneName(drawKind),
+        kind: drawKind,
+        type: 'polygon',
+        vertices: draftVertices,
+        source: 'manual',
+      }],
+    })
+    setDraftVertices([])
+  }
+
+  // Polygons become exclusion zones (with their height as ceiling), points become rally points
+  const importFeatureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !selected) return
+
+    try {
+      let features: GeoFeature[]
+      if (/\.(geo)?json$/i.test(file.name)) {
+        features = parseGeoJson(await file.text())
+      } else if (/\.zip$/i.test(file.name)) {
+        features = (await loadShapefile(file)).features
+      } else {
+        features = await loadKmlFile(file)
+      }
+
+      const stamp = Date.now()
+      const zones = features
+        .filter(f => f.geometry === 'polygon')
+        .map((f, index) => ({ ...obstacleToGeofenceZone(featureToObstacle(f, index)), id: `zone-${stamp}-${index}` }))
+      const rallyPoints = features
+        .filter(f => f.geometry === 'point')
+        .map((f, index): RallyPoint => ({
+          id: `rally-${stamp}-${index}`,
+          name: f.name,
+          lat: f.coordinates[0].lat,
+          lon: f.coordinates[0].lng,
+          alt: f.altitudes?.[0] || DEFAULT_RALLY_ALTITUDE,
+        }))
+
+      if (zones.length === 0 && rallyPoints.length === 0) {
+        setStatus({ type: 'error', text: `${file.name} has no polygons or points` })
+        return
+      }
+
+      updateSelected({ zones: [...selected.zones, ...zones], rallyPoints: [...selected.rallyPoints, ...rallyPoints] })
+      setStatus({ type: 'success', text: `Imported ${zones.length} zones and ${rallyPoints.length} rally points` })
+    } catch (error) {
+      showError(error, 'Failed to import file')
+    }
+  }
+
+  // ============================================================================
+  // SAVE, VERSIONS & UPLOAD
+  // ============================================================================
+
+  const saveSelected = async () => {
+    if (!selected) return
+    setSaving(true)
+    try {
+      const saved = await saveGeofenceSet(selected)
+      setSets(prev => [...prev.filter(s => s.id !== saved.id), saved])
+      await selectSet({ ...saved, changeNote: undefined })
+      setStatus({ type: 'success', text: `Saved ${saved.name} as version ${saved.version}` })
+    } catch (error) {
+      showError(error, 'Failed to save geofence set')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const restoreVersion = async (version: GeofenceSetVersion) => {
+    if (!selected?.id) return
+    try {
+      const saved = await restoreGeofenceSetVersion(selected, version)
+      setSets(prev => prev.map(s => (s.id === saved.id ? saved : s)))
+      await selectSet(saved)
+      setStatus({ type: 'success', text: `Restored version ${version.version} as version ${saved.version}` })
+    } catch (error) {
+      showError(error, 'Failed to restore version')
+    }
+  }
+
+  const deleteSelected = async () => {
+    if (!selected) return
+    if (selected.id) {
+      if (!confirm(`Delete ${selected.name} and all its versions?`)) return
+      try {
+        await deleteGeofenceSet(selected.id)
+        setSets(prev => prev.filter(s => s.id !== selected.id))
+      } catch (error) {
+        showError(error, 'Failed to delete geofence set')
+        return
+      }
+    }
+    setSelected(null)
+    setVersions([])
+  }
+
+  // The upload replaces the vehicle's fence, so other sets assigned to it go along
+  const uploadToVehicle = async () => {
+    if (!selected || !uploadVehicleId) return
+    const others = sets.filter(s => s.id !== selected.id && s.assignment.vehicleIds.includes(uploadVehicleId))
+
+    setUploading(true)
+    const result = await uploadGeofencesToVehicle([selected, ...others], uploadVehicleId)
+    setUploading(false)
+
+    setStatus(result.success
+      ? {
+          type: 'success',
+          text: `Uploaded ${result.fenceItemCount} fence and ${result.rallyItemCount} rally items to ${uploadVehicleId}` +
+            (others.length > 0 ? ` (with ${others.length} other assigned sets)` : ''),
+        }
+      : { type: 'error', text: result.error || 'Upload failed' })
+  }
+
+  const toggleVehicle = (vehicleId: string) => {
+    if (!selected) return
+    const { vehicleIds } = selected.assignment
+    updateSelected({
+      assignment: {
+        ...selected.assignment,
+        vehicleIds: vehicleIds.includes(vehicleId) ? vehicleIds.filter(id => id !== vehicleId) : [...vehicleIds, vehicleId],
+      },
+    })
+  }
+
+  const setMissionAssigned = (missionId: string, assigned: boolean) => {
+    if (!selected) return
+    const { missionIds } = selected.assignment
+    updateSelected({
+      assignment: {
+        ...selected.assignment,
+        missionIds: assigned ? [...missionIds.filter(id => id !== missionId), missionId] : missionIds.filter(id => id !== missionId),
+      },
+    })
+  }
+
+  const filteredSets = useMemo(() => sets
+    .filter(set => !searchQuery || set.name.toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name)), [sets, searchQuery])
+
+  const missionName = (id: string) => missions.find(m => m.id === id)?.name ?? `Mission ${id}`
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <div className="flex-1 bg-slate-900 min-h-screen overflow-y-auto">
+      <div className="p-8">
+        {/* Header */}
+        <div className="bg-blue-600 rounded-xl p-6 mb-6 shadow-xl">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-white mb-2">Geofence Library</h1>
+              <p className="text-blue-100">Versioned fences and rally points, assigned to missions and vehicles</p>
+            </div>
+            <button
+              onClick={() => selectSet(emptySet())}
+              className="flex items-center space-x-2 px-6 py-3 bg-white text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors shadow-lg"
+            >
+              <Plus size={20} />
+              <span>New Geofence Set</span>
+            </button>
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400" size={20} />
+            <input
+              type="text"
+              placeholder="Search geofence sets..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-3 bg-white border-2 border-blue-400 rounded-lg text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+          </div>
+        </div>
+
+        {status && (
+          <div className={`flex items-center justify-between mb-6 px-4 py-3 rounded-lg text-sm ${
+            status.type === 'success' ? 'bg-green-900/40 text-green-300 border border-green-700' : 'bg-red-900/40 text-red-300 border border-red-700'
+          }`}>
+            <span>{status.text}</span>
+            <button onClick={() => setStatus(null)} className="text-slate-400 hover:text-white">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Set List */}
+          <div className="space-y-3">
+            {loading && <div className="text-slate-400 text-sm">Loading geofences...</div>}
+            {!loading && filteredSets.length === 0 && (
+              <div className="text-center py-16">
+                <Shield size={64} className="mx-auto text-slate-600 mb-4" />
+                <h3 className="text-xl font-semibold text-slate-400 mb-2">No geofence sets</h3>
+                <p className="text-slate-500">Create one to start fencing missions and vehicles</p>
+              </div>
+            )}
+            {filteredSets.map(set => (
+              <button
+                key={set.id}
+                onClick={() => selectSet(set)}
+                className={`w-full text-left bg-slate-800 rounded-xl border p-4 transition-all ${
+                  selected?.id === set.id ? 'border-blue-500' : 'border-slate-700 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-bold text-white">{set.name}</h3>
+                  <span className="px-2 py-0.5 bg-slate-700 text-slate-300 text-xs rounded-full">v{set.version}</span>
+                </div>
+                <div className="text-xs text-slate-400 space-x-3">
+                  <span>{set.zones.filter(z => z.kind === 'inclusion').length} inclusion</span>
+                  <span>{set.zones.filter(z => z.kind === 'exclusion').length} exclusion</span>
+                  <span>{set.rallyPoints.length} rally</span>
+                </div>
+                {(set.assignment.vehicleIds.length > 0 || set.assignment.missionIds.length > 0) && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {set.assignment.vehicleIds.map(id => (
+                      <span key={id} className="px-2 py-0.5 bg-blue-900/60 text-blue-300 text-xs rounded-full">{id}</span>
+                    ))}
+                    {set.assignment.missionIds.map(id => (
+                      <span key={id} className="px-2 py-0.5 bg-purple-900/60 text-purple-300 text-xs rounded-full">{missionName(id)}</span>
+                    ))}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {selected && (
+            <div className="xl:col-span-2 bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm text-slate-400">Name</span>
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-white"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm text-slate-400">Description</span>
+                  <input
+                    type="text"
+                    value={selected.description ?? ''}
+                    onChange={(e) => updateSelected({ description: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-white"
+                  />
+                </label>
+              </div>
+
+              {/* Drawing Tools */}
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={drawKind}
+                  onChange={(e) => setDrawKind(e.target.value as GeofenceZoneKind)}
+                  className="px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+                >
+                  <option value="exclusion">Exclusion</option>
+                  <option value="inclusion">Inclusion</option>
+                </select>
+                {([
+                  ['polygon', 'Polygon', <Hexagon key="polygon" size={14} />],
+                  ['circle', 'Circle', <CircleIcon key="circle" size={14} />],
+                  ['rally', 'Rally point', <MapPin key="rally" size={14} />],
+                ] as [DrawTool, string, React.ReactNode][]).map(([tool, label, icon]) => (
+                  <button
+                    key={tool}
+                    onClick={() => {
+                      setDrawTool(drawTool === tool ? null : tool)
+                      setDraftVertices([])
+                    }}
+                    className={`flex items-center space-x-1 px-3 py-2 rounded-md text-sm ${
+                      drawTool === tool ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                    }`}
+                  >
+                    {icon}
+                    <span>{label}</span>
+                  </button>
+                ))}
+                {drawTool === 'circle' && (
+                  <label className="flex items-center space-x-2 text-sm text-slate-400">
+                    <span>Radius (m)</span>
+                    <input
+                      type="number"
+                      min={10}
+                      value={circleRadius}
+                      onChange={(e) => setCircleRadius(Number(e.target.value))}
+                      className="w-24 px-2 py-1 bg-slate-900 border border-slate-600 rounded-md text-white"
+                    />
+                  </label>
+                )}
+                {drawTool === 'polygon' && (
+                  <button
+                    onClick={finishPolygon}
+                    disabled={draftVertices.length < 3}
+                    className="px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 rounded-md text-sm text-white"
+                  >
+                    Finish ({draftVertices.length} points)
+                  </button>
+                )}
+                <label className="ml-auto text-sm text-slate-400">
+                  <span className="mr-2">Import KML / GeoJSON / Shapefile</span>
+                  <input
+                    type="file"
+                    accept=".kml,.kmz,.geojson,.json,.zip"
+                    onChange={importFeatureFile}
+                    className="text-xs text-slate-300 file:mr-2 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-slate-600 file:text-white"
+                  />
+                </label>
+              </div>
+
+              {/* Map */}
+              <div className="h-96 rounded-lg overflow-hidden border border-slate-700">
+                <MapContainer center={DEFAULT_CENTER} zoom={12} style={{ height: '100%', width: '100%' }}>
+                  <TileLayer
+                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                    attribution='&copy; OpenStreetMap contributors'
+                  />
+                  <MapClickHandler onClick={handleMapClick} />
+                  <FitToSet set={selected} />
+                  {selected.zones.map(zone => {
+                    const pathOptions = { color: ZONE_COLORS[zone.kind], fillOpacity: 0.15, weight: 2 }
+                    return zone.type === 'circle' && zone.center && zone.radius ? (
+                      <Circle key={zone.id} center={[zone.center.lat, zone.center.lng]} radius={zone.radius} pathOptions={pathOptions}>
+                        <Tooltip>{zone.name}</Tooltip>
+                      </Circle>
+                    ) : (
+                      <Polygon key={zone.id} positions={zone.vertices.map(v => [v.lat, v.lng] as [number, number])} pathOptions={pathOptions}>
+                        <Tooltip>{zone.name}</Tooltip>
+                      </Polygon>
+                    )
+                  })}
+                  {selected.rallyPoints.map(point => (
+                    <CircleMarker
+                      key={point.id}
+                      center={[point.lat, point.lon]}
+                      radius={7}
+                      pathOptions={{ color: '#f59e0b', fillColor: '#f59e0b', fillOpacity: 0.9 }}
+                    >
+                      <Tooltip>{point.name} · {point.alt}m</Tooltip>
+                    </CircleMarker>
+                  ))}
+                  {draftVertices.length > 0 && (
+                    <Polyline
+                      positions={draftVertices.map(v => [v.lat, v.lng] as [number, number])}
+                      pathOptions={{ color: ZONE_COLORS[drawKind], dashArray: '5, 5' }}
+                    />
+                  )}
+                </MapContainer>
+              </div>
+
+              {/* Zones */}
+              <div>
+                <h3 className="text-sm font-semibold text-slate-300 mb-2">Fences ({selected.zones.length})</h3>
+                <div className="space-y-2">
+                  {selected.zones.map(zone => (
+                    <div key={zone.id} className="flex flex-wrap items-center gap-2 bg-slate-900 rounded-md p-2 text-sm">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: ZONE_COLORS[zone.kind] }}></span>
+                      <input
+                        type="text"
+                        value={zone.name}
+                        onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                        className="flex-1 min-w-[8rem] px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                      />
+                      <select
+                        value={zone.kind}
+                        onChange={(e) => updateZone(zone.id, { kind: e.target.value as GeofenceZoneKind })}
+                        className="px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                      >
+                        <option value="exclusion">Exclusion</option>
+                        <option value="inclusion">Inclusion</option>
+                      </select>
+                      <span className="text-slate-500">{zone.type === 'circle' ? `${zone.radius}m circle` : `${zone.vertices.length} vertices`}</span>
+                      <input
+                        type="number"
+                        placeholder="Floor"
+                        value={zone.minAltitude ?? ''}
+                        onChange={(e) => updateZone(zone.id, { minAltitude: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className="w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                      />
+                      <input
+                        type="number"
+                        placeholder="Ceiling"
+                        value={zone.maxAltitude ?? ''}
+                        onChange={(e) => updateZone(zone.id, { maxAltitude: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className="w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                      />
+                      <button
+                        onClick={() => updateSelected({ zones: selected.zones.filter(z => z.id !== zone.id) })}
+                        className="p-1 text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {selected.zones.some(z => z.minAltitude !== undefined || z.maxAltitude !== undefined) && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    Altitude bands are checked by the ground station only; the autopilot enforces its own fence altitude parameters.
+                  </p>
+                )}
+              </div>
+
+              {/* Rally Points */}
+              {selected.rallyPoints.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-300 mb-2">Rally Points ({selected.rallyPoints.length})</h3>
+                  <div className="space-y-2">
+                    {selected.rallyPoints.map(point => (
+                      <div key={point.id} className="flex items-center gap-2 bg-slate-900 rounded-md p-2 text-sm">
+                        <MapPin size={14} className="text-amber-400" />
+                        <input
+                          type="text"
+                          value={point.name}
+                          onChange={(e) => updateRallyPoint(point.id, { name: e.target.value })}
+                          className="flex-1 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                        />
+                        <span className="text-slate-500">{point.lat.toFixed(5)}, {point.lon.toFixed(5)}</span>
+                        <input
+                          type="number"
+                          value={point.alt}
+                          onChange={(e) => updateRallyPoint(point.id, { alt: Number(e.target.value) })}
+                          className="w-20 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                        />
+                        <span className="text-slate-500">m</span>
+                        <button
+                          onClick={() => updateSelected({ rallyPoints: selected.rallyPoints.filter(p => p.id !== point.id) })}
+                          className="p-1 text-red-400 hover:text-red-300"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Assignment */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-300 mb-2">Vehicles</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {vehiclesData.map(vehicle => (
+                      <button
+                        key={vehicle.id}
+                        onClick={() => toggleVehicle(vehicle.id)}
+                        className={`px-3 py-1 rounded-full text-xs ${
+                          selected.assignment.vehicleIds.includes(vehicle.id)
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        {vehicle.id}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-300 mb-2">Missions</h3>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setMissionAssigned(e.target.value, true)}
+                    className="w-full px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+                  >
+                    <option value="">Assign to mission...</option>
+                    {missions
+                      .filter(m => !selected.assignment.missionIds.includes(m.id))
+                      .map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {selected.assignment.missionIds.map(id => (
+                      <span key={id} className="flex items-center space-x-1 px-3 py-1 bg-purple-900/60 text-purple-200 rounded-full text-xs">
+                        <span>{missionName(id)}</span>
+                        <button onClick={() => setMissionAssigned(id, false)} className="hover:text-white">
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Save */}
+              <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-slate-700">
+                <input
+                  type="text"
+                  placeholder="Change note (optional)"
+                  value={selected.changeNote ?? ''}
+                  onChange={(e) => updateSelected({ changeNote: e.target.value })}
+                  className="flex-1 min-w-[12rem] px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+                />
+                <button
+                  onClick={saveSelected}
+                  disabled={saving || !selected.name.trim()}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white rounded-lg"
+                >
+                  <Save size={16} />
+                  <span>{saving ? 'Saving...' : selected.id ? `Save as v${selected.version + 1}` : 'Save'}</span>
+                </button>
+                <button
+                  onClick={deleteSelected}
+                  className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {/* Upload */}
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={uploadVehicleId}
+                  onChange={(e) => setUploadVehicleId(e.target.value)}
+                  className="px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-sm text-white"
+                >
+                  {vehiclesData.map(vehicle => (
+                    <option key={vehicle.id} value={vehicle.id}>{vehicle.id} · {vehicle.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={uploadToVehicle}
+                  disabled={uploading || !uploadVehicleId}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white rounded-lg"
+                >
+                  <Upload size={16} />
+                  <span>{uploading ? 'Uploading...' : 'Upload fence & rally to vehicle'}</span>
+                </button>
+              </div>
+
+              {/* Versions */}
+              {versions.length > 0 && (
+                <div>
+                  <h3 className="flex items-center space-x-2 text-sm font-semibold text-slate-300 mb-2">
+                    <History size={14} />
+                    <span>Versions</span>
+                  </h3>
+                  <div className="space-y-1">
+                    {versions.map(version => (
+                      <div key={version.version} className="flex items-center justify-between bg-slate-900 rounded-md px-3 py-2 text-xs">
+                        <div className="text-slate-300">
+                          <span className="font-semibold">v{version.version}</span>
+                          <span className="text-slate-500 ml-2">{new Date(version.updatedAt).toLocaleString()}</span>
+                          <span className="text-slate-500 ml-2">
+                            {version.zones.length} fences, {version.rallyPoints.length} rally
+                          </span>
+                          {version.changeNote && <span className="ml-2 italic">{version.changeNote}</span>}
+                        </div>
+                        {version.version !== selected.version && (
+                          <button
+                            onClick={() => restoreVersion(version)}
+                            className="flex items-center space-x-1 text-blue-400 hover:text-blue-300"
+                          >
+                            <RotateCcw size={12} />
+                            <span>Restore</span>
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
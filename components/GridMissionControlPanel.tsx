@@ -5,64 +5,16 @@
 
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Play, Pause, Square, ArrowUp, ArrowDown, Navigation, Battery, Wifi } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { TelemetryStreamMessage, getBatteryColor } from '@/types/telemetry';
+import { useTelemetryStream } from '@/hooks/useTelemetryStream';
+import droneControlService from '@/services/droneControlService';
 
 // API Configuration
-const DRONE_CONTROL_API = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-const WS_BASE = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8000';
 const MISSION_DB_API = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
 
-// ============================================================================
-// Types
-// ============================================================================
-
-interface TelemetryData {
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    fix_type: number;
-    satellites_visible: number;
-    hdop: number;
-  };
-  flight_mode?: string;
-}
-
-interface DroneStatus {
-  connected: boolean;
-  armed: boolean;
-  flying: boolean;
-  current_position: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  battery_level: number;
-  flight_mode: string;
-  mission_active: boolean;
-  mission_current: number;
-  mission_count: number;
-}
-
 // ============================================================================
 // Component Props
 // ============================================================================
@@ -84,155 +36,40 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
   // State Management
   // ========================================
 
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
-  const [droneStatus, setDroneStatus] = useState<DroneStatus | null>(null);
-  const [wsConnected, setWsConnected] = useState(false);
   const [missionActive, setMissionActive] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-
-  // Refs
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const maxReconnectAttempts = 5;
+  const [streamRequested, setStreamRequested] = useState(false);
 
   // ========================================
-  // WebSocket Connection
+  // Telemetry Stream
   // ========================================
 
-  const connectWebSocket = () => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('⚠️ WebSocket already connected');
-      return;
-    }
-
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max reconnection attempts reached');
-      toast.error('WebSocket connection failed after multiple attempts');
-      return;
-    }
-
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        toast.success('Real-time telemetry connected');
-
-        if (missionId) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: missionId
-          }));
-          console.log(`📡 Subscribed to mission: ${missionId}`);
-        }
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-
-          switch (message.type) {
-            case 'telemetry_update':
-            case 'telemetry':
-              handleTelemetryUpdate(message.data || message);
-              break;
-            case 'status_update':
-              if (message.data) {
-                setDroneStatus(message.data);
-              }
-              break;
-            case 'mission_complete':
-              setMissionActive(false);
-              toast.success('Mission completed!');
-              if (onMissionComplete) {
-                onMissionComplete();
-              }
-              break;
-            case 'error':
-              console.error('❌ WebSocket error:', message.message);
-              toast.error(message.message);
-              break;
-            default:
-              console.log('📨 WebSocket message:', message);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        setWsConnected(false);
-      };
-
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-
-        if (missionActive && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
-          console.log(`🔄 Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`);
-          setTimeout(connectWebSocket, delay);
+  const handleStreamMessage = (message: TelemetryStreamMessage) => {
+    switch (message.type) {
+      case 'mission_complete':
+        setMissionActive(false);
+        toast.success('Mission completed!');
+        if (onMissionComplete) {
+          onMissionComplete();
         }
-      };
-
-      wsRef.current = ws;
-    } catch (error) {
-      console.error('❌ Error connecting WebSocket:', error);
-      setWsConnected(false);
+        break;
+      case 'error':
+        toast.error(String(message.message));
+        break;
     }
   };
 
-  const disconnectWebSocket = () => {
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-      setWsConnected(false);
-      console.log('🔌 WebSocket disconnected');
-    }
-  };
+  const missionKey = missionId !== undefined ? String(missionId) : undefined;
 
-  const handleTelemetryUpdate = (data: any) => {
-    try {
-      const positionData = data.position || data.current_position;
-
-      setTelemetry({
-        position: positionData ? {
-          lat: positionData.lat || positionData.latitude || 0,
-          lon: positionData.lon || positionData.lng || positionData.longitude || 0,
-          alt: positionData.alt || positionData.altitude || positionData.relative_alt || 0
-        } : undefined,
-        velocity: data.velocity,
-        attitude: data.attitude,
-        battery: data.battery,
-        gps: data.gps,
-        flight_mode: data.flight_mode || data.mode
-      });
+  const { telemetry, state: streamState, connected: wsConnected, reconnect } = useTelemetryStream({
+    missionId: missionKey,
+    enabled: missionActive || streamRequested,
+    onMessage: handleStreamMessage,
+  });
 
-      if (data.armed !== undefined || data.flying !== undefined) {
-        setDroneStatus(prev => ({
-          connected: true,
-          armed: data.armed ?? prev?.armed ?? false,
-          flying: data.flying ?? prev?.flying ?? false,
-          current_position: positionData ? {
-            lat: positionData.lat || positionData.latitude || 0,
-            lon: positionData.lon || positionData.lng || positionData.longitude || 0,
-            alt: positionData.alt || positionData.altitude || 0
-          } : prev?.current_position ?? { lat: 0, lon: 0, alt: 0 },
-          battery_level: data.battery?.remaining ?? data.battery_level ?? prev?.battery_level ?? 0,
-          flight_mode: data.flight_mode || data.mode || prev?.flight_mode || 'UNKNOWN',
-          mission_active: data.mission_active ?? prev?.mission_active ?? false,
-          mission_current: data.mission_current ?? data.current_waypoint ?? prev?.mission_current ?? 0,
-          mission_count: data.mission_count ?? data.total_waypoints ?? prev?.mission_count ?? 0
-        }));
-      }
-    } catch (error) {
-      console.error('❌ Error processing telemetry:', error);
-    }
+  const connectWebSocket = () => {
+    setStreamRequested(true);
+    reconnect();
   };
 
   // ========================================
@@ -244,18 +81,7 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
       console.log('▶️ Starting mission...');
       toast.loading('Starting mission...');
 
-      const response = await fetch(`${DRONE_CONTROL_API}/mission/start`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to start mission');
-      }
-
-      const result = await response.json();
+      const result = await droneControlService.startUploadedMission(missionKey);
       console.log('✅ Mission started:', result);
       
       setMissionActive(true);
@@ -284,18 +110,7 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
     try {
       console.log('⏸️ Pausing mission...');
 
-      const response = await fetch(`${DRONE_CONTROL_API}/mission/pause`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to pause mission');
-      }
-
-      const result = await response.json();
+      const result = await droneControlService.pauseUploadedMission(missionKey);
       console.log('✅ Mission paused:', result);
       
       setIsPaused(true);
@@ -321,18 +136,7 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
     try {
       console.log('▶️ Resuming mission...');
 
-      const response = await fetch(`${DRONE_CONTROL_API}/mission/resume`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to resume mission');
-      }
-
-      const result = await response.json();
+      const result = await droneControlService.resumeUploadedMission(missionKey);
       console.log('✅ Mission resumed:', result);
       
       setIsPaused(false);
@@ -358,18 +162,7 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
     try {
       console.log('⏹️ Stopping mission...');
 
-      const response = await fetch(`${DRONE_CONTROL_API}/mission/stop`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to stop mission');
-      }
-
-      const result = await response.json();
+      const result = await droneControlService.stopUploadedMission(missionKey);
       console.log('✅ Mission stopped:', result);
       
       setMissionActive(false);
@@ -408,16 +201,12 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
   // ========================================
 
   useEffect(() => {
-    if (missionActive) {
-      connectWebSocket();
-    } else {
-      disconnectWebSocket();
+    if (streamState === 'open') {
+      toast.success('Real-time telemetry connected');
+    } else if (streamState === 'failed') {
+      toast.error('WebSocket connection failed after multiple attempts');
     }
-
-    return () => {
-      disconnectWebSocket();
-    };
-  }, [missionActive]);
+  }, [streamState]);
 
   // ========================================
   // Render
@@ -516,9 +305,7 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
             </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Remaining:</span>
-              <span className={`font-mono ${
-                (telemetry?.battery?.remaining || 0) < 20 ? 'text-red-400' : 'text-green-400'
-              }`}>
+              <span className={`font-mono ${getBatteryColor(telemetry?.battery?.remaining || 0)}`}>
                 {telemetry?.battery?.remaining?.toFixed(0) || '0'}%
               </span>
             </div>
@@ -559,12 +346,12 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
             <div className="flex justify-between">
               <span className="text-slate-400">Waypoint:</span>
               <span className="font-mono">
-                {droneStatus?.mission_current || 0} / {droneStatus?.mission_count || 0}
+                {telemetry?.mission?.current || 0} / {telemetry?.mission?.count || 0}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Flight Mode:</span>
-              <span className="font-medium">{droneStatus?.flight_mode || 'UNKNOWN'}</span>
+              <span className="font-medium">{telemetry?.flightMode || 'UNKNOWN'}</span>
             </div>
           </div>
         </div>
@@ -577,11 +364,11 @@ const GridMissionControlPanel: React.FC<GridMissionControlPanelProps> = ({
           <div className="grid grid-cols-3 gap-4 text-sm">
             <div>
               <span className="text-slate-400">Fix Type:</span>
-              <span className="ml-2 font-mono">{telemetry.gps.fix_type}</span>
+              <span className="ml-2 font-mono">{telemetry.gps.fixType}</span>
             </div>
             <div>
               <span className="text-slate-400">Satellites:</span>
-              <span className="ml-2 font-mono">{telemetry.gps.satellites_visible}</span>
+              <span className="ml-2 font-mono">{telemetry.gps.satellites}</span>
             </div>
             <div>
               <span className="text-slate-400">HDOP:</span>
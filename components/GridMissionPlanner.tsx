@@ -9,21 +9,54 @@ import React, { useState, useEffect, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { useMapEvents } from 'react-leaflet';
 import toast, { Toaster } from 'react-hot-toast';
-import { MapPin, Grid, AlertTriangle, Upload, Save, Trash2, Eye, EyeOff, Play, Square } from 'lucide-react';
+import { MapPin, Grid, AlertTriangle, Upload, Download, Save, Trash2, Eye, EyeOff, Play, Square, Home, RotateCcw, Layers } from 'lucide-react';
 import {
   GridMissionConfig,
   ObstacleZone,
   LatLngPoint,
   GridMissionPlan,
-  GridMissionStats,
+  GridSortie,
+  FleetAssignment,
+  SurveyPattern,
+  DemTile,
+  TerrainWarningKind,
 } from '@/types/gridMission';
+import { PlanImportReport } from '@/types/qgcPlan';
+import { MissionItem } from '@/types/missionItems';
+import { GeoFeature, GeoFeatureSelection } from '@/types/geoFeatures';
+import { blockedLegError, checkWaypointLimit, resolveSurveyGeometry } from '@/utils/gridMissionUtils';
+import { CAMERA_PROFILES, getCameraProfile } from '@/utils/gridMissionTemplates';
+import { estimateMissionEnergy, getPerformanceProfile } from '@/utils/energyModel';
+import { splitIntoSorties, resumeFromLine, lastCompletedLineAt } from '@/utils/sortiePlanner';
+import { buildGridMissionPlan, planFleetSurvey } from '@/utils/gridMissionBuilder';
+import { loadDemFile } from '@/utils/elevation';
+import { gridPlanToQgcPlan, importQgcPlanAsGrid, summarizeImportReport } from '@/utils/qgcPlan';
+import { compileMission, gridPlanToMissionActions, sortieToMissionActions, waypointIndexAtItem } from '@/utils/missionItems';
+import { downloadTextFile, toFileName } from '@/utils/fileDownload';
+import { buildKml, loadKmlFile } from '@/utils/kml';
+import { geoJsonToGridPlan, gridPlanToGeoJson, isGridMissionGeoJson, obstaclesToGeoJson, parseGeoJson } from '@/utils/geojson';
+import { loadShapefile } from '@/utils/shapefile';
+import { attributeFields, placeFeatures, suggestRoles } from '@/utils/geoFeatures';
+import { missionAreaGeofenceZone, obstacleToGeofenceZone } from '@/utils/geofence';
+import { BreachResponse, GeofenceZone } from '@/types/geofence';
+import { useGeofenceMonitor } from '@/hooks/useGeofenceMonitor';
+import { useAirspace } from '@/hooks/useAirspace';
+import { airspacePermissionRecords, airspaceSaveError } from '@/utils/airspace';
+import { adaptTelemetry } from '@/utils/telemetryAdapters';
 import {
-  generateGridWaypoints,
-  calculateTotalDistance,
-  estimateFlightTime,
-  estimateBatteryUsage,
-  calculatePolygonArea,
-} from '@/utils/gridMissionUtils';
+  saveGridMissionToDatabase,
+  saveSortieToDatabase,
+  uploadSortieToVehicle,
+  updateMissionStatus,
+  launchFleetMissions,
+} from '@/services/gridMissionService';
+import FeatureImportDialog from '@/components/FeatureImportDialog';
+import GeofenceAlertPanel from '@/components/GeofenceAlertPanel';
+import AirspacePanel from '@/components/AirspacePanel';
+import EnergyLegBreakdown from '@/components/EnergyLegBreakdown';
+import droneControlService from '@/services/droneControlService';
+import { uploadAssignedGeofences } from '@/services/geofenceLibraryService';
+import { vehiclesData } from '@/lib/data';
 
 // Dynamically import map components
 const MapContainer = dynamic(
@@ -53,15 +86,48 @@ const Popup = dynamic(
   () => import('react-leaflet').then((mod) => mod.Popup),
   { ssr: false }
 );
+const AirspaceLayer = dynamic(() => import('@/components/AirspaceLayer'), { ssr: false });
 import fixLeafletIcons, { startIcon, endIcon, blueWaypointIcon, droneIcon } from '@/utils/leafletIconFix';
 
 // ============================================================================
 // API Configuration
 // ============================================================================
 
-const DRONE_CONTROL_API = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
 const MISSION_DB_API = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
+// ============================================================================
+// Sortie Display
+// ============================================================================
+
+const SORTIE_COLORS = ['#a855f7', '#06b6d4', '#f97316', '#ec4899', '#84cc16', '#eab308'];
+
+const SORTIE_STATUS_STYLES: Record<GridSortie['status'], string> = {
+  planned: 'bg-slate-600 text-slate-200',
+  saved: 'bg-green-900 text-green-300',
+  uploaded: 'bg-blue-900 text-blue-300',
+  in_progress: 'bg-amber-900 text-amber-300',
+  completed: 'bg-green-700 text-white',
+  aborted: 'bg-red-900 text-red-300',
+};
+
+const SURVEY_PATTERN_LABELS: Record<SurveyPattern, string> = {
+  grid: 'Area Grid',
+  corridor: 'Corridor',
+  orbit: 'Orbit / POI',
+  expanding_square: 'Exp. Square',
+  sector: 'Sector',
+  spiral: 'Spiral',
+};
+
+const TERRAIN_WARNING_LABELS: Record<TerrainWarningKind, string> = {
+  clearance: 'Low clearance',
+  ceiling: 'Above ceiling',
+  no_data: 'No elevation data',
+};
+
+// Patterns placed with a single center or datum click
+const POINT_PATTERNS: SurveyPattern[] = ['orbit', 'expanding_square', 'sector', 'spiral'];
+
 // ============================================================================
 // Component Props
 // ============================================================================
@@ -86,14 +152,32 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
   // ========================================
 
   const [missionName, setMissionName] = useState('Grid Survey Mission');
+  const [vehicleId, setVehicleId] = useState(vehiclesData[0]?.id ?? '');
+  const [fleetVehicleIds, setFleetVehicleIds] = useState<string[]>([]);
   const [altitude, setAltitude] = useState(50);
   const [gridSpacing, setGridSpacing] = useState(30);
   const [overlap, setOverlap] = useState(0.7);
   const [gridAngle, setGridAngle] = useState(0);
+  const [autoGridAngle, setAutoGridAngle] = useState(false);
   const [cameraAngle, setCameraAngle] = useState(90);
+  const [cameraProfileId, setCameraProfileId] = useState('');
+  const [targetGsd, setTargetGsd] = useState<number | null>(null);
+  const [frontOverlap, setFrontOverlap] = useState(0.8);
 
-  // Survey area polygon
+  // Survey area polygon, the centerline in corridor mode, or the center point of point patterns
+  const [surveyPattern, setSurveyPattern] = useState<SurveyPattern>('grid');
   const [surveyArea, setSurveyArea] = useState<LatLngPoint[]>([]);
+  const [corridorWidth, setCorridorWidth] = useState(60);
+  const [segmentLength, setSegmentLength] = useState(0);
+  const [turnaroundDistance, setTurnaroundDistance] = useState(20);
+  const [patternRadius, setPatternRadius] = useState(200);
+  const [trackSpacing, setTrackSpacing] = useState(0);
+  const [orbitTurns, setOrbitTurns] = useState(1);
+  const [orbitPoints, setOrbitPoints] = useState(16);
+  const [orbitClockwise, setOrbitClockwise] = useState(true);
+  const [poiAltitude, setPoiAltitude] = useState(0);
+  const [searchBearing, setSearchBearing] = useState(0);
+  const [spiralDirection, setSpiralDirection] = useState<'inward' | 'outward'>('outward');
   const [isDrawingArea, setIsDrawingArea] = useState(false);
 
   // Obstacles
@@ -101,12 +185,33 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
   const [isDrawingObstacle, setIsDrawingObstacle] = useState(false);
   const [currentObstacle, setCurrentObstacle] = useState<LatLngPoint[]>([]);
   const [obstacleType, setObstacleType] = useState<'polygon' | 'circle'>('polygon');
+  const [obstacleBuffer, setObstacleBuffer] = useState(10);
+  const [allowClimbOver, setAllowClimbOver] = useState(false);
+
+  // Terrain following
+  const [demTiles, setDemTiles] = useState<DemTile[]>([]);
+  const [isLoadingDem, setIsLoadingDem] = useState(false);
+  const [terrainEnabled, setTerrainEnabled] = useState(false);
+  const [terrainTolerance, setTerrainTolerance] = useState(5);
+  const [minClearance, setMinClearance] = useState(10);
+  const [aglCeiling, setAglCeiling] = useState(120);
 
   // Generated mission
   const [generatedMission, setGeneratedMission] = useState<GridMissionPlan | null>(null);
   const [savedMissionId, setSavedMissionId] = useState<string | null>(null);
   const [showGrid, setShowGrid] = useState(true);
   const [showObstacles, setShowObstacles] = useState(true);
+  const [importReport, setImportReport] = useState<PlanImportReport | null>(null);
+  const [featureImport, setFeatureImport] = useState<{ fileName: string; features: GeoFeature[] } | null>(null);
+
+  // Sorties (multi-battery)
+  const [homePoint, setHomePoint] = useState<LatLngPoint | null>(null);
+  const [isSettingHome, setIsSettingHome] = useState(false);
+  const [activeSortieId, setActiveSortieId] = useState<string | null>(null);
+  const [resumeLine, setResumeLine] = useState<number | null>(null);
+
+  // Multi-drone survey
+  const [fleetAssignments, setFleetAssignments] = useState<FleetAssignment[]>([]);
 
   // UI state
   const [activeTab, setActiveTab] = useState<'area' | 'obstacles' | 'grid' | 'preview'>('area');
@@ -129,9 +234,78 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
     gridSpacing,
     overlap,
     gridAngle,
+    autoGridAngle,
     cameraAngle,
     obstacles,
-  }), [missionName, surveyArea, altitude, gridSpacing, overlap, gridAngle, cameraAngle, obstacles]);
+    camera: getCameraProfile(cameraProfileId),
+    targetGsd: targetGsd ?? undefined,
+    frontOverlap,
+    obstacleBuffer,
+    allowClimbOver,
+    pattern: surveyPattern,
+    corridor: surveyPattern === 'corridor' ? {
+      centerline: surveyArea,
+      width: corridorWidth,
+      segmentLength: segmentLength > 0 ? segmentLength : undefined,
+      turnaroundDistance,
+    } : undefined,
+    orbit: surveyPattern === 'orbit' && surveyArea[0] ? {
+      center: surveyArea[0],
+      radius: patternRadius,
+      turns: orbitTurns,
+      pointsPerTurn: orbitPoints,
+      clockwise: orbitClockwise,
+      poiAltitude,
+    } : undefined,
+    search: (surveyPattern === 'expanding_square' || surveyPattern === 'sector') && surveyArea[0] ? {
+      datum: surveyArea[0],
+      radius: patternRadius,
+      trackSpacing: trackSpacing > 0 ? trackSpacing : undefined,
+      initialBearing: searchBearing,
+    } : undefined,
+    spiral: surveyPattern === 'spiral' && surveyArea[0] ? {
+      center: surveyArea[0],
+      radius: patternRadius,
+      direction: spiralDirection,
+      trackSpacing: trackSpacing > 0 ? trackSpacing : undefined,
+    } : undefined,
+    terrain: terrainEnabled ? {
+      enabled: true,
+      tolerance: terrainTolerance,
+      minClearance,
+      ceiling: aglCeiling,
+    } : undefined,
+  }), [missionName, surveyArea, altitude, gridSpacing, overlap, gridAngle, autoGridAngle, cameraAngle, obstacles, cameraProfileId, targetGsd, frontOverlap, obstacleBuffer, allowClimbOver, surveyPattern, corridorWidth, segmentLength, turnaroundDistance, patternRadius, trackSpacing, orbitTurns, orbitPoints, orbitClockwise, poiAltitude, searchBearing, spiralDirection, terrainEnabled, terrainTolerance, minClearance, aglCeiling]);
+
+  const isPointPattern = POINT_PATTERNS.includes(surveyPattern);
+  const minAreaPoints = isPointPattern ? 1 : surveyPattern === 'corridor' ? 2 : 3;
+
+  const surveyGeometry = useMemo(() => resolveSurveyGeometry(config), [config]);
+
+  const selectedVehicle = useMemo(() => vehiclesData.find(v => v.id === vehicleId), [vehicleId]);
+  const performanceProfile = useMemo(() => getPerformanceProfile(selectedVehicle), [selectedVehicle]);
+
+  // Per-leg energy of the whole plan, as the builder estimated it
+  const missionEnergy = useMemo(() => generatedMission && estimateMissionEnergy(
+    generatedMission.validWaypoints.map(wp => ({ lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt })),
+    performanceProfile,
+    { home: generatedMission.home }
+  ), [generatedMission, performanceProfile]);
+
+  const fleetVehicles = useMemo(
+    () => vehiclesData.filter(v => fleetVehicleIds.includes(v.id)),
+    [fleetVehicleIds]
+  );
+
+  const effectiveHome: LatLngPoint | null = homePoint ?? surveyArea[0] ?? null;
+
+  // Planned routes checked against imported airspace: the mission, or each fleet plan
+  const airspaceRoutes = useMemo(() => {
+    const plans = generatedMission ? [generatedMission] : fleetAssignments.map(a => a.plan);
+    return plans.map(plan => plan.validWaypoints.map(wp => ({ lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt })));
+  }, [generatedMission, fleetAssignments]);
+
+  const airspace = useAirspace(airspaceRoutes);
 
   // ========================================
   // Fix Leaflet Icons on Mount - ADD THIS
@@ -147,7 +321,15 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
   const handleMapClick = (e: any) => {
     const { lat, lng } = e.latlng;
 
-    if (isDrawingArea) {
+    if (isSettingHome) {
+      setHomePoint({ lat, lng });
+      setIsSettingHome(false);
+      toast.success('Home point set');
+    } else if (isDrawingArea && isPointPattern) {
+      setSurveyArea([{ lat, lng }]);
+      setIsDrawingArea(false);
+      toast.success(surveyPattern === 'orbit' ? 'Point of interest set' : 'Search center set');
+    } else if (isDrawingArea) {
       setSurveyArea(prev => [...prev, { lat, lng }]);
     } else if (isDrawingObstacle) {
       setCurrentObstacle(prev => [...prev, { lat, lng }]);
@@ -155,12 +337,14 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
   };
 
   const finishDrawingArea = () => {
-    if (surveyArea.length < 3) {
-      toast.error('Survey area must have at least 3 points');
+    if (surveyArea.length < minAreaPoints) {
+      toast.error(surveyPattern === 'corridor'
+        ? 'Corridor centerline must have at least 2 points'
+        : 'Survey area must have at least 3 points');
       return;
     }
     setIsDrawingArea(false);
-    toast.success('Survey area defined');
+    toast.success(surveyPattern === 'corridor' ? 'Corridor centerline defined' : 'Survey area defined');
   };
 
   const clearSurveyArea = () => {
@@ -210,58 +394,509 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
   // ========================================
 
   const generateGrid = async () => {
-    if (surveyArea.length < 3) {
+    if (surveyArea.length < minAreaPoints) {
       toast.error('Please define survey area first');
       return;
     }
 
     setIsGenerating(true);
     try {
-      // Generate waypoints
-      const { gridLines, allWaypoints } = generateGridWaypoints(config);
-      
-      const validWaypoints = allWaypoints.filter(wp => wp.isValid);
-      const obstacleWaypoints = allWaypoints.filter(wp => !wp.isValid);
-
-      // Calculate statistics
-      const totalDistance = calculateTotalDistance(validWaypoints);
-      const flightTime = estimateFlightTime(totalDistance);
-      const batteryUsage = estimateBatteryUsage(flightTime);
-      const coverageArea = calculatePolygonArea(surveyArea);
-
-      const stats: GridMissionStats = {
-        totalWaypoints: allWaypoints.length,
-        validWaypoints: validWaypoints.length,
-        obstacleWaypoints: obstacleWaypoints.length,
-        totalDistance: totalDistance / 1000, // km
-        estimatedFlightTime: flightTime / 60, // minutes
-        estimatedBatteryUsage: batteryUsage,
-        gridLines: gridLines.length,
-        coverageArea: coverageArea,
-      };
+      if (fleetVehicles.length > 1) {
+        generateFleet();
+        return;
+      }
 
-      const mission: GridMissionPlan = {
+      const { plan: mission, energy, splitError } = buildGridMissionPlan(config, performanceProfile, {
         id: `grid-${Date.now()}`,
         name: missionName,
-        config,
-        gridLines,
-        allWaypoints,
-        validWaypoints,
-        stats,
-        createdAt: new Date().toISOString(),
-      };
+        home: effectiveHome ?? undefined,
+        vehicleId,
+        dem: demTiles,
+      });
+
+      if (splitError) {
+        toast.error(splitError);
+      }
+      const blockedError = blockedLegError(mission.validWaypoints);
+      if (blockedError) {
+        toast.error(blockedError);
+      }
+
+      if (autoGridAngle) {
+        setGridAngle(mission.config.gridAngle);
+      }
 
       setGeneratedMission(mission);
+      setFleetAssignments([]);
+      setImportReport(null);
       setActiveTab('preview');
+      setActiveSortieId(null);
+      setResumeLine(null);
       toast.success('Grid mission generated successfully');
+      if (mission.sorties && mission.sorties.length > 1) {
+        toast.success(`Split into ${mission.sorties.length} sorties`);
+      } else if (!energy.feasible && !splitError) {
+        toast.error(`Mission exceeds ${selectedVehicle?.name ?? 'vehicle'} battery reserve (${performanceProfile.reserve.minReservePercent}%)`);
+      }
     } catch (error) {
       console.error('Error generating grid:', error);
-      toast.error('Failed to generate grid mission');
+      toast.error(`Failed to generate grid mission${error instanceof Error ? `: ${error.message}` : ''}`);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  // ========================================
+  // Terrain
+  // ========================================
+
+  const loadDemFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsLoadingDem(true);
+    try {
+      const results = await Promise.allSettled(files.map(file => loadDemFile(file)));
+      const loaded = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(`❌ Failed to load ${files[index].name}:`, result.reason);
+          toast.error(result.reason instanceof Error ? result.reason.message : `Failed to load ${files[index].name}`);
+        }
+      });
+
+      if (loaded.length > 0) {
+        setDemTiles(prev => [...prev.filter(t => !loaded.some(l => l.name === t.name)), ...loaded]);
+        toast.success(`Loaded ${loaded.length} elevation tile${loaded.length > 1 ? 's' : ''}`);
+      }
+    } finally {
+      setIsLoadingDem(false);
+    }
+  };
+
+  const clearDemTiles = () => {
+    setDemTiles([]);
+    setTerrainEnabled(false);
+  };
+
+  // ========================================
+  // Imported GIS Features
+  // ========================================
+
+  const applyFeatureSelections = (selections: GeoFeatureSelection[]) => {
+    setFeatureImport(null);
+    const placed = placeFeatures(selections);
+
+    // A corridor wins only when no area came with it or corridor mode is already active
+    const useCorridor = !!placed.corridor && (!placed.surveyArea || surveyPattern === 'corridor');
+    if (useCorridor) {
+      setSurveyPattern('corridor');
+      setSurveyArea(placed.corridor!);
+    } else if (placed.surveyArea) {
+      if (surveyPattern !== 'grid') setSurveyPattern('grid');
+      setSurveyArea(placed.surveyArea);
+    } else if (placed.waypoints.length > 0 && isPointPattern) {
+      setSurveyArea([{ lat: placed.waypoints[0].lat, lng: placed.waypoints[0].lng }]);
+    }
+
+    if (placed.obstacles.length > 0) {
+      setObstacles(prev => [...prev, ...placed.obstacles]);
+    }
+    if (useCorridor || placed.surveyArea || placed.obstacles.length > 0) {
+      setIsDrawingArea(false);
+      setGeneratedMission(null);
+    }
+
+    const parts = [
+      useCorridor && 'corridor',
+      !useCorridor && placed.surveyArea && 'survey area',
+      placed.obstacles.length > 0 && `${placed.obstacles.length} obstacle${placed.obstacles.length > 1 ? 's' : ''}`,
+      isPointPattern && placed.waypoints.length > 0 && !placed.surveyArea && !useCorridor && 'pattern center',
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      toast.success(`Imported ${parts.join(', ')}`);
+    } else {
+      toast.error('Nothing imported; points need an orbit or search pattern to set its center');
+    }
+    placed.skipped.forEach(note => toast.error(note));
+  };
+
+  const importFeatureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const isGeoJson = /\.(geo)?json$/i.test(file.name);
+      if (isGeoJson) {
+        const text = await file.text();
+        if (isGridMissionGeoJson(text)) {
+          restoreImportedPlan(geoJsonToGridPlan(text));
+          setImportReport(null);
+          setActiveTab('preview');
+          toast.success('Grid mission imported from GeoJSON');
+          return;
+        }
+      }
+
+      let fileName = file.name;
+      let features: GeoFeature[];
+      if (isGeoJson) {
+        features = parseGeoJson(await file.text());
+      } else if (/\.zip$/i.test(file.name)) {
+        const shapefile = await loadShapefile(file);
+        shapefile.warnings.forEach(warning => toast.error(warning));
+        features = shapefile.features;
+        if (shapefile.coordinateSystem) {
+          fileName = `${file.name} · ${shapefile.coordinateSystem}`;
+        }
+      } else {
+        features = await loadKmlFile(file);
+      }
+
+      if (features.length === 0) {
+        toast.error(`${file.name} has no polygons, lines or points`);
+        return;
+      }
+
+      // Files with attribute columns always go through the dialog so names and heights can be mapped
+      if (features.length === 1 && attributeFields(features).length === 0) {
+        const [role] = suggestRoles(features);
+        applyFeatureSelections([{ feature: features[0], role }]);
+      } else {
+        setFeatureImport({ fileName, features });
+      }
+    } catch (error) {
+      console.error('❌ Feature import failed:', error);
+      toast.error(error instanceof Error ? error.message : `Failed to read ${file.name}`);
+    }
+  };
+
+  const exportKmlFile = () => {
+    if (!generatedMission) {
+      toast.error('Please generate grid first');
+      return;
+    }
+
+    const kml = buildKml({
+      name: generatedMission.name,
+      paths: [{
+        name: 'Planned path',
+        color: '#10b981',
+        points: generatedMission.validWaypoints.map(wp => ({
+          lat: wp.position.lat,
+          lng: wp.position.lon,
+          alt: wp.position.alt,
+        })),
+      }],
+      areas: generatedMission.config.surveyArea.vertices.length >= 3
+        ? [{ name: generatedMission.config.surveyArea.name, vertices: generatedMission.config.surveyArea.vertices }]
+        : [],
+      obstacles: generatedMission.config.obstacles,
+    });
+    downloadTextFile(kml, toFileName(generatedMission.name, 'kml'), 'application/vnd.google-earth.kml+xml');
+    toast.success('Mission exported as KML');
+  };
+
+  const exportObstaclesGeoJson = () => {
+    const geojson = obstaclesToGeoJson(obstacles);
+    downloadTextFile(JSON.stringify(geojson), toFileName(`${missionName} obstacles`, 'geojson'), 'application/geo+json');
+    toast.success(`${obstacles.length} obstacles exported as GeoJSON`);
+  };
+
+  const exportGeoJsonFile = () => {
+    if (!generatedMission) {
+      toast.error('Please generate grid first');
+      return;
+    }
+
+    const geojson = gridPlanToGeoJson(generatedMission);
+    downloadTextFile(JSON.stringify(geojson), toFileName(generatedMission.name, 'geojson'), 'application/geo+json');
+    toast.success('Mission exported as GeoJSON');
+  };
+
+  // ========================================
+  // QGroundControl Plan Files
+  // ========================================
+
+  const exportPlanFile = () => {
+    if (!generatedMission) {
+      toast.error('Please generate grid first');
+      return;
+    }
+
+    try {
+      const planFile = gridPlanToQgcPlan(generatedMission, {
+        cruiseSpeed: performanceProfile.cruiseSpeed,
+      });
+      downloadTextFile(JSON.stringify(planFile, null, 2), toFileName(generatedMission.name, 'plan'));
+      toast.success('Mission exported as QGroundControl plan');
+    } catch (error) {
+      console.error('❌ Plan export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export plan');
+    }
+  };
+
+  // Restore the editable inputs from an imported plan so it can be regenerated.
+  // Point patterns are restored from their own center: the plan's survey area
+  // is the coverage circle drawn around it.
+  const restoreImportedPlan = (plan: GridMissionPlan) => {
+    const { config } = plan;
+    const pointPattern = config.orbit ?? config.spiral ?? config.search;
+    const center = config.orbit?.center ?? config.spiral?.center ?? config.search?.datum;
+
+    setMissionName(config.name);
+    setSurveyPattern(config.pattern ?? 'grid');
+    setSurveyArea(config.corridor?.centerline ?? (center ? [center] : config.surveyArea.vertices));
+    setAltitude(config.altitude);
+    setGridSpacing(Math.round(config.gridSpacing));
+    setOverlap(config.overlap);
+    setGridAngle(Math.round(config.gridAngle));
+    setAutoGridAngle(false);
+    setCameraAngle(config.cameraAngle);
+    setTargetGsd(config.targetGsd ?? null);
+    if (config.frontOverlap !== undefined) setFrontOverlap(config.frontOverlap);
+    if (config.camera && getCameraProfile(config.camera.id)) setCameraProfileId(config.camera.id);
+    if (config.obstacleBuffer !== undefined) setObstacleBuffer(config.obstacleBuffer);
+    setAllowClimbOver(config.allowClimbOver ?? false);
+    if (config.corridor) {
+      setCorridorWidth(config.corridor.width);
+      setSegmentLength(config.corridor.segmentLength ?? 0);
+      setTurnaroundDistance(config.corridor.turnaroundDistance ?? turnaroundDistance);
+    }
+    if (pointPattern) {
+      setPatternRadius(pointPattern.radius);
+    }
+    if (config.orbit) {
+      setOrbitTurns(config.orbit.turns ?? 1);
+      setOrbitPoints(config.orbit.pointsPerTurn ?? 16);
+      setOrbitClockwise(config.orbit.clockwise ?? true);
+      setPoiAltitude(config.orbit.poiAltitude ?? 0);
+    }
+    if (config.search) {
+      setTrackSpacing(config.search.trackSpacing ?? 0);
+      setSearchBearing(config.search.initialBearing ?? 0);
+    }
+    if (config.spiral) {
+      setTrackSpacing(config.spiral.trackSpacing ?? 0);
+      setSpiralDirection(config.spiral.direction);
+    }
+    setTerrainEnabled(config.terrain?.enabled ?? false);
+    if (config.terrain) {
+      setTerrainTolerance(config.terrain.tolerance ?? terrainTolerance);
+      setMinClearance(config.terrain.minClearance ?? minClearance);
+      setAglCeiling(config.terrain.ceiling ?? aglCeiling);
+    }
+    setObstacles(prev => [...prev.filter(o => !config.obstacles.some(f => f.id === o.id)), ...config.obstacles]);
+    if (plan.home) setHomePoint(plan.home);
+
+    setGeneratedMission(plan);
+    setSavedMissionId(null);
+    setFleetAssignments([]);
+  };
+
+  const importPlanFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { plan, report } = importQgcPlanAsGrid(await file.text(), {
+        name: file.name.replace(/\.plan$/i, ''),
+      });
+      restoreImportedPlan(plan);
+      setImportReport(report);
+      setActiveTab('preview');
+      toast.success(summarizeImportReport(report));
+    } catch (error) {
+      console.error('❌ Plan import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import plan');
+    }
+  };
+
+  // ========================================
+  // Multi-Drone Survey
+  // ========================================
+
+  const toggleFleetVehicle = (id: string) => {
+    setFleetVehicleIds(prev => (prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id]));
+  };
+
+  const generateFleet = () => {
+    const assignments = planFleetSurvey(config, fleetVehicles, {
+      id: `grid-${Date.now()}`,
+      name: missionName,
+      home: effectiveHome ?? undefined,
+      dem: demTiles,
+    });
+
+    if (autoGridAngle && assignments[0]) {
+      setGridAngle(assignments[0].plan.config.gridAngle);
+    }
+
+    setFleetAssignments(assignments);
+    setGeneratedMission(null);
+    setSavedMissionId(null);
+    setActiveTab('preview');
+    toast.success(`Survey partitioned across ${assignments.length} vehicles`);
+    assignments.filter(a => a.splitError).forEach(a => toast.error(`${a.vehicleName}: ${a.splitError}`));
+    assignments.forEach(a => {
+      const blockedError = blockedLegError(a.plan.validWaypoints);
+      if (blockedError) toast.error(`${a.vehicleName}: ${blockedError}`);
+    });
+  };
+
+  const updateFleetSortie = (fleetVehicleId: string, sortieId: string, patch: Partial<GridSortie>) => {
+    setFleetAssignments(prev => prev.map(assignment => (
+      assignment.vehicleId === fleetVehicleId && assignment.plan.sorties ? {
+        ...assignment,
+        plan: {
+          ...assignment.plan,
+          sorties: assignment.plan.sorties.map(s => (s.id === sortieId ? { ...s, ...patch } : s)),
+        },
+      } : assignment
+    )));
+  };
+
+  const launchFleet = async () => {
+    if (fleetAssignments.length === 0) return;
+
+    const airspaceError = airspaceSaveError(airspace.check);
+    if (airspaceError) {
+      toast.error(airspaceError);
+      return;
+    }
+
+    const unsplit = fleetAssignments.find(a => a.splitError);
+    if (unsplit) {
+      toast.error(`${unsplit.vehicleName}: ${unsplit.splitError}`);
+      return;
+    }
+
+    // The next sortie's transit legs can be blocked even when the grid is not
+    for (const assignment of fleetAssignments) {
+      const nextSortie = assignment.plan.sorties?.find(s => s.status === 'planned' || s.status === 'saved');
+      const blockedError = blockedLegError(nextSortie?.waypoints ?? assignment.plan.validWaypoints);
+      if (blockedError) {
+        toast.error(`${assignment.vehicleName}: ${blockedError}`);
+        return;
+      }
+    }
+
+    if (fleetAssignments.some(a => a.plan.sorties?.some(s => s.status === 'in_progress'))) {
+      toast.error('Fleet sorties are still in flight');
+      return;
+    }
+
+    setIsStarting(true);
+    const launchToast = toast.loading(`Launching ${fleetAssignments.length} vehicles...`);
+
+    // Saved IDs are recorded as each save succeeds, so a retry after a
+    // failed save does not save the same plans twice
+    const assignments = [...fleetAssignments];
+    const setSortie = (index: number, sortie: GridSortie) => {
+      const { plan } = assignments[index];
+      assignments[index] = {
+        ...assignments[index],
+        plan: { ...plan, sorties: plan.sorties?.map(s => (s.id === sortie.id ? sortie : s)) },
+      };
+    };
+
+    try {
+      // Save each vehicle's plan, then its first sortie when the plan was split
+      const launches: { index: number; sortie?: GridSortie; vehicleId: string; missionId: string; items: MissionItem[] }[] = [];
+
+      for (let index = 0; index < assignments.length; index++) {
+        const { plan, vehicleId: fleetVehicleId, vehicleName } = assignments[index];
+
+        if (!assignments[index].savedMissionId) {
+          const saved = await saveGridMissionToDatabase({
+            missionName: plan.name,
+            waypoints: plan.validWaypoints.map((wp, wpIndex) => ({
+              id: `wp-${wpIndex}`,
+              label: `Waypoint ${wpIndex + 1}`,
+              coords: `${wp.position.lat.toFixed(6)}° N, ${wp.position.lon.toFixed(6)}° E`,
+              alt: `${wp.position.alt.toFixed(0)}m AGL`,
+              color: 'bg-blue-500',
+              lat: wp.position.lat,
+              lon: wp.position.lon,
+            })),
+            stats: {
+              totalDistance: plan.stats.totalDistance,
+              flightTime: plan.stats.estimatedFlightTime,
+              batteryUsage: plan.stats.estimatedBatteryUsage,
+            },
+            coverageArea: plan.stats.coverageArea,
+            gridSpacing: plan.config.gridSpacing,
+            altitude: plan.config.altitude,
+            vehicleId: fleetVehicleId,
+            airspacePermissions: airspacePermissionRecords(airspace.check, airspace.permissions),
+            obstacles: plan.config.obstacles,
+          });
+          if (!saved.success || saved.missionId === undefined) {
+            throw new Error(`${vehicleName}: ${saved.error}`);
+          }
+          assignments[index] = { ...assignments[index], savedMissionId: saved.missionId.toString() };
+        }
+        const parentId = assignments[index].savedMissionId!;
+
+        let sortie = plan.sorties?.find(s => s.status === 'planned' || s.status === 'saved');
+        if (sortie && !sortie.savedMissionId) {
+          const savedSortie = await saveSortieToDatabase({
+            sortie,
+            parentMissionId: parentId,
+            parentName: plan.name,
+            totalSorties: plan.sorties!.length,
+            vehicleId: fleetVehicleId,
+          });
+          if (!savedSortie.success || !savedSortie.missionId) {
+            throw new Error(`${vehicleName}: failed to save sortie ${sortie.index + 1}`);
+          }
+          sortie = { ...sortie, status: 'saved', savedMissionId: savedSortie.missionId };
+          setSortie(index, sortie);
+        }
+
+        const { cruiseSpeed } = getPerformanceProfile(vehiclesData.find(v => v.id === fleetVehicleId));
+        launches.push({
+          index,
+          sortie,
+          vehicleId: fleetVehicleId,
+          missionId: sortie?.savedMissionId ?? parentId,
+          items: compileMission(sortie
+            ? sortieToMissionActions(sortie, plan, { cruiseSpeed })
+            : gridPlanToMissionActions(plan, { cruiseSpeed })),
+        });
+      }
+
+      for (const launch of launches) {
+        await uploadFences(launch.vehicleId, [launch.missionId, assignments[launch.index].savedMissionId]);
+      }
+
+      const results = await launchFleetMissions(launches);
+
+      await Promise.all(launches.map(async ({ index, sortie, missionId }, launchIndex) => {
+        if (!results[launchIndex].started) return;
+        await updateMissionStatus(Number(missionId), 'active');
+        if (sortie) setSortie(index, { ...sortie, status: 'in_progress' });
+      }));
+
+      const failed = results.filter(r => !r.success);
+      if (failed.length === 0) {
+        toast.success(`🚁 ${results.length} vehicles launched`, { id: launchToast });
+      } else {
+        toast.error(`Fleet not launched: ${failed.map(f => `${f.vehicleId} - ${f.error}`).join('; ')}`, { id: launchToast });
+      }
+    } catch (error) {
+      console.error('❌ Error launching fleet:', error);
+      toast.error(`Failed to launch: ${error instanceof Error ? error.message : 'Unknown error'}`, { id: launchToast });
+    } finally {
+      setFleetAssignments(assignments);
+      setIsStarting(false);
+    }
+  };
+
   // ========================================
   // Database Save Mission
   // ========================================
@@ -272,6 +907,12 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
       return;
     }
 
+    const airspaceError = airspaceSaveError(airspace.check);
+    if (airspaceError) {
+      toast.error(airspaceError);
+      return;
+    }
+
     setIsSaving(true);
     try {
       // Format waypoints for database
@@ -279,7 +920,7 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
         id: `wp-${index}`,
         label: `Waypoint ${index + 1}`,
         coords: `${wp.position.lat.toFixed(6)}° N, ${wp.position.lon.toFixed(6)}° E`,
-        alt: `${altitude}m AGL`,
+        alt: `${wp.position.alt.toFixed(0)}m AGL`,
         color: 'bg-blue-500',
         lat: wp.position.lat,
         lon: wp.position.lon
@@ -303,8 +944,10 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
         waypoints: waypoints,
         created_by: 'grid_planner',
         notes: `Grid survey mission with ${generatedMission.stats.validWaypoints} waypoints`,
-        vehicle_id: 'UAV-GRID-001',
-        operator_id: 'operator-001'
+        vehicle_id: vehicleId,
+        operator_id: 'operator-001',
+        airspace_permissions: airspacePermissionRecords(airspace.check, airspace.permissions),
+        obstacles: generatedMission.config.obstacles
       };
 
       // POST to Mission Database API
@@ -332,15 +975,284 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
     }
   };
 
+  // ========================================
+  // Sorties
+  // ========================================
+
+  const updateSortie = (sortieId: string, patch: Partial<GridSortie>) => {
+    setGeneratedMission(prev => prev && prev.sorties ? {
+      ...prev,
+      sorties: prev.sorties.map(s => (s.id === sortieId ? { ...s, ...patch } : s)),
+    } : prev);
+  };
+
+  const splitMission = () => {
+    if (!generatedMission || !effectiveHome) {
+      toast.error('Please generate grid first');
+      return;
+    }
+
+    try {
+      const sorties = splitIntoSorties(generatedMission, performanceProfile, { home: effectiveHome });
+      setGeneratedMission({ ...generatedMission, home: effectiveHome, sorties });
+      setActiveSortieId(null);
+      setResumeLine(null);
+      toast.success(`Split into ${sorties.length} ${sorties.length === 1 ? 'sortie' : 'sorties'}`);
+    } catch (error) {
+      console.error('Error splitting mission:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to split mission');
+    }
+  };
+
+  const saveSortie = async (sortie: GridSortie): Promise<string | null> => {
+    if (!generatedMission?.sorties) return null;
+    if (sortie.savedMissionId) return sortie.savedMissionId;
+
+    const parentId = savedMissionId ?? (await saveMissionToDatabase());
+    if (!parentId) return null;
+
+    const result = await saveSortieToDatabase({
+      sortie,
+      parentMissionId: parentId.toString(),
+      parentName: missionName,
+      totalSorties: generatedMission.sorties.length,
+      vehicleId,
+    });
+
+    if (!result.success || !result.missionId) {
+      toast.error(`Failed to save sortie ${sortie.index + 1}: ${result.error}`);
+      return null;
+    }
+
+    updateSortie(sortie.id, { status: 'saved', savedMissionId: result.missionId });
+    toast.success(`Sortie ${sortie.index + 1} saved`);
+    return result.missionId;
+  };
+
+  // Replace the vehicle's fence with the library sets assigned to it or its
+  // missions; throws so the launch stops when the fence is not in place
+  const uploadFences = async (fenceVehicleId: string, missionIds: Array<string | number | null | undefined>) => {
+    const fenceUpload = await uploadAssignedGeofences(
+      fenceVehicleId,
+      missionIds.filter((id): id is string | number => id !== null && id !== undefined).map(String)
+    );
+    if (!fenceUpload.success) {
+      throw new Error(`${fenceVehicleId}: ${fenceUpload.error || 'Geofence upload failed'}`);
+    }
+    if (fenceUpload.setCount) {
+      toast.success(`🛡️ ${fenceVehicleId}: ${fenceUpload.fenceItemCount} fence items uploaded`);
+    }
+  };
+
+  const flySortie = async (sortie: GridSortie) => {
+    if (!generatedMission) return;
+    if (activeSortieId) {
+      toast.error('Another sortie is in progress');
+      return;
+    }
+    const blockedError = blockedLegError(sortie.waypoints);
+    if (blockedError) {
+      toast.error(`Sortie ${sortie.index + 1}: ${blockedError}`);
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      const sortieMissionId = await saveSortie(sortie);
+      if (!sortieMissionId) return;
+
+      const upload = await uploadSortieToVehicle(sortie, generatedMission, performanceProfile.cruiseSpeed, vehicleId);
+      if (!upload.success) {
+        throw new Error(upload.error || 'Upload failed');
+      }
+      updateSortie(sortie.id, { status: 'uploaded' });
+
+      // Library fences assigned to this vehicle or mission go up with the sortie
+      await uploadFences(vehicleId, [sortieMissionId, savedMissionId]);
+
+      await droneControlService.startUploadedMission(sortieMissionId, vehicleId);
+      await updateMissionStatus(Number(sortieMissionId), 'active');
+
+      updateSortie(sortie.id, { status: 'in_progress' });
+      setActiveSortieId(sortie.id);
+      toast.success(`🚁 Sortie ${sortie.index + 1} started`);
+    } catch (error) {
+      console.error('❌ Error starting sortie:', error);
+      toast.error(`Failed to start sortie: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const resumeSorties = () => {
+    if (!generatedMission || !effectiveHome) return;
+
+    try {
+      const sorties = resumeFromLine(generatedMission, resumeLine, performanceProfile, {
+        home: effectiveHome,
+      });
+      setGeneratedMission({ ...generatedMission, sorties });
+      setActiveSortieId(null);
+      const remaining = sorties.filter(s => s.status === 'planned').length;
+      toast.success(
+        resumeLine === null
+          ? `Re-planned ${remaining} sorties`
+          : `Resuming after line ${resumeLine + 1}: ${remaining} sorties remaining`
+      );
+    } catch (error) {
+      console.error('Error resuming mission:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resume mission');
+    }
+  };
+
+  // Geofence: enabled obstacles, plus the corridor itself for corridor surveys
+  const missionConfig = generatedMission?.config;
+  const geofenceZones = useMemo((): GeofenceZone[] => {
+    if (!missionConfig) return [];
+
+    const zones = missionConfig.obstacles.filter(o => o.enabled).map(obstacleToGeofenceZone);
+    if (missionConfig.pattern === 'corridor') {
+      zones.push(missionAreaGeofenceZone(missionConfig.surveyArea.vertices, { name: `${missionConfig.name} corridor` }));
+    }
+    return zones;
+  }, [missionConfig]);
+
+  const activeSortie = generatedMission?.sorties?.find(s => s.id === activeSortieId);
+  const geofence = useGeofenceMonitor({
+    zones: geofenceZones,
+    enabled: !!activeSortieId,
+    missionId: activeSortie?.savedMissionId,
+    vehicleId,
+  });
+  const reportGeofenceTelemetry = geofence.reportTelemetry;
+
+  const respondToGeofence = async (alertVehicleId: string, response: BreachResponse) => {
+    try {
+      await geofence.respond(alertVehicleId, response);
+      toast.success(response === 'rtl' ? `${alertVehicleId} returning to launch` : `${alertVehicleId} holding position`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to command vehicle');
+      throw error;
+    }
+  };
+
+  // Track progress of the sortie in flight
+  useEffect(() => {
+    const sortie = generatedMission?.sorties?.find(s => s.id === activeSortieId);
+    if (!generatedMission || !sortie) return;
+
+    const lastLine = sortie.lineIndices[sortie.lineIndices.length - 1];
+    // Same actions as the upload, to map the current mission item back to a waypoint
+    const actions = sortieToMissionActions(sortie, generatedMission, { cruiseSpeed: performanceProfile.cruiseSpeed });
+
+    const interval = setInterval(async () => {
+      try {
+        const status = adaptTelemetry(await droneControlService.getStatus(), 'http', { vehicleId });
+        if (!status) return;
+        reportGeofenceTelemetry(status);
+        const completedLine = lastCompletedLineAt(sortie, waypointIndexAtItem(actions, status.mission?.current ?? 0));
+
+        if (completedLine !== null && completedLine !== sortie.lastCompletedLine) {
+          updateSortie(sortie.id, { lastCompletedLine: completedLine });
+          setResumeLine(completedLine);
+        }
+
+        if (!status.mission?.active && completedLine === lastLine) {
+          updateSortie(sortie.id, { status: 'completed', lastCompletedLine: lastLine });
+          setActiveSortieId(null);
+          if (sortie.savedMissionId) {
+            await updateMissionStatus(Number(sortie.savedMissionId), 'completed');
+          }
+          toast.success(`✅ Sortie ${sortie.index + 1} completed`);
+        }
+      } catch (error) {
+        console.error('Error tracking sortie:', error);
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [activeSortieId, generatedMission, performanceProfile.cruiseSpeed, vehicleId, reportGeofenceTelemetry]);
+
+  // Track progress of the fleet sorties in flight, one status poll per vehicle
+  useEffect(() => {
+    const flying = fleetAssignments.flatMap(({ vehicleId: fleetVehicleId, vehicleName, plan }) => {
+      const sortie = plan.sorties?.find(s => s.status === 'in_progress');
+      if (!sortie) return [];
+
+      const { cruiseSpeed } = getPerformanceProfile(vehiclesData.find(v => v.id === fleetVehicleId));
+      return [{
+        vehicleId: fleetVehicleId,
+        vehicleName,
+        sortie,
+        lastLine: sortie.lineIndices[sortie.lineIndices.length - 1],
+        // Same actions as the upload, to map the current mission item back to a waypoint
+        actions: sortieToMissionActions(sortie, plan, { cruiseSpeed }),
+        finished: false,
+      }];
+    });
+    if (flying.length === 0) return;
+
+    const interval = setInterval(() => {
+      flying.forEach(async (flight) => {
+        if (flight.finished) return;
+        try {
+          const status = adaptTelemetry(
+            await droneControlService.getStatus(flight.vehicleId),
+            'http',
+            { vehicleId: flight.vehicleId }
+          );
+          if (!status) return;
+
+          const { sortie, lastLine } = flight;
+          const completedLine = lastCompletedLineAt(sortie, waypointIndexAtItem(flight.actions, status.mission?.current ?? 0));
+
+          if (!status.mission?.active && completedLine === lastLine) {
+            flight.finished = true;
+            updateFleetSortie(flight.vehicleId, sortie.id, { status: 'completed', lastCompletedLine: lastLine });
+            if (sortie.savedMissionId) {
+              await updateMissionStatus(Number(sortie.savedMissionId), 'completed');
+            }
+            toast.success(`✅ ${flight.vehicleName}: sortie ${sortie.index + 1} completed`);
+          } else if (completedLine !== null && completedLine !== sortie.lastCompletedLine) {
+            updateFleetSortie(flight.vehicleId, sortie.id, { lastCompletedLine: completedLine });
+          }
+        } catch (error) {
+          console.error(`Error tracking ${flight.vehicleId} sortie:`, error);
+        }
+      });
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [fleetAssignments]);
+
   // ========================================
   // Mission Upload & Start
   // ========================================
 
+  // Fly a plan that was not split into sorties in one flight
   const uploadAndStartMission = async () => {
     if (!generatedMission) {
       toast.error('Please generate grid first');
       return;
     }
+    if (generatedMission.sorties && generatedMission.sorties.length > 0) {
+      toast.error('This plan is split; fly it one sortie at a time');
+      return;
+    }
+    if (generatedMission.stats.reserveSatisfied === false) {
+      toast.error(`Mission exceeds ${selectedVehicle?.name ?? 'vehicle'} battery reserve; split it into sorties first`);
+      return;
+    }
+    const waypointLimit = checkWaypointLimit(generatedMission.validWaypoints.length);
+    if (!waypointLimit.valid) {
+      toast.error(`${waypointLimit.warning}; split it into sorties first`);
+      return;
+    }
+    const blockedError = blockedLegError(generatedMission.validWaypoints);
+    if (blockedError) {
+      toast.error(blockedError);
+      return;
+    }
 
     // Save to database first if not already saved
     let missionId = savedMissionId;
@@ -354,83 +1266,24 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
 
     setIsStarting(true);
     try {
-      // Step 1: Create survey mission on Drone Control API (port 8000)
-      console.log('🚀 Creating survey mission on drone control API...');
-      
-      const surveyPayload = {
-        name: missionName,
-        polygon: surveyArea.map(p => [p.lat, p.lng] as [number, number]),
-        altitude: altitude,
-        grid_spacing: gridSpacing,
-        overlap: overlap,
-        camera_angle: cameraAngle
-      };
-
-      const surveyResponse = await fetch(`${DRONE_CONTROL_API}/mission/survey`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(surveyPayload),
-      });
+      const items = compileMission(gridPlanToMissionActions(generatedMission, { cruiseSpeed: performanceProfile.cruiseSpeed }));
+      console.log(`📤 Uploading ${items.length} mission items to ${vehicleId}...`);
 
-      if (!surveyResponse.ok) {
-        throw new Error('Failed to create survey mission on drone control API');
+      const upload = await droneControlService.uploadMission(items, vehicleId);
+      if (!upload.success) {
+        throw new Error(upload.error || upload.message || 'Upload failed');
       }
-
-      const surveyData = await surveyResponse.json();
-      console.log('✅ Survey mission created:', surveyData);
-      
-      const droneControlMissionId = surveyData.data.mission_id;
-      toast.success(`Survey mission created: ${droneControlMissionId}`);
-
-      // Step 2: Upload mission to PX4
-      console.log('📤 Uploading mission to PX4...');
-      
-      const uploadResponse = await fetch(`${DRONE_CONTROL_API}/mission/upload_template/${droneControlMissionId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload mission to PX4');
-      }
-
-      const uploadData = await uploadResponse.json();
-      console.log('✅ Mission uploaded to PX4:', uploadData);
       toast.success('Mission uploaded to drone');
 
-      // Step 3: Start mission
-      console.log('▶️ Starting mission...');
-      
-      const startResponse = await fetch(`${DRONE_CONTROL_API}/mission/start`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      // Library fences assigned to this vehicle or mission go up with the plan
+      await uploadFences(vehicleId, [missionId]);
 
-      if (!startResponse.ok) {
-        throw new Error('Failed to start mission');
-      }
-
-      const startData = await startResponse.json();
-      console.log('✅ Mission started:', startData);
+      await droneControlService.startUploadedMission(String(missionId), vehicleId);
+      await updateMissionStatus(Number(missionId), 'active');
       toast.success('🚁 Mission started! Live telemetry active.');
 
-      // Update mission status in database
-      await fetch(`${MISSION_DB_API}/api/missions/${missionId}/status`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: 'active' }),
-      });
-
       if (onMissionStart) {
-        onMissionStart(missionId);
+        onMissionStart(String(missionId));
       }
 
     } catch (error) {
@@ -484,6 +1337,15 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
           },
         }}
       />
+
+      {featureImport && (
+        <FeatureImportDialog
+          fileName={featureImport.fileName}
+          features={featureImport.features}
+          onConfirm={applyFeatureSelections}
+          onCancel={() => setFeatureImport(null)}
+        />
+      )}
       
       {/* Left Sidebar - Controls */}
       <div className="w-96 bg-slate-800 border-r border-slate-700 overflow-y-auto">
@@ -503,6 +1365,48 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
             />
           </div>
 
+          {/* Vehicle */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">Vehicle</label>
+            <select
+              value={vehicleId}
+              onChange={(e) => setVehicleId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {vehiclesData.map(vehicle => (
+                <option key={vehicle.id} value={vehicle.id}>
+                  {vehicle.name} ({vehicle.model})
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-400 mt-1">
+              {performanceProfile.cruiseSpeed} m/s cruise · {performanceProfile.batteryCapacity} Wh · {performanceProfile.reserve.minReservePercent}% reserve
+            </p>
+
+            <details className="mt-3">
+              <summary className="text-sm cursor-pointer text-slate-300">
+                Multi-drone survey {fleetVehicleIds.length > 0 && `(${fleetVehicleIds.length} selected)`}
+              </summary>
+              <div className="mt-2 space-y-1">
+                {vehiclesData.map(vehicle => (
+                  <label key={vehicle.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={fleetVehicleIds.includes(vehicle.id)}
+                      onChange={() => toggleFleetVehicle(vehicle.id)}
+                      className="rounded"
+                    />
+                    <span>{vehicle.name}</span>
+                    <span className="text-xs text-slate-500">{vehicle.status}</span>
+                  </label>
+                ))}
+                <p className="text-xs text-slate-400">
+                  Select two or more vehicles to split the area by endurance
+                </p>
+              </div>
+            </details>
+          </div>
+
           {/* Tabs */}
           <div className="flex gap-2 mb-6">
             {(['area', 'obstacles', 'grid', 'preview'] as const).map(tab => (
@@ -523,6 +1427,47 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
           {/* Area Tab */}
           {activeTab === 'area' && (
             <div className="space-y-4">
+              <label className="block">
+                <span className="block text-sm font-medium mb-2">Import QGroundControl Plan</span>
+                <input
+                  type="file"
+                  accept=".plan,application/json"
+                  onChange={importPlanFile}
+                  className="w-full text-xs text-slate-300 file:mr-2 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-slate-600 file:text-white"
+                />
+              </label>
+
+              <label className="block">
+                <span className="block text-sm font-medium mb-2">Import KML / KMZ / GeoJSON / Shapefile (.zip)</span>
+                <input
+                  type="file"
+                  accept=".kml,.kmz,.geojson,.json,.zip"
+                  onChange={importFeatureFile}
+                  className="w-full text-xs text-slate-300 file:mr-2 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-slate-600 file:text-white"
+                />
+              </label>
+
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(SURVEY_PATTERN_LABELS) as SurveyPattern[]).map(pattern => (
+                  <button
+                    key={pattern}
+                    onClick={() => {
+                      // Point patterns keep only the first clicked point as their center
+                      if (POINT_PATTERNS.includes(pattern)) {
+                        setSurveyArea(prev => prev.slice(0, 1));
+                      }
+                      setSurveyPattern(pattern);
+                      setGeneratedMission(null);
+                    }}
+                    className={`px-3 py-1 rounded-md text-sm ${
+                      surveyPattern === pattern ? 'bg-slate-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                    }`}
+                  >
+                    {SURVEY_PATTERN_LABELS[pattern]}
+                  </button>
+                ))}
+              </div>
+
               <div className="flex gap-2">
                 <button
                   onClick={() => setIsDrawingArea(!isDrawingArea)}
@@ -533,9 +1478,15 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                   }`}
                 >
                   <MapPin className="inline mr-2" size={16} />
-                  {isDrawingArea ? 'Drawing...' : 'Draw Area'}
+                  {isDrawingArea
+                    ? isPointPattern ? 'Click map...' : 'Drawing...'
+                    : surveyPattern === 'corridor'
+                      ? 'Draw Centerline'
+                      : surveyPattern === 'orbit'
+                        ? 'Set Point of Interest'
+                        : isPointPattern ? 'Set Search Center' : 'Draw Area'}
                 </button>
-                {isDrawingArea && (
+                {isDrawingArea && !isPointPattern && (
                   <button
                     onClick={finishDrawingArea}
                     className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-md font-medium"
@@ -559,6 +1510,26 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                   </div>
                 </div>
               )}
+
+              <div className="bg-slate-700 p-3 rounded-lg">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-medium">Home Point</span>
+                  <button
+                    onClick={() => setIsSettingHome(!isSettingHome)}
+                    className={`px-3 py-1 rounded-md text-sm ${
+                      isSettingHome ? 'bg-green-600 hover:bg-green-700' : 'bg-slate-600 hover:bg-slate-500'
+                    }`}
+                  >
+                    <Home className="inline mr-1" size={14} />
+                    {isSettingHome ? 'Click map...' : 'Set Home'}
+                  </button>
+                </div>
+                <p className="text-xs text-slate-400">
+                  {effectiveHome
+                    ? `${effectiveHome.lat.toFixed(6)}, ${effectiveHome.lng.toFixed(6)}${homePoint ? '' : ' (first area point)'}`
+                    : 'Defaults to the first survey area point'}
+                </p>
+              </div>
             </div>
           )}
 
@@ -587,9 +1558,41 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                 )}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-2">Detour Buffer (m)</label>
+                <input
+                  type="number"
+                  value={obstacleBuffer}
+                  onChange={(e) => setObstacleBuffer(Number(e.target.value))}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
+                  min="0"
+                  max="200"
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="allowClimbOver"
+                  checked={allowClimbOver}
+                  onChange={(e) => setAllowClimbOver(e.target.checked)}
+                  className="rounded"
+                />
+                <label htmlFor="allowClimbOver" className="text-sm">Climb over obstacles when below 120m</label>
+              </div>
+
               {obstacles.length > 0 && (
                 <div className="space-y-2">
-                  <h3 className="text-sm font-medium text-slate-400">Obstacles ({obstacles.length})</h3>
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-slate-400">Obstacles ({obstacles.length})</h3>
+                    <button
+                      onClick={exportObstaclesGeoJson}
+                      className="flex items-center gap-1 text-xs text-slate-300 hover:text-white"
+                    >
+                      <Download size={12} />
+                      GeoJSON
+                    </button>
+                  </div>
                   {obstacles.map(obs => (
                     <div key={obs.id} className="flex items-center gap-2 p-2 bg-slate-700 rounded">
                       <button
@@ -611,6 +1614,17 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                   ))}
                 </div>
               )}
+
+              <AirspacePanel
+                zones={airspace.zones}
+                files={airspace.files}
+                check={airspace.check}
+                permissions={airspace.permissions}
+                onPermissionChange={airspace.setPermission}
+                onImport={airspace.importFile}
+                onRemoveFile={airspace.removeFile}
+                hasRoute={airspaceRoutes.length > 0}
+              />
             </div>
           )}
 
@@ -618,53 +1632,207 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
           {activeTab === 'grid' && (
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium mb-2">Altitude (m)</label>
-                <input
-                  type="number"
-                  value={altitude}
-                  onChange={(e) => setAltitude(Number(e.target.value))}
+                <label className="block text-sm font-medium mb-2">Camera</label>
+                <select
+                  value={cameraProfileId}
+                  onChange={(e) => setCameraProfileId(e.target.value)}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
-                  min="10"
-                  max="120"
-                />
+                >
+                  <option value="">Manual spacing (no camera)</option>
+                  {Object.values(CAMERA_PROFILES).map(camera => (
+                    <option key={camera.id} value={camera.id}>{camera.name}</option>
+                  ))}
+                </select>
               </div>
 
+              {cameraProfileId && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Target GSD (cm/px)</label>
+                  <input
+                    type="number"
+                    value={targetGsd ?? ''}
+                    onChange={(e) => setTargetGsd(e.target.value === '' ? null : Number(e.target.value))}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
+                    placeholder="Leave empty to fly at set altitude"
+                    min="0.1"
+                    step="0.1"
+                  />
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-medium mb-2">Grid Spacing (m)</label>
+                <label className="block text-sm font-medium mb-2">
+                  {terrainEnabled ? 'Height Above Ground (m)' : 'Altitude (m)'}
+                </label>
                 <input
                   type="number"
-                  value={gridSpacing}
-                  onChange={(e) => setGridSpacing(Number(e.target.value))}
-                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
+                  value={cameraProfileId && targetGsd ? Number(surveyGeometry.altitude.toFixed(1)) : altitude}
+                  onChange={(e) => setAltitude(Number(e.target.value))}
+                  disabled={Boolean(cameraProfileId && targetGsd)}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md disabled:opacity-60"
                   min="10"
-                  max="100"
+                  max="120"
                 />
               </div>
 
+              <div className="bg-slate-700 p-3 rounded-lg space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium">Terrain Following</span>
+                  {demTiles.length > 0 && (
+                    <button onClick={clearDemTiles} className="text-red-400 hover:text-red-300 text-xs">
+                      Clear DEM
+                    </button>
+                  )}
+                </div>
+                <label className="block">
+                  <span className="sr-only">Load elevation data</span>
+                  <input
+                    type="file"
+                    accept=".hgt,.tif,.tiff"
+                    multiple
+                    onChange={loadDemFiles}
+                    disabled={isLoadingDem}
+                    className="w-full text-xs text-slate-300 file:mr-2 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-slate-600 file:text-white"
+                  />
+                </label>
+                <p className="text-xs text-slate-400">
+                  {isLoadingDem
+                    ? 'Loading elevation data...'
+                    : demTiles.length > 0
+                      ? demTiles.map(t => t.name).join(', ')
+                      : 'SRTM .hgt tiles or a GeoTIFF in WGS84 lat/lon'}
+                </p>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={terrainEnabled}
+                    onChange={(e) => setTerrainEnabled(e.target.checked)}
+                    disabled={demTiles.length === 0}
+                  />
+                  Hold height above ground
+                </label>
+                {terrainEnabled && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Tolerance (m)</label>
+                      <input
+                        type="number"
+                        value={terrainTolerance}
+                        onChange={(e) => setTerrainTolerance(Number(e.target.value))}
+                        className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-sm"
+                        min="1"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Clearance (m)</label>
+                      <input
+                        type="number"
+                        value={minClearance}
+                        onChange={(e) => setMinClearance(Number(e.target.value))}
+                        className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-sm"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-400 mb-1">Ceiling (m)</label>
+                      <input
+                        type="number"
+                        value={aglCeiling}
+                        onChange={(e) => setAglCeiling(Number(e.target.value))}
+                        className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-sm"
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {!cameraProfileId && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Grid Spacing (m)</label>
+                  <input
+                    type="number"
+                    value={gridSpacing}
+                    onChange={(e) => setGridSpacing(Number(e.target.value))}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
+                    min="10"
+                    max="100"
+                  />
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-medium mb-2">Overlap</label>
+                <label className="block text-sm font-medium mb-2">{cameraProfileId ? 'Side Overlap' : 'Overlap'}</label>
                 <input
                   type="range"
                   value={overlap}
                   onChange={(e) => setOverlap(Number(e.target.value))}
                   className="w-full"
                   min="0"
-                  max="1"
-                  step="0.1"
+                  max={cameraProfileId ? '0.95' : '1'}
+                  step="0.05"
                 />
                 <span className="text-sm text-slate-400">{(overlap * 100).toFixed(0)}%</span>
               </div>
 
+              {cameraProfileId && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Front Overlap</label>
+                  <input
+                    type="range"
+                    value={frontOverlap}
+                    onChange={(e) => setFrontOverlap(Number(e.target.value))}
+                    className="w-full"
+                    min="0"
+                    max="0.95"
+                    step="0.05"
+                  />
+                  <span className="text-sm text-slate-400">{(frontOverlap * 100).toFixed(0)}%</span>
+                </div>
+              )}
+
+              {surveyGeometry.footprint && (
+                <div className="bg-slate-700 p-3 rounded-md space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">GSD:</span>
+                    <span>{surveyGeometry.footprint.gsd.toFixed(2)} cm/px</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Footprint:</span>
+                    <span>{surveyGeometry.footprint.width.toFixed(1)} × {surveyGeometry.footprint.height.toFixed(1)} m</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Line Spacing:</span>
+                    <span>{surveyGeometry.lineSpacing.toFixed(1)} m</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Trigger Distance:</span>
+                    <span>{surveyGeometry.triggerDistance?.toFixed(1)} m</span>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium mb-2">Grid Angle (°)</label>
                 <input
                   type="number"
                   value={gridAngle}
                   onChange={(e) => setGridAngle(Number(e.target.value))}
-                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md"
+                  disabled={autoGridAngle}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md disabled:opacity-60"
                   min="0"
                   max="180"
                 />
+                <div className="flex items-center gap-2 mt-2">
+                  <input
+                    type="checkbox"
+                    id="autoGridAngle"
+                    checked={autoGridAngle}
+                    onChange={(e) => setAutoGridAngle(e.target.checked)}
+                    className="rounded"
+                  />
+                  <label htmlFor="autoGridAngle" className="text-sm">Auto angle (fewest turns)</label>
+                </div>
               </div>
 
               <div>
@@ -679,9 +1847,159 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                 />
               </div>
 
+              {surveyPattern === 'corridor' && (
+                <div className="bg-slate-700 p-3 rounded-lg space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Corridor Width (m)</label>
+                    <input
+                      type="number"
+                      value={corridorWidth}
+                      onChange={(e) => setCorridorWidth(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                      min="1"
+                    />
+                    <p className="text-xs text-slate-400 mt-1">
+                      {Math.max(1, Math.ceil(corridorWidth / surveyGeometry.lineSpacing))} passes at {surveyGeometry.lineSpacing.toFixed(1)} m
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Segment Length (m, 0 = whole corridor)</label>
+                    <input
+                      type="number"
+                      value={segmentLength}
+                      onChange={(e) => setSegmentLength(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                      min="0"
+                      step="100"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Turnaround Distance (m)</label>
+                    <input
+                      type="number"
+                      value={turnaroundDistance}
+                      onChange={(e) => setTurnaroundDistance(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                      min="0"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {isPointPattern && (
+                <div className="bg-slate-700 p-3 rounded-lg space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      {surveyPattern === 'orbit' ? 'Orbit Radius (m)' : 'Search Radius (m)'}
+                    </label>
+                    <input
+                      type="number"
+                      value={patternRadius}
+                      onChange={(e) => setPatternRadius(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                      min="1"
+                    />
+                  </div>
+
+                  {surveyPattern === 'orbit' && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Turns</label>
+                          <input
+                            type="number"
+                            value={orbitTurns}
+                            onChange={(e) => setOrbitTurns(Number(e.target.value))}
+                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                            min="1"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Points / Turn</label>
+                          <input
+                            type="number"
+                            value={orbitPoints}
+                            onChange={(e) => setOrbitPoints(Number(e.target.value))}
+                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                            min="4"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">POI Height (m)</label>
+                        <input
+                          type="number"
+                          value={poiAltitude}
+                          onChange={(e) => setPoiAltitude(Number(e.target.value))}
+                          className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                          min="0"
+                        />
+                        <p className="text-xs text-slate-400 mt-1">
+                          Gimbal pitch {(-Math.atan2(surveyGeometry.altitude - poiAltitude, Math.max(patternRadius, 1)) * 180 / Math.PI).toFixed(1)}°, nose on target
+                        </p>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={orbitClockwise}
+                          onChange={(e) => setOrbitClockwise(e.target.checked)}
+                        />
+                        Clockwise
+                      </label>
+                    </>
+                  )}
+
+                  {(surveyPattern === 'expanding_square' || surveyPattern === 'sector') && (
+                    <div>
+                      <label className="block text-sm font-medium mb-2">First Leg Bearing (°)</label>
+                      <input
+                        type="number"
+                        value={searchBearing}
+                        onChange={(e) => setSearchBearing(Number(e.target.value))}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                        min="0"
+                        max="359"
+                      />
+                    </div>
+                  )}
+
+                  {surveyPattern === 'spiral' && (
+                    <div className="flex gap-2">
+                      {(['outward', 'inward'] as const).map(direction => (
+                        <button
+                          key={direction}
+                          onClick={() => setSpiralDirection(direction)}
+                          className={`flex-1 px-3 py-1 rounded-md text-sm ${
+                            spiralDirection === direction ? 'bg-slate-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                          }`}
+                        >
+                          {direction === 'outward' ? 'Outward' : 'Inward'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {(surveyPattern === 'expanding_square' || surveyPattern === 'spiral') && (
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Track Spacing (m, 0 = line spacing)</label>
+                      <input
+                        type="number"
+                        value={trackSpacing}
+                        onChange={(e) => setTrackSpacing(Number(e.target.value))}
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"
+                        min="0"
+                      />
+                      <p className="text-xs text-slate-400 mt-1">
+                        Tracks {(trackSpacing > 0 ? trackSpacing : surveyGeometry.lineSpacing).toFixed(1)} m apart
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <button
                 onClick={generateGrid}
-                disabled={isGenerating || surveyArea.length < 3}
+                disabled={isGenerating || surveyArea.length < minAreaPoints}
                 className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-md font-medium"
               >
                 <Grid className="inline mr-2" size={16} />
@@ -691,6 +2009,75 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
           )}
 
           {/* Preview Tab */}
+          {activeTab === 'preview' && airspaceRoutes.length > 0 && (
+            <div className="mb-4">
+              <AirspacePanel
+                zones={airspace.zones}
+                files={airspace.files}
+                check={airspace.check}
+                permissions={airspace.permissions}
+                onPermissionChange={airspace.setPermission}
+                onImport={airspace.importFile}
+                onRemoveFile={airspace.removeFile}
+                hasRoute={airspaceRoutes.length > 0}
+              />
+            </div>
+          )}
+
+          {activeTab === 'preview' && fleetAssignments.length > 0 && (
+            <div className="space-y-4">
+              <div className="bg-slate-700 p-4 rounded-lg">
+                <h3 className="text-sm font-medium mb-3">Fleet Partitions ({fleetAssignments.length})</h3>
+                <div className="space-y-2">
+                  {fleetAssignments.map(assignment => (
+                    <div key={assignment.vehicleId} className="bg-slate-800 p-3 rounded-md text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium">
+                          <span
+                            className="inline-block w-3 h-3 rounded-sm mr-2"
+                            style={{ backgroundColor: assignment.color }}
+                          />
+                          {assignment.vehicleName}
+                        </span>
+                        <span className="text-xs text-slate-400">{(assignment.share * 100).toFixed(0)}% of area</span>
+                      </div>
+                      <div className="text-xs text-slate-400 mt-1">
+                        {assignment.plan.stats.gridLines} lines
+                        {' · '}{assignment.plan.stats.coverageArea.toFixed(2)} km²
+                        {' · '}{assignment.plan.stats.estimatedFlightTime.toFixed(1)} min
+                        {' · '}{assignment.plan.sorties ? `${assignment.plan.sorties.length} sorties` : '1 sortie'}
+                      </div>
+                      {assignment.plan.sorties?.some(s => s.status === 'in_progress') && (
+                        <div className="text-xs text-amber-300 mt-1">In flight</div>
+                      )}
+                      {assignment.splitError && (
+                        <div className="text-xs text-red-400 mt-1">
+                          <AlertTriangle className="inline mr-1" size={12} />
+                          Not launchable: {assignment.splitError}
+                        </div>
+                      )}
+                      {(assignment.plan.stats.blockedLegs ?? 0) > 0 && (
+                        <div className="text-xs text-red-400 mt-1">
+                          <AlertTriangle className="inline mr-1" size={12} />
+                          Not launchable: {assignment.plan.stats.blockedLegs} leg{assignment.plan.stats.blockedLegs! > 1 ? 's' : ''} cross obstacles
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={launchFleet}
+                disabled={isStarting || fleetAssignments.some(a => a.splitError || (a.plan.stats.blockedLegs ?? 0) > 0)}
+                className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-md font-medium"
+              >
+                <Play className="inline mr-2" size={16} />
+                {isStarting ? 'Launching...' : `Save & Launch All (${fleetAssignments.length})`}
+              </button>
+            </div>
+          )}
+
           {activeTab === 'preview' && generatedMission && (
             <div className="space-y-4">
               <div className="bg-slate-700 p-4 rounded-lg">
@@ -708,10 +2095,26 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                     <span className="text-slate-400">Blocked by Obstacles:</span>
                     <span className="text-red-400 font-medium">{generatedMission.stats.obstacleWaypoints}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Detour Waypoints:</span>
+                    <span className="text-amber-400 font-medium">{generatedMission.stats.detourWaypoints ?? 0}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Legs Through Obstacles:</span>
+                    <span className={`font-medium ${
+                      (generatedMission.stats.blockedLegs ?? 0) > 0 ? 'text-red-400' : 'text-green-400'
+                    }`}>
+                      {generatedMission.stats.blockedLegs ?? 0}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-slate-400">Grid Lines:</span>
                     <span className="font-medium">{generatedMission.stats.gridLines}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Grid Angle:</span>
+                    <span className="font-medium">{generatedMission.config.gridAngle}°</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-slate-400">Distance:</span>
                     <span className="font-medium">{generatedMission.stats.totalDistance.toFixed(2)} km</span>
@@ -723,18 +2126,110 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                   <div className="flex justify-between">
                     <span className="text-slate-400">Battery Usage:</span>
                     <span className={`font-medium ${
-                      generatedMission.stats.estimatedBatteryUsage > 90 ? 'text-red-400' : 'text-green-400'
+                      generatedMission.stats.reserveSatisfied === false ? 'text-red-400' : 'text-green-400'
                     }`}>
                       {generatedMission.stats.estimatedBatteryUsage.toFixed(0)}%
                     </span>
                   </div>
+                  {generatedMission.stats.energyConsumed !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Energy:</span>
+                      <span className="font-medium">{generatedMission.stats.energyConsumed.toFixed(0)} Wh</span>
+                    </div>
+                  )}
+                  {generatedMission.stats.rthReserveRemaining !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">RTH Reserve:</span>
+                      <span className={`font-medium ${
+                        generatedMission.stats.reserveSatisfied === false ? 'text-red-400' : 'text-green-400'
+                      }`}>
+                        {generatedMission.stats.rthReserveRemaining.toFixed(0)}%
+                      </span>
+                    </div>
+                  )}
+                  {generatedMission.stats.minAgl !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Height AGL:</span>
+                      <span className={`font-medium ${
+                        generatedMission.stats.terrainWarnings ? 'text-amber-400' : 'text-green-400'
+                      }`}>
+                        {generatedMission.stats.minAgl.toFixed(0)}–{generatedMission.stats.maxAgl?.toFixed(0)} m
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-slate-400">Coverage Area:</span>
                     <span className="font-medium">{generatedMission.stats.coverageArea.toFixed(2)} km²</span>
                   </div>
+                  {generatedMission.stats.gsd !== undefined && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">GSD:</span>
+                        <span className="font-medium">{generatedMission.stats.gsd.toFixed(2)} cm/px</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Images:</span>
+                        <span className="font-medium">{generatedMission.stats.imageCount}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Footprint:</span>
+                        <span className="font-medium">
+                          {generatedMission.stats.footprintWidth?.toFixed(1)} × {generatedMission.stats.footprintHeight?.toFixed(1)} m
+                        </span>
+                      </div>
+                    </>
+                  )}
                 </div>
+                {missionEnergy && (
+                  <EnergyLegBreakdown
+                    legs={missionEnergy.legs}
+                    reservePercent={performanceProfile.reserve.minReservePercent}
+                    className="mt-3"
+                  />
+                )}
               </div>
 
+              {(generatedMission.stats.blockedLegs ?? 0) > 0 && (
+                <div className="bg-red-900/40 border border-red-700 p-3 rounded-lg text-sm">
+                  <div className="flex items-center gap-2 font-medium text-red-300 mb-2">
+                    <AlertTriangle size={16} />
+                    Legs could not be rerouted around obstacles
+                  </div>
+                  <div className="space-y-1 max-h-32 overflow-y-auto text-xs">
+                    {generatedMission.validWaypoints.filter(wp => wp.legBlockedBy).map(wp => (
+                      <div key={wp.sequence} className="flex justify-between">
+                        <span>{wp.legBlockedBy}</span>
+                        <span className="text-slate-300">Leg into WP {wp.sequence}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="text-xs text-red-300 mt-2">
+                    Move the survey area or obstacle, or allow climbing over it, before uploading.
+                  </div>
+                </div>
+              )}
+
+              {generatedMission.terrainWarnings && generatedMission.terrainWarnings.length > 0 && (
+                <div className="bg-amber-900/40 border border-amber-700 p-3 rounded-lg text-sm">
+                  <div className="flex items-center gap-2 font-medium text-amber-300 mb-2">
+                    <AlertTriangle size={16} />
+                    {generatedMission.terrainWarnings.length} terrain warning{generatedMission.terrainWarnings.length > 1 ? 's' : ''}
+                  </div>
+                  <div className="space-y-1 max-h-32 overflow-y-auto text-xs">
+                    {generatedMission.terrainWarnings.map((warning, index) => (
+                      <div key={`${warning.kind}-${warning.fromSequence}-${index}`} className="flex justify-between">
+                        <span>{TERRAIN_WARNING_LABELS[warning.kind]}</span>
+                        <span className="text-slate-300">
+                          WP {warning.fromSequence}→{warning.toSequence}
+                          {warning.kind === 'clearance' && ` · ${warning.minAgl.toFixed(0)} m`}
+                          {warning.kind === 'ceiling' && ` · ${warning.maxAgl.toFixed(0)} m`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <button
                 onClick={saveMissionToDatabase}
                 disabled={isSaving}
@@ -744,14 +2239,162 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                 {isSaving ? 'Saving...' : savedMissionId ? 'Mission Saved ✓' : 'Save Mission'}
               </button>
 
-              {/* <button
-                onClick={uploadAndStartMission}
-                disabled={isStarting}
-                className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-md font-medium"
-              >
-                <Play className="inline mr-2" size={16} />
-                {isStarting ? 'Starting...' : 'Upload & Start Mission'}
-              </button> */}
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={exportPlanFile}
+                  className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md font-medium"
+                >
+                  <Download className="inline mr-2" size={16} />
+                  Export .plan
+                </button>
+                <button
+                  onClick={exportKmlFile}
+                  className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md font-medium"
+                >
+                  <Download className="inline mr-2" size={16} />
+                  Export KML
+                </button>
+                <button
+                  onClick={exportGeoJsonFile}
+                  className="col-span-2 px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md font-medium"
+                >
+                  <Download className="inline mr-2" size={16} />
+                  Export GeoJSON
+                </button>
+              </div>
+
+              {importReport && importReport.issues.length > 0 && (
+                <div className="bg-slate-700 p-3 rounded-lg text-sm">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="font-medium">Import Report</span>
+                    <button onClick={() => setImportReport(null)} className="text-slate-400 hover:text-slate-200 text-xs">
+                      Dismiss
+                    </button>
+                  </div>
+                  <div className="space-y-1 max-h-32 overflow-y-auto text-xs">
+                    {importReport.issues.map((issue, index) => (
+                      <div
+                        key={`${issue.severity}-${index}`}
+                        className={issue.severity === 'error' ? 'text-red-400' : issue.severity === 'warning' ? 'text-amber-300' : 'text-slate-300'}
+                      >
+                        {issue.itemIndex !== undefined && `Item ${issue.itemIndex + 1}: `}{issue.message}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!generatedMission.sorties?.length && (
+                <button
+                  onClick={uploadAndStartMission}
+                  disabled={
+                    isStarting || !!activeSortieId || generatedMission.stats.reserveSatisfied === false
+                    || (generatedMission.stats.blockedLegs ?? 0) > 0
+                  }
+                  className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 disabled:cursor-not-allowed rounded-md font-medium"
+                >
+                  <Play className="inline mr-2" size={16} />
+                  {isStarting ? 'Starting...' : 'Upload & Start Mission'}
+                </button>
+              )}
+
+              <GeofenceAlertPanel
+                alerts={geofence.alerts}
+                onAcknowledge={geofence.acknowledge}
+                onRespond={respondToGeofence}
+              />
+
+              {/* Sorties */}
+              <div className="bg-slate-700 p-4 rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="text-sm font-medium">
+                    Sorties {generatedMission.sorties ? `(${generatedMission.sorties.length})` : ''}
+                  </h3>
+                  <button
+                    onClick={splitMission}
+                    disabled={!!activeSortieId}
+                    className="px-3 py-1 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 rounded-md text-sm"
+                  >
+                    <Layers className="inline mr-1" size={14} />
+                    {generatedMission.sorties ? 'Re-split' : 'Split'}
+                  </button>
+                </div>
+
+                {!generatedMission.sorties ? (
+                  <p className="text-xs text-slate-400">Mission fits a single battery</p>
+                ) : (
+                  <div className="space-y-2">
+                    {generatedMission.sorties.map(sortie => (
+                      <div key={sortie.id} className="bg-slate-800 p-3 rounded-md text-sm">
+                        <div className="flex justify-between items-center">
+                          <span className="font-medium">
+                            <span
+                              className="inline-block w-2 h-2 rounded-full mr-2"
+                              style={{ backgroundColor: SORTIE_COLORS[sortie.index % SORTIE_COLORS.length] }}
+                            />
+                            Sortie {sortie.index + 1}
+                          </span>
+                          <span className={`text-xs px-2 py-0.5 rounded ${SORTIE_STATUS_STYLES[sortie.status]}`}>
+                            {sortie.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <div className="text-xs text-slate-400 mt-1">
+                          Lines {sortie.lineIndices[0] + 1}–{sortie.lineIndices[sortie.lineIndices.length - 1] + 1}
+                          {' · '}{sortie.waypoints.length} wp
+                          {' · '}{sortie.estimatedFlightTime.toFixed(1)} min
+                          {' · '}{sortie.estimatedBatteryUsage.toFixed(0)}%
+                          {sortie.lastCompletedLine !== undefined && ` · done to line ${sortie.lastCompletedLine + 1}`}
+                        </div>
+                        {(sortie.status === 'planned' || sortie.status === 'saved') && (
+                          <div className="flex gap-2 mt-2">
+                            {sortie.status === 'planned' && (
+                              <button
+                                onClick={() => saveSortie(sortie)}
+                                className="flex-1 px-2 py-1 bg-green-700 hover:bg-green-600 rounded text-xs"
+                              >
+                                <Save className="inline mr-1" size={12} />
+                                Save
+                              </button>
+                            )}
+                            <button
+                              onClick={() => flySortie(sortie)}
+                              disabled={isStarting || !!activeSortieId}
+                              className="flex-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 rounded text-xs"
+                            >
+                              <Play className="inline mr-1" size={12} />
+                              Upload & Fly
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+
+                    <div className="pt-2 border-t border-slate-600">
+                      <label className="block text-xs text-slate-400 mb-1">Resume after battery swap — last completed line</label>
+                      <div className="flex gap-2">
+                        <select
+                          value={resumeLine ?? ''}
+                          onChange={(e) => setResumeLine(e.target.value === '' ? null : parseInt(e.target.value))}
+                          className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-sm"
+                        >
+                          <option value="">None (start over)</option>
+                          {Array.from(new Set(generatedMission.sorties.flatMap(s => s.lineIndices))).map(line => (
+                            <option key={line} value={line}>Line {line + 1}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={resumeSorties}
+                          disabled={!!activeSortieId}
+                          className="px-3 py-1 bg-amber-600 hover:bg-amber-700 disabled:bg-slate-600 rounded-md text-sm"
+                        >
+                          <RotateCcw className="inline mr-1" size={14} />
+                          Resume
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
 
               <div className="flex items-center gap-2">
                 <input
@@ -783,8 +2426,28 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
 
           <MapClickHandler />
 
+          {/* Corridor centerline, pattern center and imaged footprint */}
+          {surveyPattern === 'corridor' && surveyArea.length > 0 && (
+            <Polyline
+              positions={surveyArea.map(p => [p.lat, p.lng])}
+              pathOptions={{ color: '#3b82f6', weight: 3, dashArray: '8, 6' }}
+            />
+          )}
+          {surveyPattern !== 'grid' && generatedMission?.config.pattern === surveyPattern && (
+            <Polygon
+              positions={generatedMission.config.surveyArea.vertices.map(p => [p.lat, p.lng])}
+              pathOptions={{ color: '#3b82f6', fillColor: '#3b82f6', fillOpacity: 0.15, weight: 1 }}
+            />
+          )}
+
+          {isPointPattern && surveyArea[0] && (
+            <Marker position={[surveyArea[0].lat, surveyArea[0].lng]} icon={endIcon}>
+              <Popup>{surveyPattern === 'orbit' ? 'Point of interest' : 'Search datum'}</Popup>
+            </Marker>
+          )}
+
           {/* Survey Area */}
-          {surveyArea.length > 0 && (
+          {surveyPattern === 'grid' && surveyArea.length > 0 && (
             <Polygon
               positions={surveyArea.map(p => [p.lat, p.lng])}
               pathOptions={{ 
@@ -808,6 +2471,9 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
             />
           )}
 
+          {/* Imported airspace zones */}
+          <AirspaceLayer zones={airspace.zones} />
+
           {/* Saved obstacles */}
           {obstacles.filter(obs => obs.enabled).map(obs => (
             <Polygon
@@ -836,6 +2502,80 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
             />
           ))}
 
+          {/* Routed flight path including obstacle detours */}
+          {generatedMission && showGrid && (generatedMission.stats.detourWaypoints ?? 0) > 0 && (
+            <Polyline
+              positions={generatedMission.validWaypoints.map(wp => [wp.position.lat, wp.position.lon])}
+              pathOptions={{
+                color: '#f59e0b',
+                weight: 2,
+                opacity: 0.9,
+                dashArray: '6, 6'
+              }}
+            />
+          )}
+
+          {/* Fleet partitions and their flight paths */}
+          {fleetAssignments.map(assignment => (
+            <React.Fragment key={assignment.vehicleId}>
+              <Polygon
+                positions={assignment.plan.config.surveyArea.vertices.map(p => [p.lat, p.lng])}
+                pathOptions={{
+                  color: assignment.color,
+                  fillColor: assignment.color,
+                  fillOpacity: 0.25,
+                  weight: 2,
+                }}
+              >
+                <Popup>
+                  {assignment.vehicleName} — {(assignment.share * 100).toFixed(0)}%
+                </Popup>
+              </Polygon>
+              {showGrid && (
+                <Polyline
+                  positions={assignment.plan.validWaypoints.map(wp => [wp.position.lat, wp.position.lon])}
+                  pathOptions={{ color: assignment.color, weight: 2, opacity: 0.9 }}
+                />
+              )}
+            </React.Fragment>
+          ))}
+
+          {/* Legs that break terrain clearance or the ceiling */}
+          {generatedMission?.terrainWarnings && showGrid && generatedMission.terrainWarnings.map((warning, index) => {
+            const from = generatedMission.validWaypoints[warning.fromSequence];
+            const to = generatedMission.validWaypoints[warning.toSequence];
+            if (!from || !to) return null;
+            return (
+              <Polyline
+                key={`terrain-${warning.kind}-${warning.fromSequence}-${index}`}
+                positions={[[from.position.lat, from.position.lon], [to.position.lat, to.position.lon]]}
+                pathOptions={{ color: warning.kind === 'no_data' ? '#94a3b8' : '#ef4444', weight: 5, opacity: 0.9 }}
+              />
+            );
+          })}
+
+          {/* Sortie paths including transit legs */}
+          {generatedMission?.sorties && showGrid && generatedMission.sorties
+            .filter(sortie => sortie.status !== 'completed')
+            .map(sortie => (
+              <Polyline
+                key={sortie.id}
+                positions={sortie.waypoints.map(wp => [wp.position.lat, wp.position.lon])}
+                pathOptions={{
+                  color: SORTIE_COLORS[sortie.index % SORTIE_COLORS.length],
+                  weight: sortie.id === activeSortieId ? 4 : 2,
+                  opacity: 0.8,
+                }}
+              />
+            ))}
+
+          {/* Home point */}
+          {effectiveHome && (
+            <Marker position={[effectiveHome.lat, effectiveHome.lng]} icon={startIcon}>
+              <Popup>Home</Popup>
+            </Marker>
+          )}
+
           {/* Generated waypoints */}
           {generatedMission && generatedMission.validWaypoints.map((wp, idx) => (
             <Marker
@@ -846,7 +2586,18 @@ const GridMissionPlanner: React.FC<GridMissionPlannerProps> = ({
                 <div className="text-xs">
                   <strong>Waypoint {wp.sequence}</strong><br />
                   Line: {wp.lineIndex}<br />
-                  Alt: {altitude}m
+                  Alt: {wp.position.alt.toFixed(0)}m
+                  {wp.agl !== undefined && ` (${wp.agl.toFixed(0)}m AGL)`}
+                  {wp.gimbalPitch !== undefined && (
+                    <>
+                      <br />Heading {wp.heading?.toFixed(0)}°, gimbal {wp.gimbalPitch.toFixed(1)}°
+                    </>
+                  )}
+                  {wp.isDetour && (
+                    <>
+                      <br />Detour around {wp.detourAround}
+                    </>
+                  )}
                 </div>
               </Popup>
             </Marker>
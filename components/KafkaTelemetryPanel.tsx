@@ -5,11 +5,15 @@
  * 
  * Usage:
  *   <KafkaTelemetryPanel vehicleId="vehicle-1" />
+ *   <KafkaTelemetryPanel vehicleId="vehicle-1" showCharts />
  */
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useKafkaTelemetry, useVehicleTelemetry } from '../hooks/useKafkaTelemetry';
-import { TelemetryData } from '../types/kafka.types';
+import { useLinkHealth } from '../hooks/useLinkHealth';
+import LinkHealthBadge from './LinkHealthBadge';
+import TelemetryChartsPanel from './TelemetryChartsPanel';
+import { VehicleTelemetry, getBatteryBarColor, getBatteryLevel } from '../types/telemetry';
 
 // =============================================================================
 // Connection Status Badge
@@ -88,7 +92,7 @@ const TelemetryValue: React.FC<TelemetryValueProps> = ({
 // =============================================================================
 
 interface PositionPanelProps {
-  position?: TelemetryData['position'];
+  position?: VehicleTelemetry['position'];
 }
 
 const PositionPanel: React.FC<PositionPanelProps> = ({ position }) => (
@@ -107,7 +111,7 @@ const PositionPanel: React.FC<PositionPanelProps> = ({ position }) => (
 // =============================================================================
 
 interface AttitudePanelProps {
-  attitude?: TelemetryData['attitude'];
+  attitude?: VehicleTelemetry['attitude'];
 }
 
 const AttitudePanel: React.FC<AttitudePanelProps> = ({ attitude }) => (
@@ -126,24 +130,19 @@ const AttitudePanel: React.FC<AttitudePanelProps> = ({ attitude }) => (
 // =============================================================================
 
 interface VelocityPanelProps {
-  velocity?: TelemetryData['velocity'];
+  velocity?: VehicleTelemetry['velocity'];
 }
 
 const VelocityPanel: React.FC<VelocityPanelProps> = ({ velocity }) => {
-  const groundspeed = useMemo(() => {
-    if (!velocity) return null;
-    return Math.sqrt(velocity.vx ** 2 + velocity.vy ** 2);
-  }, [velocity]);
-
   return (
     <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
       <h4 className="text-sm font-semibold mb-2 text-gray-700 dark:text-gray-300">
         🚀 Velocity
       </h4>
-      <TelemetryValue label="Ground Speed" value={groundspeed} unit="m/s" precision={1} />
-      <TelemetryValue label="Vertical Speed" value={velocity?.vz} unit="m/s" precision={1} />
-      <TelemetryValue label="Vx" value={velocity?.vx} unit="m/s" precision={1} />
-      <TelemetryValue label="Vy" value={velocity?.vy} unit="m/s" precision={1} />
+      <TelemetryValue label="Ground Speed" value={velocity?.groundSpeed} unit="m/s" precision={1} />
+      <TelemetryValue label="Vertical Speed" value={velocity?.climbRate} unit="m/s" precision={1} />
+      <TelemetryValue label="Vn" value={velocity?.vn} unit="m/s" precision={1} />
+      <TelemetryValue label="Ve" value={velocity?.ve} unit="m/s" precision={1} />
     </div>
   );
 };
@@ -153,15 +152,13 @@ const VelocityPanel: React.FC<VelocityPanelProps> = ({ velocity }) => {
 // =============================================================================
 
 interface BatteryPanelProps {
-  battery?: TelemetryData['battery'];
+  battery?: VehicleTelemetry['battery'];
 }
 
 const BatteryPanel: React.FC<BatteryPanelProps> = ({ battery }) => {
   const batteryColor = useMemo(() => {
     if (!battery?.remaining) return 'bg-gray-300';
-    if (battery.remaining > 50) return 'bg-green-500';
-    if (battery.remaining > 20) return 'bg-yellow-500';
-    return 'bg-red-500';
+    return getBatteryBarColor(battery.remaining);
   }, [battery?.remaining]);
 
   return (
@@ -192,12 +189,12 @@ const BatteryPanel: React.FC<BatteryPanelProps> = ({ battery }) => {
 // =============================================================================
 
 interface GPSPanelProps {
-  gps?: TelemetryData['gps'];
+  gps?: VehicleTelemetry['gps'];
 }
 
 const GPSPanel: React.FC<GPSPanelProps> = ({ gps }) => {
   const fixTypeLabel = useMemo(() => {
-    switch (gps?.fix_type) {
+    switch (gps?.fixType) {
       case 0: return 'No Fix';
       case 1: return 'No Fix';
       case 2: return '2D Fix';
@@ -207,7 +204,7 @@ const GPSPanel: React.FC<GPSPanelProps> = ({ gps }) => {
       case 6: return 'RTK Fixed';
       default: return 'Unknown';
     }
-  }, [gps?.fix_type]);
+  }, [gps?.fixType]);
 
   return (
     <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
@@ -215,7 +212,7 @@ const GPSPanel: React.FC<GPSPanelProps> = ({ gps }) => {
         📡 GPS
       </h4>
       <TelemetryValue label="Fix Type" value={fixTypeLabel} />
-      <TelemetryValue label="Satellites" value={gps?.satellites_visible} />
+      <TelemetryValue label="Satellites" value={gps?.satellites} />
       <TelemetryValue label="HDOP" value={gps?.hdop} precision={1} />
     </div>
   );
@@ -274,16 +271,20 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
 export interface KafkaTelemetryPanelProps {
   vehicleId?: string;
   showStats?: boolean;
+  showCharts?: boolean; // time-series charts under the current values
   className?: string;
 }
 
 export const KafkaTelemetryPanel: React.FC<KafkaTelemetryPanelProps> = ({
   vehicleId,
   showStats = true,
+  showCharts = false,
   className = '',
 }) => {
   const { telemetry, isConnected, isReconnecting, stats, connect, disconnect } = 
     useKafkaTelemetry({ vehicleId });
+  const { getLink } = useLinkHealth();
+  const link = getLink(telemetry?.vehicleId);
 
   return (
     <div className={`bg-white dark:bg-gray-900 rounded-xl shadow-lg overflow-hidden ${className}`}>
@@ -316,7 +317,15 @@ export const KafkaTelemetryPanel: React.FC<KafkaTelemetryPanelProps> = ({
       <div className="p-4 space-y-3">
         {telemetry ? (
           <>
-            <div className="grid grid-cols-2 gap-3">
+            {link && link.state !== 'healthy' && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">
+                  {link.state === 'lost' ? 'Showing last known values' : 'Telemetry is falling behind'}
+                </span>
+                <LinkHealthBadge link={link} />
+              </div>
+            )}
+            <div className={`grid grid-cols-2 gap-3 ${link?.state === 'lost' ? 'opacity-50 grayscale' : ''}`}>
               <PositionPanel position={telemetry.position} />
               <AttitudePanel attitude={telemetry.attitude} />
               <VelocityPanel velocity={telemetry.velocity} />
@@ -341,6 +350,8 @@ export const KafkaTelemetryPanel: React.FC<KafkaTelemetryPanelProps> = ({
             lastUpdate={stats.lastUpdateTime}
           />
         )}
+
+        {showCharts && <TelemetryChartsPanel vehicleIds={vehicleId ? [vehicleId] : undefined} />}
       </div>
     </div>
   );
@@ -374,15 +385,15 @@ export const CompactTelemetry: React.FC<CompactTelemetryProps> = ({
       <div className="flex items-center justify-between text-xs">
         <span className="text-gray-400">{vehicleId}</span>
         <span className={`px-1.5 py-0.5 rounded ${
-          battery && battery.remaining > 20 ? 'bg-green-600' : 'bg-red-600'
+          battery?.remaining !== undefined && getBatteryLevel(battery.remaining) === 'normal' ? 'bg-green-600' : 'bg-red-600'
         }`}>
-          {battery?.remaining.toFixed(0)}%
+          {battery?.remaining?.toFixed(0)}%
         </span>
       </div>
       <div className="mt-1 grid grid-cols-3 gap-1 text-xs text-gray-300">
         <span>Alt: {position?.alt.toFixed(1)}m</span>
         <span>Yaw: {attitude?.yaw.toFixed(0)}°</span>
-        <span>🔋 {battery?.voltage.toFixed(1)}V</span>
+        <span>🔋 {battery?.voltage?.toFixed(1)}V</span>
       </div>
     </div>
   );
@@ -0,0 +1,61 @@
+/**
+ * Link Health Badge
+ * Compact telemetry link status for one vehicle: state, data age, latency and
+ * loss, with the full measurements in its tooltip
+ */
+
+'use client';
+
+import React from 'react';
+import { Activity, AlertTriangle, WifiOff } from 'lucide-react';
+import { LinkState, VehicleLinkHealth, formatLinkAge } from '@/types/linkHealth';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const STATE_STYLES: Record<LinkState, { chip: string; label: string }> = {
+  healthy: { chip: 'bg-green-900/40 text-green-300 border-green-700', label: 'Link OK' },
+  degraded: { chip: 'bg-amber-900/40 text-amber-300 border-amber-600', label: 'Link degraded' },
+  lost: { chip: 'bg-slate-800 text-slate-300 border-slate-500', label: 'Link lost' },
+};
+
+const describe = (link: VehicleLinkHealth): string => {
+  const lines = [
+    `Data age: ${formatLinkAge(link.age)}`,
+    `Rate: ${link.messageRate.toFixed(1)} msg/s`,
+    link.latency !== undefined ? `Latency: ${link.latency.toFixed(0)} ms` : null,
+    link.jitter !== undefined ? `Jitter: ${link.jitter.toFixed(0)} ms` : null,
+    link.lossPercent !== undefined ? `Loss: ${link.lossPercent.toFixed(1)}% (${link.sequenceGaps} gaps, ${link.lostMessages} messages)` : null,
+    link.heartbeatAge !== undefined ? `Last heartbeat: ${formatLinkAge(link.heartbeatAge)} ago` : null,
+    ...link.reasons,
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const LinkHealthBadge: React.FC<{ link?: VehicleLinkHealth; className?: string }> = ({ link, className = '' }) => {
+  if (!link) return null;
+
+  const style = STATE_STYLES[link.state];
+  const Icon = link.state === 'lost' ? WifiOff : link.state === 'degraded' ? AlertTriangle : Activity;
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-xs font-medium ${style.chip} ${className}`}
+      title={describe(link)}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      <span>{style.label}</span>
+      {link.state !== 'healthy' && <span className="opacity-80">{formatLinkAge(link.age)}</span>}
+      {link.state === 'healthy' && link.latency !== undefined && (
+        <span className="opacity-75">{link.latency.toFixed(0)} ms</span>
+      )}
+    </div>
+  );
+};
+
+export default LinkHealthBadge;
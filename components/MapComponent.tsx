@@ -4,6 +4,8 @@ import { useEffect, useRef } from 'react'
 import L from 'leaflet'
 import 'leaflet/dist/leaflet.css'
 import { Waypoint } from '@/types'
+import { AirspaceZone } from '@/types/airspace'
+import { AIRSPACE_COLORS, formatAirspaceLimit } from '@/utils/airspace'
 
 // Fix for default marker icons in Leaflet with Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -22,12 +24,14 @@ interface MissionStats {
 interface MapComponentProps {
   waypoints: Waypoint[]
   missionStats: MissionStats
+  airspaceZones?: AirspaceZone[]
 }
 
-export default function MapComponent({ waypoints, missionStats }: MapComponentProps) {
+export default function MapComponent({ waypoints, missionStats, airspaceZones = [] }: MapComponentProps) {
   const mapRef = useRef<L.Map | null>(null)
   const markersRef = useRef<L.Marker[]>([])
   const polylineRef = useRef<L.Polyline | null>(null)
+  const airspaceLayerRef = useRef<L.LayerGroup | null>(null)
   const mapContainerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -150,6 +154,36 @@ export default function MapComponent({ waypoints, missionStats }: MapComponentPr
     }
   }, [waypoints])
 
+  // Draw imported airspace zones beneath the route
+  useEffect(() => {
+    if (!mapRef.current) return
+
+    if (airspaceLayerRef.current) {
+      airspaceLayerRef.current.remove()
+      airspaceLayerRef.current = null
+    }
+    if (airspaceZones.length === 0) return
+
+    const layer = L.layerGroup().addTo(mapRef.current)
+    airspaceZones.forEach(zone => {
+      const options: L.PathOptions = {
+        color: AIRSPACE_COLORS[zone.color],
+        fillColor: AIRSPACE_COLORS[zone.color],
+        fillOpacity: zone.color === 'green' ? 0.05 : 0.15,
+        weight: 1.5,
+        dashArray: zone.color === 'green' ? '4, 6' : undefined
+      }
+      const shape = zone.type === 'circle' && zone.center && zone.radius
+        ? L.circle([zone.center.lat, zone.center.lng], { ...options, radius: zone.radius })
+        : L.polygon(zone.vertices.map(v => [v.lat, v.lng] as L.LatLngTuple), options)
+
+      shape
+        .bindTooltip(`<strong>${zone.name}</strong><br/>${zone.category ?? `${zone.color} zone`} · ${formatAirspaceLimit(zone.floor, 'GND')} – ${formatAirspaceLimit(zone.ceiling, 'UNL')}`, { sticky: true })
+        .addTo(layer)
+    })
+    airspaceLayerRef.current = layer
+  }, [airspaceZones])
+
   // Format flight time display
   const formatFlightTime = (minutes: number): string => {
     const hours = Math.floor(minutes / 60)
@@ -1,10 +1,11 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Search, Plus, AlertTriangle, Trash2, Edit, Eye, Loader2, RefreshCw, Filter, Play, Pause, CheckCircle, Plane, Map } from 'lucide-react'
+import { Search, Plus, AlertTriangle, Trash2, Edit, Eye, Loader2, RefreshCw, Filter, Play, Pause, CheckCircle, Plane, Map, LineChart } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { usePX4Upload } from '@/hooks/usePX4Upload'
 import { Toaster } from 'react-hot-toast'
+import FlightLogDialog, { type FlightLogDialogMission } from '@/components/FlightLogDialog'
 import { 
   getMissions, 
   deleteMission, 
@@ -39,6 +40,7 @@ export default function MissionListComponent({
   const [totalMissions, setTotalMissions] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
   const [refreshing, setRefreshing] = useState(false)
+  const [flightLogMission, setFlightLogMission] = useState<FlightLogDialogMission | null>(null)
   const itemsPerPage = 10
 
   // Use the hook
@@ -193,6 +195,7 @@ export default function MissionListComponent({
       sessionStorage.setItem('selectedMission', JSON.stringify({
         id: mission.id,
         mission_name: mission.mission_name,
+        vehicle_id: mission.vehicle_id,
         mission_type: mission.mission_type,
         corridor_label: mission.corridor_label,
         corridor_value: mission.corridor_value,
@@ -203,7 +206,8 @@ export default function MissionListComponent({
         flight_time: mission.flight_time,
         battery_usage: mission.battery_usage,
         created_at: mission.created_at,
-        updated_at: mission.updated_at
+        updated_at: mission.updated_at,
+        obstacles: mission.obstacles
       }))
       
       // Redirect to multi-drone awareness page with mission ID
@@ -381,6 +385,9 @@ export default function MissionListComponent({
   return (
     <div className="flex-1 bg-slate-900 min-h-screen">
       <Toaster position="top-right" />
+      {flightLogMission && (
+        <FlightLogDialog mission={flightLogMission} onClose={() => setFlightLogMission(null)} />
+      )}
       
       <div className="p-8">
         {/* Header Section */}
@@ -591,6 +598,19 @@ export default function MissionListComponent({
                               </span>
                             </button>
 
+                            {/* FLIGHT LOGS: Import and analyze flown logs */}
+                            <button
+                              onClick={() => setFlightLogMission({
+                                id: String(mission.id),
+                                name: mission.mission_name,
+                                waypoints: mission.waypoints || []
+                              })}
+                              className="p-2 text-sky-400 hover:bg-slate-600 rounded-lg transition-colors"
+                              title="Flight Logs"
+                            >
+                              <LineChart size={18} />
+                            </button>
+
                             {/* VIEW BUTTON - Always visible */}
                             <button
                               onClick={() => handleViewMission(mission)}
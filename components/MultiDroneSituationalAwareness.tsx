@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MapContainer, TileLayer, Marker, Polyline, Polygon, Tooltip, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -24,6 +24,24 @@ import {
   Pause
 } from 'lucide-react';
 import { useSearchParams } from 'next/navigation';
+import { geodesicBearing, geodesicDistance } from '@/utils/geodesy';
+import { VehicleTelemetry, getBatteryLevel } from '@/types/telemetry';
+import { mergeTelemetry } from '@/utils/telemetryAdapters';
+import { useTelemetryStream } from '@/hooks/useTelemetryStream';
+import { useFlightRecorder, useFlightReplay } from '@/hooks/useFlightRecording';
+import { useLinkHealth } from '@/hooks/useLinkHealth';
+import { VehicleLinkHealth, formatLinkAge } from '@/types/linkHealth';
+import LinkHealthBadge from './LinkHealthBadge';
+import { withLinkOverlay } from './droneIconUtils';
+import GeofenceAlertPanel from './GeofenceAlertPanel';
+import { useGeofenceMonitor } from '@/hooks/useGeofenceMonitor';
+import { missionAreaGeofenceZone, obstacleToGeofenceZone } from '@/utils/geofence';
+import { GeofenceZone } from '@/types/geofence';
+import { ObstacleZone } from '@/types/gridMission';
+import { MissionAction } from '@/types/missionItems';
+import { compileMission, routeToMissionActions, waypointIndexAtItem } from '@/utils/missionItems';
+import droneControlService from '@/services/droneControlService';
+import { uploadAssignedGeofences } from '@/services/geofenceLibraryService';
 
 // ============================================================================
 // FIX LEAFLET ICONS
@@ -79,6 +97,7 @@ interface AnimatedDroneState {
 interface SelectedMissionData {
   id: number | string;
   mission_name: string;
+  vehicle_id?: string;
   mission_type?: string;
   status?: string;
   corridor_label?: string;
@@ -96,39 +115,7 @@ interface SelectedMissionData {
     alt?: number;
     label?: string;
   }>;
-}
-
-interface TelemetryData {
-  timestamp?: string;
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    fix_type: number;
-    hdop: number;
-  };
-  armed?: boolean;
-  mode?: string;
-  mission_current?: number;
-  mission_count?: number;
+  obstacles?: ObstacleZone[];
 }
 
 interface FlightPathPoint {
@@ -141,7 +128,13 @@ interface FlightPathPoint {
 // ANIMATED HELICOPTER ICON FOR MISSION DRONE (WITH SPINNING ROTORS)
 // ============================================================================
 
-const createAnimatedHelicopterIcon = (color: string, heading: number = 0, size: number = 48, isLive: boolean = false) => {
+const createAnimatedHelicopterIcon = (
+  color: string,
+  heading: number = 0,
+  size: number = 48,
+  isLive: boolean = false,
+  link?: VehicleLinkHealth
+) => {
   // Animation class for spinning rotors
   const rotorAnimation = isLive ? 'animate-spin' : '';
   
@@ -229,7 +222,7 @@ const createAnimatedHelicopterIcon = (color: string, heading: number = 0, size:
 
   return L.divIcon({
     className: 'helicopter-marker',
-    html: helicopterSVG,
+    html: withLinkOverlay(helicopterSVG, size, link?.state, link?.age),
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
   });
@@ -518,10 +511,7 @@ const MapCenterUpdater: React.FC<{ center: [number, number]; zoom: number }> = (
 // ============================================================================
 
 const calculateHeading = (from: Position, to: Position): number => {
-  const dLon = to.lon - from.lon;
-  const dLat = to.lat - from.lat;
-  const angle = Math.atan2(dLon, dLat) * (180 / Math.PI);
-  return (angle + 360) % 360;
+  return geodesicBearing(from.lat, from.lon, to.lat, to.lon);
 };
 
 const interpolatePosition = (
@@ -536,10 +526,9 @@ const interpolatePosition = (
   };
 };
 
+// Distance in meters
 const calculateDistance = (from: DemoWaypoint, to: DemoWaypoint): number => {
-  const dLat = to.lat - from.lat;
-  const dLon = to.lon - from.lon;
-  return Math.sqrt(dLat * dLat + dLon * dLon);
+  return geodesicDistance(from.lat, from.lon, to.lat, to.lon);
 };
 
 // ============================================================================
@@ -548,6 +537,7 @@ const calculateDistance = (from: DemoWaypoint, to: DemoWaypoint): number => {
 
 const MultiDroneAwareness: React.FC = () => {
   const searchParams = useSearchParams();
+  const replay = useFlightReplay();
   
   // State - ALL HOOKS MUST BE AT THE TOP OF THE COMPONENT
   const [demoDrones] = useState<DemoDrone[]>(DEMO_DRONES);
@@ -571,10 +561,9 @@ const MultiDroneAwareness: React.FC = () => {
   const [dummyMissionDroneState, setDummyMissionDroneState] = useState<AnimatedDroneState | null>(null);
   
   // Simulation state
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
   const [flightPath, setFlightPath] = useState<FlightPathPoint[]>([]);
   const [dronePosition, setDronePosition] = useState<Position | null>(null);
-  const [wsConnected, setWsConnected] = useState(false);
   const [missionProgress, setMissionProgress] = useState({ current: 0, total: 0 });
   
   // Helicopter animation state
@@ -588,11 +577,8 @@ const MultiDroneAwareness: React.FC = () => {
   });
   const [mapZoom] = useState<number>(9);
   
-  // WebSocket ref
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 10;
+  // Telemetry stream starts once the mission has been sent to PX4
+  const [streamEnabled, setStreamEnabled] = useState(false);
   
   // Animation ref
   const animationFrameRef = useRef<number | null>(null);
@@ -605,9 +591,15 @@ const MultiDroneAwareness: React.FC = () => {
   // Previous position ref for heading calculation
   const prevPositionRef = useRef<Position | null>(null);
   
-  // API Configuration
-  const WS_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'ws://localhost:8002';
-  const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
+  // Mission items flown for the selected route: takeoff, its stops, then land
+  const routeActions = useMemo((): MissionAction[] => {
+    if (!selectedMission || selectedMission.waypoints.length < 2) return [];
+    return routeToMissionActions(selectedMission.waypoints.map(wp => ({
+      lat: wp.lat,
+      lon: wp.lng || wp.lon,
+      alt: wp.alt || 100
+    })));
+  }, [selectedMission]);
   
   // ============================================================================
   // INITIALIZE ANIMATED DRONE STATES
@@ -701,8 +693,7 @@ const MultiDroneAwareness: React.FC = () => {
           const nextWp = drone.waypoints[nextWpIndex];
           
           const distance = calculateDistance(currentWp, nextWp);
-          const speedInDegreesPerSecond = (drone.speed / 111000);
-          const progressIncrement = (speedInDegreesPerSecond * deltaTime) / distance;
+          const progressIncrement = distance > 0 ? (drone.speed * deltaTime) / distance : 1;
           
           let newProgress = state.progress + progressIncrement;
           let newWaypointIndex = state.currentWaypointIndex;
@@ -773,8 +764,7 @@ const MultiDroneAwareness: React.FC = () => {
         
         const distance = calculateDistance(currentWp, nextWp);
         // Mission drone speed: 25 m/s
-        const speedInDegreesPerSecond = (25 / 111000);
-        const progressIncrement = (speedInDegreesPerSecond * deltaTime) / distance;
+        const progressIncrement = distance > 0 ? (25 * deltaTime) / distance : 1;
         
         let newProgress = prevState.progress + progressIncrement;
         let newWaypointIndex = prevState.currentWaypointIndex;
@@ -832,6 +822,15 @@ const MultiDroneAwareness: React.FC = () => {
   // ============================================================================
   
   useEffect(() => {
+    // A replay shows the recorded mission as a finished simulation
+    if (replay) {
+      setSelectedMission(replay.recording.mission as SelectedMissionData);
+      setShowMissionPanel(true);
+      setSimulationMode(true);
+      setSimulationActive(true);
+      return;
+    }
+    
     const missionId = searchParams?.get('missionId');
     const mode = searchParams?.get('mode');
     
@@ -866,200 +865,101 @@ const MultiDroneAwareness: React.FC = () => {
     } catch (error) {
       console.error('Error loading mission from sessionStorage:', error);
     }
-  }, [searchParams]);
-  
-  // ============================================================================
-  // WEBSOCKET TELEMETRY CONNECTION
-  // ============================================================================
-  
-  const connectWebSocket = () => {
-    if (!simulationMode || !simulationActive || !selectedMission) {
-      console.log('Skipping WebSocket connection - conditions not met');
-      return;
-    }
-    
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('WebSocket already connected');
-      return;
-    }
-    
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max WebSocket reconnection attempts reached');
-      return;
-    }
-    
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-      
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        
-        if (selectedMission?.id) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: selectedMission.id
-          }));
-          console.log(`📡 Subscribed to mission: ${selectedMission.id}`);
-        }
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          console.log('📨 WebSocket message received:', message);
-          
-          switch (message.type) {
-            case 'telemetry_update':
-              // ⭐ IMPROVED: Handle both message.data and root-level data
-              const telemetryData = message.data || message;
-              handleTelemetryUpdate(telemetryData);
-              break;
-            case 'connection_info':
-              console.log('🔌 Connection info:', message);
-              break;
-            case 'error':
-              console.error('❌ WebSocket error:', message.message);
-              break;
-            case 'pong':
-              // Silent - heartbeat response
-              break;
-            default:
-              console.log('❓ Unknown message type:', message.type);
-              console.log('Full message:', message);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
-          console.error('Raw event data:', event.data);
-        }
-      };
-      
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        console.error('WebSocket state:', ws.readyState);
-        console.error('WebSocket URL:', `${WS_BASE}/ws/telemetry`);
-        setWsConnected(false);
-      };
-      
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-        
-        if (simulationActive && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          
-          console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        }
-      };
-      
-      wsRef.current = ws;
-      
-      const pingInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-      
-      return () => clearInterval(pingInterval);
-      
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      setWsConnected(false);
-    }
-  };
-  
-  const disconnectWebSocket = () => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-    
-    setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
-  };
+  }, [searchParams, replay]);
   
   // ============================================================================
   // TELEMETRY UPDATE HANDLER
   // ============================================================================
-  const handleTelemetryUpdate = (data: any) => {
+  const handleTelemetryUpdate = (data: VehicleTelemetry) => {
     try {
-      // ⭐ DEFENSIVE CHECK: Ensure data exists
-      if (!data) {
-        console.warn('⚠️ Received empty telemetry data');
-        return;
-      }
-      
-      console.log('📡 Raw telemetry data:', data);
+      setTelemetry(prev => mergeTelemetry(prev, data));
       
-      // Extract position from various possible structures
-      const position = data.position || data.current_position || null;
-      
-      // ⭐ IMPROVED: Only update telemetry if we have valid data
-      setTelemetry({
-        timestamp: data.timestamp || new Date().toISOString(),
-        position: position,
-        velocity: data.velocity || null,
-        attitude: data.attitude || null,
-        battery: data.battery || null,
-        gps: data.gps || null,
-        armed: data.armed ?? null,
-        mode: data.mode || null,
-        mission_current: data.mission_current ?? null,
-        mission_count: data.mission_count ?? null
-      });
-      
-      // ⭐ IMPROVED: Update drone position with better null checking
-      if (position && (position.lat || position.latitude) && (position.lon || position.longitude)) {
-        const newPosition = {
-          lat: position.lat ?? position.latitude,
-          lon: position.lon ?? position.longitude,
-          alt: position.alt ?? position.altitude ?? 0
-        };
-        
-        setDronePosition(newPosition);
+      const position = data.position;
+      if (position) {
+        geofence.reportTelemetry(data);
+        setDronePosition({
+          lat: position.lat,
+          lon: position.lon,
+          alt: position.alt
+        });
         
         // Add to flight path
         setFlightPath(prev => {
           const newPath = [...prev, {
-            lat: newPosition.lat,
-            lon: newPosition.lon,
-            timestamp: Date.now()
+            lat: position.lat,
+            lon: position.lon,
+            timestamp: data.timestamp
           }];
           return newPath.slice(-500);
         });
-        
-        console.log('✅ Updated position:', newPosition);
-      } else {
-        console.warn('⚠️ Position data incomplete:', position);
       }
       
       // Update mission progress
-      if (data.mission_current !== undefined && data.mission_count !== undefined) {
+      if (data.mission) {
         setMissionProgress({
-          current: data.mission_current,
-          total: data.mission_count
+          current: waypointIndexAtItem(routeActions, data.mission.current),
+          total: routeActions.filter(action => action.type === 'waypoint').length
         });
-        console.log('✅ Mission progress:', data.mission_current, '/', data.mission_count);
       }
       
     } catch (error) {
       console.error('❌ Error handling telemetry update:', error);
-      console.error('Problematic data:', data);
     }
   };
   
+  const { connected: wsConnected } = useTelemetryStream({
+    missionId: selectedMission ? String(selectedMission.id) : undefined,
+    enabled: streamEnabled && simulationMode && simulationActive && !!selectedMission,
+    onTelemetry: handleTelemetryUpdate
+  });
+
+  // Replayed samples are not live, so they have no link to watch
+  const { getLink } = useLinkHealth();
+  const link = replay ? undefined : getLink(telemetry?.vehicleId);
+  
+  // ============================================================================
+  // GEOFENCE MONITORING
+  // ============================================================================
+  
+  // The mission's obstacles are kept clear by every vehicle on the Kafka
+  // stream; the mission corridor applies to the mission vehicle only
+  const missionVehicleId = telemetry?.vehicleId;
+  const geofenceZones = useMemo((): GeofenceZone[] => {
+    if (!selectedMission) return [];
+    
+    const zones = (selectedMission.obstacles ?? []).filter(o => o.enabled).map(obstacleToGeofenceZone);
+    const corridor = createCorridorPolygon(selectedMission.waypoints.map(wp => ({
+      lat: wp.lat,
+      lon: wp.lng ?? wp.lon,
+      alt: wp.alt ?? 100
+    })), 0.015);
+    if (corridor.length > 2 && missionVehicleId) {
+      zones.push({
+        ...missionAreaGeofenceZone(
+          corridor.map(([lat, lng]) => ({ lat, lng })),
+          { name: selectedMission.corridor_label || 'Mission corridor' }
+        ),
+        vehicleIds: [missionVehicleId],
+      });
+    }
+    return zones;
+  }, [selectedMission, missionVehicleId]);
+  
+  const geofence = useGeofenceMonitor({
+    zones: geofenceZones,
+    enabled: !replay && simulationMode && simulationActive,
+    missionId: selectedMission ? String(selectedMission.id) : undefined,
+    vehicleId: missionVehicleId,
+    watchKafka: true,
+  });
+  
+  useFlightRecorder({
+    missionId: selectedMission ? String(selectedMission.id) : undefined,
+    missionName: selectedMission?.mission_name,
+    mission: selectedMission,
+    enabled: !replay && streamEnabled && simulationMode && simulationActive
+  });
+  
   // ============================================================================
   // AUTOMATIC MISSION UPLOAD AND START
   // ============================================================================
@@ -1068,35 +968,31 @@ const MultiDroneAwareness: React.FC = () => {
     if (!simulationMode || !simulationActive || !selectedMission) {
       return;
     }
+    if (routeActions.length === 0) {
+      console.error('Mission needs at least a start and an end waypoint');
+      return;
+    }
     
     try {
       console.log('📤 Uploading mission to PX4...');
       
-      const waypoints = selectedMission.waypoints.map((wp, index) => ({
-        lat: wp.lat,
-        lon: wp.lng || wp.lon,
-        alt: wp.alt || 100
-      }));
-      
-      const uploadResponse = await fetch(`${API_BASE}/mission/upload`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ waypoints })
-      });
-      
-      const uploadData = await uploadResponse.json();
+      const vehicleId = selectedMission.vehicle_id || 'UAV-001';
+      const uploadData = await droneControlService.uploadMission(compileMission(routeActions), vehicleId);
       
       if (uploadData.success) {
         console.log('✅ Mission uploaded successfully');
         
+        // Library fences assigned to the vehicle or mission; none clears the last mission's fence
+        const fenceUpload = await uploadAssignedGeofences(vehicleId, [String(selectedMission.id)]);
+        if (!fenceUpload.success) {
+          console.error('Failed to upload geofences, mission not started:', fenceUpload.error);
+          return;
+        }
+        
         await new Promise(resolve => setTimeout(resolve, 1000));
         
         console.log('🚀 Starting mission...');
-        const startResponse = await fetch(`${API_BASE}/mission/start`, {
-          method: 'POST'
-        });
-        
-        const startData = await startResponse.json();
+        const startData = await droneControlService.startUploadedMission(String(selectedMission.id), vehicleId);
         
         if (startData.success) {
           console.log('✅ Mission started successfully');
@@ -1126,7 +1022,6 @@ const MultiDroneAwareness: React.FC = () => {
   
   const handleStopSimulation = () => {
     setSimulationActive(false);
-    disconnectWebSocket();
     setFlightPath([]);
     setDronePosition(null);
     setTelemetry(null);
@@ -1141,7 +1036,6 @@ const MultiDroneAwareness: React.FC = () => {
     setSimulationActive(false);
     setShowMissionPanel(false);
     sessionStorage.removeItem('selectedMission');
-    disconnectWebSocket();
     setFlightPath([]);
     setDronePosition(null);
     setTelemetry(null);
@@ -1169,28 +1063,25 @@ const MultiDroneAwareness: React.FC = () => {
   
   useEffect(() => {
     if (simulationMode && simulationActive && selectedMission) {
+      if (replay) {
+        setStreamEnabled(true);
+        return;
+      }
+      
       console.log('🎮 Simulation activated - initializing...');
       
       uploadAndStartMission();
       
       const connectTimer = setTimeout(() => {
-        connectWebSocket();
+        setStreamEnabled(true);
       }, 2000);
       
       return () => {
         clearTimeout(connectTimer);
-        disconnectWebSocket();
+        setStreamEnabled(false);
       };
-    } else {
-      disconnectWebSocket();
     }
-  }, [simulationMode, simulationActive, selectedMission]);
-  
-  useEffect(() => {
-    return () => {
-      disconnectWebSocket();
-    };
-  }, []);
+  }, [simulationMode, simulationActive, selectedMission, replay]);
   
   // ============================================================================
   // HELPER FUNCTIONS
@@ -1282,11 +1173,7 @@ const MultiDroneAwareness: React.FC = () => {
   
   // Calculate ground speed from telemetry
   const getGroundSpeed = (): number => {
-    if (!telemetry?.velocity) return 0;
-    return Math.sqrt(
-      Math.pow(telemetry.velocity.vx, 2) + 
-      Math.pow(telemetry.velocity.vy, 2)
-    );
+    return telemetry?.velocity?.groundSpeed ?? 0;
   };
   
   // ⭐ NEW: Get dummy drone battery (simulated)
@@ -1452,7 +1339,7 @@ const MultiDroneAwareness: React.FC = () => {
                     </div>
                     <div className="flex items-center justify-between bg-gray-50 p-2 rounded">
                       <span className="text-gray-600 font-medium">Battery:</span>
-                      <span className={`font-semibold ${drone.battery > 30 ? 'text-green-600' : 'text-red-600'}`}>
+                      <span className={`font-semibold ${getBatteryLevel(drone.battery) === 'normal' ? 'text-green-600' : 'text-red-600'}`}>
                         {drone.battery}%
                       </span>
                     </div>
@@ -1639,7 +1526,7 @@ const MultiDroneAwareness: React.FC = () => {
         {simulationMode && dronePosition && (
           <Marker
             position={[dronePosition.lat, dronePosition.lon]}
-            icon={createAnimatedHelicopterIcon('#22c55e', helicopterHeading, 54, true)}
+            icon={createAnimatedHelicopterIcon('#22c55e', helicopterHeading, 54, link?.state !== 'lost', link)}
             zIndexOffset={2000}
           >
             <Popup>
@@ -1647,10 +1534,15 @@ const MultiDroneAwareness: React.FC = () => {
                 <div className="font-semibold text-sm mb-2 flex items-center space-x-2">
                   <span>{selectedMission?.mission_name || 'Live Helicopter'}</span>
                 </div>
+                {link && link.state !== 'healthy' && (
+                  <div className={`text-xs mb-2 ${link.state === 'lost' ? 'text-gray-500' : 'text-amber-600'}`}>
+                    {link.state === 'lost' ? 'Last known position' : 'Stale data'}, {formatLinkAge(link.age)} old
+                  </div>
+                )}
                 <div className="space-y-2 text-xs">
                   <div className="flex justify-between bg-green-50 p-2 rounded">
                     <span className="text-gray-600 font-medium">Status:</span>
-                    <span className="font-semibold text-green-600">{telemetry?.mode || 'UNKNOWN'}</span>
+                    <span className="font-semibold text-green-600">{telemetry?.flightMode || 'UNKNOWN'}</span>
                   </div>
                   <div className="flex justify-between bg-gray-50 p-2 rounded">
                     <span className="text-gray-600 font-medium">Altitude:</span>
@@ -1666,7 +1558,7 @@ const MultiDroneAwareness: React.FC = () => {
                   </div>
                   <div className="flex justify-between bg-gray-50 p-2 rounded">
                     <span className="text-gray-600 font-medium">Battery:</span>
-                    <span className={`font-semibold ${(telemetry?.battery?.remaining || 0) > 30 ? 'text-green-600' : 'text-red-600'}`}>
+                    <span className={`font-semibold ${getBatteryLevel(telemetry?.battery?.remaining || 0) === 'normal' ? 'text-green-600' : 'text-red-600'}`}>
                       {telemetry?.battery?.remaining?.toFixed(0) || 0}%
                     </span>
                   </div>
@@ -1856,7 +1748,7 @@ const MultiDroneAwareness: React.FC = () => {
             {simulationActive && (
               <div className="pt-3 border-t border-slate-700 space-y-2">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-slate-400 text-sm font-medium">Live Telemetry</span>
+                  <span className="text-slate-400 text-sm font-medium">{replay ? 'Replayed Telemetry' : 'Live Telemetry'}</span>
                   {wsConnected ? (
                     <div className="flex items-center space-x-1">
                       <Wifi size={14} className="text-green-400" />
@@ -1869,6 +1761,19 @@ const MultiDroneAwareness: React.FC = () => {
                     </div>
                   )}
                 </div>
+                {link && (
+                  <div className="flex items-center justify-between text-xs text-slate-400">
+                    <span>Link:</span>
+                    <LinkHealthBadge link={link} />
+                  </div>
+                )}
+                <GeofenceAlertPanel
+                  alerts={geofence.alerts}
+                  onAcknowledge={geofence.acknowledge}
+                  onRespond={async (vehicleId, response) => {
+                    await geofence.respond(vehicleId, response);
+                  }}
+                />
               </div>
             )}
           </div>
@@ -1876,7 +1781,7 @@ const MultiDroneAwareness: React.FC = () => {
       )}
       
       {/* Map Controls Panel */}
-      <div className="absolute bottom-4 left-4 z-[1000] bg-slate-900/95 backdrop-blur border border-slate-700 rounded-lg p-4 space-y-3 min-w-[280px]">
+      <div className={`absolute ${replay ? 'bottom-16' : 'bottom-4'} left-4 z-[1000] bg-slate-900/95 backdrop-blur border border-slate-700 rounded-lg p-4 space-y-3 min-w-[280px]`}>
         <div className="flex items-center justify-between">
           <h3 className="text-white font-semibold text-sm">Map Controls</h3>
           <div className="flex items-center space-x-2">
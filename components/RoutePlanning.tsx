@@ -1,11 +1,26 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-import { CheckCircle, MapPin, Plus, X, Map as MapIcon, Search, Save, ChevronLeft, ChevronRight, Edit } from 'lucide-react'
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { CheckCircle, MapPin, Plus, X, Map as MapIcon, Search, Save, ChevronLeft, ChevronRight, Edit, Plane, Download, Upload } from 'lucide-react'
 import dynamic from 'next/dynamic'
 import Select from 'react-select'
 import { Waypoint } from '@/types'
+import { PlanImportReport } from '@/types/qgcPlan'
+import { GeoFeature, GeoFeatureSelection } from '@/types/geoFeatures'
 import { createMission, updateMission, type ApiMission } from '@/services/missionService'
+import { geodesicDistance } from '@/utils/geodesy'
+import { LegEnergy, estimateMissionEnergy, getPerformanceProfile } from '@/utils/energyModel'
+import { vehiclesData } from '@/lib/data'
+import { importQgcPlanAsRoute, routeToQgcPlan, summarizeImportReport } from '@/utils/qgcPlan'
+import { downloadTextFile, toFileName } from '@/utils/fileDownload'
+import { buildKml, loadKmlFile } from '@/utils/kml'
+import { geoJsonToRoute, parseGeoJson, routeToGeoJson } from '@/utils/geojson'
+import { placeFeatures, suggestRoles, toRouteWaypoints } from '@/utils/geoFeatures'
+import { airspacePermissionRecords, airspaceSaveError } from '@/utils/airspace'
+import { useAirspace } from '@/hooks/useAirspace'
+import FeatureImportDialog from './FeatureImportDialog'
+import AirspacePanel from './AirspacePanel'
+import EnergyLegBreakdown from './EnergyLegBreakdown'
 
 // Dynamically import map component to avoid SSR issues
 const MapComponent = dynamic(() => import('./MapComponent'), { 
@@ -46,6 +61,15 @@ interface MissionStats {
   totalDistance: number
   flightTime: number
   batteryUsage: number
+  rthReserveRemaining?: number
+  reserveSatisfied?: boolean
+  legs?: LegEnergy[]
+}
+
+// Parse altitude in meters from labels like "100m AGL"
+const parseAltitude = (alt: string): number => {
+  const meters = parseFloat(alt)
+  return Number.isFinite(meters) ? meters : 100
 }
 
 export default function RoutePlanning({ 
@@ -98,6 +122,10 @@ export default function RoutePlanning({
   // Corridor state
   const [selectedCorridor, setSelectedCorridor] = useState<CorridorOption | null>(corridorOptions[0])
 
+  // Vehicle state - drives the energy model
+  const [vehicleId, setVehicleId] = useState<string>(vehiclesData[0]?.id ?? '')
+  const selectedVehicle = vehiclesData.find(v => v.id === vehicleId)
+
   // Save Mission states - ADDED
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [missionName, setMissionName] = useState('')
@@ -105,6 +133,11 @@ export default function RoutePlanning({
   const [saveError, setSaveError] = useState<string | null>(null)
   const [saveSuccess, setSaveSuccess] = useState(false)
 
+  // QGroundControl plan import result
+  const [planReport, setPlanReport] = useState<{ summary: string; report: PlanImportReport } | null>(null)
+  const [planError, setPlanError] = useState<string | null>(null)
+  const [featureImport, setFeatureImport] = useState<{ fileName: string; features: GeoFeature[] } | null>(null)
+
   const [waypoints, setWaypoints] = useState<Waypoint[]>([
     { 
       id: 'start', 
@@ -160,6 +193,13 @@ export default function RoutePlanning({
     batteryUsage: 0
   })
   const [sidebarOpen, setSidebarOpen] = useState(true)
+
+  // Route checked against imported airspace zones before saving
+  const airspaceRoutes = useMemo(
+    () => [waypoints.map(wp => ({ lat: wp.lat, lng: wp.lon, alt: parseAltitude(wp.alt) }))],
+    [waypoints]
+  )
+  const airspace = useAirspace(airspaceRoutes)
   
   // Load mission data when selectedMission changes
   useEffect(() => {
@@ -225,6 +265,10 @@ export default function RoutePlanning({
       
       // Load mission name
       setMissionName(selectedMission.mission_name || '')
+
+      if (selectedMission.vehicle_id) {
+        setVehicleId(selectedMission.vehicle_id)
+      }
     }
   }, [selectedMission])
 
@@ -232,52 +276,20 @@ export default function RoutePlanning({
   const startSearchTimeoutRef = useRef<NodeJS.Timeout>()
   const endSearchTimeoutRef = useRef<NodeJS.Timeout>()
 
-  // Haversine formula to calculate distance between two coordinates (in km)
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371 // Earth's radius in kilometers
-    const dLat = toRad(lat2 - lat1)
-    const dLon = toRad(lon2 - lon1)
-    
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2)
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    const distance = R * c
-    
-    return distance
-  }
-
-  const toRad = (degrees: number): number => {
-    return degrees * (Math.PI / 180)
-  }
-
   // Calculate total route distance and update mission stats
   const calculateMissionStats = (waypointsList: Waypoint[]): MissionStats => {
-    let totalDistance = 0
-
-    // Calculate distance between consecutive waypoints
-    for (let i = 0; i < waypointsList.length - 1; i++) {
-      const current = waypointsList[i]
-      const next = waypointsList[i + 1]
-      const segmentDistance = calculateDistance(current.lat, current.lon, next.lat, next.lon)
-      totalDistance += segmentDistance
-    }
-
-    // Assumptions for calculations:
-    // Average speed: 150 km/h
-    // Battery consumption: 1% per km (adjustable)
-    const avgSpeed = 150 // km/h
-    const batteryPerKm = 1 // % per km
-
-    const flightTime = (totalDistance / avgSpeed) * 60 // Convert to minutes
-    const batteryUsage = Math.min(totalDistance * batteryPerKm, 100) // Cap at 100%
+    const estimate = estimateMissionEnergy(
+      waypointsList.map(wp => ({ lat: wp.lat, lng: wp.lon, alt: parseAltitude(wp.alt) })),
+      getPerformanceProfile(selectedVehicle)
+    )
 
     return {
-      totalDistance: parseFloat(totalDistance.toFixed(2)),
-      flightTime: parseFloat(flightTime.toFixed(1)),
-      batteryUsage: parseFloat(batteryUsage.toFixed(1))
+      totalDistance: parseFloat((estimate.totalDistance / 1000).toFixed(2)),
+      flightTime: parseFloat((estimate.flightTime / 60).toFixed(1)),
+      batteryUsage: parseFloat(Math.min(estimate.batteryUsage, 100).toFixed(1)),
+      rthReserveRemaining: parseFloat(estimate.rthReserveRemaining.toFixed(1)),
+      reserveSatisfied: estimate.feasible,
+      legs: estimate.legs
     }
   }
 
@@ -285,7 +297,7 @@ export default function RoutePlanning({
   useEffect(() => {
     const stats = calculateMissionStats(waypoints)
     setMissionStats(stats)
-  }, [waypoints])
+  }, [waypoints, vehicleId])
 
   // Generic function to search locations using Nominatim API
   const searchLocations = async (
@@ -451,6 +463,110 @@ export default function RoutePlanning({
     setWaypoints(waypoints.filter(wp => wp.id !== id))
   }
 
+  // Export the route as a QGroundControl .plan file
+  const exportPlanFile = () => {
+    setPlanError(null)
+    try {
+      const planFile = routeToQgcPlan(waypoints, parseAltitude, {
+        cruiseSpeed: getPerformanceProfile(selectedVehicle).cruiseSpeed
+      })
+      const name = selectedMission?.mission_name || waypoints[0]?.label.replace('Start: ', '') || 'route'
+      downloadTextFile(JSON.stringify(planFile, null, 2), toFileName(name, 'plan'))
+    } catch (error: any) {
+      console.error('Error exporting plan:', error)
+      setPlanError(error.message || 'Failed to export plan')
+    }
+  }
+
+  // Replace the route with the waypoints of a QGroundControl .plan file
+  const importPlanFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setPlanError(null)
+    try {
+      const imported = importQgcPlanAsRoute(await file.text())
+      if (imported.waypoints.length < 2) {
+        throw new Error('Plan needs at least two positioned waypoints to form a route')
+      }
+      setWaypoints(imported.waypoints)
+      setPlanReport({ summary: summarizeImportReport(imported.report), report: imported.report })
+    } catch (error: any) {
+      console.error('Error importing plan:', error)
+      setPlanError(error.message || 'Failed to import plan')
+    }
+  }
+
+  // Route from KML features: a line's vertices, or the selected points in file order
+  const applyFeatureSelections = (selections: GeoFeatureSelection[]) => {
+    setFeatureImport(null)
+    const placed = placeFeatures(selections)
+    const lineName = selections.find(selection => selection.role === 'corridor')?.feature.name
+    const points = placed.corridor
+      ? placed.corridor.map((p, index) => ({ ...p, name: index === 0 ? lineName : undefined }))
+      : placed.waypoints
+
+    if (points.length < 2) {
+      setPlanError('Select a line or at least two points to build a route')
+      return
+    }
+    setWaypoints(toRouteWaypoints(points))
+    setPlanReport(null)
+  }
+
+  const importFeatureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setPlanError(null)
+    try {
+      const isGeoJson = /\.(geo)?json$/i.test(file.name)
+      const text = isGeoJson ? await file.text() : ''
+
+      // Routes exported from this planner come back with their labels and altitudes
+      const exportedRoute = isGeoJson ? geoJsonToRoute(text) : []
+      if (exportedRoute.length >= 2) {
+        setWaypoints(exportedRoute)
+        setPlanReport(null)
+        return
+      }
+
+      const features = (isGeoJson ? parseGeoJson(text) : await loadKmlFile(file)).filter(f => f.geometry !== 'polygon')
+      if (features.length === 0) {
+        throw new Error(`${file.name} has no lines or points to build a route from`)
+      }
+      if (features.length === 1) {
+        applyFeatureSelections([{ feature: features[0], role: suggestRoles(features)[0] }])
+      } else {
+        setFeatureImport({ fileName: file.name, features })
+      }
+    } catch (error: any) {
+      console.error('Error importing features:', error)
+      setPlanError(error.message || `Failed to import ${file.name}`)
+    }
+  }
+
+  const exportKmlFile = () => {
+    const name = selectedMission?.mission_name || waypoints[0]?.label.replace('Start: ', '') || 'route'
+    const kml = buildKml({
+      name,
+      paths: [{
+        name: 'Planned route',
+        color: selectedCorridor?.color.slice(0, 7),
+        points: waypoints.map(wp => ({ lat: wp.lat, lng: wp.lon, alt: parseAltitude(wp.alt) }))
+      }]
+    })
+    downloadTextFile(kml, toFileName(name, 'kml'), 'application/vnd.google-earth.kml+xml')
+  }
+
+  const exportGeoJsonFile = () => {
+    const name = selectedMission?.mission_name || waypoints[0]?.label.replace('Start: ', '') || 'route'
+    const geojson = routeToGeoJson(waypoints, parseAltitude, name)
+    downloadTextFile(JSON.stringify(geojson, null, 2), toFileName(name, 'geojson'), 'application/geo+json')
+  }
+
   // Get color class for corridor badges
   const getColorClass = (color: string) => {
     const colorMap: Record<string, string> = {
@@ -559,6 +675,12 @@ export default function RoutePlanning({
       return
     }
 
+    const airspaceError = airspaceSaveError(airspace.check)
+    if (airspaceError) {
+      setSaveError(airspaceError)
+      return
+    }
+
     setIsSaving(true)
     setSaveError(null)
 
@@ -588,8 +710,9 @@ export default function RoutePlanning({
         })),
         created_by: 'current_user',
         notes: '',
-        vehicle_id: null,
+        vehicle_id: vehicleId || null,
         operator_id: null,
+        airspace_permissions: airspacePermissionRecords(airspace.check, airspace.permissions),
       }
 
       let result
@@ -647,12 +770,50 @@ export default function RoutePlanning({
             <p className="text-slate-400 text-sm">
               Distance: {missionStats.totalDistance.toFixed(2)} km • 
               Duration: {formatFlightTime(missionStats.flightTime)} • 
-              Battery: {missionStats.batteryUsage.toFixed(1)}%
+              Battery: <span className={missionStats.reserveSatisfied === false ? 'text-red-400' : ''}>{missionStats.batteryUsage.toFixed(1)}%</span>
+              {missionStats.rthReserveRemaining !== undefined && (
+                <> • RTH Reserve: {missionStats.rthReserveRemaining.toFixed(1)}%</>
+              )}
             </p>
           </div>
         </div>
 
         <div className="flex items-center space-x-3">
+          {(!selectedMission || editMode) && (
+            <label className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors cursor-pointer">
+              <Upload size={18} />
+              <span>Import .plan</span>
+              <input type="file" accept=".plan,application/json" onChange={importPlanFile} className="hidden" />
+            </label>
+          )}
+          {(!selectedMission || editMode) && (
+            <label className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors cursor-pointer">
+              <Upload size={18} />
+              <span>Import KML / GeoJSON</span>
+              <input type="file" accept=".kml,.kmz,.geojson,.json" onChange={importFeatureFile} className="hidden" />
+            </label>
+          )}
+          <button
+            onClick={exportPlanFile}
+            className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            <Download size={18} />
+            <span>Export .plan</span>
+          </button>
+          <button
+            onClick={exportKmlFile}
+            className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            <Download size={18} />
+            <span>Export KML</span>
+          </button>
+          <button
+            onClick={exportGeoJsonFile}
+            className="flex items-center space-x-2 px-4 py-3 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            <Download size={18} />
+            <span>Export GeoJSON</span>
+          </button>
           {(!selectedMission || editMode) && (
             <button 
               onClick={() => setShowSaveDialog(true)}
@@ -675,6 +836,48 @@ export default function RoutePlanning({
         </div>
       )}
 
+      {featureImport && (
+        <FeatureImportDialog
+          fileName={featureImport.fileName}
+          features={featureImport.features}
+          allowedRoles={['waypoint', 'corridor']}
+          onConfirm={applyFeatureSelections}
+          onCancel={() => setFeatureImport(null)}
+        />
+      )}
+
+      {/* Plan Import Report */}
+      {(planReport || planError) && (
+        <div className="absolute top-20 left-6 w-96 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-40 p-4 text-sm">
+          <div className="flex items-start justify-between mb-2">
+            <span className={`font-semibold ${planError ? 'text-red-400' : 'text-white'}`}>
+              {planError ?? `Plan imported: ${planReport?.summary}`}
+            </span>
+            <button
+              onClick={() => {
+                setPlanReport(null)
+                setPlanError(null)
+              }}
+              className="text-slate-400 hover:text-white"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          {!planError && planReport && planReport.report.issues.length > 0 && (
+            <div className="space-y-1 max-h-40 overflow-y-auto text-xs">
+              {planReport.report.issues.map((issue, index) => (
+                <div
+                  key={`${issue.severity}-${index}`}
+                  className={issue.severity === 'error' ? 'text-red-400' : issue.severity === 'warning' ? 'text-amber-300' : 'text-slate-400'}
+                >
+                  {issue.itemIndex !== undefined && `Item ${issue.itemIndex + 1}: `}{issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Save Mission Dialog - ADDED */}
       {showSaveDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -701,6 +904,7 @@ export default function RoutePlanning({
                   <div>• Waypoints: {waypoints.length}</div>
                   <div>• Distance: {missionStats.totalDistance} km</div>
                   <div>• Duration: {formatFlightTime(missionStats.flightTime)}</div>
+                  <div>• Vehicle: {selectedVehicle?.name || 'Not selected'}</div>
                   <div>• Corridor: {selectedCorridor?.label || 'Not selected'}</div>
                 </div>
               </div>
@@ -747,7 +951,7 @@ export default function RoutePlanning({
       <div className="flex-1 relative overflow-hidden">
         {/* Full Height Map */}
         <div className="absolute inset-0">
-          <MapComponent waypoints={waypoints} missionStats={missionStats} />
+          <MapComponent waypoints={waypoints} missionStats={missionStats} airspaceZones={airspace.zones} />
         </div>
 
         {/* Collapsible Sidebar */}
@@ -786,6 +990,50 @@ export default function RoutePlanning({
               />
             </div>
 
+            {/* Airspace */}
+            <AirspacePanel
+              zones={airspace.zones}
+              files={airspace.files}
+              check={airspace.check}
+              permissions={airspace.permissions}
+              onPermissionChange={airspace.setPermission}
+              onImport={airspace.importFile}
+              onRemoveFile={airspace.removeFile}
+              hasRoute={waypoints.length > 0}
+            />
+
+            {/* Vehicle Selection */}
+            <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 shadow-lg">
+              <div className="flex items-center space-x-2 mb-3">
+                <Plane className="text-blue-400" size={18} />
+                <span className="text-slate-300 text-xs font-semibold">VEHICLE</span>
+              </div>
+              <select
+                value={vehicleId}
+                onChange={(e) => setVehicleId(e.target.value)}
+                disabled={!!selectedMission && !editMode}
+                className="w-full px-3 py-2 bg-slate-700 text-white text-sm rounded-lg border border-slate-600 focus:outline-none focus:border-blue-500"
+              >
+                {vehiclesData.map(vehicle => (
+                  <option key={vehicle.id} value={vehicle.id}>
+                    {vehicle.name} ({vehicle.model})
+                  </option>
+                ))}
+              </select>
+              {missionStats.reserveSatisfied === false && (
+                <p className="text-red-400 text-xs mt-2">
+                  Route leaves less than the {getPerformanceProfile(selectedVehicle).reserve.minReservePercent}% battery reserve
+                </p>
+              )}
+              {missionStats.legs && (
+                <EnergyLegBreakdown
+                  legs={missionStats.legs}
+                  reservePercent={getPerformanceProfile(selectedVehicle).reserve.minReservePercent}
+                  className="mt-3"
+                />
+              )}
+            </div>
+
             {/* Start Point */}
             <div className="bg-slate-800 rounded-xl p-4 border border-green-500 shadow-lg">
               <div className="flex items-center justify-between mb-2">
@@ -968,7 +1216,7 @@ export default function RoutePlanning({
                   let distanceToNext = 0
                   if (index < waypoints.length - 1) {
                     const next = waypoints[index + 1]
-                    distanceToNext = calculateDistance(waypoint.lat, waypoint.lon, next.lat, next.lon)
+                    distanceToNext = geodesicDistance(waypoint.lat, waypoint.lon, next.lat, next.lon) / 1000
                   }
 
                   return (
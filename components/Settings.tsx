@@ -1,7 +1,9 @@
 'use client'
 
 import { useState } from 'react'
+import { Toaster } from 'react-hot-toast'
 import { Settings as SettingsIcon, Bell, Lock, Globe, Moon, Sun, Shield, Database, Wifi, Volume2, Eye, Monitor } from 'lucide-react'
+import AlertRulesEditor from './AlertRulesEditor'
 
 export default function Settings() {
   const [notifications, setNotifications] = useState(true)
@@ -13,6 +15,7 @@ export default function Settings() {
 
   return (
     <div className="flex-1 bg-slate-900 min-h-screen p-8">
+      <Toaster position="top-right" />
       {/* Header */}
       <div className="bg-blue-600 rounded-xl p-6 mb-8 shadow-xl">
         <div className="flex items-center justify-between">
@@ -258,6 +261,9 @@ export default function Settings() {
           </div>
         </div>
 
+        {/* Telemetry Alert Rules */}
+        <AlertRulesEditor />
+
         {/* Data & Storage */}
         <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 shadow-xl col-span-2">
           <div className="flex items-center space-x-3 mb-6">
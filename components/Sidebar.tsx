@@ -1,6 +1,6 @@
 'use client'
 
-import { Activity, Map as MapIcon, Target, CheckCircle, Clock, Package, User, Settings, BookOpen, LogOut } from 'lucide-react'
+import { Activity, Map as MapIcon, Target, CheckCircle, Clock, Package, User, Settings, BookOpen, LogOut, Shield } from 'lucide-react'
 import { MenuItem } from '@/types'
 
 interface SidebarProps {
@@ -16,6 +16,7 @@ export default function Sidebar({ currentPage, onPageChange }: SidebarProps) {
     { id: 'plan-mission', label: 'Plan Mission', icon: CheckCircle, indent: true },
     { id: 'flight-monitor', label: 'Mission Monitor', icon: CheckCircle, indent: true },
     { id: 'vehicles', label: 'Vehicle Library', icon: Package },
+    { id: 'geofences', label: 'Geofence Library', icon: Shield },
     { id: 'operators', label: 'Operator Library', icon: User }
   ]
 
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Plane, 
   Radio, 
@@ -10,8 +10,30 @@ import {
   MapPin,
   Activity,
   Circle,
-  AlertTriangle
+  AlertTriangle,
+  Download,
+  Upload,
+  X
 } from 'lucide-react';
+import { buildKml } from '@/utils/kml';
+import { FlightTrackPoint, flightTrackToGeoJson, geoJsonToFlightTracks } from '@/utils/geojson';
+import { downloadTextFile, toFileName } from '@/utils/fileDownload';
+import { missionAreaGeofenceZone, obstacleToGeofenceZone } from '@/utils/geofence';
+import { GeofenceZone } from '@/types/geofence';
+import { ObstacleZone } from '@/types/gridMission';
+import { useGeofenceMonitor } from '@/hooks/useGeofenceMonitor';
+import GeofenceAlertPanel from './GeofenceAlertPanel';
+import LinkHealthBadge from './LinkHealthBadge';
+import { withLinkOverlay } from './droneIconUtils';
+import { VehicleTelemetry, getBatteryColor, getBatteryLevel } from '@/types/telemetry';
+import { UNKNOWN_VEHICLE_ID, mergeTelemetry } from '@/utils/telemetryAdapters';
+import { useTelemetryStream } from '@/hooks/useTelemetryStream';
+import { useLinkHealth } from '@/hooks/useLinkHealth';
+import { VehicleLinkHealth, formatLinkAge } from '@/types/linkHealth';
+import { MissionAction } from '@/types/missionItems';
+import { compileMission, routeToMissionActions, waypointIndexAtItem } from '@/utils/missionItems';
+import droneControlService from '@/services/droneControlService';
+import { uploadAssignedGeofences } from '@/services/geofenceLibraryService';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -48,6 +70,7 @@ interface DemoDrone {
 interface SelectedMissionData {
   id: string;
   mission_name: string;
+  vehicle_id?: string;
   waypoints: Array<{
     lat: number;
     lon: number;
@@ -64,6 +87,7 @@ interface SelectedMissionData {
   total_distance?: number;
   mission_type?: string;
   status?: string;
+  obstacles?: ObstacleZone[];
 }
 
 interface SituationalAwarenessProps {
@@ -72,42 +96,10 @@ interface SituationalAwarenessProps {
   simulationActive?: boolean;
 }
 
-interface TelemetryData {
-  timestamp?: string;
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    satellites: number;
-    fix_type: number;
-    hdop: number;
-  };
-  armed?: boolean;
-  mode?: string;
-  mission_current?: number;
-  mission_count?: number;
-}
-
 interface FlightPathPoint {
   lat: number;
   lon: number;
+  alt?: number;
   timestamp: number;
 }
 
@@ -213,21 +205,27 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
   const [isClient, setIsClient] = useState(false);
   
   // Simulation state
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
   const [flightPath, setFlightPath] = useState<FlightPathPoint[]>([]);
   const [dronePosition, setDronePosition] = useState<Position | null>(null);
-  const [wsConnected, setWsConnected] = useState(false);
   const [missionProgress, setMissionProgress] = useState({ current: 0, total: 0 });
   
-  // WebSocket ref
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef<number>(0);
-  const maxReconnectAttempts = 10;
+  // Flight tracks loaded from GeoJSON, drawn for comparison with the live path
+  const [importedTracks, setImportedTracks] = useState<{ name: string; points: FlightTrackPoint[] }[]>([]);
+  const [trackImportError, setTrackImportError] = useState<string | null>(null);
+  
+  // Telemetry stream starts once the mission has been sent to PX4
+  const [streamEnabled, setStreamEnabled] = useState(false);
   
-  // API Configuration
-  const WS_BASE = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8002';
-  const API_BASE = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
+  // Mission items flown for the selected route: takeoff, its stops, then land
+  const routeActions = useMemo((): MissionAction[] => {
+    if (!selectedMission || selectedMission.waypoints.length < 2) return [];
+    return routeToMissionActions(selectedMission.waypoints.map(wp => ({
+      lat: wp.lat,
+      lon: wp.lng || wp.lon,
+      alt: wp.alt || 100
+    })));
+  }, [selectedMission]);
 
   // ============================================================================
   // CLIENT-SIDE CHECK
@@ -237,161 +235,40 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
     setIsClient(true);
   }, []);
   
-  // ============================================================================
-  // WEBSOCKET TELEMETRY CONNECTION
-  // ============================================================================
-  
-  const connectWebSocket = () => {
-    if (!simulationMode || !simulationActive || !selectedMission) {
-      console.log('Skipping WebSocket connection - conditions not met');
-      return;
-    }
-    
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log('WebSocket already connected');
-      return;
-    }
-    
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.log('❌ Max WebSocket reconnection attempts reached');
-      return;
-    }
-    
-    try {
-      console.log(`🔌 Connecting to WebSocket: ${WS_BASE}/ws/telemetry`);
-      const ws = new WebSocket(`${WS_BASE}/ws/telemetry`);
-      
-      ws.onopen = () => {
-        console.log('✅ WebSocket connected');
-        setWsConnected(true);
-        reconnectAttemptsRef.current = 0;
-        
-        if (selectedMission?.id) {
-          ws.send(JSON.stringify({
-            action: 'subscribe',
-            mission_id: selectedMission.id
-          }));
-          console.log(`📡 Subscribed to mission: ${selectedMission.id}`);
-        }
-      };
-      
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          
-          switch (message.type) {
-            case 'telemetry_update':
-              handleTelemetryUpdate(message.data);
-              break;
-            case 'connection_info':
-              console.log('Connection info:', message);
-              break;
-            case 'error':
-              console.error('WebSocket error:', message.message);
-              break;
-            case 'pong':
-              break;
-            default:
-              console.log('Unknown message type:', message);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-      
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error);
-        setWsConnected(false);
-      };
-      
-      ws.onclose = (event) => {
-        console.log(`🔌 WebSocket closed (Code: ${event.code})`);
-        setWsConnected(false);
-        
-        if (simulationActive && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current += 1;
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 10000);
-          
-          console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts})`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWebSocket();
-          }, delay);
-        }
-      };
-      
-      wsRef.current = ws;
-      
-      const pingInterval = setInterval(() => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({ action: 'ping' }));
-        }
-      }, 30000);
-      
-      return () => clearInterval(pingInterval);
-      
-    } catch (error) {
-      console.error('Failed to create WebSocket:', error);
-      setWsConnected(false);
-    }
-  };
-  
-  const disconnectWebSocket = () => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-    
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-    
-    setWsConnected(false);
-    reconnectAttemptsRef.current = 0;
-  };
-  
   // ============================================================================
   // TELEMETRY UPDATE HANDLER
   // ============================================================================
   
-  const handleTelemetryUpdate = (data: any) => {
+  const handleTelemetryUpdate = (update: VehicleTelemetry) => {
     try {
-      setTelemetry({
-        timestamp: data.timestamp,
-        position: data.position || data.current_position,
-        velocity: data.velocity,
-        attitude: data.attitude,
-        battery: data.battery,
-        gps: data.gps,
-        armed: data.armed,
-        mode: data.mode,
-        mission_current: data.mission_current,
-        mission_count: data.mission_count
-      });
+      const data = update.vehicleId === UNKNOWN_VEHICLE_ID ? { ...update, vehicleId: 'UAV-001' } : update;
+
+      setTelemetry(prev => mergeTelemetry(prev, data));
       
-      if (data.position || data.current_position) {
-        const pos = data.position || data.current_position;
+      const pos = data.position;
+      if (pos) {
+        geofence.reportTelemetry(data);
         setDronePosition({
-          lat: pos.lat || pos.latitude,
-          lon: pos.lon || pos.longitude,
-          alt: pos.alt || pos.altitude
+          lat: pos.lat,
+          lon: pos.lon,
+          alt: pos.alt
         });
         
         setFlightPath(prev => {
           const newPath = [...prev, {
-            lat: pos.lat || pos.latitude,
-            lon: pos.lon || pos.longitude,
-            timestamp: Date.now()
+            lat: pos.lat,
+            lon: pos.lon,
+            alt: pos.alt,
+            timestamp: data.timestamp
           }];
           return newPath.slice(-500);
         });
       }
       
-      if (data.mission_current !== undefined && data.mission_count !== undefined) {
+      if (data.mission) {
         setMissionProgress({
-          current: data.mission_current,
-          total: data.mission_count
+          current: waypointIndexAtItem(routeActions, data.mission.current),
+          total: routeActions.filter(action => action.type === 'waypoint').length
         });
       }
       
@@ -400,6 +277,15 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
     }
   };
   
+  const { connected: wsConnected } = useTelemetryStream({
+    missionId: selectedMission?.id,
+    enabled: streamEnabled && simulationMode && simulationActive && !!selectedMission,
+    onTelemetry: handleTelemetryUpdate
+  });
+
+  const { getLink } = useLinkHealth();
+  const link = simulationMode ? getLink(telemetry?.vehicleId) : undefined;
+  
   // ============================================================================
   // AUTOMATIC MISSION UPLOAD AND START
   // ============================================================================
@@ -408,36 +294,31 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
     if (!simulationMode || !simulationActive || !selectedMission) {
       return;
     }
+    if (routeActions.length === 0) {
+      console.error('Mission needs at least a start and an end waypoint');
+      return;
+    }
     
     try {
       console.log('📤 Uploading mission to PX4...');
       
-      const waypoints = selectedMission.waypoints.map((wp, index) => ({
-        lat: wp.lat,
-        lon: wp.lng || wp.lon,
-        alt: wp.alt || 100,
-        sequence: index
-      }));
-      
-      const uploadResponse = await fetch(`${API_BASE}/mission/upload`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ waypoints })
-      });
-      
-      const uploadData = await uploadResponse.json();
+      const vehicleId = selectedMission.vehicle_id || 'UAV-001';
+      const uploadData = await droneControlService.uploadMission(compileMission(routeActions), vehicleId);
       
       if (uploadData.success) {
         console.log('✅ Mission uploaded successfully');
         
+        // Library fences assigned to the vehicle or mission; none clears the last mission's fence
+        const fenceUpload = await uploadAssignedGeofences(vehicleId, [String(selectedMission.id)]);
+        if (!fenceUpload.success) {
+          console.error('Failed to upload geofences, mission not started:', fenceUpload.error);
+          return;
+        }
+        
         await new Promise(resolve => setTimeout(resolve, 1000));
         
         console.log('🚀 Starting mission...');
-        const startResponse = await fetch(`${API_BASE}/mission/start`, {
-          method: 'POST'
-        });
-        
-        const startData = await startResponse.json();
+        const startData = await droneControlService.startUploadedMission(String(selectedMission.id), vehicleId);
         
         if (startData.success) {
           console.log('✅ Mission started successfully');
@@ -464,27 +345,20 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
       uploadAndStartMission();
       
       const connectTimer = setTimeout(() => {
-        connectWebSocket();
+        setStreamEnabled(true);
       }, 2000);
       
       return () => {
         clearTimeout(connectTimer);
-        disconnectWebSocket();
+        setStreamEnabled(false);
       };
     } else {
-      disconnectWebSocket();
       setFlightPath([]);
       setDronePosition(null);
       setTelemetry(null);
     }
   }, [simulationMode, simulationActive, selectedMission]);
   
-  useEffect(() => {
-    return () => {
-      disconnectWebSocket();
-    };
-  }, []);
-  
   // ============================================================================
   // MAP CENTER CALCULATION
   // ============================================================================
@@ -540,7 +414,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
     return statusColors[status] || 'bg-gray-600';
   };
 
-  const getMissionWaypoints = (): DemoWaypoint[] => {
+  const missionWaypoints = useMemo((): DemoWaypoint[] => {
     if (!selectedMission?.waypoints) return [];
     
     return selectedMission.waypoints.map(wp => ({
@@ -549,12 +423,82 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
       alt: wp.alt ?? 100,
       label: wp.label
     }));
+  }, [selectedMission]);
+
+  const exportPathsKml = () => {
+    const name = selectedMission?.mission_name || 'Flight';
+    const kml = buildKml({
+      name,
+      paths: [
+        {
+          name: 'Planned path',
+          color: '#3b82f6',
+          points: missionWaypoints.map(wp => ({ lat: wp.lat, lng: wp.lon, alt: wp.alt })),
+        },
+        {
+          name: 'Flown path',
+          color: '#10b981',
+          description: flightPath.length > 0
+            ? `${new Date(flightPath[0].timestamp).toISOString()} to ${new Date(flightPath[flightPath.length - 1].timestamp).toISOString()}`
+            : undefined,
+          points: flightPath.map(p => ({ lat: p.lat, lng: p.lon, alt: p.alt })),
+        },
+      ],
+    });
+    downloadTextFile(kml, toFileName(name, 'kml'), 'application/vnd.google-earth.kml+xml');
+  };
+
+  const exportTrackGeoJson = () => {
+    const name = `${selectedMission?.mission_name || 'Flight'} track`;
+    const geojson = flightTrackToGeoJson(flightPath, name);
+    downloadTextFile(JSON.stringify(geojson), toFileName(name, 'geojson'), 'application/geo+json');
+  };
+
+  const importTrackGeoJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const tracks = geoJsonToFlightTracks(await file.text()).filter(track => track.points.length > 1);
+      if (tracks.length === 0) {
+        throw new Error(`${file.name} has no flight tracks`);
+      }
+      setImportedTracks(prev => [...prev, ...tracks]);
+      setTrackImportError(null);
+    } catch (error) {
+      console.error('Error importing flight track:', error);
+      setTrackImportError(error instanceof Error ? error.message : 'Failed to import flight track');
+    }
   };
 
-  const missionWaypoints = getMissionWaypoints();
-  const missionCorridorPolygon = missionWaypoints.length > 1 
+  const missionCorridorPolygon = useMemo(() => missionWaypoints.length > 1 
     ? createCorridorPolygon(missionWaypoints, 0.01)
-    : [];
+    : [], [missionWaypoints]);
+
+  // ============================================================================
+  // GEOFENCE MONITORING
+  // ============================================================================
+
+  // The mission corridor, plus the mission's enabled obstacles as exclusion zones
+  const corridorLabel = selectedMission?.corridor?.label;
+  const missionObstacles = selectedMission?.obstacles;
+  const geofenceZones = useMemo((): GeofenceZone[] => {
+    const zones = (missionObstacles ?? []).filter(o => o.enabled).map(obstacleToGeofenceZone);
+    if (missionCorridorPolygon.length > 2) {
+      zones.push(missionAreaGeofenceZone(
+        missionCorridorPolygon.map(([lat, lng]) => ({ lat, lng })),
+        { name: corridorLabel || 'Mission corridor' }
+      ));
+    }
+    return zones;
+  }, [missionCorridorPolygon, corridorLabel, missionObstacles]);
+
+  const geofence = useGeofenceMonitor({
+    zones: geofenceZones,
+    enabled: simulationMode && simulationActive,
+    missionId: selectedMission?.id,
+  });
 
   // ============================================================================
   // LOADING STATE (Server-side)
@@ -591,10 +535,10 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
   });
 
   // Create drone icon function
-  const createDroneIcon = (color: string, heading: number = 0) => {
+  const createDroneIcon = (color: string, heading: number = 0, link?: VehicleLinkHealth) => {
     return L.divIcon({
       className: 'drone-marker',
-      html: `
+      html: withLinkOverlay(`
         <div style="
           width: 32px;
           height: 32px;
@@ -612,7 +556,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
             <circle cx="16" cy="12" r="2" fill="white"/>
           </svg>
         </div>
-      `,
+      `, 32, link?.state, link?.age),
       iconSize: [32, 32],
       iconAnchor: [16, 16],
     });
@@ -722,6 +666,22 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
           />
         )}
         
+        {/* Imported Flight Tracks */}
+        {importedTracks.map((track, index) => (
+          <Polyline
+            key={`track-${index}`}
+            positions={track.points.map(p => [p.lat, p.lon])}
+            pathOptions={{
+              color: '#a855f7',
+              weight: 2,
+              opacity: 0.8,
+              dashArray: '6, 6',
+            }}
+          >
+            <Tooltip sticky>{track.name}</Tooltip>
+          </Polyline>
+        ))}
+        
         {/* Simulation Flight Path */}
         {simulationMode && flightPath.length > 1 && (
           <Polyline
@@ -738,17 +698,22 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
         {simulationMode && dronePosition && (
           <Marker
             position={[dronePosition.lat, dronePosition.lon]}
-            icon={createDroneIcon('#10b981', telemetry?.attitude?.yaw || 0)}
+            icon={createDroneIcon('#10b981', telemetry?.heading || 0, link)}
           >
             <Popup>
               <div className="p-2 min-w-[200px]">
                 <div className="font-semibold text-sm mb-2">
                   {selectedMission?.mission_name || 'Live Drone'}
                 </div>
+                {link && link.state !== 'healthy' && (
+                  <div className={`text-xs mb-2 ${link.state === 'lost' ? 'text-gray-500' : 'text-amber-600'}`}>
+                    {link.state === 'lost' ? 'Last known position' : 'Stale data'}, {formatLinkAge(link.age)} old
+                  </div>
+                )}
                 <div className="space-y-1 text-xs">
                   <div className="flex justify-between">
                     <span className="text-gray-600">Status:</span>
-                    <span className="font-semibold">{telemetry?.mode || 'UNKNOWN'}</span>
+                    <span className="font-semibold">{telemetry?.flightMode || 'UNKNOWN'}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Alt:</span>
@@ -817,7 +782,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
                     </div>
                     <div className="flex items-center justify-between">
                       <span className="text-gray-600">Battery:</span>
-                      <span className={drone.battery > 30 ? 'text-green-600' : 'text-red-600'}>
+                      <span className={getBatteryLevel(drone.battery) === 'normal' ? 'text-green-600' : 'text-red-600'}>
                         {drone.battery}%
                       </span>
                     </div>
@@ -912,11 +877,17 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
                   {wsConnected ? 'Connected' : 'Disconnected'}
                 </span>
               </div>
+              {link && (
+                <div className="flex justify-between items-center mb-1">
+                  <span>Link:</span>
+                  <LinkHealthBadge link={link} />
+                </div>
+              )}
               {telemetry && (
                 <>
                   <div className="flex justify-between mb-1">
                     <span>Mode:</span>
-                    <span className="text-white">{telemetry.mode || 'N/A'}</span>
+                    <span className="text-white">{telemetry.flightMode || 'N/A'}</span>
                   </div>
                   <div className="flex justify-between mb-1">
                     <span>Waypoint:</span>
@@ -926,11 +897,7 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
                   </div>
                   <div className="flex justify-between mb-1">
                     <span>Battery:</span>
-                    <span className={
-                      (telemetry.battery?.remaining || 0) > 30 
-                        ? 'text-green-400' 
-                        : 'text-red-400'
-                    }>
+                    <span className={getBatteryColor(telemetry.battery?.remaining || 0)}>
                       {telemetry.battery?.remaining?.toFixed(0) || 0}%
                     </span>
                   </div>
@@ -946,6 +913,58 @@ const SituationalAwareness: React.FC<SituationalAwarenessProps> = ({
           </div>
         )}
         
+        {simulationMode && (
+          <GeofenceAlertPanel
+            alerts={geofence.alerts}
+            onAcknowledge={geofence.acknowledge}
+            onRespond={async (vehicleId, response) => {
+              await geofence.respond(vehicleId, response);
+            }}
+          />
+        )}
+        
+        {(missionWaypoints.length > 1 || flightPath.length > 1) && (
+          <div className="flex space-x-2">
+            <button
+              onClick={exportPathsKml}
+              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-sm text-slate-300"
+            >
+              <Download size={14} />
+              <span>Paths (KML)</span>
+            </button>
+            {flightPath.length > 1 && (
+              <button
+                onClick={exportTrackGeoJson}
+                className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-sm text-slate-300"
+              >
+                <Download size={14} />
+                <span>Track (GeoJSON)</span>
+              </button>
+            )}
+          </div>
+        )}
+        
+        <div className="space-y-1">
+          <div className="flex space-x-2">
+            <label className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-sm text-slate-300 cursor-pointer">
+              <Upload size={14} />
+              <span>Import Track (GeoJSON)</span>
+              <input type="file" accept=".geojson,.json" onChange={importTrackGeoJson} className="hidden" />
+            </label>
+            {importedTracks.length > 0 && (
+              <button
+                onClick={() => setImportedTracks([])}
+                className="flex items-center space-x-1 px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-md text-sm text-slate-300"
+                title="Remove imported tracks"
+              >
+                <X size={14} />
+                <span>{importedTracks.length}</span>
+              </button>
+            )}
+          </div>
+          {trackImportError && <div className="text-xs text-red-400">{trackImportError}</div>}
+        </div>
+        
         <div className="text-xs text-slate-500 pt-2 border-t border-slate-700">
           {simulationMode ? 'Simulation Mode Active' : `${demoDrones.length} Demo Drones Active`}
         </div>
@@ -0,0 +1,603 @@
+/**
+ * Telemetry Charts Panel
+ * Rolling time-series charts of vehicle telemetry from the Kafka stream, with
+ * every vehicle overlaid on each chart, or from histories the caller feeds
+ * from its own stream. Drag across a chart to zoom into that
+ * span; pause freezes the window while history keeps filling.
+ *
+ * Charts are drawn on canvas from one animation loop, and history reaches
+ * React in batches (CHART_CONFIG.flushInterval), so several vehicles at
+ * 10 Hz cost a render per batch rather than per sample.
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, LineChart, Pause, Play, ZoomOut } from 'lucide-react';
+import { CHART_CONFIG } from '@/config/missionExecution.config';
+import { TelemetryHistoryMap, useTelemetryHistories } from '@/hooks/useKafkaTelemetry';
+import { VehicleTelemetry } from '@/types/telemetry';
+import { downloadTextFile, toFileName } from '@/utils/fileDownload';
+import {
+  TELEMETRY_SERIES,
+  TelemetrySeries,
+  TelemetrySeriesKey,
+  buildTelemetryCsv,
+  findSampleIndex,
+  getTelemetrySeries,
+} from '@/utils/telemetrySeries';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ChartView {
+  start: number; // epoch ms
+  end: number;
+}
+
+interface ChartVehicle {
+  id: string;
+  color: string;
+}
+
+interface DragSelection {
+  series: TelemetrySeriesKey;
+  view: ChartView; // view when the drag began, as a live window keeps moving
+  from: number; // css px from the canvas's left edge
+  to: number;
+}
+
+interface DrawState {
+  histories: TelemetryHistoryMap;
+  vehicles: ChartVehicle[];
+  series: TelemetrySeries[];
+  frozenView: ChartView | null;
+  windowMs: number;
+}
+
+export interface TelemetryChartsPanelProps {
+  vehicleIds?: string[]; // default: every vehicle on the stream
+  histories?: TelemetryHistoryMap; // supplied by the caller instead of the Kafka stream
+  isConnected?: boolean; // with histories, whether the caller's stream is up
+  initialSeries?: TelemetrySeriesKey[];
+  className?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const VEHICLE_COLORS = ['#38bdf8', '#f97316', '#a3e635', '#e879f9', '#facc15', '#f87171', '#2dd4bf', '#c4b5fd'];
+
+const CHART_HEIGHT = 120; // css px
+const PLOT_PADDING = { left: 52, right: 10, top: 8, bottom: 18 };
+
+// Samples further apart than this are not joined by a line
+const MAX_JOIN_GAP = 2000;
+
+// Clock offsets further off than this are jumped to rather than eased into
+const OFFSET_SNAP = 1000;
+
+// Time axis steps, seconds
+const TIME_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const formatClock = (time: number): string => new Date(time).toLocaleTimeString([], { hour12: false });
+
+const formatWindow = (seconds: number): string => (seconds < 60 ? `${seconds}s` : `${seconds / 60}m`);
+
+/**
+ * Window ending now on the stream's clock
+ */
+const liveView = (windowMs: number, clockOffset: number | null): ChartView => {
+  const end = Date.now() + (clockOffset ?? 0);
+  return { start: end - windowMs, end };
+};
+
+/**
+ * Latest value of a series for one vehicle, looking back past samples that do
+ * not carry it
+ */
+const latestValue = (samples: VehicleTelemetry[] | undefined, series: TelemetrySeries): number | undefined => {
+  if (!samples) return undefined;
+  for (let i = samples.length - 1; i >= Math.max(0, samples.length - 50); i--) {
+    const value = series.read(samples[i]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Draw one chart: grid, axes and a line per vehicle. Lines are reduced to one
+ * min/max pair per pixel column, so long windows cost no more than short ones.
+ */
+const drawChart = (
+  canvas: HTMLCanvasElement,
+  series: TelemetrySeries,
+  histories: TelemetryHistoryMap,
+  vehicles: ChartVehicle[],
+  view: ChartView,
+  selection: DragSelection | null
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+  }
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const plotWidth = width - PLOT_PADDING.left - PLOT_PADDING.right;
+  const plotHeight = height - PLOT_PADDING.top - PLOT_PADDING.bottom;
+  if (plotWidth <= 0 || plotHeight <= 0) return;
+
+  const span = view.end - view.start;
+  const toX = (time: number) => PLOT_PADDING.left + ((time - view.start) / span) * plotWidth;
+
+  // Visible samples of each vehicle, one either side so lines run to the edges
+  let min = Infinity;
+  let max = -Infinity;
+  const ranges = vehicles.map(vehicle => {
+    const samples = histories[vehicle.id] ?? [];
+    const from = Math.max(0, findSampleIndex(samples, view.start) - 1);
+    const to = Math.min(samples.length, findSampleIndex(samples, view.end) + 1);
+    for (let i = from; i < to; i++) {
+      const value = series.read(samples[i]);
+      if (value === undefined || !Number.isFinite(value)) continue;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    return { ...vehicle, samples, from, to };
+  });
+
+  ctx.font = '10px sans-serif';
+  ctx.lineWidth = 1;
+
+  // Time axis
+  const step = (TIME_STEPS.find(s => (s * 1000 * plotWidth) / span >= 70) ?? TIME_STEPS[TIME_STEPS.length - 1]) * 1000;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  for (let time = Math.ceil(view.start / step) * step; time <= view.end; time += step) {
+    const x = toX(time);
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.12)';
+    ctx.beginPath();
+    ctx.moveTo(x, PLOT_PADDING.top);
+    ctx.lineTo(x, PLOT_PADDING.top + plotHeight);
+    ctx.stroke();
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(formatClock(time), x, PLOT_PADDING.top + plotHeight + 4);
+  }
+
+  if (min === Infinity) {
+    ctx.fillStyle = '#64748b';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('No data in this window', PLOT_PADDING.left + plotWidth / 2, PLOT_PADDING.top + plotHeight / 2);
+    return;
+  }
+
+  if (max - min < 1e-6) {
+    min -= 1;
+    max += 1;
+  } else {
+    const pad = (max - min) * 0.08;
+    min -= pad;
+    max += pad;
+  }
+  const toY = (value: number) => PLOT_PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  // Value axis
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (let tick = 0; tick <= 3; tick++) {
+    const value = min + ((max - min) * tick) / 3;
+    const y = toY(value);
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.12)';
+    ctx.beginPath();
+    ctx.moveTo(PLOT_PADDING.left, y);
+    ctx.lineTo(PLOT_PADDING.left + plotWidth, y);
+    ctx.stroke();
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(value.toFixed(series.decimals), PLOT_PADDING.left - 6, y);
+  }
+
+  // Lines
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(PLOT_PADDING.left, PLOT_PADDING.top, plotWidth, plotHeight);
+  ctx.clip();
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+
+  ranges.forEach(range => {
+    ctx.strokeStyle = range.color;
+    ctx.beginPath();
+
+    let column: { x: number; top: number; bottom: number; last: number } | null = null;
+    let lastTime = -Infinity;
+    const finishColumn = () => {
+      if (column && column.top !== column.bottom) {
+        ctx.lineTo(column.x, column.top);
+        ctx.lineTo(column.x, column.bottom);
+        ctx.lineTo(column.x, column.last);
+      }
+    };
+
+    for (let i = range.from; i < range.to; i++) {
+      const value = series.read(range.samples[i]);
+      if (value === undefined || !Number.isFinite(value)) continue;
+
+      const time = range.samples[i].timestamp;
+      const x = Math.round(toX(time));
+      const y = toY(value);
+      const joined = time - lastTime <= MAX_JOIN_GAP;
+
+      if (column && joined && x === column.x) {
+        column.top = Math.min(column.top, y);
+        column.bottom = Math.max(column.bottom, y);
+        column.last = y;
+      } else {
+        finishColumn();
+        if (joined) ctx.lineTo(x, y);
+        else ctx.moveTo(x, y);
+        column = { x, top: y, bottom: y, last: y };
+      }
+      lastTime = time;
+    }
+    finishColumn();
+    ctx.stroke();
+  });
+  ctx.restore();
+
+  // Zoom selection
+  if (selection && selection.series === series.key) {
+    const left = Math.min(selection.from, selection.to);
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.2)';
+    ctx.fillRect(left, PLOT_PADDING.top, Math.abs(selection.to - selection.from), plotHeight);
+  }
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const TelemetryChartsPanel: React.FC<TelemetryChartsPanelProps> = ({
+  vehicleIds,
+  histories: suppliedHistories,
+  isConnected: suppliedConnected = false,
+  initialSeries = ['altitude', 'groundSpeed', 'batteryRemaining'],
+  className = '',
+}) => {
+  const stream = useTelemetryHistories({
+    vehicleIds,
+    maxHistory: CHART_CONFIG.maxHistory,
+    maxAge: CHART_CONFIG.historyAge,
+    flushInterval: CHART_CONFIG.flushInterval,
+    autoConnect: true,
+    enabled: !suppliedHistories,
+  });
+  const histories = suppliedHistories ?? stream.histories;
+  const isConnected = suppliedHistories ? suppliedConnected : stream.isConnected;
+
+  const [selected, setSelected] = useState<TelemetrySeriesKey[]>(initialSeries);
+  const [windowSeconds, setWindowSeconds] = useState<number>(CHART_CONFIG.defaultWindow);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [frozenView, setFrozenView] = useState<ChartView | null>(null); // paused or zoomed; null follows the stream
+  const [zoomed, setZoomed] = useState(false);
+
+  const canvasesRef = useRef<Map<TelemetrySeriesKey, HTMLCanvasElement>>(new Map());
+  const colorsRef = useRef<Map<string, string>>(new Map()); // vehicle id -> color, in order of appearance
+  const clockOffsetRef = useRef<number | null>(null); // newest sample time minus the wall clock
+  const selectionRef = useRef<DragSelection | null>(null);
+  const drawStateRef = useRef<DrawState | null>(null);
+  const dirtyRef = useRef(true);
+
+  const vehicles = useMemo(() => {
+    const colors = colorsRef.current;
+    Object.keys(histories).forEach(id => {
+      if (!colors.has(id)) colors.set(id, VEHICLE_COLORS[colors.size % VEHICLE_COLORS.length]);
+    });
+    return Object.keys(histories)
+      .sort()
+      .map(id => ({ id, color: colors.get(id)! }));
+  }, [histories]);
+
+  const series = useMemo(() => selected.map(getTelemetrySeries), [selected]);
+
+  // The live window ends at the stream's own clock, so a replay or a vehicle
+  // with a skewed clock still scrolls into view. Eased, so latency wobble does
+  // not shake the axis.
+  useEffect(() => {
+    let newest = -Infinity;
+    Object.values(histories).forEach(samples => {
+      if (samples.length > 0) newest = Math.max(newest, samples[samples.length - 1].timestamp);
+    });
+    if (newest === -Infinity) return;
+
+    const target = newest - Date.now();
+    const current = clockOffsetRef.current;
+    clockOffsetRef.current =
+      current === null || Math.abs(target - current) > OFFSET_SNAP ? target : current + (target - current) * 0.1;
+  }, [histories]);
+
+  useEffect(() => {
+    drawStateRef.current = {
+      histories,
+      vehicles: vehicles.filter(vehicle => !hidden.has(vehicle.id)),
+      series,
+      frozenView,
+      windowMs: windowSeconds * 1000,
+    };
+    dirtyRef.current = true;
+  });
+
+  const currentView = (): ChartView => frozenView ?? liveView(windowSeconds * 1000, clockOffsetRef.current);
+
+  // One animation loop draws every chart: every frame while live, only on
+  // change while frozen
+  useEffect(() => {
+    let frame = 0;
+
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      const state = drawStateRef.current;
+      if (!state || (state.frozenView && !dirtyRef.current)) return;
+
+      dirtyRef.current = false;
+      const view = state.frozenView ?? liveView(state.windowMs, clockOffsetRef.current);
+      state.series.forEach(s => {
+        const canvas = canvasesRef.current.get(s.key);
+        if (canvas) drawChart(canvas, s, state.histories, state.vehicles, view, selectionRef.current);
+      });
+    };
+
+    const handleResize = () => {
+      dirtyRef.current = true;
+    };
+
+    frame = requestAnimationFrame(render);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
+
+  // ==========================================================================
+  // Controls
+  // ==========================================================================
+
+  const toggleSeries = (key: TelemetrySeriesKey) => {
+    setSelected(prev => {
+      if (!prev.includes(key)) return TELEMETRY_SERIES.map(s => s.key).filter(k => k === key || prev.includes(k));
+      return prev.length > 1 ? prev.filter(k => k !== key) : prev;
+    });
+  };
+
+  const toggleVehicle = (vehicleId: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(vehicleId)) next.delete(vehicleId);
+      else next.add(vehicleId);
+      return next;
+    });
+  };
+
+  const handleWindowChange = (seconds: number) => {
+    setWindowSeconds(seconds);
+    setZoomed(false);
+    if (frozenView) setFrozenView({ start: frozenView.end - seconds * 1000, end: frozenView.end });
+  };
+
+  const handlePause = () => {
+    if (frozenView) {
+      setFrozenView(null);
+      setZoomed(false);
+    } else {
+      setFrozenView(liveView(windowSeconds * 1000, clockOffsetRef.current));
+    }
+  };
+
+  const handleResetZoom = () => {
+    setFrozenView(null);
+    setZoomed(false);
+  };
+
+  const handleExport = () => {
+    const view = currentView();
+    const visible: TelemetryHistoryMap = {};
+    vehicles.forEach(vehicle => {
+      if (!hidden.has(vehicle.id)) visible[vehicle.id] = histories[vehicle.id];
+    });
+
+    const csv = buildTelemetryCsv(visible, selected, view.start, view.end);
+    downloadTextFile(csv, toFileName(`telemetry_${new Date(view.start).toISOString()}`, 'csv'), 'text/csv');
+  };
+
+  // ==========================================================================
+  // Drag to Zoom
+  // ==========================================================================
+
+  const plotX = (e: React.MouseEvent<HTMLCanvasElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    return Math.min(Math.max(x, PLOT_PADDING.left), rect.width - PLOT_PADDING.right);
+  };
+
+  const handleMouseDown = (key: TelemetrySeriesKey, e: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = plotX(e);
+    selectionRef.current = { series: key, view: currentView(), from: x, to: x };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!selectionRef.current) return;
+    selectionRef.current = { ...selectionRef.current, to: plotX(e) };
+    dirtyRef.current = true;
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const selection = selectionRef.current;
+    selectionRef.current = null;
+    dirtyRef.current = true;
+    if (!selection) return;
+
+    const plotWidth = e.currentTarget.clientWidth - PLOT_PADDING.left - PLOT_PADDING.right;
+    const to = plotX(e);
+    if (Math.abs(to - selection.from) < 5 || plotWidth <= 0) return;
+
+    const span = selection.view.end - selection.view.start;
+    const toTime = (x: number) => selection.view.start + ((x - PLOT_PADDING.left) / plotWidth) * span;
+    setFrozenView({ start: toTime(Math.min(selection.from, to)), end: toTime(Math.max(selection.from, to)) });
+    setZoomed(true);
+  };
+
+  const handleMouseLeave = () => {
+    if (!selectionRef.current) return;
+    selectionRef.current = null;
+    dirtyRef.current = true;
+  };
+
+  // ==========================================================================
+  // Render
+  // ==========================================================================
+
+  const buttonClass = 'flex items-center gap-1.5 px-2.5 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50';
+
+  return (
+    <div className={`bg-slate-900 border border-slate-700 rounded-lg text-white ${className}`}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 border-b border-slate-700">
+        <div className="flex items-center gap-2">
+          <LineChart className="w-4 h-4 text-blue-400" />
+          <span className="text-sm font-semibold">Telemetry Charts</span>
+          {frozenView && (
+            <span className="text-xs text-amber-400">{zoomed ? 'Zoomed' : 'Paused'}</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded overflow-hidden border border-slate-700">
+            {CHART_CONFIG.windows.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => handleWindowChange(seconds)}
+                className={`px-2 py-1 text-xs ${
+                  windowSeconds === seconds && !zoomed ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {formatWindow(seconds)}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handlePause}
+            className={`${buttonClass} ${frozenView ? 'bg-green-600 hover:bg-green-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+          >
+            {frozenView ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+            {frozenView ? 'Live' : 'Pause'}
+          </button>
+          <button onClick={handleResetZoom} disabled={!zoomed} className={`${buttonClass} bg-slate-700 hover:bg-slate-600`}>
+            <ZoomOut className="w-3.5 h-3.5" />
+            Reset zoom
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={vehicles.length === 0}
+            className={`${buttonClass} bg-slate-700 hover:bg-slate-600`}
+            title="Export the visible window as CSV"
+          >
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {/* Series and vehicles */}
+      <div className="px-3 py-2 space-y-2 border-b border-slate-800">
+        <div className="flex flex-wrap gap-1">
+          {TELEMETRY_SERIES.map(s => (
+            <button
+              key={s.key}
+              onClick={() => toggleSeries(s.key)}
+              className={`px-2 py-0.5 rounded-full text-xs border ${
+                selected.includes(s.key)
+                  ? 'bg-blue-600/30 border-blue-500 text-blue-200'
+                  : 'border-slate-700 text-slate-400 hover:text-white'
+              }`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        {vehicles.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {vehicles.map(vehicle => (
+              <button
+                key={vehicle.id}
+                onClick={() => toggleVehicle(vehicle.id)}
+                className={`flex items-center gap-1.5 text-xs ${hidden.has(vehicle.id) ? 'text-slate-500 line-through' : 'text-slate-200'}`}
+              >
+                <span className="w-3 h-0.5 rounded" style={{ backgroundColor: vehicle.color }} />
+                {vehicle.id}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Charts */}
+      {vehicles.length === 0 ? (
+        <div className="py-10 text-center text-sm text-slate-400">
+          {isConnected ? 'Waiting for telemetry...' : 'Connecting to the telemetry stream...'}
+        </div>
+      ) : (
+        <div className="p-3 space-y-3">
+          {series.map(s => (
+            <div key={s.key}>
+              <div className="flex items-baseline justify-between text-xs mb-1">
+                <span className="font-medium text-slate-300">
+                  {s.label}
+                  {s.unit && <span className="text-slate-500"> ({s.unit})</span>}
+                </span>
+                <span className="flex gap-3">
+                  {vehicles
+                    .filter(vehicle => !hidden.has(vehicle.id))
+                    .map(vehicle => {
+                      const value = latestValue(histories[vehicle.id], s);
+                      return (
+                        <span key={vehicle.id} style={{ color: vehicle.color }}>
+                          {value !== undefined ? value.toFixed(s.decimals) : '--'}
+                        </span>
+                      );
+                    })}
+                </span>
+              </div>
+              <canvas
+                ref={(canvas) => {
+                  if (canvas) canvasesRef.current.set(s.key, canvas);
+                  else canvasesRef.current.delete(s.key);
+                }}
+                style={{ width: '100%', height: CHART_HEIGHT }}
+                className="block bg-slate-950/60 rounded cursor-crosshair"
+                onMouseDown={(e) => handleMouseDown(s.key, e)}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseLeave}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryChartsPanel;
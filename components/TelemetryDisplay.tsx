@@ -1,85 +1,20 @@
 /**
- * TelemetryDisplay Component - FIXED VERSION
- * 
- * Changes:
- * 1. Uses wsConnected OR status.connected to determine connection state
- * 2. Better null handling for all telemetry values
- * 3. Proper fallback chain for position, battery, GPS data
- * 4. Fixed NaN handling for altitude and other numeric values
+ * TelemetryDisplay Component
+ *
+ * Renders a VehicleTelemetry sample. Transport differences (field names,
+ * units, status vs telemetry messages) are resolved by the telemetry
+ * adapters before the sample gets here.
  */
 
 import React, { useEffect, useState, useRef } from 'react';
+import { VehicleTelemetry, getBatteryBarColor, getBatteryColor } from '@/types/telemetry';
 
 // ============================================================================
 // INTERFACES
 // ============================================================================
 
-interface Position {
-  lat?: number;
-  lon?: number;
-  alt?: number;
-  latitude?: number;
-  longitude?: number;
-  altitude?: number;
-  relative_alt?: number;
-  relative_altitude?: number;
-  agl?: number;
-}
-
-interface Battery {
-  voltage?: number;
-  current?: number;
-  remaining?: number;
-  level?: number;
-}
-
-interface GPS {
-  satellites?: number;
-  num_satellites?: number;
-  satellites_visible?: number;
-  fix_type?: number;
-  hdop?: number;
-}
-
-interface Telemetry {
-  position?: Position;
-  battery?: Battery;
-  gps?: GPS;
-  flight_mode?: string;
-  attitude?: {
-    roll?: number;
-    pitch?: number;
-    yaw?: number;
-  };
-  velocity?: {
-    vx?: number;
-    vy?: number;
-    vz?: number;
-    ground_speed?: number;
-    groundspeed?: number;
-  };
-  // Root level altitude fields
-  alt?: number;
-  altitude?: number;
-  relative_alt?: number;
-  relative_altitude?: number;
-}
-
-interface Status {
-  connected?: boolean;
-  armed?: boolean;
-  flying?: boolean;
-  current_position?: Position;
-  battery_level?: number;
-  flight_mode?: string;
-  mission_active?: boolean;
-  mission_current?: number;
-  mission_count?: number;
-}
-
 interface TelemetryDisplayProps {
-  telemetry: Telemetry | null;
-  status: Status | null;
+  telemetry: VehicleTelemetry | null;
   wsConnected: boolean;
   lastUpdate?: number;
   updateFrequency?: number;
@@ -102,7 +37,6 @@ const safeNumber = (value: any, defaultValue: number = 0): number => {
 
 const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
   telemetry,
-  status,
   wsConnected,
   lastUpdate,
   updateFrequency = 0,
@@ -110,7 +44,7 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
 }) => {
   
   const [updateCount, setUpdateCount] = useState(0);
-  const prevTelemetryRef = useRef<Telemetry | null>(null);
+  const prevTelemetryRef = useRef<VehicleTelemetry | null>(null);
 
   useEffect(() => {
     if (telemetry && telemetry !== prevTelemetryRef.current) {
@@ -119,8 +53,7 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
     }
   }, [telemetry]);
 
-  // Use wsConnected OR status.connected for connection state
-  const isConnected = wsConnected || status?.connected || false;
+  const isConnected = wsConnected;
 
   const formatTimeAgo = (timestamp?: number): string => {
     if (!timestamp) return 'N/A';
@@ -146,66 +79,19 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
   };
 
   const getPositionValue = (field: 'lat' | 'lon' | 'alt'): number => {
-    const telemetryPos = telemetry?.position;
-    const statusPos = status?.current_position;
-    
-    if (field === 'lat') {
-      return safeNumber(
-        telemetryPos?.lat ?? 
-        telemetryPos?.latitude ?? 
-        statusPos?.lat ?? 
-        statusPos?.latitude, 
-        0
-      );
-    } else if (field === 'lon') {
-      return safeNumber(
-        telemetryPos?.lon ?? 
-        telemetryPos?.longitude ?? 
-        statusPos?.lon ?? 
-        statusPos?.longitude, 
-        0
-      );
-    } else {
-      // For altitude, check multiple possible field names
-      return safeNumber(
-        telemetryPos?.alt ?? 
-        telemetryPos?.altitude ?? 
-        telemetryPos?.relative_alt ??
-        telemetryPos?.relative_altitude ??
-        telemetryPos?.agl ??
-        telemetry?.alt ??
-        telemetry?.altitude ??
-        telemetry?.relative_alt ??
-        telemetry?.relative_altitude ??
-        statusPos?.alt ?? 
-        statusPos?.altitude ??
-        statusPos?.relative_alt ??
-        statusPos?.relative_altitude,
-        0
-      );
-    }
+    return safeNumber(telemetry?.position?.[field], 0);
   };
 
   const getBatteryRemaining = (): number => {
-    return safeNumber(
-      telemetry?.battery?.remaining ?? 
-      telemetry?.battery?.level ?? 
-      status?.battery_level,
-      0
-    );
+    return safeNumber(telemetry?.battery?.remaining, 0);
   };
 
   const getSatelliteCount = (): number => {
-    return safeNumber(
-      telemetry?.gps?.satellites ?? 
-      telemetry?.gps?.num_satellites ?? 
-      telemetry?.gps?.satellites_visible,
-      0
-    );
+    return safeNumber(telemetry?.gps?.satellites, 0);
   };
 
   const getGPSFixType = (): number => {
-    return safeNumber(telemetry?.gps?.fix_type, 0);
+    return safeNumber(telemetry?.gps?.fixType, 0);
   };
 
   const getGPSFixString = (fixType: number): string => {
@@ -214,18 +100,6 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
     return 'NO FIX';
   };
 
-  const getBatteryColor = (remaining: number): string => {
-    if (remaining > 50) return 'text-green-400';
-    if (remaining > 20) return 'text-yellow-400';
-    return 'text-red-400';
-  };
-
-  const getBatteryBarColor = (remaining: number): string => {
-    if (remaining > 50) return 'bg-green-500';
-    if (remaining > 20) return 'bg-yellow-500';
-    return 'bg-red-500';
-  };
-
   const getGPSColor = (satellites: number): string => {
     if (satellites >= 8) return 'text-green-400';
     if (satellites >= 5) return 'text-yellow-400';
@@ -237,21 +111,11 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
   };
 
   const getFlightMode = (): string => {
-    return telemetry?.flight_mode ?? status?.flight_mode ?? 'UNKNOWN';
+    return telemetry?.flightMode ?? 'UNKNOWN';
   };
 
   const getGroundSpeed = (): number => {
-    const velocity = telemetry?.velocity;
-    if (velocity?.ground_speed !== undefined) {
-      return safeNumber(velocity.ground_speed, 0);
-    }
-    if (velocity?.groundspeed !== undefined) {
-      return safeNumber(velocity.groundspeed, 0);
-    }
-    // Calculate from vx, vy if available
-    const vx = safeNumber(velocity?.vx, 0);
-    const vy = safeNumber(velocity?.vy, 0);
-    return Math.sqrt(vx * vx + vy * vy);
+    return safeNumber(telemetry?.velocity?.groundSpeed, 0);
   };
 
   // Get computed values
@@ -277,16 +141,16 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
         {/* Status Badges */}
         <div className="flex flex-wrap gap-2">
           <span className={`px-2 py-1 rounded text-xs font-semibold ${
-            status?.armed ? 'bg-yellow-600 text-white' : 'bg-gray-700 text-gray-400'
+            telemetry?.armed ? 'bg-yellow-600 text-white' : 'bg-gray-700 text-gray-400'
           }`}>
-            {status?.armed ? '● Armed' : '○ Armed'}
-            <span className="ml-1">{status?.armed ? 'YES' : 'NO'}</span>
+            {telemetry?.armed ? '● Armed' : '○ Armed'}
+            <span className="ml-1">{telemetry?.armed ? 'YES' : 'NO'}</span>
           </span>
           <span className={`px-2 py-1 rounded text-xs font-semibold ${
-            status?.flying ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-400'
+            telemetry?.flying ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-400'
           }`}>
-            {status?.flying ? '● Flying' : '○ Flying'}
-            <span className="ml-1">{status?.flying ? 'YES' : 'NO'}</span>
+            {telemetry?.flying ? '● Flying' : '○ Flying'}
+            <span className="ml-1">{telemetry?.flying ? 'YES' : 'NO'}</span>
           </span>
           <span className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 text-gray-300">
             ● Mode <span className="ml-1">{getFlightMode()}</span>
@@ -337,7 +201,7 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
             <div>
               <div className="text-gray-400 text-xs mb-1">HEADING</div>
               <div className="text-white font-mono text-sm">
-                {safeNumber(telemetry?.attitude?.yaw, 0).toFixed(1)} °
+                {safeNumber(telemetry?.heading, 0).toFixed(1)} °
               </div>
             </div>
           </div>
@@ -381,13 +245,13 @@ const TelemetryDisplay: React.FC<TelemetryDisplayProps> = ({
             <div>
               <div className="text-gray-400 text-xs mb-1">CLIMB</div>
               <div className="text-white font-mono text-sm">
-                {safeNumber(telemetry?.velocity?.vz, 0).toFixed(1)} <span className="text-gray-500">m/s</span>
+                {safeNumber(telemetry?.velocity?.climbRate, 0).toFixed(1)} <span className="text-gray-500">m/s</span>
               </div>
             </div>
             <div>
-              <div className="text-gray-400 text-xs mb-1">VZ</div>
+              <div className="text-gray-400 text-xs mb-1">VD</div>
               <div className="text-white font-mono text-sm">
-                {safeNumber(telemetry?.velocity?.vz, 0).toFixed(1)} <span className="text-gray-500">m/s</span>
+                {safeNumber(telemetry?.velocity?.vd, 0).toFixed(1)} <span className="text-gray-500">m/s</span>
               </div>
             </div>
           </div>
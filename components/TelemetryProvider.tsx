@@ -0,0 +1,40 @@
+/**
+ * Telemetry Provider
+ * Supplies the telemetry connection manager to every page, so streams are
+ * shared across views and outlive page navigation, and runs the link health
+ * monitor on those streams
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import linkHealthMonitor from '@/services/linkHealthMonitor';
+import telemetryConnectionManager, { TelemetryStreamSource } from '@/services/telemetryConnectionManager';
+import { TelemetryConnectionContext } from '@/hooks/useTelemetryStream';
+
+// ============================================================================
+// Component
+// ============================================================================
+
+const TelemetryProvider: React.FC<{ manager?: TelemetryStreamSource; children: React.ReactNode }> = ({
+  manager = telemetryConnectionManager,
+  children,
+}) => {
+  useEffect(() => {
+    linkHealthMonitor.start();
+    const unwatch = linkHealthMonitor.watchTelemetryStreams();
+
+    return () => {
+      unwatch();
+      linkHealthMonitor.stop();
+    };
+  }, []);
+
+  return (
+    <TelemetryConnectionContext.Provider value={manager}>
+      {children}
+    </TelemetryConnectionContext.Provider>
+  );
+};
+
+export default TelemetryProvider;
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { Package, Search, Filter, Plus, Battery, Signal, MapPin, Clock, Edit2, Trash2, Eye, AlertTriangle } from 'lucide-react'
 import { vehiclesData } from '@/lib/data'
 import { Vehicle } from '@/types'
+import { getBatteryBarColor, getBatteryLevel } from '@/types/telemetry'
 
 export default function VehicleLibrary() {
   const [searchQuery, setSearchQuery] = useState<string>('')
@@ -19,12 +20,6 @@ export default function VehicleLibrary() {
     }
   }
 
-  const getBatteryColor = (battery: number): string => {
-    if (battery > 60) return 'bg-green-500'
-    if (battery > 30) return 'bg-yellow-500'
-    return 'bg-red-500'
-  }
-
   const getTypeColor = (type: string): string => {
     switch (type) {
       case 'Surveillance': return 'bg-blue-600'
@@ -150,11 +145,11 @@ export default function VehicleLibrary() {
                   </div>
                   <div className="w-full bg-slate-700 rounded-full h-2">
                     <div 
-                      className={`${getBatteryColor(vehicle.battery)} h-2 rounded-full transition-all`}
+                      className={`${getBatteryBarColor(vehicle.battery)} h-2 rounded-full transition-all`}
                       style={{ width: `${vehicle.battery}%` }}
                     ></div>
                   </div>
-                  {vehicle.battery < 30 && (
+                  {getBatteryLevel(vehicle.battery) !== 'normal' && (
                     <div className="flex items-center space-x-2 mt-2">
                       <AlertTriangle size={14} className="text-yellow-400" />
                       <span className="text-xs text-yellow-400">Low Battery Warning</span>
@@ -9,6 +9,8 @@
 
 'use client';
 
+import { LinkState, formatLinkAge } from '@/types/linkHealth';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -22,6 +24,8 @@ interface DroneIconOptions {
   style?: DroneStyle;
   size?: number;
   showPulse?: boolean;
+  link?: LinkState; // degraded and lost links are drawn stale
+  linkAge?: number; // milliseconds since the newest sample, shown on stale icons
 }
 
 // ============================================================================
@@ -241,6 +245,47 @@ export const getDroneStatus = (armed: boolean, flying: boolean, flightMode?: str
   return 'armed';
 };
 
+// ============================================================================
+// LINK HEALTH OVERLAY
+// ============================================================================
+
+/**
+ * Wrap marker HTML in its link health: a dashed amber ring and the data age
+ * while degraded, a faded grey ghost at the last known position once lost.
+ * Healthy links are returned as they are.
+ */
+export const withLinkOverlay = (html: string, size: number, link?: LinkState, linkAge: number = 0): string => {
+  if (!link || link === 'healthy') return html;
+
+  const lost = link === 'lost';
+  const color = lost ? '#94a3b8' : '#f59e0b';
+
+  return `
+    <div style="position: relative; width: ${size}px; height: ${size}px;">
+      <div style="${lost ? 'filter: grayscale(1); opacity: 0.45;' : ''}">${html}</div>
+      <div style="
+        position: absolute;
+        inset: -4px;
+        border: 2px dashed ${color};
+        border-radius: 50%;
+        pointer-events: none;
+      "></div>
+      <div style="
+        position: absolute;
+        top: ${size + 2}px;
+        left: 50%;
+        transform: translateX(-50%);
+        padding: 1px 5px;
+        border-radius: 4px;
+        background: ${lost ? '#334155' : '#b45309'};
+        color: white;
+        font: 700 10px/14px sans-serif;
+        white-space: nowrap;
+      ">${lost ? 'LOST' : 'STALE'} ${formatLinkAge(linkAge)}</div>
+    </div>
+  `;
+};
+
 // ============================================================================
 // MAIN FACTORY FUNCTION - SSR SAFE
 // ============================================================================
@@ -261,25 +306,28 @@ export const createDroneIcon = (options: DroneIconOptions = {}): L.DivIcon | nul
     style = 'military',
     size = 56,
     showPulse = true,
+    link,
+    linkAge,
   } = options;
 
   const colors = statusColors[status];
+  const pulse = showPulse && link !== 'lost';
   
   let svg: string;
   let baseSize: number;
   
   switch (style) {
     case 'quadcopter':
-      svg = createQuadcopterSVG(colors, showPulse);
+      svg = createQuadcopterSVG(colors, pulse);
       baseSize = 52;
       break;
     case 'arrow':
-      svg = createArrowSVG(colors, showPulse);
+      svg = createArrowSVG(colors, pulse);
       baseSize = 44;
       break;
     case 'military':
     default:
-      svg = createMilitarySVG(colors, showPulse);
+      svg = createMilitarySVG(colors, pulse);
       baseSize = 56;
       break;
   }
@@ -288,7 +336,7 @@ export const createDroneIcon = (options: DroneIconOptions = {}): L.DivIcon | nul
 
   return L.divIcon({
     className: 'professional-drone-marker',
-    html: `
+    html: withLinkOverlay(`
       <div style="
         width: ${size}px;
         height: ${size}px;
@@ -303,7 +351,7 @@ export const createDroneIcon = (options: DroneIconOptions = {}): L.DivIcon | nul
           ${svg}
         </div>
       </div>
-    `,
+    `, size, link, linkAge),
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
   });
@@ -8,10 +8,12 @@ export const MISSION_EXECUTION_CONFIG = {
 
   // WebSocket Configuration
   websocket: {
-    url: process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:7000/ws/telemetry',
+    telemetryUrl: `${process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8002'}/ws/telemetry`, // drone telemetry
+    kafkaUrl: process.env.NEXT_PUBLIC_KAFKA_WS_URL || 'ws://localhost:8002/ws/kafka-telemetry', // Kafka proxy
     reconnectInterval: 5000, // 5 seconds
     maxReconnectAttempts: 10,
     pingInterval: 20000, // 20 seconds
+    lingerTime: 10000, // milliseconds a socket stays open after its last consumer leaves
   },
 
   // Video Configuration
@@ -36,6 +38,10 @@ export const MISSION_EXECUTION_CONFIG = {
     autoHideDelay: 5000, // 5 seconds
     batteryWarningThreshold: 20, // percentage
     batteryCriticalThreshold: 10, // percentage
+    checkInterval: 1000, // milliseconds between link staleness and escalation checks
+    historySize: 200, // alert history entries kept
+    soundEnabled: true,
+    soundRepeatInterval: 10000, // milliseconds between reminders while a critical alert is unacknowledged
   },
 
   // Mission Control Configuration
@@ -50,6 +56,32 @@ export const MISSION_EXECUTION_CONFIG = {
   geofence: {
     enableWarnings: true,
     violationCheckInterval: 1000, // milliseconds
+    predictionHorizon: 10, // seconds of look-ahead along the velocity vector
+    predictionStep: 1, // seconds between look-ahead samples
+    staleFixTimeout: 5000, // milliseconds before a vehicle is no longer checked
+  },
+
+  // Telemetry Link Health Configuration
+  linkHealth: {
+    checkInterval: 1000, // milliseconds between staleness checks
+    window: 10000, // milliseconds of samples message rate and loss are measured over
+    degradedAge: 3000, // milliseconds since the newest sample before a link is degraded
+    lostAge: 10000, // milliseconds since the newest sample before a link is lost
+    maxLatency: 1000, // milliseconds, average end-to-end latency before a link is degraded
+    maxJitter: 500, // milliseconds of interarrival jitter before a link is degraded
+    maxLossPercent: 10, // percent of messages missing from the sequence before a link is degraded
+    heartbeatInterval: 1000, // milliseconds, the autopilot's HEARTBEAT rate
+    maxMissedHeartbeats: 3, // heartbeats missed in a row before a link is degraded
+    forgetAfter: 300000, // milliseconds before a lost vehicle is dropped
+  },
+
+  // Telemetry Chart Configuration
+  charts: {
+    windows: [30, 60, 120, 300], // rolling window choices, seconds
+    defaultWindow: 60, // seconds
+    historyAge: 600000, // milliseconds of samples kept per vehicle, so a paused or zoomed view outlives the window
+    maxHistory: 12000, // samples kept per vehicle at most
+    flushInterval: 100, // milliseconds between history updates
   },
 
   // UI Configuration
@@ -69,6 +101,8 @@ export const TELEMETRY_CONFIG = MISSION_EXECUTION_CONFIG.telemetry
 export const ALERT_CONFIG = MISSION_EXECUTION_CONFIG.alerts
 export const MISSION_CONTROL_CONFIG = MISSION_EXECUTION_CONFIG.missionControl
 export const GEOFENCE_CONFIG = MISSION_EXECUTION_CONFIG.geofence
+export const LINK_HEALTH_CONFIG = MISSION_EXECUTION_CONFIG.linkHealth
+export const CHART_CONFIG = MISSION_EXECUTION_CONFIG.charts
 export const UI_CONFIG = MISSION_EXECUTION_CONFIG.ui
 
 // Type definitions
@@ -80,4 +114,6 @@ export type TelemetryConfig = typeof TELEMETRY_CONFIG
 export type AlertConfig = typeof ALERT_CONFIG
 export type MissionControlConfig = typeof MISSION_CONTROL_CONFIG
 export type GeofenceConfig = typeof GEOFENCE_CONFIG
+export type LinkHealthConfig = typeof LINK_HEALTH_CONFIG
+export type ChartConfig = typeof CHART_CONFIG
 export type UIConfig = typeof UI_CONFIG
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Airspace Hook
+ * =============
+ * Imported airspace zones, and the check of planned routes against them.
+ *
+ * Usage:
+ *   const airspace = useAirspace([routePoints]);
+ *   if (!airspace.check.canSave) setError(airspaceSaveError(airspace.check));
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import airspaceService from '../services/airspaceService';
+import { AirspaceCheck, AirspacePermissions, AirspaceZone } from '../types/airspace';
+import { AirspaceRoutePoint, checkRoutesAirspace } from '../utils/airspace';
+
+// =============================================================================
+// useAirspace
+// =============================================================================
+
+export interface UseAirspaceResult {
+  zones: AirspaceZone[];
+  files: string[];
+  check: AirspaceCheck;
+  permissions: AirspacePermissions;
+  setPermission: (zoneId: string, reference: string) => void;
+  importFile: (file: File) => Promise<AirspaceZone[]>;
+  removeFile: (fileName: string) => void;
+}
+
+export function useAirspace(routes: AirspaceRoutePoint[][]): UseAirspaceResult {
+  const [zones, setZones] = useState<AirspaceZone[]>([]);
+  const [files, setFiles] = useState<string[]>([]);
+  const [permissions, setPermissions] = useState<AirspacePermissions>({});
+
+  useEffect(() => {
+    return airspaceService.subscribe((latest) => {
+      setZones(latest);
+      setFiles(airspaceService.getFiles());
+    });
+  }, []);
+
+  const check = useMemo(() => checkRoutesAirspace(routes, zones, permissions), [routes, zones, permissions]);
+
+  const setPermission = useCallback((zoneId: string, reference: string) => {
+    setPermissions(prev => ({ ...prev, [zoneId]: reference }));
+  }, []);
+
+  const importFile = useCallback((file: File) => airspaceService.importFile(file), []);
+  const removeFile = useCallback((fileName: string) => airspaceService.removeFile(fileName), []);
+
+  return {
+    zones,
+    files,
+    check,
+    permissions,
+    setPermission,
+    importFile,
+    removeFile,
+  };
+}
+
+export default useAirspace;
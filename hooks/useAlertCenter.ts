@@ -0,0 +1,71 @@
+/**
+ * Alert Center Hook
+ * =================
+ * Open telemetry alerts and their history from the shared alert engine.
+ *
+ * Usage:
+ *   const { alerts, history, acknowledge } = useAlertCenter();
+ *   useAlertCenter({ watch: true }); // once per app: runs the engine on the live streams
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import alertEngine from '../services/alertEngine';
+import { AlertHistoryEntry, TelemetryAlert } from '../types/alerts';
+
+// =============================================================================
+// useAlertCenter
+// =============================================================================
+
+export interface UseAlertCenterOptions {
+  watch?: boolean; // evaluate the live telemetry streams while mounted
+}
+
+export interface UseAlertCenterResult {
+  alerts: TelemetryAlert[];
+  history: AlertHistoryEntry[];
+  acknowledge: (alertId: string) => void;
+  acknowledgeAll: () => void;
+  clearHistory: () => void;
+}
+
+export function useAlertCenter(options: UseAlertCenterOptions = {}): UseAlertCenterResult {
+  const { watch = false } = options;
+
+  const [alerts, setAlerts] = useState<TelemetryAlert[]>([]);
+  const [history, setHistory] = useState<AlertHistoryEntry[]>([]);
+
+  useEffect(() => {
+    return alertEngine.subscribe((nextAlerts, nextHistory) => {
+      setAlerts(nextAlerts);
+      setHistory(nextHistory);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!watch) return;
+
+    alertEngine.start();
+    const unwatch = alertEngine.watchTelemetryStreams();
+
+    return () => {
+      unwatch();
+      alertEngine.stop();
+    };
+  }, [watch]);
+
+  const acknowledge = useCallback((alertId: string) => {
+    alertEngine.acknowledge(alertId);
+  }, []);
+
+  const acknowledgeAll = useCallback(() => {
+    alertEngine.acknowledgeAll();
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    alertEngine.clearHistory();
+  }, []);
+
+  return { alerts, history, acknowledge, acknowledgeAll, clearHistory };
+}
+
+export default useAlertCenter;
@@ -6,18 +6,20 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import droneControlService from '@/services/droneControlService';
+import { useTelemetryStream } from '@/hooks/useTelemetryStream';
 import { 
-  TelemetryData, 
   CommandResponse,
   MissionWaypoint,
   Waypoint 
 } from '@/types/types';
+import { VehicleTelemetry } from '@/types/telemetry';
+import { compileMission, routeToMissionActions } from '@/utils/missionItems';
 
 interface UseDroneControlOptions {
   autoConnect?: boolean;
   connectionString?: string;
   onConnectionChange?: (connected: boolean) => void;
-  onTelemetryUpdate?: (telemetry: TelemetryData) => void;
+  onTelemetryUpdate?: (telemetry: VehicleTelemetry) => void;
   onError?: (error: string) => void;
 }
 
@@ -35,7 +37,7 @@ interface DroneControlState {
   missionRunning: boolean;
   
   // Telemetry
-  telemetry: TelemetryData | null;
+  telemetry: VehicleTelemetry | null;
   
   // Loading states
   loading: boolean;
@@ -63,7 +65,7 @@ interface DroneControlActions {
   returnToLaunch: () => Promise<boolean>;
   
   // Mission controls
-  uploadMission: (missionId: string, waypoints: Waypoint[]) => Promise<boolean>;
+  uploadMission: (missionId: string, waypoints: Waypoint[], vehicleId?: string) => Promise<boolean>;
   startMission: () => Promise<boolean>;
   pauseMission: () => Promise<boolean>;
   resumeMission: () => Promise<boolean>;
@@ -118,9 +120,13 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
   });
 
   // Refs
-  const wsRef = useRef<WebSocket | null>(null);
   const isMountedRef = useRef(true);
 
+  // Telemetry comes from the shared stream, so a TelemetryProvider or a
+  // flight replay higher in the tree feeds this hook too
+  const [streaming, setStreaming] = useState(false);
+  const telemetryStream = useTelemetryStream({ enabled: streaming });
+
   // Update state helper
   const updateState = useCallback((updates: Partial<DroneControlState>) => {
     if (isMountedRef.current) {
@@ -329,7 +335,8 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
   // Upload mission
   const uploadMission = useCallback(async (
     missionId: string, 
-    waypoints: Waypoint[]
+    waypoints: Waypoint[],
+    vehicleId?: string
   ): Promise<boolean> => {
     if (!state.connected) {
       handleError('Drone not connected');
@@ -339,8 +346,14 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
     updateState({ uploadingMission: true, error: null });
     
     try {
-      const formattedWaypoints = droneControlService.formatWaypoints(waypoints);
-      const response = await droneControlService.uploadMission(missionId, formattedWaypoints);
+      // Compile to MAVLink items: takeoff, waypoints, land
+      const items = compileMission(routeToMissionActions(waypoints.map(wp => ({
+        lat: wp.lat,
+        lon: wp.lng,
+        alt: wp.altitude ?? 10
+      }))));
+      console.log(`📤 Uploading mission ${missionId}: ${items.length} items`);
+      const response = await droneControlService.uploadMission(items, vehicleId);
       
       if (response.success) {
         updateState({ 
@@ -481,41 +494,36 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
 
   // Start telemetry stream
   const startTelemetryStream = useCallback(() => {
-    if (wsRef.current) {
-      return; // Already streaming
-    }
-
-    wsRef.current = droneControlService.startTelemetryStream({
-      onMessage: (data: TelemetryData) => {
-        updateState({ 
-          telemetry: data,
-          armed: data.armed,
-          mode: data.mode
-        });
-        
-        if (onTelemetryUpdate) {
-          onTelemetryUpdate(data);
-        }
-      },
-      onError: (error: Event) => {
-        console.error('Telemetry stream error:', error);
-        handleError('Telemetry stream error');
-      },
-      onClose: () => {
-        console.log('Telemetry stream closed');
-        wsRef.current = null;
-      }
-    });
-  }, [handleError, onTelemetryUpdate, updateState]);
+    setStreaming(true);
+  }, []);
 
   // Stop telemetry stream
   const stopTelemetryStream = useCallback(() => {
-    if (wsRef.current) {
-      droneControlService.stopTelemetryStream();
-      wsRef.current = null;
-    }
+    setStreaming(false);
   }, []);
 
+  useEffect(() => {
+    const data = telemetryStream.telemetry;
+    if (!streaming || !data) return;
+
+    updateState({
+      telemetry: data,
+      armed: data.armed ?? false,
+      mode: data.flightMode ?? 'UNKNOWN'
+    });
+
+    if (onTelemetryUpdate) {
+      onTelemetryUpdate(data);
+    }
+  }, [telemetryStream.telemetry]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (streaming && telemetryStream.state === 'failed') {
+      console.error('Telemetry stream error: connection failed');
+      handleError('Telemetry stream error');
+    }
+  }, [telemetryStream.state]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Clear error
   const clearError = useCallback(() => {
     updateState({ error: null });
@@ -549,12 +557,12 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
   const canTakeoff = state.connected && state.armed && !state.takingOff;
   const canUploadMission = state.connected && !state.uploadingMission;
   const canStartMission = state.connected && state.missionUploaded && !state.missionRunning;
-  const batteryPercentage = state.telemetry?.battery_remaining ?? 0;
+  const batteryPercentage = state.telemetry?.battery?.remaining ?? 0;
   
   const gpsQuality = (() => {
-    if (!state.telemetry) return 'none';
-    const fix = state.telemetry.gps_fix;
-    const sats = state.telemetry.satellites_visible;
+    if (!state.telemetry?.gps) return 'none';
+    const fix = state.telemetry.gps.fixType;
+    const sats = state.telemetry.gps.satellites;
     
     if (fix < 2) return 'none';
     if (fix === 2) return 'poor';
@@ -571,7 +579,6 @@ export function useDroneControl(options: UseDroneControlOptions = {}): UseDroneC
 
     return () => {
       isMountedRef.current = false;
-      stopTelemetryStream();
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -0,0 +1,150 @@
+/**
+ * Flight Recording Hooks
+ * ======================
+ * Record the mission a view is showing, list stored recordings, and read the
+ * replay a view is running under.
+ *
+ * Usage:
+ *   useFlightRecorder({ missionId, transport: 'kafka', enabled: !replay });
+ *   const { recordings, remove } = useFlightRecordings();
+ *   const replay = useFlightReplay(); // null when live
+ */
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import flightRecorder, { FlightRecorderOptions } from '../services/flightRecorder';
+import { deleteRecording, isRecordingStoreAvailable, listRecordings } from '../services/flightRecordingStore';
+import FlightReplayPlayer from '../services/flightReplayPlayer';
+import { FlightRecording, ReplayState } from '../types/flightRecording';
+
+// =============================================================================
+// Replay Context
+// =============================================================================
+
+/**
+ * Player of the replay the component tree is showing, null when live
+ */
+export const FlightReplayContext = createContext<FlightReplayPlayer | null>(null);
+
+export function useFlightReplay(): FlightReplayPlayer | null {
+  return useContext(FlightReplayContext);
+}
+
+/**
+ * Playback state of a player, updated as it plays
+ */
+export function useReplayState(player: FlightReplayPlayer | null): ReplayState | null {
+  const [state, setState] = useState<ReplayState | null>(null);
+
+  useEffect(() => {
+    if (!player) {
+      setState(null);
+      return;
+    }
+    return player.subscribeReplay(setState);
+  }, [player]);
+
+  return state;
+}
+
+// =============================================================================
+// useFlightRecorder
+// =============================================================================
+
+export interface UseFlightRecorderOptions extends Partial<FlightRecorderOptions> {
+  enabled?: boolean;
+}
+
+export interface UseFlightRecorderResult {
+  recordingId: string | null;
+  recording: boolean;
+}
+
+/**
+ * Record a mission while the component is mounted and enabled. Unmounting
+ * mid-flight leaves the recorder to finish the flight, and a remount or a
+ * change of stream carries on the same recording.
+ */
+export function useFlightRecorder(options: UseFlightRecorderOptions): UseFlightRecorderResult {
+  const { missionId, transport, url, vehicleId, enabled = true } = options;
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  // Mission details are stored once at start, so changes do not restart it
+  const detailsRef = useRef({ missionName: options.missionName, mission: options.mission });
+  detailsRef.current = { missionName: options.missionName, mission: options.mission };
+
+  useEffect(() => {
+    if (!enabled || !missionId) return;
+
+    const id = flightRecorder.start({ missionId, transport, url, vehicleId, ...detailsRef.current });
+    setRecordingId(id);
+
+    return () => {
+      setRecordingId(null);
+      if (id) flightRecorder.stop(id);
+    };
+  }, [missionId, transport, url, vehicleId, enabled]);
+
+  return {
+    recordingId,
+    recording: recordingId !== null,
+  };
+}
+
+// =============================================================================
+// useFlightRecordings
+// =============================================================================
+
+export interface UseFlightRecordingsResult {
+  recordings: FlightRecording[];
+  active: FlightRecording[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  remove: (recordingId: string) => Promise<void>;
+}
+
+export function useFlightRecordings(): UseFlightRecordingsResult {
+  const [recordings, setRecordings] = useState<FlightRecording[]>([]);
+  const [active, setActive] = useState<FlightRecording[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isRecordingStoreAvailable()) {
+      setError('Recordings need IndexedDB, which this browser does not provide');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setRecordings(await listRecordings());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recordings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const remove = useCallback(async (recordingId: string) => {
+    await deleteRecording(recordingId);
+    setRecordings(prev => prev.filter(recording => recording.id !== recordingId));
+  }, []);
+
+  // Reload whenever a recording starts or finishes
+  useEffect(() => {
+    return flightRecorder.subscribe((current) => {
+      setActive(current);
+      refresh();
+    });
+  }, [refresh]);
+
+  return {
+    recordings,
+    active,
+    loading,
+    error,
+    refresh,
+    remove,
+  };
+}
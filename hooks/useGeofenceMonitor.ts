@@ -0,0 +1,87 @@
+/**
+ * Geofence Monitor Hook
+ * =====================
+ * Runs a geofence monitor for the lifetime of a component.
+ *
+ * Usage:
+ *   const { alerts, reportFix, respond } = useGeofenceMonitor({ zones, missionId });
+ *   reportFix({ vehicleId, lat, lon, alt, timestamp: Date.now() });
+ *   reportTelemetry(telemetry); // or a whole VehicleTelemetry sample
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { GeofenceMonitor } from '../services/geofenceMonitor';
+import { ApiResponse } from '../services/droneControlService';
+import { GeofenceAlert, BreachResponse, GeofenceZone, VehicleFix } from '../types/geofence';
+import { VehicleTelemetry } from '../types/telemetry';
+
+// =============================================================================
+// useGeofenceMonitor
+// =============================================================================
+
+export interface UseGeofenceMonitorOptions {
+  zones: GeofenceZone[];
+  enabled?: boolean;
+  missionId?: string; // mission commanded by RTL / hold responses
+  vehicleId?: string; // vehicle flying that mission, when several are reported
+  watchKafka?: boolean; // also check every vehicle on the Kafka telemetry stream
+}
+
+export interface UseGeofenceMonitorResult {
+  alerts: GeofenceAlert[];
+  reportFix: (fix: VehicleFix) => void;
+  reportTelemetry: (telemetry: VehicleTelemetry) => void;
+  acknowledge: (alertId: string) => void;
+  respond: (vehicleId: string, response: BreachResponse) => Promise<ApiResponse>;
+}
+
+export function useGeofenceMonitor(options: UseGeofenceMonitorOptions): UseGeofenceMonitorResult {
+  const { zones, enabled = true, missionId, vehicleId, watchKafka = false } = options;
+
+  const [monitor] = useState(() => new GeofenceMonitor());
+  const [alerts, setAlerts] = useState<GeofenceAlert[]>([]);
+
+  useEffect(() => {
+    monitor.setZones(zones);
+  }, [monitor, zones]);
+
+  useEffect(() => {
+    return monitor.subscribe(setAlerts);
+  }, [monitor]);
+
+  // Run the check loop while enabled
+  useEffect(() => {
+    if (!enabled) return;
+
+    monitor.start();
+    const unwatch = watchKafka ? monitor.watchKafkaTelemetry() : undefined;
+
+    return () => {
+      unwatch?.();
+      monitor.stop();
+    };
+  }, [monitor, enabled, watchKafka]);
+
+  const reportFix = useCallback((fix: VehicleFix) => {
+    monitor.reportFix(fix);
+  }, [monitor]);
+
+  const reportTelemetry = useCallback((telemetry: VehicleTelemetry) => {
+    monitor.reportTelemetry(telemetry);
+  }, [monitor]);
+
+  const acknowledge = useCallback((alertId: string) => {
+    monitor.acknowledge(alertId);
+  }, [monitor]);
+
+  const respond = useCallback(async (alertVehicleId: string, response: BreachResponse) => {
+    if (!missionId || (vehicleId && alertVehicleId !== vehicleId)) {
+      throw new Error(`No mission is running for ${alertVehicleId}`);
+    }
+    return monitor.respond(alertVehicleId, response, missionId);
+  }, [monitor, missionId, vehicleId]);
+
+  return { alerts, reportFix, reportTelemetry, acknowledge, respond };
+}
+
+export default useGeofenceMonitor;
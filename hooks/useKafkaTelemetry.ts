@@ -6,18 +6,38 @@
  * Usage:
  *   const { telemetry, isConnected } = useKafkaTelemetry();
  *   const { telemetry, subscribe } = useVehicleTelemetry('vehicle-1');
+ *   const { histories } = useTelemetryHistories({ vehicleIds: ['vehicle-1', 'vehicle-2'] });
  */
 
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import kafkaTelemetryService, { KafkaTelemetryService } from '../services/kafkaTelemetryService';
 import {
-  TelemetryData,
   VehicleStatus,
   TelemetryStats,
   KafkaServiceConfig,
   KafkaServiceEvents,
   ConnectionInfoMessage,
 } from '../types/kafka.types';
+import {
+  TelemetryAttitude,
+  TelemetryBattery,
+  TelemetryPosition,
+  VehicleTelemetry,
+} from '../types/telemetry';
+
+// =============================================================================
+// Context
+// =============================================================================
+
+/**
+ * Kafka telemetry service for the component tree. Defaults to the app-wide
+ * singleton; a flight replay supplies one fed by its player.
+ */
+export const KafkaTelemetryContext = createContext<KafkaTelemetryService>(kafkaTelemetryService);
+
+export function useKafkaTelemetryService(): KafkaTelemetryService {
+  return useContext(KafkaTelemetryContext);
+}
 
 // =============================================================================
 // useKafkaTelemetry - Main telemetry hook
@@ -30,7 +50,7 @@ export interface UseKafkaTelemetryOptions {
 }
 
 export interface UseKafkaTelemetryResult {
-  telemetry: TelemetryData | null;
+  telemetry: VehicleTelemetry | null;
   status: VehicleStatus | null;
   isConnected: boolean;
   isReconnecting: boolean;
@@ -45,9 +65,10 @@ export interface UseKafkaTelemetryResult {
 export function useKafkaTelemetry(
   options: UseKafkaTelemetryOptions = {}
 ): UseKafkaTelemetryResult {
+  const service = useKafkaTelemetryService();
   const { autoConnect = true, vehicleId, onError } = options;
 
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
   const [status, setStatus] = useState<VehicleStatus | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
@@ -63,11 +84,11 @@ export function useKafkaTelemetry(
   // Update stats periodically
   useEffect(() => {
     const interval = setInterval(() => {
-      setStats(kafkaTelemetryService.getStats());
+      setStats(service.getStats());
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [service]);
 
   // Subscribe to telemetry events
   useEffect(() => {
@@ -80,9 +101,9 @@ export function useKafkaTelemetry(
       onDisconnect: () => {
         setIsConnected(false);
       },
-      onTelemetry: (data: TelemetryData) => {
+      onTelemetry: (data: VehicleTelemetry) => {
         // Filter by vehicle if specified
-        if (vehicleId && data.vehicle_id !== vehicleId) {
+        if (vehicleId && data.vehicleId !== vehicleId) {
           return;
         }
         setTelemetry(data);
@@ -102,41 +123,41 @@ export function useKafkaTelemetry(
       },
     };
 
-    const unsubscribe = kafkaTelemetryService.subscribe(events);
+    const unsubscribe = service.subscribe(events);
 
     // Auto-connect
-    if (autoConnect && !kafkaTelemetryService.isConnected()) {
-      kafkaTelemetryService.connect();
+    if (autoConnect && !service.isConnected()) {
+      service.connect();
     }
 
     // Subscribe to vehicle if specified
     if (vehicleId) {
-      kafkaTelemetryService.subscribeVehicle(vehicleId);
+      service.subscribeVehicle(vehicleId);
     }
 
     return () => {
       unsubscribe();
       if (vehicleId) {
-        kafkaTelemetryService.unsubscribeVehicle(vehicleId);
+        service.unsubscribeVehicle(vehicleId);
       }
     };
-  }, [autoConnect, vehicleId, onError]);
+  }, [service, autoConnect, vehicleId, onError]);
 
   const connect = useCallback(() => {
-    kafkaTelemetryService.connect();
-  }, []);
+    service.connect();
+  }, [service]);
 
   const disconnect = useCallback(() => {
-    kafkaTelemetryService.disconnect();
-  }, []);
+    service.disconnect();
+  }, [service]);
 
   const subscribeVehicle = useCallback((id: string) => {
-    kafkaTelemetryService.subscribeVehicle(id);
-  }, []);
+    service.subscribeVehicle(id);
+  }, [service]);
 
   const unsubscribeVehicle = useCallback((id: string) => {
-    kafkaTelemetryService.unsubscribeVehicle(id);
-  }, []);
+    service.unsubscribeVehicle(id);
+  }, [service]);
 
   return {
     telemetry,
@@ -157,17 +178,18 @@ export function useKafkaTelemetry(
 // =============================================================================
 
 export interface UseVehicleTelemetryResult {
-  telemetry: TelemetryData | null;
+  telemetry: VehicleTelemetry | null;
   status: VehicleStatus | null;
   isConnected: boolean;
-  position: { lat: number; lon: number; alt: number } | null;
-  attitude: { roll: number; pitch: number; yaw: number } | null;
-  battery: { voltage: number; remaining: number } | null;
+  position: TelemetryPosition | null;
+  attitude: TelemetryAttitude | null;
+  battery: TelemetryBattery | null;
   lastUpdate: Date | null;
 }
 
 export function useVehicleTelemetry(vehicleId: string): UseVehicleTelemetryResult {
-  const [telemetry, setTelemetry] = useState<TelemetryData | null>(null);
+  const service = useKafkaTelemetryService();
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
   const [status, setStatus] = useState<VehicleStatus | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
@@ -176,8 +198,8 @@ export function useVehicleTelemetry(vehicleId: string): UseVehicleTelemetryResul
     const events: KafkaServiceEvents = {
       onConnect: () => setIsConnected(true),
       onDisconnect: () => setIsConnected(false),
-      onTelemetry: (data: TelemetryData) => {
-        if (data.vehicle_id === vehicleId) {
+      onTelemetry: (data: VehicleTelemetry) => {
+        if (data.vehicleId === vehicleId) {
           setTelemetry(data);
           setLastUpdate(new Date());
         }
@@ -189,40 +211,18 @@ export function useVehicleTelemetry(vehicleId: string): UseVehicleTelemetryResul
       },
     };
 
-    const unsubscribe = kafkaTelemetryService.subscribe(events);
-    kafkaTelemetryService.subscribeVehicle(vehicleId);
+    const unsubscribe = service.subscribe(events);
+    service.subscribeVehicle(vehicleId);
 
     return () => {
       unsubscribe();
-      kafkaTelemetryService.unsubscribeVehicle(vehicleId);
+      service.unsubscribeVehicle(vehicleId);
     };
-  }, [vehicleId]);
-
-  const position = useMemo(() => {
-    if (!telemetry?.position) return null;
-    return {
-      lat: telemetry.position.lat,
-      lon: telemetry.position.lon,
-      alt: telemetry.position.alt,
-    };
-  }, [telemetry?.position]);
-
-  const attitude = useMemo(() => {
-    if (!telemetry?.attitude) return null;
-    return {
-      roll: telemetry.attitude.roll,
-      pitch: telemetry.attitude.pitch,
-      yaw: telemetry.attitude.yaw,
-    };
-  }, [telemetry?.attitude]);
+  }, [service, vehicleId]);
 
-  const battery = useMemo(() => {
-    if (!telemetry?.battery) return null;
-    return {
-      voltage: telemetry.battery.voltage,
-      remaining: telemetry.battery.remaining,
-    };
-  }, [telemetry?.battery]);
+  const position = telemetry?.position ?? null;
+  const attitude = telemetry?.attitude ?? null;
+  const battery = telemetry?.battery ?? null;
 
   return {
     telemetry,
@@ -240,7 +240,7 @@ export function useVehicleTelemetry(vehicleId: string): UseVehicleTelemetryResul
 // =============================================================================
 
 export interface VehicleTelemetryMap {
-  [vehicleId: string]: TelemetryData;
+  [vehicleId: string]: VehicleTelemetry;
 }
 
 export interface UseMultiVehicleTelemetryResult {
@@ -249,12 +249,13 @@ export interface UseMultiVehicleTelemetryResult {
   isConnected: boolean;
   subscribeVehicle: (vehicleId: string) => void;
   unsubscribeVehicle: (vehicleId: string) => void;
-  getTelemetry: (vehicleId: string) => TelemetryData | undefined;
+  getTelemetry: (vehicleId: string) => VehicleTelemetry | undefined;
 }
 
 export function useMultiVehicleTelemetry(
   initialVehicleIds: string[] = []
 ): UseMultiVehicleTelemetryResult {
+  const service = useKafkaTelemetryService();
   const [vehicles, setVehicles] = useState<VehicleTelemetryMap>({});
   const [isConnected, setIsConnected] = useState(false);
   const subscribedRef = useRef<Set<string>>(new Set(initialVehicleIds));
@@ -263,45 +264,45 @@ export function useMultiVehicleTelemetry(
     const events: KafkaServiceEvents = {
       onConnect: () => setIsConnected(true),
       onDisconnect: () => setIsConnected(false),
-      onTelemetry: (data: TelemetryData) => {
-        if (subscribedRef.current.has(data.vehicle_id)) {
+      onTelemetry: (data: VehicleTelemetry) => {
+        if (subscribedRef.current.has(data.vehicleId)) {
           setVehicles(prev => ({
             ...prev,
-            [data.vehicle_id]: data,
+            [data.vehicleId]: data,
           }));
         }
       },
     };
 
-    const unsubscribe = kafkaTelemetryService.subscribe(events);
+    const unsubscribe = service.subscribe(events);
 
     // Subscribe to initial vehicles
     initialVehicleIds.forEach(id => {
-      kafkaTelemetryService.subscribeVehicle(id);
+      service.subscribeVehicle(id);
     });
 
     return () => {
       unsubscribe();
       subscribedRef.current.forEach(id => {
-        kafkaTelemetryService.unsubscribeVehicle(id);
+        service.unsubscribeVehicle(id);
       });
     };
-  }, []);
+  }, [service]);
 
   const subscribeVehicle = useCallback((vehicleId: string) => {
     subscribedRef.current.add(vehicleId);
-    kafkaTelemetryService.subscribeVehicle(vehicleId);
-  }, []);
+    service.subscribeVehicle(vehicleId);
+  }, [service]);
 
   const unsubscribeVehicle = useCallback((vehicleId: string) => {
     subscribedRef.current.delete(vehicleId);
-    kafkaTelemetryService.unsubscribeVehicle(vehicleId);
+    service.unsubscribeVehicle(vehicleId);
     setVehicles(prev => {
       const next = { ...prev };
       delete next[vehicleId];
       return next;
     });
-  }, []);
+  }, [service]);
 
   const getTelemetry = useCallback(
     (vehicleId: string) => vehicles[vehicleId],
@@ -321,52 +322,180 @@ export function useMultiVehicleTelemetry(
 }
 
 // =============================================================================
-// useTelemetryHistory - Track telemetry history
+// useTelemetryHistories - Track telemetry history for several vehicles
 // =============================================================================
 
-export interface UseTelemetryHistoryResult {
-  history: TelemetryData[];
-  latest: TelemetryData | null;
+export interface TelemetryHistoryMap {
+  [vehicleId: string]: VehicleTelemetry[];
+}
+
+export interface UseTelemetryHistoryBufferOptions {
+  maxHistory?: number; // samples kept per vehicle
+  maxAge?: number; // milliseconds of samples kept per vehicle, behind its newest
+  flushInterval?: number; // milliseconds to batch samples for; 0 updates on every sample
+}
+
+export interface UseTelemetryHistoryBufferResult {
+  histories: TelemetryHistoryMap;
+  push: (data: VehicleTelemetry) => void;
+  retain: (vehicleIds: string[]) => void;
+  clear: () => void;
+}
+
+/**
+ * Per-vehicle telemetry history fed by the caller, for views whose samples
+ * come from a stream other than the Kafka service (or from several in turn).
+ */
+export function useTelemetryHistoryBuffer(
+  options: UseTelemetryHistoryBufferOptions = {}
+): UseTelemetryHistoryBufferResult {
+  const { maxHistory = 100, maxAge, flushInterval = 0 } = options;
+
+  const [histories, setHistories] = useState<TelemetryHistoryMap>({});
+  const pendingRef = useRef<Map<string, VehicleTelemetry[]>>(new Map());
+  const flushTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const flush = useCallback(() => {
+    flushTimerRef.current = null;
+    const batch = pendingRef.current;
+    pendingRef.current = new Map();
+
+    setHistories(prev => {
+      const next = { ...prev };
+      batch.forEach((samples, id) => {
+        let merged = [...(prev[id] ?? []), ...samples];
+        if (maxAge !== undefined) {
+          const oldest = merged[merged.length - 1].timestamp - maxAge;
+          const keepFrom = merged.findIndex(sample => sample.timestamp >= oldest);
+          if (keepFrom > 0) merged = merged.slice(keepFrom);
+        }
+        next[id] = merged.length > maxHistory ? merged.slice(-maxHistory) : merged;
+      });
+      return next;
+    });
+  }, [maxHistory, maxAge]);
+
+  const push = useCallback((data: VehicleTelemetry) => {
+    const samples = pendingRef.current.get(data.vehicleId);
+    if (samples) samples.push(data);
+    else pendingRef.current.set(data.vehicleId, [data]);
+
+    if (flushInterval <= 0) flush();
+    else if (!flushTimerRef.current) flushTimerRef.current = setTimeout(flush, flushInterval);
+  }, [flush, flushInterval]);
+
+  // Drop vehicles no longer asked for
+  const retain = useCallback((vehicleIds: string[]) => {
+    setHistories(prev => {
+      const next: TelemetryHistoryMap = {};
+      vehicleIds.forEach(id => {
+        if (prev[id]) next[id] = prev[id];
+      });
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    pendingRef.current = new Map();
+    setHistories({});
+  }, []);
+
+  useEffect(() => () => {
+    if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+  }, []);
+
+  return {
+    histories,
+    push,
+    retain,
+    clear,
+  };
+}
+
+export interface UseTelemetryHistoriesOptions {
+  vehicleIds?: string[]; // default: every vehicle on the stream
+  maxHistory?: number; // samples kept per vehicle
+  maxAge?: number; // milliseconds of samples kept per vehicle, behind its newest
+  flushInterval?: number; // milliseconds to batch samples for; 0 updates on every sample
+  autoConnect?: boolean;
+  enabled?: boolean; // false leaves the Kafka service alone
+}
+
+export interface UseTelemetryHistoriesResult {
+  histories: TelemetryHistoryMap;
   isConnected: boolean;
   clear: () => void;
 }
 
-export function useTelemetryHistory(
-  vehicleId: string,
-  maxHistory: number = 100
-): UseTelemetryHistoryResult {
-  const [history, setHistory] = useState<TelemetryData[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
+export function useTelemetryHistories(
+  options: UseTelemetryHistoriesOptions = {}
+): UseTelemetryHistoriesResult {
+  const service = useKafkaTelemetryService();
+  const { vehicleIds, maxHistory, maxAge, flushInterval, autoConnect = false, enabled = true } = options;
+
+  const { histories, push, retain, clear } = useTelemetryHistoryBuffer({ maxHistory, maxAge, flushInterval });
+  const [isConnected, setIsConnected] = useState(() => service.isConnected());
+
+  // Compared by value, so callers can pass a fresh array each render
+  const vehicleKey = vehicleIds ? JSON.stringify(vehicleIds) : null;
 
   useEffect(() => {
+    if (!enabled) return;
+
+    const ids: string[] | null = vehicleKey ? JSON.parse(vehicleKey) : null;
+
     const events: KafkaServiceEvents = {
       onConnect: () => setIsConnected(true),
       onDisconnect: () => setIsConnected(false),
-      onTelemetry: (data: TelemetryData) => {
-        if (data.vehicle_id === vehicleId) {
-          setHistory(prev => {
-            const next = [...prev, data];
-            if (next.length > maxHistory) {
-              return next.slice(-maxHistory);
-            }
-            return next;
-          });
-        }
+      onTelemetry: (data: VehicleTelemetry) => {
+        if (ids && !ids.includes(data.vehicleId)) return;
+        push(data);
       },
     };
 
-    const unsubscribe = kafkaTelemetryService.subscribe(events);
-    kafkaTelemetryService.subscribeVehicle(vehicleId);
+    if (ids) retain(ids);
+
+    const unsubscribe = service.subscribe(events);
+
+    if (autoConnect && !service.isConnected()) {
+      service.connect();
+    }
+    ids?.forEach(id => service.subscribeVehicle(id));
 
     return () => {
       unsubscribe();
-      kafkaTelemetryService.unsubscribeVehicle(vehicleId);
+      ids?.forEach(id => service.unsubscribeVehicle(id));
     };
-  }, [vehicleId, maxHistory]);
+  }, [service, vehicleKey, autoConnect, enabled, push, retain]);
 
-  const latest = useMemo(() => history[history.length - 1] || null, [history]);
+  return {
+    histories,
+    isConnected,
+    clear,
+  };
+}
+
+// =============================================================================
+// useTelemetryHistory - Track telemetry history
+// =============================================================================
+
+export interface UseTelemetryHistoryResult {
+  history: VehicleTelemetry[];
+  latest: VehicleTelemetry | null;
+  isConnected: boolean;
+  clear: () => void;
+}
+
+const EMPTY_HISTORY: VehicleTelemetry[] = [];
+
+export function useTelemetryHistory(
+  vehicleId: string,
+  maxHistory: number = 100
+): UseTelemetryHistoryResult {
+  const { histories, isConnected, clear } = useTelemetryHistories({ vehicleIds: [vehicleId], maxHistory });
 
-  const clear = useCallback(() => setHistory([]), []);
+  const history = histories[vehicleId] ?? EMPTY_HISTORY;
+  const latest = useMemo(() => history[history.length - 1] || null, [history]);
 
   return {
     history,
@@ -390,6 +519,7 @@ export interface UseKafkaConnectionResult {
 }
 
 export function useKafkaConnection(): UseKafkaConnectionResult {
+  const service = useKafkaTelemetryService();
   const [isConnected, setIsConnected] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [reconnectAttempt, setReconnectAttempt] = useState(0);
@@ -415,16 +545,16 @@ export function useKafkaConnection(): UseKafkaConnectionResult {
       },
     };
 
-    return kafkaTelemetryService.subscribe(events);
-  }, []);
+    return service.subscribe(events);
+  }, [service]);
 
   const connect = useCallback(() => {
-    kafkaTelemetryService.connect();
-  }, []);
+    service.connect();
+  }, [service]);
 
   const disconnect = useCallback(() => {
-    kafkaTelemetryService.disconnect();
-  }, []);
+    service.disconnect();
+  }, [service]);
 
   return {
     isConnected,
@@ -0,0 +1,40 @@
+/**
+ * Link Health Hook
+ * ================
+ * Per-vehicle telemetry link health from the shared link health monitor,
+ * which TelemetryProvider runs on the app's telemetry streams.
+ *
+ * Usage:
+ *   const { links, getLink } = useLinkHealth();
+ *   const link = getLink(telemetry?.vehicleId);
+ *   if (link?.state === 'lost') showGhost(link.lastPosition);
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import linkHealthMonitor from '../services/linkHealthMonitor';
+import { VehicleLinkHealth } from '../types/linkHealth';
+
+// =============================================================================
+// useLinkHealth
+// =============================================================================
+
+export interface UseLinkHealthResult {
+  links: VehicleLinkHealth[]; // worst link first
+  getLink: (vehicleId: string | undefined) => VehicleLinkHealth | undefined;
+}
+
+export function useLinkHealth(): UseLinkHealthResult {
+  const [links, setLinks] = useState<VehicleLinkHealth[]>([]);
+
+  useEffect(() => {
+    return linkHealthMonitor.subscribe(setLinks);
+  }, []);
+
+  const getLink = useCallback((vehicleId: string | undefined) => {
+    return vehicleId ? links.find(link => link.vehicleId === vehicleId) : undefined;
+  }, [links]);
+
+  return { links, getLink };
+}
+
+export default useLinkHealth;
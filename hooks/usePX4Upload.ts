@@ -1,7 +1,9 @@
 import { useState } from 'react'
 import { toast } from 'react-hot-toast'
+import { compileMission, routeToMissionActions } from '@/utils/missionItems'
+import { DRONE_API_URL } from '@/services/droneControlService'
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000'
+const API_BASE_URL = DRONE_API_URL
 
 interface Mission {
   id: number
@@ -22,14 +24,14 @@ export const usePX4Upload = () => {
     const uploadToast = toast.loading(`Uploading ${mission.mission_name}...`)
 
     try {
-      // Format waypoints for PX4 - ensure all values are numbers
-      const waypoints = mission.waypoints.map(wp => ({
-        latitude: Number(wp.lat),
-        longitude: Number(wp.lon),
-        altitude: Number(wp.alt || 10)
-      }))
+      // Compile to MAVLink items: takeoff, waypoints, land - ensure all values are numbers
+      const items = compileMission(routeToMissionActions(mission.waypoints.map(wp => ({
+        lat: Number(wp.lat),
+        lon: Number(wp.lon),
+        alt: Number(wp.alt || 10)
+      }))))
 
-      console.log('Formatted waypoints:', waypoints)
+      console.log('Mission items:', items)
 
       // Upload to PX4
       const response = await fetch(
@@ -40,7 +42,7 @@ export const usePX4Upload = () => {
           body: JSON.stringify({
             mission_id: mission.id.toString(),
             vehicle_id: mission.vehicle_id || 'UAV-001',
-            waypoints: waypoints,
+            items: items,
             connection_string: 'udp:127.0.0.1:14540'  // PyMAVLink format (no //)
           })
         }
@@ -0,0 +1,131 @@
+/**
+ * Telemetry Stream Hooks
+ * ======================
+ * React access to the shared telemetry connection manager. Every view reads
+ * telemetry through these hooks, so streams survive page navigation and a
+ * vehicle watched by several views is subscribed once.
+ *
+ * Usage:
+ *   const { telemetry, connected } = useTelemetryStream({ missionId });
+ *   const { telemetry } = useTelemetryStream({ transport: 'kafka', vehicleId: 'vehicle-1' });
+ */
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import telemetryConnectionManager, { TelemetryStreamSource } from '../services/telemetryConnectionManager';
+import {
+  TelemetryStreamMessage,
+  TelemetryStreamState,
+  TelemetryStreamTransport,
+  VehicleTelemetry,
+} from '../types/telemetry';
+import { mergeTelemetry } from '../utils/telemetryAdapters';
+
+// =============================================================================
+// Context
+// =============================================================================
+
+/**
+ * Telemetry source for the component tree. Defaults to the app-wide
+ * connection manager; TelemetryProvider can supply another one, and a flight
+ * replay supplies its player.
+ */
+export const TelemetryConnectionContext = createContext<TelemetryStreamSource>(telemetryConnectionManager);
+
+export function useTelemetryManager(): TelemetryStreamSource {
+  return useContext(TelemetryConnectionContext);
+}
+
+// =============================================================================
+// useTelemetryStream
+// =============================================================================
+
+export interface UseTelemetryStreamOptions {
+  transport?: TelemetryStreamTransport;
+  url?: string;
+  vehicleId?: string;
+  missionId?: string;
+  enabled?: boolean;
+  onTelemetry?: (telemetry: VehicleTelemetry) => void;
+  onMessage?: (message: TelemetryStreamMessage) => void;
+}
+
+export interface UseTelemetryStreamResult {
+  telemetry: VehicleTelemetry | null;
+  state: TelemetryStreamState;
+  connected: boolean;
+  lastUpdate: number; // epoch ms of the last sample, 0 before the first
+  updateFrequency: number; // samples per second
+  reconnect: () => void;
+}
+
+export function useTelemetryStream(options: UseTelemetryStreamOptions = {}): UseTelemetryStreamResult {
+  const { transport = 'websocket', url, vehicleId, missionId, enabled = true } = options;
+  const manager = useTelemetryManager();
+
+  const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
+  const [state, setState] = useState<TelemetryStreamState>('idle');
+  const [lastUpdate, setLastUpdate] = useState(0);
+  const [updateFrequency, setUpdateFrequency] = useState(0);
+
+  // Latest callbacks, so a new closure each render does not resubscribe
+  const onTelemetryRef = useRef(options.onTelemetry);
+  const onMessageRef = useRef(options.onMessage);
+  onTelemetryRef.current = options.onTelemetry;
+  onMessageRef.current = options.onMessage;
+
+  const updateCountRef = useRef(0);
+
+  // A different vehicle or mission starts from an empty sample. Declared
+  // before the subscription, since a replay delivers its history on subscribe.
+  useEffect(() => {
+    setTelemetry(null);
+    setLastUpdate(0);
+  }, [vehicleId, missionId]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setState('idle');
+      return;
+    }
+
+    const unsubscribe = manager.subscribe({
+      transport,
+      url,
+      vehicleId,
+      missionId,
+      onTelemetry: (data) => {
+        updateCountRef.current += 1;
+        setTelemetry(prev => mergeTelemetry(prev, data));
+        setLastUpdate(Date.now());
+        onTelemetryRef.current?.(data);
+      },
+      onMessage: (message) => onMessageRef.current?.(message),
+      onStateChange: setState,
+    });
+
+    const frequencyTimer = setInterval(() => {
+      setUpdateFrequency(updateCountRef.current);
+      updateCountRef.current = 0;
+    }, 1000);
+
+    return () => {
+      clearInterval(frequencyTimer);
+      unsubscribe();
+    };
+  }, [manager, transport, url, vehicleId, missionId, enabled]);
+
+  const reconnect = useCallback(() => {
+    manager.reconnect(transport, url);
+  }, [manager, transport, url]);
+
+  return {
+    telemetry,
+    state,
+    connected: state === 'open',
+    lastUpdate,
+    updateFrequency,
+    reconnect,
+  };
+}
+
+export default useTelemetryStream;
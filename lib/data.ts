@@ -152,7 +152,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Northern Sector',
     flightHours: 342,
     lastMission: '2h ago',
-    missions: 127
+    missions: 127,
+    performance: {
+      cruiseSpeed: 14,
+      climbRate: 4,
+      descentRate: 3,
+      turnPenalty: 2,
+      batteryCapacity: 480,
+      hoverPower: 620,
+      cruisePower: 540,
+      reserve: { minReservePercent: 25, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-C2-Beta',
@@ -164,7 +174,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 218,
     lastMission: '5h ago',
-    missions: 89
+    missions: 89,
+    performance: {
+      cruiseSpeed: 12,
+      climbRate: 3,
+      descentRate: 2,
+      turnPenalty: 3,
+      batteryCapacity: 900,
+      hoverPower: 1450,
+      cruisePower: 1300,
+      reserve: { minReservePercent: 30, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-A3-Gamma',
@@ -176,7 +196,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 156,
     lastMission: '1d ago',
-    missions: 62
+    missions: 62,
+    performance: {
+      cruiseSpeed: 8,
+      climbRate: 3,
+      descentRate: 2,
+      turnPenalty: 2,
+      batteryCapacity: 650,
+      hoverPower: 1100,
+      cruisePower: 950,
+      reserve: { minReservePercent: 25, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-R1-Delta',
@@ -188,7 +218,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Maintenance Bay',
     flightHours: 298,
     lastMission: '2d ago',
-    missions: 104
+    missions: 104,
+    performance: {
+      cruiseSpeed: 16,
+      climbRate: 5,
+      descentRate: 3,
+      turnPenalty: 1.5,
+      batteryCapacity: 420,
+      hoverPower: 560,
+      cruisePower: 500,
+      reserve: { minReservePercent: 25, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-I2-Epsilon',
@@ -200,7 +240,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Hangar',
     flightHours: 445,
     lastMission: '3d ago',
-    missions: 178
+    missions: 178,
+    performance: {
+      cruiseSpeed: 8,
+      climbRate: 3,
+      descentRate: 2,
+      turnPenalty: 1.5,
+      batteryCapacity: 180,
+      hoverPower: 300,
+      cruisePower: 270,
+      reserve: { minReservePercent: 20, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-M1-Zeta',
@@ -212,7 +262,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 267,
     lastMission: '1h ago',
-    missions: 95
+    missions: 95,
+    performance: {
+      cruiseSpeed: 12,
+      climbRate: 4,
+      descentRate: 3,
+      turnPenalty: 2,
+      batteryCapacity: 280,
+      hoverPower: 380,
+      cruisePower: 340,
+      reserve: { minReservePercent: 20, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-D1-Theta',
@@ -224,7 +284,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'East Route',
     flightHours: 189,
     lastMission: '30min ago',
-    missions: 142
+    missions: 142,
+    performance: {
+      cruiseSpeed: 15,
+      climbRate: 4,
+      descentRate: 3,
+      turnPenalty: 2,
+      batteryCapacity: 520,
+      hoverPower: 700,
+      cruisePower: 620,
+      reserve: { minReservePercent: 25, requireRthReserve: true }
+    }
   },
   {
     id: 'UAV-E1-Kappa',
@@ -236,7 +306,17 @@ export const vehiclesData: Vehicle[] = [
     location: 'Base Station',
     flightHours: 312,
     lastMission: '4h ago',
-    missions: 118
+    missions: 118,
+    performance: {
+      cruiseSpeed: 10,
+      climbRate: 3,
+      descentRate: 2,
+      turnPenalty: 2,
+      batteryCapacity: 350,
+      hoverPower: 460,
+      cruisePower: 410,
+      reserve: { minReservePercent: 20, requireRthReserve: true }
+    }
   }
 ]
 
@@ -0,0 +1,101 @@
+/**
+ * Airspace Service
+ * ================
+ * Holds the airspace zones imported this session, so the route and grid
+ * planners draw and check against the same layer.
+ *
+ * Importing a file with the same name again replaces its zones.
+ *
+ * Usage:
+ *   import airspaceService from './services/airspaceService';
+ *
+ *   await airspaceService.importFile(file);
+ *   const unsubscribe = airspaceService.subscribe((zones) => render(zones));
+ */
+
+import { AirspaceZone } from '../types/airspace';
+import { loadAirspaceFile } from '../utils/airspace';
+
+type ZoneListener = (zones: AirspaceZone[]) => void;
+
+// =============================================================================
+// Airspace Service
+// =============================================================================
+
+class AirspaceService {
+  private files: Map<string, AirspaceZone[]> = new Map();
+  private listeners: Set<ZoneListener> = new Set();
+
+  /**
+   * Read an airspace file and add its zones to the layer
+   */
+  async importFile(file: File): Promise<AirspaceZone[]> {
+    try {
+      const zones = await loadAirspaceFile(file);
+      this.files.set(file.name, zones);
+
+      const counts = zones.reduce<Record<string, number>>((acc, zone) => {
+        acc[zone.color] = (acc[zone.color] ?? 0) + 1;
+        return acc;
+      }, {});
+      console.log(`🗺️ Imported ${zones.length} airspace zones from ${file.name}`, counts);
+
+      this.notify();
+      return zones;
+    } catch (error) {
+      console.error('❌ Error importing airspace file:', error);
+      throw error;
+    }
+  }
+
+  removeFile(fileName: string): void {
+    if (this.files.delete(fileName)) this.notify();
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.notify();
+  }
+
+  getZones(): AirspaceZone[] {
+    return Array.from(this.files.values()).flat();
+  }
+
+  getFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  subscribe(listener: ZoneListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getZones());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private notify(): void {
+    const zones = this.getZones();
+    this.listeners.forEach(listener => {
+      try {
+        listener(zones);
+      } catch (error) {
+        console.error('Error in airspace listener:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const airspaceService = new AirspaceService();
+
+export default airspaceService;
+
+export { AirspaceService };
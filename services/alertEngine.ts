@@ -0,0 +1,513 @@
+/**
+ * Alert Engine
+ * ============
+ * Evaluates telemetry alert rules against every vehicle on the live
+ * telemetry streams.
+ *
+ * - Rules are set per vehicle type; types without their own rules use the
+ *   default set. Edited rules are kept in localStorage.
+ * - Threshold rules raise and clear with hysteresis (utils/alertRules);
+ *   mode changes raise an alert that stays until acknowledged.
+ * - An alert left unacknowledged for its rule's escalateAfter steps up a
+ *   severity, until it is critical.
+ * - Every raise, escalation, acknowledgement and clear is kept in a history
+ *   of ALERT_CONFIG.historySize entries.
+ *
+ * Usage:
+ *   import alertEngine from './services/alertEngine';
+ *
+ *   const unsubscribe = alertEngine.subscribe((alerts, history) => render(alerts, history));
+ *   const unwatch = alertEngine.watchTelemetryStreams();
+ *   alertEngine.start();
+ *   alertEngine.acknowledge(alertId);
+ */
+
+import { ALERT_CONFIG } from '../config/missionExecution.config';
+import { vehiclesData } from '../lib/data';
+import {
+  AlertHistoryEntry,
+  AlertHistoryEvent,
+  AlertRule,
+  AlertRuleKind,
+  AlertRuleSets,
+  AlertSeverity,
+  TelemetryAlert,
+} from '../types/alerts';
+import { VehicleTelemetry } from '../types/telemetry';
+import {
+  ALERT_RULE_KINDS,
+  DEFAULT_VEHICLE_TYPE,
+  compareSeverity,
+  createDefaultRules,
+  escalateSeverity,
+  evaluateRule,
+  formatRuleMessage,
+  matchesModeRule,
+  readRuleValue,
+} from '../utils/alertRules';
+import { UNKNOWN_VEHICLE_ID, mergeTelemetry } from '../utils/telemetryAdapters';
+import telemetryConnectionManager from './telemetryConnectionManager';
+
+type AlertListener = (alerts: TelemetryAlert[], history: AlertHistoryEntry[]) => void;
+
+const RULES_STORAGE_KEY = 'skyroutex.alertRules';
+
+interface VehicleState {
+  telemetry: VehicleTelemetry; // every section seen so far, latest values
+  receivedAt: number;
+  peakVoltage?: number;
+  source?: string; // URL of the socket it last arrived on
+}
+
+// =============================================================================
+// Alert Engine
+// =============================================================================
+
+class AlertEngine {
+  private ruleSets: AlertRuleSets | null = null; // loaded on first use
+  private vehicleTypes: Map<string, string> = new Map();
+  private vehicles: Map<string, VehicleState> = new Map();
+  private alerts: Map<string, TelemetryAlert> = new Map();
+  private history: AlertHistoryEntry[] = [];
+  private historySeq = 0;
+  private listeners: Set<AlertListener> = new Set();
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  // ===========================================================================
+  // Rules
+  // ===========================================================================
+
+  /**
+   * Vehicle types rules can be set for, the default set first
+   */
+  getVehicleTypes(): string[] {
+    const types = new Set([...vehiclesData.map(vehicle => vehicle.type), ...Object.keys(this.loadRules())]);
+    types.delete(DEFAULT_VEHICLE_TYPE);
+    return [DEFAULT_VEHICLE_TYPE, ...Array.from(types).sort()];
+  }
+
+  /**
+   * Rules applied to a vehicle type
+   */
+  getRules(vehicleType: string = DEFAULT_VEHICLE_TYPE): AlertRule[] {
+    const ruleSets = this.loadRules();
+    return ruleSets[vehicleType] ?? ruleSets[DEFAULT_VEHICLE_TYPE] ?? createDefaultRules();
+  }
+
+  /**
+   * Whether a vehicle type has its own rules rather than the default set
+   */
+  hasCustomRules(vehicleType: string): boolean {
+    return this.loadRules()[vehicleType] !== undefined;
+  }
+
+  setRules(vehicleType: string, rules: AlertRule[]): void {
+    this.ruleSets = { ...this.loadRules(), [vehicleType]: rules };
+    this.saveRules();
+    console.log(`🔔 Alert rules updated for ${vehicleType}`);
+    this.check();
+  }
+
+  /**
+   * Drop a vehicle type's own rules. Resetting the default set restores the
+   * built-in rules.
+   */
+  resetRules(vehicleType: string): void {
+    const ruleSets = { ...this.loadRules() };
+    delete ruleSets[vehicleType];
+    this.ruleSets = ruleSets;
+    this.saveRules();
+    this.check();
+  }
+
+  /**
+   * Vehicle type a vehicle's rules come from. Vehicles in the vehicle library
+   * default to their library type.
+   */
+  setVehicleType(vehicleId: string, vehicleType: string): void {
+    this.vehicleTypes.set(vehicleId, vehicleType);
+  }
+
+  getVehicleType(vehicleId: string): string {
+    return this.vehicleTypes.get(vehicleId)
+      ?? vehiclesData.find(vehicle => vehicle.id === vehicleId)?.type
+      ?? DEFAULT_VEHICLE_TYPE;
+  }
+
+  // ===========================================================================
+  // Telemetry
+  // ===========================================================================
+
+  /**
+   * Evaluate a telemetry sample. Samples may carry only some sections; the
+   * rest keep their last reported values.
+   */
+  reportTelemetry(data: VehicleTelemetry, source?: string): void {
+    if (data.vehicleId === UNKNOWN_VEHICLE_ID) return;
+
+    const now = Date.now();
+    const previous = this.vehicles.get(data.vehicleId);
+    const telemetry = mergeTelemetry(previous?.telemetry ?? null, data);
+    const voltage = data.battery?.voltage;
+
+    const state: VehicleState = {
+      telemetry,
+      receivedAt: now,
+      peakVoltage: voltage !== undefined ? Math.max(voltage, previous?.peakVoltage ?? 0) : previous?.peakVoltage,
+      source: source ?? previous?.source,
+    };
+    this.vehicles.set(data.vehicleId, state);
+
+    const modeChanged = this.checkModeChange(data.vehicleId, previous?.telemetry.flightMode, data.flightMode, now);
+    const changed = this.evaluateVehicle(data.vehicleId, state, now);
+    if (modeChanged || changed) this.notify();
+  }
+
+  /**
+   * Feed every vehicle on every open telemetry socket into the engine.
+   * Vehicles are forgotten when their socket is closed. Returns the
+   * unsubscribe function.
+   */
+  watchTelemetryStreams(): () => void {
+    const unsubscribeTelemetry = telemetryConnectionManager.subscribeTelemetry(
+      (url, data) => this.reportTelemetry(data, url)
+    );
+    const unsubscribeState = telemetryConnectionManager.subscribeState((url, state) => {
+      if (state !== 'idle') return;
+      this.vehicles.forEach((vehicle, vehicleId) => {
+        if (vehicle.source === url) this.removeVehicle(vehicleId);
+      });
+    });
+
+    return () => {
+      unsubscribeTelemetry();
+      unsubscribeState();
+    };
+  }
+
+  /**
+   * Stop evaluating a vehicle and clear its alerts
+   */
+  removeVehicle(vehicleId: string): void {
+    this.vehicles.delete(vehicleId);
+
+    const now = Date.now();
+    let changed = false;
+    this.alerts.forEach((alert, id) => {
+      if (alert.vehicleId === vehicleId) changed = this.clear(id, now) || changed;
+    });
+    if (changed) this.notify();
+  }
+
+  // ===========================================================================
+  // Monitoring Loop
+  // ===========================================================================
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    console.log('🔔 Alert engine started');
+    this.checkInterval = setInterval(() => this.check(), ALERT_CONFIG.checkInterval);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('🔔 Alert engine stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * Re-evaluate every vehicle, which catches links going stale, and escalate
+   * alerts left unacknowledged
+   */
+  check(now: number = Date.now()): TelemetryAlert[] {
+    let changed = false;
+
+    this.vehicles.forEach((state, vehicleId) => {
+      changed = this.evaluateVehicle(vehicleId, state, now) || changed;
+    });
+
+    this.alerts.forEach((alert, id) => {
+      if (alert.acknowledged || alert.severity === 'critical') return;
+
+      const rule = this.ruleFor(alert.vehicleId, alert.kind);
+      if (!rule?.escalateAfter || now - alert.severityChangedAt < rule.escalateAfter * 1000) return;
+
+      const escalated = { ...alert, severity: escalateSeverity(alert.severity), escalated: true, severityChangedAt: now };
+      console.warn(`⏫ Alert escalated to ${escalated.severity}: ${alert.vehicleId} ${alert.message}`);
+      this.alerts.set(id, escalated);
+      this.record(escalated, 'escalated', now);
+      changed = true;
+    });
+
+    if (changed) this.notify();
+    return this.getAlerts();
+  }
+
+  // ===========================================================================
+  // Alerts
+  // ===========================================================================
+
+  /**
+   * Open alerts, most severe first, then oldest first
+   */
+  getAlerts(): TelemetryAlert[] {
+    return Array.from(this.alerts.values()).sort((a, b) =>
+      compareSeverity(b.severity, a.severity) || a.raisedAt - b.raisedAt
+    );
+  }
+
+  /**
+   * Alert history, newest first
+   */
+  getHistory(): AlertHistoryEntry[] {
+    return this.history;
+  }
+
+  clearHistory(): void {
+    this.history = [];
+    this.notify();
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getAlerts(), this.history);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Acknowledge an alert. Mode change alerts have no clearing condition, so
+   * acknowledging closes them.
+   */
+  acknowledge(alertId: string): void {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.acknowledged) return;
+
+    const now = Date.now();
+    this.record(alert, 'acknowledged', now);
+    if (ALERT_RULE_KINDS[alert.kind].direction === 'change') {
+      this.alerts.delete(alertId);
+    } else {
+      this.alerts.set(alertId, { ...alert, acknowledged: true });
+    }
+    this.notify();
+  }
+
+  acknowledgeAll(): void {
+    const now = Date.now();
+    let changed = false;
+
+    this.alerts.forEach((alert, id) => {
+      if (alert.acknowledged) return;
+      this.record(alert, 'acknowledged', now);
+      if (ALERT_RULE_KINDS[alert.kind].direction === 'change') {
+        this.alerts.delete(id);
+      } else {
+        this.alerts.set(id, { ...alert, acknowledged: true });
+      }
+      changed = true;
+    });
+
+    if (changed) this.notify();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private alertId(vehicleId: string, kind: AlertRuleKind): string {
+    return `${vehicleId}:${kind}`;
+  }
+
+  private ruleFor(vehicleId: string, kind: AlertRuleKind): AlertRule | undefined {
+    return this.getRules(this.getVehicleType(vehicleId)).find(rule => rule.kind === kind);
+  }
+
+  /**
+   * Evaluate a vehicle's threshold rules. Returns whether any alert changed.
+   */
+  private evaluateVehicle(vehicleId: string, state: VehicleState, now: number): boolean {
+    let changed = false;
+
+    this.getRules(this.getVehicleType(vehicleId)).forEach((rule) => {
+      const id = this.alertId(vehicleId, rule.kind);
+      if (!rule.enabled) {
+        changed = this.clear(id, now) || changed;
+        return;
+      }
+      if (ALERT_RULE_KINDS[rule.kind].direction === 'change') return;
+
+      const value = readRuleValue(rule.kind, state.telemetry, {
+        now,
+        receivedAt: state.receivedAt,
+        peakVoltage: state.peakVoltage,
+      });
+      // Without a reading, keep the last state instead of clearing
+      if (value === undefined) return;
+
+      const level = evaluateRule(rule, value, this.alerts.get(id)?.level ?? null);
+      changed = (level === null
+        ? this.clear(id, now)
+        : this.raise(vehicleId, rule.kind, level, formatRuleMessage(rule, value, level), now, value)) || changed;
+    });
+
+    return changed;
+  }
+
+  /**
+   * Raise a mode change alert if the vehicle's mode rule matches the new mode
+   */
+  private checkModeChange(vehicleId: string, from: string | undefined, to: string | undefined, now: number): boolean {
+    if (!from || !to || from === to) return false;
+
+    const rule = this.ruleFor(vehicleId, 'mode_change');
+    if (!rule?.enabled || !matchesModeRule(rule, to)) return false;
+
+    const id = this.alertId(vehicleId, 'mode_change');
+    const alert: TelemetryAlert = {
+      id,
+      vehicleId,
+      kind: 'mode_change',
+      level: rule.severity,
+      severity: rule.severity,
+      escalated: false,
+      message: `Flight mode changed from ${from} to ${to}`,
+      raisedAt: now,
+      updatedAt: now,
+      severityChangedAt: now,
+      acknowledged: false,
+    };
+
+    console.log(`🔔 ${vehicleId}: ${alert.message}`);
+    this.alerts.set(id, alert);
+    this.record(alert, 'raised', now);
+    return true;
+  }
+
+  /**
+   * Open or update a threshold alert. Returns whether anything the UI shows
+   * changed.
+   */
+  private raise(
+    vehicleId: string,
+    kind: AlertRuleKind,
+    level: AlertSeverity,
+    message: string,
+    now: number,
+    value: number
+  ): boolean {
+    const id = this.alertId(vehicleId, kind);
+    const existing = this.alerts.get(id);
+
+    if (!existing || existing.level !== level) {
+      const worse = !existing || compareSeverity(level, existing.level) > 0;
+      if (level === 'critical') {
+        console.error(`🚨 ${vehicleId}: ${message}`);
+      } else {
+        console.warn(`⚠️ ${vehicleId}: ${message}`);
+      }
+
+      const alert: TelemetryAlert = {
+        id,
+        vehicleId,
+        kind,
+        level,
+        severity: level,
+        escalated: false,
+        message,
+        value,
+        raisedAt: existing?.raisedAt ?? now,
+        updatedAt: now,
+        severityChangedAt: now,
+        // A worse level needs a fresh acknowledgement
+        acknowledged: existing ? existing.acknowledged && !worse : false,
+      };
+      this.alerts.set(id, alert);
+      if (worse) this.record(alert, existing ? 'escalated' : 'raised', now);
+      return true;
+    }
+
+    this.alerts.set(id, { ...existing, message, value, updatedAt: now });
+    return existing.message !== message;
+  }
+
+  private clear(alertId: string, now: number): boolean {
+    const alert = this.alerts.get(alertId);
+    if (!alert) return false;
+
+    console.log(`✅ ${alert.vehicleId}: ${ALERT_RULE_KINDS[alert.kind].label} back to normal`);
+    this.alerts.delete(alertId);
+    this.record(alert, 'cleared', now);
+    return true;
+  }
+
+  private record(alert: TelemetryAlert, event: AlertHistoryEvent, at: number): void {
+    this.history = [
+      {
+        id: `${alert.id}:${++this.historySeq}`,
+        alertId: alert.id,
+        vehicleId: alert.vehicleId,
+        kind: alert.kind,
+        severity: alert.severity,
+        event,
+        message: alert.message,
+        at,
+      },
+      ...this.history,
+    ].slice(0, ALERT_CONFIG.historySize);
+  }
+
+  private loadRules(): AlertRuleSets {
+    if (this.ruleSets) return this.ruleSets;
+    this.ruleSets = {};
+    if (typeof window === 'undefined') return this.ruleSets;
+
+    try {
+      const stored = window.localStorage.getItem(RULES_STORAGE_KEY);
+      if (stored) this.ruleSets = JSON.parse(stored) as AlertRuleSets;
+    } catch (error) {
+      console.error('❌ Failed to load alert rules:', error);
+    }
+    return this.ruleSets;
+  }
+
+  private saveRules(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(this.ruleSets ?? {}));
+    } catch (error) {
+      console.error('❌ Failed to save alert rules:', error);
+    }
+  }
+
+  private notify(): void {
+    const alerts = this.getAlerts();
+    this.listeners.forEach(listener => {
+      try {
+        listener(alerts, this.history);
+      } catch (error) {
+        console.error('Error in telemetry alert listener:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const alertEngine = new AlertEngine();
+
+export default alertEngine;
+
+export { AlertEngine };
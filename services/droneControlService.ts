@@ -1,4 +1,11 @@
+import { MissionItem } from '@/types/missionItems'
+import { MAV_MISSION_TYPE } from '@/utils/mavCommands'
+import { VehicleTelemetry } from '@/types/telemetry'
+import { adaptTelemetry } from '@/utils/telemetryAdapters'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+// Drone API that takes mission uploads and flies them
+export const DRONE_API_URL = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000'
 
 /**
  * Interface definitions for API requests and responses
@@ -61,42 +68,46 @@ export interface DroneStatus {
   message: string
 }
 
-export interface TelemetryData {
-  position?: {
-    lat: number
-    lon: number
-    alt: number
-  }
-  velocity?: {
-    vx: number
-    vy: number
-    vz: number
-  }
-  attitude?: {
-    roll: number
-    pitch: number
-    yaw: number
-  }
-  battery?: {
-    voltage: number
-    current: number
-    remaining: number
-  }
-  gps?: {
-    satellites: number
-    fix_type: number
-    hdop: number
-  }
-}
+/**
+ * Called for every vehicle or mission command as it is sent
+ */
+export type CommandListener = (
+  missionId: string | undefined,
+  command: string,
+  params?: Record<string, unknown>
+) => void
 
 /**
  * DroneControlService - Handles all drone control operations
  */
 class DroneControlService {
   private baseUrl: string
+  private droneApiUrl: string
+  private commandListeners: Set<CommandListener> = new Set()
 
   constructor() {
     this.baseUrl = API_BASE_URL
+    this.droneApiUrl = DRONE_API_URL
+  }
+
+  /**
+   * Listen for commands sent through this service. Returns the unsubscribe function.
+   */
+  onCommand(listener: CommandListener): () => void {
+    this.commandListeners.add(listener)
+    return () => {
+      this.commandListeners.delete(listener)
+    }
+  }
+
+  private notifyCommand(missionId: string | undefined, command: string, params?: Record<string, unknown>): void {
+    this.commandListeners.forEach(listener => {
+      try {
+        listener(missionId, command, params)
+      } catch (error) {
+        console.error('Error in command listener:', error)
+      }
+    })
   }
 
   // ============================================================================
@@ -104,10 +115,11 @@ class DroneControlService {
   // ============================================================================
 
   /**
-   * Get current drone status
+   * Get current drone status, for one vehicle when the backend flies several
    */
-  async getStatus(): Promise<DroneStatus> {
-    const response = await fetch(`${this.baseUrl}/status`, {
+  async getStatus(vehicleId?: string): Promise<DroneStatus> {
+    const query = vehicleId ? `?vehicle_id=${encodeURIComponent(vehicleId)}` : ''
+    const response = await fetch(`${this.baseUrl}/status${query}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -124,9 +136,9 @@ class DroneControlService {
   }
 
   /**
-   * Get telemetry data
+   * Get telemetry data, read by the HTTP telemetry adapter
    */
-  async getTelemetry(): Promise<TelemetryData> {
+  async getTelemetry(): Promise<VehicleTelemetry> {
     const response = await fetch(`${this.baseUrl}/telemetry`, {
       method: 'GET',
       headers: {
@@ -139,7 +151,11 @@ class DroneControlService {
       throw new Error(error.detail || 'Failed to get telemetry')
     }
 
-    return response.json()
+    const telemetry = adaptTelemetry(await response.json(), 'http')
+    if (!telemetry) {
+      throw new Error('Unrecognized telemetry payload')
+    }
+    return telemetry
   }
 
   /**
@@ -169,6 +185,7 @@ class DroneControlService {
    * Arm vehicle motors
    */
   async armVehicle(missionId: string, forceArm: boolean = false): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'arm', { force_arm: forceArm })
     const response = await fetch(`${this.baseUrl}/api/v1/vehicle/arm`, {
       method: 'POST',
       headers: {
@@ -192,6 +209,7 @@ class DroneControlService {
    * Disarm vehicle motors
    */
   async disarmVehicle(missionId: string): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'disarm')
     const response = await fetch(`${this.baseUrl}/api/v1/vehicle/disarm`, {
       method: 'POST',
       headers: {
@@ -214,6 +232,7 @@ class DroneControlService {
    * Takeoff to specified altitude
    */
   async takeoff(missionId: string, altitude: number): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'takeoff', { altitude })
     const response = await fetch(`${this.baseUrl}/api/v1/vehicle/takeoff`, {
       method: 'POST',
       headers: {
@@ -237,6 +256,7 @@ class DroneControlService {
    * Land vehicle
    */
   async land(missionId: string): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'land')
     const response = await fetch(`${this.baseUrl}/api/v1/vehicle/land`, {
       method: 'POST',
       headers: {
@@ -259,6 +279,7 @@ class DroneControlService {
    * Return to launch
    */
   async returnToLaunch(missionId: string): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'rtl')
     const response = await fetch(`${this.baseUrl}/api/v1/vehicle/rtl`, {
       method: 'POST',
       headers: {
@@ -285,6 +306,7 @@ class DroneControlService {
    * Start mission execution
    */
   async startMission(missionId: string, forceStart: boolean = false): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'mission_start', { force_start: forceStart })
     const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/start`, {
       method: 'POST',
       headers: {
@@ -307,6 +329,7 @@ class DroneControlService {
    * Pause mission execution
    */
   async pauseMission(missionId: string): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'mission_pause')
     const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/pause`, {
       method: 'POST',
       headers: {
@@ -326,6 +349,7 @@ class DroneControlService {
    * Stop mission execution
    */
   async stopMission(missionId: string, forceStop: boolean = false): Promise<ApiResponse> {
+    this.notifyCommand(missionId, 'mission_stop', { force_stop: forceStop })
     const response = await fetch(`${this.baseUrl}/api/v1/missions/${missionId}/stop`, {
       method: 'POST',
       headers: {
@@ -368,16 +392,30 @@ class DroneControlService {
   // ============================================================================
 
   /**
-   * Upload mission waypoints to vehicle
+   * Upload compiled MAVLink mission items to vehicle. Items are sent as
+   * MISSION_ITEM_INT fields and forwarded by the backend unchanged. The
+   * mission type selects the mission, fence or rally list; an empty list
+   * clears it on the vehicle.
    */
-  async uploadMission(waypoints: Array<{ lat: number; lon: number; alt: number }>): Promise<ApiResponse> {
-    const response = await fetch(`${this.baseUrl}/mission/upload`, {
+  async uploadMission(
+    items: MissionItem[],
+    vehicleId?: string,
+    missionType: number = MAV_MISSION_TYPE.MISSION
+  ): Promise<ApiResponse> {
+    this.notifyCommand(undefined, 'mission_upload', {
+      item_count: items.length,
+      mission_type: missionType,
+      ...(vehicleId && { vehicle_id: vehicleId }),
+    })
+    const response = await fetch(`${this.droneApiUrl}/mission/upload`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        waypoints: waypoints,
+        items: items,
+        mission_type: missionType,
+        ...(vehicleId && { vehicle_id: vehicleId }),
       }),
     })
 
@@ -388,6 +426,61 @@ class DroneControlService {
 
     return response.json()
   }
+
+  // ============================================================================
+  // UPLOADED MISSION CONTROL
+  // ============================================================================
+
+  /**
+   * Start the mission last uploaded to the vehicle. The mission id only ties
+   * the command to its flight recording; the backend flies whatever it holds.
+   */
+  async startUploadedMission(missionId?: string, vehicleId?: string): Promise<ApiResponse> {
+    return this.controlUploadedMission('start', missionId, vehicleId)
+  }
+
+  /**
+   * Pause the uploaded mission
+   */
+  async pauseUploadedMission(missionId?: string, vehicleId?: string): Promise<ApiResponse> {
+    return this.controlUploadedMission('pause', missionId, vehicleId)
+  }
+
+  /**
+   * Resume the uploaded mission
+   */
+  async resumeUploadedMission(missionId?: string, vehicleId?: string): Promise<ApiResponse> {
+    return this.controlUploadedMission('resume', missionId, vehicleId)
+  }
+
+  /**
+   * Stop the uploaded mission
+   */
+  async stopUploadedMission(missionId?: string, vehicleId?: string): Promise<ApiResponse> {
+    return this.controlUploadedMission('stop', missionId, vehicleId)
+  }
+
+  private async controlUploadedMission(
+    action: 'start' | 'pause' | 'resume' | 'stop',
+    missionId?: string,
+    vehicleId?: string
+  ): Promise<ApiResponse> {
+    this.notifyCommand(missionId, `mission_${action}`, vehicleId ? { vehicle_id: vehicleId } : undefined)
+    const response = await fetch(`${this.droneApiUrl}/mission/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      ...(vehicleId && { body: JSON.stringify({ vehicle_id: vehicleId }) }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ detail: `Failed to ${action} mission` }))
+      throw new Error(error.detail || `Failed to ${action} mission`)
+    }
+
+    return response.json()
+  }
 }
 
 // Export singleton instance
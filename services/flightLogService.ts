@@ -0,0 +1,88 @@
+/**
+ * Flight Log Service
+ * Imports PX4 ULog and MAVLink .tlog files and attaches them to missions as
+ * flight recordings, so they can be analyzed and replayed like live flights
+ */
+
+import { FLIGHT_LOG_EXTENSIONS, FlightLog, FlightLogFormat } from '@/types/flightLog';
+import { FLIGHT_RECORDING_VERSION, FlightRecording, FlightRecordingEvent } from '@/types/flightRecording';
+import { VehicleTelemetry } from '@/types/telemetry';
+import { parseTlog } from '@/utils/tlog';
+import { isULog, parseULog } from '@/utils/ulog';
+import { appendEvents, getEvents, isRecordingStoreAvailable, saveRecording } from './flightRecordingStore';
+
+// File input accept list
+export const FLIGHT_LOG_ACCEPT = Object.values(FLIGHT_LOG_EXTENSIONS).join(',');
+
+export interface FlightLogMission {
+  id: string;
+  name?: string;
+  mission?: unknown; // stored with the log, so replay shows the planned route
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function detectFormat(fileName: string, bytes: Uint8Array): FlightLogFormat {
+  if (isULog(bytes)) return 'ulog';
+  if (fileName.toLowerCase().endsWith(FLIGHT_LOG_EXTENSIONS.tlog)) return 'tlog';
+  throw new Error(`${fileName} is not a ULog (.ulg) or MAVLink telemetry log (.tlog)`);
+}
+
+/**
+ * Read a .ulg or .tlog file into the canonical telemetry timeline
+ */
+export async function readFlightLog(file: File): Promise<FlightLog> {
+  const buffer = await file.arrayBuffer();
+  const format = detectFormat(file.name, new Uint8Array(buffer));
+
+  const log = format === 'ulog' ? parseULog(buffer, file.name, file.lastModified) : parseTlog(buffer, file.name);
+  console.log(`📂 Read ${file.name}: ${log.telemetry.length} samples`);
+  return log;
+}
+
+/**
+ * Store a flight log as a recording of the mission
+ */
+export async function attachFlightLog(log: FlightLog, mission: FlightLogMission): Promise<FlightRecording> {
+  if (!isRecordingStoreAvailable()) {
+    throw new Error('Flight logs are stored in IndexedDB, which this browser does not provide');
+  }
+
+  const recording: FlightRecording = {
+    id: `log-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    version: FLIGHT_RECORDING_VERSION,
+    missionId: mission.id,
+    missionName: mission.name,
+    mission: mission.mission,
+    importedFrom: { format: log.format, fileName: log.fileName },
+    vehicleIds: [log.vehicleId],
+    startedAt: log.startedAt,
+    endedAt: log.endedAt,
+    telemetryCount: log.telemetry.length,
+    commandCount: 0,
+    alertCount: 0,
+  };
+
+  const events: FlightRecordingEvent[] = log.telemetry.map((data) => ({
+    kind: 'telemetry',
+    recordingId: recording.id,
+    t: data.timestamp,
+    data,
+  }));
+
+  await appendEvents(events);
+  await saveRecording(recording);
+
+  console.log(`✅ ${log.fileName} attached to mission ${mission.id}`);
+  return recording;
+}
+
+/**
+ * Telemetry timeline of a recording, live or imported
+ */
+export async function getRecordingTelemetry(recordingId: string): Promise<VehicleTelemetry[]> {
+  const events = await getEvents(recordingId);
+  return events.flatMap((event) => (event.kind === 'telemetry' ? [event.data] : []));
+}
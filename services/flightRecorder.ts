@@ -0,0 +1,375 @@
+/**
+ * Flight Recorder
+ * ===============
+ * Persists everything a mission produces to IndexedDB so the flight can be
+ * replayed later:
+ *
+ * - Canonical telemetry, taken from the telemetry connection manager on the
+ *   same socket and topics the live views use.
+ * - Commands sent through droneControlService.
+ * - Geofence alerts raised for the mission's vehicles.
+ * - Alert engine raises, escalations, acknowledgements and clears for the
+ *   mission's vehicles.
+ *
+ * Events are buffered and written once a second. Starting a mission that is
+ * already being recorded joins that recording, moving it to the joining
+ * holder's stream when that differs. Once its last holder stops it, the
+ * recording carries on until the vehicle lands or the stream goes quiet, so
+ * leaving a view mid-flight or falling back to another stream does not cut
+ * the flight short or split it in two. Recordings that captured nothing are
+ * discarded.
+ *
+ * Usage:
+ *   import flightRecorder from './services/flightRecorder';
+ *
+ *   const recordingId = flightRecorder.start({ missionId: '42', transport: 'kafka' });
+ *   ...
+ *   flightRecorder.stop(recordingId);
+ */
+
+import {
+  FLIGHT_RECORDING_VERSION,
+  FlightRecording,
+  FlightRecordingCommand,
+  FlightRecordingEvent,
+} from '../types/flightRecording';
+import { AlertHistoryEntry } from '../types/alerts';
+import { GeofenceAlert } from '../types/geofence';
+import { TelemetryStreamTransport, VehicleTelemetry } from '../types/telemetry';
+import alertEngine from './alertEngine';
+import droneControlService from './droneControlService';
+import {
+  appendEvents,
+  deleteRecording,
+  isRecordingStoreAvailable,
+  saveRecording,
+} from './flightRecordingStore';
+import geofenceMonitor from './geofenceMonitor';
+import telemetryConnectionManager, { TelemetryStreamSource } from './telemetryConnectionManager';
+import { UNKNOWN_VEHICLE_ID } from '../utils/telemetryAdapters';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FlightRecorderOptions {
+  missionId: string;
+  missionName?: string;
+  mission?: unknown; // stored for replay, so the view can show the same plan
+  transport?: TelemetryStreamTransport; // default 'websocket'
+  url?: string;
+  vehicleId?: string;
+}
+
+interface ActiveRecording {
+  recording: FlightRecording;
+  vehicles: Set<string>;
+  holders: number;
+  feed: Pick<FlightRecorderOptions, 'transport' | 'url' | 'vehicleId'> & { source: TelemetryStreamSource };
+  release: () => void;
+  airborne: boolean; // from the latest sample that said so
+  finishTimer: ReturnType<typeof setTimeout> | null; // set once released
+}
+
+type RecorderListener = (active: FlightRecording[]) => void;
+
+const FLUSH_INTERVAL = 1000; // ms
+const RELEASE_GRACE = 5000; // ms a released recording on the ground waits for a holder to rejoin
+const AIRBORNE_IDLE_TIMEOUT = 60000; // ms without telemetry before a released airborne recording is closed
+
+// =============================================================================
+// Flight Recorder
+// =============================================================================
+
+class FlightRecorder {
+  private active: Map<string, ActiveRecording> = new Map();
+  private buffer: FlightRecordingEvent[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private releaseSources: (() => void)[] = [];
+  private alertVersions: Map<string, number> = new Map(); // alert id -> updatedAt last recorded
+  private lastAlertEntry: string | null | undefined; // newest alert engine entry seen; undefined before the first
+  private listeners: Set<RecorderListener> = new Set();
+
+  /**
+   * Start recording a mission. Returns the recording id, or null when the
+   * browser has no IndexedDB.
+   */
+  start(options: FlightRecorderOptions, source: TelemetryStreamSource = telemetryConnectionManager): string | null {
+    if (!isRecordingStoreAvailable()) {
+      console.warn('⚠️ IndexedDB unavailable - flight will not be recorded');
+      return null;
+    }
+
+    const existing = this.findByMission(options.missionId);
+    if (existing) {
+      existing.holders++;
+      if (existing.finishTimer) {
+        clearTimeout(existing.finishTimer);
+        existing.finishTimer = null;
+      }
+      const { feed } = existing;
+      if (
+        feed.source !== source ||
+        feed.transport !== options.transport ||
+        feed.url !== options.url ||
+        feed.vehicleId !== options.vehicleId
+      ) {
+        this.attach(existing, options, source);
+      }
+      return existing.recording.id;
+    }
+
+    const recording: FlightRecording = {
+      id: `rec-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      version: FLIGHT_RECORDING_VERSION,
+      missionId: options.missionId,
+      missionName: options.missionName,
+      mission: options.mission,
+      transport: options.transport ?? 'websocket',
+      vehicleIds: options.vehicleId ? [options.vehicleId] : [],
+      startedAt: Date.now(),
+      telemetryCount: 0,
+      commandCount: 0,
+      alertCount: 0,
+    };
+
+    const entry: ActiveRecording = {
+      recording,
+      vehicles: new Set(recording.vehicleIds),
+      holders: 1,
+      feed: { source },
+      release: () => {},
+      airborne: false,
+      finishTimer: null,
+    };
+    this.attach(entry, options, source);
+
+    this.active.set(recording.id, entry);
+    if (this.active.size === 1) this.startSources();
+
+    console.log(`⏺️ Recording mission ${recording.missionId}: ${recording.id}`);
+    this.notify();
+    return recording.id;
+  }
+
+  /**
+   * Release a recording started with start(). Once its last holder has
+   * stopped, the recording is closed after the vehicle lands or its stream
+   * goes quiet, unless a holder rejoins first.
+   */
+  stop(recordingId: string): void {
+    const entry = this.active.get(recordingId);
+    if (!entry || entry.holders === 0) return;
+
+    entry.holders--;
+    if (entry.holders === 0) this.scheduleFinish(entry);
+  }
+
+  /**
+   * Record a command against a mission's recording. Commands without a
+   * mission go to every active recording.
+   */
+  recordCommand(missionId: string | undefined, command: string, params?: Record<string, unknown>): void {
+    const data: FlightRecordingCommand = { command, params };
+    const t = Date.now();
+
+    this.active.forEach((entry) => {
+      if (missionId !== undefined && entry.recording.missionId !== missionId) return;
+      entry.recording.commandCount++;
+      this.buffer.push({ kind: 'command', recordingId: entry.recording.id, t, data });
+    });
+  }
+
+  isRecording(missionId?: string): boolean {
+    return missionId === undefined ? this.active.size > 0 : this.findByMission(missionId) !== undefined;
+  }
+
+  getActive(): FlightRecording[] {
+    return Array.from(this.active.values()).map((entry) => entry.recording);
+  }
+
+  /**
+   * Listen for recordings starting and stopping
+   */
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getActive());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Record from the stream a holder asked for, leaving the previous one
+   */
+  private attach(entry: ActiveRecording, options: FlightRecorderOptions, source: TelemetryStreamSource): void {
+    entry.release();
+    entry.feed = { source, transport: options.transport, url: options.url, vehicleId: options.vehicleId };
+    entry.release = source.subscribe({
+      transport: options.transport,
+      url: options.url,
+      vehicleId: options.vehicleId,
+      missionId: options.missionId,
+      onTelemetry: (telemetry) => this.recordTelemetry(entry, telemetry),
+    });
+  }
+
+  /**
+   * Close a released recording after its grace period. Telemetry pushes the
+   * deadline back, so an airborne vehicle is recorded until it lands.
+   */
+  private scheduleFinish(entry: ActiveRecording): void {
+    if (entry.finishTimer) clearTimeout(entry.finishTimer);
+    entry.finishTimer = setTimeout(
+      () => {
+        entry.finishTimer = null;
+        this.finish(entry);
+      },
+      entry.airborne ? AIRBORNE_IDLE_TIMEOUT : RELEASE_GRACE
+    );
+  }
+
+  /**
+   * Write the remaining events and close the recording
+   */
+  private async finish(entry: ActiveRecording): Promise<void> {
+    entry.release();
+    this.active.delete(entry.recording.id);
+    if (this.active.size === 0) this.stopSources();
+
+    const { recording } = entry;
+    recording.endedAt = Date.now();
+
+    try {
+      await this.flush();
+      if (recording.telemetryCount + recording.commandCount + recording.alertCount === 0) {
+        await deleteRecording(recording.id);
+        return;
+      }
+      await saveRecording(recording);
+      console.log(`⏹️ Recording saved: ${recording.id} (${recording.telemetryCount} samples)`);
+    } catch (error) {
+      console.error('Error saving flight recording:', error);
+    } finally {
+      this.notify();
+    }
+  }
+
+  private findByMission(missionId: string): ActiveRecording | undefined {
+    return Array.from(this.active.values()).find((entry) => entry.recording.missionId === missionId);
+  }
+
+  private recordTelemetry(entry: ActiveRecording, telemetry: VehicleTelemetry): void {
+    if (telemetry.vehicleId !== UNKNOWN_VEHICLE_ID && !entry.vehicles.has(telemetry.vehicleId)) {
+      entry.vehicles.add(telemetry.vehicleId);
+      entry.recording.vehicleIds = Array.from(entry.vehicles);
+    }
+
+    const airborne = telemetry.flying ?? telemetry.armed;
+    if (airborne !== undefined) entry.airborne = airborne;
+    if (entry.holders === 0) this.scheduleFinish(entry);
+
+    entry.recording.telemetryCount++;
+    this.buffer.push({ kind: 'telemetry', recordingId: entry.recording.id, t: Date.now(), data: telemetry });
+  }
+
+  /**
+   * Record alerts that are new or changed since they were last recorded
+   */
+  private recordAlerts(alerts: GeofenceAlert[]): void {
+    const t = Date.now();
+
+    alerts.forEach((alert) => {
+      if (this.alertVersions.get(alert.id) === alert.updatedAt) return;
+      this.alertVersions.set(alert.id, alert.updatedAt);
+
+      this.active.forEach((entry) => {
+        if (!entry.vehicles.has(alert.vehicleId)) return;
+        entry.recording.alertCount++;
+        this.buffer.push({ kind: 'alert', recordingId: entry.recording.id, t, data: alert });
+      });
+    });
+  }
+
+  /**
+   * Record alert engine history entries added since the last call. The first
+   * call only marks where the history stood when recording began.
+   */
+  private recordTelemetryAlerts(history: AlertHistoryEntry[]): void {
+    const seen = this.lastAlertEntry;
+    this.lastAlertEntry = history[0]?.id ?? null;
+    if (seen === undefined) return;
+
+    const end = history.findIndex((alert) => alert.id === seen);
+    const added = (end === -1 ? history : history.slice(0, end)).slice().reverse();
+
+    added.forEach((alert) => {
+      this.active.forEach((entry) => {
+        if (!entry.vehicles.has(alert.vehicleId)) return;
+        entry.recording.alertCount++;
+        this.buffer.push({ kind: 'telemetry_alert', recordingId: entry.recording.id, t: alert.at, data: alert });
+      });
+    });
+  }
+
+  private startSources(): void {
+    this.releaseSources = [
+      droneControlService.onCommand((missionId, command, params) => this.recordCommand(missionId, command, params)),
+      geofenceMonitor.subscribe((alerts) => this.recordAlerts(alerts)),
+      alertEngine.subscribe((_alerts, history) => this.recordTelemetryAlerts(history)),
+    ];
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => console.error('Error writing flight recording:', error));
+    }, FLUSH_INTERVAL);
+  }
+
+  private stopSources(): void {
+    this.releaseSources.forEach((release) => release());
+    this.releaseSources = [];
+    this.alertVersions.clear();
+    this.lastAlertEntry = undefined;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Write buffered events, and the counts of recordings still in progress
+   */
+  private async flush(): Promise<void> {
+    const events = this.buffer;
+    this.buffer = [];
+
+    await appendEvents(events);
+    if (events.length > 0) {
+      await Promise.all(this.getActive().map((recording) => saveRecording(recording)));
+    }
+  }
+
+  private notify(): void {
+    const active = this.getActive();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(active);
+      } catch (error) {
+        console.error('Error in flight recorder listener:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const flightRecorder = new FlightRecorder();
+
+export default flightRecorder;
+export { FlightRecorder };
@@ -0,0 +1,145 @@
+/**
+ * Flight Recording Store
+ * Persists flight recordings and their events in the browser's IndexedDB
+ */
+
+import { FlightRecording, FlightRecordingEvent } from '@/types/flightRecording';
+
+const DB_NAME = 'jgcs-flight-recordings';
+const DB_VERSION = 1;
+const RECORDINGS = 'recordings';
+const EVENTS = 'events';
+const EVENTS_BY_RECORDING = 'recording_time'; // [recordingId, t]
+
+// ============================================================================
+// Database
+// ============================================================================
+
+let database: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS, { keyPath: 'id' });
+        const events = db.createObjectStore(EVENTS, { autoIncrement: true });
+        events.createIndex(EVENTS_BY_RECORDING, ['recordingId', 't']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+}
+
+const eventRange = (recordingId: string): IDBKeyRange =>
+  IDBKeyRange.bound([recordingId, -Infinity], [recordingId, Infinity]);
+
+/**
+ * IndexedDB is missing during server rendering and in some private modes
+ */
+export function isRecordingStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// ============================================================================
+// Recordings
+// ============================================================================
+
+export async function saveRecording(recording: FlightRecording): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORDINGS, 'readwrite');
+  tx.objectStore(RECORDINGS).put(recording);
+  await completed(tx);
+}
+
+export async function getRecording(id: string): Promise<FlightRecording | null> {
+  const db = await openDatabase();
+  const recording = await promisify<FlightRecording | undefined>(
+    db.transaction(RECORDINGS).objectStore(RECORDINGS).get(id)
+  );
+  return recording ?? null;
+}
+
+/**
+ * Every stored recording, newest first
+ */
+export async function listRecordings(): Promise<FlightRecording[]> {
+  try {
+    const db = await openDatabase();
+    const recordings = await promisify<FlightRecording[]>(
+      db.transaction(RECORDINGS).objectStore(RECORDINGS).getAll()
+    );
+    return recordings.sort((a, b) => b.startedAt - a.startedAt);
+  } catch (error) {
+    console.error('Error listing flight recordings:', error);
+    throw error;
+  }
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([RECORDINGS, EVENTS], 'readwrite');
+    tx.objectStore(RECORDINGS).delete(id);
+
+    const cursorRequest = tx.objectStore(EVENTS).index(EVENTS_BY_RECORDING).openKeyCursor(eventRange(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      tx.objectStore(EVENTS).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+
+    await completed(tx);
+  } catch (error) {
+    console.error('Error deleting flight recording:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Append a batch of events in one transaction
+ */
+export async function appendEvents(events: FlightRecordingEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(EVENTS, 'readwrite');
+  const store = tx.objectStore(EVENTS);
+  events.forEach(event => store.add(event));
+  await completed(tx);
+}
+
+/**
+ * Events of a recording in time order
+ */
+export async function getEvents(recordingId: string): Promise<FlightRecordingEvent[]> {
+  const db = await openDatabase();
+  return promisify<FlightRecordingEvent[]>(
+    db.transaction(EVENTS).objectStore(EVENTS).index(EVENTS_BY_RECORDING).getAll(eventRange(recordingId))
+  );
+}
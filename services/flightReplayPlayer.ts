@@ -0,0 +1,249 @@
+/**
+ * Flight Replay Player
+ * ====================
+ * Plays a flight recording back through the same interface as the telemetry
+ * connection manager, so hooks and views show the recording exactly as they
+ * showed the live stream.
+ *
+ * - Playback at 0.25x to 16x, with pause and seek.
+ * - A consumer that subscribes part way through first receives the recent
+ *   history, so a view mounted after a seek redraws its track.
+ * - Commands, geofence alerts and telemetry alerts are delivered as
+ *   'command', 'alert' and 'telemetry_alert' messages.
+ * - Nothing reaches a vehicle: send() always refuses.
+ *
+ * Usage:
+ *   const player = await FlightReplayPlayer.load(recordingId);
+ *   player.setSpeed(4);
+ *   player.play();
+ *   player.seek(60000);
+ */
+
+import {
+  FLIGHT_RECORDING_VERSION,
+  FlightRecording,
+  FlightRecordingEvent,
+  ReplaySpeed,
+  ReplayState,
+} from '../types/flightRecording';
+import { TelemetryStreamState } from '../types/telemetry';
+import { getEvents, getRecording } from './flightRecordingStore';
+import { TelemetryConsumer, TelemetryStreamSource, telemetryForConsumer } from './telemetryConnectionManager';
+
+type ReplayListener = (state: ReplayState) => void;
+
+const TICK_INTERVAL = 100; // ms
+const HISTORY_SAMPLES = 500; // per vehicle, the length of a view's flight path
+
+// =============================================================================
+// Flight Replay Player
+// =============================================================================
+
+class FlightReplayPlayer implements TelemetryStreamSource {
+  readonly recording: FlightRecording;
+  private events: FlightRecordingEvent[];
+  private consumers: Set<TelemetryConsumer> = new Set();
+  private listeners: Set<ReplayListener> = new Set();
+  private seekListeners: Set<() => void> = new Set();
+  private state: ReplayState;
+  private cursor = 0; // index of the next event to deliver
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  constructor(recording: FlightRecording, events: FlightRecordingEvent[]) {
+    this.recording = recording;
+    this.events = [...events].sort((a, b) => a.t - b.t);
+
+    const end = recording.endedAt ?? this.events[this.events.length - 1]?.t ?? recording.startedAt;
+    this.state = {
+      playing: false,
+      speed: 1,
+      position: 0,
+      duration: Math.max(0, end - recording.startedAt),
+    };
+  }
+
+  /**
+   * Load a stored recording
+   */
+  static async load(recordingId: string): Promise<FlightReplayPlayer> {
+    const recording = await getRecording(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (recording.version !== FLIGHT_RECORDING_VERSION) {
+      throw new Error(`Unsupported recording version ${recording.version}`);
+    }
+    return new FlightReplayPlayer(recording, await getEvents(recordingId));
+  }
+
+  // ===========================================================================
+  // Telemetry Source
+  // ===========================================================================
+
+  subscribe(consumer: TelemetryConsumer): () => void {
+    this.consumers.add(consumer);
+    consumer.onStateChange?.('open');
+    consumer.onMessage?.({ type: 'connection_info', replay: true, recording_id: this.recording.id });
+    this.deliverHistory(consumer);
+
+    return () => {
+      this.consumers.delete(consumer);
+    };
+  }
+
+  getState(): TelemetryStreamState {
+    return 'open';
+  }
+
+  reconnect(): void {
+    // Always connected
+  }
+
+  send(): boolean {
+    console.warn('⚠️ Replay is read-only - command not sent');
+    return false;
+  }
+
+  // ===========================================================================
+  // Playback
+  // ===========================================================================
+
+  getReplayState(): ReplayState {
+    return this.state;
+  }
+
+  /**
+   * Every recorded event, in time order
+   */
+  getEvents(): readonly FlightRecordingEvent[] {
+    return this.events;
+  }
+
+  play(): void {
+    if (this.state.playing) return;
+    if (this.state.position >= this.state.duration) this.seek(0);
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.setState({ playing: true });
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.state.playing) this.setState({ playing: false });
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    this.setState({ speed });
+  }
+
+  /**
+   * Jump to a position (ms since the recording started). Views hold state
+   * built from earlier samples, so seek listeners are expected to remount
+   * them; they then receive the history up to the new position.
+   */
+  seek(position: number): void {
+    const clamped = Math.min(Math.max(position, 0), this.state.duration);
+    const t = this.recording.startedAt + clamped;
+
+    this.cursor = this.events.findIndex((event) => event.t > t);
+    if (this.cursor === -1) this.cursor = this.events.length;
+
+    this.setState({ position: clamped });
+    this.seekListeners.forEach((listener) => listener());
+  }
+
+  subscribeReplay(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onSeek(listener: () => void): () => void {
+    this.seekListeners.add(listener);
+
+    return () => {
+      this.seekListeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.pause();
+    this.consumers.clear();
+    this.listeners.clear();
+    this.seekListeners.clear();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private tick(): void {
+    const now = Date.now();
+    const position = Math.min(this.state.position + (now - this.lastTick) * this.state.speed, this.state.duration);
+    this.lastTick = now;
+
+    const until = this.recording.startedAt + position;
+    while (this.cursor < this.events.length && this.events[this.cursor].t <= until) {
+      const event = this.events[this.cursor++];
+      this.consumers.forEach((consumer) => this.deliver(consumer, event));
+    }
+
+    this.setState({ position });
+    if (position >= this.state.duration) this.pause();
+  }
+
+  private deliver(consumer: TelemetryConsumer, event: FlightRecordingEvent): void {
+    switch (event.kind) {
+      case 'telemetry': {
+        const sample = telemetryForConsumer(consumer, { ...event.data, transport: 'replay' });
+        if (sample) consumer.onTelemetry?.(sample);
+        break;
+      }
+      case 'command':
+        consumer.onMessage?.({ type: 'command', ...event.data, timestamp: event.t });
+        break;
+      case 'alert':
+        consumer.onMessage?.({ type: 'alert', alert: event.data, timestamp: event.t });
+        break;
+      case 'telemetry_alert':
+        consumer.onMessage?.({ type: 'telemetry_alert', alert: event.data, timestamp: event.t });
+        break;
+    }
+  }
+
+  /**
+   * The last HISTORY_SAMPLES telemetry samples per vehicle before the cursor
+   */
+  private deliverHistory(consumer: TelemetryConsumer): void {
+    const counts = new Map<string, number>();
+    const history: FlightRecordingEvent[] = [];
+
+    for (let i = this.cursor - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.kind !== 'telemetry') continue;
+
+      const count = counts.get(event.data.vehicleId) ?? 0;
+      if (count >= HISTORY_SAMPLES) continue;
+      counts.set(event.data.vehicleId, count + 1);
+      history.push(event);
+    }
+
+    history.reverse().forEach((event) => this.deliver(consumer, event));
+  }
+
+  private setState(changes: Partial<ReplayState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+export default FlightReplayPlayer;
+export { FlightReplayPlayer };
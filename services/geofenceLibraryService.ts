@@ -0,0 +1,231 @@
+/**
+ * Geofence Library Service
+ * Stores versioned geofence sets and uploads them to vehicles as MAVLink
+ * fence and rally items
+ */
+
+import {
+  GeofenceSet,
+  GeofenceSetRecord,
+  GeofenceSetVersion,
+  GeofenceSetVersionRecord,
+} from '@/types/geofence';
+import { compileFence, compileRallyPoints } from '@/utils/missionItems';
+import { MAV_MISSION_TYPE } from '@/utils/mavCommands';
+import droneControlService from './droneControlService';
+
+const MISSION_DB_API = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// ============================================================================
+// Record Conversion
+// ============================================================================
+
+const fromRecord = (record: GeofenceSetRecord): GeofenceSet => ({
+  id: record.id,
+  name: record.name,
+  description: record.description,
+  version: record.version,
+  zones: record.zones || [],
+  rallyPoints: record.rally_points || [],
+  assignment: {
+    missionIds: (record.mission_ids || []).map(String),
+    vehicleIds: record.vehicle_ids || [],
+  },
+  changeNote: record.change_note,
+  updatedAt: record.updated_at,
+});
+
+const toRequest = (set: GeofenceSet) => ({
+  name: set.name,
+  description: set.description,
+  zones: set.zones,
+  rally_points: set.rallyPoints,
+  mission_ids: set.assignment.missionIds,
+  vehicle_ids: set.assignment.vehicleIds,
+  change_note: set.changeNote,
+});
+
+async function request<T>(path: string, init: RequestInit, failure: string): Promise<T> {
+  const response = await fetch(`${MISSION_DB_API}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: failure }));
+    throw new Error(error.detail || failure);
+  }
+
+  const result = await response.json();
+  return (result.data ?? result) as T;
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+/**
+ * List the latest version of every geofence set
+ */
+export async function listGeofenceSets(): Promise<GeofenceSet[]> {
+  try {
+    const records = await request<GeofenceSetRecord[]>('/api/geofences', { method: 'GET' }, 'Failed to load geofences');
+    return records.map(fromRecord);
+  } catch (error) {
+    console.error('Error listing geofence sets:', error);
+    throw error;
+  }
+}
+
+/**
+ * Earlier versions of a set, newest first
+ */
+export async function getGeofenceSetVersions(setId: string): Promise<GeofenceSetVersion[]> {
+  try {
+    const records = await request<GeofenceSetVersionRecord[]>(
+      `/api/geofences/${setId}/versions`,
+      { method: 'GET' },
+      'Failed to load geofence versions'
+    );
+    return records
+      .map((record) => ({
+        version: record.version,
+        zones: record.zones || [],
+        rallyPoints: record.rally_points || [],
+        changeNote: record.change_note,
+        updatedAt: record.updated_at,
+      }))
+      .sort((a, b) => b.version - a.version);
+  } catch (error) {
+    console.error('Error loading geofence versions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a set, or save a new version of an existing one
+ */
+export async function saveGeofenceSet(set: GeofenceSet): Promise<GeofenceSet> {
+  try {
+    console.log(`💾 Saving geofence set ${set.name}`);
+
+    const record = await request<GeofenceSetRecord>(
+      set.id ? `/api/geofences/${set.id}` : '/api/geofences',
+      { method: set.id ? 'PUT' : 'POST', body: JSON.stringify(toRequest(set)) },
+      'Failed to save geofence set'
+    );
+
+    console.log(`✅ Geofence set saved: ${record.name} v${record.version}`);
+    return fromRecord(record);
+  } catch (error) {
+    console.error('Error saving geofence set:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save an earlier version's fences and rally points as the newest version
+ */
+export async function restoreGeofenceSetVersion(set: GeofenceSet, version: GeofenceSetVersion): Promise<GeofenceSet> {
+  return saveGeofenceSet({
+    ...set,
+    zones: version.zones,
+    rallyPoints: version.rallyPoints,
+    changeNote: `Restored version ${version.version}`,
+  });
+}
+
+export async function deleteGeofenceSet(setId: string): Promise<void> {
+  try {
+    await request(`/api/geofences/${setId}`, { method: 'DELETE' }, 'Failed to delete geofence set');
+  } catch (error) {
+    console.error('Error deleting geofence set:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sets assigned to a vehicle or to any of the given missions
+ */
+export async function getAssignedGeofenceSets(vehicleId: string, missionIds: string[] = []): Promise<GeofenceSet[]> {
+  const sets = await listGeofenceSets();
+  return sets.filter((set) =>
+    set.assignment.vehicleIds.includes(vehicleId) ||
+    set.assignment.missionIds.some((id) => missionIds.includes(id))
+  );
+}
+
+// ============================================================================
+// Vehicle Upload
+// ============================================================================
+
+/**
+ * Replace the vehicle's fence and rally lists with the union of the given
+ * sets, so the autopilot enforces them without a ground link
+ */
+export async function uploadGeofencesToVehicle(
+  sets: GeofenceSet[],
+  vehicleId: string
+): Promise<{
+  success: boolean;
+  fenceItemCount?: number;
+  rallyItemCount?: number;
+  error?: string;
+}> {
+  try {
+    const fenceItems = compileFence(sets.flatMap((set) => set.zones));
+    const rallyItems = compileRallyPoints(sets.flatMap((set) => set.rallyPoints));
+    console.log(`📤 Uploading ${fenceItems.length} fence and ${rallyItems.length} rally items to ${vehicleId}`);
+
+    const fence = await droneControlService.uploadMission(fenceItems, vehicleId, MAV_MISSION_TYPE.FENCE);
+    if (!fence.success) {
+      throw new Error(fence.error || fence.message || 'Failed to upload fence');
+    }
+
+    const rally = await droneControlService.uploadMission(rallyItems, vehicleId, MAV_MISSION_TYPE.RALLY);
+    if (!rally.success) {
+      throw new Error(rally.error || rally.message || 'Failed to upload rally points');
+    }
+
+    console.log(`✅ Geofences uploaded to ${vehicleId}`);
+    return { success: true, fenceItemCount: fenceItems.length, rallyItemCount: rallyItems.length };
+  } catch (error) {
+    console.error('❌ Error uploading geofences:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Upload the sets assigned to a vehicle or to the missions it is about to
+ * fly. Called on every launch: with no sets assigned, the empty lists clear
+ * whatever fence and rally points an earlier mission left on the vehicle.
+ */
+export async function uploadAssignedGeofences(
+  vehicleId: string,
+  missionIds: string[] = []
+): Promise<{
+  success: boolean;
+  setCount?: number;
+  fenceItemCount?: number;
+  rallyItemCount?: number;
+  error?: string;
+}> {
+  let sets: GeofenceSet[];
+  try {
+    sets = await getAssignedGeofenceSets(vehicleId, missionIds);
+  } catch (error) {
+    console.error('❌ Error loading assigned geofences:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  const result = await uploadGeofencesToVehicle(sets, vehicleId);
+  return { ...result, setCount: sets.length };
+}
@@ -0,0 +1,336 @@
+/**
+ * Geofence Monitor
+ * ================
+ * Checks the live position of every reporting vehicle against the active
+ * geofence zones on a fixed interval.
+ *
+ * - Predicted breach: the vehicle is clear now but its velocity carries it
+ *   into a violation within the prediction horizon (GEOFENCE_CONFIG).
+ * - Breach: the vehicle is violating a zone now.
+ *
+ * Responses (RTL or hold) are never sent automatically; the UI asks the
+ * operator to confirm and then calls respond().
+ *
+ * Usage:
+ *   import geofenceMonitor from './services/geofenceMonitor';
+ *
+ *   geofenceMonitor.setZones(zones);
+ *   const unsubscribe = geofenceMonitor.subscribe((alerts) => render(alerts));
+ *   geofenceMonitor.start();
+ *   geofenceMonitor.reportFix({ vehicleId, lat, lon, alt, timestamp: Date.now() });
+ */
+
+import { GEOFENCE_CONFIG } from '../config/missionExecution.config';
+import {
+  GeofenceAlert,
+  GeofenceAlertLevel,
+  BreachResponse,
+  GeofenceViolation,
+  GeofenceZone,
+  VehicleFix,
+} from '../types/geofence';
+import { VehicleTelemetry } from '../types/telemetry';
+import { checkFix, estimateVelocity, isInsideZone } from '../utils/geofence';
+import droneControlService, { ApiResponse } from './droneControlService';
+import kafkaTelemetryService from './kafkaTelemetryService';
+
+type AlertListener = (alerts: GeofenceAlert[]) => void;
+
+// =============================================================================
+// Geofence Monitor
+// =============================================================================
+
+class GeofenceMonitor {
+  private zones: GeofenceZone[] = [];
+  private fixes: Map<string, VehicleFix> = new Map();
+  private entered: Map<string, Set<string>> = new Map();
+  private alerts: Map<string, GeofenceAlert> = new Map();
+  private listeners: Set<AlertListener> = new Set();
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  // ===========================================================================
+  // Configuration
+  // ===========================================================================
+
+  /**
+   * Replace the zones being enforced. Alerts for removed zones are dropped.
+   */
+  setZones(zones: GeofenceZone[]): void {
+    this.zones = zones;
+
+    const zoneIds = new Set(zones.map(zone => zone.id));
+    let changed = false;
+    this.alerts.forEach((alert, id) => {
+      if (!zoneIds.has(alert.zoneId)) {
+        this.alerts.delete(id);
+        changed = true;
+      }
+    });
+    if (changed) this.notify();
+  }
+
+  getZones(): GeofenceZone[] {
+    return this.zones;
+  }
+
+  // ===========================================================================
+  // Vehicle Positions
+  // ===========================================================================
+
+  /**
+   * Record the latest position of a vehicle. Without a reported velocity it
+   * is estimated from the previous fix.
+   */
+  reportFix(fix: VehicleFix): void {
+    const previous = this.fixes.get(fix.vehicleId);
+    const hasVelocity = fix.vn !== undefined || fix.ve !== undefined;
+
+    if (!hasVelocity && previous && fix.timestamp - previous.timestamp <= GEOFENCE_CONFIG.staleFixTimeout) {
+      this.fixes.set(fix.vehicleId, { ...fix, ...estimateVelocity(previous, fix) });
+      return;
+    }
+    this.fixes.set(fix.vehicleId, fix);
+  }
+
+  /**
+   * Record a position from a telemetry sample
+   */
+  reportTelemetry(data: VehicleTelemetry): void {
+    if (!data.position) return;
+
+    this.reportFix({
+      vehicleId: data.vehicleId,
+      lat: data.position.lat,
+      lon: data.position.lon,
+      alt: data.position.alt,
+      vn: data.velocity?.vn,
+      ve: data.velocity?.ve,
+      vd: data.velocity?.vd,
+      timestamp: data.timestamp,
+    });
+  }
+
+  /**
+   * Feed every vehicle on the Kafka telemetry stream into the monitor,
+   * connecting if needed. Returns the unsubscribe function.
+   */
+  watchKafkaTelemetry(): () => void {
+    return kafkaTelemetryService.subscribe({
+      onTelemetry: (data: VehicleTelemetry) => this.reportTelemetry(data),
+    });
+  }
+
+  /**
+   * Stop checking a vehicle and clear its alerts
+   */
+  removeVehicle(vehicleId: string): void {
+    this.fixes.delete(vehicleId);
+    this.entered.delete(vehicleId);
+    this.alerts.forEach((alert, id) => {
+      if (alert.vehicleId === vehicleId) this.alerts.delete(id);
+    });
+    this.notify();
+  }
+
+  // ===========================================================================
+  // Monitoring Loop
+  // ===========================================================================
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    console.log(`🛡️ Geofence monitor started (${this.zones.length} zones)`);
+    this.checkInterval = setInterval(() => this.check(), GEOFENCE_CONFIG.violationCheckInterval);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('🛡️ Geofence monitor stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * Evaluate every vehicle with a recent fix and update the open alerts
+   */
+  check(now: number = Date.now()): GeofenceAlert[] {
+    let changed = false;
+
+    this.fixes.forEach((fix) => {
+      // Without fresh data, keep the last state instead of clearing alerts
+      if (now - fix.timestamp > GEOFENCE_CONFIG.staleFixTimeout) return;
+
+      const entered = this.updateEntered(fix);
+      const zones = this.zones.filter(zone => !zone.vehicleIds || zone.vehicleIds.includes(fix.vehicleId));
+      const result = checkFix(fix, zones, {
+        horizon: GEOFENCE_CONFIG.predictionHorizon,
+        step: GEOFENCE_CONFIG.predictionStep,
+        entered,
+      });
+
+      const open = new Set<string>();
+      result.breaches.forEach((violation) => {
+        open.add(this.alertId(fix.vehicleId, violation.zoneId));
+        changed = this.raise(fix, violation, 'breach', now) || changed;
+      });
+      if (GEOFENCE_CONFIG.enableWarnings) {
+        result.predicted.forEach((violation) => {
+          open.add(this.alertId(fix.vehicleId, violation.zoneId));
+          changed = this.raise(fix, violation, 'predicted', now, violation.timeToBreach) || changed;
+        });
+      }
+
+      this.alerts.forEach((alert, id) => {
+        if (alert.vehicleId === fix.vehicleId && !open.has(id)) {
+          console.log(`✅ ${fix.vehicleId} clear of ${alert.zoneName}`);
+          this.alerts.delete(id);
+          changed = true;
+        }
+      });
+    });
+
+    if (changed) this.notify();
+    return this.getAlerts();
+  }
+
+  // ===========================================================================
+  // Alerts
+  // ===========================================================================
+
+  getAlerts(): GeofenceAlert[] {
+    return Array.from(this.alerts.values()).sort((a, b) => {
+      if (a.level !== b.level) return a.level === 'breach' ? -1 : 1;
+      return a.raisedAt - b.raisedAt;
+    });
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getAlerts());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  acknowledge(alertId: string): void {
+    const alert = this.alerts.get(alertId);
+    if (alert && !alert.acknowledged) {
+      this.alerts.set(alertId, { ...alert, acknowledged: true });
+      this.notify();
+    }
+  }
+
+  /**
+   * Send the operator-confirmed response for a vehicle's alerts
+   */
+  async respond(vehicleId: string, response: BreachResponse, missionId: string): Promise<ApiResponse> {
+    console.log(`🛡️ Geofence response for ${vehicleId}: ${response === 'rtl' ? 'RTL' : 'hold'}`);
+
+    try {
+      const result = response === 'rtl'
+        ? await droneControlService.returnToLaunch(missionId)
+        : await droneControlService.pauseMission(missionId);
+
+      this.alerts.forEach((alert, id) => {
+        if (alert.vehicleId === vehicleId) {
+          this.alerts.set(id, { ...alert, response, acknowledged: true });
+        }
+      });
+      this.notify();
+      return result;
+    } catch (error) {
+      console.error('❌ Geofence response failed:', error);
+      throw error;
+    }
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private alertId(vehicleId: string, zoneId: string): string {
+    return `${vehicleId}:${zoneId}`;
+  }
+
+  /**
+   * Arm-on-entry zones the vehicle has been inside
+   */
+  private updateEntered(fix: VehicleFix): Set<string> {
+    const entered = this.entered.get(fix.vehicleId) ?? new Set<string>();
+    this.zones.forEach((zone) => {
+      if (zone.armOnEntry && isInsideZone(zone, { lat: fix.lat, lng: fix.lon })) {
+        entered.add(zone.id);
+      }
+    });
+    this.entered.set(fix.vehicleId, entered);
+    return entered;
+  }
+
+  /**
+   * Open or update an alert. Returns whether anything the UI shows changed.
+   */
+  private raise(
+    fix: VehicleFix,
+    violation: GeofenceViolation,
+    level: GeofenceAlertLevel,
+    now: number,
+    timeToBreach?: number
+  ): boolean {
+    const id = this.alertId(fix.vehicleId, violation.zoneId);
+    const existing = this.alerts.get(id);
+    const position = { lat: fix.lat, lon: fix.lon, alt: fix.alt };
+
+    if (!existing || existing.level !== level) {
+      if (level === 'breach') {
+        console.error(`🚨 Geofence breach: ${fix.vehicleId} ${violation.reason} ${violation.zoneName}`);
+      } else {
+        console.warn(`⚠️ Predicted geofence breach: ${fix.vehicleId} ${violation.reason} ${violation.zoneName} in ${timeToBreach}s`);
+      }
+
+      this.alerts.set(id, {
+        ...violation,
+        id,
+        vehicleId: fix.vehicleId,
+        level,
+        timeToBreach,
+        position,
+        raisedAt: existing?.raisedAt ?? now,
+        updatedAt: now,
+        // An escalation to breach needs a fresh acknowledgement
+        acknowledged: existing ? existing.acknowledged && level === 'predicted' : false,
+        response: existing?.response,
+      });
+      return true;
+    }
+
+    this.alerts.set(id, { ...existing, ...violation, timeToBreach, position, updatedAt: now });
+    return existing.timeToBreach !== timeToBreach || existing.reason !== violation.reason;
+  }
+
+  private notify(): void {
+    const alerts = this.getAlerts();
+    this.listeners.forEach(listener => {
+      try {
+        listener(alerts);
+      } catch (error) {
+        console.error('Error in geofence alert listener:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const geofenceMonitor = new GeofenceMonitor();
+
+export default geofenceMonitor;
+
+export { GeofenceMonitor };
@@ -9,7 +9,15 @@ import {
   GeofenceCreateRequest,
   GeofenceResponse,
   ObstacleZone,
+  GridSortie,
+  GridMissionPlan,
 } from '../types/gridMission';
+import { MissionItem } from '../types/missionItems';
+import { AirspacePermissionRecord } from '../types/airspace';
+import { VehicleTelemetry } from '../types/telemetry';
+import { compileMission, sortieToMissionActions } from '../utils/missionItems';
+import { adaptTelemetry } from '../utils/telemetryAdapters';
+import droneControlService from './droneControlService';
 
 // API Configuration
 const DRONE_CONTROL_API = process.env.NEXT_PUBLIC_DRONE_API_URL || 'http://localhost:7000';
@@ -37,6 +45,9 @@ export async function saveGridMissionToDatabase(params: {
   coverageArea: number;
   gridSpacing: number;
   altitude: number;
+  vehicleId?: string;
+  airspacePermissions?: AirspacePermissionRecord[];
+  obstacles?: ObstacleZone[]; // checked by the geofence monitor while the mission flies
 }): Promise<{ success: boolean; missionId?: number; error?: string }> {
   try {
     const payload = {
@@ -56,8 +67,10 @@ export async function saveGridMissionToDatabase(params: {
       waypoints: params.waypoints,
       created_by: 'grid_planner',
       notes: `Grid survey with ${params.waypoints.length} waypoints, ${params.gridSpacing}m spacing, coverage ${params.coverageArea.toFixed(2)} km²`,
-      vehicle_id: 'UAV-GRID-001',
-      operator_id: 'operator-001'
+      vehicle_id: params.vehicleId || 'UAV-GRID-001',
+      operator_id: 'operator-001',
+      airspace_permissions: params.airspacePermissions ?? [],
+      obstacles: params.obstacles ?? []
     };
 
     console.log('💾 Saving mission to database:', payload);
@@ -147,6 +160,193 @@ export async function getMissionFromDatabase(missionId: number): Promise<any> {
   }
 }
 
+// ============================================================================
+// Sortie Operations
+// ============================================================================
+
+/**
+ * Save one sortie as a child mission of a saved grid mission
+ */
+export async function saveSortieToDatabase(params: {
+  sortie: GridSortie;
+  parentMissionId: string;
+  parentName: string;
+  totalSorties: number;
+  vehicleId?: string;
+}): Promise<{ success: boolean; missionId?: string; error?: string }> {
+  const { sortie, parentMissionId, parentName, totalSorties } = params;
+
+  try {
+    const payload = {
+      mission_name: `${parentName} — Sortie ${sortie.index + 1}/${totalSorties}`,
+      mission_type: 'Grid Survey',
+      corridor: {
+        value: 'survey',
+        label: 'Survey Mission',
+        color: '#3b82f6',
+        description: 'Grid-based area survey mission'
+      },
+      mission_stats: {
+        total_distance: sortie.totalDistance,
+        flight_time: sortie.estimatedFlightTime,
+        battery_usage: sortie.estimatedBatteryUsage
+      },
+      waypoints: sortie.waypoints.map((wp, index) => ({
+        id: `wp-${index}`,
+        label: wp.isTransit ? `Transit ${index + 1}` : `Line ${wp.lineIndex + 1} · Waypoint ${index + 1}`,
+        coords: `${wp.position.lat.toFixed(6)}° N, ${wp.position.lon.toFixed(6)}° E`,
+        alt: `${wp.position.alt.toFixed(0)}m AGL`,
+        color: wp.isTransit ? 'bg-slate-500' : 'bg-blue-500',
+        lat: wp.position.lat,
+        lon: wp.position.lon
+      })),
+      created_by: 'grid_planner',
+      notes: `Sortie ${sortie.index + 1} of ${totalSorties}, grid lines ${sortie.lineIndices[0] + 1}–${sortie.lineIndices[sortie.lineIndices.length - 1] + 1}`,
+      vehicle_id: params.vehicleId || null,
+      operator_id: 'operator-001',
+      parent_mission_id: parentMissionId,
+      sortie_index: sortie.index
+    };
+
+    console.log('💾 Saving sortie to database:', payload.mission_name);
+
+    const response = await fetch(`${MISSION_DB_API}/api/missions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.detail || 'Failed to save sortie');
+    }
+
+    const savedMission = await response.json();
+    console.log('✅ Sortie saved to database:', savedMission);
+
+    return {
+      success: true,
+      missionId: savedMission.id.toString()
+    };
+  } catch (error) {
+    console.error('❌ Error saving sortie to database:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Upload a sortie (including transit legs) to the vehicle as MAVLink mission
+ * items, with camera triggering, gimbal and speed commands from its plan
+ */
+export async function uploadSortieToVehicle(
+  sortie: GridSortie,
+  plan: GridMissionPlan,
+  cruiseSpeed?: number,
+  vehicleId?: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    console.log(`📤 Uploading sortie ${sortie.index + 1} (${sortie.waypoints.length} waypoints)`);
+
+    const items = compileMission(sortieToMissionActions(sortie, plan, { cruiseSpeed }));
+    const result = await droneControlService.uploadMission(items, vehicleId);
+
+    if (!result.success) {
+      throw new Error(result.error || result.message || 'Failed to upload sortie');
+    }
+
+    console.log('✅ Sortie uploaded:', result);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error uploading sortie:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Upload missions to several vehicles, then start them together. The fleet
+ * splits one area between its vehicles, so it launches whole or not at all:
+ * nothing starts when an upload fails, and vehicles that did start are stopped
+ * again when another fails to start. `started` marks vehicles left flying.
+ */
+export async function launchFleetMissions(
+  launches: Array<{
+    vehicleId: string;
+    missionId: string;
+    items: MissionItem[];
+  }>
+): Promise<Array<{ vehicleId: string; success: boolean; started: boolean; error?: string }>> {
+  console.log(`🚀 Launching ${launches.length} vehicles`);
+
+  const reason = (result: PromiseRejectedResult) =>
+    result.reason instanceof Error ? result.reason.message : 'Unknown error';
+
+  const uploads = await Promise.allSettled(
+    launches.map(launch => droneControlService.uploadMission(launch.items, launch.vehicleId))
+  );
+  const failedUploads = launches.filter((_, index) => uploads[index].status === 'rejected');
+  if (failedUploads.length > 0) {
+    const names = failedUploads.map(launch => launch.vehicleId).join(', ');
+    console.error(`❌ Upload failed for ${names}; fleet not started`);
+    return launches.map((launch, index) => {
+      const upload = uploads[index];
+      return {
+        vehicleId: launch.vehicleId,
+        success: false,
+        started: false,
+        error: upload.status === 'rejected' ? reason(upload) : `Not started: upload failed for ${names}`,
+      };
+    });
+  }
+
+  const starts = await Promise.allSettled(
+    launches.map(launch => droneControlService.startUploadedMission(launch.missionId, launch.vehicleId))
+  );
+  const failedStarts = launches.filter((_, index) => starts[index].status === 'rejected');
+  if (failedStarts.length === 0) {
+    launches.forEach(launch => console.log(`✅ ${launch.vehicleId} started`));
+    return launches.map(launch => ({ vehicleId: launch.vehicleId, success: true, started: true }));
+  }
+
+  // Stop the vehicles that did start, so the fleet is not left half launched
+  const names = failedStarts.map(launch => launch.vehicleId).join(', ');
+  console.error(`❌ Start failed for ${names}; stopping the rest of the fleet`);
+  const stops = await Promise.allSettled(
+    launches.map((launch, index) =>
+      starts[index].status === 'fulfilled'
+        ? droneControlService.stopUploadedMission(launch.missionId, launch.vehicleId)
+        : Promise.resolve(null)
+    )
+  );
+
+  return launches.map((launch, index) => {
+    const start = starts[index];
+    const stop = stops[index];
+    if (start.status === 'rejected') {
+      return { vehicleId: launch.vehicleId, success: false, started: false, error: reason(start) };
+    }
+    if (stop.status === 'rejected') {
+      return {
+        vehicleId: launch.vehicleId,
+        success: false,
+        started: true,
+        error: `Still flying: start failed for ${names} and the stop failed (${reason(stop)})`,
+      };
+    }
+    return { vehicleId: launch.vehicleId, success: false, started: false, error: `Stopped: start failed for ${names}` };
+  });
+}
+
 // ============================================================================
 // Drone Control API Operations (Port 8000 - Gazebo/PX4 Control)
 // ============================================================================
@@ -599,7 +799,7 @@ export async function getDroneStatus(): Promise<any> {
 /**
  * Get current telemetry
  */
-export async function getTelemetry(): Promise<any> {
+export async function getTelemetry(): Promise<VehicleTelemetry> {
   try {
     const response = await fetch(`${DRONE_CONTROL_API}/telemetry`, {
       method: 'GET',
@@ -612,7 +812,11 @@ export async function getTelemetry(): Promise<any> {
       throw new Error('Failed to get telemetry');
     }
 
-    return await response.json();
+    const telemetry = adaptTelemetry(await response.json(), 'http');
+    if (!telemetry) {
+      throw new Error('Unrecognized telemetry payload');
+    }
+    return telemetry;
   } catch (error) {
     console.error('Error getting telemetry:', error);
     throw error;
@@ -5,6 +5,8 @@
  * 
  * Since browsers cannot connect directly to Kafka, this service connects to
  * a WebSocket proxy (kafka_ws_proxy.py) that bridges Kafka topics to WebSocket.
+ * The socket itself is owned by the shared telemetry connection manager, or
+ * by a flight replay player when reviewing a recording.
  * 
  * Usage:
  *   import kafkaTelemetryService from './services/kafkaTelemetryService';
@@ -20,7 +22,6 @@
  */
 
 import {
-  TelemetryData,
   VehicleStatus,
   WebSocketMessage,
   ClientAction,
@@ -30,6 +31,8 @@ import {
   DEFAULT_KAFKA_CONFIG,
   ConnectionInfoMessage,
 } from '../types/kafka.types';
+import { TelemetryStreamState } from '../types/telemetry';
+import telemetryConnectionManager, { TelemetryStreamSource } from './telemetryConnectionManager';
 
 // =============================================================================
 // Event Emitter for Multiple Subscribers
@@ -77,13 +80,12 @@ class EventEmitter {
 
 class KafkaTelemetryService {
   private config: KafkaServiceConfig;
-  private ws: WebSocket | null = null;
+  private source: TelemetryStreamSource;
   private events = new EventEmitter();
+  private stream: (() => void) | null = null;
+  private streamState: TelemetryStreamState = 'idle';
   private reconnectAttempts = 0;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
-  private pingInterval: NodeJS.Timeout | null = null;
-  private clientId: string;
-  private subscribedVehicles: Set<string> = new Set();
+  private vehicleSubscriptions: Map<string, () => void> = new Map();
   
   // Statistics tracking
   private messageCount = 0;
@@ -91,9 +93,9 @@ class KafkaTelemetryService {
   private messagesInLastSecond = 0;
   private messageRateInterval: NodeJS.Timeout | null = null;
 
-  constructor(config: Partial<KafkaServiceConfig> = {}) {
+  constructor(config: Partial<KafkaServiceConfig> = {}, source: TelemetryStreamSource = telemetryConnectionManager) {
     this.config = { ...DEFAULT_KAFKA_CONFIG, ...config };
-    this.clientId = config.clientId || `jgcs-ui-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    this.source = source;
   }
 
   // ===========================================================================
@@ -101,31 +103,27 @@ class KafkaTelemetryService {
   // ===========================================================================
 
   /**
-   * Connect to the Kafka WebSocket proxy
+   * Connect to the Kafka WebSocket proxy. The socket is shared with every
+   * other consumer of the same URL through the telemetry connection manager.
    */
   connect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      console.warn('⚠️ Already connected to Kafka WebSocket');
-      return;
-    }
-
-    if (this.ws?.readyState === WebSocket.CONNECTING) {
-      console.warn('⚠️ Connection already in progress');
+    if (this.stream) {
+      if (this.streamState === 'failed') {
+        this.source.reconnect('kafka', this.config.wsUrl);
+      } else {
+        console.warn('⚠️ Already connected to Kafka WebSocket');
+      }
       return;
     }
 
-    try {
-      const url = `${this.config.wsUrl}?client_id=${encodeURIComponent(this.clientId)}`;
-      console.log(`🔌 Connecting to Kafka WebSocket: ${url}`);
-      
-      this.ws = new WebSocket(url);
-      this.setupWebSocketHandlers();
-      
-    } catch (error) {
-      console.error('❌ Failed to create WebSocket:', error);
-      this.events.emit('error', error);
-      this.scheduleReconnect();
-    }
+    this.stream = this.source.subscribe({
+      transport: 'kafka',
+      url: this.config.wsUrl,
+      onTelemetry: (telemetry) => this.events.emit('telemetry', telemetry),
+      onMessage: (message) => this.handleMessage(message as WebSocketMessage),
+      onStateChange: (state) => this.handleStateChange(state),
+    });
+    this.startMessageRateTracking();
   }
 
   /**
@@ -136,10 +134,14 @@ class KafkaTelemetryService {
     
     this.clearTimers();
     this.reconnectAttempts = 0;
-    
-    if (this.ws) {
-      this.ws.close(1000, 'Client disconnect');
-      this.ws = null;
+    this.streamState = 'idle';
+
+    this.vehicleSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.vehicleSubscriptions.clear();
+
+    if (this.stream) {
+      this.stream();
+      this.stream = null;
     }
     
     this.events.emit('disconnect', 'Manual disconnect');
@@ -149,7 +151,7 @@ class KafkaTelemetryService {
    * Check if connected
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.stream !== null && this.streamState === 'open';
   }
 
   // ===========================================================================
@@ -160,11 +162,12 @@ class KafkaTelemetryService {
    * Subscribe to a specific vehicle's telemetry
    */
   subscribeVehicle(vehicleId: string): void {
-    this.subscribedVehicles.add(vehicleId);
-    
-    if (this.isConnected()) {
-      this.send({ action: 'subscribe', vehicle_id: vehicleId });
-    }
+    if (this.vehicleSubscriptions.has(vehicleId)) return;
+
+    this.vehicleSubscriptions.set(
+      vehicleId,
+      this.source.subscribe({ transport: 'kafka', url: this.config.wsUrl, vehicleId })
+    );
     
     console.log(`📡 Subscribed to vehicle: ${vehicleId}`);
   }
@@ -173,11 +176,11 @@ class KafkaTelemetryService {
    * Unsubscribe from a vehicle's telemetry
    */
   unsubscribeVehicle(vehicleId: string): void {
-    this.subscribedVehicles.delete(vehicleId);
-    
-    if (this.isConnected()) {
-      this.send({ action: 'unsubscribe', vehicle_id: vehicleId });
-    }
+    const unsubscribe = this.vehicleSubscriptions.get(vehicleId);
+    if (!unsubscribe) return;
+
+    unsubscribe();
+    this.vehicleSubscriptions.delete(vehicleId);
     
     console.log(`📡 Unsubscribed from vehicle: ${vehicleId}`);
   }
@@ -186,7 +189,7 @@ class KafkaTelemetryService {
    * Get list of subscribed vehicles
    */
   getSubscribedVehicles(): string[] {
-    return Array.from(this.subscribedVehicles);
+    return Array.from(this.vehicleSubscriptions.keys());
   }
 
   // ===========================================================================
@@ -219,7 +222,7 @@ class KafkaTelemetryService {
     }
 
     // Auto-connect if not connected
-    if (!this.isConnected()) {
+    if (!this.stream) {
       this.connect();
     }
 
@@ -264,44 +267,22 @@ class KafkaTelemetryService {
   // Private Methods
   // ===========================================================================
 
-  private setupWebSocketHandlers(): void {
-    if (!this.ws) return;
+  private handleStateChange(state: TelemetryStreamState): void {
+    const previous = this.streamState;
+    this.streamState = state;
 
-    this.ws.onopen = () => {
-      console.log('✅ Kafka WebSocket connected');
+    if (state === 'open') {
       this.reconnectAttempts = 0;
-      this.startPingInterval();
-      this.startMessageRateTracking();
-      
-      // Re-subscribe to vehicles
-      this.subscribedVehicles.forEach(vehicleId => {
-        this.send({ action: 'subscribe', vehicle_id: vehicleId });
-      });
-    };
-
-    this.ws.onmessage = (event: MessageEvent) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        this.handleMessage(message);
-      } catch (error) {
-        console.error('❌ Failed to parse WebSocket message:', error);
-      }
-    };
-
-    this.ws.onerror = (event: Event) => {
-      console.error('❌ Kafka WebSocket error:', event);
-      this.events.emit('error', new Error('WebSocket error'));
-    };
+    } else if (state === 'reconnecting') {
+      this.reconnectAttempts++;
+      this.events.emit('reconnecting', this.reconnectAttempts);
+    } else if (state === 'failed') {
+      this.events.emit('error', new Error('Max reconnection attempts reached'));
+    }
 
-    this.ws.onclose = (event: CloseEvent) => {
-      console.log(`🔌 Kafka WebSocket closed (Code: ${event.code}, Reason: ${event.reason})`);
-      this.clearTimers();
-      this.events.emit('disconnect', event.reason || 'Connection closed');
-      
-      if (this.config.autoReconnect && event.code !== 1000) {
-        this.scheduleReconnect();
-      }
-    };
+    if (previous === 'open' && state !== 'open') {
+      this.events.emit('disconnect', 'Connection closed');
+    }
   }
 
   private handleMessage(message: WebSocketMessage): void {
@@ -316,9 +297,7 @@ class KafkaTelemetryService {
         break;
 
       case 'telemetry_update':
-        if (message.data) {
-          this.events.emit('telemetry', message.data as TelemetryData);
-        }
+        // Adapted and emitted by the connection manager
         break;
 
       case 'status_update':
@@ -344,7 +323,6 @@ class KafkaTelemetryService {
         break;
 
       case 'error':
-        console.error('❌ Server error:', message.message);
         this.events.emit('error', new Error(message.message || 'Server error'));
         break;
 
@@ -354,55 +332,19 @@ class KafkaTelemetryService {
   }
 
   private send(action: ClientAction): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(action));
-    } else {
+    if (!this.source.send('kafka', action, this.config.wsUrl)) {
       console.warn('⚠️ Cannot send - WebSocket not connected');
     }
   }
 
-  private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= (this.config.maxReconnectAttempts || 10)) {
-      console.error('❌ Max reconnection attempts reached');
-      this.events.emit('error', new Error('Max reconnection attempts reached'));
-      return;
-    }
-
-    this.reconnectAttempts++;
-    const delay = Math.min(
-      (this.config.reconnectInterval || 3000) * Math.pow(1.5, this.reconnectAttempts - 1),
-      30000
-    );
-
-    console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${this.reconnectAttempts})`);
-    this.events.emit('reconnecting', this.reconnectAttempts);
-
-    this.reconnectTimeout = setTimeout(() => {
-      this.connect();
-    }, delay);
-  }
-
-  private startPingInterval(): void {
-    this.pingInterval = setInterval(() => {
-      this.send({ action: 'ping' });
-    }, this.config.pingInterval || 30000);
-  }
-
   private startMessageRateTracking(): void {
+    if (this.messageRateInterval) return;
     this.messageRateInterval = setInterval(() => {
       this.messagesInLastSecond = 0;
     }, 1000);
   }
 
   private clearTimers(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
-    }
     if (this.messageRateInterval) {
       clearInterval(this.messageRateInterval);
       this.messageRateInterval = null;
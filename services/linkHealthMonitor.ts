@@ -0,0 +1,350 @@
+/**
+ * Link Health Monitor
+ * ===================
+ * Tracks how fresh and how complete each vehicle's telemetry is, so a vehicle
+ * whose data stops or falls behind is noticed even while its socket stays
+ * open.
+ *
+ * - Age: time since the newest sample's own timestamp. A socket that keeps
+ *   delivering old or repeated samples ages like one delivering nothing.
+ * - Latency: smoothed receive time minus send time. Assumes the vehicle and
+ *   browser clocks agree; jitter does not, as the offset cancels out.
+ * - Sequence gaps and loss: from the payload's message counter, when the
+ *   transport sends one. A counter that drops back is taken as a restart.
+ * - Heartbeat loss: heartbeats missed since the last one, once a vehicle has
+ *   sent any.
+ *
+ * A link is lost after LINK_HEALTH_CONFIG.lostAge without new data, and
+ * degraded while data is late or any other measurement is past its limit.
+ * Listeners hear about state changes at once and about everything else on
+ * each check.
+ *
+ * Usage:
+ *   import linkHealthMonitor from './services/linkHealthMonitor';
+ *
+ *   const unsubscribe = linkHealthMonitor.subscribe((links) => render(links));
+ *   const unwatch = linkHealthMonitor.watchTelemetryStreams();
+ *   linkHealthMonitor.start();
+ *   linkHealthMonitor.reportTelemetry(telemetry); // samples from outside the streams
+ */
+
+import { LINK_HEALTH_CONFIG } from '../config/missionExecution.config';
+import { LinkState, VehicleLinkHealth } from '../types/linkHealth';
+import { Position, VehicleTelemetry } from '../types/telemetry';
+import { UNKNOWN_VEHICLE_ID } from '../utils/telemetryAdapters';
+import telemetryConnectionManager from './telemetryConnectionManager';
+
+type LinkHealthListener = (links: VehicleLinkHealth[]) => void;
+
+// Weight of each new transit time in the smoothed latency, as for TCP's SRTT
+const LATENCY_GAIN = 1 / 8;
+
+// RFC 3550 jitter gain
+const JITTER_GAIN = 1 / 16;
+
+interface Arrival {
+  at: number; // epoch ms received
+  missing: number; // messages skipped in the sequence just before this one
+}
+
+interface VehicleLinkState {
+  source?: string; // URL of the socket it last arrived on
+  firstReceivedAt: number;
+  lastReceivedAt: number;
+  lastSampleAt: number;
+  arrivals: Arrival[]; // within LINK_HEALTH_CONFIG.window
+  latency?: number;
+  jitter?: number;
+  lastTransit?: number; // receive minus send time of the previous sample
+  lastSequence?: number;
+  sequenced: boolean; // the transport numbers its messages
+  sequenceGaps: number;
+  lostMessages: number;
+  lastHeartbeatAt?: number;
+  lastPosition?: Position;
+  heading?: number;
+  health: VehicleLinkHealth;
+}
+
+// =============================================================================
+// Link Health Monitor
+// =============================================================================
+
+class LinkHealthMonitor {
+  private vehicles: Map<string, VehicleLinkState> = new Map();
+  private listeners: Set<LinkHealthListener> = new Set();
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  // ===========================================================================
+  // Telemetry Intake
+  // ===========================================================================
+
+  /**
+   * Record a sample's arrival. Samples adapted without link details count as
+   * received now and sent at their timestamp.
+   */
+  reportTelemetry(data: VehicleTelemetry, source?: string): void {
+    const vehicleId = data.vehicleId || UNKNOWN_VEHICLE_ID;
+    const receivedAt = data.link?.receivedAt ?? Date.now();
+    const sentAt = data.link?.sentAt ?? data.timestamp;
+
+    let vehicle = this.vehicles.get(vehicleId);
+    const added = !vehicle;
+    if (!vehicle) {
+      vehicle = {
+        firstReceivedAt: receivedAt,
+        lastReceivedAt: receivedAt,
+        lastSampleAt: sentAt,
+        arrivals: [],
+        sequenced: false,
+        sequenceGaps: 0,
+        lostMessages: 0,
+        health: this.emptyHealth(vehicleId, receivedAt, sentAt),
+      };
+      this.vehicles.set(vehicleId, vehicle);
+    }
+
+    vehicle.source = source ?? vehicle.source;
+    vehicle.lastReceivedAt = Math.max(vehicle.lastReceivedAt, receivedAt);
+    vehicle.lastSampleAt = Math.max(vehicle.lastSampleAt, sentAt);
+    vehicle.arrivals.push({ at: receivedAt, missing: this.trackSequence(vehicle, data.link?.sequence) });
+    this.trackTiming(vehicle, data.link?.sentAt !== undefined ? receivedAt - data.link.sentAt : undefined);
+
+    if (data.link?.heartbeat) vehicle.lastHeartbeatAt = receivedAt;
+    if (data.position) vehicle.lastPosition = { ...data.position };
+    if (data.heading !== undefined) vehicle.heading = data.heading;
+
+    // Only a new vehicle or a change of state is worth a render between checks
+    const changed = this.remeasure(vehicleId, vehicle, Math.max(Date.now(), receivedAt));
+    if (added || changed) this.notify();
+  }
+
+  /**
+   * Track every vehicle on the app's telemetry sockets. A vehicle is dropped
+   * when its socket is closed on purpose. Returns the stop function.
+   */
+  watchTelemetryStreams(): () => void {
+    const unsubscribeTelemetry = telemetryConnectionManager.subscribeTelemetry(
+      (url, data) => this.reportTelemetry(data, url)
+    );
+    const unsubscribeState = telemetryConnectionManager.subscribeState((url, state) => {
+      if (state !== 'idle') return;
+      this.vehicles.forEach((vehicle, vehicleId) => {
+        if (vehicle.source === url) this.removeVehicle(vehicleId);
+      });
+    });
+
+    return () => {
+      unsubscribeTelemetry();
+      unsubscribeState();
+    };
+  }
+
+  removeVehicle(vehicleId: string): void {
+    if (this.vehicles.delete(vehicleId)) this.notify();
+  }
+
+  // ===========================================================================
+  // Monitoring Loop
+  // ===========================================================================
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    console.log('📡 Link health monitor started');
+    this.checkInterval = setInterval(() => this.check(), LINK_HEALTH_CONFIG.checkInterval);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('📡 Link health monitor stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * Re-measure every vehicle, which catches links going quiet, and drop
+   * vehicles lost for LINK_HEALTH_CONFIG.forgetAfter
+   */
+  check(now: number = Date.now()): VehicleLinkHealth[] {
+    const tracked = this.vehicles.size;
+
+    this.vehicles.forEach((vehicle, vehicleId) => {
+      if (now - vehicle.lastReceivedAt > LINK_HEALTH_CONFIG.forgetAfter) {
+        console.log(`📡 Forgetting ${vehicleId}: no telemetry for ${Math.round((now - vehicle.lastReceivedAt) / 1000)} s`);
+        this.vehicles.delete(vehicleId);
+        return;
+      }
+      this.remeasure(vehicleId, vehicle, now);
+    });
+
+    if (tracked > 0) this.notify();
+    return this.getAll();
+  }
+
+  // ===========================================================================
+  // Link Health
+  // ===========================================================================
+
+  getHealth(vehicleId: string): VehicleLinkHealth | undefined {
+    return this.vehicles.get(vehicleId)?.health;
+  }
+
+  /**
+   * Every tracked vehicle, worst link first
+   */
+  getAll(): VehicleLinkHealth[] {
+    const rank: Record<LinkState, number> = { lost: 0, degraded: 1, healthy: 2 };
+    return Array.from(this.vehicles.values())
+      .map(vehicle => vehicle.health)
+      .sort((a, b) => rank[a.state] - rank[b.state] || a.vehicleId.localeCompare(b.vehicleId));
+  }
+
+  subscribe(listener: LinkHealthListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getAll());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private emptyHealth(vehicleId: string, receivedAt: number, sentAt: number): VehicleLinkHealth {
+    return {
+      vehicleId,
+      state: 'healthy',
+      reasons: [],
+      lastReceivedAt: receivedAt,
+      lastSampleAt: sentAt,
+      age: 0,
+      messageRate: 0,
+      sequenceGaps: 0,
+      lostMessages: 0,
+    };
+  }
+
+  /**
+   * Messages skipped before this one. Repeats and restarts skip none.
+   */
+  private trackSequence(vehicle: VehicleLinkState, sequence: number | undefined): number {
+    if (sequence === undefined) return 0;
+
+    const last = vehicle.lastSequence;
+    vehicle.sequenced = true;
+    if (last !== undefined && sequence === last) return 0;
+    vehicle.lastSequence = sequence;
+    if (last === undefined || sequence < last || sequence === last + 1) return 0;
+
+    const missing = sequence - last - 1;
+    vehicle.sequenceGaps++;
+    vehicle.lostMessages += missing;
+    return missing;
+  }
+
+  /**
+   * Fold a sample's transit time (receive minus send) into latency and jitter
+   */
+  private trackTiming(vehicle: VehicleLinkState, transit: number | undefined): void {
+    if (transit === undefined) return;
+
+    vehicle.latency = vehicle.latency === undefined ? transit : vehicle.latency + (transit - vehicle.latency) * LATENCY_GAIN;
+    if (vehicle.lastTransit !== undefined) {
+      const delta = Math.abs(transit - vehicle.lastTransit);
+      vehicle.jitter = (vehicle.jitter ?? 0) + (delta - (vehicle.jitter ?? 0)) * JITTER_GAIN;
+    }
+    vehicle.lastTransit = transit;
+  }
+
+  /**
+   * Refresh a vehicle's health, returning whether its state changed
+   */
+  private remeasure(vehicleId: string, vehicle: VehicleLinkState, now: number): boolean {
+    const previous = vehicle.health.state;
+    vehicle.health = this.measure(vehicleId, vehicle, now);
+    if (vehicle.health.state === previous) return false;
+
+    const { state, reasons } = vehicle.health;
+    const message = `📡 Link to ${vehicleId} ${state}${reasons.length > 0 ? `: ${reasons.join(', ')}` : ''}`;
+    if (state === 'healthy') console.log(message);
+    else console.warn(message);
+    return true;
+  }
+
+  private measure(vehicleId: string, vehicle: VehicleLinkState, now: number): VehicleLinkHealth {
+    const config = LINK_HEALTH_CONFIG;
+
+    const windowStart = now - config.window;
+    vehicle.arrivals = vehicle.arrivals.filter(arrival => arrival.at > windowStart);
+    const received = vehicle.arrivals.length;
+    const missing = vehicle.arrivals.reduce((sum, arrival) => sum + arrival.missing, 0);
+    const span = Math.min(config.window, Math.max(now - vehicle.firstReceivedAt, config.checkInterval));
+
+    const age = Math.max(0, now - vehicle.lastSampleAt);
+    const latency = vehicle.latency !== undefined ? Math.max(0, vehicle.latency) : undefined;
+    const lossPercent = vehicle.sequenced && received + missing > 0 ? (missing / (received + missing)) * 100 : undefined;
+    const heartbeatAge = vehicle.lastHeartbeatAt !== undefined ? Math.max(0, now - vehicle.lastHeartbeatAt) : undefined;
+    const heartbeatsMissed = heartbeatAge !== undefined ? Math.floor(heartbeatAge / config.heartbeatInterval) : undefined;
+
+    const reasons: string[] = [];
+    if (age >= config.degradedAge) reasons.push(`No new data for ${(age / 1000).toFixed(0)} s`);
+    if (latency !== undefined && latency > config.maxLatency) reasons.push(`Latency ${latency.toFixed(0)} ms`);
+    if (vehicle.jitter !== undefined && vehicle.jitter > config.maxJitter) reasons.push(`Jitter ${vehicle.jitter.toFixed(0)} ms`);
+    if (lossPercent !== undefined && lossPercent > config.maxLossPercent) reasons.push(`${lossPercent.toFixed(0)}% of messages lost`);
+    if (heartbeatsMissed !== undefined && heartbeatsMissed >= config.maxMissedHeartbeats) {
+      reasons.push(`${heartbeatsMissed} heartbeats missed`);
+    }
+
+    let state: LinkState = 'healthy';
+    if (age >= config.lostAge) state = 'lost';
+    else if (reasons.length > 0) state = 'degraded';
+
+    return {
+      vehicleId,
+      state,
+      reasons,
+      lastReceivedAt: vehicle.lastReceivedAt,
+      lastSampleAt: vehicle.lastSampleAt,
+      age,
+      latency,
+      jitter: vehicle.jitter,
+      messageRate: (received * 1000) / span,
+      sequenceGaps: vehicle.sequenceGaps,
+      lostMessages: vehicle.lostMessages,
+      lossPercent,
+      heartbeatAge,
+      heartbeatsMissed,
+      lastPosition: vehicle.lastPosition,
+      heading: vehicle.heading,
+    };
+  }
+
+  private notify(): void {
+    const links = this.getAll();
+    this.listeners.forEach(listener => {
+      try {
+        listener(links);
+      } catch (error) {
+        console.error('Error in link health listener:', error);
+      }
+    });
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const linkHealthMonitor = new LinkHealthMonitor();
+
+export default linkHealthMonitor;
+
+export { LinkHealthMonitor };
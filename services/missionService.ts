@@ -242,6 +242,7 @@ const transformMissionData = (data: any) => {
     notes: data.notes || '',
     vehicle_id: data.vehicleId || data.vehicle_id,
     operator_id: data.operatorId || data.operator_id,
+    airspace_permissions: data.airspacePermissions || data.airspace_permissions || [],
   }
 }
 
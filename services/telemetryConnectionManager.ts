@@ -0,0 +1,390 @@
+/**
+ * Telemetry Connection Manager
+ * ============================
+ * Owns every telemetry socket in the app. Views subscribe to a transport,
+ * optionally narrowed to a vehicle or mission, instead of opening their own
+ * WebSocket.
+ *
+ * - One socket per URL, opened by its first consumer.
+ * - Vehicle and mission subscriptions are ref-counted: the server sees one
+ *   subscribe per topic, and an unsubscribe only when its last consumer leaves.
+ * - A socket stays open for WEBSOCKET_CONFIG.lingerTime after its last
+ *   consumer leaves, so navigating between pages reuses the stream.
+ * - Dropped sockets reconnect with backoff and resubscribe their topics.
+ *
+ * Usage:
+ *   import telemetryConnectionManager from './services/telemetryConnectionManager';
+ *
+ *   const unsubscribe = telemetryConnectionManager.subscribe({
+ *     transport: 'kafka',
+ *     vehicleId: 'vehicle-1',
+ *     onTelemetry: (telemetry) => render(telemetry),
+ *   });
+ */
+
+import { WEBSOCKET_CONFIG } from '../config/missionExecution.config';
+import {
+  TelemetryStreamMessage,
+  TelemetryStreamState,
+  TelemetryStreamTransport,
+  VehicleTelemetry,
+} from '../types/telemetry';
+import { UNKNOWN_VEHICLE_ID, adaptTelemetry } from '../utils/telemetryAdapters';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TelemetryConsumer {
+  transport?: TelemetryStreamTransport; // default 'websocket'
+  url?: string; // default from WEBSOCKET_CONFIG for the transport
+  vehicleId?: string;
+  missionId?: string;
+  onTelemetry?: (telemetry: VehicleTelemetry) => void;
+  onMessage?: (message: TelemetryStreamMessage) => void; // every message, as received
+  onStateChange?: (state: TelemetryStreamState) => void;
+}
+
+/**
+ * What views need from a telemetry source. The connection manager is the
+ * live source; a flight replay player stands in for it during review.
+ */
+export interface TelemetryStreamSource {
+  subscribe(consumer: TelemetryConsumer): () => void;
+  getState(transport?: TelemetryStreamTransport, url?: string): TelemetryStreamState;
+  reconnect(transport?: TelemetryStreamTransport, url?: string): void;
+  send(transport: TelemetryStreamTransport, action: object, url?: string): boolean;
+}
+
+interface ManagedSocket {
+  url: string;
+  transport: TelemetryStreamTransport;
+  ws: WebSocket | null;
+  state: TelemetryStreamState;
+  consumers: Set<TelemetryConsumer>;
+  topics: Map<string, number>; // topic key -> consumer count
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  lingerTimer: ReturnType<typeof setTimeout> | null;
+  pingTimer: ReturnType<typeof setInterval> | null;
+}
+
+type StateListener = (url: string, state: TelemetryStreamState) => void;
+type TelemetryListener = (url: string, telemetry: VehicleTelemetry) => void;
+
+// Message types that carry vehicle state
+const TELEMETRY_MESSAGES = new Set(['telemetry_update', 'telemetry', 'status_update']);
+
+const DEFAULT_URLS: Record<TelemetryStreamTransport, string> = {
+  websocket: WEBSOCKET_CONFIG.telemetryUrl,
+  kafka: WEBSOCKET_CONFIG.kafkaUrl,
+};
+
+/**
+ * The sample as a consumer should see it, or null if the consumer filters it
+ * out. Untagged samples are read as the consumer's vehicle.
+ */
+export function telemetryForConsumer(
+  consumer: TelemetryConsumer,
+  telemetry: VehicleTelemetry,
+  missionId?: unknown
+): VehicleTelemetry | null {
+  if (
+    consumer.vehicleId &&
+    telemetry.vehicleId !== UNKNOWN_VEHICLE_ID &&
+    telemetry.vehicleId !== consumer.vehicleId
+  ) return null;
+  if (consumer.missionId && missionId !== undefined && String(missionId) !== consumer.missionId) return null;
+
+  return telemetry.vehicleId === UNKNOWN_VEHICLE_ID && consumer.vehicleId
+    ? { ...telemetry, vehicleId: consumer.vehicleId }
+    : telemetry;
+}
+
+// =============================================================================
+// Telemetry Connection Manager
+// =============================================================================
+
+class TelemetryConnectionManager implements TelemetryStreamSource {
+  private sockets: Map<string, ManagedSocket> = new Map();
+  private stateListeners: Set<StateListener> = new Set();
+  private telemetryListeners: Set<TelemetryListener> = new Set();
+
+  /**
+   * Start receiving telemetry, connecting if needed. Returns the unsubscribe
+   * function.
+   */
+  subscribe(consumer: TelemetryConsumer): () => void {
+    const socket = this.getSocket(consumer);
+    socket.consumers.add(consumer);
+
+    if (socket.lingerTimer) {
+      clearTimeout(socket.lingerTimer);
+      socket.lingerTimer = null;
+    }
+    this.topicsOf(consumer).forEach((topic) => this.addTopic(socket, topic));
+
+    if (!socket.ws && socket.state !== 'reconnecting') {
+      socket.reconnectAttempts = 0;
+      this.connect(socket); // reports the new state to every consumer
+    } else {
+      consumer.onStateChange?.(socket.state);
+    }
+
+    return () => {
+      if (!socket.consumers.delete(consumer)) return;
+      this.topicsOf(consumer).forEach((topic) => this.removeTopic(socket, topic));
+
+      if (socket.consumers.size === 0) {
+        socket.lingerTimer = setTimeout(() => this.close(socket), WEBSOCKET_CONFIG.lingerTime);
+      }
+    };
+  }
+
+  /**
+   * Connection state of the socket a transport (or URL) resolves to
+   */
+  getState(transport: TelemetryStreamTransport = 'websocket', url?: string): TelemetryStreamState {
+    return this.sockets.get(url ?? DEFAULT_URLS[transport])?.state ?? 'idle';
+  }
+
+  /**
+   * Listen for state changes on every socket
+   */
+  subscribeState(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for telemetry on every socket, unfiltered. Does not open a socket.
+   */
+  subscribeTelemetry(listener: TelemetryListener): () => void {
+    this.telemetryListeners.add(listener);
+    return () => {
+      this.telemetryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reconnect a socket that gave up after too many attempts
+   */
+  reconnect(transport: TelemetryStreamTransport = 'websocket', url?: string): void {
+    const socket = this.sockets.get(url ?? DEFAULT_URLS[transport]);
+    if (!socket || socket.ws) return;
+
+    socket.reconnectAttempts = 0;
+    this.connect(socket);
+  }
+
+  /**
+   * Send a client action on an open socket. Returns false if it is not open.
+   */
+  send(transport: TelemetryStreamTransport, action: object, url?: string): boolean {
+    const socket = this.sockets.get(url ?? DEFAULT_URLS[transport]);
+    if (socket?.ws?.readyState !== WebSocket.OPEN) return false;
+
+    socket.ws.send(JSON.stringify(action));
+    return true;
+  }
+
+  /**
+   * URLs with an open or pending socket, with their consumer counts
+   */
+  getSockets(): { url: string; transport: TelemetryStreamTransport; state: TelemetryStreamState; consumers: number }[] {
+    return Array.from(this.sockets.values()).map((socket) => ({
+      url: socket.url,
+      transport: socket.transport,
+      state: socket.state,
+      consumers: socket.consumers.size,
+    }));
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private getSocket(consumer: TelemetryConsumer): ManagedSocket {
+    const transport = consumer.transport ?? 'websocket';
+    const url = consumer.url ?? DEFAULT_URLS[transport];
+
+    let socket = this.sockets.get(url);
+    if (!socket) {
+      socket = {
+        url,
+        transport,
+        ws: null,
+        state: 'idle',
+        consumers: new Set(),
+        topics: new Map(),
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+        lingerTimer: null,
+        pingTimer: null,
+      };
+      this.sockets.set(url, socket);
+    }
+    return socket;
+  }
+
+  private topicsOf(consumer: TelemetryConsumer): string[] {
+    const topics: string[] = [];
+    if (consumer.vehicleId) topics.push(`vehicle_id:${consumer.vehicleId}`);
+    if (consumer.missionId) topics.push(`mission_id:${consumer.missionId}`);
+    return topics;
+  }
+
+  private topicAction(action: 'subscribe' | 'unsubscribe', topic: string): Record<string, string> {
+    const [key, ...rest] = topic.split(':');
+    return { action, [key]: rest.join(':') };
+  }
+
+  private addTopic(socket: ManagedSocket, topic: string): void {
+    const count = socket.topics.get(topic) ?? 0;
+    socket.topics.set(topic, count + 1);
+    if (count === 0) this.sendOn(socket, this.topicAction('subscribe', topic));
+  }
+
+  private removeTopic(socket: ManagedSocket, topic: string): void {
+    const count = socket.topics.get(topic) ?? 0;
+    if (count <= 1) {
+      socket.topics.delete(topic);
+      this.sendOn(socket, this.topicAction('unsubscribe', topic));
+    } else {
+      socket.topics.set(topic, count - 1);
+    }
+  }
+
+  private sendOn(socket: ManagedSocket, action: object): void {
+    if (socket.ws?.readyState === WebSocket.OPEN) {
+      socket.ws.send(JSON.stringify(action));
+    }
+  }
+
+  private connect(socket: ManagedSocket): void {
+    this.setState(socket, socket.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    try {
+      console.log(`🔌 Connecting to telemetry socket: ${socket.url}`);
+      const ws = new WebSocket(socket.url);
+      socket.ws = ws;
+
+      ws.onopen = () => {
+        console.log(`✅ Telemetry socket connected: ${socket.url}`);
+        socket.reconnectAttempts = 0;
+        this.setState(socket, 'open');
+
+        socket.topics.forEach((_, topic) => this.sendOn(socket, this.topicAction('subscribe', topic)));
+        socket.pingTimer = setInterval(
+          () => this.sendOn(socket, { action: 'ping' }),
+          WEBSOCKET_CONFIG.pingInterval
+        );
+      };
+
+      ws.onmessage = (event: MessageEvent) => {
+        try {
+          this.dispatch(socket, JSON.parse(event.data));
+        } catch (error) {
+          console.error('❌ Failed to parse telemetry message:', error);
+        }
+      };
+
+      ws.onerror = () => {
+        console.error(`❌ Telemetry socket error: ${socket.url}`);
+      };
+
+      ws.onclose = (event: CloseEvent) => {
+        console.log(`🔌 Telemetry socket closed: ${socket.url} (Code: ${event.code})`);
+        this.clearPing(socket);
+        socket.ws = null;
+
+        if (socket.consumers.size > 0) {
+          this.scheduleReconnect(socket);
+        } else {
+          this.setState(socket, 'idle');
+        }
+      };
+    } catch (error) {
+      console.error('❌ Failed to create telemetry socket:', error);
+      socket.ws = null;
+      this.scheduleReconnect(socket);
+    }
+  }
+
+  private scheduleReconnect(socket: ManagedSocket): void {
+    if (socket.reconnectAttempts >= WEBSOCKET_CONFIG.maxReconnectAttempts) {
+      console.error(`❌ Max reconnection attempts reached: ${socket.url}`);
+      this.setState(socket, 'failed');
+      return;
+    }
+
+    socket.reconnectAttempts++;
+    const delay = Math.min(
+      WEBSOCKET_CONFIG.reconnectInterval * Math.pow(1.5, socket.reconnectAttempts - 1),
+      30000
+    );
+    console.log(`🔄 Reconnecting in ${delay}ms (Attempt ${socket.reconnectAttempts}): ${socket.url}`);
+    this.setState(socket, 'reconnecting');
+
+    socket.reconnectTimer = setTimeout(() => {
+      socket.reconnectTimer = null;
+      this.connect(socket);
+    }, delay);
+  }
+
+  private close(socket: ManagedSocket): void {
+    if (socket.consumers.size > 0) return;
+
+    if (socket.reconnectTimer) clearTimeout(socket.reconnectTimer);
+    this.clearPing(socket);
+    socket.ws?.close(1000);
+    socket.ws = null;
+    this.sockets.delete(socket.url);
+    this.setState(socket, 'idle');
+  }
+
+  private clearPing(socket: ManagedSocket): void {
+    if (socket.pingTimer) {
+      clearInterval(socket.pingTimer);
+      socket.pingTimer = null;
+    }
+  }
+
+  private dispatch(socket: ManagedSocket, message: TelemetryStreamMessage): void {
+    if (message.type === 'error') console.error('❌ Telemetry server error:', message.message);
+    socket.consumers.forEach((consumer) => consumer.onMessage?.(message));
+
+    const isTelemetry = TELEMETRY_MESSAGES.has(message.type) ||
+      (message.type === undefined && (message.position !== undefined || message.vehicle_id !== undefined));
+    if (!isTelemetry) return;
+
+    const telemetry = adaptTelemetry(message, socket.transport);
+    if (!telemetry) return;
+
+    this.telemetryListeners.forEach((listener) => listener(socket.url, telemetry));
+
+    const missionId = message.mission_id ?? (message.data as Record<string, unknown> | undefined)?.mission_id;
+    socket.consumers.forEach((consumer) => {
+      const sample = telemetryForConsumer(consumer, telemetry, missionId);
+      if (sample) consumer.onTelemetry?.(sample);
+    });
+  }
+
+  private setState(socket: ManagedSocket, state: TelemetryStreamState): void {
+    if (socket.state === state) return;
+    socket.state = state;
+    socket.consumers.forEach((consumer) => consumer.onStateChange?.(state));
+    this.stateListeners.forEach((listener) => listener(socket.url, state));
+  }
+}
+
+// =============================================================================
+// Singleton Export
+// =============================================================================
+
+const telemetryConnectionManager = new TelemetryConnectionManager();
+
+export default telemetryConnectionManager;
+export { TelemetryConnectionManager };
@@ -0,0 +1,75 @@
+/**
+ * Airspace Types
+ * Regulatory zones imported from Digital Sky, OpenAIP and GeoJSON files, and
+ * the conflicts a planned route has with them
+ */
+
+import { LatLngPoint } from './gridMission';
+
+// ============================================================================
+// Zones
+// ============================================================================
+
+/**
+ * Digital Sky zone colours: green needs no permission, yellow needs an ATC
+ * or authority permission, red is prohibited without central government approval
+ */
+export type AirspaceZoneColor = 'green' | 'yellow' | 'red';
+
+export type AirspaceSource = 'digitalsky' | 'openaip' | 'geojson' | 'kml';
+
+export type AltitudeReference = 'agl' | 'amsl';
+
+export interface AirspaceLimit {
+  value: number; // meters
+  reference: AltitudeReference;
+}
+
+export interface AirspaceZone {
+  id: string;
+  name: string;
+  color: AirspaceZoneColor;
+  type: 'polygon' | 'circle';
+  vertices: LatLngPoint[];
+  center?: LatLngPoint;
+  radius?: number; // meters
+  floor?: AirspaceLimit; // unset means the zone reaches the ground
+  ceiling?: AirspaceLimit; // unset means unlimited
+  category?: string; // source classification, e.g. RESTRICTED, CTR
+  source: AirspaceSource;
+  sourceFile?: string;
+}
+
+// ============================================================================
+// Route Checks
+// ============================================================================
+
+export interface AirspaceConflict {
+  zoneId: string;
+  zoneName: string;
+  color: Exclude<AirspaceZoneColor, 'green'>;
+  category?: string;
+  legs: number[]; // index of the first point of each conflicting leg
+  firstPoint: LatLngPoint;
+}
+
+/**
+ * Permission references for yellow zones, keyed by zone id
+ */
+export type AirspacePermissions = Record<string, string>;
+
+/**
+ * Permission reference stored with a saved mission
+ */
+export interface AirspacePermissionRecord {
+  zone_id: string;
+  zone_name: string;
+  reference: string;
+}
+
+export interface AirspaceCheck {
+  conflicts: AirspaceConflict[];
+  blocked: AirspaceConflict[]; // red zones
+  needsPermission: AirspaceConflict[]; // yellow zones without a reference
+  canSave: boolean;
+}
@@ -0,0 +1,81 @@
+/**
+ * Telemetry Alert Types
+ * Rules evaluated against live vehicle telemetry, and the alerts and history
+ * they produce
+ */
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRuleKind =
+  | 'battery_remaining'
+  | 'battery_voltage_sag'
+  | 'gps_fix'
+  | 'gps_hdop'
+  | 'gps_satellites'
+  | 'altitude_ceiling'
+  | 'ground_speed'
+  | 'link_stale'
+  | 'mode_change';
+
+/**
+ * Which side of the threshold raises the alert. Change rules fire on a new
+ * value instead of a threshold.
+ */
+export type AlertRuleDirection = 'above' | 'below' | 'change';
+
+/**
+ * One condition checked for every vehicle of a type. Thresholds are in the
+ * kind's unit (see ALERT_RULE_KINDS).
+ */
+export interface AlertRule {
+  kind: AlertRuleKind;
+  enabled: boolean;
+  severity: AlertSeverity; // raised when the threshold is crossed
+  threshold: number; // unused by change rules
+  critical?: number; // second threshold, raised as critical
+  hysteresis: number; // how far back past a threshold the value must return to clear
+  escalateAfter?: number; // seconds unacknowledged before the severity steps up
+  modes?: string[]; // mode_change only: modes that alert, empty for any change
+}
+
+/**
+ * Rules for one vehicle type, as stored. Types without a set use the
+ * default one.
+ */
+export type AlertRuleSets = Record<string, AlertRule[]>;
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+export interface TelemetryAlert {
+  id: string; // vehicle and rule kind, stable while the alert is open
+  vehicleId: string;
+  kind: AlertRuleKind;
+  level: AlertSeverity; // as the rule evaluated it
+  severity: AlertSeverity; // after escalation
+  escalated: boolean;
+  message: string;
+  value?: number;
+  raisedAt: number;
+  updatedAt: number;
+  severityChangedAt: number; // escalation is timed from here
+  acknowledged: boolean;
+}
+
+export type AlertHistoryEvent = 'raised' | 'escalated' | 'acknowledged' | 'cleared';
+
+export interface AlertHistoryEntry {
+  id: string;
+  alertId: string;
+  vehicleId: string;
+  kind: AlertRuleKind;
+  severity: AlertSeverity;
+  event: AlertHistoryEvent;
+  message: string;
+  at: number; // epoch milliseconds
+}
@@ -0,0 +1,47 @@
+/**
+ * Flight Log Types
+ * PX4 ULog and MAVLink telemetry logs read into the canonical telemetry
+ * timeline, and the series plotted from it
+ */
+
+import { VehicleTelemetry } from './telemetry';
+
+// ============================================================================
+// Logs
+// ============================================================================
+
+export type FlightLogFormat = 'ulog' | 'tlog';
+
+export const FLIGHT_LOG_EXTENSIONS: Record<FlightLogFormat, string> = {
+  ulog: '.ulg',
+  tlog: '.tlog',
+};
+
+export interface FlightLog {
+  format: FlightLogFormat;
+  fileName: string;
+  vehicleId: string;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  telemetry: VehicleTelemetry[]; // sampled, oldest first
+  warnings: string[];
+}
+
+// ============================================================================
+// Plots
+// ============================================================================
+
+export type FlightLogChartKey = 'altitude' | 'battery' | 'voltage' | 'attitude' | 'gps' | 'vibration';
+
+export interface FlightLogLine {
+  name: string;
+  color: string;
+  points: [number, number][]; // [epoch ms, value]
+}
+
+export interface FlightLogChart {
+  key: FlightLogChartKey;
+  label: string;
+  unit: string;
+  lines: FlightLogLine[];
+}
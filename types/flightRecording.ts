@@ -0,0 +1,92 @@
+/**
+ * Flight Recording Types
+ * Persisted telemetry, commands and alerts for a mission, and replay state
+ */
+
+import { AlertHistoryEntry } from './alerts';
+import { FlightLogFormat } from './flightLog';
+import { GeofenceAlert } from './geofence';
+import { TelemetryStreamTransport, VehicleTelemetry } from './telemetry';
+
+// ============================================================================
+// Recordings
+// ============================================================================
+
+/**
+ * Version of the stored recording layout. Bump when an event payload changes
+ * shape; older recordings are then skipped by the player.
+ */
+export const FLIGHT_RECORDING_VERSION = 1;
+
+export interface FlightRecording {
+  id: string;
+  version: number;
+  missionId: string;
+  missionName?: string;
+  mission?: unknown; // the view's mission object, so a replay can show the same plan
+  transport?: TelemetryStreamTransport; // unset for imported flight logs
+  importedFrom?: { format: FlightLogFormat; fileName: string };
+  vehicleIds: string[];
+  startedAt: number; // epoch ms
+  endedAt?: number; // epoch ms, unset while recording or after a crash
+  telemetryCount: number;
+  commandCount: number;
+  alertCount: number;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export type FlightRecordingEventKind = 'telemetry' | 'command' | 'alert' | 'telemetry_alert';
+
+export interface FlightRecordingCommand {
+  command: string; // e.g. 'arm', 'mission_start'
+  params?: Record<string, unknown>;
+}
+
+interface FlightRecordingEventBase {
+  recordingId: string;
+  t: number; // epoch ms the event was received or sent
+}
+
+export interface FlightTelemetryEvent extends FlightRecordingEventBase {
+  kind: 'telemetry';
+  data: VehicleTelemetry;
+}
+
+export interface FlightCommandEvent extends FlightRecordingEventBase {
+  kind: 'command';
+  data: FlightRecordingCommand;
+}
+
+export interface FlightAlertEvent extends FlightRecordingEventBase {
+  kind: 'alert';
+  data: GeofenceAlert;
+}
+
+export interface FlightTelemetryAlertEvent extends FlightRecordingEventBase {
+  kind: 'telemetry_alert';
+  data: AlertHistoryEntry; // raised, escalated, acknowledged or cleared
+}
+
+export type FlightRecordingEvent =
+  | FlightTelemetryEvent
+  | FlightCommandEvent
+  | FlightAlertEvent
+  | FlightTelemetryAlertEvent;
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16] as const;
+
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+export interface ReplayState {
+  playing: boolean;
+  speed: ReplaySpeed;
+  position: number; // ms since the recording started
+  duration: number; // ms
+}
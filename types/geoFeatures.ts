@@ -0,0 +1,48 @@
+/**
+ * Imported Geographic Features
+ * Geometry read from KML/KMZ and other GIS files before it is placed in a mission
+ */
+
+import { LatLngPoint, ObstacleZone } from '@/types/gridMission';
+
+// ============================================================================
+// Features
+// ============================================================================
+
+export type GeoFeatureGeometry = 'polygon' | 'linestring' | 'point';
+
+export interface GeoFeature {
+  id: string;
+  name: string;
+  description?: string;
+  geometry: GeoFeatureGeometry;
+  coordinates: LatLngPoint[]; // outer ring for polygons, without the closing vertex
+  holes?: LatLngPoint[][]; // polygon inner rings
+  altitudes?: number[]; // meters, per coordinate when the source has them
+  folder?: string; // containing folder or layer name
+  properties?: Record<string, string>;
+  role?: GeoFeatureRole; // use recorded by the file, when it was exported by this planner
+  obstacle?: ObstacleZone; // exact zone, including altitude band, for obstacle features
+}
+
+// ============================================================================
+// Placement
+// ============================================================================
+
+export type GeoFeatureRole = 'survey_area' | 'obstacle' | 'corridor' | 'waypoint' | 'ignore';
+
+export interface GeoFeatureSelection {
+  feature: GeoFeature;
+  role: GeoFeatureRole;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export interface ExportPath {
+  name: string;
+  points: { lat: number; lng: number; alt?: number }[];
+  color?: string; // #rrggbb
+  description?: string;
+}
@@ -0,0 +1,156 @@
+/**
+ * Geofence Types
+ * Zones, vehicle fixes and alerts for runtime geofence monitoring
+ */
+
+import { LatLngPoint, Position } from './gridMission';
+
+// ============================================================================
+// Zones
+// ============================================================================
+
+export type GeofenceZoneKind = 'inclusion' | 'exclusion';
+
+export type GeofenceZoneSource = 'obstacle' | 'corridor' | 'survey_area' | 'manual';
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  kind: GeofenceZoneKind; // inclusion: stay inside, exclusion: stay out
+  type: 'polygon' | 'circle';
+  vertices: LatLngPoint[];
+  center?: LatLngPoint;
+  radius?: number; // meters
+  minAltitude?: number; // meters, band the zone applies to
+  maxAltitude?: number;
+  source: GeofenceZoneSource;
+  armOnEntry?: boolean; // inclusion only enforced once the vehicle has been inside
+  vehicleIds?: string[]; // vehicles the zone is enforced for, default every vehicle
+}
+
+// ============================================================================
+// Vehicle State
+// ============================================================================
+
+/**
+ * Live position of one vehicle. Velocity is NED in m/s, as in
+ * GLOBAL_POSITION_INT.
+ */
+export interface VehicleFix {
+  vehicleId: string;
+  lat: number;
+  lon: number;
+  alt: number; // meters, same reference as the zone altitude bands
+  vn?: number;
+  ve?: number;
+  vd?: number;
+  timestamp: number; // epoch milliseconds
+}
+
+// ============================================================================
+// Violations & Alerts
+// ============================================================================
+
+export type GeofenceViolationReason = 'outside' | 'inside' | 'above' | 'below';
+
+export interface GeofenceViolation {
+  zoneId: string;
+  zoneName: string;
+  kind: GeofenceZoneKind;
+  reason: GeofenceViolationReason;
+}
+
+export interface PredictedGeofenceViolation extends GeofenceViolation {
+  timeToBreach: number; // seconds at the current velocity
+}
+
+export interface GeofenceCheck {
+  breaches: GeofenceViolation[];
+  predicted: PredictedGeofenceViolation[];
+}
+
+export type GeofenceAlertLevel = 'predicted' | 'breach';
+
+export type BreachResponse = 'rtl' | 'hold';
+
+export interface GeofenceAlert extends GeofenceViolation {
+  id: string; // vehicle and zone, stable while the alert is open
+  vehicleId: string;
+  level: GeofenceAlertLevel;
+  timeToBreach?: number;
+  position: Position;
+  raisedAt: number;
+  updatedAt: number;
+  acknowledged: boolean;
+  response?: BreachResponse;
+}
+
+// ============================================================================
+// Library
+// ============================================================================
+
+export interface RallyPoint {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  alt: number; // meters above home
+}
+
+/**
+ * Missions and vehicles a geofence set applies to. A set with neither is
+ * kept in the library but never uploaded automatically.
+ */
+export interface GeofenceAssignment {
+  missionIds: string[];
+  vehicleIds: string[];
+}
+
+/**
+ * A named, versioned collection of fences and rally points. Every save
+ * creates a new version; earlier versions stay available for restore.
+ */
+export interface GeofenceSet {
+  id?: string; // unset until first saved
+  name: string;
+  description?: string;
+  version: number;
+  zones: GeofenceZone[];
+  rallyPoints: RallyPoint[];
+  assignment: GeofenceAssignment;
+  changeNote?: string;
+  updatedAt?: string;
+}
+
+export interface GeofenceSetVersion {
+  version: number;
+  zones: GeofenceZone[];
+  rallyPoints: RallyPoint[];
+  changeNote?: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// API Records
+// ============================================================================
+
+export interface GeofenceSetRecord {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  zones: GeofenceZone[];
+  rally_points: RallyPoint[];
+  mission_ids: string[];
+  vehicle_ids: string[];
+  change_note?: string;
+  updated_at: string;
+}
+
+export interface GeofenceSetVersionRecord {
+  version: number;
+  zones: GeofenceZone[];
+  rally_points: RallyPoint[];
+  change_note?: string;
+  updated_at: string;
+}
@@ -0,0 +1,73 @@
+/**
+ * GeoJSON Types
+ * RFC 7946 structures used for GIS interchange
+ */
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+export type GeoJsonPosition = number[]; // [lon, lat] or [lon, lat, alt]
+
+export interface GeoJsonPoint {
+  type: 'Point';
+  coordinates: GeoJsonPosition;
+}
+
+export interface GeoJsonMultiPoint {
+  type: 'MultiPoint';
+  coordinates: GeoJsonPosition[];
+}
+
+export interface GeoJsonLineString {
+  type: 'LineString';
+  coordinates: GeoJsonPosition[];
+}
+
+export interface GeoJsonMultiLineString {
+  type: 'MultiLineString';
+  coordinates: GeoJsonPosition[][];
+}
+
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: GeoJsonPosition[][]; // closed rings, outer first
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: GeoJsonPosition[][][];
+}
+
+export interface GeoJsonGeometryCollection {
+  type: 'GeometryCollection';
+  geometries: GeoJsonGeometry[];
+}
+
+export type GeoJsonGeometry =
+  | GeoJsonPoint
+  | GeoJsonMultiPoint
+  | GeoJsonLineString
+  | GeoJsonMultiLineString
+  | GeoJsonPolygon
+  | GeoJsonMultiPolygon
+  | GeoJsonGeometryCollection;
+
+// ============================================================================
+// Features
+// ============================================================================
+
+export type GeoJsonProperties = Record<string, unknown>;
+
+export interface GeoJsonFeature<G extends GeoJsonGeometry | null = GeoJsonGeometry | null> {
+  type: 'Feature';
+  id?: string | number;
+  geometry: G;
+  properties: GeoJsonProperties | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+  [member: string]: unknown; // foreign members such as mission metadata
+}
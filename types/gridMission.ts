@@ -41,15 +41,101 @@ export interface ObstacleZone {
   maxAltitude: number;
 }
 
+// ============================================================================
+// Camera / Sensor
+// ============================================================================
+
+export interface CameraProfile {
+  id: string;
+  name: string;
+  sensorWidth: number; // mm
+  sensorHeight: number; // mm
+  focalLength: number; // mm
+  imageWidth: number; // px
+  imageHeight: number; // px
+}
+
+export interface CameraFootprint {
+  width: number; // meters, across-track
+  height: number; // meters, along-track
+  gsd: number; // cm/px
+}
+
+export interface SurveyGeometry {
+  altitude: number;
+  lineSpacing: number;
+  triggerDistance?: number;
+  footprint?: CameraFootprint;
+}
+
+export type SurveyPattern = 'grid' | 'corridor' | 'orbit' | 'expanding_square' | 'sector' | 'spiral';
+
+export interface CorridorConfig {
+  centerline: LatLngPoint[];
+  width: number; // meters, full width covered
+  segmentLength?: number; // meters, split longer corridors into segments
+  turnaroundDistance?: number; // meters flown past each end before turning
+}
+
+export interface OrbitConfig {
+  center: LatLngPoint; // point of interest
+  radius: number; // meters
+  turns?: number; // default 1
+  pointsPerTurn?: number; // default 16
+  clockwise?: boolean; // default true
+  poiAltitude?: number; // meters, height the gimbal points at, default 0
+}
+
+export interface SearchPatternConfig {
+  datum: LatLngPoint; // last known position
+  radius: number; // meters, search extent from the datum
+  trackSpacing?: number; // meters, defaults to the line spacing
+  initialBearing?: number; // degrees true, first leg
+}
+
+export interface SpiralConfig {
+  center: LatLngPoint;
+  radius: number; // meters
+  direction: 'inward' | 'outward';
+  trackSpacing?: number; // meters between revolutions, defaults to the line spacing
+}
+
+export interface TerrainFollowingConfig {
+  enabled: boolean;
+  targetAgl?: number; // meters, defaults to the survey altitude
+  sampleDistance?: number; // meters between terrain samples along a leg, default 20
+  tolerance?: number; // meters of AGL drift allowed before adding a waypoint, default 5
+  minClearance?: number; // meters AGL, default 10
+  ceiling?: number; // meters AGL, default 120
+}
+
 export interface GridMissionConfig {
   name: string;
+  pattern?: SurveyPattern; // defaults to 'grid'
   surveyArea: SurveyArea;
   altitude: number;
   gridSpacing: number;
-  overlap: number;
+  overlap: number; // side overlap when a camera profile is set
   gridAngle: number;
+  autoGridAngle?: boolean; // pick the angle with the fewest turns
   cameraAngle: number;
   obstacles: ObstacleZone[];
+  camera?: CameraProfile;
+  targetGsd?: number; // cm/px, overrides altitude when set
+  frontOverlap?: number; // defaults to overlap
+  obstacleBuffer?: number; // meters kept clear around obstacles
+  allowClimbOver?: boolean;
+  corridor?: CorridorConfig;
+  orbit?: OrbitConfig;
+  search?: SearchPatternConfig; // expanding square and sector search
+  spiral?: SpiralConfig;
+  terrain?: TerrainFollowingConfig;
+}
+
+export interface ObstacleDetourOptions {
+  buffer?: number; // meters, default 10
+  allowClimbOver?: boolean;
+  maxAltitude?: number; // climb ceiling, default 120m AGL
 }
 
 // ============================================================================
@@ -63,12 +149,22 @@ export interface GridWaypoint {
   isValid: boolean;
   isBlocked?: boolean;
   blockingObstacle?: string;
+  isDetour?: boolean;
+  detourAround?: string;
+  legBlockedBy?: string; // obstacles the leg into this waypoint still crosses
+  isTransit?: boolean; // leg to or from the home point
+  heading?: number; // degrees true, when the pattern fixes yaw
+  gimbalPitch?: number; // degrees, negative below the horizon
+  terrainElevation?: number; // meters AMSL under the waypoint
+  agl?: number; // meters above the terrain
+  isTerrainPoint?: boolean; // added to follow the terrain between waypoints
 }
 
 export interface GridLine {
   lineIndex: number;
   waypoints: GridWaypoint[];
   direction: 'forward' | 'backward';
+  cellIndex?: number;
 }
 
 // ============================================================================
@@ -79,11 +175,24 @@ export interface GridMissionStats {
   totalWaypoints: number;
   validWaypoints: number;
   obstacleWaypoints: number;
+  detourWaypoints?: number;
+  blockedLegs?: number; // legs still crossing an obstacle
   totalDistance: number;
   estimatedFlightTime: number;
   estimatedBatteryUsage: number;
+  energyConsumed?: number; // Wh
+  rthReserveRemaining?: number; // lowest % left after returning home from any waypoint
+  reserveSatisfied?: boolean;
   gridLines: number;
   coverageArea: number;
+  gsd?: number; // cm/px
+  imageCount?: number;
+  footprintWidth?: number; // meters
+  footprintHeight?: number; // meters
+  triggerDistance?: number; // meters
+  minAgl?: number; // meters, lowest terrain clearance along the route
+  maxAgl?: number; // meters
+  terrainWarnings?: number;
 }
 
 // ============================================================================
@@ -99,6 +208,83 @@ export interface GridMissionPlan {
   validWaypoints: GridWaypoint[];
   stats: GridMissionStats;
   createdAt: string;
+  home?: LatLngPoint;
+  sorties?: GridSortie[];
+  vehicleId?: string;
+  homeElevation?: number; // meters AMSL, when planned over terrain
+  terrainWarnings?: TerrainLegWarning[];
+}
+
+// ============================================================================
+// Terrain
+// ============================================================================
+
+/**
+ * Elevation raster in geographic coordinates. Samples are row-major from the
+ * north edge; the first sample is centered on (north, west).
+ */
+export interface DemTile {
+  name: string;
+  width: number;
+  height: number;
+  north: number; // latitude of the first row
+  west: number; // longitude of the first column
+  latStep: number; // degrees between rows, positive southward
+  lngStep: number; // degrees between columns
+  data: Float32Array; // meters AMSL
+  noData?: number;
+}
+
+export type TerrainWarningKind = 'clearance' | 'ceiling' | 'no_data';
+
+export interface TerrainLegWarning {
+  kind: TerrainWarningKind;
+  fromSequence: number;
+  toSequence: number;
+  minAgl: number; // meters along the leg
+  maxAgl: number;
+  position: LatLngPoint; // worst sample
+}
+
+// ============================================================================
+// Multi-Drone Surveys
+// ============================================================================
+
+export interface FleetAssignment {
+  vehicleId: string;
+  vehicleName: string;
+  color: string;
+  share: number; // fraction of the survey area, 0-1
+  plan: GridMissionPlan;
+  savedMissionId?: string;
+  splitError?: string; // why the plan could not be split into sorties
+}
+
+// ============================================================================
+// Sorties (multi-battery splitting)
+// ============================================================================
+
+export type SortieStatus = 'planned' | 'saved' | 'uploaded' | 'in_progress' | 'completed' | 'aborted';
+
+export interface GridSortie {
+  id: string;
+  parentId: string;
+  index: number; // 0-based order within the parent plan
+  lineIndices: number[]; // grid lines flown, in order
+  waypoints: GridWaypoint[]; // includes transit legs from/to home
+  totalDistance: number; // km
+  estimatedFlightTime: number; // minutes
+  estimatedBatteryUsage: number; // %
+  rthReserveRemaining: number; // %
+  status: SortieStatus;
+  savedMissionId?: string;
+  lastCompletedLine?: number;
+}
+
+export interface SortieSplitOptions {
+  home: LatLngPoint;
+  maxWaypoints?: number; // defaults to the PX4 mission limit
+  startBattery?: number; // % at takeoff, default 100
 }
 
 // ============================================================================
@@ -184,38 +370,9 @@ export interface DatabaseMission {
 }
 
 // ============================================================================
-// Telemetry Types
+// Drone Status Types
 // ============================================================================
 
-export interface TelemetryData {
-  position?: {
-    lat: number;
-    lon: number;
-    alt: number;
-  };
-  velocity?: {
-    vx: number;
-    vy: number;
-    vz: number;
-  };
-  attitude?: {
-    roll: number;
-    pitch: number;
-    yaw: number;
-  };
-  battery?: {
-    voltage: number;
-    current: number;
-    remaining: number;
-  };
-  gps?: {
-    fix_type: number;
-    satellites_visible: number;
-    hdop: number;
-  };
-  flight_mode?: string;
-}
-
 export interface DroneStatus {
   connected: boolean;
   armed: boolean;
@@ -44,6 +44,8 @@ export interface Waypoint {
   coords: string
   alt: string
   color: string
+  lat: number
+  lon: number
 }
 
 export interface MenuItem {
@@ -54,6 +56,22 @@ export interface MenuItem {
 }
 
 // NEW TYPES FOR VEHICLE LIBRARY
+export interface ReservePolicy {
+  minReservePercent: number   // battery % that must remain on landing
+  requireRthReserve: boolean  // keep enough energy to return home from every waypoint
+}
+
+export interface VehiclePerformanceProfile {
+  cruiseSpeed: number         // m/s
+  climbRate: number           // m/s
+  descentRate: number         // m/s
+  turnPenalty: number         // seconds lost per 90° heading change
+  batteryCapacity: number     // Wh
+  hoverPower: number          // W
+  cruisePower: number         // W
+  reserve: ReservePolicy
+}
+
 export interface Vehicle {
   id: string
   name: string
@@ -65,6 +83,7 @@ export interface Vehicle {
   flightHours: number
   lastMission: string
   missions: number
+  performance?: VehiclePerformanceProfile
 }
 
 // NEW TYPES FOR OPERATOR LIBRARY
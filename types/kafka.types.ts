@@ -4,6 +4,8 @@
  * TypeScript types for JGCS Kafka telemetry streaming
  */
 
+import { VehicleTelemetry } from './telemetry';
+
 // =============================================================================
 // Core Telemetry Types
 // =============================================================================
@@ -46,10 +48,14 @@ export interface GPS {
 }
 
 // =============================================================================
-// Telemetry Data
+// Telemetry Payload
 // =============================================================================
 
-export interface TelemetryData {
+/**
+ * Telemetry as the Kafka proxy sends it, version 1. Subscribers receive it
+ * converted to VehicleTelemetry (see utils/telemetryAdapters).
+ */
+export interface KafkaTelemetryPayload {
   vehicle_id: string;
   system_id?: number;
   component_id?: number;
@@ -108,7 +114,7 @@ export interface WebSocketMessage<T = unknown> {
   client_id?: string;
 }
 
-export interface TelemetryMessage extends WebSocketMessage<TelemetryData> {
+export interface TelemetryMessage extends WebSocketMessage<KafkaTelemetryPayload> {
   type: 'telemetry_update';
 }
 
@@ -148,6 +154,10 @@ export interface ClientAction {
 // Kafka Service Configuration
 // =============================================================================
 
+/**
+ * clientId, reconnect and ping settings are ignored: the shared telemetry connection
+ * manager applies WEBSOCKET_CONFIG to every socket.
+ */
 export interface KafkaServiceConfig {
   wsUrl: string;
   clientId?: string;
@@ -172,7 +182,7 @@ export const DEFAULT_KAFKA_CONFIG: KafkaServiceConfig = {
 export interface KafkaServiceEvents {
   onConnect?: (info: ConnectionInfoMessage) => void;
   onDisconnect?: (reason?: string) => void;
-  onTelemetry?: (data: TelemetryData) => void;
+  onTelemetry?: (data: VehicleTelemetry) => void;
   onStatus?: (status: VehicleStatus) => void;
   onError?: (error: Error) => void;
   onReconnecting?: (attempt: number) => void;
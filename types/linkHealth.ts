@@ -0,0 +1,47 @@
+/**
+ * Telemetry Link Health Types
+ * Per-vehicle measurements of how fresh and how complete the telemetry
+ * arriving from each vehicle is
+ */
+
+import { Position } from './telemetry';
+
+// ============================================================================
+// Link Health
+// ============================================================================
+
+/**
+ * healthy: data is fresh and complete. degraded: data is late, irregular or
+ * incomplete. lost: no new data for LINK_HEALTH_CONFIG.lostAge.
+ */
+export type LinkState = 'healthy' | 'degraded' | 'lost';
+
+export interface VehicleLinkHealth {
+  vehicleId: string;
+  state: LinkState;
+  reasons: string[]; // why the link is not healthy, for operators
+  lastReceivedAt: number; // epoch ms, when the newest sample arrived
+  lastSampleAt: number; // epoch ms, the newest sample's own timestamp
+  age: number; // milliseconds since lastSampleAt
+  latency?: number; // milliseconds, smoothed send-to-receive delay
+  jitter?: number; // milliseconds, interarrival jitter (RFC 3550)
+  messageRate: number; // messages per second over the window
+  sequenceGaps: number; // breaks in the message sequence since first seen
+  lostMessages: number; // messages missing from the sequence since first seen
+  lossPercent?: number; // messages missing over the window, when the transport numbers them
+  heartbeatAge?: number; // milliseconds since the last heartbeat, once one has arrived
+  heartbeatsMissed?: number;
+  lastPosition?: Position; // last known position, for ghosting a lost vehicle
+  heading?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Short age for badges: tenths of a second under 10 s, then seconds, then
+ * minutes
+ */
+export const formatLinkAge = (age: number): string =>
+  age < 60000 ? `${(age / 1000).toFixed(age < 10000 ? 1 : 0)}s` : `${Math.floor(age / 60000)}m`;
@@ -0,0 +1,156 @@
+/**
+ * MAVLink Mission Item Types
+ * Planner-independent mission actions and the MISSION_ITEM_INT rows they compile to
+ */
+
+import { Position } from './gridMission';
+
+// ============================================================================
+// Mission Actions
+// ============================================================================
+
+export type SpeedType = 'airspeed' | 'groundspeed';
+
+export type AltitudeFrame = 'relative' | 'terrain' | 'amsl';
+
+export interface TakeoffAction {
+  type: 'takeoff';
+  position: Position;
+  pitch?: number; // degrees, fixed-wing minimum pitch
+  yaw?: number; // degrees true
+}
+
+export interface WaypointAction {
+  type: 'waypoint';
+  position: Position;
+  holdTime?: number; // seconds
+  acceptanceRadius?: number; // meters
+  passRadius?: number; // meters, positive passes clockwise
+  yaw?: number; // degrees true, unchanged when omitted
+}
+
+export interface LoiterTimeAction {
+  type: 'loiter_time';
+  position: Position;
+  seconds: number;
+  radius?: number; // meters, negative for counter-clockwise
+}
+
+export interface LoiterTurnsAction {
+  type: 'loiter_turns';
+  position: Position;
+  turns: number;
+  radius?: number; // meters, negative for counter-clockwise
+}
+
+export interface LoiterUnlimitedAction {
+  type: 'loiter_unlimited';
+  position: Position;
+  radius?: number;
+  yaw?: number;
+}
+
+export interface LandAction {
+  type: 'land';
+  position: Position;
+  abortAltitude?: number; // meters
+  yaw?: number;
+}
+
+export interface ReturnToLaunchAction {
+  type: 'return_to_launch';
+}
+
+export interface ChangeSpeedAction {
+  type: 'change_speed';
+  speed: number; // m/s
+  speedType?: SpeedType; // defaults to groundspeed
+}
+
+export interface CameraTriggerDistanceAction {
+  type: 'camera_trigger_distance';
+  distance: number; // meters, 0 stops triggering
+  triggerOnce?: boolean; // take a picture immediately
+}
+
+export interface CameraTriggerIntervalAction {
+  type: 'camera_trigger_interval';
+  interval: number; // milliseconds, 0 stops triggering
+}
+
+export interface MountControlAction {
+  type: 'mount_control';
+  pitch: number; // degrees, negative below the horizon
+  roll?: number;
+  yaw?: number; // degrees relative to the vehicle
+}
+
+export interface ConditionYawAction {
+  type: 'condition_yaw';
+  heading: number; // degrees
+  rate?: number; // deg/s
+  relative?: boolean; // heading is an offset from the current yaw
+}
+
+export interface RegionOfInterestAction {
+  type: 'region_of_interest';
+  position: Position;
+}
+
+export interface RegionOfInterestNoneAction {
+  type: 'region_of_interest_none';
+}
+
+export interface DelayAction {
+  type: 'delay';
+  seconds: number;
+}
+
+export type MissionAction =
+  | TakeoffAction
+  | WaypointAction
+  | LoiterTimeAction
+  | LoiterTurnsAction
+  | LoiterUnlimitedAction
+  | LandAction
+  | ReturnToLaunchAction
+  | ChangeSpeedAction
+  | CameraTriggerDistanceAction
+  | CameraTriggerIntervalAction
+  | MountControlAction
+  | ConditionYawAction
+  | RegionOfInterestAction
+  | RegionOfInterestNoneAction
+  | DelayAction;
+
+export type MissionActionType = MissionAction['type'];
+
+// ============================================================================
+// Encoded Items
+// ============================================================================
+
+/**
+ * One MISSION_ITEM_INT, field for field. Params are null where MAVLink
+ * expects NaN ("leave unchanged"), since JSON cannot carry NaN.
+ */
+export interface MissionItem {
+  seq: number;
+  frame: number; // MAV_FRAME
+  command: number; // MAV_CMD
+  current: 0 | 1;
+  autocontinue: 0 | 1;
+  param1: number | null;
+  param2: number | null;
+  param3: number | null;
+  param4: number | null;
+  x: number; // latitude in degrees × 1e7, or param5 for non-positional commands
+  y: number; // longitude in degrees × 1e7, or param6
+  z: number; // altitude in meters, or param7
+  mission_type: number; // MAV_MISSION_TYPE
+}
+
+export interface MissionCompileOptions {
+  altitudeFrame?: AltitudeFrame; // defaults to relative
+  autopilot?: 'px4' | 'ardupilot'; // ArduPilot reserves seq 0 for home
+  home?: Position; // required for ArduPilot
+}
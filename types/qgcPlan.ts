@@ -0,0 +1,164 @@
+/**
+ * QGroundControl Plan File Types
+ * JSON schema of the .plan files written by QGroundControl
+ */
+
+// ============================================================================
+// Mission Items
+// ============================================================================
+
+export type QgcCoordinate = [number, number]; // [lat, lon]
+export type QgcCoordinate3D = [number, number, number]; // [lat, lon, alt]
+
+export interface QgcSimpleItem {
+  type: 'SimpleItem';
+  autoContinue: boolean;
+  command: number; // MAV_CMD
+  doJumpId: number;
+  frame: number; // MAV_FRAME
+  params: (number | null)[]; // param1..param7; 5-7 are lat, lon, alt for NAV commands
+  Altitude?: number;
+  AltitudeMode?: number; // 1 = relative to home
+  AMSLAltAboveTerrain?: number | null;
+}
+
+export interface QgcCameraCalc {
+  version: number;
+  CameraName: string;
+  DistanceToSurface: number;
+  DistanceToSurfaceRelative?: boolean;
+  DistanceMode?: number;
+  AdjustedFootprintFrontal: number;
+  AdjustedFootprintSide: number;
+  FixedValueIsAltitude?: boolean;
+  ValueSetIsDistance?: boolean;
+  FocalLength?: number;
+  SensorWidth?: number;
+  SensorHeight?: number;
+  ImageWidth?: number;
+  ImageHeight?: number;
+  Landscape?: boolean;
+  FrontalOverlap?: number; // percent
+  SideOverlap?: number; // percent
+  MinTriggerInterval?: number;
+}
+
+export interface QgcTransectStyle {
+  version: number;
+  CameraCalc: QgcCameraCalc;
+  CameraShots?: number;
+  CameraTriggerInTurnAround: boolean;
+  HoverAndCapture: boolean;
+  Refly90Degrees: boolean;
+  TurnAroundDistance: number;
+  VisualTransectPoints: QgcCoordinate[];
+  Items: QgcSimpleItem[];
+  FollowTerrain?: boolean;
+}
+
+export interface QgcSurveyItem {
+  type: 'ComplexItem';
+  complexItemType: 'survey';
+  version: number;
+  angle: number; // transect bearing, degrees
+  entryLocation: number;
+  flyAlternateTransects: boolean;
+  splitConcavePolygons: boolean;
+  polygon: QgcCoordinate[];
+  TransectStyleComplexItem: QgcTransectStyle;
+}
+
+export interface QgcCorridorScanItem {
+  type: 'ComplexItem';
+  complexItemType: 'CorridorScan';
+  version: number;
+  CorridorWidth: number;
+  EntryPoint: number;
+  polyline: QgcCoordinate[];
+  TransectStyleComplexItem: QgcTransectStyle;
+}
+
+export interface QgcOtherComplexItem {
+  type: 'ComplexItem';
+  complexItemType: string;
+  [key: string]: unknown;
+}
+
+export type QgcComplexItem = QgcSurveyItem | QgcCorridorScanItem;
+export type QgcMissionItem = QgcSimpleItem | QgcComplexItem | QgcOtherComplexItem;
+
+// ============================================================================
+// Plan File
+// ============================================================================
+
+export interface QgcMission {
+  version: number;
+  firmwareType: number; // MAV_AUTOPILOT
+  vehicleType: number; // MAV_TYPE
+  cruiseSpeed: number;
+  hoverSpeed: number;
+  plannedHomePosition: QgcCoordinate3D;
+  globalPlanAltitudeMode?: number;
+  items: QgcMissionItem[];
+}
+
+export interface QgcFenceCircle {
+  version: number;
+  inclusion: boolean;
+  circle: {
+    center: QgcCoordinate;
+    radius: number;
+  };
+}
+
+export interface QgcFencePolygon {
+  version: number;
+  inclusion: boolean;
+  polygon: QgcCoordinate[];
+}
+
+export interface QgcGeoFence {
+  version: number;
+  circles: QgcFenceCircle[];
+  polygons: QgcFencePolygon[];
+}
+
+export interface QgcRallyPoints {
+  version: number;
+  points: QgcCoordinate3D[];
+}
+
+export interface QgcPlanFile {
+  fileType: 'Plan';
+  version: number;
+  groundStation: string;
+  mission: QgcMission;
+  geoFence: QgcGeoFence;
+  rallyPoints: QgcRallyPoints;
+}
+
+export interface PlanRallyPoint {
+  lat: number;
+  lng: number;
+  alt: number; // meters relative to home
+}
+
+// ============================================================================
+// Import Report
+// ============================================================================
+
+export type PlanIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface PlanImportIssue {
+  severity: PlanIssueSeverity;
+  message: string;
+  itemIndex?: number; // index in mission.items
+}
+
+export interface PlanImportReport {
+  issues: PlanImportIssue[];
+  importedItems: number;
+  skippedItems: number;
+  fences: number;
+  rallyPoints: number;
+}
@@ -3,6 +3,8 @@
  * For drone telemetry display components
  */
 
+import { ALERT_CONFIG } from '../config/missionExecution.config';
+
 // ============================================================================
 // Position Types
 // ============================================================================
@@ -14,54 +16,178 @@ export interface Position {
 }
 
 // ============================================================================
-// Telemetry Data Types
+// Canonical Telemetry
+// ============================================================================
+
+/**
+ * Version of the VehicleTelemetry model. Bump when a field changes meaning;
+ * adding an optional field does not need a bump.
+ */
+export const TELEMETRY_MODEL_VERSION = 1;
+
+export type TelemetryTransport = 'kafka' | 'websocket' | 'http' | 'replay' | 'log'; // log: imported flight log
+
+export interface TelemetryPosition {
+  lat: number; // degrees
+  lon: number; // degrees
+  alt: number; // meters above home
+  altMsl?: number; // meters above mean sea level
+}
+
+/**
+ * Velocity in the local NED frame, m/s
+ */
+export interface TelemetryVelocity {
+  vn: number;
+  ve: number;
+  vd: number;
+  groundSpeed: number;
+  airSpeed?: number;
+  climbRate: number; // positive up
+}
+
+/**
+ * Attitude in degrees, wrapped to ±180
+ */
+export interface TelemetryAttitude {
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+export interface TelemetryBattery {
+  voltage?: number; // volts
+  current?: number; // amps
+  remaining?: number; // percent, 0-100
+}
+
+export interface TelemetryGps {
+  fixType: number; // GPS_FIX_TYPE
+  satellites: number;
+  hdop?: number;
+  vdop?: number;
+}
+
+/**
+ * Accelerometer vibration, as flight logs report it
+ */
+export interface TelemetryVibration {
+  level: number; // m/s², worst axis
+  clipping?: number; // accelerometer clipping events since boot
+}
+
+/**
+ * When a sample was sent and received, and where it falls in the vehicle's
+ * message sequence. Used for link health.
+ */
+export interface TelemetryLink {
+  receivedAt: number; // epoch ms, when this client received the sample
+  sentAt?: number; // epoch ms, from the payload's timestamp
+  sequence?: number; // per-vehicle message counter, when the transport sends one
+  heartbeat?: boolean; // the sample carries an autopilot heartbeat
+}
+
+export interface TelemetryMission {
+  current: number; // mission item sequence
+  count: number;
+  active?: boolean;
+  distanceToWaypoint?: number; // meters
+}
+
+/**
+ * Vehicle state as every component consumes it, whatever transport it
+ * arrived on. Built from wire payloads by utils/telemetryAdapters.
+ */
+export interface VehicleTelemetry {
+  modelVersion: number;
+  vehicleId: string;
+  transport: TelemetryTransport;
+  adapter: string; // adapter that read the payload, e.g. kafka@1
+  timestamp: number; // epoch milliseconds
+  position?: TelemetryPosition;
+  velocity?: TelemetryVelocity;
+  attitude?: TelemetryAttitude;
+  heading?: number; // compass degrees, 0-360
+  battery?: TelemetryBattery;
+  gps?: TelemetryGps;
+  armed?: boolean;
+  flying?: boolean;
+  flightMode?: string;
+  systemStatus?: string;
+  mission?: TelemetryMission;
+  vibration?: TelemetryVibration;
+  link?: TelemetryLink;
+}
+
+// ============================================================================
+// Streams
 // ============================================================================
 
-export interface TelemetryData {
-  timestamp?: number;
-  position?: Position;
-  velocity?: {
+/**
+ * Transports with a streaming socket, as opposed to HTTP polling
+ */
+export type TelemetryStreamTransport = Extract<TelemetryTransport, 'websocket' | 'kafka'>;
+
+export type TelemetryStreamState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+/**
+ * Non-telemetry message on a telemetry socket, e.g. mission_complete or error
+ */
+export interface TelemetryStreamMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// Wire Payloads
+// ============================================================================
+
+/**
+ * Drone WebSocket (/ws/telemetry) telemetry_update payload, version 1
+ */
+export interface WebSocketTelemetryPayload {
+  timestamp: number;
+  vehicle_id: string;
+  position: {
+    lat: number;
+    lon: number;
+    alt: number;
+    relative_alt: number;
+  };
+  velocity: {
     vx: number;
     vy: number;
     vz: number;
-    ground_speed?: number;
+    ground_speed: number;
   };
-  attitude?: {
+  attitude: {
     roll: number;
     pitch: number;
     yaw: number;
   };
-  battery?: {
+  battery: {
     voltage: number;
     current: number;
     remaining: number;
-    level?: number;
+    level: number;
   };
-  gps?: {
-    satellites?: number;
-    num_satellites?: number;
-    satellites_visible?: number;
+  gps: {
+    satellites: number;
     fix_type: number;
-    hdop?: number;
+    hdop: number;
+    eph: number;
+    epv: number;
+  };
+  status: {
+    armed: boolean;
+    mode: string;
+    system_status: string;
+  };
+  mission?: {
+    current_waypoint: number;
+    total_waypoints: number;
+    distance_to_waypoint: number;
   };
-  flight_mode?: string;
-}
-
-export interface FullTelemetry extends TelemetryData {
-  armed?: boolean;
-  mode?: string;
-  latitude?: number;
-  longitude?: number;
-  altitude?: number;
-  relative_altitude?: number;
-  heading?: number;
-  ground_speed?: number;
-  air_speed?: number;
-  climb_rate?: number;
-  battery_voltage?: number;
-  battery_current?: number;
-  battery_remaining?: number;
-  gps_fix?: number;
 }
 
 // ============================================================================
@@ -95,12 +221,25 @@ export interface FlightPathPoint {
 // Helper Functions
 // ============================================================================
 
+export type BatteryLevel = 'normal' | 'warning' | 'critical';
+
+/**
+ * Battery level against the ALERT_CONFIG thresholds, which the default
+ * battery alert rule also uses
+ */
+export const getBatteryLevel = (remaining: number): BatteryLevel => {
+  if (remaining < ALERT_CONFIG.batteryCriticalThreshold) return 'critical';
+  if (remaining < ALERT_CONFIG.batteryWarningThreshold) return 'warning';
+  return 'normal';
+};
+
 /**
  * Get battery color based on remaining percentage
  */
 export const getBatteryColor = (remaining: number): string => {
-  if (remaining > 50) return 'text-green-400';
-  if (remaining > 20) return 'text-yellow-400';
+  const level = getBatteryLevel(remaining);
+  if (level === 'normal') return 'text-green-400';
+  if (level === 'warning') return 'text-yellow-400';
   return 'text-red-400';
 };
 
@@ -108,8 +247,9 @@ export const getBatteryColor = (remaining: number): string => {
  * Get battery bar color for progress indicators
  */
 export const getBatteryBarColor = (remaining: number): string => {
-  if (remaining > 50) return 'bg-green-500';
-  if (remaining > 20) return 'bg-yellow-500';
+  const level = getBatteryLevel(remaining);
+  if (level === 'normal') return 'bg-green-500';
+  if (level === 'warning') return 'bg-yellow-500';
   return 'bg-red-500';
 };
 
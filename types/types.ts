@@ -3,11 +3,17 @@
  * Complete TypeScript interfaces and types
  */
 
+import { VehicleTelemetry } from './telemetry';
+
 // ============================================================================
 // Telemetry Types
 // ============================================================================
 
-export interface TelemetryData {
+/**
+ * Flat telemetry payload served by the mission execution API. Components
+ * consume it as VehicleTelemetry, read by the HTTP telemetry adapter.
+ */
+export interface FlatTelemetryPayload {
   timestamp: string;
   armed: boolean;
   mode: string;
@@ -103,7 +109,7 @@ export interface MissionExecutionViewProps {
 }
 
 export interface TelemetryPanelProps {
-  telemetry: TelemetryData | null;
+  telemetry: VehicleTelemetry | null;
   compact?: boolean;
 }
 
@@ -122,7 +128,7 @@ export interface MissionStats {
 }
 
 export interface WebSocketCallbacks {
-  onMessage?: (data: TelemetryData) => void;
+  onMessage?: (data: VehicleTelemetry) => void;
   onError?: (error: Event) => void;
   onClose?: () => void;
 }
@@ -216,7 +222,7 @@ export interface MissionExecutionState {
   droneArmed: boolean;
   missionUploaded: boolean;
   missionRunning: boolean;
-  telemetry: TelemetryData | null;
+  telemetry: VehicleTelemetry | null;
   loading: boolean;
   error: string | null;
 }
@@ -262,7 +268,7 @@ export const MAX_MISSION_WAYPOINTS = 100;
 // Type Guards
 // ============================================================================
 
-export function isTelemetryData(data: any): data is TelemetryData {
+export function isFlatTelemetryPayload(data: any): data is FlatTelemetryPayload {
   return (
     typeof data === 'object' &&
     data !== null &&
@@ -305,7 +311,7 @@ export type AsyncResult<T> = Promise<T>;
 
 // Export all types as a namespace as well
 export namespace DroneControl {
-  export type Telemetry = TelemetryData;
+  export type Telemetry = VehicleTelemetry;
   export type Mission = Mission;
   export type Waypoint = Waypoint;
   export type Response = CommandResponse;
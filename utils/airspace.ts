@@ -0,0 +1,539 @@
+/**
+ * Airspace Zones
+ * Reads Digital Sky zone exports, OpenAIP airspace files and plain GeoJSON
+ * into colour-coded zones, and checks planned routes against them
+ */
+
+import { LatLngPoint } from '@/types/gridMission';
+import {
+  AirspaceCheck,
+  AirspaceConflict,
+  AirspaceLimit,
+  AirspacePermissionRecord,
+  AirspacePermissions,
+  AirspaceSource,
+  AirspaceZone,
+  AirspaceZoneColor,
+} from '@/types/airspace';
+import { GeoFeature } from '@/types/geoFeatures';
+import { parseGeoJson } from './geojson';
+import { loadKmlFile, parseKml } from './kml';
+import { calculateDistance, findLinePolygonIntersections, isPointInPolygon } from './gridMissionUtils';
+import { toLocalEnu } from './geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FEET_TO_METERS = 0.3048;
+
+export const AIRSPACE_COLORS: Record<AirspaceZoneColor, string> = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  red: '#dc2626',
+};
+
+// Properties Digital Sky and other exports use for the zone colour
+const COLOR_KEYS = ['color', 'colour', 'zoneColor', 'zone_color', 'zoneType', 'zone_type', 'zone', 'type'];
+const CATEGORY_KEYS = ['category', 'CATEGORY', 'class', 'airspaceClass', 'type', 'TYPE'];
+const RADIUS_KEYS = ['radius', 'radius_m', 'radiusInMeters', 'RADIUS'];
+const CEILING_KEYS = ['ceiling', 'maxAltitude', 'max_altitude', 'upperLimit', 'upper_limit'];
+
+// OpenAIP airspace categories (file format 1.x)
+const CATEGORY_COLORS: Record<string, AirspaceZoneColor> = {
+  PROHIBITED: 'red',
+  RESTRICTED: 'red',
+  DANGER: 'yellow',
+  CTR: 'yellow',
+  TMA: 'yellow',
+  TMZ: 'yellow',
+  RMZ: 'yellow',
+  ATZ: 'yellow',
+  A: 'yellow',
+  B: 'yellow',
+  C: 'yellow',
+  D: 'yellow',
+};
+
+// OpenAIP airspace type codes (API v2)
+const OPENAIP_TYPES: Record<number, { category: string; color: AirspaceZoneColor }> = {
+  0: { category: 'OTHER', color: 'green' },
+  1: { category: 'RESTRICTED', color: 'red' },
+  2: { category: 'DANGER', color: 'yellow' },
+  3: { category: 'PROHIBITED', color: 'red' },
+  4: { category: 'CTR', color: 'yellow' },
+  5: { category: 'TMZ', color: 'yellow' },
+  6: { category: 'RMZ', color: 'yellow' },
+  7: { category: 'TMA', color: 'yellow' },
+  8: { category: 'TRA', color: 'yellow' },
+  9: { category: 'TSA', color: 'yellow' },
+  10: { category: 'FIR', color: 'green' },
+  11: { category: 'UIR', color: 'green' },
+  12: { category: 'ADIZ', color: 'yellow' },
+  13: { category: 'ATZ', color: 'yellow' },
+  14: { category: 'MATZ', color: 'yellow' },
+  17: { category: 'ALERT', color: 'yellow' },
+  18: { category: 'WARNING', color: 'yellow' },
+  19: { category: 'PROTECTED', color: 'red' },
+  26: { category: 'CTA', color: 'yellow' },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AirspaceRoutePoint {
+  lat: number;
+  lng: number;
+  alt?: number; // meters above takeoff
+}
+
+type RawRecord = Record<string, unknown>;
+
+// ============================================================================
+// Classification Helpers
+// ============================================================================
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Zone colour named in a property value, e.g. "RED", "Yellow Zone", "amber"
+ */
+function colorFromText(text: string): AirspaceZoneColor | undefined {
+  // Whole words only, so e.g. "Registered" is not read as red
+  const has = (word: string) => new RegExp(`(^|[^a-z])${word}([^a-z]|$)`).test(text.toLowerCase());
+  if (has('red')) return 'red';
+  if (has('yellow') || has('amber')) return 'yellow';
+  if (has('green')) return 'green';
+  return undefined;
+}
+
+function classify(props: Record<string, unknown>): { color?: AirspaceZoneColor; category?: string } {
+  for (const key of COLOR_KEYS) {
+    const value = props[key];
+    const color = typeof value === 'string' ? colorFromText(value) : undefined;
+    if (color) return { color, category: `${color.toUpperCase()} ZONE` };
+  }
+  for (const key of CATEGORY_KEYS) {
+    const value = props[key];
+    if (typeof value !== 'string') continue;
+    const category = value.trim().toUpperCase();
+    if (CATEGORY_COLORS[category]) return { color: CATEGORY_COLORS[category], category };
+  }
+  return {};
+}
+
+function numberFrom(props: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = Number(props[key]);
+    if (props[key] !== undefined && props[key] !== '' && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a published limit to meters. Surface limits return undefined.
+ */
+function toLimit(value: number, unit: string, reference: string): AirspaceLimit | undefined {
+  if (!Number.isFinite(value)) return undefined;
+
+  const ref = reference.toUpperCase();
+  const meters = unit === 'FL'
+    ? value * 100 * FEET_TO_METERS
+    : unit === 'M' ? value : value * FEET_TO_METERS;
+
+  if (meters <= 0 && (ref === 'GND' || ref === 'SFC')) return undefined;
+  return { value: meters, reference: ref === 'GND' || ref === 'SFC' ? 'agl' : 'amsl' };
+}
+
+function fileStem(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * Zones for each polygon part of a feature, and a circle for a point with a radius
+ */
+function featureToZones(
+  feature: GeoFeature,
+  props: Record<string, unknown>,
+  base: Omit<AirspaceZone, 'id' | 'type' | 'vertices'>,
+  id: string
+): AirspaceZone[] {
+  if (feature.geometry === 'polygon' && feature.coordinates.length >= 3) {
+    return [{ ...base, id, type: 'polygon', vertices: feature.coordinates }];
+  }
+
+  const radius = numberFrom(props, RADIUS_KEYS);
+  if (feature.geometry === 'point' && radius && radius > 0) {
+    return [{ ...base, id, type: 'circle', vertices: [], center: feature.coordinates[0], radius }];
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Zones from a GeoJSON document. Digital Sky exports carry the zone colour as
+ * a property; features without a recognisable colour or category are treated
+ * as yellow so they are never silently ignored.
+ */
+export function parseAirspaceGeoJson(
+  input: string | unknown,
+  fileName: string = 'airspace.geojson',
+  source: AirspaceSource = 'geojson'
+): AirspaceZone[] {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const zones: AirspaceZone[] = [];
+  const stem = fileStem(fileName);
+
+  // Keep the raw properties: parseGeoJson flattens nested values
+  const rawFeatures: RawRecord[] = isRecord(data) && Array.isArray(data.features)
+    ? data.features.filter(isRecord)
+    : isRecord(data) && data.type === 'Feature' ? [data] : [];
+
+  rawFeatures.forEach((raw, index) => {
+    const props = isRecord(raw.properties) ? raw.properties : {};
+    const { color, category } = classify(props);
+    const parts = parseGeoJson({ type: 'Feature', geometry: raw.geometry, properties: props });
+    const ceiling = numberFrom(props, CEILING_KEYS);
+
+    parts.forEach((part, partIndex) => {
+      zones.push(...featureToZones(part, props, {
+        name: part.name,
+        color: color ?? 'yellow',
+        category,
+        ceiling: ceiling !== undefined ? { value: ceiling, reference: 'agl' } : undefined,
+        source,
+        sourceFile: fileName,
+      }, `${source}-${stem}-${index}-${partIndex}`));
+    });
+  });
+
+  return zones;
+}
+
+/**
+ * Zones from an OpenAIP API v2 export: an array of airspace records (or an
+ * object with an items array), each with a GeoJSON geometry
+ */
+export function parseOpenAipJson(input: string | unknown, fileName: string = 'openaip.json'): AirspaceZone[] {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const records: RawRecord[] = (Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.items) ? data.items : [])
+    .filter(isRecord);
+  const stem = fileStem(fileName);
+  const zones: AirspaceZone[] = [];
+
+  const limit = (raw: unknown): AirspaceLimit | undefined => {
+    if (!isRecord(raw)) return undefined;
+    const unit = raw.unit === 6 ? 'FL' : raw.unit === 0 ? 'M' : 'F';
+    const reference = raw.referenceDatum === 0 ? 'GND' : raw.referenceDatum === 2 ? 'STD' : 'MSL';
+    return toLimit(Number(raw.value), unit, reference);
+  };
+
+  records.forEach((record, index) => {
+    const type = OPENAIP_TYPES[Number(record.type)] ?? OPENAIP_TYPES[0];
+    const name = typeof record.name === 'string' ? record.name : `Airspace ${index + 1}`;
+    const parts = parseGeoJson({ type: 'Feature', geometry: record.geometry, properties: { name } });
+
+    parts.forEach((part, partIndex) => {
+      zones.push(...featureToZones(part, {}, {
+        name: part.name,
+        color: type.color,
+        category: type.category,
+        floor: limit(record.lowerLimit),
+        ceiling: limit(record.upperLimit),
+        source: 'openaip',
+        sourceFile: fileName,
+      }, `openaip-${String(record._id ?? `${stem}-${index}`)}-${partIndex}`));
+    });
+  });
+
+  return zones;
+}
+
+/**
+ * Zones from an OpenAIP airspace file (.aip, file format 1.x XML)
+ */
+export function parseOpenAipXml(text: string, fileName: string = 'openaip.aip'): AirspaceZone[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('OpenAIP file is not valid XML');
+  }
+
+  const stem = fileStem(fileName);
+  const zones: AirspaceZone[] = [];
+  const childText = (parent: Element, tag: string): string | undefined =>
+    parent.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+  const limit = (parent: Element, tag: string): AirspaceLimit | undefined => {
+    const el = parent.getElementsByTagName(tag)[0];
+    const alt = el?.getElementsByTagName('ALT')[0];
+    if (!el || !alt) return undefined;
+    return toLimit(Number(alt.textContent), alt.getAttribute('UNIT') ?? 'F', el.getAttribute('REFERENCE') ?? 'MSL');
+  };
+
+  Array.from(doc.getElementsByTagName('ASP')).forEach((asp, index) => {
+    const category = (asp.getAttribute('CATEGORY') ?? 'OTHER').toUpperCase();
+    const vertices: LatLngPoint[] = (childText(asp, 'POLYGON') ?? '')
+      .split(',')
+      .map((pair) => pair.trim().split(/\s+/).map(Number))
+      .filter(([lon, lat]) => Number.isFinite(lat) && Number.isFinite(lon))
+      .map(([lon, lat]) => ({ lat, lng: lon }));
+
+    const first = vertices[0];
+    const last = vertices[vertices.length - 1];
+    if (vertices.length > 1 && first.lat === last.lat && first.lng === last.lng) vertices.pop();
+    if (vertices.length < 3) return;
+
+    zones.push({
+      id: `openaip-${childText(asp, 'ID') ?? `${stem}-${index}`}`,
+      name: childText(asp, 'NAME') ?? `Airspace ${index + 1}`,
+      color: CATEGORY_COLORS[category] ?? 'green',
+      category,
+      type: 'polygon',
+      vertices,
+      floor: limit(asp, 'ALTLIMIT_BOTTOM'),
+      ceiling: limit(asp, 'ALTLIMIT_TOP'),
+      source: 'openaip',
+      sourceFile: fileName,
+    });
+  });
+
+  return zones;
+}
+
+/**
+ * Zones from KML placemarks, classified by name, folder or extended data
+ */
+export function kmlFeaturesToAirspace(features: GeoFeature[], fileName: string = 'airspace.kml'): AirspaceZone[] {
+  const stem = fileStem(fileName);
+  return features.flatMap((feature, index) => {
+    const props: Record<string, unknown> = { ...feature.properties, zone: `${feature.folder ?? ''} ${feature.name}` };
+    const { color, category } = classify(props);
+    return featureToZones(feature, props, {
+      name: feature.name,
+      color: color ?? 'yellow',
+      category,
+      source: 'kml',
+      sourceFile: fileName,
+    }, `kml-${stem}-${index}`);
+  });
+}
+
+/**
+ * Detect the format of an airspace file and read its zones
+ */
+export function parseAirspaceFile(text: string, fileName: string): AirspaceZone[] {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('<')) {
+    if (/<OPENAIP[\s>]/i.test(trimmed)) return parseOpenAipXml(text, fileName);
+    return kmlFeaturesToAirspace(parseKml(text), fileName);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not a recognised airspace file`);
+  }
+
+  if (Array.isArray(data) || (isRecord(data) && Array.isArray(data.items))) {
+    return parseOpenAipJson(data, fileName);
+  }
+  const features = isRecord(data) && Array.isArray(data.features) ? data.features.filter(isRecord) : [];
+  const fromDigitalSky = features.some((f) => isRecord(f.properties) && classify(f.properties).color !== undefined);
+  return parseAirspaceGeoJson(data, fileName, fromDigitalSky ? 'digitalsky' : 'geojson');
+}
+
+/**
+ * Read an airspace file picked by the user
+ */
+export async function loadAirspaceFile(file: File): Promise<AirspaceZone[]> {
+  const zones = /\.kmz$/i.test(file.name)
+    ? kmlFeaturesToAirspace(await loadKmlFile(file), file.name)
+    : parseAirspaceFile(await file.text(), file.name);
+
+  if (zones.length === 0) {
+    throw new Error(`${file.name} contains no airspace zones`);
+  }
+  return zones;
+}
+
+// ============================================================================
+// Route Checks
+// ============================================================================
+
+/**
+ * Whether a point lies within the zone's horizontal outline
+ */
+export function isInsideAirspace(zone: AirspaceZone, point: LatLngPoint): boolean {
+  if (zone.type === 'circle') {
+    if (!zone.center || !zone.radius) return false;
+    return calculateDistance(point.lat, point.lng, zone.center.lat, zone.center.lng) <= zone.radius;
+  }
+  return isPointInPolygon(point, zone.vertices);
+}
+
+/**
+ * Whether a leg flown between two altitudes can be inside the zone's
+ * vertical band. Route altitudes are above takeoff, so floors referenced to
+ * mean sea level are ignored (the zone is assumed to reach the ground).
+ */
+function appliesAtAltitude(zone: AirspaceZone, altA?: number, altB?: number): boolean {
+  if (altA === undefined || altB === undefined) return true;
+  const low = Math.min(altA, altB);
+  const high = Math.max(altA, altB);
+
+  if (zone.floor?.reference === 'agl' && high < zone.floor.value) return false;
+  if (zone.ceiling && low > zone.ceiling.value) return false;
+  return true;
+}
+
+function legEntersZone(zone: AirspaceZone, a: LatLngPoint, b: LatLngPoint): boolean {
+  if (isInsideAirspace(zone, a) || isInsideAirspace(zone, b)) return true;
+
+  if (zone.type === 'circle') {
+    if (!zone.center || !zone.radius) return false;
+    // Closest approach of the leg to the centre, in a local frame at the centre
+    const pa = toLocalEnu(a, zone.center);
+    const pb = toLocalEnu(b, zone.center);
+    const dx = pb.east - pa.east;
+    const dy = pb.north - pa.north;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(pa.east * dx + pa.north * dy) / lengthSq)) : 0;
+    return Math.hypot(pa.east + t * dx, pa.north + t * dy) <= zone.radius;
+  }
+
+  return findLinePolygonIntersections(a, b, zone.vertices).length > 0;
+}
+
+/**
+ * Check every leg of a route against the airspace zones. Red zones block
+ * saving; yellow zones block it until a permission reference is recorded.
+ */
+export function checkRouteAirspace(
+  points: AirspaceRoutePoint[],
+  zones: AirspaceZone[],
+  permissions: AirspacePermissions = {}
+): AirspaceCheck {
+  const conflicts: AirspaceConflict[] = [];
+  const legs = points.length === 0 ? [] : points.length === 1
+    ? [[points[0], points[0]]]
+    : points.slice(1).map((point, i) => [points[i], point]);
+
+  zones.forEach((zone) => {
+    if (zone.color === 'green') return;
+
+    const conflict: AirspaceConflict = {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      color: zone.color,
+      category: zone.category,
+      legs: [],
+      firstPoint: { lat: 0, lng: 0 },
+    };
+
+    legs.forEach(([a, b], index) => {
+      if (!appliesAtAltitude(zone, a.alt, b.alt) || !legEntersZone(zone, a, b)) return;
+      if (conflict.legs.length === 0) conflict.firstPoint = isInsideAirspace(zone, a) ? { lat: a.lat, lng: a.lng } : { lat: b.lat, lng: b.lng };
+      conflict.legs.push(index);
+    });
+
+    if (conflict.legs.length > 0) conflicts.push(conflict);
+  });
+
+  const blocked = conflicts.filter((c) => c.color === 'red');
+  const needsPermission = conflicts.filter((c) => c.color === 'yellow' && !permissions[c.zoneId]?.trim());
+
+  return {
+    conflicts,
+    blocked,
+    needsPermission,
+    canSave: blocked.length === 0 && needsPermission.length === 0,
+  };
+}
+
+/**
+ * Check several routes, e.g. one per fleet vehicle. Each zone is listed
+ * once, with the legs of the first route that enters it.
+ */
+export function checkRoutesAirspace(
+  routes: AirspaceRoutePoint[][],
+  zones: AirspaceZone[],
+  permissions: AirspacePermissions = {}
+): AirspaceCheck {
+  const byZone = new Map<string, AirspaceConflict>();
+  routes.forEach((route) => {
+    checkRouteAirspace(route, zones, permissions).conflicts.forEach((conflict) => {
+      if (!byZone.has(conflict.zoneId)) byZone.set(conflict.zoneId, conflict);
+    });
+  });
+
+  const conflicts = Array.from(byZone.values());
+  const blocked = conflicts.filter((c) => c.color === 'red');
+  const needsPermission = conflicts.filter((c) => c.color === 'yellow' && !permissions[c.zoneId]?.trim());
+
+  return {
+    conflicts,
+    blocked,
+    needsPermission,
+    canSave: blocked.length === 0 && needsPermission.length === 0,
+  };
+}
+
+/**
+ * Reason a route cannot be saved, or null when it can
+ */
+export function airspaceSaveError(check: AirspaceCheck): string | null {
+  if (check.blocked.length > 0) {
+    return `Route enters red zone ${check.blocked.map((c) => c.zoneName).join(', ')}`;
+  }
+  if (check.needsPermission.length > 0) {
+    return `Permission reference required for yellow zone ${check.needsPermission.map((c) => c.zoneName).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Vertical limit for display, e.g. "1524 m AMSL"
+ */
+export function formatAirspaceLimit(limit: AirspaceLimit | undefined, fallback: string): string {
+  return limit ? `${Math.round(limit.value)} m ${limit.reference.toUpperCase()}` : fallback;
+}
+
+/**
+ * Permission references for the yellow zones a route enters, for saving
+ * with the mission
+ */
+export function airspacePermissionRecords(
+  check: AirspaceCheck,
+  permissions: AirspacePermissions
+): AirspacePermissionRecord[] {
+  return check.conflicts
+    .filter((c) => c.color === 'yellow' && permissions[c.zoneId]?.trim())
+    .map((c) => ({ zone_id: c.zoneId, zone_name: c.zoneName, reference: permissions[c.zoneId].trim() }));
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  parseAirspaceGeoJson,
+  parseOpenAipJson,
+  parseOpenAipXml,
+  kmlFeaturesToAirspace,
+  parseAirspaceFile,
+  loadAirspaceFile,
+  isInsideAirspace,
+  checkRouteAirspace,
+  checkRoutesAirspace,
+  airspaceSaveError,
+  airspacePermissionRecords,
+  formatAirspaceLimit,
+};
@@ -0,0 +1,204 @@
+/**
+ * Alert Rules
+ * Default telemetry alert rules and their evaluation. Threshold rules raise
+ * when the value crosses the threshold, and clear only once it is back past
+ * the threshold by the rule's hysteresis, so a value hovering at the limit
+ * does not flap.
+ */
+
+import { ALERT_CONFIG, MISSION_CONTROL_CONFIG } from '@/config/missionExecution.config';
+import { AlertRule, AlertRuleDirection, AlertRuleKind, AlertSeverity } from '@/types/alerts';
+import { VehicleTelemetry, getGPSFixTypeString } from '@/types/telemetry';
+
+// ============================================================================
+// Rule Kinds
+// ============================================================================
+
+export interface AlertRuleKindInfo {
+  label: string;
+  unit: string;
+  direction: AlertRuleDirection;
+}
+
+export const ALERT_RULE_KINDS: Record<AlertRuleKind, AlertRuleKindInfo> = {
+  battery_remaining: { label: 'Battery remaining', unit: '%', direction: 'below' },
+  battery_voltage_sag: { label: 'Voltage sag', unit: '% below peak', direction: 'above' },
+  gps_fix: { label: 'GPS fix type', unit: 'GPS_FIX_TYPE', direction: 'below' },
+  gps_hdop: { label: 'GPS HDOP', unit: '', direction: 'above' },
+  gps_satellites: { label: 'Satellites', unit: '', direction: 'below' },
+  altitude_ceiling: { label: 'Altitude ceiling', unit: 'm', direction: 'above' },
+  ground_speed: { label: 'Ground speed', unit: 'm/s', direction: 'above' },
+  link_stale: { label: 'Link stale', unit: 's', direction: 'above' },
+  mode_change: { label: 'Flight mode change', unit: '', direction: 'change' },
+};
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// Rule set used by vehicle types without their own
+export const DEFAULT_VEHICLE_TYPE = 'default';
+
+/**
+ * Built-in rules. Battery thresholds come from ALERT_CONFIG and the altitude
+ * ceiling from the highest takeoff altitude allowed.
+ */
+export function createDefaultRules(): AlertRule[] {
+  const ceiling = MISSION_CONTROL_CONFIG.maxTakeoffAltitude;
+
+  return [
+    {
+      kind: 'battery_remaining',
+      enabled: true,
+      severity: 'warning',
+      threshold: ALERT_CONFIG.batteryWarningThreshold,
+      critical: ALERT_CONFIG.batteryCriticalThreshold,
+      hysteresis: 2,
+      escalateAfter: 60,
+    },
+    { kind: 'battery_voltage_sag', enabled: true, severity: 'warning', threshold: 15, critical: 25, hysteresis: 3 },
+    { kind: 'gps_fix', enabled: true, severity: 'warning', threshold: 3, critical: 2, hysteresis: 0, escalateAfter: 30 },
+    { kind: 'gps_hdop', enabled: true, severity: 'warning', threshold: 2, critical: 5, hysteresis: 0.3 },
+    { kind: 'gps_satellites', enabled: true, severity: 'warning', threshold: 6, critical: 4, hysteresis: 1 },
+    { kind: 'altitude_ceiling', enabled: true, severity: 'warning', threshold: ceiling - 10, critical: ceiling, hysteresis: 5 },
+    { kind: 'ground_speed', enabled: false, severity: 'warning', threshold: 15, critical: 20, hysteresis: 1 },
+    { kind: 'link_stale', enabled: true, severity: 'warning', threshold: 3, critical: 10, hysteresis: 0, escalateAfter: 30 },
+    { kind: 'mode_change', enabled: true, severity: 'info', threshold: 0, hysteresis: 0, modes: [] },
+  ];
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Per-vehicle state a rule value depends on besides the latest sample
+ */
+export interface AlertRuleContext {
+  now: number; // epoch milliseconds
+  receivedAt: number; // when the latest sample arrived
+  peakVoltage?: number; // highest battery voltage seen, for voltage sag
+}
+
+/**
+ * The value a threshold rule compares, or undefined when the telemetry does
+ * not carry it
+ */
+export function readRuleValue(
+  kind: AlertRuleKind,
+  telemetry: VehicleTelemetry,
+  context: AlertRuleContext
+): number | undefined {
+  switch (kind) {
+    case 'battery_remaining':
+      return telemetry.battery?.remaining;
+    case 'battery_voltage_sag': {
+      const voltage = telemetry.battery?.voltage;
+      if (voltage === undefined || !context.peakVoltage) return undefined;
+      return ((context.peakVoltage - voltage) / context.peakVoltage) * 100;
+    }
+    case 'gps_fix':
+      return telemetry.gps?.fixType;
+    case 'gps_hdop':
+      return telemetry.gps?.hdop;
+    case 'gps_satellites':
+      return telemetry.gps?.satellites;
+    case 'altitude_ceiling':
+      return telemetry.position?.alt;
+    case 'ground_speed':
+      return telemetry.velocity?.groundSpeed;
+    case 'link_stale':
+      return Math.max(0, (context.now - context.receivedAt) / 1000);
+    case 'mode_change':
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Level a threshold rule is at for a value, given the level it was at before
+ * (null when clear)
+ */
+export function evaluateRule(rule: AlertRule, value: number, current: AlertSeverity | null): AlertSeverity | null {
+  const direction = ALERT_RULE_KINDS[rule.kind].direction;
+  if (direction === 'change') return current;
+
+  const crosses = (limit: number) => (direction === 'above' ? value > limit : value < limit);
+  const holds = (limit: number) =>
+    direction === 'above' ? value > limit - rule.hysteresis : value < limit + rule.hysteresis;
+
+  if (rule.critical !== undefined) {
+    if (crosses(rule.critical)) return 'critical';
+    if (current === 'critical' && holds(rule.critical)) return 'critical';
+  }
+  if (crosses(rule.threshold)) return rule.severity;
+  if (current !== null && holds(rule.threshold)) return rule.severity;
+  return null;
+}
+
+/**
+ * Whether a change into a mode raises a mode_change rule
+ */
+export function matchesModeRule(rule: AlertRule, mode: string): boolean {
+  const modes = rule.modes ?? [];
+  return modes.length === 0 || modes.some(m => m.toUpperCase() === mode.toUpperCase());
+}
+
+export function compareSeverity(a: AlertSeverity, b: AlertSeverity): number {
+  return ALERT_SEVERITIES.indexOf(a) - ALERT_SEVERITIES.indexOf(b);
+}
+
+/**
+ * The next severity up, for escalation. Critical stays critical.
+ */
+export function escalateSeverity(severity: AlertSeverity): AlertSeverity {
+  return ALERT_SEVERITIES[Math.min(ALERT_SEVERITIES.indexOf(severity) + 1, ALERT_SEVERITIES.length - 1)];
+}
+
+/**
+ * Operator-facing description of a threshold alert. The limit shown is the
+ * one for the level, which the value may be back inside of while the
+ * hysteresis holds the alert open.
+ */
+export function formatRuleMessage(rule: AlertRule, value: number, level: AlertSeverity): string {
+  const limit = level === 'critical' && rule.critical !== undefined ? rule.critical : rule.threshold;
+
+  switch (rule.kind) {
+    case 'battery_remaining':
+      return `Battery at ${value.toFixed(0)}% (limit ${limit}%)`;
+    case 'battery_voltage_sag':
+      return `Battery voltage ${value.toFixed(1)}% below peak (limit ${limit}%)`;
+    case 'gps_fix':
+      return `GPS ${getGPSFixTypeString(value)} (needs ${getGPSFixTypeString(limit)})`;
+    case 'gps_hdop':
+      return `GPS HDOP ${value.toFixed(1)} (limit ${limit})`;
+    case 'gps_satellites':
+      return `${value} satellites (needs ${limit})`;
+    case 'altitude_ceiling':
+      return `Altitude ${value.toFixed(0)} m (ceiling ${limit} m)`;
+    case 'ground_speed':
+      return `Ground speed ${value.toFixed(1)} m/s (limit ${limit} m/s)`;
+    case 'link_stale':
+      return `No telemetry for ${value.toFixed(0)} s`;
+    default:
+      return `${ALERT_RULE_KINDS[rule.kind].label}: ${value}`;
+  }
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  ALERT_RULE_KINDS,
+  ALERT_SEVERITIES,
+  DEFAULT_VEHICLE_TYPE,
+  createDefaultRules,
+  readRuleValue,
+  evaluateRule,
+  matchesModeRule,
+  compareSeverity,
+  escalateSeverity,
+  formatRuleMessage,
+};
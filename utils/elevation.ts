@@ -0,0 +1,466 @@
+/**
+ * Elevation
+ * Reads user-supplied DEM files (SRTM .hgt tiles, GeoTIFF) and samples terrain height
+ */
+
+import { DemTile, LatLngPoint } from '@/types/gridMission';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HGT_VOID = -32768;
+
+// TIFF tags
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+// GeoTIFF keys
+const KEY_MODEL_TYPE = 1024;
+const KEY_RASTER_TYPE = 1025;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_OLD = 32946;
+
+// ============================================================================
+// SRTM
+// ============================================================================
+
+/**
+ * Parse an SRTM .hgt tile. The south-west corner comes from the file name
+ * (e.g. N26E080.hgt); samples are big-endian 16-bit meters.
+ */
+export function parseHgtTile(buffer: ArrayBuffer, fileName: string): DemTile {
+  const match = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(fileName);
+  if (!match) {
+    throw new Error(`Cannot read tile position from ${fileName}; expected a name like N26E080.hgt`);
+  }
+
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+  if (size * size * 2 !== buffer.byteLength || size < 2) {
+    throw new Error(`${fileName} is not a square SRTM tile`);
+  }
+
+  const south = Number(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = Number(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+
+  const view = new DataView(buffer);
+  const data = new Float32Array(size * size);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = view.getInt16(i * 2, false);
+  }
+
+  // Samples sit on whole-degree edges, so the first row is the north edge
+  return {
+    name: fileName,
+    width: size,
+    height: size,
+    north: south + 1,
+    west,
+    latStep: 1 / (size - 1),
+    lngStep: 1 / (size - 1),
+    data,
+    noData: HGT_VOID,
+  };
+}
+
+// ============================================================================
+// GeoTIFF
+// ============================================================================
+
+type TagValue = number[] | string;
+
+/**
+ * Read the first IFD of a classic TIFF into a tag map
+ */
+function readTiffTags(view: DataView): { tags: Map<number, TagValue>; littleEndian: boolean } {
+  const byteOrder = view.getUint16(0, false);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    throw new Error('Not a TIFF file');
+  }
+  const littleEndian = byteOrder === 0x4949;
+
+  const magic = view.getUint16(2, littleEndian);
+  if (magic === 43) {
+    throw new Error('BigTIFF files are not supported; export the DEM as a classic GeoTIFF');
+  }
+  if (magic !== 42) {
+    throw new Error('Not a TIFF file');
+  }
+
+  const typeSizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 6: 1, 8: 2, 9: 4, 11: 4, 12: 8, 16: 8 };
+  const readValue = (type: number, offset: number): number => {
+    switch (type) {
+      case 3: return view.getUint16(offset, littleEndian);
+      case 4: return view.getUint32(offset, littleEndian);
+      case 6: return view.getInt8(offset);
+      case 8: return view.getInt16(offset, littleEndian);
+      case 9: return view.getInt32(offset, littleEndian);
+      case 11: return view.getFloat32(offset, littleEndian);
+      case 12: return view.getFloat64(offset, littleEndian);
+      default: return view.getUint8(offset);
+    }
+  };
+
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  const tags = new Map<number, TagValue>();
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const size = typeSizes[type];
+    if (!size) continue;
+
+    // Values that fit in four bytes are stored inline
+    const valueOffset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, count);
+      tags.set(tag, String.fromCharCode(...Array.from(bytes)).replace(/\0+$/, ''));
+    } else {
+      tags.set(tag, Array.from({ length: count }, (_, k) => readValue(type, valueOffset + k * size)));
+    }
+  }
+
+  return { tags, littleEndian };
+}
+
+/**
+ * TIFF-flavoured LZW: MSB-first codes, 9 to 12 bits, early code-width change
+ */
+function decodeLzw(input: Uint8Array): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+
+  let output = new Uint8Array(input.length * 4);
+  let outLength = 0;
+  const write = (bytes: Uint8Array) => {
+    if (outLength + bytes.length > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outLength + bytes.length));
+      grown.set(output);
+      output = grown;
+    }
+    output.set(bytes, outLength);
+    outLength += bytes.length;
+  };
+
+  let table: Uint8Array[] = [];
+  const resetTable = () => {
+    table = Array.from({ length: 258 }, (_, i) => Uint8Array.of(i & 0xff));
+  };
+  resetTable();
+
+  let codeLength = 9;
+  let bitPosition = 0;
+  let previous: Uint8Array | null = null;
+
+  while (bitPosition + codeLength <= input.length * 8) {
+    let code = 0;
+    for (let b = 0; b < codeLength; b++) {
+      const bit = (input[(bitPosition + b) >> 3] >> (7 - ((bitPosition + b) & 7))) & 1;
+      code = (code << 1) | bit;
+    }
+    bitPosition += codeLength;
+
+    if (code === END) break;
+    if (code === CLEAR) {
+      resetTable();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (previous === null) {
+      entry = table[code];
+    } else if (code < table.length) {
+      entry = table[code];
+      const added = new Uint8Array(previous.length + 1);
+      added.set(previous);
+      added[previous.length] = entry[0];
+      table.push(added);
+    } else {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0];
+      table.push(entry);
+    }
+
+    if (!entry) {
+      throw new Error('Corrupt LZW data in GeoTIFF');
+    }
+    write(entry);
+    previous = entry;
+
+    if (table.length >= (1 << codeLength) - 1 && codeLength < 12) {
+      codeLength++;
+    }
+  }
+
+  return output.subarray(0, outLength);
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Deflate-compressed GeoTIFFs need a browser with DecompressionStream support');
+  }
+  const stream = new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(input: Uint8Array, compression: number): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_LZW:
+      return decodeLzw(input);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD:
+      return inflate(input);
+    default:
+      throw new Error(`GeoTIFF compression ${compression} is not supported; use none, LZW or Deflate`);
+  }
+}
+
+const numberTag = (tags: Map<number, TagValue>, tag: number, fallback?: number): number => {
+  const value = tags.get(tag);
+  if (Array.isArray(value) && value.length > 0) return value[0];
+  if (fallback === undefined) {
+    throw new Error(`GeoTIFF is missing required tag ${tag}`);
+  }
+  return fallback;
+};
+
+const arrayTag = (tags: Map<number, TagValue>, tag: number): number[] => {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : [];
+};
+
+/**
+ * Parse a single-band GeoTIFF DEM in geographic (lat/lon) coordinates.
+ * Strips and tiles are supported, uncompressed or LZW/Deflate with
+ * horizontal-differencing prediction.
+ */
+export async function parseGeoTiff(buffer: ArrayBuffer, fileName: string): Promise<DemTile> {
+  const view = new DataView(buffer);
+  const { tags, littleEndian } = readTiffTags(view);
+
+  const width = numberTag(tags, TAG_IMAGE_WIDTH);
+  const height = numberTag(tags, TAG_IMAGE_LENGTH);
+  const bitsPerSample = numberTag(tags, TAG_BITS_PER_SAMPLE, 8);
+  const sampleFormat = numberTag(tags, TAG_SAMPLE_FORMAT, 1);
+  const samplesPerPixel = numberTag(tags, TAG_SAMPLES_PER_PIXEL, 1);
+  const compression = numberTag(tags, TAG_COMPRESSION, COMPRESSION_NONE);
+  const predictor = numberTag(tags, TAG_PREDICTOR, 1);
+
+  if (samplesPerPixel !== 1) {
+    throw new Error(`${fileName} has ${samplesPerPixel} bands; a DEM must have exactly one`);
+  }
+  if (predictor === 3) {
+    throw new Error('Floating-point predictor is not supported; re-export the DEM without it');
+  }
+
+  // Georeferencing
+  const geoKeys = arrayTag(tags, TAG_GEO_KEY_DIRECTORY);
+  const geoKey = (id: number): number | undefined => {
+    for (let i = 4; i + 3 < geoKeys.length; i += 4) {
+      if (geoKeys[i] === id && geoKeys[i + 1] === 0) return geoKeys[i + 3];
+    }
+    return undefined;
+  };
+  const modelType = geoKey(KEY_MODEL_TYPE);
+  if (modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) {
+    throw new Error(`${fileName} is projected; reproject the DEM to WGS84 latitude/longitude (EPSG:4326)`);
+  }
+
+  const scale = arrayTag(tags, TAG_MODEL_PIXEL_SCALE);
+  const tiepoint = arrayTag(tags, TAG_MODEL_TIEPOINT);
+  if (scale.length < 2 || tiepoint.length < 6) {
+    throw new Error(`${fileName} has no georeferencing (ModelPixelScale/ModelTiepoint)`);
+  }
+
+  // Pixel-is-area rasters reference the pixel corner; move to the center
+  const halfPixel = geoKey(KEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+  const west = tiepoint[3] + (halfPixel - tiepoint[0]) * scale[0];
+  const north = tiepoint[4] - (halfPixel - tiepoint[1]) * scale[1];
+
+  // Sample decoding
+  const bytesPerSample = bitsPerSample / 8;
+  const readSample = (bytes: DataView, offset: number): number => {
+    if (sampleFormat === 3) {
+      return bitsPerSample === 64 ? bytes.getFloat64(offset, littleEndian) : bytes.getFloat32(offset, littleEndian);
+    }
+    const signed = sampleFormat === 2;
+    switch (bitsPerSample) {
+      case 8: return signed ? bytes.getInt8(offset) : bytes.getUint8(offset);
+      case 16: return signed ? bytes.getInt16(offset, littleEndian) : bytes.getUint16(offset, littleEndian);
+      case 32: return signed ? bytes.getInt32(offset, littleEndian) : bytes.getUint32(offset, littleEndian);
+      default: throw new Error(`${bitsPerSample}-bit samples are not supported`);
+    }
+  };
+
+  const tiled = tags.has(TAG_TILE_OFFSETS);
+  const blockWidth = tiled ? numberTag(tags, TAG_TILE_WIDTH) : width;
+  const blockHeight = tiled ? numberTag(tags, TAG_TILE_LENGTH) : numberTag(tags, TAG_ROWS_PER_STRIP, height);
+  const offsets = arrayTag(tags, tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS);
+  const byteCounts = arrayTag(tags, tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS);
+  const blocksAcross = Math.ceil(width / blockWidth);
+
+  const data = new Float32Array(width * height);
+
+  for (let block = 0; block < offsets.length; block++) {
+    const raw = new Uint8Array(buffer, offsets[block], byteCounts[block]);
+    const bytes = await decompress(raw, compression);
+    const blockView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    const originX = (block % blocksAcross) * blockWidth;
+    const originY = Math.floor(block / blocksAcross) * blockHeight;
+
+    for (let row = 0; row < blockHeight && originY + row < height; row++) {
+      let previous = 0;
+      for (let col = 0; col < blockWidth; col++) {
+        const offset = (row * blockWidth + col) * bytesPerSample;
+        if (offset + bytesPerSample > bytes.byteLength) break;
+
+        let value = readSample(blockView, offset);
+        if (predictor === 2 && col > 0) {
+          // Horizontal differencing wraps at the sample width
+          value = wrapInteger(previous + value, bitsPerSample, sampleFormat === 2);
+        }
+        previous = value;
+
+        if (originX + col < width) {
+          data[(originY + row) * width + originX + col] = value;
+        }
+      }
+    }
+  }
+
+  const noDataTag = tags.get(TAG_GDAL_NODATA);
+  const noData = typeof noDataTag === 'string' && noDataTag.trim() !== '' ? Number(noDataTag) : undefined;
+
+  return {
+    name: fileName,
+    width,
+    height,
+    north,
+    west,
+    latStep: scale[1],
+    lngStep: scale[0],
+    data,
+    noData: Number.isFinite(noData) ? noData : undefined,
+  };
+}
+
+function wrapInteger(value: number, bits: number, signed: boolean): number {
+  const range = 2 ** bits;
+  let wrapped = ((value % range) + range) % range;
+  if (signed && wrapped >= range / 2) wrapped -= range;
+  return wrapped;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load a DEM file picked by the user
+ */
+export async function loadDemFile(file: File): Promise<DemTile> {
+  const buffer = await file.arrayBuffer();
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.hgt')) {
+    return parseHgtTile(buffer, file.name);
+  }
+  if (name.endsWith('.tif') || name.endsWith('.tiff')) {
+    return parseGeoTiff(buffer, file.name);
+  }
+  throw new Error(`${file.name}: unsupported DEM format, use SRTM .hgt or GeoTIFF`);
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Whether a tile covers a point
+ */
+function tileContains(tile: DemTile, point: LatLngPoint): boolean {
+  const row = (tile.north - point.lat) / tile.latStep;
+  const col = (point.lng - tile.west) / tile.lngStep;
+  return row >= 0 && col >= 0 && row <= tile.height - 1 && col <= tile.width - 1;
+}
+
+/**
+ * Terrain elevation (m AMSL) at a point, bilinear between the four nearest
+ * samples. Returns null outside the loaded tiles or over voids.
+ */
+export function sampleElevation(tiles: DemTile[], point: LatLngPoint): number | null {
+  const tile = tiles.find((t) => tileContains(t, point));
+  if (!tile) return null;
+
+  const row = (tile.north - point.lat) / tile.latStep;
+  const col = (point.lng - tile.west) / tile.lngStep;
+  const r0 = Math.min(Math.floor(row), tile.height - 2);
+  const c0 = Math.min(Math.floor(col), tile.width - 2);
+  const fr = row - r0;
+  const fc = col - c0;
+
+  const at = (r: number, c: number) => tile.data[r * tile.width + c];
+  const corners = [at(r0, c0), at(r0, c0 + 1), at(r0 + 1, c0), at(r0 + 1, c0 + 1)];
+  if (corners.some((v) => !Number.isFinite(v) || v === tile.noData)) {
+    return null;
+  }
+
+  const top = corners[0] + (corners[1] - corners[0]) * fc;
+  const bottom = corners[2] + (corners[3] - corners[2]) * fc;
+  return top + (bottom - top) * fr;
+}
+
+/**
+ * Geographic bounds covered by a tile
+ */
+export function demBounds(tile: DemTile): { north: number; south: number; west: number; east: number } {
+  return {
+    north: tile.north,
+    south: tile.north - (tile.height - 1) * tile.latStep,
+    west: tile.west,
+    east: tile.west + (tile.width - 1) * tile.lngStep,
+  };
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  parseHgtTile,
+  parseGeoTiff,
+  loadDemFile,
+  sampleElevation,
+  demBounds,
+};
@@ -0,0 +1,235 @@
+/**
+ * Energy Model
+ * Flight time and battery estimates from a vehicle performance profile
+ */
+
+import { Vehicle, VehiclePerformanceProfile } from '@/types';
+import { LatLngPoint } from '@/types/gridMission';
+import { geodesicDistance, geodesicBearing } from '@/utils/geodesy';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Generic survey quadcopter, used when a vehicle has no profile
+ */
+export const DEFAULT_PERFORMANCE_PROFILE: VehiclePerformanceProfile = {
+  cruiseSpeed: 10,
+  climbRate: 3,
+  descentRate: 2,
+  turnPenalty: 2,
+  batteryCapacity: 250,
+  hoverPower: 450,
+  cruisePower: 400,
+  reserve: {
+    minReservePercent: 20,
+    requireRthReserve: true,
+  },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EnergyPoint {
+  lat: number;
+  lng: number;
+  alt: number; // meters above home
+}
+
+export interface LegEnergy {
+  index: number;
+  distance: number; // meters, horizontal
+  climb: number; // meters, negative when descending
+  duration: number; // seconds
+  energy: number; // Wh
+  batteryRemaining: number; // % after the leg
+}
+
+export interface EnergyEstimate {
+  legs: LegEnergy[];
+  totalDistance: number; // meters
+  flightTime: number; // seconds
+  energy: number; // Wh
+  batteryUsage: number; // % of capacity
+  batteryRemaining: number; // % on landing
+  rthReserveRemaining: number; // lowest % left after a return home from any waypoint
+  feasible: boolean;
+}
+
+export interface EnergyEstimateOptions {
+  home?: LatLngPoint; // defaults to the first waypoint
+  includeTakeoffAndLanding?: boolean;
+  startBattery?: number; // % at takeoff, default 100
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve performance profile for a vehicle
+ */
+export function getPerformanceProfile(vehicle?: Vehicle | null): VehiclePerformanceProfile {
+  return vehicle?.performance ?? DEFAULT_PERFORMANCE_PROFILE;
+}
+
+const toWattHours = (watts: number, seconds: number): number => (watts * seconds) / 3600;
+
+/**
+ * Time and energy for a straight leg. Horizontal and vertical motion happen
+ * together; any vertical time beyond the horizontal time is spent hovering.
+ */
+function legCost(
+  from: EnergyPoint,
+  to: EnergyPoint,
+  profile: VehiclePerformanceProfile
+): { distance: number; climb: number; duration: number; energy: number } {
+  const distance = geodesicDistance(from.lat, from.lng, to.lat, to.lng);
+  const climb = to.alt - from.alt;
+
+  const horizontalTime = distance / profile.cruiseSpeed;
+  const verticalTime = climb >= 0 ? climb / profile.climbRate : -climb / profile.descentRate;
+  const hoverTime = Math.max(0, verticalTime - horizontalTime);
+
+  return {
+    distance,
+    climb,
+    duration: horizontalTime + hoverTime,
+    energy: toWattHours(profile.cruisePower, horizontalTime) + toWattHours(profile.hoverPower, hoverTime),
+  };
+}
+
+/**
+ * Extra time and energy for slowing through a waypoint turn
+ */
+function turnCost(
+  prev: EnergyPoint,
+  curr: EnergyPoint,
+  next: EnergyPoint,
+  profile: VehiclePerformanceProfile
+): { duration: number; energy: number } {
+  if (
+    (prev.lat === curr.lat && prev.lng === curr.lng) ||
+    (curr.lat === next.lat && curr.lng === next.lng)
+  ) {
+    return { duration: 0, energy: 0 };
+  }
+
+  const inBearing = geodesicBearing(prev.lat, prev.lng, curr.lat, curr.lng);
+  const outBearing = geodesicBearing(curr.lat, curr.lng, next.lat, next.lng);
+  const turn = Math.abs(((outBearing - inBearing + 540) % 360) - 180);
+  const duration = (turn / 90) * profile.turnPenalty;
+
+  return { duration, energy: toWattHours(profile.hoverPower, duration) };
+}
+
+/**
+ * Energy (Wh) to return home from a point and land
+ */
+export function returnHomeEnergy(
+  from: EnergyPoint,
+  home: LatLngPoint,
+  profile: VehiclePerformanceProfile
+): number {
+  const transit = legCost(from, { lat: home.lat, lng: home.lng, alt: from.alt }, profile);
+  const landing = legCost({ lat: home.lat, lng: home.lng, alt: from.alt }, { lat: home.lat, lng: home.lng, alt: 0 }, profile);
+  return transit.energy + landing.energy;
+}
+
+/**
+ * Usable cruise endurance above the reserve
+ */
+export function estimateEndurance(profile: VehiclePerformanceProfile): {
+  flightTime: number; // seconds
+  range: number; // meters
+} {
+  const usableWh = profile.batteryCapacity * (1 - profile.reserve.minReservePercent / 100);
+  const flightTime = (usableWh * 3600) / profile.cruisePower;
+  return { flightTime, range: flightTime * profile.cruiseSpeed };
+}
+
+// ============================================================================
+// Mission Estimate
+// ============================================================================
+
+/**
+ * Estimate per-leg and total energy for a waypoint sequence
+ */
+export function estimateMissionEnergy(
+  waypoints: EnergyPoint[],
+  profile: VehiclePerformanceProfile = DEFAULT_PERFORMANCE_PROFILE,
+  options: EnergyEstimateOptions = {}
+): EnergyEstimate {
+  const startBattery = options.startBattery ?? 100;
+  const home = options.home ?? (waypoints[0] ? { lat: waypoints[0].lat, lng: waypoints[0].lng } : undefined);
+
+  const path: EnergyPoint[] = [...waypoints];
+  if (home && options.includeTakeoffAndLanding !== false && waypoints.length > 0) {
+    path.unshift({ lat: home.lat, lng: home.lng, alt: 0 });
+    path.push({ lat: home.lat, lng: home.lng, alt: 0 });
+  }
+
+  const legs: LegEnergy[] = [];
+  let totalDistance = 0;
+  let flightTime = 0;
+  let energy = 0;
+  let rthReserveRemaining = startBattery;
+
+  const percentOf = (wh: number) => (wh / profile.batteryCapacity) * 100;
+
+  for (let i = 1; i < path.length; i++) {
+    const leg = legCost(path[i - 1], path[i], profile);
+    const turn = i + 1 < path.length ? turnCost(path[i - 1], path[i], path[i + 1], profile) : { duration: 0, energy: 0 };
+
+    const legEnergy = leg.energy + turn.energy;
+    totalDistance += leg.distance;
+    flightTime += leg.duration + turn.duration;
+    energy += legEnergy;
+
+    const batteryRemaining = startBattery - percentOf(energy);
+    legs.push({
+      index: i - 1,
+      distance: leg.distance,
+      climb: leg.climb,
+      duration: leg.duration + turn.duration,
+      energy: legEnergy,
+      batteryRemaining,
+    });
+
+    if (home) {
+      const afterReturn = batteryRemaining - percentOf(returnHomeEnergy(path[i], home, profile));
+      rthReserveRemaining = Math.min(rthReserveRemaining, afterReturn);
+    }
+  }
+
+  const batteryUsage = percentOf(energy);
+  const batteryRemaining = startBattery - batteryUsage;
+  const { minReservePercent, requireRthReserve } = profile.reserve;
+
+  return {
+    legs,
+    totalDistance,
+    flightTime,
+    energy,
+    batteryUsage,
+    batteryRemaining,
+    rthReserveRemaining,
+    feasible:
+      batteryRemaining >= minReservePercent &&
+      (!requireRthReserve || rthReserveRemaining >= minReservePercent),
+  };
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  DEFAULT_PERFORMANCE_PROFILE,
+  getPerformanceProfile,
+  returnHomeEnergy,
+  estimateEndurance,
+  estimateMissionEnergy,
+};
@@ -0,0 +1,39 @@
+/**
+ * File Download
+ * Saves generated mission files from the browser
+ */
+
+/**
+ * Offer text content as a file download
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string = 'application/json'): void {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
+
+/**
+ * Offer a blob as a file download
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * File-system safe name from a mission name
+ */
+export function toFileName(name: string, extension: string): string {
+  const base = name.trim().replace(/[^a-z0-9-_]+/gi, '_').replace(/^_+|_+$/g, '') || 'mission';
+  return `${base}.${extension}`;
+}
+
+export default {
+  downloadTextFile,
+  downloadBlob,
+  toFileName,
+};
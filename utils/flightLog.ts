@@ -0,0 +1,228 @@
+/**
+ * Flight Logs
+ * Shared pieces of the ULog and .tlog readers: sampling decoded messages into
+ * the canonical telemetry timeline, PX4 flight mode names, and the series
+ * plotted for post-flight analysis
+ */
+
+import { FlightLogChart, FlightLogLine } from '@/types/flightLog';
+import { VehicleTelemetry } from '@/types/telemetry';
+import { adaptTelemetry } from './telemetryAdapters';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FLIGHT_LOG_SAMPLE_INTERVAL = 200; // ms between timeline samples
+
+const MAX_CHART_POINTS = 600;
+
+// PX4 vehicle_status.nav_state
+const PX4_NAV_STATES: Record<number, string> = {
+  0: 'MANUAL',
+  1: 'ALTCTL',
+  2: 'POSCTL',
+  3: 'MISSION',
+  4: 'HOLD',
+  5: 'RTL',
+  10: 'ACRO',
+  12: 'DESCEND',
+  13: 'TERMINATION',
+  14: 'OFFBOARD',
+  15: 'STABILIZED',
+  17: 'TAKEOFF',
+  18: 'LAND',
+  19: 'FOLLOW_ME',
+  20: 'PRECISION_LAND',
+  21: 'ORBIT',
+  22: 'VTOL_TAKEOFF',
+};
+
+// PX4 HEARTBEAT.custom_mode: main mode in bits 16-23, AUTO sub mode in 24-31
+const PX4_MAIN_MODES: Record<number, string> = {
+  1: 'MANUAL',
+  2: 'ALTCTL',
+  3: 'POSCTL',
+  5: 'ACRO',
+  6: 'OFFBOARD',
+  7: 'STABILIZED',
+  8: 'RATTITUDE',
+};
+const PX4_MAIN_MODE_AUTO = 4;
+const PX4_AUTO_MODES: Record<number, string> = {
+  1: 'READY',
+  2: 'TAKEOFF',
+  3: 'HOLD',
+  4: 'MISSION',
+  5: 'RTL',
+  6: 'LAND',
+  8: 'FOLLOW_ME',
+  9: 'PRECISION_LAND',
+  10: 'VTOL_TAKEOFF',
+};
+
+// ============================================================================
+// Flight Modes
+// ============================================================================
+
+export const px4NavStateName = (navState: number): string =>
+  PX4_NAV_STATES[navState] ?? `NAV_STATE_${navState}`;
+
+export const px4CustomModeName = (customMode: number): string => {
+  const mainMode = (customMode >>> 16) & 0xff;
+  const subMode = (customMode >>> 24) & 0xff;
+  if (mainMode === PX4_MAIN_MODE_AUTO) return PX4_AUTO_MODES[subMode] ?? 'AUTO';
+  return PX4_MAIN_MODES[mainMode] ?? `MODE_${mainMode}`;
+};
+
+// ============================================================================
+// Timeline Sampling
+// ============================================================================
+
+export interface TimelineSampler {
+  /** Set a section of the wire payload as of t, in ms on the log's clock */
+  update: (t: number, section: string, value: unknown) => void;
+  /** Adapt the samples taken, shifting the log's clock to epoch ms */
+  finish: (vehicleId: string, clockOffset: number) => VehicleTelemetry[];
+  readonly sampleCount: number;
+}
+
+/**
+ * Collect the latest value of each payload section and take a snapshot every
+ * FLIGHT_LOG_SAMPLE_INTERVAL. Snapshots go through the telemetry adapters for
+ * schemaVersion, so logs get the same units and angles as live telemetry.
+ */
+export function createTimelineSampler(schemaVersion: number): TimelineSampler {
+  const state: Record<string, unknown> = {};
+  const samples: { t: number; payload: Record<string, unknown> }[] = [];
+  let lastSample = -Infinity;
+
+  return {
+    update(t, section, value) {
+      state[section] = value;
+      if (t - lastSample < FLIGHT_LOG_SAMPLE_INTERVAL) return;
+      lastSample = t;
+      samples.push({ t, payload: { ...state } });
+    },
+
+    finish(vehicleId, clockOffset) {
+      return samples.flatMap(({ t, payload }) => {
+        const telemetry = adaptTelemetry(
+          { ...payload, schema_version: schemaVersion, vehicle_id: vehicleId, timestamp: t + clockOffset },
+          'log'
+        );
+        return telemetry ? [telemetry] : [];
+      });
+    },
+
+    get sampleCount() {
+      return samples.length;
+    },
+  };
+}
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+/**
+ * Keep the minimum and maximum of each bucket, so spikes survive
+ */
+const decimate = (points: [number, number][]): [number, number][] => {
+  if (points.length <= MAX_CHART_POINTS) return points;
+
+  const bucketSize = Math.ceil(points.length / (MAX_CHART_POINTS / 2));
+  const result: [number, number][] = [];
+
+  for (let i = 0; i < points.length; i += bucketSize) {
+    const bucket = points.slice(i, i + bucketSize);
+    let min = bucket[0];
+    let max = bucket[0];
+    bucket.forEach((point) => {
+      if (point[1] < min[1]) min = point;
+      if (point[1] > max[1]) max = point;
+    });
+    result.push(...(min[0] <= max[0] ? [min, max] : [max, min]));
+  }
+
+  return result;
+};
+
+const line = (
+  name: string,
+  color: string,
+  telemetry: VehicleTelemetry[],
+  read: (sample: VehicleTelemetry) => number | undefined
+): FlightLogLine => ({
+  name,
+  color,
+  points: decimate(
+    telemetry.flatMap((sample): [number, number][] => {
+      const value = read(sample);
+      return value === undefined ? [] : [[sample.timestamp, value]];
+    })
+  ),
+});
+
+/**
+ * Altitude, battery, attitude, GPS quality and vibration series of a flight.
+ * Charts with no data in the timeline are left out.
+ */
+export function flightLogCharts(telemetry: VehicleTelemetry[]): FlightLogChart[] {
+  const charts: FlightLogChart[] = [
+    {
+      key: 'altitude',
+      label: 'Altitude',
+      unit: 'm',
+      lines: [line('Relative', '#38bdf8', telemetry, (s) => s.position?.alt)],
+    },
+    {
+      key: 'battery',
+      label: 'Battery',
+      unit: '%',
+      lines: [line('Remaining', '#22c55e', telemetry, (s) => s.battery?.remaining)],
+    },
+    {
+      key: 'voltage',
+      label: 'Battery Voltage',
+      unit: 'V',
+      lines: [line('Voltage', '#eab308', telemetry, (s) => s.battery?.voltage)],
+    },
+    {
+      key: 'attitude',
+      label: 'Attitude',
+      unit: '°',
+      lines: [
+        line('Roll', '#f87171', telemetry, (s) => s.attitude?.roll),
+        line('Pitch', '#4ade80', telemetry, (s) => s.attitude?.pitch),
+        line('Yaw', '#60a5fa', telemetry, (s) => s.attitude?.yaw),
+      ],
+    },
+    {
+      key: 'gps',
+      label: 'GPS Quality',
+      unit: '',
+      lines: [
+        line('Satellites', '#a78bfa', telemetry, (s) => s.gps?.satellites),
+        line('HDOP', '#f472b6', telemetry, (s) => s.gps?.hdop),
+      ],
+    },
+    {
+      key: 'vibration',
+      label: 'Vibration',
+      unit: 'm/s²',
+      lines: [line('Accel', '#fb923c', telemetry, (s) => s.vibration?.level)],
+    },
+  ];
+
+  return charts
+    .map((chart) => ({ ...chart, lines: chart.lines.filter((l) => l.points.length > 0) }))
+    .filter((chart) => chart.lines.length > 0);
+}
+
+export default {
+  createTimelineSampler,
+  flightLogCharts,
+  px4CustomModeName,
+  px4NavStateName,
+};
@@ -0,0 +1,262 @@
+/**
+ * Imported Feature Placement
+ * Maps features from GIS files onto survey areas, obstacles, corridors and waypoints
+ */
+
+import { Waypoint } from '@/types';
+import { LatLngPoint, ObstacleZone } from '@/types/gridMission';
+import { GeoFeature, GeoFeatureGeometry, GeoFeatureRole, GeoFeatureSelection } from '@/types/geoFeatures';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const GEO_FEATURE_ROLE_LABELS: Record<GeoFeatureRole, string> = {
+  survey_area: 'Survey area',
+  obstacle: 'Obstacle / no-fly',
+  corridor: 'Corridor',
+  waypoint: 'Waypoint',
+  ignore: 'Skip',
+};
+
+const ROLES_BY_GEOMETRY: Record<GeoFeatureGeometry, GeoFeatureRole[]> = {
+  polygon: ['survey_area', 'obstacle', 'ignore'],
+  linestring: ['corridor', 'ignore'],
+  point: ['waypoint', 'ignore'],
+};
+
+// Names that mark a polygon as restricted airspace rather than an AOI
+const NO_FLY_PATTERN = /no[\s_-]?fly|nfz|restrict|prohibit|obstacle|exclu|danger/i;
+
+// Attribute columns that usually hold a feature name or a height
+const NAME_FIELD_PATTERN = /^(name|label|title)$|name/i;
+const ALTITUDE_FIELD_PATTERN = /alt|height|hgt|elev|ceil|agl|^max_?h|^top/i;
+
+const OBSTACLE_COLOR = '#ef4444';
+const DEFAULT_OBSTACLE_CEILING = 120; // meters, covers the whole operating envelope
+const DEFAULT_ROUTE_ALTITUDE = 100; // meters AGL
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RoutePoint {
+  name?: string;
+  lat: number;
+  lng: number;
+  alt?: number; // meters AGL
+}
+
+export interface AttributeMapping {
+  nameField?: string; // column used as the feature name
+  altitudeField?: string; // column used as the height, in meters
+}
+
+export interface PlacedFeatures {
+  surveyArea?: LatLngPoint[];
+  corridor?: LatLngPoint[];
+  obstacles: ObstacleZone[];
+  waypoints: RoutePoint[];
+}
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+/**
+ * Roles a feature can take, restricted to those the caller supports
+ */
+export function rolesForFeature(feature: GeoFeature, allowed?: GeoFeatureRole[]): GeoFeatureRole[] {
+  return ROLES_BY_GEOMETRY[feature.geometry].filter((role) => !allowed || role === 'ignore' || allowed.includes(role));
+}
+
+/**
+ * Initial role for each feature: the first AOI polygon becomes the survey
+ * area, other polygons and anything named like a no-fly zone become
+ * obstacles, the first line becomes the corridor and points become waypoints.
+ */
+export function suggestRoles(features: GeoFeature[], allowed?: GeoFeatureRole[]): GeoFeatureRole[] {
+  let hasSurveyArea = false;
+  let hasCorridor = false;
+
+  return features.map((feature) => {
+    const roles = rolesForFeature(feature, allowed);
+    const pick = (role: GeoFeatureRole) => (roles.includes(role) ? role : roles[0]);
+
+    if (feature.role && roles.includes(feature.role)) {
+      hasSurveyArea = hasSurveyArea || feature.role === 'survey_area';
+      hasCorridor = hasCorridor || feature.role === 'corridor';
+      return feature.role;
+    }
+
+    switch (feature.geometry) {
+      case 'polygon': {
+        const restricted = NO_FLY_PATTERN.test(`${feature.name} ${feature.folder ?? ''}`);
+        if (!restricted && !hasSurveyArea && roles.includes('survey_area')) {
+          hasSurveyArea = true;
+          return 'survey_area';
+        }
+        return pick('obstacle');
+      }
+      case 'linestring':
+        if (!hasCorridor && roles.includes('corridor')) {
+          hasCorridor = true;
+          return 'corridor';
+        }
+        return 'ignore';
+      case 'point':
+        return pick('waypoint');
+    }
+  });
+}
+
+// ============================================================================
+// Attributes
+// ============================================================================
+
+/**
+ * Attribute columns present on any feature, in first-seen order
+ */
+export function attributeFields(features: GeoFeature[]): string[] {
+  const fields = new Set<string>();
+  features.forEach((feature) => Object.keys(feature.properties ?? {}).forEach((key) => fields.add(key)));
+  return Array.from(fields);
+}
+
+/**
+ * Guess the name and height columns from their names
+ */
+export function suggestAttributeMapping(fields: string[]): AttributeMapping {
+  return {
+    nameField: fields.find((field) => NAME_FIELD_PATTERN.test(field)),
+    altitudeField: fields.find((field) => ALTITUDE_FIELD_PATTERN.test(field)),
+  };
+}
+
+/**
+ * Rename features and set their altitudes from the mapped columns. Features
+ * with an empty or non-numeric value keep their own name or altitudes.
+ */
+export function applyAttributeMapping(features: GeoFeature[], mapping: AttributeMapping): GeoFeature[] {
+  return features.map((feature) => {
+    const name = mapping.nameField ? feature.properties?.[mapping.nameField]?.trim() : undefined;
+    const altitude = mapping.altitudeField ? parseFloat(feature.properties?.[mapping.altitudeField] ?? '') : NaN;
+
+    return {
+      ...feature,
+      name: name || feature.name,
+      altitudes: Number.isFinite(altitude) ? feature.coordinates.map(() => altitude) : feature.altitudes,
+    };
+  });
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Obstacle zone from a polygon feature. Source altitudes, when present,
+ * set the obstacle ceiling.
+ */
+export function featureToObstacle(feature: GeoFeature, index: number = 0): ObstacleZone {
+  if (feature.obstacle) return feature.obstacle;
+
+  const ceiling = feature.altitudes && feature.altitudes.some((alt) => alt > 0)
+    ? Math.max(...feature.altitudes)
+    : DEFAULT_OBSTACLE_CEILING;
+
+  return {
+    id: `import-${Date.now()}-${index}`,
+    name: feature.name,
+    type: 'polygon',
+    enabled: true,
+    vertices: feature.coordinates,
+    color: OBSTACLE_COLOR,
+    minAltitude: 0,
+    maxAltitude: ceiling,
+  };
+}
+
+/**
+ * Collect the selected features by role. Only the first survey area and
+ * corridor are used, and polygons are placed by their outer ring; what was
+ * left out is returned as skipped notes.
+ */
+export function placeFeatures(selections: GeoFeatureSelection[]): PlacedFeatures & { skipped: string[] } {
+  const placed: PlacedFeatures & { skipped: string[] } = { obstacles: [], waypoints: [], skipped: [] };
+
+  const skipHoles = (feature: GeoFeature) => {
+    const count = feature.holes?.length ?? 0;
+    if (count > 0) placed.skipped.push(`${feature.name}: ${count} hole${count > 1 ? 's' : ''} skipped`);
+  };
+
+  selections.forEach(({ feature, role }, index) => {
+    switch (role) {
+      case 'survey_area':
+        if (placed.surveyArea) {
+          placed.skipped.push(`${feature.name}: only the first survey area is used`);
+        } else {
+          placed.surveyArea = feature.coordinates;
+          skipHoles(feature);
+        }
+        break;
+      case 'corridor':
+        if (placed.corridor) {
+          placed.skipped.push(`${feature.name}: only the first corridor is used`);
+        } else {
+          placed.corridor = feature.coordinates;
+        }
+        break;
+      case 'obstacle':
+        placed.obstacles.push(featureToObstacle(feature, index));
+        skipHoles(feature);
+        break;
+      case 'waypoint':
+        placed.waypoints.push({
+          name: feature.name,
+          lat: feature.coordinates[0].lat,
+          lng: feature.coordinates[0].lng,
+          alt: feature.altitudes?.[0] || undefined,
+        });
+        break;
+    }
+  });
+
+  return placed;
+}
+
+/**
+ * Route planner waypoints (start, stops, end) from an ordered point list
+ */
+export function toRouteWaypoints(points: RoutePoint[]): Waypoint[] {
+  return points.map((point, index) => {
+    const isStart = index === 0;
+    const isEnd = index === points.length - 1;
+    const name = point.name ?? (isStart || isEnd ? 'Imported' : `Waypoint ${index}`);
+
+    return {
+      id: isStart ? 'start' : isEnd ? 'end' : `stop${index}`,
+      label: `${isStart ? 'Start' : isEnd ? 'End' : 'Stop'}: ${name}`,
+      coords: `${point.lat.toFixed(4)}° N, ${point.lng.toFixed(4)}° E`,
+      alt: `${Math.round(point.alt ?? DEFAULT_ROUTE_ALTITUDE)}m AGL`,
+      color: isStart ? 'bg-green-500' : isEnd ? 'bg-red-500' : 'bg-blue-500',
+      lat: point.lat,
+      lon: point.lng,
+    };
+  });
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  rolesForFeature,
+  suggestRoles,
+  attributeFields,
+  suggestAttributeMapping,
+  applyAttributeMapping,
+  featureToObstacle,
+  placeFeatures,
+  toRouteWaypoints,
+};
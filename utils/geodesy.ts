@@ -0,0 +1,665 @@
+/**
+ * Geodesy Utilities
+ * WGS84 ellipsoidal distance, bearing, destination, area, local ENU/UTM
+ * projection and polygon offsetting shared by all planners and map views
+ */
+
+import { LatLngPoint } from '@/types/gridMission';
+
+// ============================================================================
+// WGS84 Constants
+// ============================================================================
+
+export const WGS84_A = 6378137.0; // semi-major axis (m)
+export const WGS84_F = 1 / 298.257223563; // flattening
+export const WGS84_B = WGS84_A * (1 - WGS84_F); // semi-minor axis (m)
+export const WGS84_E2 = WGS84_F * (2 - WGS84_F); // first eccentricity squared
+export const WGS84_ELLIPSOID: Ellipsoid = { a: WGS84_A, f: WGS84_F };
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const VINCENTY_MAX_ITERATIONS = 200;
+const VINCENTY_TOLERANCE = 1e-12;
+
+export const toRadians = (degrees: number): number => degrees * DEG_TO_RAD;
+export const toDegrees = (radians: number): number => radians * RAD_TO_DEG;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EnuPoint {
+  east: number;
+  north: number;
+  up: number;
+}
+
+export interface Ellipsoid {
+  a: number; // semi-major axis (m)
+  f: number; // flattening
+}
+
+export interface UtmPoint {
+  zone: number;
+  hemisphere: 'N' | 'S';
+  easting: number;
+  northing: number;
+}
+
+// ============================================================================
+// Radii of Curvature
+// ============================================================================
+
+/**
+ * Meridional radius of curvature at latitude (m)
+ */
+export function meridionalRadius(latitude: number): number {
+  const sinLat = Math.sin(toRadians(latitude));
+  return (WGS84_A * (1 - WGS84_E2)) / Math.pow(1 - WGS84_E2 * sinLat * sinLat, 1.5);
+}
+
+/**
+ * Prime vertical radius of curvature at latitude (m)
+ */
+export function primeVerticalRadius(latitude: number): number {
+  const sinLat = Math.sin(toRadians(latitude));
+  return WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+}
+
+/**
+ * Convert meters north to degrees latitude at given latitude
+ */
+export function metersToDegreesLat(meters: number, latitude: number = 0): number {
+  return toDegrees(meters / meridionalRadius(latitude));
+}
+
+/**
+ * Convert meters east to degrees longitude at given latitude
+ */
+export function metersToDegreesLon(meters: number, latitude: number): number {
+  return toDegrees(meters / (primeVerticalRadius(latitude) * Math.cos(toRadians(latitude))));
+}
+
+// ============================================================================
+// Vincenty Inverse / Direct
+// ============================================================================
+
+/**
+ * Vincenty inverse solution. Returns distance (m) and initial/final bearings
+ * (degrees). Falls back to a spherical solution for near-antipodal points
+ * where the iteration does not converge.
+ */
+export function geodesicInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): { distance: number; initialBearing: number; finalBearing: number } {
+  if (lat1 === lat2 && lon1 === lon2) {
+    return { distance: 0, initialBearing: 0, finalBearing: 0 };
+  }
+
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 0;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) {
+      return { distance: 0, initialBearing: 0, finalBearing: 0 };
+    }
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const lambdaPrev = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - lambdaPrev) < VINCENTY_TOLERANCE) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) {
+    return sphericalInverse(lat1, lon1, lat2, lon2);
+  }
+
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  const distance = WGS84_B * A * (sigma - deltaSigma);
+  const alpha1 = Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+  const alpha2 = Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda);
+
+  return {
+    distance,
+    initialBearing: (toDegrees(alpha1) + 360) % 360,
+    finalBearing: (toDegrees(alpha2) + 360) % 360,
+  };
+}
+
+/**
+ * Spherical fallback for the inverse problem (mean earth radius)
+ */
+function sphericalInverse(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): { distance: number; initialBearing: number; finalBearing: number } {
+  const R = (2 * WGS84_A + WGS84_B) / 3;
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dPhi = phi2 - phi1;
+  const dLambda = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dPhi / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) ** 2;
+  const distance = 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  const bearing = (p1: number, p2: number, dl: number) =>
+    (toDegrees(
+      Math.atan2(Math.sin(dl) * Math.cos(p2), Math.cos(p1) * Math.sin(p2) - Math.sin(p1) * Math.cos(p2) * Math.cos(dl))
+    ) + 360) % 360;
+
+  return {
+    distance,
+    initialBearing: bearing(phi1, phi2, dLambda),
+    finalBearing: (bearing(phi2, phi1, -dLambda) + 180) % 360,
+  };
+}
+
+/**
+ * Ellipsoidal distance between two points (meters)
+ */
+export function geodesicDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return geodesicInverse(lat1, lon1, lat2, lon2).distance;
+}
+
+/**
+ * Ellipsoidal initial bearing from point 1 to point 2 (degrees from north)
+ */
+export function geodesicBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return geodesicInverse(lat1, lon1, lat2, lon2).initialBearing;
+}
+
+/**
+ * Vincenty direct solution: destination given distance (m) and bearing (deg)
+ */
+export function geodesicDestination(
+  lat: number,
+  lon: number,
+  distance: number,
+  bearing: number
+): LatLngPoint {
+  const alpha1 = toRadians(bearing);
+  const sinAlpha1 = Math.sin(alpha1);
+  const cosAlpha1 = Math.cos(alpha1);
+
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(lat));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  let sigma = distance / (WGS84_B * A);
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let cos2SigmaM = 0;
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma =
+      B *
+      sinSigma *
+      (cos2SigmaM +
+        (B / 4) *
+          (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+            (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+    const sigmaPrev = sigma;
+    sigma = distance / (WGS84_B * A) + deltaSigma;
+    if (Math.abs(sigma - sigmaPrev) < VINCENTY_TOLERANCE) break;
+  }
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const lat2 = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - WGS84_F) * Math.sqrt(sinAlpha * sinAlpha + x * x)
+  );
+  const lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1);
+  const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+  const L =
+    lambda -
+    (1 - C) *
+      WGS84_F *
+      sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    lat: toDegrees(lat2),
+    lng: ((lon + toDegrees(L) + 540) % 360) - 180,
+  };
+}
+
+// ============================================================================
+// Area
+// ============================================================================
+
+/**
+ * Approximate polygon area on the WGS84 ellipsoid in square meters.
+ * Latitudes are mapped to authalic latitudes, which preserve area, but edges
+ * are integrated as straight lines in longitude against the sine of the
+ * authalic latitude rather than as geodesics. Against geodesic edges the
+ * relative error stays below 0.01% for edges up to 10 km and below 0.1% up to
+ * 200 km; densify longer edges.
+ */
+export function geodesicPolygonArea(vertices: LatLngPoint[]): number {
+  if (vertices.length < 3) return 0;
+
+  const e = Math.sqrt(WGS84_E2);
+  const qp = 1 + ((1 - WGS84_E2) / (2 * e)) * Math.log((1 + e) / (1 - e));
+  const authalicRadius = WGS84_A * Math.sqrt(qp / 2);
+
+  const authalicLatitude = (latitude: number) => {
+    const sinPhi = Math.sin(toRadians(latitude));
+    const q =
+      (1 - WGS84_E2) *
+      (sinPhi / (1 - WGS84_E2 * sinPhi * sinPhi) -
+        (1 / (2 * e)) * Math.log((1 - e * sinPhi) / (1 + e * sinPhi)));
+    return Math.asin(Math.max(-1, Math.min(1, q / qp)));
+  };
+
+  let sum = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const p1 = vertices[i];
+    const p2 = vertices[(i + 1) % vertices.length];
+    let dLon = toRadians(p2.lng - p1.lng);
+    if (dLon > Math.PI) dLon -= 2 * Math.PI;
+    if (dLon < -Math.PI) dLon += 2 * Math.PI;
+    sum += dLon * (2 + Math.sin(authalicLatitude(p1.lat)) + Math.sin(authalicLatitude(p2.lat)));
+  }
+
+  return Math.abs((sum * authalicRadius * authalicRadius) / 2);
+}
+
+/**
+ * Ellipsoidal path length of a polyline in meters
+ */
+export function geodesicPathLength(points: LatLngPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += geodesicDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+  }
+  return length;
+}
+
+// ============================================================================
+// ECEF / Local ENU
+// ============================================================================
+
+/**
+ * Geodetic to earth-centered earth-fixed coordinates. Ellipsoid defaults to WGS84.
+ */
+export function geodeticToEcef(
+  lat: number,
+  lon: number,
+  alt: number = 0,
+  ellipsoid: Ellipsoid = WGS84_ELLIPSOID
+): [number, number, number] {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const N = ellipsoid.a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+
+  return [
+    (N + alt) * Math.cos(phi) * Math.cos(lambda),
+    (N + alt) * Math.cos(phi) * Math.sin(lambda),
+    (N * (1 - e2) + alt) * Math.sin(phi),
+  ];
+}
+
+/**
+ * Earth-centered earth-fixed to geodetic coordinates (Bowring iteration)
+ */
+export function ecefToGeodetic(
+  x: number,
+  y: number,
+  z: number,
+  ellipsoid: Ellipsoid = WGS84_ELLIPSOID
+): { lat: number; lng: number; alt: number } {
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const p = Math.hypot(x, y);
+  const lon = Math.atan2(y, x);
+  let phi = Math.atan2(z, p * (1 - e2));
+  let alt = 0;
+
+  for (let i = 0; i < 10; i++) {
+    const sinPhi = Math.sin(phi);
+    const N = ellipsoid.a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    alt = p / Math.cos(phi) - N;
+    const next = Math.atan2(z, p * (1 - (e2 * N) / (N + alt)));
+    if (Math.abs(next - phi) < 1e-14) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return { lat: toDegrees(phi), lng: toDegrees(lon), alt };
+}
+
+/**
+ * Project a point into the local east-north-up frame at origin (meters)
+ */
+export function toLocalEnu(point: LatLngPoint, origin: LatLngPoint, alt: number = 0, originAlt: number = 0): EnuPoint {
+  const [x, y, z] = geodeticToEcef(point.lat, point.lng, alt);
+  const [x0, y0, z0] = geodeticToEcef(origin.lat, origin.lng, originAlt);
+  const dx = x - x0;
+  const dy = y - y0;
+  const dz = z - z0;
+
+  const phi = toRadians(origin.lat);
+  const lambda = toRadians(origin.lng);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda);
+  const cosLambda = Math.cos(lambda);
+
+  return {
+    east: -sinLambda * dx + cosLambda * dy,
+    north: -sinPhi * cosLambda * dx - sinPhi * sinLambda * dy + cosPhi * dz,
+    up: cosPhi * cosLambda * dx + cosPhi * sinLambda * dy + sinPhi * dz,
+  };
+}
+
+/**
+ * Unproject a local east-north-up offset at origin back to lat/lng
+ */
+export function fromLocalEnu(
+  enu: { east: number; north: number; up?: number },
+  origin: LatLngPoint,
+  originAlt: number = 0
+): LatLngPoint & { alt: number } {
+  const up = enu.up ?? 0;
+  const phi = toRadians(origin.lat);
+  const lambda = toRadians(origin.lng);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda);
+  const cosLambda = Math.cos(lambda);
+
+  const [x0, y0, z0] = geodeticToEcef(origin.lat, origin.lng, originAlt);
+  const dx = -sinLambda * enu.east - sinPhi * cosLambda * enu.north + cosPhi * cosLambda * up;
+  const dy = cosLambda * enu.east - sinPhi * sinLambda * enu.north + cosPhi * sinLambda * up;
+  const dz = cosPhi * enu.north + sinPhi * up;
+
+  return ecefToGeodetic(x0 + dx, y0 + dy, z0 + dz);
+}
+
+/**
+ * Centroid of a set of points (arithmetic mean, fine for local areas)
+ */
+export function centroid(points: LatLngPoint[]): LatLngPoint {
+  if (points.length === 0) return { lat: 0, lng: 0 };
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+}
+
+// ============================================================================
+// UTM
+// ============================================================================
+
+const UTM_K0 = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+
+/**
+ * UTM zone number for a longitude (ignores Norway/Svalbard exceptions)
+ */
+export function utmZone(lon: number): number {
+  return Math.min(60, Math.max(1, Math.floor((lon + 180) / 6) + 1));
+}
+
+/**
+ * Transverse Mercator forward projection (Krüger series, sub-mm in zone).
+ * Ellipsoid defaults to WGS84.
+ */
+export function transverseMercatorForward(
+  lat: number,
+  lon: number,
+  centralMeridian: number,
+  scale: number = UTM_K0,
+  ellipsoid: Ellipsoid = WGS84_ELLIPSOID
+): { easting: number; northing: number } {
+  const n = ellipsoid.f / (2 - ellipsoid.f);
+  const A = (ellipsoid.a / (1 + n)) * (1 + (n * n) / 4 + (n ** 4) / 64);
+  const alpha = [
+    n / 2 - (2 / 3) * n * n + (5 / 16) * n ** 3,
+    (13 / 48) * n * n - (3 / 5) * n ** 3,
+    (61 / 240) * n ** 3,
+  ];
+
+  const phi = toRadians(lat);
+  const dLambda = toRadians(lon - centralMeridian);
+  const e = Math.sqrt(ellipsoid.f * (2 - ellipsoid.f));
+  const t = Math.sinh(Math.atanh(Math.sin(phi)) - e * Math.atanh(e * Math.sin(phi)));
+  const xiPrime = Math.atan2(t, Math.cos(dLambda));
+  const etaPrime = Math.atanh(Math.sin(dLambda) / Math.sqrt(1 + t * t));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= 3; j++) {
+    xi += alpha[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += alpha[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
+
+  return { easting: scale * A * eta, northing: scale * A * xi };
+}
+
+/**
+ * Transverse Mercator inverse projection (Krüger series)
+ */
+export function transverseMercatorInverse(
+  easting: number,
+  northing: number,
+  centralMeridian: number,
+  scale: number = UTM_K0,
+  ellipsoid: Ellipsoid = WGS84_ELLIPSOID
+): LatLngPoint {
+  const n = ellipsoid.f / (2 - ellipsoid.f);
+  const A = (ellipsoid.a / (1 + n)) * (1 + (n * n) / 4 + (n ** 4) / 64);
+  const beta = [
+    n / 2 - (2 / 3) * n * n + (37 / 96) * n ** 3,
+    (1 / 48) * n * n + (1 / 15) * n ** 3,
+    (17 / 480) * n ** 3,
+  ];
+  const delta = [
+    2 * n - (2 / 3) * n * n - 2 * n ** 3,
+    (7 / 3) * n * n - (8 / 5) * n ** 3,
+    (56 / 15) * n ** 3,
+  ];
+
+  const xi = northing / (scale * A);
+  const eta = easting / (scale * A);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= 3; j++) {
+    xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let phi = chi;
+  for (let j = 1; j <= 3; j++) {
+    phi += delta[j - 1] * Math.sin(2 * j * chi);
+  }
+
+  return {
+    lat: toDegrees(phi),
+    lng: centralMeridian + toDegrees(Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime))),
+  };
+}
+
+/**
+ * Convert lat/lng to UTM. Zone defaults to the one containing the point.
+ */
+export function toUtm(lat: number, lon: number, zone: number = utmZone(lon)): UtmPoint {
+  const centralMeridian = zone * 6 - 183;
+  const { easting, northing } = transverseMercatorForward(lat, lon, centralMeridian);
+
+  return {
+    zone,
+    hemisphere: lat >= 0 ? 'N' : 'S',
+    easting: easting + UTM_FALSE_EASTING,
+    northing: lat >= 0 ? northing : northing + UTM_FALSE_NORTHING_SOUTH,
+  };
+}
+
+/**
+ * Convert UTM to lat/lng
+ */
+export function fromUtm(utm: UtmPoint): LatLngPoint {
+  const centralMeridian = utm.zone * 6 - 183;
+  const northing = utm.hemisphere === 'S' ? utm.northing - UTM_FALSE_NORTHING_SOUTH : utm.northing;
+  return transverseMercatorInverse(utm.easting - UTM_FALSE_EASTING, northing, centralMeridian);
+}
+
+// ============================================================================
+// Polygon Offsetting
+// ============================================================================
+
+/**
+ * Offset a polygon by distance meters (positive grows, negative shrinks).
+ * Edges are shifted along their normals in a local ENU frame and joined with
+ * mitered corners; sharp corners are beveled beyond miterLimit × distance.
+ */
+export function offsetPolygon(
+  vertices: LatLngPoint[],
+  distance: number,
+  miterLimit: number = 4
+): LatLngPoint[] {
+  if (vertices.length < 3 || distance === 0) return [...vertices];
+
+  const origin = centroid(vertices);
+  const local = vertices.map((v) => toLocalEnu(v, origin));
+
+  // Signed area: positive when counter-clockwise
+  let signedArea = 0;
+  for (let i = 0; i < local.length; i++) {
+    const a = local[i];
+    const b = local[(i + 1) % local.length];
+    signedArea += a.east * b.north - b.east * a.north;
+  }
+  const outward = signedArea > 0 ? 1 : -1;
+
+  const offsetEdges = local.map((a, i) => {
+    const b = local[(i + 1) % local.length];
+    const length = Math.hypot(b.east - a.east, b.north - a.north) || 1;
+    // Right-hand normal points outward for counter-clockwise polygons
+    const nx = ((b.north - a.north) / length) * outward * distance;
+    const ny = (-(b.east - a.east) / length) * outward * distance;
+    return {
+      a: { east: a.east + nx, north: a.north + ny },
+      b: { east: b.east + nx, north: b.north + ny },
+    };
+  });
+
+  const result: LatLngPoint[] = [];
+
+  offsetEdges.forEach((edge, i) => {
+    const prev = offsetEdges[(i - 1 + offsetEdges.length) % offsetEdges.length];
+    const corner = local[i];
+
+    const d1 = { east: prev.b.east - prev.a.east, north: prev.b.north - prev.a.north };
+    const d2 = { east: edge.b.east - edge.a.east, north: edge.b.north - edge.a.north };
+    const denom = d1.east * d2.north - d1.north * d2.east;
+
+    if (Math.abs(denom) > 1e-9) {
+      const t =
+        ((edge.a.east - prev.a.east) * d2.north - (edge.a.north - prev.a.north) * d2.east) / denom;
+      const miter = { east: prev.a.east + t * d1.east, north: prev.a.north + t * d1.north };
+
+      if (Math.hypot(miter.east - corner.east, miter.north - corner.north) <= Math.abs(distance) * miterLimit) {
+        result.push(fromLocalEnu(miter, origin));
+        return;
+      }
+    }
+
+    // Parallel edges or too-sharp corner: bevel
+    result.push(fromLocalEnu(prev.b, origin));
+    result.push(fromLocalEnu(edge.a, origin));
+  });
+
+  return result.map(({ lat, lng }) => ({ lat, lng }));
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  meridionalRadius,
+  primeVerticalRadius,
+  metersToDegreesLat,
+  metersToDegreesLon,
+  geodesicInverse,
+  geodesicDistance,
+  geodesicBearing,
+  geodesicDestination,
+  geodesicPolygonArea,
+  geodesicPathLength,
+  geodeticToEcef,
+  ecefToGeodetic,
+  toLocalEnu,
+  fromLocalEnu,
+  centroid,
+  utmZone,
+  transverseMercatorForward,
+  transverseMercatorInverse,
+  toUtm,
+  fromUtm,
+  offsetPolygon,
+};
@@ -0,0 +1,202 @@
+/**
+ * Geofence Evaluation
+ * Checks vehicle fixes against inclusion and exclusion zones, at the current
+ * position and along the current velocity vector
+ */
+
+import { LatLngPoint, ObstacleZone } from '@/types/gridMission';
+import {
+  GeofenceCheck,
+  GeofenceViolation,
+  GeofenceViolationReason,
+  GeofenceZone,
+  PredictedGeofenceViolation,
+  VehicleFix,
+} from '@/types/geofence';
+import { calculateDistance, isPointInPolygon } from './gridMissionUtils';
+import { metersToDegreesLat, metersToDegreesLon, toLocalEnu } from './geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_PREDICTION_HORIZON = 10; // seconds
+const DEFAULT_PREDICTION_STEP = 1; // seconds
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeofenceCheckOptions {
+  horizon?: number; // seconds of look-ahead along the velocity vector
+  step?: number; // seconds between look-ahead samples
+  entered?: Set<string>; // arm-on-entry zones the vehicle has been inside
+}
+
+export interface MissionAreaZoneOptions {
+  id?: string;
+  name?: string;
+  source?: 'corridor' | 'survey_area';
+  maxAltitude?: number; // meters, ceiling of the flight volume
+}
+
+// ============================================================================
+// Zone Construction
+// ============================================================================
+
+/**
+ * Exclusion zone for an obstacle, over the obstacle's altitude band
+ */
+export function obstacleToGeofenceZone(obstacle: ObstacleZone): GeofenceZone {
+  return {
+    id: `obstacle-${obstacle.id}`,
+    name: obstacle.name,
+    kind: 'exclusion',
+    type: obstacle.type,
+    vertices: obstacle.vertices,
+    center: obstacle.center,
+    radius: obstacle.radius,
+    minAltitude: obstacle.minAltitude,
+    maxAltitude: obstacle.maxAltitude,
+    source: 'obstacle',
+  };
+}
+
+/**
+ * Inclusion zone for a mission corridor or survey polygon. It is armed on
+ * entry, so takeoff and transit from a home outside the polygon do not alarm.
+ */
+export function missionAreaGeofenceZone(vertices: LatLngPoint[], options: MissionAreaZoneOptions = {}): GeofenceZone {
+  const source = options.source ?? 'corridor';
+  return {
+    id: options.id ?? `mission-${source}`,
+    name: options.name ?? (source === 'corridor' ? 'Mission corridor' : 'Survey area'),
+    kind: 'inclusion',
+    type: 'polygon',
+    vertices,
+    maxAltitude: options.maxAltitude,
+    source,
+    armOnEntry: true,
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Whether a point lies within the zone's horizontal outline
+ */
+export function isInsideZone(zone: GeofenceZone, point: LatLngPoint): boolean {
+  if (zone.type === 'circle') {
+    if (!zone.center || !zone.radius) return false;
+    return calculateDistance(point.lat, point.lng, zone.center.lat, zone.center.lng) <= zone.radius;
+  }
+  return zone.vertices.length >= 3 && isPointInPolygon(point, zone.vertices);
+}
+
+/**
+ * Violation of one zone at a position, or null. Exclusion zones are violated
+ * inside their altitude band; inclusion zones outside the outline or band.
+ */
+export function zoneViolation(
+  zone: GeofenceZone,
+  point: LatLngPoint,
+  alt: number,
+  entered?: Set<string>
+): GeofenceViolation | null {
+  const violation = (reason: GeofenceViolationReason): GeofenceViolation => ({
+    zoneId: zone.id,
+    zoneName: zone.name,
+    kind: zone.kind,
+    reason,
+  });
+  const inside = isInsideZone(zone, point);
+
+  if (zone.kind === 'exclusion') {
+    const inBand = alt >= (zone.minAltitude ?? -Infinity) && alt <= (zone.maxAltitude ?? Infinity);
+    return inside && inBand ? violation('inside') : null;
+  }
+
+  if (zone.armOnEntry && !entered?.has(zone.id)) return null;
+  if (!inside) return violation('outside');
+  if (zone.maxAltitude !== undefined && alt > zone.maxAltitude) return violation('above');
+  if (zone.minAltitude !== undefined && alt < zone.minAltitude) return violation('below');
+  return null;
+}
+
+/**
+ * Dead-reckon a fix forward at constant velocity
+ */
+export function projectFix(fix: VehicleFix, seconds: number): { point: LatLngPoint; alt: number } {
+  const north = (fix.vn ?? 0) * seconds;
+  const east = (fix.ve ?? 0) * seconds;
+
+  return {
+    point: {
+      lat: fix.lat + metersToDegreesLat(north, fix.lat),
+      lng: fix.lon + metersToDegreesLon(east, fix.lat),
+    },
+    alt: fix.alt - (fix.vd ?? 0) * seconds,
+  };
+}
+
+/**
+ * Velocity between two consecutive fixes, for sources that report position only
+ */
+export function estimateVelocity(previous: VehicleFix, current: VehicleFix): Pick<VehicleFix, 'vn' | 've' | 'vd'> | null {
+  const dt = (current.timestamp - previous.timestamp) / 1000;
+  if (dt <= 0) return null;
+
+  const enu = toLocalEnu({ lat: current.lat, lng: current.lon }, { lat: previous.lat, lng: previous.lon });
+  return {
+    vn: enu.north / dt,
+    ve: enu.east / dt,
+    vd: (previous.alt - current.alt) / dt,
+  };
+}
+
+/**
+ * Current breaches of a fix, and for the remaining zones the first breach
+ * along the velocity vector within the horizon
+ */
+export function checkFix(fix: VehicleFix, zones: GeofenceZone[], options: GeofenceCheckOptions = {}): GeofenceCheck {
+  const { horizon = DEFAULT_PREDICTION_HORIZON, step = DEFAULT_PREDICTION_STEP, entered } = options;
+  const breaches: GeofenceViolation[] = [];
+  const predicted: PredictedGeofenceViolation[] = [];
+  const moving = Boolean(fix.vn || fix.ve || fix.vd);
+
+  zones.forEach((zone) => {
+    const current = zoneViolation(zone, { lat: fix.lat, lng: fix.lon }, fix.alt, entered);
+    if (current) {
+      breaches.push(current);
+      return;
+    }
+    if (!moving || step <= 0) return;
+
+    for (let t = step; t <= horizon; t += step) {
+      const { point, alt } = projectFix(fix, t);
+      const ahead = zoneViolation(zone, point, alt, entered);
+      if (ahead) {
+        predicted.push({ ...ahead, timeToBreach: t });
+        break;
+      }
+    }
+  });
+
+  return { breaches, predicted };
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  obstacleToGeofenceZone,
+  missionAreaGeofenceZone,
+  isInsideZone,
+  zoneViolation,
+  projectFix,
+  estimateVelocity,
+  checkFix,
+};
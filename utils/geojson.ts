@@ -0,0 +1,644 @@
+/**
+ * GeoJSON Interchange
+ * Exports missions, routes, obstacles and flown tracks for GIS tools and reads them back
+ */
+
+import { Waypoint } from '@/types';
+import {
+  GridLine,
+  GridMissionConfig,
+  GridMissionPlan,
+  GridWaypoint,
+  LatLngPoint,
+  ObstacleZone,
+} from '@/types/gridMission';
+import { GeoFeature, GeoFeatureRole } from '@/types/geoFeatures';
+import {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonGeometry,
+  GeoJsonPosition,
+  GeoJsonProperties,
+} from '@/types/geojson';
+import { geodesicDestination } from '@/utils/geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MISSION_FORMAT = 'skyroutex-grid-mission';
+const MISSION_FORMAT_VERSION = 1;
+const CIRCLE_SEGMENTS = 64;
+
+// Feature kinds written to the "kind" property
+export type GeoJsonFeatureKind =
+  | 'survey_area'
+  | 'corridor'
+  | 'obstacle'
+  | 'grid_point' // generated grid point, including blocked ones
+  | 'waypoint' // flown mission waypoint
+  | 'mission_path'
+  | 'route_waypoint'
+  | 'route_path'
+  | 'flight_track';
+
+const KIND_ROLES: Partial<Record<GeoJsonFeatureKind, GeoFeatureRole>> = {
+  survey_area: 'survey_area',
+  corridor: 'corridor',
+  obstacle: 'obstacle',
+  route_waypoint: 'waypoint',
+};
+
+// Optional waypoint fields carried as feature properties
+const WAYPOINT_FIELDS = [
+  'isBlocked',
+  'blockingObstacle',
+  'isDetour',
+  'detourAround',
+  'legBlockedBy',
+  'isTransit',
+  'heading',
+  'gimbalPitch',
+  'terrainElevation',
+  'agl',
+  'isTerrainPoint',
+] as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FlightTrackPoint {
+  lat: number;
+  lon: number;
+  alt?: number;
+  timestamp: number; // ms since epoch
+}
+
+/**
+ * Plan fields with no geometry, stored as a foreign member of the collection
+ */
+interface MissionMember {
+  format: typeof MISSION_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  config: Omit<GridMissionConfig, 'obstacles'>;
+  stats: GridMissionPlan['stats'];
+  lines: Omit<GridLine, 'waypoints'>[];
+  home?: LatLngPoint;
+  homeElevation?: number;
+  vehicleId?: string;
+  sorties?: GridMissionPlan['sorties'];
+  terrainWarnings?: GridMissionPlan['terrainWarnings'];
+}
+
+// ============================================================================
+// Export Helpers
+// ============================================================================
+
+const toPosition = (p: LatLngPoint, alt?: number): GeoJsonPosition =>
+  alt === undefined ? [p.lng, p.lat] : [p.lng, p.lat, alt];
+
+const closeRing = (ring: LatLngPoint[]): GeoJsonPosition[] => [...ring, ring[0]].map((p) => toPosition(p));
+
+function feature(geometry: GeoJsonGeometry, properties: GeoJsonProperties): GeoJsonFeature {
+  return { type: 'Feature', geometry, properties };
+}
+
+function circleRing(center: LatLngPoint, radius: number): LatLngPoint[] {
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) =>
+    geodesicDestination(center.lat, center.lng, radius, (i * 360) / CIRCLE_SEGMENTS)
+  );
+}
+
+function obstacleFeature(obstacle: ObstacleZone): GeoJsonFeature | null {
+  const isCircle = obstacle.type === 'circle' && obstacle.center && obstacle.radius;
+  const ring = isCircle ? circleRing(obstacle.center!, obstacle.radius!) : obstacle.vertices;
+  if (ring.length < 3) return null;
+
+  return feature(
+    { type: 'Polygon', coordinates: [closeRing(ring)] },
+    {
+      kind: 'obstacle',
+      id: obstacle.id,
+      name: obstacle.name,
+      shape: obstacle.type,
+      enabled: obstacle.enabled,
+      color: obstacle.color,
+      minAltitude: obstacle.minAltitude,
+      maxAltitude: obstacle.maxAltitude,
+      ...(isCircle
+        ? { radius: obstacle.radius, centerLat: obstacle.center!.lat, centerLng: obstacle.center!.lng }
+        : {}),
+    }
+  );
+}
+
+function waypointFeature(wp: GridWaypoint, kind: 'grid_point' | 'waypoint'): GeoJsonFeature {
+  const properties: GeoJsonProperties = {
+    kind,
+    sequence: wp.sequence,
+    lineIndex: wp.lineIndex,
+    altitude: wp.position.alt,
+    isValid: wp.isValid,
+  };
+  WAYPOINT_FIELDS.forEach((field) => {
+    if (wp[field] !== undefined) properties[field] = wp[field];
+  });
+
+  return feature(
+    { type: 'Point', coordinates: [wp.position.lon, wp.position.lat, wp.position.alt] },
+    properties
+  );
+}
+
+const collection = (features: (GeoJsonFeature | null)[], members: Record<string, unknown> = {}): GeoJsonFeatureCollection => ({
+  type: 'FeatureCollection',
+  ...members,
+  features: features.filter((f): f is GeoJsonFeature => f !== null),
+});
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Obstacle zones as polygons carrying their altitude band. Circles are
+ * drawn as polygons and keep their center and radius as properties.
+ */
+export function obstaclesToGeoJson(obstacles: ObstacleZone[]): GeoJsonFeatureCollection {
+  return collection(obstacles.map(obstacleFeature));
+}
+
+/**
+ * Full grid mission: survey area or corridor, obstacles, every generated grid
+ * point, the flown waypoints and the flown path. Everything without a
+ * geometry travels in the "mission" member so the plan reads back unchanged.
+ */
+export function gridPlanToGeoJson(plan: GridMissionPlan): GeoJsonFeatureCollection {
+  const { config } = plan;
+  const { obstacles, ...configRest } = config;
+
+  const mission: MissionMember = {
+    format: MISSION_FORMAT,
+    version: MISSION_FORMAT_VERSION,
+    id: plan.id,
+    name: plan.name,
+    createdAt: plan.createdAt,
+    config: configRest,
+    stats: plan.stats,
+    lines: plan.gridLines.map(({ waypoints: _waypoints, ...line }) => line),
+    home: plan.home,
+    homeElevation: plan.homeElevation,
+    vehicleId: plan.vehicleId,
+    sorties: plan.sorties,
+    terrainWarnings: plan.terrainWarnings,
+  };
+
+  const area = config.surveyArea.vertices;
+  const centerline = config.corridor?.centerline ?? [];
+
+  return collection(
+    [
+      area.length >= 3
+        ? feature(
+          { type: 'Polygon', coordinates: [closeRing(area)] },
+          { kind: 'survey_area', name: config.surveyArea.name, color: config.surveyArea.color }
+        )
+        : null,
+      centerline.length >= 2
+        ? feature(
+          { type: 'LineString', coordinates: centerline.map((p) => toPosition(p)) },
+          { kind: 'corridor', name: `${plan.name} corridor`, width: config.corridor!.width }
+        )
+        : null,
+      ...obstacles.map(obstacleFeature),
+      ...plan.allWaypoints.map((wp) => waypointFeature(wp, 'grid_point')),
+      ...plan.validWaypoints.map((wp) => waypointFeature(wp, 'waypoint')),
+      plan.validWaypoints.length >= 2
+        ? feature(
+          {
+            type: 'LineString',
+            coordinates: plan.validWaypoints.map((wp) => [wp.position.lon, wp.position.lat, wp.position.alt]),
+          },
+          { kind: 'mission_path', name: plan.name }
+        )
+        : null,
+    ],
+    { name: plan.name, mission }
+  );
+}
+
+/**
+ * Route planner waypoints as points plus the connecting path
+ */
+export function routeToGeoJson(
+  waypoints: Waypoint[],
+  parseAltitude: (alt: string) => number,
+  name: string = 'Route'
+): GeoJsonFeatureCollection {
+  return collection(
+    [
+      ...waypoints.map((wp, index) =>
+        feature(
+          { type: 'Point', coordinates: [wp.lon, wp.lat, parseAltitude(wp.alt)] },
+          {
+            kind: 'route_waypoint',
+            sequence: index,
+            id: wp.id,
+            name: wp.label,
+            label: wp.label,
+            coords: wp.coords,
+            alt: wp.alt,
+            altitude: parseAltitude(wp.alt),
+            color: wp.color,
+          }
+        )
+      ),
+      waypoints.length >= 2
+        ? feature(
+          { type: 'LineString', coordinates: waypoints.map((wp) => [wp.lon, wp.lat, parseAltitude(wp.alt)]) },
+          { kind: 'route_path', name }
+        )
+        : null,
+    ],
+    { name }
+  );
+}
+
+/**
+ * Recorded flight path as a 3D line; per-vertex times go in "timestamps"
+ * (ms since epoch) and "coordTimes" (ISO 8601, as GPX/KML converters write)
+ */
+export function flightTrackToGeoJson(points: FlightTrackPoint[], name: string = 'Flight track'): GeoJsonFeatureCollection {
+  if (points.length < 2) {
+    return collection([]);
+  }
+
+  return collection([
+    feature(
+      {
+        type: 'LineString',
+        coordinates: points.map((p) => (p.alt === undefined ? [p.lon, p.lat] : [p.lon, p.lat, p.alt])),
+      },
+      {
+        kind: 'flight_track',
+        name,
+        startTime: new Date(points[0].timestamp).toISOString(),
+        endTime: new Date(points[points.length - 1].timestamp).toISOString(),
+        timestamps: points.map((p) => p.timestamp),
+        coordTimes: points.map((p) => new Date(p.timestamp).toISOString()),
+      }
+    ),
+  ]);
+}
+
+// ============================================================================
+// Import Helpers
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is GeoJsonPosition =>
+  Array.isArray(value) && value.length >= 2 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+const toLatLng = (position: GeoJsonPosition): LatLngPoint => ({ lat: position[1], lng: position[0] });
+
+const numberProp = (props: GeoJsonProperties, key: string): number | undefined =>
+  typeof props[key] === 'number' ? (props[key] as number) : undefined;
+
+const stringProp = (props: GeoJsonProperties, key: string): string | undefined =>
+  typeof props[key] === 'string' ? (props[key] as string) : undefined;
+
+/**
+ * Open ring without the closing vertex
+ */
+function readRing(ring: unknown): LatLngPoint[] {
+  if (!Array.isArray(ring)) return [];
+  const points = ring.filter(isPosition).map(toLatLng);
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.length > 1 && first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points;
+}
+
+/**
+ * Normalize any GeoJSON value into a list of features
+ */
+function readFeatures(input: string | unknown): { features: GeoJsonFeature[]; root: Record<string, unknown> } {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error('GeoJSON file is not valid JSON');
+    }
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Not a GeoJSON document');
+  }
+
+  switch (data.type) {
+    case 'FeatureCollection':
+      if (!Array.isArray(data.features)) {
+        throw new Error('GeoJSON FeatureCollection has no features array');
+      }
+      return { features: data.features.filter(isRecord) as unknown as GeoJsonFeature[], root: data };
+    case 'Feature':
+      return { features: [data as unknown as GeoJsonFeature], root: data };
+    case 'Point':
+    case 'MultiPoint':
+    case 'LineString':
+    case 'MultiLineString':
+    case 'Polygon':
+    case 'MultiPolygon':
+    case 'GeometryCollection':
+      return {
+        features: [{ type: 'Feature', geometry: data as unknown as GeoJsonGeometry, properties: {} }],
+        root: data,
+      };
+    default:
+      throw new Error(`Unsupported GeoJSON type "${String(data.type)}"`);
+  }
+}
+
+type FeatureGeometry = Pick<GeoFeature, 'geometry' | 'coordinates' | 'holes' | 'altitudes'>;
+
+function readGeometry(geometry: GeoJsonGeometry | null): FeatureGeometry[] {
+  if (!geometry) return [];
+
+  const altitudesOf = (positions: GeoJsonPosition[]) =>
+    positions.some((p) => p.length > 2) ? positions.map((p) => p[2] ?? 0) : undefined;
+
+  switch (geometry.type) {
+    case 'Point':
+      return isPosition(geometry.coordinates)
+        ? [{ geometry: 'point', coordinates: [toLatLng(geometry.coordinates)], altitudes: altitudesOf([geometry.coordinates]) }]
+        : [];
+    case 'MultiPoint':
+      return geometry.coordinates.flatMap((coordinates) => readGeometry({ type: 'Point', coordinates }));
+    case 'LineString': {
+      const positions = geometry.coordinates.filter(isPosition);
+      return positions.length >= 2
+        ? [{ geometry: 'linestring', coordinates: positions.map(toLatLng), altitudes: altitudesOf(positions) }]
+        : [];
+    }
+    case 'MultiLineString':
+      return geometry.coordinates.flatMap((coordinates) => readGeometry({ type: 'LineString', coordinates }));
+    case 'Polygon': {
+      const [outer, ...inner] = geometry.coordinates;
+      const ring = readRing(outer);
+      if (ring.length < 3) return [];
+      const holes = inner.map(readRing).filter((hole) => hole.length >= 3);
+      const positions = (outer ?? []).filter(isPosition).slice(0, ring.length);
+      return [{
+        geometry: 'polygon',
+        coordinates: ring,
+        holes: holes.length > 0 ? holes : undefined,
+        altitudes: altitudesOf(positions),
+      }];
+    }
+    case 'MultiPolygon':
+      return geometry.coordinates.flatMap((coordinates) => readGeometry({ type: 'Polygon', coordinates }));
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(readGeometry);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Exact obstacle from a feature written by obstaclesToGeoJson
+ */
+function readObstacle(props: GeoJsonProperties, ring: LatLngPoint[], fallbackId: string): ObstacleZone {
+  const radius = numberProp(props, 'radius');
+  const centerLat = numberProp(props, 'centerLat');
+  const centerLng = numberProp(props, 'centerLng');
+  const isCircle = props.shape === 'circle' && radius !== undefined && centerLat !== undefined && centerLng !== undefined;
+
+  return {
+    id: stringProp(props, 'id') ?? fallbackId,
+    name: stringProp(props, 'name') ?? 'Obstacle',
+    type: isCircle ? 'circle' : 'polygon',
+    enabled: props.enabled !== false,
+    vertices: isCircle ? [] : ring,
+    ...(isCircle ? { center: { lat: centerLat!, lng: centerLng! }, radius } : {}),
+    color: stringProp(props, 'color') ?? '#ef4444',
+    minAltitude: numberProp(props, 'minAltitude') ?? 0,
+    maxAltitude: numberProp(props, 'maxAltitude') ?? 120,
+  };
+}
+
+function readWaypoint(f: GeoJsonFeature): GridWaypoint | null {
+  const props = f.properties ?? {};
+  if (f.geometry?.type !== 'Point' || !isPosition(f.geometry.coordinates)) return null;
+  const [lon, lat, z] = f.geometry.coordinates;
+
+  const wp: GridWaypoint = {
+    sequence: numberProp(props, 'sequence') ?? 0,
+    position: { lat, lon, alt: z ?? numberProp(props, 'altitude') ?? 0 },
+    lineIndex: numberProp(props, 'lineIndex') ?? 0,
+    isValid: props.isValid !== false,
+  };
+  WAYPOINT_FIELDS.forEach((field) => {
+    if (props[field] !== undefined) (wp as unknown as Record<string, unknown>)[field] = props[field];
+  });
+  return wp;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read every geometry as a feature for placement. Multi-part geometries are
+ * split into one feature per part; features written by this planner carry
+ * their role and, for obstacles, the exact zone.
+ */
+export function parseGeoJson(input: string | unknown): GeoFeature[] {
+  const { features } = readFeatures(input);
+  const result: GeoFeature[] = [];
+
+  features.forEach((f, index) => {
+    const props = f.properties ?? {};
+    const kind = stringProp(props, 'kind') as GeoJsonFeatureKind | undefined;
+
+    // Generated grid points and paths are outputs, not planning inputs
+    if (kind === 'grid_point' || kind === 'waypoint' || kind === 'mission_path' || kind === 'route_path') return;
+
+    const baseName = ['name', 'Name', 'NAME', 'title', 'label', 'id']
+      .map((key) => props[key])
+      .find((value) => typeof value === 'string' || typeof value === 'number');
+    const name = baseName !== undefined ? String(baseName) : `Feature ${index + 1}`;
+    const parts = readGeometry(f.geometry);
+
+    const properties: Record<string, string> = {};
+    Object.entries(props).forEach(([key, value]) => {
+      if (value !== null && typeof value !== 'object') properties[key] = String(value);
+    });
+
+    parts.forEach((part, partIndex) => {
+      const id = `geojson-${result.length + 1}`;
+      result.push({
+        ...part,
+        id,
+        name: parts.length > 1 ? `${name} (${partIndex + 1})` : name,
+        properties: Object.keys(properties).length > 0 ? properties : undefined,
+        role: kind ? KIND_ROLES[kind] : undefined,
+        obstacle: kind === 'obstacle' && part.geometry === 'polygon'
+          ? readObstacle(props, part.coordinates, id)
+          : undefined,
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * True when the document was written by gridPlanToGeoJson
+ */
+export function isGridMissionGeoJson(input: string | unknown): boolean {
+  try {
+    const { root } = readFeatures(input);
+    return isRecord(root.mission) && root.mission.format === MISSION_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rebuild a grid mission exported by gridPlanToGeoJson. Survey area,
+ * corridor and obstacles come from the features, so edits made in a GIS
+ * tool are picked up.
+ */
+export function geoJsonToGridPlan(input: string | unknown): GridMissionPlan {
+  const { features, root } = readFeatures(input);
+  if (!isRecord(root.mission) || root.mission.format !== MISSION_FORMAT) {
+    throw new Error('GeoJSON does not contain a grid mission; import it as features instead');
+  }
+  const mission = root.mission as unknown as MissionMember;
+  if (mission.version > MISSION_FORMAT_VERSION) {
+    throw new Error(`Grid mission GeoJSON version ${mission.version} is newer than this planner supports`);
+  }
+
+  const byKind = (kind: GeoJsonFeatureKind) => features.filter((f) => f.properties?.kind === kind);
+
+  const areaFeature = byKind('survey_area')[0];
+  const area = areaFeature?.geometry?.type === 'Polygon' ? readRing(areaFeature.geometry.coordinates[0]) : [];
+  const corridorFeature = byKind('corridor')[0];
+  const centerline = corridorFeature?.geometry?.type === 'LineString'
+    ? corridorFeature.geometry.coordinates.filter(isPosition).map(toLatLng)
+    : undefined;
+
+  const obstacles = byKind('obstacle').flatMap((f, index) =>
+    f.geometry?.type === 'Polygon'
+      ? [readObstacle(f.properties ?? {}, readRing(f.geometry.coordinates[0]), `obstacle-${index + 1}`)]
+      : []
+  );
+
+  const allWaypoints = byKind('grid_point').map(readWaypoint).filter((wp): wp is GridWaypoint => wp !== null);
+  const validWaypoints = byKind('waypoint').map(readWaypoint).filter((wp): wp is GridWaypoint => wp !== null);
+  if (validWaypoints.length === 0) {
+    throw new Error('Grid mission GeoJSON has no waypoints');
+  }
+
+  const gridLines: GridLine[] = mission.lines.map((line) => ({
+    ...line,
+    waypoints: allWaypoints.filter((wp) => wp.lineIndex === line.lineIndex),
+  }));
+
+  const config: GridMissionConfig = {
+    ...mission.config,
+    surveyArea: { ...mission.config.surveyArea, vertices: area.length >= 3 ? area : mission.config.surveyArea.vertices },
+    corridor: mission.config.corridor && centerline
+      ? { ...mission.config.corridor, centerline }
+      : mission.config.corridor,
+    obstacles,
+  };
+
+  const plan: GridMissionPlan = {
+    id: mission.id,
+    name: mission.name,
+    config,
+    gridLines,
+    allWaypoints,
+    validWaypoints,
+    stats: mission.stats,
+    createdAt: mission.createdAt,
+  };
+  if (mission.home !== undefined) plan.home = mission.home;
+  if (mission.homeElevation !== undefined) plan.homeElevation = mission.homeElevation;
+  if (mission.vehicleId !== undefined) plan.vehicleId = mission.vehicleId;
+  if (mission.sorties !== undefined) plan.sorties = mission.sorties;
+  if (mission.terrainWarnings !== undefined) plan.terrainWarnings = mission.terrainWarnings;
+
+  return plan;
+}
+
+/**
+ * Route planner waypoints from route_waypoint features, in sequence order
+ */
+export function geoJsonToRoute(input: string | unknown): Waypoint[] {
+  const { features } = readFeatures(input);
+
+  return features
+    .filter((f) => f.properties?.kind === 'route_waypoint' && f.geometry?.type === 'Point' && isPosition(f.geometry.coordinates))
+    .sort((a, b) => (numberProp(a.properties!, 'sequence') ?? 0) - (numberProp(b.properties!, 'sequence') ?? 0))
+    .map((f) => {
+      const props = f.properties!;
+      const [lon, lat, z] = (f.geometry as { coordinates: GeoJsonPosition }).coordinates;
+      return {
+        id: stringProp(props, 'id') ?? `stop${numberProp(props, 'sequence') ?? 0}`,
+        label: stringProp(props, 'label') ?? stringProp(props, 'name') ?? 'Waypoint',
+        coords: stringProp(props, 'coords') ?? `${lat.toFixed(4)}° N, ${lon.toFixed(4)}° E`,
+        alt: stringProp(props, 'alt') ?? `${Math.round(z ?? numberProp(props, 'altitude') ?? 100)}m AGL`,
+        color: stringProp(props, 'color') ?? 'bg-blue-500',
+        lat,
+        lon,
+      };
+    });
+}
+
+/**
+ * Flight tracks written by flightTrackToGeoJson
+ */
+export function geoJsonToFlightTracks(input: string | unknown): { name: string; points: FlightTrackPoint[] }[] {
+  const { features } = readFeatures(input);
+
+  return features
+    .filter((f) => f.properties?.kind === 'flight_track' && f.geometry?.type === 'LineString')
+    .map((f) => {
+      const props = f.properties!;
+      const times = Array.isArray(props.timestamps) ? (props.timestamps as number[]) : [];
+      const positions = (f.geometry as { coordinates: GeoJsonPosition[] }).coordinates;
+      return {
+        name: stringProp(props, 'name') ?? 'Flight track',
+        points: positions.map((p, i) => ({
+          lat: p[1],
+          lon: p[0],
+          ...(p.length > 2 ? { alt: p[2] } : {}),
+          timestamp: times[i] ?? 0,
+        })),
+      };
+    });
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  obstaclesToGeoJson,
+  gridPlanToGeoJson,
+  routeToGeoJson,
+  flightTrackToGeoJson,
+  parseGeoJson,
+  isGridMissionGeoJson,
+  geoJsonToGridPlan,
+  geoJsonToRoute,
+  geoJsonToFlightTracks,
+};
@@ -0,0 +1,224 @@
+/**
+ * Grid Mission Builder
+ * Turns a grid configuration into a complete GridMissionPlan, for one vehicle or a fleet
+ */
+
+import { Vehicle, VehiclePerformanceProfile } from '@/types';
+import {
+  DemTile,
+  FleetAssignment,
+  GridMissionConfig,
+  GridMissionPlan,
+  GridMissionStats,
+  LatLngPoint,
+} from '@/types/gridMission';
+import {
+  routeAroundObstacles,
+  resolveSurveyGeometry,
+  estimateImageCount,
+  calculatePolygonArea,
+  findOptimalGridAngle,
+  partitionSurveyArea,
+  PX4_MAX_WAYPOINTS,
+} from '@/utils/gridMissionUtils';
+import {
+  EnergyEstimate,
+  estimateEndurance,
+  estimateMissionEnergy,
+  getPerformanceProfile,
+} from '@/utils/energyModel';
+import { splitIntoSorties } from '@/utils/sortiePlanner';
+import { generateSurveyPattern } from '@/utils/surveyPatterns';
+import { applyTerrainFollowing, TerrainFollowingResult } from '@/utils/terrainFollowing';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FLEET_COLORS = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ec4899', '#14b8a6', '#eab308', '#ef4444'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BuildPlanOptions {
+  id: string;
+  name: string;
+  home?: LatLngPoint;
+  vehicleId?: string;
+  dem?: DemTile[]; // required when config.terrain is enabled
+}
+
+export interface BuildPlanResult {
+  plan: GridMissionPlan;
+  energy: EnergyEstimate;
+  splitError?: string; // why a plan that needs sorties was not split
+}
+
+// ============================================================================
+// Single Vehicle
+// ============================================================================
+
+/**
+ * Generate the survey pattern, reroute around obstacles, follow terrain when enabled,
+ * estimate energy and split into sorties when one battery or the waypoint limit is not enough
+ */
+export function buildGridMissionPlan(
+  config: GridMissionConfig,
+  profile: VehiclePerformanceProfile,
+  options: BuildPlanOptions
+): BuildPlanResult {
+  const { gridLines, allWaypoints, gridAngle, coveragePolygon } = generateSurveyPattern(config);
+
+  const { altitude, footprint, triggerDistance } = resolveSurveyGeometry(config);
+
+  // Reroute legs that cross obstacles instead of flying straight through
+  let validWaypoints = routeAroundObstacles(
+    allWaypoints.filter((wp) => wp.isValid),
+    config.obstacles,
+    { buffer: config.obstacleBuffer, allowClimbOver: config.allowClimbOver }
+  );
+
+  // Hold the target height above ground instead of above the takeoff point
+  let terrain: TerrainFollowingResult | undefined;
+  if (config.terrain?.enabled && validWaypoints.length > 0) {
+    if (!options.dem || options.dem.length === 0) {
+      throw new Error('Terrain following needs elevation data; load a DEM first');
+    }
+    const first = validWaypoints[0].position;
+    terrain = applyTerrainFollowing(validWaypoints, options.dem, config.terrain, {
+      baseAltitude: altitude,
+      home: options.home ?? { lat: first.lat, lng: first.lon },
+    });
+    validWaypoints = terrain.waypoints;
+  }
+
+  const energy = estimateMissionEnergy(
+    validWaypoints.map((wp) => ({ lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt })),
+    profile,
+    { home: options.home }
+  );
+
+  const stats: GridMissionStats = {
+    totalWaypoints: allWaypoints.length,
+    validWaypoints: validWaypoints.length,
+    obstacleWaypoints: allWaypoints.filter((wp) => !wp.isValid).length,
+    detourWaypoints: validWaypoints.filter((wp) => wp.isDetour).length,
+    blockedLegs: validWaypoints.filter((wp) => wp.legBlockedBy).length,
+    totalDistance: energy.totalDistance / 1000, // km
+    estimatedFlightTime: energy.flightTime / 60, // minutes
+    estimatedBatteryUsage: energy.batteryUsage,
+    energyConsumed: energy.energy,
+    rthReserveRemaining: energy.rthReserveRemaining,
+    reserveSatisfied: energy.feasible,
+    gridLines: gridLines.length,
+    coverageArea: calculatePolygonArea(coveragePolygon),
+    gsd: footprint?.gsd,
+    imageCount: triggerDistance ? estimateImageCount(gridLines, triggerDistance) : undefined,
+    footprintWidth: footprint?.width,
+    footprintHeight: footprint?.height,
+    triggerDistance,
+    minAgl: terrain && Number.isFinite(terrain.minAgl) ? terrain.minAgl : undefined,
+    maxAgl: terrain && Number.isFinite(terrain.maxAgl) ? terrain.maxAgl : undefined,
+    terrainWarnings: terrain?.warnings.length,
+  };
+
+  const plan: GridMissionPlan = {
+    id: options.id,
+    name: options.name,
+    config: { ...config, gridAngle, surveyArea: { ...config.surveyArea, vertices: coveragePolygon } },
+    gridLines,
+    allWaypoints,
+    validWaypoints,
+    stats,
+    createdAt: new Date().toISOString(),
+    home: options.home,
+    vehicleId: options.vehicleId,
+    homeElevation: terrain?.homeElevation,
+    terrainWarnings: terrain?.warnings,
+  };
+
+  // Split into battery-sized sorties when one flight cannot cover the plan
+  let splitError: string | undefined;
+  const needsSplit = !energy.feasible || validWaypoints.length > PX4_MAX_WAYPOINTS;
+  if (needsSplit && !options.home) {
+    // Sorties start and end at home, so without one the plan stays unflyable
+    splitError = !energy.feasible
+      ? 'Mission exceeds the battery reserve; set a home position to split it into sorties'
+      : `Mission exceeds the ${PX4_MAX_WAYPOINTS} waypoint limit; set a home position to split it into sorties`;
+  } else if (needsSplit && options.home) {
+    try {
+      plan.sorties = splitIntoSorties(plan, profile, { home: options.home });
+    } catch (error) {
+      splitError = error instanceof Error ? error.message : 'Failed to split mission';
+    }
+  }
+
+  return { plan, energy, splitError };
+}
+
+// ============================================================================
+// Fleet
+// ============================================================================
+
+/**
+ * Partition the survey area between vehicles in proportion to their
+ * endurance and build one plan per vehicle. All partitions share one line
+ * direction so neighbouring strips join without gaps.
+ */
+export function planFleetSurvey(
+  config: GridMissionConfig,
+  vehicles: Vehicle[],
+  options: BuildPlanOptions
+): FleetAssignment[] {
+  if ((config.pattern ?? 'grid') !== 'grid') {
+    throw new Error('Multi-drone partitioning is only available for grid surveys');
+  }
+
+  const { lineSpacing } = resolveSurveyGeometry(config);
+  const gridAngle = config.autoGridAngle
+    ? findOptimalGridAngle(config.surveyArea.vertices, lineSpacing)
+    : config.gridAngle;
+
+  const weights = vehicles.map((v) => estimateEndurance(getPerformanceProfile(v)).range);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const partitions = partitionSurveyArea(config.surveyArea.vertices, weights, gridAngle);
+
+  return vehicles.map((vehicle, index) => {
+    const color = FLEET_COLORS[index % FLEET_COLORS.length];
+    const partitionConfig: GridMissionConfig = {
+      ...config,
+      name: `${config.name} — ${vehicle.name}`,
+      surveyArea: { ...config.surveyArea, vertices: partitions[index], name: vehicle.name, color },
+      gridAngle,
+      autoGridAngle: false,
+    };
+
+    const { plan, splitError } = buildGridMissionPlan(partitionConfig, getPerformanceProfile(vehicle), {
+      id: `${options.id}-${vehicle.id}`,
+      name: partitionConfig.name,
+      home: options.home,
+      vehicleId: vehicle.id,
+      dem: options.dem,
+    });
+
+    return {
+      vehicleId: vehicle.id,
+      vehicleName: vehicle.name,
+      color,
+      share: totalWeight > 0 ? weights[index] / totalWeight : 1 / vehicles.length,
+      plan,
+      splitError,
+    };
+  });
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  FLEET_COLORS,
+  buildGridMissionPlan,
+  planFleetSurvey,
+};
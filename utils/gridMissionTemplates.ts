@@ -3,7 +3,7 @@
  * Predefined configurations for common mission types
  */
 
-import { GridMissionConfig, ObstacleZone, LatLngPoint } from '../types/gridMission';
+import { GridMissionConfig, ObstacleZone, LatLngPoint, CameraProfile } from '../types/gridMission';
 
 // ============================================================================
 // Border Surveillance Templates
@@ -169,6 +169,17 @@ export const HIGHWAY_CORRIDOR: GridMissionConfig = {
   gridAngle: 45,
   cameraAngle: 75,
   obstacles: [],
+  pattern: 'corridor',
+  corridor: {
+    centerline: [
+      { lat: 26.8467, lng: 80.9462 },
+      { lat: 26.8567, lng: 80.9512 },
+      { lat: 26.8667, lng: 80.9562 },
+    ],
+    width: 60,
+    segmentLength: 2000,
+    turnaroundDistance: 20,
+  },
 };
 
 /**
@@ -192,6 +203,17 @@ export const RAILWAY_INSPECTION: GridMissionConfig = {
   gridAngle: 30,
   cameraAngle: 80,
   obstacles: [],
+  pattern: 'corridor',
+  corridor: {
+    centerline: [
+      { lat: 26.8400, lng: 80.9400 },
+      { lat: 26.8500, lng: 80.9450 },
+      { lat: 26.8600, lng: 80.9500 },
+    ],
+    width: 30,
+    segmentLength: 1500,
+    turnaroundDistance: 15,
+  },
 };
 
 // ============================================================================
@@ -248,6 +270,31 @@ export const DISASTER_ASSESSMENT: GridMissionConfig = {
   obstacles: [],
 };
 
+/**
+ * Search and Rescue - expanding square from the last known position
+ */
+export const SEARCH_AND_RESCUE: GridMissionConfig = {
+  name: 'Search and Rescue',
+  surveyArea: {
+    vertices: [{ lat: 26.8517, lng: 80.9562 }],
+    name: 'Last Known Position',
+    color: '#dc2626',
+  },
+  altitude: 40,
+  gridSpacing: 25,
+  overlap: 0.5,
+  gridAngle: 0,
+  cameraAngle: 90,
+  obstacles: [],
+  pattern: 'expanding_square',
+  search: {
+    datum: { lat: 26.8517, lng: 80.9562 },
+    radius: 500,
+    trackSpacing: 25,
+    initialBearing: 0,
+  },
+};
+
 // ============================================================================
 // Common Obstacle Presets
 // ============================================================================
@@ -311,6 +358,62 @@ export const COMMON_OBSTACLES: Record<string, ObstacleZone> = {
   },
 };
 
+// ============================================================================
+// Camera Profile Presets
+// ============================================================================
+
+export const CAMERA_PROFILES: Record<string, CameraProfile> = {
+  DJI_P4_PRO: {
+    id: 'dji-p4-pro',
+    name: 'DJI Phantom 4 Pro (1" 20MP)',
+    sensorWidth: 13.2,
+    sensorHeight: 8.8,
+    focalLength: 8.8,
+    imageWidth: 5472,
+    imageHeight: 3648,
+  },
+
+  DJI_MAVIC_3E: {
+    id: 'dji-mavic-3e',
+    name: 'DJI Mavic 3 Enterprise (4/3" 20MP)',
+    sensorWidth: 17.3,
+    sensorHeight: 13.0,
+    focalLength: 12.29,
+    imageWidth: 5280,
+    imageHeight: 3956,
+  },
+
+  SONY_A6000_16MM: {
+    id: 'sony-a6000-16mm',
+    name: 'Sony A6000 + 16mm (APS-C 24MP)',
+    sensorWidth: 23.5,
+    sensorHeight: 15.6,
+    focalLength: 16,
+    imageWidth: 6000,
+    imageHeight: 4000,
+  },
+
+  SONY_RX1R_II: {
+    id: 'sony-rx1r-ii',
+    name: 'Sony RX1R II (Full Frame 42MP)',
+    sensorWidth: 35.9,
+    sensorHeight: 24.0,
+    focalLength: 35,
+    imageWidth: 7952,
+    imageHeight: 5304,
+  },
+
+  MICASENSE_REDEDGE_MX: {
+    id: 'micasense-rededge-mx',
+    name: 'MicaSense RedEdge-MX (Multispectral)',
+    sensorWidth: 4.8,
+    sensorHeight: 3.6,
+    focalLength: 5.4,
+    imageWidth: 1280,
+    imageHeight: 960,
+  },
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -329,6 +432,7 @@ export function getAllTemplates(): Record<string, GridMissionConfig> {
     RAILWAY_INSPECTION,
     COASTAL_SURVEILLANCE,
     DISASTER_ASSESSMENT,
+    SEARCH_AND_RESCUE,
   };
 }
 
@@ -351,13 +455,20 @@ export function getTemplatesByCategory(category: string): GridMissionConfig[] {
     agriculture: ['AGRICULTURAL_SURVEY'],
     infrastructure: ['HIGHWAY_CORRIDOR', 'RAILWAY_INSPECTION'],
     coastal: ['COASTAL_SURVEILLANCE'],
-    emergency: ['DISASTER_ASSESSMENT'],
+    emergency: ['DISASTER_ASSESSMENT', 'SEARCH_AND_RESCUE'],
   };
 
   const templateNames = categoryMap[category.toLowerCase()] || [];
   return templateNames.map(name => templates[name]).filter(Boolean);
 }
 
+/**
+ * Get camera profile by id
+ */
+export function getCameraProfile(id: string): CameraProfile | undefined {
+  return Object.values(CAMERA_PROFILES).find(camera => camera.id === id);
+}
+
 /**
  * Create obstacle from preset with custom location
  */
@@ -417,6 +528,21 @@ export function adjustTemplateForRegion(
     }));
   }
 
+  // Move pattern anchors with the area
+  const shift = (p: LatLngPoint): LatLngPoint => ({ lat: p.lat + latOffset, lng: p.lng + lngOffset });
+  if (template.corridor) {
+    adjusted.corridor = { ...template.corridor, centerline: template.corridor.centerline.map(shift) };
+  }
+  if (template.orbit) {
+    adjusted.orbit = { ...template.orbit, center: shift(template.orbit.center) };
+  }
+  if (template.search) {
+    adjusted.search = { ...template.search, datum: shift(template.search.datum) };
+  }
+  if (template.spiral) {
+    adjusted.spiral = { ...template.spiral, center: shift(template.spiral.center) };
+  }
+
   // Adjust obstacles
   adjusted.obstacles = template.obstacles.map(obs => {
     const adjustedObs = { ...obs };
@@ -11,35 +11,42 @@ import {
   ObstacleZone,
   BoundingBox,
   Position,
+  CameraProfile,
+  CameraFootprint,
+  SurveyGeometry,
+  ObstacleDetourOptions,
 } from '@/types/gridMission';
-
-// ============================================================================
-// Constants
-// ============================================================================
-
-const EARTH_RADIUS_KM = 6371;
-const AVERAGE_DRONE_SPEED_MS = 10; // 10 m/s typical cruise speed
+import geodesy, {
+  geodesicDistance,
+  geodesicDestination,
+  geodesicPolygonArea,
+  toLocalEnu,
+  fromLocalEnu,
+  centroid,
+} from '@/utils/geodesy';
+import { DEFAULT_PERFORMANCE_PROFILE } from '@/utils/energyModel';
+import { VehiclePerformanceProfile } from '@/types';
 
 // ============================================================================
 // Geographic Calculations
 // ============================================================================
 
 /**
- * Convert meters to degrees latitude
+ * Convert meters to degrees latitude (WGS84 meridional radius at latitude)
  */
-export function metersToDegreesLat(meters: number): number {
-  return meters / 111320;
+export function metersToDegreesLat(meters: number, latitude: number = 0): number {
+  return geodesy.metersToDegreesLat(meters, latitude);
 }
 
 /**
  * Convert meters to degrees longitude at given latitude
  */
 export function metersToDegreesLon(meters: number, latitude: number): number {
-  return meters / (111320 * Math.cos((latitude * Math.PI) / 180));
+  return geodesy.metersToDegreesLon(meters, latitude);
 }
 
 /**
- * Calculate distance between two points using Haversine formula
+ * Calculate ellipsoidal distance between two points in meters
  */
 export function calculateDistance(
   lat1: number,
@@ -47,18 +54,7 @@ export function calculateDistance(
   lat2: number,
   lon2: number
 ): number {
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_KM * c * 1000; // Return in meters
+  return geodesicDistance(lat1, lon1, lat2, lon2);
 }
 
 /**
@@ -70,27 +66,7 @@ export function calculateDestination(
   distance: number,
   bearing: number
 ): LatLngPoint {
-  const latRad = (lat * Math.PI) / 180;
-  const lonRad = (lon * Math.PI) / 180;
-  const bearingRad = (bearing * Math.PI) / 180;
-  const angularDistance = distance / EARTH_RADIUS_KM / 1000;
-
-  const newLatRad = Math.asin(
-    Math.sin(latRad) * Math.cos(angularDistance) +
-      Math.cos(latRad) * Math.sin(angularDistance) * Math.cos(bearingRad)
-  );
-
-  const newLonRad =
-    lonRad +
-    Math.atan2(
-      Math.sin(bearingRad) * Math.sin(angularDistance) * Math.cos(latRad),
-      Math.cos(angularDistance) - Math.sin(latRad) * Math.sin(newLatRad)
-    );
-
-  return {
-    lat: (newLatRad * 180) / Math.PI,
-    lng: (newLonRad * 180) / Math.PI,
-  };
+  return geodesicDestination(lat, lon, distance, bearing);
 }
 
 // ============================================================================
@@ -143,14 +119,17 @@ export function isPointInPolygon(point: LatLngPoint, polygon: LatLngPoint[]): bo
 }
 
 /**
- * Check if point is in any obstacle zone
+ * Check if point is in any obstacle zone.
+ * When altitude is given, zones whose altitude band excludes it are ignored.
  */
 export function isPointInObstacle(
   point: LatLngPoint,
-  obstacles: ObstacleZone[]
+  obstacles: ObstacleZone[],
+  altitude?: number
 ): { blocked: boolean; obstacle?: string } {
   for (const obstacle of obstacles) {
     if (!obstacle.enabled) continue;
+    if (altitude !== undefined && !obstacleAppliesAtAltitude(obstacle, altitude)) continue;
 
     if (obstacle.type === 'polygon') {
       if (isPointInPolygon(point, obstacle.vertices)) {
@@ -233,122 +212,778 @@ function getLineIntersection(
   return null;
 }
 
+// ============================================================================
+// Camera Footprint
+// ============================================================================
+
+/**
+ * Calculate ground footprint and GSD of a camera at given altitude.
+ * Assumes the image's long side is mounted across-track. Oblique camera
+ * angles (90 = nadir) scale by slant range to the image center.
+ */
+export function calculateCameraFootprint(
+  camera: CameraProfile,
+  altitude: number,
+  cameraAngle: number = 90
+): CameraFootprint {
+  const angle = Math.min(90, Math.max(1, cameraAngle));
+  const slantRange = altitude / Math.sin((angle * Math.PI) / 180);
+
+  const width = (camera.sensorWidth * slantRange) / camera.focalLength;
+  const height = (camera.sensorHeight * slantRange) / camera.focalLength;
+
+  return {
+    width,
+    height,
+    gsd: (width / camera.imageWidth) * 100,
+  };
+}
+
+/**
+ * Calculate altitude required to reach a target GSD (cm/px)
+ */
+export function altitudeForGsd(
+  camera: CameraProfile,
+  gsd: number,
+  cameraAngle: number = 90
+): number {
+  const angle = Math.min(90, Math.max(1, cameraAngle));
+  const slantRange = (gsd / 100) * camera.imageWidth * camera.focalLength / camera.sensorWidth;
+  return slantRange * Math.sin((angle * Math.PI) / 180);
+}
+
+/**
+ * Resolve flight altitude, line spacing and trigger distance for a config.
+ * Without a camera profile the raw altitude and gridSpacing are used.
+ */
+export function resolveSurveyGeometry(config: GridMissionConfig): SurveyGeometry {
+  const { camera, cameraAngle, overlap } = config;
+
+  if (!camera) {
+    return { altitude: config.altitude, lineSpacing: config.gridSpacing };
+  }
+
+  const altitude = config.targetGsd
+    ? altitudeForGsd(camera, config.targetGsd, cameraAngle)
+    : config.altitude;
+  const footprint = calculateCameraFootprint(camera, altitude, cameraAngle);
+  const frontOverlap = config.frontOverlap ?? overlap;
+
+  return {
+    altitude,
+    lineSpacing: footprint.width * (1 - overlap),
+    triggerDistance: footprint.height * (1 - frontOverlap),
+    footprint,
+  };
+}
+
+/**
+ * Estimate number of images captured along grid lines
+ */
+export function estimateImageCount(gridLines: GridLine[], triggerDistance: number): number {
+  if (triggerDistance <= 0) return 0;
+
+  return gridLines.reduce((count, line) => {
+    const valid = line.waypoints.filter((wp) => wp.isValid);
+    if (valid.length < 2) return count;
+    return count + Math.floor(calculateTotalDistance(valid) / triggerDistance) + 1;
+  }, 0);
+}
+
+// ============================================================================
+// Sweep Frame
+// ============================================================================
+
+interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+interface SweepSegment {
+  y: number;
+  x0: number;
+  x1: number;
+}
+
+/**
+ * Local planar frame for a polygon: ENU meters around the polygon centroid,
+ * rotated so that survey lines run along the x axis.
+ */
+interface SweepFrame {
+  origin: LatLngPoint;
+  angleRad: number;
+}
+
+function createSweepFrame(vertices: LatLngPoint[], gridAngle: number): SweepFrame {
+  return { origin: centroid(vertices), angleRad: (gridAngle * Math.PI) / 180 };
+}
+
+function rotatePlanar(east: number, north: number, angleRad: number): PlanarPoint {
+  const cos = Math.cos(angleRad);
+  const sin = Math.sin(angleRad);
+  return {
+    x: east * cos - north * sin,
+    y: east * sin + north * cos,
+  };
+}
+
+function toSweepFrame(point: LatLngPoint, frame: SweepFrame): PlanarPoint {
+  const { east, north } = toLocalEnu(point, frame.origin);
+  return rotatePlanar(east, north, frame.angleRad);
+}
+
+function fromSweepFrame(point: PlanarPoint, frame: SweepFrame): LatLngPoint {
+  const { x: east, y: north } = rotatePlanar(point.x, point.y, -frame.angleRad);
+  const { lat, lng } = fromLocalEnu({ east, north }, frame.origin);
+  return { lat, lng };
+}
+
+/**
+ * Intersect evenly spaced horizontal sweep lines with a polygon.
+ * Returns one row per sweep line, each holding the inside spans left to right.
+ */
+function sweepPolygon(polygon: PlanarPoint[], spacing: number): SweepSegment[][] {
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+
+  // Center the lines so coverage is symmetric at both polygon edges
+  const lineCount = Math.max(1, Math.ceil((maxY - minY) / spacing));
+  const firstY = minY + (maxY - minY - (lineCount - 1) * spacing) / 2;
+
+  const rows: SweepSegment[][] = [];
+
+  for (let i = 0; i < lineCount; i++) {
+    const y = firstY + i * spacing;
+    const xs: number[] = [];
+
+    for (let j = 0; j < polygon.length; j++) {
+      const a = polygon[j];
+      const b = polygon[(j + 1) % polygon.length];
+      if (a.y > y !== b.y > y) {
+        xs.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+      }
+    }
+
+    xs.sort((a, b) => a - b);
+
+    const row: SweepSegment[] = [];
+    for (let k = 0; k + 1 < xs.length; k += 2) {
+      if (xs[k + 1] - xs[k] > 1e-6) {
+        row.push({ y, x0: xs[k], x1: xs[k + 1] });
+      }
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function segmentsOverlap(a: SweepSegment, b: SweepSegment): boolean {
+  return a.x0 <= b.x1 && b.x0 <= a.x1;
+}
+
+/**
+ * Boustrophedon cell decomposition of sweep rows.
+ * A span continues its cell only while it connects one-to-one with a span on
+ * the previous row; splits and merges around concavities start new cells.
+ */
+function decomposeIntoCells(rows: SweepSegment[][]): SweepSegment[][] {
+  const cells: SweepSegment[][] = [];
+  let previousRow: SweepSegment[] = [];
+  let previousCells: number[] = [];
+
+  for (const row of rows) {
+    const rowCells: number[] = [];
+
+    for (const segment of row) {
+      const parents = previousRow
+        .map((prev, index) => (segmentsOverlap(prev, segment) ? index : -1))
+        .filter((index) => index >= 0);
+
+      if (parents.length === 1) {
+        const parent = previousRow[parents[0]];
+        const siblings = row.filter((s) => segmentsOverlap(parent, s));
+        if (siblings.length === 1) {
+          cells[previousCells[parents[0]]].push(segment);
+          rowCells.push(previousCells[parents[0]]);
+          continue;
+        }
+      }
+
+      cells.push([segment]);
+      rowCells.push(cells.length - 1);
+    }
+
+    previousRow = row;
+    previousCells = rowCells;
+  }
+
+  return cells;
+}
+
+/**
+ * Order cells and line directions so each cell is entered at the corner
+ * nearest to where the previous cell was exited.
+ */
+function planCellTraversal(
+  cells: SweepSegment[][]
+): Array<{ cellIndex: number; segment: SweepSegment; forward: boolean }> {
+  const remaining = cells.map((_, index) => index);
+  const plan: Array<{ cellIndex: number; segment: SweepSegment; forward: boolean }> = [];
+  let position: PlanarPoint | null = null;
+
+  while (remaining.length > 0) {
+    let best = { remainingIndex: 0, reversed: false, forward: true, cost: Infinity };
+
+    remaining.forEach((cellIndex, remainingIndex) => {
+      const cell = cells[cellIndex];
+      for (const reversed of [false, true]) {
+        const entry = reversed ? cell[cell.length - 1] : cell[0];
+        for (const forward of [true, false]) {
+          const cost = position
+            ? Math.hypot((forward ? entry.x0 : entry.x1) - position.x, entry.y - position.y)
+            : 0;
+          if (cost < best.cost) {
+            best = { remainingIndex, reversed, forward, cost };
+          }
+        }
+      }
+    });
+
+    const cellIndex = remaining.splice(best.remainingIndex, 1)[0];
+    const segments = best.reversed ? [...cells[cellIndex]].reverse() : cells[cellIndex];
+    let forward = best.forward;
+
+    for (const segment of segments) {
+      plan.push({ cellIndex, segment, forward });
+      position = { x: forward ? segment.x1 : segment.x0, y: segment.y };
+      forward = !forward;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Find the grid angle (0-179°) that covers the polygon with the fewest turns.
+ * Ties are broken by total line length.
+ */
+export function findOptimalGridAngle(vertices: LatLngPoint[], spacing: number): number {
+  if (vertices.length < 3 || spacing <= 0) return 0;
+
+  let bestAngle = 0;
+  let bestTurns = Infinity;
+  let bestLength = Infinity;
+
+  // Project once, then only rotate per candidate angle
+  const origin = centroid(vertices);
+  const local = vertices.map((v) => toLocalEnu(v, origin));
+
+  for (let angle = 0; angle < 180; angle++) {
+    const angleRad = (angle * Math.PI) / 180;
+    const rows = sweepPolygon(local.map((p) => rotatePlanar(p.east, p.north, angleRad)), spacing);
+    const segments = rows.flat();
+    const turns = segments.length - 1;
+    const length = segments.reduce((sum, s) => sum + (s.x1 - s.x0), 0);
+
+    if (turns < bestTurns || (turns === bestTurns && length < bestLength - 1e-6)) {
+      bestAngle = angle;
+      bestTurns = turns;
+      bestLength = length;
+    }
+  }
+
+  return bestAngle;
+}
+
 // ============================================================================
 // Grid Generation
 // ============================================================================
 
 /**
- * Generate grid waypoints for survey mission
+ * Generate grid waypoints for survey mission.
+ * Lines run at bearing gridAngle + 90° and are stepped along gridAngle.
+ * Concave polygons are split into cells, each flown as its own lawnmower.
  */
 export function generateGridWaypoints(config: GridMissionConfig): {
   gridLines: GridLine[];
   allWaypoints: GridWaypoint[];
+  gridAngle: number;
 } {
-  const { surveyArea, altitude, gridSpacing, gridAngle, obstacles } = config;
+  const { surveyArea, obstacles } = config;
+  const { altitude, lineSpacing: gridSpacing } = resolveSurveyGeometry(config);
 
-  // Calculate bounding box
-  const bbox = calculateBoundingBox(surveyArea.vertices);
-  const centerLat = (bbox.minLat + bbox.maxLat) / 2;
-
-  // Convert spacing to degrees
-  const latSpacing = metersToDegreesLat(gridSpacing);
+  if (!(gridSpacing > 0)) {
+    throw new Error('Grid spacing must be greater than zero');
+  }
 
-  // Generate grid lines
   const gridLines: GridLine[] = [];
   const allWaypoints: GridWaypoint[] = [];
-  let waypointSequence = 0;
 
-  // Calculate grid line angle (perpendicular to flight direction)
-  const lineAngle = (gridAngle + 90) % 360;
-
-  // Start from minimum latitude
-  let currentLat = bbox.minLat;
-  let lineIndex = 0;
-  let direction: 'forward' | 'backward' = 'forward';
-
-  while (currentLat <= bbox.maxLat) {
-    // Calculate line endpoints
-    const lineStart = calculateDestination(
-      currentLat,
-      bbox.minLng,
-      5000, // Extend 5km in both directions
-      lineAngle
-    );
-    const lineEnd = calculateDestination(
-      currentLat,
-      bbox.maxLng,
-      5000,
-      lineAngle + 180
-    );
+  if (surveyArea.vertices.length < 3) {
+    return { gridLines, allWaypoints, gridAngle: config.gridAngle };
+  }
 
-    // Find intersection points with survey area polygon
-    const intersections = findLinePolygonIntersections(
-      lineStart,
-      lineEnd,
-      surveyArea.vertices
-    );
+  const gridAngle = config.autoGridAngle
+    ? findOptimalGridAngle(surveyArea.vertices, gridSpacing)
+    : config.gridAngle;
 
-    if (intersections.length >= 2) {
-      // Create waypoints along this line
-      const lineWaypoints: GridWaypoint[] = [];
-
-      // Alternate direction for efficiency (boustrophedon pattern)
-      const orderedIntersections =
-        direction === 'forward' ? intersections : intersections.reverse();
-
-      const start = orderedIntersections[0];
-      const end = orderedIntersections[intersections.length - 1];
-
-      // Generate waypoints along the line
-      const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng);
-      const numPoints = Math.max(2, Math.ceil(distance / gridSpacing));
-
-      for (let i = 0; i < numPoints; i++) {
-        const t = i / (numPoints - 1);
-        const lat = start.lat + t * (end.lat - start.lat);
-        const lng = start.lng + t * (end.lng - start.lng);
-
-        const point = { lat, lng };
-
-        // Check if point is inside survey area
-        const inArea = isPointInPolygon(point, surveyArea.vertices);
-
-        // Check if point is blocked by obstacles
-        const obstacleCheck = isPointInObstacle(point, obstacles);
-
-        const waypoint: GridWaypoint = {
-          sequence: waypointSequence++,
-          position: {
-            lat,
-            lon: lng,
-            alt: altitude,
-          },
-          lineIndex,
-          isValid: inArea && !obstacleCheck.blocked,
-          isBlocked: obstacleCheck.blocked,
-          blockingObstacle: obstacleCheck.obstacle,
-        };
-
-        lineWaypoints.push(waypoint);
-        allWaypoints.push(waypoint);
-      }
+  // Rotate survey polygon into the sweep frame and cut it into cells
+  const frame = createSweepFrame(surveyArea.vertices, gridAngle);
+  const polygon = surveyArea.vertices.map((v) => toSweepFrame(v, frame));
+  const cells = decomposeIntoCells(sweepPolygon(polygon, gridSpacing));
+
+  let waypointSequence = 0;
 
-      gridLines.push({
+  planCellTraversal(cells).forEach(({ cellIndex, segment, forward }, lineIndex) => {
+    const startX = forward ? segment.x0 : segment.x1;
+    const endX = forward ? segment.x1 : segment.x0;
+    const numPoints = Math.max(2, Math.ceil((segment.x1 - segment.x0) / gridSpacing));
+    const lineWaypoints: GridWaypoint[] = [];
+
+    for (let i = 0; i < numPoints; i++) {
+      const t = i / (numPoints - 1);
+      const point = fromSweepFrame({ x: startX + t * (endX - startX), y: segment.y }, frame);
+
+      // Check if point is blocked by obstacles
+      const obstacleCheck = isPointInObstacle(point, obstacles, altitude);
+
+      const waypoint: GridWaypoint = {
+        sequence: waypointSequence++,
+        position: {
+          lat: point.lat,
+          lon: point.lng,
+          alt: altitude,
+        },
         lineIndex,
-        waypoints: lineWaypoints,
-        direction,
+        isValid: !obstacleCheck.blocked,
+        isBlocked: obstacleCheck.blocked,
+        blockingObstacle: obstacleCheck.obstacle,
+      };
+
+      lineWaypoints.push(waypoint);
+      allWaypoints.push(waypoint);
+    }
+
+    gridLines.push({
+      lineIndex,
+      waypoints: lineWaypoints,
+      direction: forward ? 'forward' : 'backward',
+      cellIndex,
+    });
+  });
+
+  return { gridLines, allWaypoints, gridAngle };
+}
+
+// ============================================================================
+// Area Partitioning
+// ============================================================================
+
+function planarArea(polygon: PlanarPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Clip a polygon to the band minY ≤ y ≤ maxY (Sutherland–Hodgman, two edges)
+ */
+function clipToBand(polygon: PlanarPoint[], minY: number, maxY: number): PlanarPoint[] {
+  const clipEdge = (input: PlanarPoint[], inside: (p: PlanarPoint) => boolean, y: number) => {
+    const output: PlanarPoint[] = [];
+    for (let i = 0; i < input.length; i++) {
+      const curr = input[i];
+      const prev = input[(i + input.length - 1) % input.length];
+      const crossing = (): PlanarPoint => ({
+        x: prev.x + ((y - prev.y) * (curr.x - prev.x)) / (curr.y - prev.y),
+        y,
       });
 
-      // Alternate direction for next line
-      direction = direction === 'forward' ? 'backward' : 'forward';
-      lineIndex++;
+      if (inside(curr)) {
+        if (!inside(prev)) output.push(crossing());
+        output.push(curr);
+      } else if (inside(prev)) {
+        output.push(crossing());
+      }
+    }
+    return output;
+  };
+
+  const lower = clipEdge(polygon, (p) => p.y >= minY, minY);
+  return clipEdge(lower, (p) => p.y <= maxY, maxY);
+}
+
+/**
+ * Split a survey polygon into strips parallel to the survey lines, with
+ * areas proportional to the given weights. Strip boundaries run along the
+ * line direction so every sub-area is flown with whole lines.
+ */
+export function partitionSurveyArea(
+  vertices: LatLngPoint[],
+  weights: number[],
+  gridAngle: number
+): LatLngPoint[][] {
+  if (vertices.length < 3 || weights.length === 0) return [];
+  if (weights.length === 1) return [vertices];
+
+  const frame = createSweepFrame(vertices, gridAngle);
+  const polygon = vertices.map((v) => toSweepFrame(v, frame));
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+  const totalArea = planarArea(polygon);
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+
+  // Find each cut by bisection on the area below it
+  const cuts: number[] = [minY];
+  let cumulative = 0;
+  for (let i = 0; i < weights.length - 1; i++) {
+    cumulative += Math.max(0, weights[i]);
+    const target = totalWeight > 0 ? (cumulative / totalWeight) * totalArea : ((i + 1) / weights.length) * totalArea;
+
+    let lo = cuts[cuts.length - 1];
+    let hi = maxY;
+    for (let iter = 0; iter < 60; iter++) {
+      const mid = (lo + hi) / 2;
+      if (planarArea(clipToBand(polygon, minY, mid)) < target) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    cuts.push((lo + hi) / 2);
+  }
+  cuts.push(maxY);
+
+  return weights.map((_, i) =>
+    clipToBand(polygon, cuts[i], cuts[i + 1]).map((p) => fromSweepFrame(p, frame))
+  );
+}
+
+// ============================================================================
+// Obstacle Avoidance
+// ============================================================================
+
+const MAX_DETOUR_DEPTH = 4;
+const CIRCLE_HULL_SEGMENTS = 24;
+const BUFFER_HULL_SEGMENTS = 8;
+const MIN_DETOUR_CLEARANCE = 0.5; // meters
+
+/**
+ * Check if an obstacle's altitude band applies at given altitude
+ */
+export function obstacleAppliesAtAltitude(obstacle: ObstacleZone, altitude: number): boolean {
+  return altitude >= obstacle.minAltitude && altitude <= obstacle.maxAltitude;
+}
+
+function cross(o: PlanarPoint, a: PlanarPoint, b: PlanarPoint): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/**
+ * Convex hull (Andrew's monotone chain), counter-clockwise
+ */
+function convexHull(points: PlanarPoint[]): PlanarPoint[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: PlanarPoint[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+
+  const upper: PlanarPoint[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Obstacle footprint in the planar frame, expanded by buffer meters.
+ * Polygons are approximated by their convex hull.
+ */
+function bufferedObstacleHull(
+  obstacle: ObstacleZone,
+  frame: SweepFrame,
+  buffer: number
+): PlanarPoint[] {
+  if (obstacle.type === 'circle' && obstacle.center && obstacle.radius) {
+    const center = toSweepFrame(obstacle.center, frame);
+    // Circumscribe so the hull edges stay outside the buffered circle
+    const radius = (obstacle.radius + buffer) / Math.cos(Math.PI / CIRCLE_HULL_SEGMENTS);
+    return Array.from({ length: CIRCLE_HULL_SEGMENTS }, (_, i) => {
+      const angle = (2 * Math.PI * i) / CIRCLE_HULL_SEGMENTS;
+      return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+  }
+
+  const vertices = obstacle.vertices.map((v) => toSweepFrame(v, frame));
+  if (buffer <= 0) return convexHull(vertices);
+
+  const radius = buffer / Math.cos(Math.PI / BUFFER_HULL_SEGMENTS);
+  const expanded = vertices.flatMap((v) =>
+    Array.from({ length: BUFFER_HULL_SEGMENTS }, (_, i) => {
+      const angle = (2 * Math.PI * i) / BUFFER_HULL_SEGMENTS;
+      return { x: v.x + radius * Math.cos(angle), y: v.y + radius * Math.sin(angle) };
+    })
+  );
+  return convexHull(expanded);
+}
+
+/**
+ * Clip segment a→b against a counter-clockwise convex polygon (Cyrus-Beck).
+ * Returns entry/exit parameters along the segment, or null if it misses.
+ */
+function clipSegmentToHull(
+  a: PlanarPoint,
+  b: PlanarPoint,
+  hull: PlanarPoint[]
+): { tIn: number; tOut: number } | null {
+  if (hull.length < 3) return null;
+
+  let tIn = 0;
+  let tOut = 1;
+  const d = { x: b.x - a.x, y: b.y - a.y };
+
+  for (let i = 0; i < hull.length; i++) {
+    const p = hull[i];
+    const q = hull[(i + 1) % hull.length];
+    // Inward normal of a counter-clockwise edge
+    const n = { x: -(q.y - p.y), y: q.x - p.x };
+    const num = n.x * (a.x - p.x) + n.y * (a.y - p.y);
+    const den = n.x * d.x + n.y * d.y;
+
+    if (Math.abs(den) < 1e-12) {
+      if (num < 0) return null;
+      continue;
+    }
+
+    const t = -num / den;
+    if (den > 0) {
+      tIn = Math.max(tIn, t);
+    } else {
+      tOut = Math.min(tOut, t);
+    }
+    if (tIn > tOut) return null;
+  }
+
+  return tOut - tIn > 1e-9 ? { tIn, tOut } : null;
+}
+
+function isInsideHull(point: PlanarPoint, hull: PlanarPoint[]): boolean {
+  return hull.length >= 3 && hull.every((p, i) => cross(p, hull[(i + 1) % hull.length], point) > 1e-9);
+}
+
+/**
+ * Check if the straight path between two hull vertices (or outside points)
+ * stays clear of the hull interior.
+ */
+function isHullChordClear(a: PlanarPoint, b: PlanarPoint, hull: PlanarPoint[]): boolean {
+  const clip = clipSegmentToHull(a, b, hull);
+  if (!clip) return true;
+  const mid = {
+    x: a.x + ((clip.tIn + clip.tOut) / 2) * (b.x - a.x),
+    y: a.y + ((clip.tIn + clip.tOut) / 2) * (b.y - a.y),
+  };
+  return !isInsideHull(mid, hull);
+}
+
+function pathLength(points: PlanarPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Shortest path from a to b around a convex hull, excluding the endpoints.
+ * Tries every visible entry/exit vertex pair in both winding directions.
+ */
+function shortestPathAroundHull(
+  a: PlanarPoint,
+  b: PlanarPoint,
+  hull: PlanarPoint[]
+): PlanarPoint[] | null {
+  const visibleFromA = hull.map((_, i) => i).filter((i) => isHullChordClear(a, hull[i], hull));
+  const visibleFromB = hull.map((_, i) => i).filter((i) => isHullChordClear(hull[i], b, hull));
+
+  let best: PlanarPoint[] | null = null;
+  let bestLength = Infinity;
+
+  for (const entry of visibleFromA) {
+    for (const exit of visibleFromB) {
+      for (const step of [1, -1]) {
+        const path: PlanarPoint[] = [hull[entry]];
+        let i = entry;
+        while (i !== exit) {
+          i = (i + step + hull.length) % hull.length;
+          path.push(hull[i]);
+        }
+
+        const length = pathLength([a, ...path, b]);
+        if (length < bestLength) {
+          best = path;
+          bestLength = length;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+interface DetourPoint {
+  point: PlanarPoint;
+  altitude: number;
+  obstacle: string;
+}
+
+/**
+ * Route a single leg, returning intermediate detour points. Obstacles the
+ * leg still crosses because no way around them was found go into `blocked`.
+ */
+function routeLeg(
+  a: PlanarPoint,
+  b: PlanarPoint,
+  altitude: number,
+  obstacles: ObstacleZone[],
+  frame: SweepFrame,
+  options: Required<ObstacleDetourOptions>,
+  depth: number,
+  blocked: Set<string>
+): DetourPoint[] {
+  // Find the first obstacle the leg runs into
+  let hit: { obstacle: ObstacleZone; tIn: number; tOut: number } | null = null;
+
+  for (const obstacle of obstacles) {
+    if (!obstacle.enabled || !obstacleAppliesAtAltitude(obstacle, altitude)) continue;
+
+    const hull = bufferedObstacleHull(obstacle, frame, 0);
+    const clip = clipSegmentToHull(a, b, hull);
+    if (clip && !isHullChordClear(a, b, hull) && (!hit || clip.tIn < hit.tIn)) {
+      hit = { obstacle, ...clip };
     }
+  }
+
+  if (!hit) return [];
+
+  const { obstacle } = hit;
+  if (depth > MAX_DETOUR_DEPTH) {
+    blocked.add(obstacle.name);
+    return [];
+  }
+
+  const climbAltitude = obstacle.maxAltitude + options.buffer;
+
+  if (options.allowClimbOver && climbAltitude <= options.maxAltitude) {
+    const buffered = clipSegmentToHull(a, b, bufferedObstacleHull(obstacle, frame, options.buffer)) ?? hit;
+    const at = (t: number) => ({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+
+    return [
+      { point: at(buffered.tIn), altitude: climbAltitude, obstacle: obstacle.name },
+      { point: at(buffered.tOut), altitude: climbAltitude, obstacle: obstacle.name },
+    ];
+  }
 
-    // Move to next line
-    currentLat += latSpacing;
+  // Shrink the buffer when an endpoint sits inside it
+  const hull = [1, 0.5, 0.25, 0.1, 0.01]
+    .map((scale) => bufferedObstacleHull(obstacle, frame, Math.max(options.buffer * scale, MIN_DETOUR_CLEARANCE)))
+    .find((candidate) => !isInsideHull(a, candidate) && !isInsideHull(b, candidate));
+  const path = hull ? shortestPathAroundHull(a, b, hull) : null;
+  if (!path) {
+    blocked.add(obstacle.name);
+    return [];
   }
 
-  return { gridLines, allWaypoints };
+  // Detour legs may run into other obstacles
+  const routed: DetourPoint[] = [];
+  const stops = [a, ...path, b];
+  for (let i = 1; i < stops.length; i++) {
+    routed.push(...routeLeg(stops[i - 1], stops[i], altitude, obstacles, frame, options, depth + 1, blocked));
+    if (i < stops.length - 1) {
+      routed.push({ point: stops[i], altitude, obstacle: obstacle.name });
+    }
+  }
+
+  return routed;
+}
+
+/**
+ * Insert detour waypoints where legs between consecutive waypoints cross an
+ * obstacle zone whose altitude band contains the leg. Legs are rerouted
+ * around the buffered zone, or over it when climbing is allowed. A leg that
+ * cannot be rerouted stays straight and its end waypoint gets `legBlockedBy`.
+ */
+export function routeAroundObstacles(
+  waypoints: GridWaypoint[],
+  obstacles: ObstacleZone[],
+  options: ObstacleDetourOptions = {}
+): GridWaypoint[] {
+  const resolved: Required<ObstacleDetourOptions> = {
+    buffer: options.buffer ?? 10,
+    allowClimbOver: options.allowClimbOver ?? false,
+    maxAltitude: options.maxAltitude ?? 120,
+  };
+
+  const active = obstacles.filter((o) => o.enabled);
+  if (waypoints.length < 2 || active.length === 0) {
+    return waypoints;
+  }
+
+  const frame = createSweepFrame(
+    waypoints.map((wp) => ({ lat: wp.position.lat, lng: wp.position.lon })),
+    0
+  );
+  const routed: GridWaypoint[] = [waypoints[0]];
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const prev = waypoints[i - 1];
+    const curr = waypoints[i];
+    const a = toSweepFrame({ lat: prev.position.lat, lng: prev.position.lon }, frame);
+    const b = toSweepFrame({ lat: curr.position.lat, lng: curr.position.lon }, frame);
+
+    const blocked = new Set<string>();
+    for (const detour of routeLeg(a, b, prev.position.alt, active, frame, resolved, 0, blocked)) {
+      const point = fromSweepFrame(detour.point, frame);
+      routed.push({
+        sequence: 0,
+        position: { lat: point.lat, lon: point.lng, alt: detour.altitude },
+        lineIndex: prev.lineIndex,
+        isValid: true,
+        isDetour: true,
+        detourAround: detour.obstacle,
+      });
+    }
+
+    routed.push({ ...curr, legBlockedBy: blocked.size > 0 ? Array.from(blocked).join(', ') : undefined });
+  }
+
+  return routed.map((wp, index) => ({ ...wp, sequence: index }));
+}
+
+/**
+ * Reason a route cannot be uploaded because a leg still crosses an obstacle, or null when it can
+ */
+export function blockedLegError(waypoints: GridWaypoint[]): string | null {
+  const blocked = waypoints.filter((wp) => wp.legBlockedBy);
+  if (blocked.length === 0) return null;
+
+  const legs = blocked.map((wp) => `into WP ${wp.sequence} (${wp.legBlockedBy})`).join(', ');
+  return `${blocked.length} leg${blocked.length > 1 ? 's' : ''} could not be rerouted around obstacles: ${legs}`;
 }
 
 // ============================================================================
@@ -373,42 +1008,31 @@ export function calculateTotalDistance(waypoints: GridWaypoint[]): number {
 /**
  * Estimate flight time based on distance (in minutes)
  */
-export function estimateFlightTime(distanceMeters: number): number {
-  // Assuming average cruise speed of 10 m/s
-  const timeSeconds = distanceMeters / AVERAGE_DRONE_SPEED_MS;
+export function estimateFlightTime(
+  distanceMeters: number,
+  profile: VehiclePerformanceProfile = DEFAULT_PERFORMANCE_PROFILE
+): number {
+  const timeSeconds = distanceMeters / profile.cruiseSpeed;
   return timeSeconds / 60; // Convert to minutes
 }
 
 /**
- * Estimate battery usage based on flight time
+ * Estimate battery usage (%) for a duration of cruise flight.
+ * Use estimateMissionEnergy for a full per-leg estimate.
  */
-export function estimateBatteryUsage(flightTimeMinutes: number): number {
-  // Rough estimate: 1% battery per minute of flight
-  // This should be calibrated based on actual drone performance
-  const batteryPerMinute = 1.0;
-  return Math.min(100, flightTimeMinutes * batteryPerMinute);
+export function estimateBatteryUsage(
+  flightTimeMinutes: number,
+  profile: VehiclePerformanceProfile = DEFAULT_PERFORMANCE_PROFILE
+): number {
+  const energyWh = (profile.cruisePower * flightTimeMinutes) / 60;
+  return Math.min(100, (energyWh / profile.batteryCapacity) * 100);
 }
 
 /**
- * Calculate area of polygon in square kilometers
+ * Calculate ellipsoidal area of polygon in square kilometers
  */
 export function calculatePolygonArea(vertices: LatLngPoint[]): number {
-  if (vertices.length < 3) return 0;
-
-  let area = 0;
-
-  for (let i = 0; i < vertices.length; i++) {
-    const j = (i + 1) % vertices.length;
-    area += vertices[i].lat * vertices[j].lng;
-    area -= vertices[j].lat * vertices[i].lng;
-  }
-
-  area = Math.abs(area) / 2;
-
-  // Convert from square degrees to square kilometers
-  // Rough approximation: 1 degree ≈ 111 km at equator
-  const kmPerDegree = 111;
-  return area * kmPerDegree * kmPerDegree;
+  return geodesicPolygonArea(vertices) / 1e6;
 }
 
 // ============================================================================
@@ -424,22 +1048,81 @@ export function validateGridConfig(config: GridMissionConfig): {
 } {
   const errors: string[] = [];
 
-  if (config.surveyArea.vertices.length < 3) {
-    errors.push('Survey area must have at least 3 points');
+  switch (config.pattern ?? 'grid') {
+    case 'corridor':
+      if (!config.corridor || config.corridor.centerline.length < 2) {
+        errors.push('Corridor centerline must have at least 2 points');
+      } else if (!(config.corridor.width > 0)) {
+        errors.push('Corridor width must be greater than zero');
+      }
+      break;
+    case 'orbit':
+      if (!config.orbit) {
+        errors.push('Orbit needs a point of interest');
+      } else if (!(config.orbit.radius > 0)) {
+        errors.push('Orbit radius must be greater than zero');
+      }
+      break;
+    case 'expanding_square':
+    case 'sector':
+      if (!config.search) {
+        errors.push('Search pattern needs a datum');
+      } else if (!(config.search.radius > 0)) {
+        errors.push('Search radius must be greater than zero');
+      }
+      break;
+    case 'spiral':
+      if (!config.spiral) {
+        errors.push('Spiral needs a center point');
+      } else if (!(config.spiral.radius > 0)) {
+        errors.push('Spiral radius must be greater than zero');
+      }
+      break;
+    default:
+      if (config.surveyArea.vertices.length < 3) {
+        errors.push('Survey area must have at least 3 points');
+      }
   }
 
-  if (config.altitude < 10 || config.altitude > 120) {
-    errors.push('Altitude must be between 10 and 120 meters');
+  const geometry = resolveSurveyGeometry(config);
+
+  if (geometry.altitude < 10 || geometry.altitude > 120) {
+    errors.push(
+      config.camera && config.targetGsd
+        ? `Target GSD requires ${geometry.altitude.toFixed(0)}m altitude, outside 10-120 meters`
+        : 'Altitude must be between 10 and 120 meters'
+    );
   }
 
-  if (config.gridSpacing < 10 || config.gridSpacing > 100) {
+  if (config.camera) {
+    if (geometry.lineSpacing < 1) {
+      errors.push('Camera footprint and overlap produce line spacing below 1 meter');
+    }
+  } else if (config.gridSpacing < 10 || config.gridSpacing > 100) {
     errors.push('Grid spacing must be between 10 and 100 meters');
   }
 
+  if (config.terrain?.enabled) {
+    const targetAgl = config.terrain.targetAgl ?? geometry.altitude;
+    if (config.terrain.minClearance !== undefined && config.terrain.minClearance >= targetAgl) {
+      errors.push('Terrain clearance must be below the target height above ground');
+    }
+    if (config.terrain.ceiling !== undefined && config.terrain.ceiling < targetAgl) {
+      errors.push('Target height above ground exceeds the altitude ceiling');
+    }
+    if (config.terrain.tolerance !== undefined && !(config.terrain.tolerance > 0)) {
+      errors.push('Terrain tolerance must be greater than zero');
+    }
+  }
+
   if (config.overlap < 0 || config.overlap > 1) {
     errors.push('Overlap must be between 0 and 1');
   }
 
+  if (config.frontOverlap !== undefined && (config.frontOverlap < 0 || config.frontOverlap >= 1)) {
+    errors.push('Front overlap must be between 0 and 1');
+  }
+
   if (config.name.trim().length === 0) {
     errors.push('Mission name is required');
   }
@@ -450,6 +1133,8 @@ export function validateGridConfig(config: GridMissionConfig): {
   };
 }
 
+export const PX4_MAX_WAYPOINTS = 256;
+
 /**
  * Check if mission exceeds PX4 waypoint limit
  */
@@ -457,8 +1142,6 @@ export function checkWaypointLimit(waypointCount: number): {
   valid: boolean;
   warning?: string;
 } {
-  const PX4_MAX_WAYPOINTS = 256;
-
   if (waypointCount > PX4_MAX_WAYPOINTS) {
     return {
       valid: false,
@@ -489,7 +1172,16 @@ export default {
   isPointInPolygon,
   isPointInObstacle,
   findLinePolygonIntersections,
+  calculateCameraFootprint,
+  altitudeForGsd,
+  resolveSurveyGeometry,
+  estimateImageCount,
+  findOptimalGridAngle,
   generateGridWaypoints,
+  partitionSurveyArea,
+  obstacleAppliesAtAltitude,
+  routeAroundObstacles,
+  blockedLegError,
   calculateTotalDistance,
   estimateFlightTime,
   estimateBatteryUsage,
@@ -0,0 +1,341 @@
+/**
+ * KML / KMZ
+ * Reads Placemarks from Google Earth files and writes planned and flown paths
+ */
+
+import { LatLngPoint, ObstacleZone } from '@/types/gridMission';
+import { ExportPath, GeoFeature } from '@/types/geoFeatures';
+import { entryBaseName, readZip } from '@/utils/zipArchive';
+import { geodesicDestination } from '@/utils/geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+const DEFAULT_PATH_COLOR = '#3b82f6';
+const DEFAULT_PATH_WIDTH = 3;
+const CIRCLE_SEGMENTS = 36;
+
+// ============================================================================
+// Parsing Helpers
+// ============================================================================
+
+/**
+ * Direct children by local name, ignoring namespace prefixes (kml:, gx:)
+ */
+const childElements = (parent: Element, localName?: string): Element[] =>
+  Array.from(parent.children).filter((el) => !localName || el.localName === localName);
+
+const firstChild = (parent: Element, localName: string): Element | undefined =>
+  childElements(parent, localName)[0];
+
+const descendants = (parent: Element | Document, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const childText = (parent: Element, localName: string): string | undefined =>
+  firstChild(parent, localName)?.textContent?.trim() || undefined;
+
+/**
+ * Parse a KML coordinates string: whitespace separated "lon,lat[,alt]" tuples
+ */
+function parseCoordinates(text: string | null | undefined): { points: LatLngPoint[]; altitudes: number[] } {
+  const points: LatLngPoint[] = [];
+  const altitudes: number[] = [];
+
+  (text ?? '').trim().split(/\s+/).forEach((tuple) => {
+    if (!tuple) return;
+    const [lng, lat, alt] = tuple.split(',').map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return;
+    points.push({ lat, lng });
+    altitudes.push(Number.isFinite(alt) ? alt : 0);
+  });
+
+  return { points, altitudes };
+}
+
+/**
+ * Drop the repeated closing vertex of a ring
+ */
+function openRing<T>(ring: T[], points: LatLngPoint[]): T[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.length > 1 && first.lat === last.lat && first.lng === last.lng ? ring.slice(0, -1) : ring;
+}
+
+function ringCoordinates(boundary: Element | undefined): { points: LatLngPoint[]; altitudes: number[] } {
+  const ring = boundary ? firstChild(boundary, 'LinearRing') : undefined;
+  const parsed = parseCoordinates(ring ? childText(ring, 'coordinates') : undefined);
+  return { points: openRing(parsed.points, parsed.points), altitudes: openRing(parsed.altitudes, parsed.points) };
+}
+
+/**
+ * gx:Track positions ("lon lat alt", space separated)
+ */
+function parseTrack(track: Element): { points: LatLngPoint[]; altitudes: number[] } {
+  const points: LatLngPoint[] = [];
+  const altitudes: number[] = [];
+
+  childElements(track, 'coord').forEach((coord) => {
+    const [lng, lat, alt] = (coord.textContent ?? '').trim().split(/\s+/).map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return;
+    points.push({ lat, lng });
+    altitudes.push(Number.isFinite(alt) ? alt : 0);
+  });
+
+  return { points, altitudes };
+}
+
+type FeatureGeometry = Pick<GeoFeature, 'geometry' | 'coordinates' | 'holes' | 'altitudes'>;
+
+/**
+ * Flatten a KML geometry element; MultiGeometry yields one entry per part
+ */
+function readGeometry(el: Element): FeatureGeometry[] {
+  switch (el.localName) {
+    case 'Point': {
+      const { points, altitudes } = parseCoordinates(childText(el, 'coordinates'));
+      return points.length > 0 ? [{ geometry: 'point', coordinates: points.slice(0, 1), altitudes: altitudes.slice(0, 1) }] : [];
+    }
+    case 'LineString': {
+      const { points, altitudes } = parseCoordinates(childText(el, 'coordinates'));
+      return points.length >= 2 ? [{ geometry: 'linestring', coordinates: points, altitudes }] : [];
+    }
+    case 'LinearRing': {
+      const parsed = parseCoordinates(childText(el, 'coordinates'));
+      const points = openRing(parsed.points, parsed.points);
+      return points.length >= 3
+        ? [{ geometry: 'polygon', coordinates: points, altitudes: openRing(parsed.altitudes, parsed.points) }]
+        : [];
+    }
+    case 'Polygon': {
+      const outer = ringCoordinates(firstChild(el, 'outerBoundaryIs'));
+      if (outer.points.length < 3) return [];
+      const holes = childElements(el, 'innerBoundaryIs')
+        .map((boundary) => ringCoordinates(boundary).points)
+        .filter((ring) => ring.length >= 3);
+      return [{
+        geometry: 'polygon',
+        coordinates: outer.points,
+        altitudes: outer.altitudes,
+        holes: holes.length > 0 ? holes : undefined,
+      }];
+    }
+    case 'Track': {
+      const { points, altitudes } = parseTrack(el);
+      return points.length >= 2 ? [{ geometry: 'linestring', coordinates: points, altitudes }] : [];
+    }
+    case 'MultiGeometry':
+    case 'MultiTrack':
+      return childElements(el).flatMap(readGeometry);
+    default:
+      return [];
+  }
+}
+
+function readExtendedData(placemark: Element): Record<string, string> | undefined {
+  const extended = firstChild(placemark, 'ExtendedData');
+  if (!extended) return undefined;
+
+  const properties: Record<string, string> = {};
+  descendants(extended, 'Data').forEach((data) => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = childText(data, 'value') ?? '';
+  });
+  descendants(extended, 'SimpleData').forEach((data) => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = data.textContent?.trim() ?? '';
+  });
+
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read every Placemark geometry in a KML document. Multi-part placemarks are
+ * split into one feature per part.
+ */
+export function parseKml(text: string): GeoFeature[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('KML file is not valid XML');
+  }
+  if (doc.documentElement.localName !== 'kml') {
+    throw new Error('Not a KML document');
+  }
+
+  const features: GeoFeature[] = [];
+
+  const visit = (container: Element, folder?: string) => {
+    childElements(container).forEach((el) => {
+      if (el.localName === 'Folder' || el.localName === 'Document') {
+        visit(el, childText(el, 'name') ?? folder);
+        return;
+      }
+      if (el.localName !== 'Placemark') return;
+
+      const name = childText(el, 'name') ?? `Placemark ${features.length + 1}`;
+      const parts = childElements(el).flatMap(readGeometry);
+
+      parts.forEach((part, index) => {
+        features.push({
+          ...part,
+          id: `kml-${features.length + 1}`,
+          name: parts.length > 1 ? `${name} (${index + 1})` : name,
+          description: childText(el, 'description'),
+          folder,
+          properties: readExtendedData(el),
+        });
+      });
+    });
+  };
+
+  visit(doc.documentElement);
+  return features;
+}
+
+/**
+ * Load a .kml or .kmz file. KMZ archives use doc.kml, or the first .kml entry.
+ */
+export async function loadKmlFile(file: File): Promise<GeoFeature[]> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+
+  if (!isZip) {
+    return parseKml(new TextDecoder().decode(buffer));
+  }
+
+  const entries = await readZip(buffer, (name) => entryBaseName(name).endsWith('.kml'));
+  const entry = entries.find((e) => entryBaseName(e.name) === 'doc.kml') ?? entries[0];
+  if (!entry) {
+    throw new Error(`${file.name} does not contain a KML document`);
+  }
+  return parseKml(new TextDecoder().decode(entry.data));
+}
+
+// ============================================================================
+// Export Helpers
+// ============================================================================
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * KML colors are aabbggrr
+ */
+function toKmlColor(hex: string, opacity: number = 1): string {
+  const rgb = hex.replace('#', '').slice(0, 6).padEnd(6, '0');
+  const alpha = Math.round(Math.min(1, Math.max(0, opacity)) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`;
+}
+
+const formatCoordinate = (p: { lat: number; lng: number; alt?: number }): string =>
+  `${p.lng.toFixed(7)},${p.lat.toFixed(7)},${(p.alt ?? 0).toFixed(1)}`;
+
+function pathPlacemark(path: ExportPath): string {
+  const hasAltitude = path.points.some((p) => p.alt !== undefined);
+  return [
+    '    <Placemark>',
+    `      <name>${escapeXml(path.name)}</name>`,
+    ...(path.description ? [`      <description>${escapeXml(path.description)}</description>`] : []),
+    '      <Style>',
+    `        <LineStyle><color>${toKmlColor(path.color ?? DEFAULT_PATH_COLOR)}</color><width>${DEFAULT_PATH_WIDTH}</width></LineStyle>`,
+    '      </Style>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <altitudeMode>${hasAltitude ? 'relativeToGround' : 'clampToGround'}</altitudeMode>`,
+    `        <coordinates>${path.points.map(formatCoordinate).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+  ].join('\n');
+}
+
+function polygonPlacemark(name: string, vertices: LatLngPoint[], color: string): string {
+  const ring = [...vertices, vertices[0]];
+  return [
+    '    <Placemark>',
+    `      <name>${escapeXml(name)}</name>`,
+    '      <Style>',
+    `        <LineStyle><color>${toKmlColor(color)}</color><width>2</width></LineStyle>`,
+    `        <PolyStyle><color>${toKmlColor(color, 0.25)}</color></PolyStyle>`,
+    '      </Style>',
+    '      <Polygon>',
+    '        <outerBoundaryIs><LinearRing>',
+    `          <coordinates>${ring.map((p) => formatCoordinate(p)).join(' ')}</coordinates>`,
+    '        </LinearRing></outerBoundaryIs>',
+    '      </Polygon>',
+    '    </Placemark>',
+  ].join('\n');
+}
+
+/**
+ * Circle obstacles as regular polygons
+ */
+function obstacleRing(obstacle: ObstacleZone): LatLngPoint[] {
+  if (obstacle.type !== 'circle' || !obstacle.center || !obstacle.radius) {
+    return obstacle.vertices;
+  }
+
+  const { center, radius } = obstacle;
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) =>
+    geodesicDestination(center.lat, center.lng, radius, (i * 360) / CIRCLE_SEGMENTS)
+  );
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export interface KmlExportContent {
+  name: string;
+  paths: ExportPath[];
+  areas?: { name: string; vertices: LatLngPoint[]; color?: string }[];
+  obstacles?: ObstacleZone[];
+}
+
+/**
+ * KML document with planned/flown paths as LineStrings plus optional survey
+ * areas and obstacles as polygons
+ */
+export function buildKml(content: KmlExportContent): string {
+  const areas = (content.areas ?? []).filter((area) => area.vertices.length >= 3);
+  const obstacles = (content.obstacles ?? []).filter((obs) => obs.enabled);
+
+  const placemarks = [
+    ...content.paths.filter((path) => path.points.length >= 2).map(pathPlacemark),
+    ...areas.map((area) => polygonPlacemark(area.name, area.vertices, area.color ?? DEFAULT_PATH_COLOR)),
+    ...obstacles
+      .map((obs) => ({ obs, ring: obstacleRing(obs) }))
+      .filter(({ ring }) => ring.length >= 3)
+      .map(({ obs, ring }) => polygonPlacemark(obs.name, ring, obs.color)),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    '  <Document>',
+    `    <name>${escapeXml(content.name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  parseKml,
+  loadKmlFile,
+  buildKml,
+};
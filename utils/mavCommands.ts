@@ -0,0 +1,121 @@
+/**
+ * MAVLink Command Constants
+ * MAV_CMD, MAV_FRAME and vehicle enums used by mission files and uploads
+ */
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+export const MAV_CMD = {
+  NAV_WAYPOINT: 16,
+  NAV_LOITER_UNLIM: 17,
+  NAV_LOITER_TURNS: 18,
+  NAV_LOITER_TIME: 19,
+  NAV_RETURN_TO_LAUNCH: 20,
+  NAV_LAND: 21,
+  NAV_TAKEOFF: 22,
+  NAV_LOITER_TO_ALT: 31,
+  NAV_VTOL_TAKEOFF: 84,
+  NAV_VTOL_LAND: 85,
+  NAV_DELAY: 93,
+  CONDITION_DELAY: 112,
+  CONDITION_YAW: 115,
+  DO_JUMP: 177,
+  DO_CHANGE_SPEED: 178,
+  DO_SET_HOME: 179,
+  DO_SET_SERVO: 183,
+  DO_LAND_START: 189,
+  DO_SET_ROI_LOCATION: 195,
+  DO_SET_ROI_NONE: 197,
+  DO_DIGICAM_CONTROL: 203,
+  DO_MOUNT_CONTROL: 205,
+  DO_SET_CAM_TRIGG_DIST: 206,
+  DO_SET_CAM_TRIGG_INTERVAL: 214,
+  SET_CAMERA_MODE: 530,
+  IMAGE_START_CAPTURE: 2000,
+  IMAGE_STOP_CAPTURE: 2001,
+  VIDEO_START_CAPTURE: 2500,
+  VIDEO_STOP_CAPTURE: 2501,
+  DO_GIMBAL_MANAGER_PITCHYAW: 1000,
+  NAV_FENCE_POLYGON_VERTEX_INCLUSION: 5001,
+  NAV_FENCE_POLYGON_VERTEX_EXCLUSION: 5002,
+  NAV_FENCE_CIRCLE_INCLUSION: 5003,
+  NAV_FENCE_CIRCLE_EXCLUSION: 5004,
+  NAV_RALLY_POINT: 5100,
+} as const;
+
+/**
+ * Commands that carry a position in params 5-7
+ */
+export const NAV_COMMANDS_WITH_POSITION: number[] = [
+  MAV_CMD.NAV_WAYPOINT,
+  MAV_CMD.NAV_LOITER_UNLIM,
+  MAV_CMD.NAV_LOITER_TURNS,
+  MAV_CMD.NAV_LOITER_TIME,
+  MAV_CMD.NAV_LAND,
+  MAV_CMD.NAV_TAKEOFF,
+  MAV_CMD.NAV_LOITER_TO_ALT,
+  MAV_CMD.NAV_VTOL_TAKEOFF,
+  MAV_CMD.NAV_VTOL_LAND,
+];
+
+// ============================================================================
+// Frames and Vehicle Types
+// ============================================================================
+
+export const MAV_FRAME = {
+  GLOBAL: 0, // altitude AMSL
+  MISSION: 2, // no position
+  GLOBAL_RELATIVE_ALT: 3, // altitude above home
+  GLOBAL_TERRAIN_ALT: 10, // altitude above terrain
+} as const;
+
+export const MAV_MISSION_TYPE = {
+  MISSION: 0,
+  FENCE: 1,
+  RALLY: 2,
+} as const;
+
+export const MAV_MOUNT_MODE = {
+  RETRACT: 0,
+  NEUTRAL: 1,
+  MAVLINK_TARGETING: 2,
+  RC_TARGETING: 3,
+  GPS_POINT: 4,
+} as const;
+
+export const SPEED_TYPE = {
+  AIRSPEED: 0,
+  GROUNDSPEED: 1,
+} as const;
+
+export const MAV_AUTOPILOT = {
+  GENERIC: 0,
+  ARDUPILOTMEGA: 3,
+  INVALID: 8, // not a flight controller, e.g. a GCS or camera
+  PX4: 12,
+} as const;
+
+export const MAV_TYPE = {
+  FIXED_WING: 1,
+  QUADROTOR: 2,
+  HEXAROTOR: 13,
+  OCTOROTOR: 14,
+  VTOL_QUADROTOR: 20,
+} as const;
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  MAV_CMD,
+  MAV_FRAME,
+  MAV_MISSION_TYPE,
+  MAV_MOUNT_MODE,
+  SPEED_TYPE,
+  MAV_AUTOPILOT,
+  MAV_TYPE,
+  NAV_COMMANDS_WITH_POSITION,
+};
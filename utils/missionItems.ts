@@ -0,0 +1,377 @@
+/**
+ * MAVLink Mission Encoder
+ * Compiles planner output into mission actions and MISSION_ITEM_INT rows for upload
+ */
+
+import { GridMissionPlan, GridSortie, GridWaypoint, LatLngPoint, Position } from '@/types/gridMission';
+import { GeofenceZone, RallyPoint } from '@/types/geofence';
+import {
+  AltitudeFrame,
+  MissionAction,
+  MissionCompileOptions,
+  MissionItem,
+} from '@/types/missionItems';
+import { MAV_CMD, MAV_FRAME, MAV_MISSION_TYPE, MAV_MOUNT_MODE, SPEED_TYPE } from './mavCommands';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEG_E7 = 1e7;
+const DEFAULT_ACCEPTANCE_RADIUS = 2; // meters
+const NADIR_CAMERA_ANGLE = 90; // degrees below the horizon
+
+const ALTITUDE_FRAMES: Record<AltitudeFrame, number> = {
+  relative: MAV_FRAME.GLOBAL_RELATIVE_ALT,
+  terrain: MAV_FRAME.GLOBAL_TERRAIN_ALT,
+  amsl: MAV_FRAME.GLOBAL,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlannerActionOptions {
+  cruiseSpeed?: number; // m/s, sets DO_CHANGE_SPEED after takeoff
+  acceptanceRadius?: number; // meters
+  returnToLaunch?: boolean; // end with RTL, default true
+}
+
+type Params = [number | null, number | null, number | null, number | null, number, number, number];
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const withPosition = (
+  command: number,
+  position: Position,
+  params: [number | null, number | null, number | null, number | null]
+): { command: number; positional: true; params: Params } => ({
+  command,
+  positional: true,
+  params: [...params, position.lat, position.lon, position.alt],
+});
+
+const withoutPosition = (
+  command: number,
+  params: Partial<Params>
+): { command: number; positional: false; params: Params } => ({
+  command,
+  positional: false,
+  params: [params[0] ?? 0, params[1] ?? 0, params[2] ?? 0, params[3] ?? 0, params[4] ?? 0, params[5] ?? 0, params[6] ?? 0],
+});
+
+/**
+ * MAV_CMD and param1-7 for an action
+ */
+function encodeAction(action: MissionAction): { command: number; positional: boolean; params: Params } {
+  switch (action.type) {
+    case 'takeoff':
+      return withPosition(MAV_CMD.NAV_TAKEOFF, action.position, [action.pitch ?? 0, 0, 0, action.yaw ?? null]);
+    case 'waypoint':
+      return withPosition(MAV_CMD.NAV_WAYPOINT, action.position, [
+        action.holdTime ?? 0,
+        action.acceptanceRadius ?? DEFAULT_ACCEPTANCE_RADIUS,
+        action.passRadius ?? 0,
+        action.yaw ?? null,
+      ]);
+    case 'loiter_time':
+      return withPosition(MAV_CMD.NAV_LOITER_TIME, action.position, [action.seconds, 0, action.radius ?? 0, 0]);
+    case 'loiter_turns':
+      return withPosition(MAV_CMD.NAV_LOITER_TURNS, action.position, [action.turns, 0, action.radius ?? 0, 0]);
+    case 'loiter_unlimited':
+      return withPosition(MAV_CMD.NAV_LOITER_UNLIM, action.position, [0, 0, action.radius ?? 0, action.yaw ?? null]);
+    case 'land':
+      return withPosition(MAV_CMD.NAV_LAND, action.position, [action.abortAltitude ?? 0, 0, 0, action.yaw ?? null]);
+    case 'return_to_launch':
+      return withoutPosition(MAV_CMD.NAV_RETURN_TO_LAUNCH, []);
+    case 'change_speed':
+      return withoutPosition(MAV_CMD.DO_CHANGE_SPEED, [
+        action.speedType === 'airspeed' ? SPEED_TYPE.AIRSPEED : SPEED_TYPE.GROUNDSPEED,
+        action.speed,
+        -1, // throttle unchanged
+      ]);
+    case 'camera_trigger_distance':
+      return withoutPosition(MAV_CMD.DO_SET_CAM_TRIGG_DIST, [action.distance, 0, action.triggerOnce === false ? 0 : 1]);
+    case 'camera_trigger_interval':
+      return withoutPosition(MAV_CMD.DO_SET_CAM_TRIGG_INTERVAL, [action.interval, -1]);
+    case 'mount_control':
+      return withoutPosition(MAV_CMD.DO_MOUNT_CONTROL, [
+        action.pitch,
+        action.roll ?? 0,
+        action.yaw ?? 0,
+        0,
+        0,
+        0,
+        MAV_MOUNT_MODE.MAVLINK_TARGETING,
+      ]);
+    case 'condition_yaw':
+      return withoutPosition(MAV_CMD.CONDITION_YAW, [action.heading, action.rate ?? 0, 0, action.relative ? 1 : 0]);
+    case 'region_of_interest':
+      return withPosition(MAV_CMD.DO_SET_ROI_LOCATION, action.position, [0, 0, 0, 0]);
+    case 'region_of_interest_none':
+      return withoutPosition(MAV_CMD.DO_SET_ROI_NONE, []);
+    case 'delay':
+      return withoutPosition(MAV_CMD.NAV_DELAY, [action.seconds, -1, -1, -1]);
+  }
+}
+
+/**
+ * Encode one action as a MISSION_ITEM_INT row
+ */
+export function encodeMissionItem(action: MissionAction, seq: number, altitudeFrame: AltitudeFrame = 'relative'): MissionItem {
+  const { command, positional, params } = encodeAction(action);
+
+  return {
+    seq,
+    frame: positional ? ALTITUDE_FRAMES[altitudeFrame] : MAV_FRAME.MISSION,
+    command,
+    current: seq === 0 ? 1 : 0,
+    autocontinue: 1,
+    param1: params[0],
+    param2: params[1],
+    param3: params[2],
+    param4: params[3],
+    x: positional ? Math.round(params[4] * DEG_E7) : params[4],
+    y: positional ? Math.round(params[5] * DEG_E7) : params[5],
+    z: params[6],
+    mission_type: MAV_MISSION_TYPE.MISSION,
+  };
+}
+
+/**
+ * Number the actions into an uploadable item list. ArduPilot keeps the home
+ * position at seq 0, so it is written first for that autopilot.
+ */
+export function compileMission(actions: MissionAction[], options: MissionCompileOptions = {}): MissionItem[] {
+  const { altitudeFrame = 'relative', autopilot = 'px4', home } = options;
+  const items: MissionItem[] = [];
+
+  if (autopilot === 'ardupilot') {
+    if (!home) {
+      throw new Error('ArduPilot missions need a home position');
+    }
+    items.push({ ...encodeMissionItem({ type: 'waypoint', position: home }, 0), frame: MAV_FRAME.GLOBAL });
+  }
+
+  actions.forEach((action) => items.push(encodeMissionItem(action, items.length, altitudeFrame)));
+  return items;
+}
+
+/**
+ * Index of the waypoint the vehicle is heading to, given the mission item it
+ * reports as current. Takeoff and DO_* items in between are skipped, as is
+ * the ArduPilot home item; pass the options the mission was compiled with.
+ */
+export function waypointIndexAtItem(
+  actions: MissionAction[],
+  missionCurrent: number,
+  options: Pick<MissionCompileOptions, 'autopilot'> = {}
+): number {
+  const firstAction = options.autopilot === 'ardupilot' ? 1 : 0;
+  return actions
+    .slice(0, Math.max(0, missionCurrent - firstAction))
+    .filter((action) => action.type === 'waypoint').length;
+}
+
+// ============================================================================
+// Fence & Rally Items
+// ============================================================================
+
+const fenceItem = (
+  seq: number,
+  command: number,
+  point: LatLngPoint,
+  param1: number,
+  param2: number = 0
+): MissionItem => ({
+  seq,
+  frame: MAV_FRAME.GLOBAL,
+  command,
+  current: 0,
+  autocontinue: 0,
+  param1,
+  param2,
+  param3: 0,
+  param4: 0,
+  x: Math.round(point.lat * DEG_E7),
+  y: Math.round(point.lng * DEG_E7),
+  z: 0,
+  mission_type: MAV_MISSION_TYPE.FENCE,
+});
+
+/**
+ * Items for a MAV_MISSION_TYPE_FENCE upload. Polygons are sent vertex by
+ * vertex, each vertex carrying the polygon's vertex count; all inclusion
+ * zones share group 0, so the vehicle may fly anywhere inside their union.
+ * Altitude bands are not part of the fence protocol: the autopilot takes
+ * its fence ceiling from its own parameters.
+ */
+export function compileFence(zones: GeofenceZone[]): MissionItem[] {
+  const items: MissionItem[] = [];
+
+  zones.forEach((zone) => {
+    const inclusion = zone.kind === 'inclusion';
+
+    if (zone.type === 'circle') {
+      if (!zone.center || !zone.radius) {
+        throw new Error(`${zone.name}: circle fence needs a center and radius`);
+      }
+      const command = inclusion ? MAV_CMD.NAV_FENCE_CIRCLE_INCLUSION : MAV_CMD.NAV_FENCE_CIRCLE_EXCLUSION;
+      items.push(fenceItem(items.length, command, zone.center, zone.radius));
+      return;
+    }
+
+    const first = zone.vertices[0];
+    const last = zone.vertices[zone.vertices.length - 1];
+    const closed = zone.vertices.length > 1 && first.lat === last.lat && first.lng === last.lng;
+    const vertices = closed ? zone.vertices.slice(0, -1) : zone.vertices;
+    if (vertices.length < 3) {
+      throw new Error(`${zone.name}: fence polygon needs at least 3 vertices`);
+    }
+
+    const command = inclusion ? MAV_CMD.NAV_FENCE_POLYGON_VERTEX_INCLUSION : MAV_CMD.NAV_FENCE_POLYGON_VERTEX_EXCLUSION;
+    vertices.forEach((vertex) => items.push(fenceItem(items.length, command, vertex, vertices.length)));
+  });
+
+  return items;
+}
+
+/**
+ * Items for a MAV_MISSION_TYPE_RALLY upload
+ */
+export function compileRallyPoints(points: RallyPoint[], altitudeFrame: AltitudeFrame = 'relative'): MissionItem[] {
+  return points.map((point, seq) => ({
+    ...fenceItem(seq, MAV_CMD.NAV_RALLY_POINT, { lat: point.lat, lng: point.lon }, 0),
+    frame: ALTITUDE_FRAMES[altitudeFrame],
+    z: point.alt,
+    mission_type: MAV_MISSION_TYPE.RALLY,
+  }));
+}
+
+// ============================================================================
+// Planner Actions
+// ============================================================================
+
+/**
+ * Actions for a grid or pattern survey: takeoff, cruise speed, gimbal,
+ * camera triggering over the survey legs only (transit legs to and from home
+ * fly with the camera off), per-waypoint yaw and gimbal changes, and RTL.
+ */
+function surveyActions(
+  plan: GridMissionPlan,
+  waypoints: GridWaypoint[],
+  options: PlannerActionOptions
+): MissionAction[] {
+  if (waypoints.length === 0) {
+    throw new Error('Mission has no flyable waypoints');
+  }
+
+  const { config } = plan;
+  const first = waypoints[0].position;
+  const home = plan.home ?? { lat: first.lat, lng: first.lon };
+  const triggerDistance = plan.stats.triggerDistance;
+  const poi = config.pattern === 'orbit' ? config.orbit : undefined;
+
+  const actions: MissionAction[] = [
+    { type: 'takeoff', position: { lat: home.lat, lon: home.lng, alt: first.alt } },
+  ];
+  if (options.cruiseSpeed) {
+    actions.push({ type: 'change_speed', speed: options.cruiseSpeed });
+  }
+
+  let gimbalPitch = -(config.cameraAngle ?? NADIR_CAMERA_ANGLE);
+  actions.push({ type: 'mount_control', pitch: gimbalPitch });
+  if (poi) {
+    actions.push({
+      type: 'region_of_interest',
+      position: { lat: poi.center.lat, lon: poi.center.lng, alt: poi.poiAltitude ?? 0 },
+    });
+  }
+
+  let triggering = false;
+  waypoints.forEach((wp) => {
+    const surveying = Boolean(triggerDistance) && !wp.isTransit;
+    if (surveying !== triggering) {
+      actions.push({ type: 'camera_trigger_distance', distance: surveying ? triggerDistance! : 0, triggerOnce: surveying });
+      triggering = surveying;
+    }
+    if (!poi && wp.gimbalPitch !== undefined && wp.gimbalPitch !== gimbalPitch) {
+      gimbalPitch = wp.gimbalPitch;
+      actions.push({ type: 'mount_control', pitch: gimbalPitch });
+    }
+    actions.push({
+      type: 'waypoint',
+      position: wp.position,
+      acceptanceRadius: options.acceptanceRadius,
+      yaw: poi ? undefined : wp.heading,
+    });
+  });
+
+  if (triggering) {
+    actions.push({ type: 'camera_trigger_distance', distance: 0, triggerOnce: false });
+  }
+  if (poi) {
+    actions.push({ type: 'region_of_interest_none' });
+  }
+  if (options.returnToLaunch !== false) {
+    actions.push({ type: 'return_to_launch' });
+  }
+  return actions;
+}
+
+/**
+ * Actions for a complete grid mission plan
+ */
+export function gridPlanToMissionActions(plan: GridMissionPlan, options: PlannerActionOptions = {}): MissionAction[] {
+  return surveyActions(plan, plan.validWaypoints, options);
+}
+
+/**
+ * Actions for one sortie of a split plan, including its transit legs
+ */
+export function sortieToMissionActions(
+  sortie: GridSortie,
+  plan: GridMissionPlan,
+  options: PlannerActionOptions = {}
+): MissionAction[] {
+  return surveyActions(plan, sortie.waypoints, options);
+}
+
+/**
+ * Actions for a point-to-point route: takeoff at the first point, fly the
+ * stops and land at the last one
+ */
+export function routeToMissionActions(points: Position[], options: PlannerActionOptions = {}): MissionAction[] {
+  if (points.length < 2) {
+    throw new Error('Route needs at least a start and an end point');
+  }
+
+  const last = points[points.length - 1];
+  return [
+    { type: 'takeoff', position: points[0] },
+    ...(options.cruiseSpeed ? [{ type: 'change_speed', speed: options.cruiseSpeed } as MissionAction] : []),
+    ...points.slice(1).map((position): MissionAction => ({
+      type: 'waypoint',
+      position,
+      acceptanceRadius: options.acceptanceRadius,
+    })),
+    { type: 'land', position: { ...last, alt: 0 } },
+  ];
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  encodeMissionItem,
+  compileMission,
+  waypointIndexAtItem,
+  compileFence,
+  compileRallyPoints,
+  gridPlanToMissionActions,
+  sortieToMissionActions,
+  routeToMissionActions,
+};
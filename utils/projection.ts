@@ -0,0 +1,331 @@
+/**
+ * Coordinate Reference Systems
+ * Reads ESRI/OGC WKT (.prj) definitions and converts projected or
+ * non-WGS84 coordinates to WGS84 lat/lng
+ */
+
+import { LatLngPoint } from '@/types/gridMission';
+import {
+  Ellipsoid,
+  WGS84_ELLIPSOID,
+  ecefToGeodetic,
+  geodeticToEcef,
+  toDegrees,
+  toRadians,
+  transverseMercatorForward,
+  transverseMercatorInverse,
+} from './geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ARCSEC_TO_RAD = Math.PI / (180 * 3600);
+
+/**
+ * Datum shifts to WGS84 (dx, dy, dz in meters) for datums whose ESRI .prj
+ * files carry no TOWGS84 clause. Keys are normalized datum names.
+ */
+const KNOWN_DATUM_SHIFTS: Record<string, number[]> = {
+  kalianpur_1937: [282, 726, 254],
+  kalianpur_1962: [283, 682, 231],
+  kalianpur_1975: [295, 736, 257],
+  indian_1954: [217, 823, 299],
+  indian_1960: [198, 881, 317],
+  indian_1975: [210, 814, 289],
+};
+
+// Datums that coincide with WGS84 at survey-planning accuracy
+const WGS84_COMPATIBLE_DATUMS = /wgs_?1984|wgs_?84|north_american_1983|nad_?83|etrs_?1989|gda_?94|gda_?2020|itrf/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProjectionMethod = 'geographic' | 'transverse_mercator' | 'lambert_conformal_conic';
+
+export interface CoordinateSystem {
+  name: string;
+  datum: string;
+  method: ProjectionMethod;
+  ellipsoid: Ellipsoid;
+  toWgs84?: number[]; // Helmert parameters: dx, dy, dz (m), rx, ry, rz (arc-seconds), ds (ppm)
+  centralMeridian: number; // degrees
+  latitudeOfOrigin: number; // degrees
+  standardParallels: [number, number]; // degrees, equal for one-parallel conics
+  scaleFactor: number;
+  falseEasting: number; // meters
+  falseNorthing: number; // meters
+  unitToMeters: number; // linear unit of projected coordinates
+  warnings: string[];
+}
+
+interface WktNode {
+  keyword: string;
+  values: (string | number | WktNode)[];
+}
+
+// ============================================================================
+// WKT Parsing
+// ============================================================================
+
+function parseWkt(text: string): WktNode {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /[\s,]/.test(text[pos])) pos++;
+  };
+
+  const parseNode = (): WktNode => {
+    skipSpace();
+    const start = pos;
+    while (pos < text.length && /[A-Za-z0-9_]/.test(text[pos])) pos++;
+    const keyword = text.slice(start, pos).toUpperCase();
+    if (!keyword || !/[[(]/.test(text[pos] ?? '')) {
+      throw new Error(`Invalid projection definition near "${text.slice(start, start + 20)}"`);
+    }
+    pos++;
+
+    const values: WktNode['values'] = [];
+    for (;;) {
+      skipSpace();
+      const char = text[pos];
+      if (char === undefined) throw new Error('Projection definition is truncated');
+      if (char === ']' || char === ')') {
+        pos++;
+        return { keyword, values };
+      }
+      if (char === '"') {
+        const end = text.indexOf('"', pos + 1);
+        if (end < 0) throw new Error('Projection definition has an unterminated string');
+        values.push(text.slice(pos + 1, end));
+        pos = end + 1;
+      } else if (/[-+.\d]/.test(char)) {
+        const match = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(pos));
+        if (!match) throw new Error(`Invalid number in projection definition at ${pos}`);
+        values.push(Number(match[0]));
+        pos += match[0].length;
+      } else {
+        const save = pos;
+        while (pos < text.length && /[A-Za-z0-9_]/.test(text[pos])) pos++;
+        if (/[[(]/.test(text[pos] ?? '')) {
+          pos = save;
+          values.push(parseNode());
+        } else {
+          values.push(text.slice(save, pos)); // bare enum such as AXIS[..., EAST]
+        }
+      }
+    }
+  };
+
+  return parseNode();
+}
+
+const child = (node: WktNode | undefined, keyword: string): WktNode | undefined =>
+  node?.values.find((v): v is WktNode => typeof v === 'object' && v.keyword === keyword);
+
+const children = (node: WktNode, keyword: string): WktNode[] =>
+  node.values.filter((v): v is WktNode => typeof v === 'object' && v.keyword === keyword);
+
+const numbers = (node: WktNode | undefined): number[] =>
+  (node?.values ?? []).filter((v): v is number => typeof v === 'number');
+
+const label = (node: WktNode | undefined): string =>
+  typeof node?.values[0] === 'string' ? (node.values[0] as string) : '';
+
+/**
+ * Lower-case name with ESRI prefixes and punctuation folded to underscores
+ */
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/^d_/, '').replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+function readParameters(projcs: WktNode): Record<string, number> {
+  const params: Record<string, number> = {};
+  children(projcs, 'PARAMETER').forEach((param) => {
+    params[normalizeName(label(param))] = numbers(param)[0];
+  });
+  return params;
+}
+
+const firstDefined = (...values: (number | undefined)[]): number | undefined =>
+  values.find((value) => value !== undefined && Number.isFinite(value));
+
+/**
+ * Parse a .prj file. Supports geographic systems and Transverse Mercator
+ * (including UTM) and Lambert Conformal Conic projections on any ellipsoid.
+ */
+export function parsePrj(text: string): CoordinateSystem {
+  const root = parseWkt(text.trim());
+  if (root.keyword !== 'PROJCS' && root.keyword !== 'GEOGCS') {
+    throw new Error(`Unsupported coordinate system type ${root.keyword}; re-export the layer with a WKT1 .prj`);
+  }
+
+  const geogcs = root.keyword === 'GEOGCS' ? root : child(root, 'GEOGCS');
+  const datumNode = child(geogcs, 'DATUM');
+  const [a, inverseFlattening] = numbers(child(datumNode, 'SPHEROID'));
+  if (!a) {
+    throw new Error('Projection definition has no ellipsoid');
+  }
+
+  const datum = label(datumNode);
+  const warnings: string[] = [];
+  const ellipsoid: Ellipsoid = { a, f: inverseFlattening ? 1 / inverseFlattening : 0 };
+
+  let toWgs84: number[] | undefined = numbers(child(datumNode, 'TOWGS84'));
+  if (toWgs84.length === 0) {
+    const normalized = normalizeName(datum);
+    toWgs84 = KNOWN_DATUM_SHIFTS[normalized];
+    if (!toWgs84 && !WGS84_COMPATIBLE_DATUMS.test(normalized) && Math.abs(a - WGS84_ELLIPSOID.a) > 1) {
+      warnings.push(`No WGS84 shift is known for datum ${datum}; positions may be off by up to a few hundred meters`);
+    }
+  }
+
+  const system: CoordinateSystem = {
+    name: label(root),
+    datum,
+    method: 'geographic',
+    ellipsoid,
+    toWgs84,
+    centralMeridian: 0,
+    latitudeOfOrigin: 0,
+    standardParallels: [0, 0],
+    scaleFactor: 1,
+    falseEasting: 0,
+    falseNorthing: 0,
+    unitToMeters: 1,
+    warnings,
+  };
+  if (root.keyword === 'GEOGCS') return system;
+
+  const projection = normalizeName(label(child(root, 'PROJECTION')));
+  const params = readParameters(root);
+  system.unitToMeters = numbers(child(root, 'UNIT'))[0] || 1;
+  system.centralMeridian = firstDefined(params.central_meridian, params.longitude_of_center, params.longitude_of_origin) ?? 0;
+  system.latitudeOfOrigin = firstDefined(params.latitude_of_origin, params.latitude_of_center) ?? 0;
+  system.scaleFactor = firstDefined(params.scale_factor) ?? 1;
+  // False origins are given in the projected unit
+  system.falseEasting = (params.false_easting ?? 0) * system.unitToMeters;
+  system.falseNorthing = (params.false_northing ?? 0) * system.unitToMeters;
+
+  if (projection === 'transverse_mercator' || projection === 'gauss_kruger') {
+    system.method = 'transverse_mercator';
+  } else if (projection.startsWith('lambert_conformal_conic')) {
+    system.method = 'lambert_conformal_conic';
+    const first = firstDefined(params.standard_parallel_1, system.latitudeOfOrigin)!;
+    const second = firstDefined(params.standard_parallel_2) ?? first;
+    system.standardParallels = [first, second];
+  } else {
+    throw new Error(`Unsupported projection ${label(child(root, 'PROJECTION'))}; re-project the layer to WGS84 or UTM`);
+  }
+
+  return system;
+}
+
+// ============================================================================
+// Projections
+// ============================================================================
+
+/**
+ * Lambert Conformal Conic inverse on an ellipsoid (Snyder 15-7 to 15-11).
+ * Coordinates are meters from the false origin already removed.
+ */
+function lambertConformalConicInverse(x: number, y: number, system: CoordinateSystem): LatLngPoint {
+  const { a, f } = system.ellipsoid;
+  const e = Math.sqrt(f * (2 - f));
+  const phi1 = toRadians(system.standardParallels[0]);
+  const phi2 = toRadians(system.standardParallels[1]);
+  const phi0 = toRadians(system.latitudeOfOrigin);
+
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - e * e * Math.sin(phi) ** 2);
+  const t = (phi: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi)), e / 2);
+
+  const n = Math.abs(phi1 - phi2) < 1e-12
+    ? Math.sin(phi1)
+    : (Math.log(m(phi1)) - Math.log(m(phi2))) / (Math.log(t(phi1)) - Math.log(t(phi2)));
+  const F = m(phi1) / (n * Math.pow(t(phi1), n));
+  const scaledA = a * system.scaleFactor;
+  const rho0 = scaledA * F * Math.pow(t(phi0), n);
+
+  const sign = Math.sign(n);
+  const rho = sign * Math.hypot(x, rho0 - y);
+  const theta = Math.atan2(sign * x, sign * (rho0 - y));
+  const tPrime = Math.pow(rho / (scaledA * F), 1 / n);
+
+  let phi = Math.PI / 2 - 2 * Math.atan(tPrime);
+  for (let i = 0; i < 15; i++) {
+    const sinPhi = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(tPrime * Math.pow((1 - sinPhi) / (1 + sinPhi), e / 2));
+    if (Math.abs(next - phi) < 1e-12) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+
+  return { lat: toDegrees(phi), lng: system.centralMeridian + toDegrees(theta / n) };
+}
+
+/**
+ * Seven-parameter Helmert shift (position vector convention, as in TOWGS84)
+ */
+function shiftToWgs84(point: LatLngPoint, ellipsoid: Ellipsoid, params: number[]): LatLngPoint {
+  const [dx = 0, dy = 0, dz = 0, rx = 0, ry = 0, rz = 0, ds = 0] = params;
+  const [x, y, z] = geodeticToEcef(point.lat, point.lng, 0, ellipsoid);
+  const scale = 1 + ds * 1e-6;
+  const [wx, wy, wz] = [rx * ARCSEC_TO_RAD, ry * ARCSEC_TO_RAD, rz * ARCSEC_TO_RAD];
+
+  const shifted = ecefToGeodetic(
+    dx + scale * (x - wz * y + wy * z),
+    dy + scale * (wz * x + y - wx * z),
+    dz + scale * (-wy * x + wx * y + z)
+  );
+  return { lat: shifted.lat, lng: shifted.lng };
+}
+
+/**
+ * Convert a coordinate pair in the given system to WGS84 lat/lng.
+ * Geographic systems take (longitude, latitude); projected ones (easting, northing).
+ */
+export function toWgs84(system: CoordinateSystem, x: number, y: number): LatLngPoint {
+  let point: LatLngPoint;
+
+  if (system.method === 'geographic') {
+    point = { lat: y, lng: x };
+  } else {
+    const east = x * system.unitToMeters - system.falseEasting;
+    const north = y * system.unitToMeters - system.falseNorthing;
+
+    if (system.method === 'transverse_mercator') {
+      // Northing is measured from the latitude of origin, not the equator
+      const originNorthing = system.latitudeOfOrigin === 0
+        ? 0
+        : transverseMercatorForward(system.latitudeOfOrigin, system.centralMeridian, system.centralMeridian, system.scaleFactor, system.ellipsoid).northing;
+      point = transverseMercatorInverse(east, north + originNorthing, system.centralMeridian, system.scaleFactor, system.ellipsoid);
+    } else {
+      point = lambertConformalConicInverse(east, north, system);
+    }
+  }
+
+  return system.toWgs84 && system.toWgs84.some((value) => value !== 0)
+    ? shiftToWgs84(point, system.ellipsoid, system.toWgs84)
+    : point;
+}
+
+/**
+ * Short human-readable description, e.g. "WGS_1984_UTM_Zone_43N (Transverse Mercator)"
+ */
+export function describeCoordinateSystem(system: CoordinateSystem): string {
+  const method = system.method.split('_').map((word) => word[0].toUpperCase() + word.slice(1)).join(' ');
+  return `${system.name || system.datum} (${method})`;
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  parsePrj,
+  toWgs84,
+  describeCoordinateSystem,
+};
@@ -0,0 +1,942 @@
+/**
+ * QGroundControl Plan Files
+ * Export grid and route missions to .plan JSON and import them back
+ */
+
+import { Waypoint } from '@/types';
+import {
+  CameraProfile,
+  GridLine,
+  GridMissionConfig,
+  GridMissionPlan,
+  GridWaypoint,
+  LatLngPoint,
+  ObstacleZone,
+} from '@/types/gridMission';
+import {
+  PlanImportIssue,
+  PlanImportReport,
+  PlanRallyPoint,
+  QgcCameraCalc,
+  QgcCoordinate,
+  QgcGeoFence,
+  QgcMissionItem,
+  QgcPlanFile,
+  QgcSimpleItem,
+  QgcTransectStyle,
+} from '@/types/qgcPlan';
+import { MAV_AUTOPILOT, MAV_CMD, MAV_FRAME, MAV_TYPE, NAV_COMMANDS_WITH_POSITION } from '@/utils/mavCommands';
+import { calculatePolygonArea, resolveSurveyGeometry } from '@/utils/gridMissionUtils';
+import { DEFAULT_PERFORMANCE_PROFILE, estimateMissionEnergy } from '@/utils/energyModel';
+import { toLocalEnu } from '@/utils/geodesy';
+import { toRouteWaypoints } from '@/utils/geoFeatures';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PLAN_FILE_VERSION = 1;
+const MISSION_VERSION = 2;
+const GEOFENCE_VERSION = 2;
+const RALLY_VERSION = 2;
+const SURVEY_VERSION = 5;
+const CORRIDOR_SCAN_VERSION = 3;
+const TRANSECT_STYLE_VERSION = 2;
+const ALTITUDE_MODE_RELATIVE = 1;
+const MANUAL_CAMERA_NAME = 'Manual (no camera specs)';
+const DEFAULT_TURNAROUND_DISTANCE = 10; // meters
+
+// Fences become obstacles that a climb-over (capped at 120 m) can never clear
+const FENCE_OBSTACLE_CEILING = 150;
+
+// Commands that change camera, speed or gimbal state but not the flight path
+const NON_NAVIGATION_COMMANDS: number[] = [
+  MAV_CMD.DO_CHANGE_SPEED,
+  MAV_CMD.DO_SET_ROI_LOCATION,
+  MAV_CMD.DO_SET_ROI_NONE,
+  MAV_CMD.DO_DIGICAM_CONTROL,
+  MAV_CMD.DO_MOUNT_CONTROL,
+  MAV_CMD.DO_SET_CAM_TRIGG_DIST,
+  MAV_CMD.DO_SET_CAM_TRIGG_INTERVAL,
+  MAV_CMD.DO_GIMBAL_MANAGER_PITCHYAW,
+  MAV_CMD.SET_CAMERA_MODE,
+  MAV_CMD.IMAGE_START_CAPTURE,
+  MAV_CMD.IMAGE_STOP_CAPTURE,
+  MAV_CMD.VIDEO_START_CAPTURE,
+  MAV_CMD.VIDEO_STOP_CAPTURE,
+  MAV_CMD.CONDITION_YAW,
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlanExportOptions {
+  cruiseSpeed?: number; // m/s
+  hoverSpeed?: number; // m/s
+  obstacles?: ObstacleZone[]; // written as exclusion fences
+  rallyPoints?: PlanRallyPoint[];
+}
+
+export interface ImportedGridPlan {
+  plan: GridMissionPlan;
+  rallyPoints: PlanRallyPoint[];
+  report: PlanImportReport;
+}
+
+export interface ImportedRoute {
+  waypoints: Waypoint[];
+  home?: LatLngPoint;
+  obstacles: ObstacleZone[];
+  rallyPoints: PlanRallyPoint[];
+  report: PlanImportReport;
+}
+
+interface NavPoint {
+  lat: number;
+  lng: number;
+  alt: number; // relative to home
+  heading?: number;
+  command: number;
+  itemIndex: number;
+  source: 'simple' | 'survey' | 'corridor';
+}
+
+interface ParsedSurvey {
+  kind: 'survey' | 'corridor';
+  outline: LatLngPoint[]; // polygon or corridor centerline
+  angle?: number;
+  corridorWidth?: number;
+  turnaroundDistance?: number;
+  cameraCalc?: QgcCameraCalc;
+  transects: LatLngPoint[][];
+  points: NavPoint[];
+}
+
+interface ParsedMission {
+  home?: LatLngPoint;
+  homeAltitude: number;
+  points: NavPoint[];
+  surveys: ParsedSurvey[];
+  obstacles: ObstacleZone[];
+  rallyPoints: PlanRallyPoint[];
+  report: PlanImportReport;
+}
+
+// ============================================================================
+// Export Helpers
+// ============================================================================
+
+const toCoordinate = (p: LatLngPoint): QgcCoordinate => [p.lat, p.lng];
+const fromCoordinate = (c: QgcCoordinate): LatLngPoint => ({ lat: c[0], lng: c[1] });
+
+/**
+ * Sequential DO_JUMP ids, shared by simple items and complex-item children
+ */
+function createJumpCounter(): () => number {
+  let next = 1;
+  return () => next++;
+}
+
+function simpleItem(
+  command: number,
+  doJumpId: number,
+  params: (number | null)[],
+  frame: number = MAV_FRAME.MISSION
+): QgcSimpleItem {
+  const item: QgcSimpleItem = {
+    type: 'SimpleItem',
+    autoContinue: true,
+    command,
+    doJumpId,
+    frame,
+    params,
+  };
+
+  if (frame === MAV_FRAME.GLOBAL_RELATIVE_ALT) {
+    item.Altitude = params[6] ?? 0;
+    item.AltitudeMode = ALTITUDE_MODE_RELATIVE;
+    item.AMSLAltAboveTerrain = null;
+  }
+  return item;
+}
+
+function navItem(
+  command: number,
+  doJumpId: number,
+  point: { lat: number; lng: number; alt: number },
+  yaw: number | null = null
+): QgcSimpleItem {
+  return simpleItem(command, doJumpId, [0, 0, 0, yaw, point.lat, point.lng, point.alt], MAV_FRAME.GLOBAL_RELATIVE_ALT);
+}
+
+const waypointItem = (wp: GridWaypoint, doJumpId: number): QgcSimpleItem =>
+  navItem(
+    MAV_CMD.NAV_WAYPOINT,
+    doJumpId,
+    { lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt },
+    wp.heading ?? null
+  );
+
+/**
+ * Obstacles as exclusion fences
+ */
+function buildGeoFence(obstacles: ObstacleZone[]): QgcGeoFence {
+  const enabled = obstacles.filter((obs) => obs.enabled);
+
+  return {
+    version: GEOFENCE_VERSION,
+    circles: enabled
+      .filter((obs) => obs.type === 'circle' && obs.center && obs.radius)
+      .map((obs) => ({
+        version: 1,
+        inclusion: false,
+        circle: { center: toCoordinate(obs.center!), radius: obs.radius! },
+      })),
+    polygons: enabled
+      .filter((obs) => obs.type === 'polygon' && obs.vertices.length >= 3)
+      .map((obs) => ({
+        version: 1,
+        inclusion: false,
+        polygon: obs.vertices.map(toCoordinate),
+      })),
+  };
+}
+
+function buildPlanFile(
+  items: QgcMissionItem[],
+  home: LatLngPoint,
+  homeAltitude: number,
+  options: PlanExportOptions
+): QgcPlanFile {
+  return {
+    fileType: 'Plan',
+    version: PLAN_FILE_VERSION,
+    groundStation: 'SkyrouteX',
+    mission: {
+      version: MISSION_VERSION,
+      firmwareType: MAV_AUTOPILOT.PX4,
+      vehicleType: MAV_TYPE.QUADROTOR,
+      cruiseSpeed: options.cruiseSpeed ?? 15,
+      hoverSpeed: options.hoverSpeed ?? 5,
+      plannedHomePosition: [home.lat, home.lng, homeAltitude],
+      items,
+    },
+    geoFence: buildGeoFence(options.obstacles ?? []),
+    rallyPoints: {
+      version: RALLY_VERSION,
+      points: (options.rallyPoints ?? []).map((p) => [p.lat, p.lng, p.alt]),
+    },
+  };
+}
+
+/**
+ * QGC camera settings for a grid configuration
+ */
+function buildCameraCalc(config: GridMissionConfig, plan: GridMissionPlan): QgcCameraCalc {
+  const geometry = resolveSurveyGeometry(config);
+  const frontal = plan.stats.triggerDistance ?? geometry.lineSpacing;
+  const base: QgcCameraCalc = {
+    version: 1,
+    CameraName: MANUAL_CAMERA_NAME,
+    DistanceToSurface: geometry.altitude,
+    DistanceToSurfaceRelative: true,
+    AdjustedFootprintFrontal: frontal,
+    AdjustedFootprintSide: geometry.lineSpacing,
+  };
+
+  if (!config.camera) return base;
+
+  return {
+    ...base,
+    CameraName: config.camera.name,
+    FixedValueIsAltitude: !config.targetGsd,
+    ValueSetIsDistance: false,
+    FocalLength: config.camera.focalLength,
+    SensorWidth: config.camera.sensorWidth,
+    SensorHeight: config.camera.sensorHeight,
+    ImageWidth: config.camera.imageWidth,
+    ImageHeight: config.camera.imageHeight,
+    Landscape: true,
+    SideOverlap: Math.round(config.overlap * 100),
+    FrontalOverlap: Math.round((config.frontOverlap ?? config.overlap) * 100),
+    MinTriggerInterval: 0,
+  };
+}
+
+/**
+ * Flyable start/end of every grid line, as QGC draws transects
+ */
+function visualTransectPoints(gridLines: GridLine[]): QgcCoordinate[] {
+  return gridLines.flatMap((line) => {
+    const valid = line.waypoints.filter((wp) => wp.isValid);
+    if (valid.length === 0) return [];
+    const first = valid[0].position;
+    const last = valid[valid.length - 1].position;
+    return [[first.lat, first.lon], [last.lat, last.lon]] as QgcCoordinate[];
+  });
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Complete .plan for a grid mission: takeoff, the survey as a QGC complex item
+ * (survey or corridor scan) or plain waypoints for other patterns, return to
+ * launch, obstacles as exclusion fences and any rally points.
+ */
+export function gridPlanToQgcPlan(plan: GridMissionPlan, options: PlanExportOptions = {}): QgcPlanFile {
+  const waypoints = plan.validWaypoints;
+  if (waypoints.length === 0) {
+    throw new Error('Mission has no flyable waypoints to export');
+  }
+
+  const { config } = plan;
+  const pattern = config.pattern ?? 'grid';
+  const nextId = createJumpCounter();
+  const first = waypoints[0].position;
+  const home = plan.home ?? { lat: first.lat, lng: first.lon };
+
+  const items: QgcMissionItem[] = [
+    navItem(MAV_CMD.NAV_TAKEOFF, nextId(), { lat: home.lat, lng: home.lng, alt: first.alt }),
+  ];
+
+  // Camera triggering wraps the survey legs
+  const triggerDistance = plan.stats.triggerDistance;
+  const surveyItems = (): QgcSimpleItem[] => [
+    ...(triggerDistance ? [simpleItem(MAV_CMD.DO_SET_CAM_TRIGG_DIST, nextId(), [triggerDistance, 0, 1, 0, 0, 0, 0])] : []),
+    ...waypoints.map((wp) => waypointItem(wp, nextId())),
+    ...(triggerDistance ? [simpleItem(MAV_CMD.DO_SET_CAM_TRIGG_DIST, nextId(), [0, 0, 1, 0, 0, 0, 0])] : []),
+  ];
+
+  const transectStyle = (children: QgcSimpleItem[], turnaround: number): QgcTransectStyle => ({
+    version: TRANSECT_STYLE_VERSION,
+    CameraCalc: buildCameraCalc(config, plan),
+    CameraShots: plan.stats.imageCount ?? 0,
+    CameraTriggerInTurnAround: true,
+    HoverAndCapture: false,
+    Refly90Degrees: false,
+    TurnAroundDistance: turnaround,
+    VisualTransectPoints: visualTransectPoints(plan.gridLines),
+    Items: children,
+    FollowTerrain: Boolean(config.terrain?.enabled),
+  });
+
+  if (pattern === 'grid' && config.surveyArea.vertices.length >= 3) {
+    items.push({
+      type: 'ComplexItem',
+      complexItemType: 'survey',
+      version: SURVEY_VERSION,
+      angle: (config.gridAngle + 90) % 360, // QGC stores the transect bearing
+      entryLocation: 0,
+      flyAlternateTransects: false,
+      splitConcavePolygons: false,
+      polygon: config.surveyArea.vertices.map(toCoordinate),
+      TransectStyleComplexItem: transectStyle(surveyItems(), DEFAULT_TURNAROUND_DISTANCE),
+    });
+  } else if (pattern === 'corridor' && config.corridor) {
+    items.push({
+      type: 'ComplexItem',
+      complexItemType: 'CorridorScan',
+      version: CORRIDOR_SCAN_VERSION,
+      CorridorWidth: config.corridor.width,
+      EntryPoint: 0,
+      polyline: config.corridor.centerline.map(toCoordinate),
+      TransectStyleComplexItem: transectStyle(
+        surveyItems(),
+        config.corridor.turnaroundDistance ?? DEFAULT_TURNAROUND_DISTANCE
+      ),
+    });
+  } else {
+    // Orbits keep the camera on the point of interest for the whole pattern
+    const poi = pattern === 'orbit' ? config.orbit : undefined;
+    if (poi) {
+      items.push(simpleItem(
+        MAV_CMD.DO_SET_ROI_LOCATION,
+        nextId(),
+        [0, 0, 0, 0, poi.center.lat, poi.center.lng, poi.poiAltitude ?? 0],
+        MAV_FRAME.GLOBAL_RELATIVE_ALT
+      ));
+    }
+    items.push(...surveyItems());
+    if (poi) {
+      items.push(simpleItem(MAV_CMD.DO_SET_ROI_NONE, nextId(), [0, 0, 0, 0, 0, 0, 0]));
+    }
+  }
+
+  items.push(simpleItem(MAV_CMD.NAV_RETURN_TO_LAUNCH, nextId(), [0, 0, 0, 0, 0, 0, 0]));
+
+  return buildPlanFile(items, home, plan.homeElevation ?? 0, {
+    ...options,
+    obstacles: options.obstacles ?? config.obstacles,
+  });
+}
+
+/**
+ * .plan for a point-to-point route: takeoff at the first waypoint, fly the
+ * stops, land at the last one
+ */
+export function routeToQgcPlan(
+  waypoints: Waypoint[],
+  parseAltitude: (alt: string) => number,
+  options: PlanExportOptions = {}
+): QgcPlanFile {
+  if (waypoints.length < 2) {
+    throw new Error('Route needs at least a start and an end point');
+  }
+
+  const nextId = createJumpCounter();
+  const points = waypoints.map((wp) => ({ lat: wp.lat, lng: wp.lon, alt: parseAltitude(wp.alt) }));
+  const last = points[points.length - 1];
+
+  const items: QgcMissionItem[] = [
+    navItem(MAV_CMD.NAV_TAKEOFF, nextId(), points[0]),
+    ...points.slice(1, -1).map((p) => navItem(MAV_CMD.NAV_WAYPOINT, nextId(), p)),
+    navItem(MAV_CMD.NAV_WAYPOINT, nextId(), last),
+    navItem(MAV_CMD.NAV_LAND, nextId(), { ...last, alt: 0 }),
+  ];
+
+  return buildPlanFile(items, { lat: points[0].lat, lng: points[0].lng }, 0, options);
+}
+
+// ============================================================================
+// Import Helpers
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCoordinate = (value: unknown): value is QgcCoordinate =>
+  Array.isArray(value) && value.length >= 2 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+/**
+ * Parse and structurally check a .plan file
+ */
+export function parseQgcPlan(input: string | unknown): QgcPlanFile {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error('Plan file is not valid JSON');
+    }
+  }
+
+  if (!isRecord(data) || data.fileType !== 'Plan') {
+    throw new Error('Not a QGroundControl plan file (fileType must be "Plan")');
+  }
+  if (!isRecord(data.mission) || !Array.isArray(data.mission.items)) {
+    throw new Error('Plan file has no mission items');
+  }
+
+  return {
+    fileType: 'Plan',
+    version: typeof data.version === 'number' ? data.version : PLAN_FILE_VERSION,
+    groundStation: typeof data.groundStation === 'string' ? data.groundStation : '',
+    mission: data.mission as unknown as QgcPlanFile['mission'],
+    geoFence: isRecord(data.geoFence)
+      ? {
+        version: Number(data.geoFence.version ?? GEOFENCE_VERSION),
+        circles: Array.isArray(data.geoFence.circles) ? data.geoFence.circles : [],
+        polygons: Array.isArray(data.geoFence.polygons) ? data.geoFence.polygons : [],
+      }
+      : { version: GEOFENCE_VERSION, circles: [], polygons: [] },
+    rallyPoints: isRecord(data.rallyPoints) && Array.isArray(data.rallyPoints.points)
+      ? { version: Number(data.rallyPoints.version ?? RALLY_VERSION), points: data.rallyPoints.points }
+      : { version: RALLY_VERSION, points: [] },
+  };
+}
+
+/**
+ * Read nav points from a list of simple items, converting altitudes to relative-to-home
+ */
+function readSimpleItems(
+  items: unknown[],
+  itemIndex: number,
+  source: NavPoint['source'],
+  homeAltitude: number,
+  addIssue: (issue: PlanImportIssue) => void
+): { points: NavPoint[]; skipped: number } {
+  const points: NavPoint[] = [];
+  let skipped = 0;
+
+  items.forEach((raw) => {
+    if (!isRecord(raw) || raw.type !== 'SimpleItem' || !Array.isArray(raw.params)) {
+      skipped++;
+      addIssue({ severity: 'warning', itemIndex, message: 'Malformed mission item skipped' });
+      return;
+    }
+
+    const command = Number(raw.command);
+    const frame = Number(raw.frame);
+    const params = raw.params as (number | null)[];
+
+    if (NON_NAVIGATION_COMMANDS.includes(command)) {
+      return;
+    }
+    if (command === MAV_CMD.NAV_RETURN_TO_LAUNCH) {
+      return;
+    }
+    if (!NAV_COMMANDS_WITH_POSITION.includes(command)) {
+      skipped++;
+      addIssue({ severity: 'warning', itemIndex, message: `Unsupported command ${command} skipped` });
+      return;
+    }
+
+    const lat = params[4];
+    const lng = params[5];
+    const alt = params[6] ?? 0;
+
+    // Takeoff and land without a position happen at the current location
+    if (typeof lat !== 'number' || typeof lng !== 'number' || (lat === 0 && lng === 0)) {
+      return;
+    }
+
+    if (command === MAV_CMD.NAV_LAND) {
+      return;
+    }
+
+    let relativeAlt = alt;
+    if (frame === MAV_FRAME.GLOBAL) {
+      relativeAlt = alt - homeAltitude;
+      addIssue({ severity: 'info', itemIndex, message: 'AMSL altitudes converted to relative-to-home' });
+    } else if (frame === MAV_FRAME.GLOBAL_TERRAIN_ALT) {
+      addIssue({ severity: 'warning', itemIndex, message: 'Terrain-frame altitudes imported as relative-to-home' });
+    } else if (frame !== MAV_FRAME.GLOBAL_RELATIVE_ALT) {
+      addIssue({ severity: 'warning', itemIndex, message: `Altitude frame ${frame} imported as relative-to-home` });
+    }
+
+    if (command === MAV_CMD.NAV_LOITER_TURNS || command === MAV_CMD.NAV_LOITER_TIME || command === MAV_CMD.NAV_LOITER_UNLIM) {
+      addIssue({ severity: 'warning', itemIndex, message: 'Loiter imported as a plain waypoint' });
+    }
+
+    points.push({
+      lat,
+      lng,
+      alt: relativeAlt,
+      heading: command === MAV_CMD.NAV_WAYPOINT && typeof params[3] === 'number' ? params[3] : undefined,
+      command,
+      itemIndex,
+      source,
+    });
+  });
+
+  return { points, skipped };
+}
+
+/**
+ * Split survey waypoints into transects. Each point goes to the first
+ * transect, at or after the current one, whose line it lies on; turnaround
+ * and detour points stay with the current transect.
+ */
+function assignTransects(points: NavPoint[], transects: LatLngPoint[][]): number[] {
+  if (transects.length === 0 || points.length === 0) {
+    return points.map(() => 0);
+  }
+
+  const origin = { lat: points[0].lat, lng: points[0].lng };
+  const planar = (p: LatLngPoint) => {
+    const { east, north } = toLocalEnu(p, origin);
+    return { x: east, y: north };
+  };
+  const lines = transects.map((t) => [planar(t[0]), planar(t[t.length - 1])]);
+
+  const distanceToLine = (p: { x: number; y: number }, line: { x: number; y: number }[]) => {
+    const dx = line[1].x - line[0].x;
+    const dy = line[1].y - line[0].y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return Math.hypot(p.x - line[0].x, p.y - line[0].y);
+    return Math.abs((p.x - line[0].x) * dy - (p.y - line[0].y) * dx) / length;
+  };
+
+  let current = 0;
+  return points.map((point) => {
+    const p = planar(point);
+    for (let k = current; k < lines.length; k++) {
+      if (distanceToLine(p, lines[k]) < 1) {
+        current = k;
+        break;
+      }
+    }
+    return current;
+  });
+}
+
+function readFences(plan: QgcPlanFile, addIssue: (issue: PlanImportIssue) => void): ObstacleZone[] {
+  const obstacles: ObstacleZone[] = [];
+  const base = { enabled: true, color: '#ef4444', minAltitude: 0, maxAltitude: FENCE_OBSTACLE_CEILING };
+
+  plan.geoFence.polygons.forEach((fence, index) => {
+    if (!Array.isArray(fence.polygon) || !fence.polygon.every(isCoordinate) || fence.polygon.length < 3) {
+      addIssue({ severity: 'warning', message: `Fence polygon ${index + 1} is malformed and was skipped` });
+      return;
+    }
+    if (fence.inclusion) {
+      addIssue({ severity: 'warning', message: `Inclusion fence polygon ${index + 1} cannot be used as an obstacle and was skipped` });
+      return;
+    }
+    obstacles.push({
+      ...base,
+      id: `fence-polygon-${index + 1}`,
+      name: `Fence ${index + 1}`,
+      type: 'polygon',
+      vertices: fence.polygon.map(fromCoordinate),
+    });
+  });
+
+  plan.geoFence.circles.forEach((fence, index) => {
+    if (!fence.circle || !isCoordinate(fence.circle.center) || !(fence.circle.radius > 0)) {
+      addIssue({ severity: 'warning', message: `Fence circle ${index + 1} is malformed and was skipped` });
+      return;
+    }
+    if (fence.inclusion) {
+      addIssue({ severity: 'warning', message: `Inclusion fence circle ${index + 1} cannot be used as an obstacle and was skipped` });
+      return;
+    }
+    obstacles.push({
+      ...base,
+      id: `fence-circle-${index + 1}`,
+      name: `Fence Circle ${index + 1}`,
+      type: 'circle',
+      vertices: [],
+      center: fromCoordinate(fence.circle.center),
+      radius: fence.circle.radius,
+    });
+  });
+
+  return obstacles;
+}
+
+/**
+ * Walk the mission, fences and rally points of a plan file
+ */
+function readMission(plan: QgcPlanFile): ParsedMission {
+  const issues: PlanImportIssue[] = [];
+  const addIssue = (issue: PlanImportIssue) => {
+    // Repeated notes about the same thing collapse into one
+    if (!issues.some((i) => i.message === issue.message && i.severity === issue.severity)) {
+      issues.push(issue);
+    }
+  };
+
+  const homeRaw = plan.mission.plannedHomePosition;
+  const homeAltitude = Array.isArray(homeRaw) && typeof homeRaw[2] === 'number' ? homeRaw[2] : 0;
+  const home = isCoordinate(homeRaw) && !(homeRaw[0] === 0 && homeRaw[1] === 0) ? fromCoordinate(homeRaw) : undefined;
+
+  const points: NavPoint[] = [];
+  const surveys: ParsedSurvey[] = [];
+  let importedItems = 0;
+  let skippedItems = 0;
+
+  (plan.mission.items as unknown[]).forEach((item, itemIndex) => {
+    if (!isRecord(item)) {
+      skippedItems++;
+      addIssue({ severity: 'warning', itemIndex, message: 'Malformed mission item skipped' });
+      return;
+    }
+
+    if (item.type === 'SimpleItem') {
+      const result = readSimpleItems([item], itemIndex, 'simple', homeAltitude, addIssue);
+      points.push(...result.points);
+      skippedItems += result.skipped;
+      importedItems += result.skipped === 0 ? 1 : 0;
+      return;
+    }
+
+    const complexType = item.complexItemType;
+    if (item.type !== 'ComplexItem' || (complexType !== 'survey' && complexType !== 'CorridorScan')) {
+      skippedItems++;
+      addIssue({
+        severity: 'warning',
+        itemIndex,
+        message: `Unsupported ${item.type === 'ComplexItem' ? `complex item "${String(complexType)}"` : 'item'} skipped`,
+      });
+      return;
+    }
+
+    const style = isRecord(item.TransectStyleComplexItem) ? item.TransectStyleComplexItem : {};
+    const children = Array.isArray(style.Items) ? style.Items : [];
+    const kind = complexType === 'survey' ? 'survey' : 'corridor';
+    const result = readSimpleItems(children, itemIndex, kind, homeAltitude, addIssue);
+    const outlineRaw = kind === 'survey' ? item.polygon : item.polyline;
+    const outline = Array.isArray(outlineRaw) ? outlineRaw.filter(isCoordinate).map(fromCoordinate) : [];
+
+    if (result.points.length === 0) {
+      skippedItems++;
+      addIssue({
+        severity: 'warning',
+        itemIndex,
+        message: `${kind === 'survey' ? 'Survey' : 'Corridor scan'} has no generated waypoints; open and save it in QGroundControl first`,
+      });
+      return;
+    }
+
+    // Survey transects are entry/exit pairs; corridor transects follow the polyline
+    const visual = Array.isArray(style.VisualTransectPoints) ? style.VisualTransectPoints.filter(isCoordinate) : [];
+    const transects: LatLngPoint[][] = [];
+    if (kind === 'survey') {
+      for (let k = 0; k + 1 < visual.length; k += 2) {
+        transects.push([fromCoordinate(visual[k]), fromCoordinate(visual[k + 1])]);
+      }
+    }
+
+    surveys.push({
+      kind,
+      outline,
+      angle: typeof item.angle === 'number' ? item.angle : undefined,
+      corridorWidth: typeof item.CorridorWidth === 'number' ? item.CorridorWidth : undefined,
+      turnaroundDistance: typeof style.TurnAroundDistance === 'number' ? style.TurnAroundDistance : undefined,
+      cameraCalc: isRecord(style.CameraCalc) ? (style.CameraCalc as unknown as QgcCameraCalc) : undefined,
+      transects,
+      points: result.points,
+    });
+    points.push(...result.points);
+    importedItems++;
+  });
+
+  const obstacles = readFences(plan, addIssue);
+  const rallyPoints = plan.rallyPoints.points
+    .filter(isCoordinate)
+    .map((p) => ({ lat: p[0], lng: p[1], alt: typeof p[2] === 'number' ? p[2] : 0 }));
+
+  if (points.length === 0) {
+    issues.unshift({ severity: 'error', message: 'Plan contains no waypoints with a position' });
+  }
+
+  return {
+    home,
+    homeAltitude,
+    points,
+    surveys,
+    obstacles,
+    rallyPoints,
+    report: {
+      issues,
+      importedItems,
+      skippedItems,
+      fences: obstacles.length,
+      rallyPoints: rallyPoints.length,
+    },
+  };
+}
+
+/**
+ * Split points into lines wherever the track reverses
+ */
+function splitAtReversals(points: NavPoint[]): number[] {
+  let line = 0;
+  return points.map((point, i) => {
+    if (i >= 2) {
+      const a = points[i - 2];
+      const b = points[i - 1];
+      const dot = (b.lat - a.lat) * (point.lat - b.lat) + (b.lng - a.lng) * (point.lng - b.lng);
+      if (dot < 0) line++;
+    }
+    return line;
+  });
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Import a .plan as a grid mission. The first survey or corridor scan sets the
+ * configuration; its transects become grid lines. Standalone waypoints become
+ * lines of their own. Fences become obstacles.
+ */
+export function importQgcPlanAsGrid(
+  input: string | unknown,
+  options: { id?: string; name?: string } = {}
+): ImportedGridPlan {
+  const parsed = readMission(parseQgcPlan(input));
+  const { report } = parsed;
+
+  // Takeoff is implied by the grid mission's home point
+  const points = parsed.points.filter((point) => point.command !== MAV_CMD.NAV_TAKEOFF);
+  if (points.length === 0) {
+    throw new Error('Plan contains no waypoints with a position');
+  }
+
+  const survey = parsed.surveys[0];
+  if (parsed.surveys.length > 1) {
+    report.issues.push({ severity: 'warning', message: 'Only the first survey\'s settings are kept; later surveys are imported as waypoints' });
+  }
+
+  // Line index per point: survey transects keep their own lines, consecutive
+  // standalone waypoints share one
+  const lineIndices: number[] = [];
+  let cursor = 0;
+  let nextLine = 0;
+  while (cursor < points.length) {
+    const point = points[cursor];
+    const owner = parsed.surveys.find((s) => s.points[0] === point);
+
+    if (owner) {
+      const local = owner.kind === 'survey' && owner.transects.length > 0
+        ? assignTransects(owner.points, owner.transects)
+        : splitAtReversals(owner.points);
+      local.forEach((line) => lineIndices.push(nextLine + line));
+      nextLine += local[local.length - 1] + 1;
+      cursor += owner.points.length;
+      continue;
+    }
+
+    while (cursor < points.length && points[cursor].source === 'simple') {
+      lineIndices.push(nextLine);
+      cursor++;
+    }
+    nextLine++;
+  }
+
+  const waypoints: GridWaypoint[] = points.map((point, index) => ({
+    sequence: index,
+    position: { lat: point.lat, lon: point.lng, alt: point.alt },
+    lineIndex: lineIndices[index],
+    isValid: true,
+    heading: point.heading,
+  }));
+
+  const gridLines: GridLine[] = [];
+  waypoints.forEach((wp) => {
+    const line = gridLines[gridLines.length - 1];
+    if (line && line.lineIndex === wp.lineIndex) {
+      line.waypoints.push(wp);
+    } else {
+      gridLines.push({ lineIndex: wp.lineIndex, waypoints: [wp], direction: gridLines.length % 2 === 0 ? 'forward' : 'backward' });
+    }
+  });
+
+  // Configuration from the survey's camera settings where available
+  const camera = survey?.cameraCalc;
+  const altitude = camera?.DistanceToSurface ?? waypoints[0].position.alt;
+  const spacing = camera?.AdjustedFootprintSide ?? 30;
+  const cameraProfile: CameraProfile | undefined =
+    camera && camera.CameraName !== MANUAL_CAMERA_NAME && camera.SensorWidth && camera.FocalLength
+      ? {
+        id: 'qgc-import',
+        name: camera.CameraName,
+        sensorWidth: camera.SensorWidth,
+        sensorHeight: camera.SensorHeight ?? camera.SensorWidth,
+        focalLength: camera.FocalLength,
+        imageWidth: camera.ImageWidth ?? 4000,
+        imageHeight: camera.ImageHeight ?? 3000,
+      }
+      : undefined;
+
+  const surveyOutline = survey?.kind === 'survey' ? survey.outline : [];
+  const config: GridMissionConfig = {
+    name: options.name ?? 'Imported Plan',
+    pattern: survey?.kind === 'corridor' ? 'corridor' : 'grid',
+    surveyArea: {
+      vertices: survey?.kind === 'corridor' ? survey.outline : surveyOutline,
+      name: 'Survey Area',
+      color: '#3b82f6',
+    },
+    altitude,
+    gridSpacing: spacing,
+    overlap: camera?.SideOverlap !== undefined ? camera.SideOverlap / 100 : 0.7,
+    frontOverlap: camera?.FrontalOverlap !== undefined ? camera.FrontalOverlap / 100 : undefined,
+    gridAngle: survey?.angle !== undefined ? (((survey.angle - 90) % 180) + 180) % 180 : 0,
+    cameraAngle: 90,
+    obstacles: parsed.obstacles,
+    camera: cameraProfile,
+    corridor: survey?.kind === 'corridor'
+      ? {
+        centerline: survey.outline,
+        width: survey.corridorWidth ?? spacing,
+        turnaroundDistance: survey.turnaroundDistance,
+      }
+      : undefined,
+  };
+
+  const home = parsed.home ?? { lat: waypoints[0].position.lat, lng: waypoints[0].position.lon };
+  const energy = estimateMissionEnergy(
+    waypoints.map((wp) => ({ lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt })),
+    DEFAULT_PERFORMANCE_PROFILE,
+    { home }
+  );
+
+  const plan: GridMissionPlan = {
+    id: options.id ?? `qgc-${Date.now()}`,
+    name: config.name,
+    config,
+    gridLines,
+    allWaypoints: waypoints,
+    validWaypoints: waypoints,
+    stats: {
+      totalWaypoints: waypoints.length,
+      validWaypoints: waypoints.length,
+      obstacleWaypoints: 0,
+      totalDistance: energy.totalDistance / 1000,
+      estimatedFlightTime: energy.flightTime / 60,
+      estimatedBatteryUsage: energy.batteryUsage,
+      energyConsumed: energy.energy,
+      rthReserveRemaining: energy.rthReserveRemaining,
+      reserveSatisfied: energy.feasible,
+      gridLines: gridLines.length,
+      coverageArea: surveyOutline.length >= 3 ? calculatePolygonArea(surveyOutline) : 0,
+      triggerDistance: camera?.AdjustedFootprintFrontal,
+    },
+    createdAt: new Date().toISOString(),
+    home,
+    homeElevation: parsed.home ? parsed.homeAltitude : undefined,
+  };
+
+  return { plan, rallyPoints: parsed.rallyPoints, report };
+}
+
+/**
+ * Import a .plan as a route. Every positioned waypoint, including those inside
+ * surveys, becomes a stop; the first is the start and the last the end.
+ */
+export function importQgcPlanAsRoute(input: string | unknown): ImportedRoute {
+  const parsed = readMission(parseQgcPlan(input));
+  const { report } = parsed;
+
+  if (parsed.surveys.length > 0) {
+    report.issues.push({ severity: 'info', message: 'Survey and corridor scans were flattened into route waypoints' });
+  }
+
+  const { points } = parsed;
+  if (points.length < 2) {
+    report.issues.unshift({ severity: 'error', message: 'A route needs at least two positioned waypoints' });
+  }
+
+  const waypoints = toRouteWaypoints(points);
+
+  return {
+    waypoints,
+    home: parsed.home,
+    obstacles: parsed.obstacles,
+    rallyPoints: parsed.rallyPoints,
+    report,
+  };
+}
+
+/**
+ * Short one-line summary of an import report for toasts
+ */
+export function summarizeImportReport(report: PlanImportReport): string {
+  const warnings = report.issues.filter((i) => i.severity !== 'info').length;
+  const parts = [`${report.importedItems} item${report.importedItems === 1 ? '' : 's'} imported`];
+  if (report.skippedItems > 0) parts.push(`${report.skippedItems} skipped`);
+  if (report.fences > 0) parts.push(`${report.fences} fence${report.fences === 1 ? '' : 's'}`);
+  if (report.rallyPoints > 0) parts.push(`${report.rallyPoints} rally point${report.rallyPoints === 1 ? '' : 's'}`);
+  if (warnings > 0) parts.push(`${warnings} warning${warnings === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  gridPlanToQgcPlan,
+  routeToQgcPlan,
+  parseQgcPlan,
+  importQgcPlanAsGrid,
+  importQgcPlanAsRoute,
+  summarizeImportReport,
+};
@@ -0,0 +1,395 @@
+/**
+ * Shapefile Import
+ * Reads zipped ESRI shapefiles (.shp/.dbf/.prj/.cpg) into WGS84 features
+ */
+
+import { LatLngPoint } from '@/types/gridMission';
+import { GeoFeature } from '@/types/geoFeatures';
+import { entryBaseName, readZip } from './zipArchive';
+import { CoordinateSystem, describeCoordinateSystem, parsePrj, toWgs84 } from './projection';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SHP_FILE_CODE = 9994;
+const SHP_HEADER_SIZE = 100;
+
+// Shape types by dimension: plain, Z and M variants share the same layout up to Z
+const POINT_TYPES = [1, 11, 21];
+const POLYLINE_TYPES = [3, 13, 23];
+const POLYGON_TYPES = [5, 15, 25];
+const MULTIPOINT_TYPES = [8, 18, 28];
+const Z_TYPES = [11, 13, 15, 18];
+
+const LAYER_EXTENSIONS = ['.shp', '.dbf', '.prj', '.cpg'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ShapeRecord {
+  kind: 'point' | 'polyline' | 'polygon';
+  parts: number[][][]; // [x, y] rings, lines or single points
+  z?: number[][]; // per vertex, parallel to parts
+}
+
+interface DbfTable {
+  fields: string[];
+  records: Record<string, string>[];
+  deleted: Set<number>; // record indices marked deleted
+}
+
+export interface ShapefileImport {
+  features: GeoFeature[];
+  layers: string[];
+  coordinateSystem?: string; // description of the source projection
+  warnings: string[];
+}
+
+// ============================================================================
+// .shp Geometry
+// ============================================================================
+
+function readPoints(view: DataView, offset: number, count: number): number[][] {
+  const points: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([view.getFloat64(offset + i * 16, true), view.getFloat64(offset + i * 16 + 8, true)]);
+  }
+  return points;
+}
+
+/**
+ * Split a flat per-vertex array (Z values) into the same parts as the points
+ */
+function splitByParts(values: number[], parts: unknown[][]): number[][] {
+  let index = 0;
+  return parts.map((part) => {
+    const slice = values.slice(index, index + part.length);
+    index += part.length;
+    return slice;
+  });
+}
+
+function readShapeRecord(view: DataView, offset: number, length: number): ShapeRecord | null {
+  const type = view.getInt32(offset, true);
+  const hasZ = Z_TYPES.includes(type);
+
+  if (type === 0) return null; // null shape
+
+  if (POINT_TYPES.includes(type)) {
+    const point = readPoints(view, offset + 4, 1);
+    const z = hasZ ? [[view.getFloat64(offset + 20, true)]] : undefined;
+    return { kind: 'point', parts: [point], z };
+  }
+
+  if (MULTIPOINT_TYPES.includes(type)) {
+    const count = view.getInt32(offset + 36, true);
+    const points = readPoints(view, offset + 40, count);
+    const zStart = offset + 40 + count * 16 + 16; // skip Z range
+    const z = hasZ && zStart + count * 8 <= offset + length
+      ? points.map((_, i) => [view.getFloat64(zStart + i * 8, true)])
+      : undefined;
+    return { kind: 'point', parts: points.map((point) => [point]), z };
+  }
+
+  if (POLYLINE_TYPES.includes(type) || POLYGON_TYPES.includes(type)) {
+    const partCount = view.getInt32(offset + 36, true);
+    const pointCount = view.getInt32(offset + 40, true);
+    const partStarts: number[] = [];
+    for (let i = 0; i < partCount; i++) {
+      partStarts.push(view.getInt32(offset + 44 + i * 4, true));
+    }
+
+    const pointsStart = offset + 44 + partCount * 4;
+    const points = readPoints(view, pointsStart, pointCount);
+    const parts = partStarts.map((start, i) => points.slice(start, partStarts[i + 1] ?? pointCount));
+
+    let z: number[][] | undefined;
+    const zStart = pointsStart + pointCount * 16 + 16; // skip Z range
+    if (hasZ && zStart + pointCount * 8 <= offset + length) {
+      const values = points.map((_, i) => view.getFloat64(zStart + i * 8, true));
+      z = splitByParts(values, parts);
+    }
+
+    return { kind: POLYGON_TYPES.includes(type) ? 'polygon' : 'polyline', parts, z };
+  }
+
+  throw new Error(`Unsupported shape type ${type} (multipatch shapes cannot be imported)`);
+}
+
+function readShp(buffer: Uint8Array): (ShapeRecord | null)[] {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  if (buffer.byteLength < SHP_HEADER_SIZE || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error('Not a valid .shp file');
+  }
+
+  const records: (ShapeRecord | null)[] = [];
+  let offset = SHP_HEADER_SIZE;
+  while (offset + 8 <= buffer.byteLength) {
+    // Record headers are big-endian, lengths in 16-bit words
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    records.push(readShapeRecord(view, offset + 8, contentLength));
+    offset += 8 + contentLength;
+  }
+  return records;
+}
+
+// ============================================================================
+// .dbf Attributes
+// ============================================================================
+
+/**
+ * Text decoder for the .cpg code page. Without one, UTF-8 is tried first and
+ * Windows-1252 (the ArcGIS default) used when the table is not valid UTF-8.
+ */
+function dbfDecoder(cpg: string | undefined, sample: Uint8Array): TextDecoder {
+  const codePage = cpg?.trim().toLowerCase();
+  if (codePage) {
+    const label = /^\d+$/.test(codePage) ? `windows-${codePage}` : codePage.replace(/^ansi_/, 'windows-');
+    try {
+      return new TextDecoder(label);
+    } catch {
+      // Unknown label, fall through to detection
+    }
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return new TextDecoder('utf-8');
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+function readDbf(buffer: Uint8Array, cpg?: string): DbfTable {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const decoder = dbfDecoder(cpg, buffer.subarray(headerLength));
+  const asciiDecoder = new TextDecoder('ascii');
+
+  const columns: { name: string; length: number }[] = [];
+  for (let offset = 32; offset + 32 <= headerLength && buffer[offset] !== 0x0d; offset += 32) {
+    const rawName = buffer.subarray(offset, offset + 11);
+    const nameEnd = rawName.indexOf(0);
+    columns.push({
+      name: asciiDecoder.decode(nameEnd >= 0 ? rawName.subarray(0, nameEnd) : rawName).trim(),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const records: Record<string, string>[] = [];
+  const deleted = new Set<number>();
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    if (start + recordLength > buffer.byteLength) break;
+
+    // Deleted records keep their slot so indices still match the .shp
+    const record: Record<string, string> = {};
+    let offset = start + 1;
+    columns.forEach((column) => {
+      const value = decoder.decode(buffer.subarray(offset, offset + column.length)).replace(/\0/g, '').trim();
+      if (value) record[column.name] = value;
+      offset += column.length;
+    });
+    records.push(record);
+    if (buffer[start] === 0x2a) deleted.add(i); // '*' marks deleted
+  }
+
+  return { fields: columns.map((column) => column.name), records, deleted };
+}
+
+// ============================================================================
+// Rings
+// ============================================================================
+
+/**
+ * Shoelace area in source units; negative for clockwise rings
+ */
+function signedArea(ring: number[][]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+}
+
+function ringContains(ring: number[][], [x, y]: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Group polygon parts into outer rings with their holes. Shapefile outer
+ * rings are clockwise; holes that fit no outer ring are treated as outers,
+ * since some writers get the orientation wrong.
+ */
+function groupRings(parts: number[][][]): { outer: number; holes: number[] }[] {
+  const outers = parts.map((_, i) => i).filter((i) => signedArea(parts[i]) < 0);
+  const groups = outers.map((outer) => ({ outer, holes: [] as number[] }));
+
+  parts.forEach((ring, index) => {
+    if (outers.includes(index)) return;
+    const container = groups.find((group) => ringContains(parts[group.outer], ring[0]));
+    if (container) {
+      container.holes.push(index);
+    } else {
+      groups.push({ outer: index, holes: [] });
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Drop the repeated closing vertex of a ring
+ */
+function openRing<T>(ring: T[]): T[] {
+  return ring.length > 1 ? ring.slice(0, -1) : ring;
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * Without a .prj, coordinates are accepted only if they are plausibly WGS84
+ */
+function checkUnprojected(records: (ShapeRecord | null)[], layer: string): void {
+  const outOfRange = records.some((record) =>
+    record?.parts.some((part) => part.some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90))
+  );
+  if (outOfRange) {
+    throw new Error(`${layer} has projected coordinates but no .prj file; include it in the zip`);
+  }
+}
+
+function layerToFeatures(
+  layer: string,
+  records: (ShapeRecord | null)[],
+  table: DbfTable | undefined,
+  system: CoordinateSystem | undefined
+): GeoFeature[] {
+  const project = ([x, y]: number[]): LatLngPoint => (system ? toWgs84(system, x, y) : { lat: y, lng: x });
+  const features: GeoFeature[] = [];
+
+  records.forEach((record, index) => {
+    if (!record || table?.deleted.has(index)) return;
+    const properties = table?.records[index];
+
+    const baseName = `${layer} ${index + 1}`;
+    const pushFeature = (
+      geometry: GeoFeature['geometry'],
+      points: number[][],
+      z: number[] | undefined,
+      part: number,
+      partCount: number,
+      holes?: number[][][]
+    ) => {
+      features.push({
+        id: `${layer}-${index}-${part}`,
+        name: partCount > 1 ? `${baseName} (part ${part + 1})` : baseName,
+        geometry,
+        coordinates: points.map(project),
+        holes: holes && holes.length > 0 ? holes.map((hole) => openRing(hole).map(project)) : undefined,
+        altitudes: z,
+        folder: layer,
+        properties,
+      });
+    };
+
+    if (record.kind === 'polygon') {
+      const groups = groupRings(record.parts);
+      groups.forEach((group, part) => {
+        const z = record.z?.[group.outer];
+        pushFeature(
+          'polygon',
+          openRing(record.parts[group.outer]),
+          z ? openRing(z) : undefined,
+          part,
+          groups.length,
+          group.holes.map((hole) => record.parts[hole])
+        );
+      });
+    } else {
+      const geometry = record.kind === 'point' ? 'point' : 'linestring';
+      record.parts.forEach((points, part) => {
+        pushFeature(geometry, points, record.z?.[part], part, record.parts.length);
+      });
+    }
+  });
+
+  return features;
+}
+
+/**
+ * Load a zipped shapefile. Every layer in the archive is read and
+ * reprojected to WGS84 using its .prj; attributes come from the .dbf.
+ */
+export async function loadShapefile(file: File): Promise<ShapefileImport> {
+  const entries = await readZip(await file.arrayBuffer(), (name) =>
+    LAYER_EXTENSIONS.some((ext) => entryBaseName(name).endsWith(ext)) && !entryBaseName(name).startsWith('._')
+  );
+
+  // Group sidecar files by path without extension
+  const layers = new Map<string, Record<string, Uint8Array>>();
+  entries.forEach((entry) => {
+    const dot = entry.name.lastIndexOf('.');
+    const key = entry.name.slice(0, dot);
+    const files = layers.get(key) ?? {};
+    files[entry.name.slice(dot).toLowerCase()] = entry.data;
+    layers.set(key, files);
+  });
+
+  const result: ShapefileImport = { features: [], layers: [], warnings: [] };
+  const systems = new Set<string>();
+
+  layers.forEach((files, key) => {
+    if (!files['.shp']) return;
+    const layer = key.split('/').pop()!;
+
+    const records = readShp(files['.shp']);
+    const cpg = files['.cpg'] ? new TextDecoder().decode(files['.cpg']) : undefined;
+    const table = files['.dbf'] ? readDbf(files['.dbf'], cpg) : undefined;
+
+    let system: CoordinateSystem | undefined;
+    if (files['.prj']) {
+      system = parsePrj(new TextDecoder().decode(files['.prj']));
+      systems.add(describeCoordinateSystem(system));
+      system.warnings.forEach((warning) => result.warnings.push(`${layer}: ${warning}`));
+    } else {
+      checkUnprojected(records, layer);
+      result.warnings.push(`${layer}: no .prj file, coordinates assumed to be WGS84`);
+    }
+
+    result.layers.push(layer);
+    result.features.push(...layerToFeatures(layer, records, table, system));
+  });
+
+  if (result.layers.length === 0) {
+    throw new Error(`${file.name} does not contain a .shp file`);
+  }
+  if (systems.size > 0) {
+    result.coordinateSystem = Array.from(systems).join(', ');
+  }
+  return result;
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  loadShapefile,
+};
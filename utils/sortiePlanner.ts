@@ -0,0 +1,286 @@
+/**
+ * Sortie Planner
+ * Splits grid missions into battery-sized sorties and re-plans after a battery swap
+ */
+
+import { VehiclePerformanceProfile } from '@/types';
+import {
+  GridMissionPlan,
+  GridSortie,
+  GridWaypoint,
+  LatLngPoint,
+  SortieSplitOptions,
+} from '@/types/gridMission';
+import { PX4_MAX_WAYPOINTS, routeAroundObstacles } from '@/utils/gridMissionUtils';
+import { EnergyEstimate, estimateMissionEnergy } from '@/utils/energyModel';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One grid line plus the turn/detour waypoints that lead into it
+ */
+interface LineChunk {
+  lineIndex: number;
+  approach: GridWaypoint[];
+  line: GridWaypoint[];
+}
+
+interface SortieCandidate {
+  waypoints: GridWaypoint[];
+  estimate: EnergyEstimate;
+}
+
+// ============================================================================
+// Line Grouping
+// ============================================================================
+
+/**
+ * Group flyable waypoints into whole grid lines, in flight order.
+ * Detour points between two lines belong to the approach of the next line,
+ * so a sortie that starts there can drop them and route from home instead.
+ */
+function groupIntoLineChunks(waypoints: GridWaypoint[]): LineChunk[] {
+  const chunks: LineChunk[] = [];
+  let pendingDetours: GridWaypoint[] = [];
+
+  waypoints.forEach((wp) => {
+    if (wp.isTransit) return;
+
+    if (wp.isDetour) {
+      pendingDetours.push(wp);
+      return;
+    }
+
+    const current = chunks[chunks.length - 1];
+    if (current && current.lineIndex === wp.lineIndex) {
+      current.line.push(...pendingDetours, wp);
+    } else {
+      chunks.push({ lineIndex: wp.lineIndex, approach: pendingDetours, line: [wp] });
+    }
+    pendingDetours = [];
+  });
+
+  if (pendingDetours.length > 0 && chunks.length > 0) {
+    chunks[chunks.length - 1].line.push(...pendingDetours);
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// Sortie Assembly
+// ============================================================================
+
+const toHomeWaypoint = (home: LatLngPoint, alt: number): GridWaypoint => ({
+  sequence: 0,
+  position: { lat: home.lat, lon: home.lng, alt },
+  lineIndex: -1,
+  isValid: true,
+  isTransit: true,
+});
+
+/**
+ * Build the waypoint list for a run of lines: climb at home, transit out,
+ * fly the lines, transit back. Transit legs are routed around obstacles.
+ */
+function assembleSortie(
+  chunks: LineChunk[],
+  plan: GridMissionPlan,
+  home: LatLngPoint
+): GridWaypoint[] {
+  const body = chunks.flatMap((chunk, i) => (i === 0 ? chunk.line : [...chunk.approach, ...chunk.line]));
+  const first = body[0];
+  const last = body[body.length - 1];
+
+  const detourOptions = {
+    buffer: plan.config.obstacleBuffer,
+    allowClimbOver: plan.config.allowClimbOver,
+  };
+  const markTransit = (wp: GridWaypoint): GridWaypoint => (wp.isDetour ? { ...wp, isTransit: true } : wp);
+
+  const outbound = routeAroundObstacles(
+    [toHomeWaypoint(home, first.position.alt), first],
+    plan.config.obstacles,
+    detourOptions
+  ).map(markTransit);
+  const inbound = routeAroundObstacles(
+    [last, toHomeWaypoint(home, last.position.alt)],
+    plan.config.obstacles,
+    detourOptions
+  ).map(markTransit);
+
+  return [...outbound, ...body.slice(1), ...inbound.slice(1)].map((wp, index) => ({
+    ...wp,
+    sequence: index,
+  }));
+}
+
+function evaluateSortie(
+  chunks: LineChunk[],
+  plan: GridMissionPlan,
+  profile: VehiclePerformanceProfile,
+  options: SortieSplitOptions
+): SortieCandidate {
+  const waypoints = assembleSortie(chunks, plan, options.home);
+  const estimate = estimateMissionEnergy(
+    waypoints.map((wp) => ({ lat: wp.position.lat, lng: wp.position.lon, alt: wp.position.alt })),
+    profile,
+    { home: options.home, startBattery: options.startBattery }
+  );
+  return { waypoints, estimate };
+}
+
+const fitsLimits = (candidate: SortieCandidate, maxWaypoints: number): boolean =>
+  candidate.estimate.feasible && candidate.waypoints.length <= maxWaypoints;
+
+function toSortie(
+  candidate: SortieCandidate,
+  chunks: LineChunk[],
+  parentId: string,
+  index: number
+): GridSortie {
+  return {
+    id: `${parentId}-sortie-${index + 1}`,
+    parentId,
+    index,
+    lineIndices: chunks.map((c) => c.lineIndex),
+    waypoints: candidate.waypoints,
+    totalDistance: candidate.estimate.totalDistance / 1000,
+    estimatedFlightTime: candidate.estimate.flightTime / 60,
+    estimatedBatteryUsage: candidate.estimate.batteryUsage,
+    rthReserveRemaining: candidate.estimate.rthReserveRemaining,
+    status: 'planned',
+  };
+}
+
+/**
+ * Greedily pack whole lines into sorties that fit the battery and waypoint budget
+ */
+function packChunks(
+  chunks: LineChunk[],
+  plan: GridMissionPlan,
+  profile: VehiclePerformanceProfile,
+  options: SortieSplitOptions,
+  firstIndex: number
+): GridSortie[] {
+  const maxWaypoints = options.maxWaypoints ?? PX4_MAX_WAYPOINTS;
+  const sorties: GridSortie[] = [];
+
+  let current: LineChunk[] = [];
+  let accepted: SortieCandidate | null = null;
+
+  for (const chunk of chunks) {
+    const candidate = evaluateSortie([...current, chunk], plan, profile, options);
+    if (fitsLimits(candidate, maxWaypoints)) {
+      current.push(chunk);
+      accepted = candidate;
+      continue;
+    }
+
+    const single = current.length === 0 ? candidate : evaluateSortie([chunk], plan, profile, options);
+    if (!fitsLimits(single, maxWaypoints)) {
+      throw new Error(
+        `Grid line ${chunk.lineIndex + 1} cannot be flown on one battery within ${maxWaypoints} waypoints`
+      );
+    }
+
+    if (accepted) {
+      sorties.push(toSortie(accepted, current, plan.id, firstIndex + sorties.length));
+    }
+    current = [chunk];
+    accepted = single;
+  }
+
+  if (current.length > 0 && accepted) {
+    sorties.push(toSortie(accepted, current, plan.id, firstIndex + sorties.length));
+  }
+
+  return sorties;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Split a grid mission into sorties. Grid lines are never cut; each sortie
+ * starts and ends at the home point and keeps the vehicle's battery reserve.
+ */
+export function splitIntoSorties(
+  plan: GridMissionPlan,
+  profile: VehiclePerformanceProfile,
+  options: SortieSplitOptions
+): GridSortie[] {
+  const chunks = groupIntoLineChunks(plan.validWaypoints);
+  if (chunks.length === 0) {
+    return [];
+  }
+  return packChunks(chunks, plan, profile, options, 0);
+}
+
+/**
+ * Re-plan the remaining lines after a battery swap.
+ * Sorties already flown are kept; the interrupted one is marked aborted at
+ * the last completed line, and every line after it is split again.
+ */
+export function resumeFromLine(
+  plan: GridMissionPlan,
+  lastCompletedLine: number | null,
+  profile: VehiclePerformanceProfile,
+  options: SortieSplitOptions
+): GridSortie[] {
+  const chunks = groupIntoLineChunks(plan.validWaypoints);
+  const resumeAt = lastCompletedLine === null
+    ? 0
+    : chunks.findIndex((c) => c.lineIndex === lastCompletedLine) + 1;
+
+  if (resumeAt < 0 || (lastCompletedLine !== null && resumeAt === 0)) {
+    throw new Error(`Grid line ${(lastCompletedLine ?? 0) + 1} is not part of this mission`);
+  }
+
+  const doneLines = new Set(chunks.slice(0, resumeAt).map((c) => c.lineIndex));
+
+  const kept = (plan.sorties ?? [])
+    .filter((s) => s.lineIndices.some((line) => doneLines.has(line)))
+    .map((s): GridSortie => {
+      if (s.lineIndices.every((line) => doneLines.has(line))) {
+        return s.status === 'completed' ? s : { ...s, status: 'completed' };
+      }
+      return { ...s, status: 'aborted', lastCompletedLine: lastCompletedLine ?? undefined };
+    });
+
+  const remaining = packChunks(chunks.slice(resumeAt), plan, profile, options, kept.length);
+  return [...kept, ...remaining];
+}
+
+/**
+ * Last grid line fully flown, given the index of the mission item the
+ * vehicle is currently heading to
+ */
+export function lastCompletedLineAt(sortie: GridSortie, missionCurrent: number): number | null {
+  let completed: number | null = sortie.lastCompletedLine ?? null;
+
+  sortie.lineIndices.forEach((lineIndex) => {
+    const lastIndex = sortie.waypoints.reduce(
+      (acc, wp, i) => (wp.lineIndex === lineIndex && !wp.isTransit ? i : acc),
+      -1
+    );
+    if (lastIndex >= 0 && lastIndex < missionCurrent) {
+      completed = lineIndex;
+    }
+  });
+
+  return completed;
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  splitIntoSorties,
+  resumeFromLine,
+  lastCompletedLineAt,
+};
@@ -0,0 +1,539 @@
+/**
+ * Survey Patterns
+ * Waypoint generators for survey patterns other than the area grid
+ */
+
+import {
+  GridMissionConfig,
+  GridLine,
+  GridWaypoint,
+  LatLngPoint,
+} from '@/types/gridMission';
+import {
+  generateGridWaypoints,
+  isPointInObstacle,
+  resolveSurveyGeometry,
+} from '@/utils/gridMissionUtils';
+import { centroid, toLocalEnu, fromLocalEnu } from '@/utils/geodesy';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TURNAROUND_DISTANCE = 20; // meters
+const CORRIDOR_MITER_LIMIT = 4;
+const DEFAULT_ORBIT_POINTS = 16;
+const COVERAGE_CIRCLE_POINTS = 48;
+const MAX_SPIRAL_STEP = Math.PI / 6; // radians between spiral waypoints
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SurveyPatternResult {
+  gridLines: GridLine[];
+  allWaypoints: GridWaypoint[];
+  gridAngle: number;
+  coveragePolygon: LatLngPoint[]; // area actually imaged, for stats and display
+}
+
+interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+// ============================================================================
+// Planar Helpers
+// ============================================================================
+
+const subtract = (a: PlanarPoint, b: PlanarPoint): PlanarPoint => ({ x: a.x - b.x, y: a.y - b.y });
+const length = (v: PlanarPoint): number => Math.hypot(v.x, v.y);
+const along = (p: PlanarPoint, dir: PlanarPoint, d: number): PlanarPoint => ({
+  x: p.x + dir.x * d,
+  y: p.y + dir.y * d,
+});
+
+function unit(v: PlanarPoint): PlanarPoint {
+  const len = length(v);
+  return len > 0 ? { x: v.x / len, y: v.y / len } : { x: 0, y: 0 };
+}
+
+/**
+ * Drop consecutive duplicate points so every edge has a direction
+ */
+function dedupe(points: PlanarPoint[]): PlanarPoint[] {
+  return points.filter((p, i) => i === 0 || length(subtract(p, points[i - 1])) > 1e-6);
+}
+
+/**
+ * Offset an open polyline sideways; positive distance is to the left.
+ * Sharp corners beyond the miter limit are beveled.
+ */
+function offsetPolyline(points: PlanarPoint[], distance: number): PlanarPoint[] {
+  if (distance === 0) return points.slice();
+
+  const normals = points.slice(1).map((p, i) => {
+    const dir = unit(subtract(p, points[i]));
+    return { x: -dir.y, y: dir.x };
+  });
+
+  const result: PlanarPoint[] = [];
+  points.forEach((p, i) => {
+    if (i === 0) {
+      result.push(along(p, normals[0], distance));
+      return;
+    }
+    if (i === points.length - 1) {
+      result.push(along(p, normals[i - 1], distance));
+      return;
+    }
+
+    const miter = unit({ x: normals[i - 1].x + normals[i].x, y: normals[i - 1].y + normals[i].y });
+    const cos = miter.x * normals[i].x + miter.y * normals[i].y;
+
+    if (cos < 1 / CORRIDOR_MITER_LIMIT) {
+      result.push(along(p, normals[i - 1], distance), along(p, normals[i], distance));
+    } else {
+      result.push(along(p, miter, distance / cos));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Cut a polyline into pieces no longer than maxLength
+ */
+function splitPolyline(points: PlanarPoint[], maxLength: number): PlanarPoint[][] {
+  if (!(maxLength > 0)) return [points];
+
+  const pieces: PlanarPoint[][] = [];
+  let current: PlanarPoint[] = [points[0]];
+  let remaining = maxLength;
+
+  for (let i = 1; i < points.length; i++) {
+    let from = points[i - 1];
+    const to = points[i];
+    let edge = length(subtract(to, from));
+    const dir = unit(subtract(to, from));
+
+    while (edge > remaining + 1e-6) {
+      const cut = along(from, dir, remaining);
+      current.push(cut);
+      pieces.push(current);
+      current = [cut];
+      from = cut;
+      edge -= remaining;
+      remaining = maxLength;
+    }
+
+    current.push(to);
+    remaining -= edge;
+  }
+
+  if (current.length > 1) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Insert points so no edge is longer than step
+ */
+function densify(points: PlanarPoint[], step: number): PlanarPoint[] {
+  const result: PlanarPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const count = Math.max(1, Math.ceil(length(subtract(to, from)) / step));
+    for (let k = 1; k <= count; k++) {
+      const t = k / count;
+      result.push({ x: from.x + t * (to.x - from.x), y: from.y + t * (to.y - from.y) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Point at a compass bearing (degrees) and distance from the origin
+ */
+function polar(bearing: number, distance: number): PlanarPoint {
+  const rad = (bearing * Math.PI) / 180;
+  return { x: distance * Math.sin(rad), y: distance * Math.cos(rad) };
+}
+
+function circlePolygon(radius: number): PlanarPoint[] {
+  return Array.from({ length: COVERAGE_CIRCLE_POINTS }, (_, k) =>
+    polar((k * 360) / COVERAGE_CIRCLE_POINTS, radius)
+  );
+}
+
+/**
+ * East/north meter frame around an origin
+ */
+function localFrame(origin: LatLngPoint) {
+  return {
+    toPlanar: (p: LatLngPoint): PlanarPoint => {
+      const { east, north } = toLocalEnu(p, origin);
+      return { x: east, y: north };
+    },
+    toLatLng: (p: PlanarPoint): LatLngPoint => {
+      const { lat, lng } = fromLocalEnu({ east: p.x, north: p.y }, origin);
+      return { lat, lng };
+    },
+  };
+}
+
+type PatternWaypointExtras = Pick<GridWaypoint, 'heading' | 'gimbalPitch'>;
+
+/**
+ * Turn planar legs into numbered grid lines, checking every point against obstacles
+ */
+function buildPatternLines(
+  lines: PlanarPoint[][],
+  toLatLng: (p: PlanarPoint) => LatLngPoint,
+  config: GridMissionConfig,
+  altitude: number,
+  extras?: (p: PlanarPoint) => PatternWaypointExtras
+): Pick<SurveyPatternResult, 'gridLines' | 'allWaypoints'> {
+  const gridLines: GridLine[] = [];
+  const allWaypoints: GridWaypoint[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    const waypoints: GridWaypoint[] = line.map((p, i) => {
+      const point = toLatLng(p);
+      const obstacleCheck = isPointInObstacle(point, config.obstacles, altitude);
+      return {
+        sequence: allWaypoints.length + i,
+        position: { lat: point.lat, lon: point.lng, alt: altitude },
+        lineIndex,
+        isValid: !obstacleCheck.blocked,
+        isBlocked: obstacleCheck.blocked,
+        blockingObstacle: obstacleCheck.obstacle,
+        ...extras?.(p),
+      };
+    });
+
+    allWaypoints.push(...waypoints);
+    gridLines.push({ lineIndex, waypoints, direction: lineIndex % 2 === 0 ? 'forward' : 'backward' });
+  });
+
+  return { gridLines, allWaypoints };
+}
+
+// ============================================================================
+// Corridor
+// ============================================================================
+
+/**
+ * Corridor survey along a centerline. Passes run parallel to the centerline
+ * at line-spacing offsets, alternate direction, and overshoot each end by the
+ * turnaround distance. Long corridors are flown segment by segment.
+ */
+export function generateCorridorWaypoints(config: GridMissionConfig): SurveyPatternResult {
+  const corridor = config.corridor;
+  if (!corridor || corridor.centerline.length < 2) {
+    throw new Error('Corridor survey needs a centerline with at least 2 points');
+  }
+
+  const { altitude, lineSpacing } = resolveSurveyGeometry(config);
+  if (!(lineSpacing > 0)) {
+    throw new Error('Grid spacing must be greater than zero');
+  }
+
+  const { toPlanar, toLatLng } = localFrame(centroid(corridor.centerline));
+
+  const centerline = dedupe(corridor.centerline.map(toPlanar));
+  if (centerline.length < 2) {
+    throw new Error('Corridor survey needs a centerline with at least 2 points');
+  }
+
+  const turnaround = corridor.turnaroundDistance ?? DEFAULT_TURNAROUND_DISTANCE;
+  const segments = splitPolyline(centerline, corridor.segmentLength ?? 0);
+
+  // An even pass count ends each segment back at its start. With several
+  // segments, one extra pass costs no more than the empty transit back to
+  // the far end and adds side overlap instead.
+  let passCount = Math.max(1, Math.ceil(corridor.width / lineSpacing));
+  if (segments.length > 1 && passCount % 2 === 0) {
+    passCount += 1;
+  }
+  const offsets = Array.from({ length: passCount }, (_, k) => (k - (passCount - 1) / 2) * lineSpacing);
+
+  const gridLines: GridLine[] = [];
+  const allWaypoints: GridWaypoint[] = [];
+  let waypointSequence = 0;
+
+  segments.forEach((segment, segmentIndex) => {
+    // Sweep offsets the other way on odd segments so the hop between
+    // segments stays on the same side of the corridor
+    const segmentOffsets = segmentIndex % 2 === 0 ? offsets : [...offsets].reverse();
+
+    segmentOffsets.forEach((offset, passIndex) => {
+      const forward = passIndex % 2 === 0;
+      const pass = offsetPolyline(segment, offset);
+
+      const startDir = unit(subtract(pass[0], pass[1]));
+      const endDir = unit(subtract(pass[pass.length - 1], pass[pass.length - 2]));
+      const extended = [
+        along(pass[0], startDir, turnaround),
+        ...pass,
+        along(pass[pass.length - 1], endDir, turnaround),
+      ];
+
+      const ordered = forward ? extended : extended.reverse();
+      const lineIndex = gridLines.length;
+      const lineWaypoints: GridWaypoint[] = densify(dedupe(ordered), lineSpacing).map((p) => {
+        const point = toLatLng(p);
+        const obstacleCheck = isPointInObstacle(point, config.obstacles, altitude);
+        return {
+          sequence: waypointSequence++,
+          position: { lat: point.lat, lon: point.lng, alt: altitude },
+          lineIndex,
+          isValid: !obstacleCheck.blocked,
+          isBlocked: obstacleCheck.blocked,
+          blockingObstacle: obstacleCheck.obstacle,
+        };
+      });
+
+      allWaypoints.push(...lineWaypoints);
+      gridLines.push({
+        lineIndex,
+        waypoints: lineWaypoints,
+        direction: forward ? 'forward' : 'backward',
+        cellIndex: segmentIndex,
+      });
+    });
+  });
+
+  const halfWidth = corridor.width / 2;
+  const coveragePolygon = [
+    ...offsetPolyline(centerline, halfWidth),
+    ...offsetPolyline(centerline, -halfWidth).reverse(),
+  ].map(toLatLng);
+
+  return { gridLines, allWaypoints, gridAngle: config.gridAngle, coveragePolygon };
+}
+
+// ============================================================================
+// Orbit
+// ============================================================================
+
+/**
+ * Circle a point of interest with the nose and gimbal pointed at it.
+ * Each full turn is one line.
+ */
+export function generateOrbitWaypoints(config: GridMissionConfig): SurveyPatternResult {
+  const orbit = config.orbit;
+  if (!orbit || !(orbit.radius > 0)) {
+    throw new Error('Orbit needs a point of interest and a radius greater than zero');
+  }
+
+  const { altitude } = resolveSurveyGeometry(config);
+  const { toLatLng } = localFrame(orbit.center);
+
+  const turns = Math.max(1, Math.round(orbit.turns ?? 1));
+  const pointsPerTurn = Math.max(4, Math.round(orbit.pointsPerTurn ?? DEFAULT_ORBIT_POINTS));
+  const step = ((orbit.clockwise ?? true) ? 1 : -1) * (360 / pointsPerTurn);
+  const gimbalPitch = -(Math.atan2(altitude - (orbit.poiAltitude ?? 0), orbit.radius) * 180) / Math.PI;
+
+  // The closing point of the last turn lands back on the start
+  const lines = Array.from({ length: turns }, (_, turn) =>
+    Array.from({ length: turn === turns - 1 ? pointsPerTurn + 1 : pointsPerTurn }, (_, k) =>
+      polar((turn * pointsPerTurn + k) * step, orbit.radius)
+    )
+  );
+
+  const { gridLines, allWaypoints } = buildPatternLines(lines, toLatLng, config, altitude, (p) => ({
+    heading: ((Math.atan2(-p.x, -p.y) * 180) / Math.PI + 360) % 360,
+    gimbalPitch,
+  }));
+
+  return {
+    gridLines,
+    allWaypoints,
+    gridAngle: config.gridAngle,
+    coveragePolygon: circlePolygon(orbit.radius).map(toLatLng),
+  };
+}
+
+// ============================================================================
+// Search Patterns
+// ============================================================================
+
+/**
+ * Expanding square search from a last-known position. Legs grow by one
+ * track spacing every second turn; all turns are to the right. Each leg is
+ * one line.
+ */
+export function generateExpandingSquareWaypoints(config: GridMissionConfig): SurveyPatternResult {
+  const search = config.search;
+  if (!search || !(search.radius > 0)) {
+    throw new Error('Expanding square search needs a datum and a radius greater than zero');
+  }
+
+  const { altitude, lineSpacing } = resolveSurveyGeometry(config);
+  const spacing = search.trackSpacing ?? lineSpacing;
+  if (!(spacing > 0)) {
+    throw new Error('Track spacing must be greater than zero');
+  }
+
+  const { toLatLng } = localFrame(search.datum);
+  const initialBearing = search.initialBearing ?? 0;
+
+  // Stop once a leg spans the full search width; the last leg closes the outer side
+  const maxMultiple = Math.max(1, Math.ceil((2 * search.radius) / spacing));
+  const lines: PlanarPoint[][] = [];
+  let position: PlanarPoint = { x: 0, y: 0 };
+
+  for (let leg = 0; leg <= 2 * maxMultiple; leg++) {
+    const legLength = spacing * Math.min(Math.floor(leg / 2) + 1, maxMultiple);
+    const next = along(position, polar(initialBearing + leg * 90, 1), legLength);
+    lines.push(leg === 0 ? [position, next] : [next]);
+    position = next;
+  }
+
+  // Coverage is the swept square, widened by half a track on each side
+  const turnFrame = (p: PlanarPoint, sign: number): PlanarPoint => {
+    const rad = (sign * initialBearing * Math.PI) / 180;
+    return {
+      x: p.x * Math.cos(rad) - p.y * Math.sin(rad),
+      y: p.x * Math.sin(rad) + p.y * Math.cos(rad),
+    };
+  };
+  const aligned = lines.flat().map((p) => turnFrame(p, 1));
+  const minX = Math.min(...aligned.map((p) => p.x)) - spacing / 2;
+  const maxX = Math.max(...aligned.map((p) => p.x)) + spacing / 2;
+  const minY = Math.min(...aligned.map((p) => p.y)) - spacing / 2;
+  const maxY = Math.max(...aligned.map((p) => p.y)) + spacing / 2;
+  const coveragePolygon = [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ].map((p) => toLatLng(turnFrame(p, -1)));
+
+  return {
+    ...buildPatternLines(lines, toLatLng, config, altitude),
+    gridAngle: initialBearing,
+    coveragePolygon,
+  };
+}
+
+/**
+ * Sector (VS) search: three equilateral triangles through the datum, each
+ * turned 120 degrees from the last. Each triangle is one line.
+ */
+export function generateSectorSearchWaypoints(config: GridMissionConfig): SurveyPatternResult {
+  const search = config.search;
+  if (!search || !(search.radius > 0)) {
+    throw new Error('Sector search needs a datum and a radius greater than zero');
+  }
+
+  const { altitude } = resolveSurveyGeometry(config);
+  const { toLatLng } = localFrame(search.datum);
+  const initialBearing = search.initialBearing ?? 0;
+  const datum: PlanarPoint = { x: 0, y: 0 };
+
+  // Flying straight on through the datum puts the next triangle 240 degrees round
+  const lines = [0, 240, 120].map((offset, triangle) => {
+    const bearing = initialBearing + offset;
+    const legs = [polar(bearing, search.radius), polar(bearing + 60, search.radius), datum];
+    return triangle === 0 ? [datum, ...legs] : legs;
+  });
+
+  return {
+    ...buildPatternLines(lines, toLatLng, config, altitude),
+    gridAngle: initialBearing,
+    coveragePolygon: circlePolygon(search.radius).map(toLatLng),
+  };
+}
+
+// ============================================================================
+// Spiral
+// ============================================================================
+
+/**
+ * Archimedean spiral with one track spacing between revolutions, flown
+ * outward from the center or inward from the edge. Each revolution is one line.
+ */
+export function generateSpiralWaypoints(config: GridMissionConfig): SurveyPatternResult {
+  const spiral = config.spiral;
+  if (!spiral || !(spiral.radius > 0)) {
+    throw new Error('Spiral needs a center and a radius greater than zero');
+  }
+
+  const { altitude, lineSpacing } = resolveSurveyGeometry(config);
+  const spacing = spiral.trackSpacing ?? lineSpacing;
+  if (!(spacing > 0)) {
+    throw new Error('Track spacing must be greater than zero');
+  }
+
+  const { toLatLng } = localFrame(spiral.center);
+  const startRadius = Math.min(spacing / 2, spiral.radius);
+  const endAngle = ((spiral.radius - startRadius) / spacing) * 2 * Math.PI;
+  const radiusAt = (angle: number) => startRadius + (spacing * angle) / (2 * Math.PI);
+
+  // Waypoints roughly one track spacing apart along the arc
+  const samples: { point: PlanarPoint; revolution: number }[] = [];
+  for (let angle = 0; ; ) {
+    samples.push({
+      point: polar((angle * 180) / Math.PI, radiusAt(angle)),
+      revolution: Math.floor(angle / (2 * Math.PI)),
+    });
+    if (angle >= endAngle) break;
+    angle = Math.min(endAngle, angle + Math.min(MAX_SPIRAL_STEP, spacing / radiusAt(angle)));
+  }
+
+  const ordered = spiral.direction === 'inward' ? samples.reverse() : samples;
+  const lines: PlanarPoint[][] = [];
+  ordered.forEach((sample, i) => {
+    if (i === 0 || sample.revolution !== ordered[i - 1].revolution) {
+      lines.push([]);
+    }
+    lines[lines.length - 1].push(sample.point);
+  });
+
+  return {
+    ...buildPatternLines(lines, toLatLng, config, altitude),
+    gridAngle: config.gridAngle,
+    coveragePolygon: circlePolygon(spiral.radius + spacing / 2).map(toLatLng),
+  };
+}
+
+// ============================================================================
+// Pattern Dispatch
+// ============================================================================
+
+/**
+ * Generate waypoints for the configured survey pattern
+ */
+export function generateSurveyPattern(config: GridMissionConfig): SurveyPatternResult {
+  switch (config.pattern ?? 'grid') {
+    case 'corridor':
+      return generateCorridorWaypoints(config);
+    case 'orbit':
+      return generateOrbitWaypoints(config);
+    case 'expanding_square':
+      return generateExpandingSquareWaypoints(config);
+    case 'sector':
+      return generateSectorSearchWaypoints(config);
+    case 'spiral':
+      return generateSpiralWaypoints(config);
+    default: {
+      const result = generateGridWaypoints(config);
+      return { ...result, coveragePolygon: config.surveyArea.vertices };
+    }
+  }
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  generateCorridorWaypoints,
+  generateOrbitWaypoints,
+  generateExpandingSquareWaypoints,
+  generateSectorSearchWaypoints,
+  generateSpiralWaypoints,
+  generateSurveyPattern,
+};
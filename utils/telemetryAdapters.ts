@@ -0,0 +1,506 @@
+/**
+ * Telemetry Adapters
+ * Turns the payloads each transport delivers (Kafka proxy, drone WebSocket,
+ * HTTP polling, imported flight logs) into the canonical VehicleTelemetry
+ * model, normalizing units and angles on the way in
+ */
+
+import {
+  TELEMETRY_MODEL_VERSION,
+  TelemetryAttitude,
+  TelemetryBattery,
+  TelemetryGps,
+  TelemetryLink,
+  TelemetryMission,
+  TelemetryPosition,
+  TelemetryTransport,
+  TelemetryVelocity,
+  TelemetryVibration,
+  VehicleTelemetry,
+} from '@/types/telemetry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Payload = Record<string, unknown>;
+
+export interface AdapterContext {
+  vehicleId?: string; // used when the payload does not name its vehicle
+  receivedAt: number; // epoch ms, used when the payload has no timestamp
+}
+
+export interface TelemetryAdapter {
+  transport: TelemetryTransport | '*'; // '*' matches any transport
+  version: number;
+  adapt: (payload: Payload, context: AdapterContext) => VehicleTelemetry;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Vehicle id of payloads that name no vehicle, from single-vehicle servers
+export const UNKNOWN_VEHICLE_ID = 'unknown';
+
+// MAV_MODE_FLAG_SAFETY_ARMED in HEARTBEAT.base_mode
+const MAV_MODE_FLAG_SAFETY_ARMED = 128;
+
+// Keys of the envelopes the WebSocket and HTTP APIs wrap payloads in
+const ENVELOPE_KEYS = ['type', 'success', 'message'];
+
+// ============================================================================
+// Normalization Helpers
+// ============================================================================
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const record = (value: unknown): Payload => (isRecord(value) ? value : {});
+
+/**
+ * First finite number among the values, parsing numeric strings
+ */
+const num = (...values: unknown[]): number | undefined => {
+  for (const value of values) {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed === 'number' && Number.isFinite(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+const bool = (...values: unknown[]): boolean | undefined => {
+  for (const value of values) {
+    if (typeof value === 'boolean') return value;
+  }
+  return undefined;
+};
+
+const str = (...values: unknown[]): string | undefined => {
+  for (const value of values) {
+    if (typeof value === 'string' && value !== '') return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+};
+
+/**
+ * Wrap an angle in degrees to -180..180
+ */
+export const wrapAngle180 = (degrees: number): number => {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 && degrees > 0 ? 180 : wrapped;
+};
+
+/**
+ * Wrap an angle in degrees to 0..360
+ */
+export const wrapAngle360 = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+const radToDeg = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Epoch milliseconds from an ISO string, epoch seconds or epoch milliseconds
+ */
+export const toEpochMs = (value: unknown, fallback: number): number => {
+  if (typeof value === 'string' && Number.isNaN(Number(value))) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? fallback : parsed;
+  }
+  const n = num(value);
+  if (n === undefined || n <= 0) return fallback;
+  // Anything below 1e11 is too small to be epoch ms after 1973
+  return n < 1e11 ? n * 1000 : n;
+};
+
+/**
+ * Battery percentage, dropping the -1 that autopilots send for unknown
+ */
+const toPercent = (value: number | undefined): number | undefined =>
+  value === undefined || value < 0 ? undefined : Math.min(100, value);
+
+/**
+ * Largest of the defined values
+ */
+const maxOf = (...values: (number | undefined)[]): number | undefined => {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.max(...defined) : undefined;
+};
+
+// ============================================================================
+// Section Readers (version 1 payloads: degrees, meters, m/s, volts, amps)
+// ============================================================================
+
+const readPosition = (payload: Payload): TelemetryPosition | undefined => {
+  const pos = record(payload.position ?? payload.current_position);
+  const lat = num(pos.lat, pos.latitude, payload.latitude, payload.lat);
+  const lon = num(pos.lon, pos.lng, pos.longitude, payload.longitude, payload.lon);
+  if (lat === undefined || lon === undefined || (lat === 0 && lon === 0)) return undefined;
+
+  const relative = num(pos.relative_alt, pos.relative_altitude, payload.relative_altitude, payload.relative_alt);
+  const alt = num(pos.alt, pos.altitude, payload.altitude, payload.alt);
+  return {
+    lat,
+    lon,
+    alt: relative ?? alt ?? 0,
+    altMsl: relative !== undefined ? alt : num(pos.alt_msl, payload.altitude_msl),
+  };
+};
+
+const readVelocity = (payload: Payload): TelemetryVelocity | undefined => {
+  const vel = record(payload.velocity);
+  const vn = num(vel.vx, vel.vn, vel.north);
+  const ve = num(vel.vy, vel.ve, vel.east);
+  const vd = num(vel.vz, vel.vd, vel.down);
+  const groundSpeed = num(vel.ground_speed, vel.groundspeed, payload.ground_speed, payload.groundspeed);
+  const climbRate = num(vel.climb_rate, payload.climb_rate, payload.climb);
+  if (vn === undefined && ve === undefined && groundSpeed === undefined && climbRate === undefined) return undefined;
+
+  return {
+    vn: vn ?? 0,
+    ve: ve ?? 0,
+    vd: vd ?? (climbRate !== undefined ? -climbRate : 0),
+    groundSpeed: groundSpeed ?? Math.hypot(vn ?? 0, ve ?? 0),
+    airSpeed: num(vel.airspeed, vel.air_speed, payload.air_speed, payload.airspeed),
+    climbRate: climbRate ?? (vd !== undefined ? -vd : 0),
+  };
+};
+
+const readAttitude = (payload: Payload): TelemetryAttitude | undefined => {
+  const att = record(payload.attitude);
+  const roll = num(att.roll);
+  const pitch = num(att.pitch);
+  const yaw = num(att.yaw);
+  if (roll === undefined && pitch === undefined && yaw === undefined) return undefined;
+  return {
+    roll: wrapAngle180(roll ?? 0),
+    pitch: wrapAngle180(pitch ?? 0),
+    yaw: wrapAngle180(yaw ?? 0),
+  };
+};
+
+const readHeading = (payload: Payload, attitude?: TelemetryAttitude): number | undefined => {
+  const heading = num(payload.heading, record(payload.attitude).heading, record(payload.position).heading);
+  if (heading !== undefined) return wrapAngle360(heading);
+  return attitude ? wrapAngle360(attitude.yaw) : undefined;
+};
+
+const readBattery = (payload: Payload): TelemetryBattery | undefined => {
+  const bat = record(payload.battery);
+  const battery: TelemetryBattery = {
+    voltage: num(bat.voltage, payload.battery_voltage),
+    current: num(bat.current, payload.battery_current),
+    remaining: toPercent(num(bat.remaining, bat.level, payload.battery_remaining, payload.battery_level)),
+  };
+  const hasValue = Object.values(battery).some((value) => value !== undefined);
+  return hasValue ? battery : undefined;
+};
+
+const readGps = (payload: Payload): TelemetryGps | undefined => {
+  const gps = record(payload.gps);
+  const fixType = num(gps.fix_type, gps.fixType, payload.gps_fix, payload.gps_fix_type);
+  const satellites = num(gps.satellites, gps.satellites_visible, gps.num_satellites, payload.satellites_visible);
+  if (fixType === undefined && satellites === undefined) return undefined;
+  return {
+    fixType: fixType ?? 0,
+    satellites: satellites ?? 0,
+    hdop: num(gps.hdop),
+    vdop: num(gps.vdop),
+  };
+};
+
+const readMission = (payload: Payload): TelemetryMission | undefined => {
+  const mission = record(payload.mission);
+  const current = num(mission.current_waypoint, mission.current, payload.mission_current);
+  const count = num(mission.total_waypoints, mission.count, payload.mission_count);
+  if (current === undefined && count === undefined) return undefined;
+  return {
+    current: current ?? 0,
+    count: count ?? 0,
+    active: bool(mission.active, payload.mission_active),
+    distanceToWaypoint: num(mission.distance_to_waypoint),
+  };
+};
+
+const readVibration = (payload: Payload): TelemetryVibration | undefined => {
+  const vib = record(payload.vibration);
+  const level = num(vib.level, vib.accel) ?? maxOf(num(vib.x), num(vib.y), num(vib.z));
+  if (level === undefined) return undefined;
+  return { level, clipping: num(vib.clipping) };
+};
+
+/**
+ * Arrival details for link health. Both payload versions put the send time in
+ * timestamp and an optional message counter in seq.
+ */
+const readLink = (payload: Payload, context: AdapterContext): TelemetryLink => {
+  const sentAt = toEpochMs(payload.timestamp, 0);
+  return {
+    receivedAt: context.receivedAt,
+    sentAt: sentAt > 0 ? sentAt : undefined,
+    sequence: num(payload.seq, payload.sequence),
+    heartbeat: payload.heartbeat !== undefined || payload.last_heartbeat !== undefined,
+  };
+};
+
+/**
+ * Read a version 1 payload. The transports differ mostly in where they put
+ * status and in field aliases, so one tolerant reader serves all three.
+ */
+const readV1 = (
+  transport: TelemetryTransport,
+  payload: Payload,
+  context: AdapterContext
+): VehicleTelemetry => {
+  const status = record(payload.status);
+  const attitude = readAttitude(payload);
+
+  return {
+    modelVersion: TELEMETRY_MODEL_VERSION,
+    vehicleId: str(payload.vehicle_id, payload.vehicleId, payload.drone_id, context.vehicleId) ?? UNKNOWN_VEHICLE_ID,
+    transport,
+    adapter: `${transport}@1`,
+    timestamp: toEpochMs(payload.timestamp, context.receivedAt),
+    position: readPosition(payload),
+    velocity: readVelocity(payload),
+    attitude,
+    heading: readHeading(payload, attitude),
+    battery: readBattery(payload),
+    gps: readGps(payload),
+    armed: bool(payload.armed, status.armed),
+    flying: bool(payload.flying, payload.in_air, status.flying),
+    flightMode: str(payload.flight_mode, payload.mode, status.mode, status.flight_mode),
+    systemStatus: str(payload.system_status, status.system_status),
+    mission: readMission(payload),
+    vibration: readVibration(payload),
+    link: readLink(payload, context),
+  };
+};
+
+// ============================================================================
+// MAVLink Units (version 2 payloads)
+// ============================================================================
+
+/**
+ * Version 2 payloads forward MAVLink messages untouched, keyed by message
+ * name: degE7, mm, cm/s, radians, centidegrees, mV and cA.
+ */
+const readMavlinkV2 = (
+  transport: TelemetryTransport,
+  payload: Payload,
+  context: AdapterContext
+): VehicleTelemetry => {
+  const gpi = record(payload.global_position_int);
+  const att = record(payload.attitude);
+  const sys = record(payload.sys_status);
+  const gpsRaw = record(payload.gps_raw_int);
+  const hud = record(payload.vfr_hud);
+  const heartbeat = record(payload.heartbeat);
+  const missionCurrent = record(payload.mission_current);
+  const vib = record(payload.vibration);
+
+  const lat = num(gpi.lat);
+  const lon = num(gpi.lon);
+  const position: TelemetryPosition | undefined =
+    lat !== undefined && lon !== undefined && (lat !== 0 || lon !== 0)
+      ? {
+          lat: lat / 1e7,
+          lon: lon / 1e7,
+          alt: (num(gpi.relative_alt) ?? 0) / 1000,
+          altMsl: gpi.alt !== undefined ? (num(gpi.alt) ?? 0) / 1000 : undefined,
+        }
+      : undefined;
+
+  const vx = num(gpi.vx);
+  const vy = num(gpi.vy);
+  const vz = num(gpi.vz);
+  const velocity: TelemetryVelocity | undefined =
+    vx !== undefined || num(hud.groundspeed) !== undefined
+      ? {
+          vn: (vx ?? 0) / 100,
+          ve: (vy ?? 0) / 100,
+          vd: (vz ?? 0) / 100,
+          groundSpeed: num(hud.groundspeed) ?? Math.hypot(vx ?? 0, vy ?? 0) / 100,
+          airSpeed: num(hud.airspeed),
+          climbRate: num(hud.climb) ?? -(vz ?? 0) / 100,
+        }
+      : undefined;
+
+  const attitude: TelemetryAttitude | undefined =
+    num(att.roll, att.pitch, att.yaw) !== undefined
+      ? {
+          roll: wrapAngle180(radToDeg(num(att.roll) ?? 0)),
+          pitch: wrapAngle180(radToDeg(num(att.pitch) ?? 0)),
+          yaw: wrapAngle180(radToDeg(num(att.yaw) ?? 0)),
+        }
+      : undefined;
+
+  // GLOBAL_POSITION_INT.hdg is centidegrees, 65535 when unknown
+  const hdg = num(gpi.hdg);
+  const heading =
+    hdg !== undefined && hdg !== 65535
+      ? wrapAngle360(hdg / 100)
+      : num(hud.heading) ?? (attitude ? wrapAngle360(attitude.yaw) : undefined);
+
+  const voltage = num(sys.voltage_battery);
+  const current = num(sys.current_battery);
+  const battery: TelemetryBattery | undefined = payload.sys_status
+    ? {
+        voltage: voltage !== undefined && voltage !== 65535 ? voltage / 1000 : undefined,
+        current: current !== undefined && current >= 0 ? current / 100 : undefined,
+        remaining: toPercent(num(sys.battery_remaining)),
+      }
+    : undefined;
+
+  // GPS_RAW_INT eph/epv are dilution * 100, 65535 when unknown
+  const eph = num(gpsRaw.eph);
+  const epv = num(gpsRaw.epv);
+  const gps: TelemetryGps | undefined = payload.gps_raw_int
+    ? {
+        fixType: num(gpsRaw.fix_type) ?? 0,
+        satellites: num(gpsRaw.satellites_visible) ?? 0,
+        hdop: eph !== undefined && eph !== 65535 ? eph / 100 : undefined,
+        vdop: epv !== undefined && epv !== 65535 ? epv / 100 : undefined,
+      }
+    : undefined;
+
+  const baseMode = num(heartbeat.base_mode);
+  const seq = num(missionCurrent.seq);
+  const vibration = maxOf(num(vib.vibration_x), num(vib.vibration_y), num(vib.vibration_z));
+
+  return {
+    modelVersion: TELEMETRY_MODEL_VERSION,
+    vehicleId: str(payload.vehicle_id, payload.system_id, context.vehicleId) ?? UNKNOWN_VEHICLE_ID,
+    transport,
+    adapter: `${transport}@2`,
+    timestamp: toEpochMs(payload.timestamp, context.receivedAt),
+    position,
+    velocity,
+    attitude,
+    heading,
+    battery,
+    gps,
+    armed: baseMode !== undefined ? (baseMode & MAV_MODE_FLAG_SAFETY_ARMED) !== 0 : bool(payload.armed),
+    flying: bool(payload.flying, payload.in_air),
+    flightMode: str(payload.flight_mode),
+    systemStatus: str(payload.system_status),
+    mission:
+      seq !== undefined
+        ? { current: seq, count: num(missionCurrent.total, payload.mission_count) ?? 0 }
+        : undefined,
+    vibration:
+      vibration !== undefined
+        ? {
+            level: vibration,
+            clipping: (num(vib.clipping_0) ?? 0) + (num(vib.clipping_1) ?? 0) + (num(vib.clipping_2) ?? 0),
+          }
+        : undefined,
+    link: readLink(payload, context),
+  };
+};
+
+// ============================================================================
+// Adapter Registry
+// ============================================================================
+
+const TRANSPORTS: TelemetryTransport[] = ['kafka', 'websocket', 'http', 'replay', 'log'];
+
+const adapters: TelemetryAdapter[] = [
+  ...TRANSPORTS.map((transport): TelemetryAdapter => ({
+    transport,
+    version: 1,
+    adapt: (payload, context) => readV1(transport, payload, context),
+  })),
+  ...TRANSPORTS.map((transport): TelemetryAdapter => ({
+    transport,
+    version: 2,
+    adapt: (payload, context) => readMavlinkV2(transport, payload, context),
+  })),
+];
+
+/**
+ * Register an adapter for a payload version. A later registration for the
+ * same transport and version replaces the earlier one.
+ */
+export const registerTelemetryAdapter = (adapter: TelemetryAdapter): void => {
+  const index = adapters.findIndex(
+    (a) => a.transport === adapter.transport && a.version === adapter.version
+  );
+  if (index >= 0) adapters.splice(index, 1);
+  adapters.push(adapter);
+};
+
+const findAdapter = (transport: TelemetryTransport, version: number): TelemetryAdapter | undefined =>
+  adapters.find((a) => a.transport === transport && a.version === version) ??
+  adapters.find((a) => a.transport === '*' && a.version === version);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Strip the { type, data } and { success, data } envelopes the WebSocket and
+ * HTTP APIs wrap payloads in, keeping the envelope's vehicle id and timestamp
+ */
+const unwrap = (payload: Payload): Payload => {
+  if (!isRecord(payload.data) || !ENVELOPE_KEYS.some((key) => key in payload)) return payload;
+  return {
+    vehicle_id: payload.vehicle_id,
+    timestamp: payload.timestamp,
+    ...payload.data,
+  };
+};
+
+/**
+ * Convert a raw transport payload to VehicleTelemetry. The payload picks its
+ * adapter with schema_version (default 1). Returns null for payloads that are
+ * not objects or have no adapter.
+ */
+export const adaptTelemetry = (
+  raw: unknown,
+  transport: TelemetryTransport,
+  options: { vehicleId?: string; receivedAt?: number } = {}
+): VehicleTelemetry | null => {
+  if (!isRecord(raw)) return null;
+
+  const payload = unwrap(raw);
+  const version = num(payload.schema_version, payload.schemaVersion) ?? 1;
+  const adapter = findAdapter(transport, version);
+  if (!adapter) {
+    console.error(`❌ No telemetry adapter for ${transport}@${version}`);
+    return null;
+  }
+
+  return adapter.adapt(payload, {
+    vehicleId: options.vehicleId,
+    receivedAt: options.receivedAt ?? Date.now(),
+  });
+};
+
+/**
+ * Fill sections missing from the latest sample with the previous one, for
+ * transports that send position, status and battery in separate messages
+ */
+export const mergeTelemetry = (
+  previous: VehicleTelemetry | null | undefined,
+  next: VehicleTelemetry
+): VehicleTelemetry => {
+  if (!previous || previous.vehicleId !== next.vehicleId) return next;
+
+  const merged = { ...previous };
+  (Object.keys(next) as (keyof VehicleTelemetry)[]).forEach((key) => {
+    if (next[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = next[key];
+    }
+  });
+  return merged;
+};
+
+export default {
+  adaptTelemetry,
+  mergeTelemetry,
+  registerTelemetryAdapter,
+  wrapAngle180,
+  wrapAngle360,
+  toEpochMs,
+};
@@ -0,0 +1,115 @@
+/**
+ * Telemetry Series
+ * The values the telemetry charts can plot, read from VehicleTelemetry
+ * samples, and CSV export of a charted time window
+ */
+
+import { VehicleTelemetry } from '@/types/telemetry';
+
+// ============================================================================
+// Series
+// ============================================================================
+
+export type TelemetrySeriesKey =
+  | 'altitude'
+  | 'climbRate'
+  | 'groundSpeed'
+  | 'batteryVoltage'
+  | 'batteryCurrent'
+  | 'batteryRemaining'
+  | 'roll'
+  | 'pitch'
+  | 'yaw'
+  | 'satellites'
+  | 'hdop';
+
+export interface TelemetrySeries {
+  key: TelemetrySeriesKey;
+  label: string;
+  unit: string;
+  decimals: number; // shown on axes and exported
+  read: (telemetry: VehicleTelemetry) => number | undefined;
+}
+
+export const TELEMETRY_SERIES: TelemetrySeries[] = [
+  { key: 'altitude', label: 'Altitude', unit: 'm', decimals: 1, read: t => t.position?.alt },
+  { key: 'climbRate', label: 'Climb rate', unit: 'm/s', decimals: 2, read: t => t.velocity?.climbRate },
+  { key: 'groundSpeed', label: 'Ground speed', unit: 'm/s', decimals: 2, read: t => t.velocity?.groundSpeed },
+  { key: 'batteryVoltage', label: 'Battery voltage', unit: 'V', decimals: 2, read: t => t.battery?.voltage },
+  { key: 'batteryCurrent', label: 'Battery current', unit: 'A', decimals: 2, read: t => t.battery?.current },
+  { key: 'batteryRemaining', label: 'Battery remaining', unit: '%', decimals: 0, read: t => t.battery?.remaining },
+  { key: 'roll', label: 'Roll', unit: '°', decimals: 1, read: t => t.attitude?.roll },
+  { key: 'pitch', label: 'Pitch', unit: '°', decimals: 1, read: t => t.attitude?.pitch },
+  { key: 'yaw', label: 'Yaw', unit: '°', decimals: 1, read: t => t.attitude?.yaw },
+  { key: 'satellites', label: 'Satellites', unit: '', decimals: 0, read: t => t.gps?.satellites },
+  { key: 'hdop', label: 'HDOP', unit: '', decimals: 2, read: t => t.gps?.hdop },
+];
+
+export const getTelemetrySeries = (key: TelemetrySeriesKey): TelemetrySeries =>
+  TELEMETRY_SERIES.find(series => series.key === key) ?? TELEMETRY_SERIES[0];
+
+/**
+ * Index of the first sample at or after a time. Samples are in arrival order,
+ * which is time order for all but the odd late message.
+ */
+export function findSampleIndex(samples: VehicleTelemetry[], time: number): number {
+  let low = 0;
+  let high = samples.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (samples[mid].timestamp < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// ============================================================================
+// CSV Export
+// ============================================================================
+
+const csvField = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per sample between start and end (epoch ms) that carries any of the
+ * series, oldest first. Series a sample does not carry are left empty.
+ */
+export function buildTelemetryCsv(
+  histories: Record<string, VehicleTelemetry[]>,
+  seriesKeys: TelemetrySeriesKey[],
+  start: number,
+  end: number
+): string {
+  const series = seriesKeys.map(getTelemetrySeries);
+  const header = ['time', 'vehicle', ...series.map(s => (s.unit ? `${s.label} (${s.unit})` : s.label))];
+
+  const rows: { time: number; fields: string[] }[] = [];
+  Object.entries(histories).forEach(([vehicleId, samples]) => {
+    for (let i = findSampleIndex(samples, start); i < samples.length && samples[i].timestamp <= end; i++) {
+      const values = series.map(s => s.read(samples[i]));
+      if (values.every(value => value === undefined)) continue;
+
+      rows.push({
+        time: samples[i].timestamp,
+        fields: [
+          new Date(samples[i].timestamp).toISOString(),
+          vehicleId,
+          ...values.map((value, index) => (value === undefined ? '' : value.toFixed(series[index].decimals))),
+        ],
+      });
+    }
+  });
+  rows.sort((a, b) => a.time - b.time);
+
+  return [header, ...rows.map(row => row.fields)].map(fields => fields.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  TELEMETRY_SERIES,
+  getTelemetrySeries,
+  findSampleIndex,
+  buildTelemetryCsv,
+};
@@ -0,0 +1,269 @@
+/**
+ * Terrain Following
+ * Holds a target height above ground using a loaded DEM and flags unsafe legs
+ */
+
+import {
+  DemTile,
+  GridWaypoint,
+  LatLngPoint,
+  TerrainFollowingConfig,
+  TerrainLegWarning,
+} from '@/types/gridMission';
+import { sampleElevation } from '@/utils/elevation';
+import { geodesicDistance } from '@/utils/geodesy';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_TERRAIN_SAMPLE_DISTANCE = 20; // meters
+export const DEFAULT_TERRAIN_TOLERANCE = 5; // meters
+export const DEFAULT_MIN_CLEARANCE = 10; // meters AGL
+export const DEFAULT_AGL_CEILING = 120; // meters AGL
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TerrainFollowingOptions {
+  baseAltitude: number; // survey altitude the waypoints were generated at
+  home: LatLngPoint; // altitudes are relative to the terrain here
+}
+
+export interface TerrainFollowingResult {
+  waypoints: GridWaypoint[];
+  warnings: TerrainLegWarning[];
+  homeElevation: number;
+  minAgl: number;
+  maxAgl: number;
+}
+
+interface ProfileSample {
+  point: LatLngPoint;
+  fraction: number; // 0..1 along the leg
+  elevation: number | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toLatLng = (wp: GridWaypoint): LatLngPoint => ({ lat: wp.position.lat, lng: wp.position.lon });
+
+/**
+ * Terrain samples along a leg, endpoints included
+ */
+function sampleLeg(tiles: DemTile[], from: GridWaypoint, to: GridWaypoint, spacing: number): ProfileSample[] {
+  const distance = geodesicDistance(from.position.lat, from.position.lon, to.position.lat, to.position.lon);
+  const steps = Math.max(1, Math.ceil(distance / spacing));
+
+  return Array.from({ length: steps + 1 }, (_, k) => {
+    const fraction = k / steps;
+    const point = {
+      lat: from.position.lat + (to.position.lat - from.position.lat) * fraction,
+      lng: from.position.lon + (to.position.lon - from.position.lon) * fraction,
+    };
+    return { point, fraction, elevation: sampleElevation(tiles, point) };
+  });
+}
+
+/**
+ * Resolve defaults for the terrain settings
+ */
+export function resolveTerrainConfig(
+  terrain: TerrainFollowingConfig,
+  baseAltitude: number
+): Required<TerrainFollowingConfig> {
+  return {
+    enabled: terrain.enabled,
+    targetAgl: terrain.targetAgl ?? baseAltitude,
+    sampleDistance: terrain.sampleDistance ?? DEFAULT_TERRAIN_SAMPLE_DISTANCE,
+    tolerance: terrain.tolerance ?? DEFAULT_TERRAIN_TOLERANCE,
+    minClearance: terrain.minClearance ?? DEFAULT_MIN_CLEARANCE,
+    ceiling: terrain.ceiling ?? DEFAULT_AGL_CEILING,
+  };
+}
+
+// ============================================================================
+// Altitude Adjustment
+// ============================================================================
+
+/**
+ * Insert terrain points between two adjusted waypoints wherever flying the
+ * straight climb/descent between them drifts more than the tolerance from
+ * the target AGL. Splits at the worst sample and recurses on both halves.
+ */
+function refineLeg(
+  from: GridWaypoint,
+  to: GridWaypoint,
+  tiles: DemTile[],
+  settings: Required<TerrainFollowingConfig>,
+  homeElevation: number,
+  aglOffset: (fraction: number) => number,
+  depth: number = 0
+): GridWaypoint[] {
+  const samples = sampleLeg(tiles, from, to, settings.sampleDistance);
+  if (samples.length < 3 || depth > 16) return [];
+
+  let worst: ProfileSample | null = null;
+  let worstDeviation = settings.tolerance;
+
+  for (const sample of samples.slice(1, -1)) {
+    if (sample.elevation === null) continue;
+    const flown = from.position.alt + (to.position.alt - from.position.alt) * sample.fraction;
+    const wanted = sample.elevation + settings.targetAgl + aglOffset(sample.fraction) - homeElevation;
+    const deviation = Math.abs(flown - wanted);
+    if (deviation > worstDeviation) {
+      worst = sample;
+      worstDeviation = deviation;
+    }
+  }
+
+  if (!worst || worst.elevation === null) return [];
+  const split = worst;
+  const elevation = worst.elevation;
+
+  const inserted: GridWaypoint = {
+    ...to,
+    sequence: 0,
+    position: {
+      lat: split.point.lat,
+      lon: split.point.lng,
+      alt: elevation + settings.targetAgl + aglOffset(split.fraction) - homeElevation,
+    },
+    isValid: true,
+    isBlocked: false,
+    terrainElevation: elevation,
+    agl: settings.targetAgl + aglOffset(split.fraction),
+    isTerrainPoint: true,
+  };
+
+  const scaled = (start: number, span: number) => (fraction: number) => aglOffset(start + fraction * span);
+  return [
+    ...refineLeg(from, inserted, tiles, settings, homeElevation, scaled(0, split.fraction), depth + 1),
+    inserted,
+    ...refineLeg(inserted, to, tiles, settings, homeElevation, scaled(split.fraction, 1 - split.fraction), depth + 1),
+  ];
+}
+
+/**
+ * Clearance and ceiling check for one leg as it will be flown
+ */
+function checkLeg(
+  from: GridWaypoint,
+  to: GridWaypoint,
+  tiles: DemTile[],
+  settings: Required<TerrainFollowingConfig>,
+  homeElevation: number
+): { warnings: TerrainLegWarning[]; minAgl: number; maxAgl: number } {
+  const samples = sampleLeg(tiles, from, to, settings.sampleDistance);
+  let minAgl = Infinity;
+  let maxAgl = -Infinity;
+  let lowest = samples[0].point;
+  let highest = samples[0].point;
+  let missing: LatLngPoint | null = null;
+
+  for (const sample of samples) {
+    if (sample.elevation === null) {
+      missing = missing ?? sample.point;
+      continue;
+    }
+    const flown = from.position.alt + (to.position.alt - from.position.alt) * sample.fraction;
+    const agl = flown + homeElevation - sample.elevation;
+    if (agl < minAgl) {
+      minAgl = agl;
+      lowest = sample.point;
+    }
+    if (agl > maxAgl) {
+      maxAgl = agl;
+      highest = sample.point;
+    }
+  }
+
+  const leg = { fromSequence: from.sequence, toSequence: to.sequence, minAgl, maxAgl };
+  const warnings: TerrainLegWarning[] = [];
+  if (missing) {
+    warnings.push({ ...leg, kind: 'no_data', position: missing });
+  }
+  if (minAgl < settings.minClearance) {
+    warnings.push({ ...leg, kind: 'clearance', position: lowest });
+  }
+  if (maxAgl > settings.ceiling) {
+    warnings.push({ ...leg, kind: 'ceiling', position: highest });
+  }
+
+  return { warnings, minAgl, maxAgl };
+}
+
+/**
+ * Re-altitude a route to hold the target AGL over the DEM. Waypoints keep
+ * any height they had above the survey altitude (e.g. obstacle climb-overs);
+ * altitudes stay relative to the home point's terrain. Points with no DEM
+ * coverage keep their altitude and their legs are flagged.
+ */
+export function applyTerrainFollowing(
+  waypoints: GridWaypoint[],
+  tiles: DemTile[],
+  terrain: TerrainFollowingConfig,
+  options: TerrainFollowingOptions
+): TerrainFollowingResult {
+  const settings = resolveTerrainConfig(terrain, options.baseAltitude);
+
+  const homeElevation = sampleElevation(tiles, options.home);
+  if (homeElevation === null) {
+    throw new Error('Home point is outside the loaded elevation data');
+  }
+
+  const adjusted = waypoints.map((wp): GridWaypoint => {
+    const elevation = sampleElevation(tiles, toLatLng(wp));
+    if (elevation === null) return wp;
+
+    const agl = settings.targetAgl + (wp.position.alt - options.baseAltitude);
+    return {
+      ...wp,
+      position: { ...wp.position, alt: elevation + agl - homeElevation },
+      terrainElevation: elevation,
+      agl,
+    };
+  });
+
+  // Fill in terrain points where the ground changes between waypoints
+  const followed: GridWaypoint[] = [];
+  adjusted.forEach((wp, i) => {
+    if (i > 0) {
+      const prev = adjusted[i - 1];
+      if (prev.agl !== undefined && wp.agl !== undefined) {
+        const fromOffset = prev.agl - settings.targetAgl;
+        const toOffset = wp.agl - settings.targetAgl;
+        followed.push(
+          ...refineLeg(prev, wp, tiles, settings, homeElevation, (f) => fromOffset + (toOffset - fromOffset) * f)
+        );
+      }
+    }
+    followed.push(wp);
+  });
+
+  const resequenced = followed.map((wp, index) => ({ ...wp, sequence: index }));
+
+  const warnings: TerrainLegWarning[] = [];
+  let minAgl = Infinity;
+  let maxAgl = -Infinity;
+  for (let i = 1; i < resequenced.length; i++) {
+    const leg = checkLeg(resequenced[i - 1], resequenced[i], tiles, settings, homeElevation);
+    warnings.push(...leg.warnings);
+    minAgl = Math.min(minAgl, leg.minAgl);
+    maxAgl = Math.max(maxAgl, leg.maxAgl);
+  }
+
+  return { waypoints: resequenced, warnings, homeElevation, minAgl, maxAgl };
+}
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  resolveTerrainConfig,
+  applyTerrainFollowing,
+};
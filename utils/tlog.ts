@@ -0,0 +1,311 @@
+/**
+ * MAVLink Telemetry Log Import
+ * Reads .tlog files, as written by QGroundControl and MAVProxy, into the
+ * canonical telemetry timeline
+ *
+ * A .tlog is a stream of MAVLink v1/v2 packets, each preceded by the time it
+ * was received as a big-endian uint64 of microseconds since the epoch.
+ */
+
+import { FlightLog } from '@/types/flightLog';
+import { MAV_AUTOPILOT } from './mavCommands';
+import { TimelineSampler, createTimelineSampler, px4CustomModeName } from './flightLog';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TIMESTAMP_SIZE = 8;
+const MAVLINK_V1_STX = 0xfe;
+const MAVLINK_V2_STX = 0xfd;
+const V1_HEADER_SIZE = 6;
+const V2_HEADER_SIZE = 10;
+const CHECKSUM_SIZE = 2;
+const SIGNATURE_SIZE = 13;
+const MAVLINK_IFLAG_SIGNED = 0x01;
+
+// EXTENDED_SYS_STATE.landed_state
+const MAV_LANDED_STATE_UNDEFINED = 0;
+const MAV_LANDED_STATE_ON_GROUND = 1;
+
+// Rejects timestamps that cannot be from a real flight
+const MIN_EPOCH_US = Date.UTC(2000, 0, 1) * 1000;
+
+type FieldType = 'uint8_t' | 'int8_t' | 'uint16_t' | 'int16_t' | 'uint32_t' | 'int32_t' | 'float';
+
+interface MessageSpec {
+  name: string; // payload section, as the MAVLink v2 telemetry adapter reads it
+  crcExtra: number;
+  fields: Record<string, [FieldType, number]>; // wire type and offset
+}
+
+// Messages read into the timeline. Fields are in wire order, largest first.
+const MESSAGES: Record<number, MessageSpec> = {
+  0: {
+    name: 'heartbeat',
+    crcExtra: 50,
+    fields: { custom_mode: ['uint32_t', 0], autopilot: ['uint8_t', 5], base_mode: ['uint8_t', 6] },
+  },
+  1: {
+    name: 'sys_status',
+    crcExtra: 124,
+    fields: { voltage_battery: ['uint16_t', 14], current_battery: ['int16_t', 16], battery_remaining: ['int8_t', 30] },
+  },
+  24: {
+    name: 'gps_raw_int',
+    crcExtra: 24,
+    fields: { eph: ['uint16_t', 20], epv: ['uint16_t', 22], fix_type: ['uint8_t', 28], satellites_visible: ['uint8_t', 29] },
+  },
+  30: {
+    name: 'attitude',
+    crcExtra: 39,
+    fields: { roll: ['float', 4], pitch: ['float', 8], yaw: ['float', 12] },
+  },
+  33: {
+    name: 'global_position_int',
+    crcExtra: 104,
+    fields: {
+      lat: ['int32_t', 4],
+      lon: ['int32_t', 8],
+      alt: ['int32_t', 12],
+      relative_alt: ['int32_t', 16],
+      vx: ['int16_t', 20],
+      vy: ['int16_t', 22],
+      vz: ['int16_t', 24],
+      hdg: ['uint16_t', 26],
+    },
+  },
+  42: {
+    name: 'mission_current',
+    crcExtra: 28,
+    fields: { seq: ['uint16_t', 0], total: ['uint16_t', 2] },
+  },
+  74: {
+    name: 'vfr_hud',
+    crcExtra: 20,
+    fields: { airspeed: ['float', 0], groundspeed: ['float', 4], climb: ['float', 12], heading: ['int16_t', 16] },
+  },
+  241: {
+    name: 'vibration',
+    crcExtra: 90,
+    fields: {
+      vibration_x: ['float', 8],
+      vibration_y: ['float', 12],
+      vibration_z: ['float', 16],
+      clipping_0: ['uint32_t', 20],
+      clipping_1: ['uint32_t', 24],
+      clipping_2: ['uint32_t', 28],
+    },
+  },
+  245: {
+    name: 'extended_sys_state',
+    crcExtra: 130,
+    fields: { landed_state: ['uint8_t', 1] },
+  },
+};
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  uint8_t: 1,
+  int8_t: 1,
+  uint16_t: 2,
+  int16_t: 2,
+  uint32_t: 4,
+  int32_t: 4,
+  float: 4,
+};
+
+// ============================================================================
+// Packets
+// ============================================================================
+
+interface Packet {
+  systemId: number;
+  msgId: number;
+  payload: Uint8Array;
+  length: number; // whole packet, STX to checksum or signature
+}
+
+/**
+ * MAVLink X.25 checksum over the packet after STX, plus the message's CRC extra
+ */
+function checksum(bytes: Uint8Array, crcExtra: number): number {
+  let crc = 0xffff;
+  const accumulate = (byte: number) => {
+    let tmp = byte ^ (crc & 0xff);
+    tmp = (tmp ^ (tmp << 4)) & 0xff;
+    crc = ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xffff;
+  };
+  bytes.forEach(accumulate);
+  accumulate(crcExtra);
+  return crc;
+}
+
+/**
+ * Read the packet at offset. Returns null when the bytes there are not a
+ * packet, or are a known message that fails its checksum.
+ */
+function readPacket(bytes: Uint8Array, offset: number): Packet | null {
+  const stx = bytes[offset];
+  if (stx !== MAVLINK_V1_STX && stx !== MAVLINK_V2_STX) return null;
+
+  const v2 = stx === MAVLINK_V2_STX;
+  const headerSize = v2 ? V2_HEADER_SIZE : V1_HEADER_SIZE;
+  const payloadLength = bytes[offset + 1];
+  const signed = v2 && (bytes[offset + 2] & MAVLINK_IFLAG_SIGNED) !== 0;
+  const length = headerSize + payloadLength + CHECKSUM_SIZE + (signed ? SIGNATURE_SIZE : 0);
+  if (offset + length > bytes.length) return null;
+
+  const msgId = v2
+    ? bytes[offset + 7] | (bytes[offset + 8] << 8) | (bytes[offset + 9] << 16)
+    : bytes[offset + 5];
+  const payloadStart = offset + headerSize;
+
+  const spec = MESSAGES[msgId];
+  if (spec) {
+    const checksumOffset = payloadStart + payloadLength;
+    const expected = bytes[checksumOffset] | (bytes[checksumOffset + 1] << 8);
+    if (checksum(bytes.subarray(offset + 1, checksumOffset), spec.crcExtra) !== expected) return null;
+  }
+
+  return {
+    systemId: bytes[offset + (v2 ? 5 : 3)],
+    msgId,
+    payload: bytes.subarray(payloadStart, payloadStart + payloadLength),
+    length,
+  };
+}
+
+/**
+ * Decode a message's fields. MAVLink 2 drops trailing zero bytes from
+ * payloads, so fields past the end read as zero.
+ */
+function decodeFields(spec: MessageSpec, payload: Uint8Array): Record<string, number> {
+  const size = Math.max(
+    ...Object.values(spec.fields).map(([type, offset]) => offset + FIELD_SIZES[type]),
+    payload.length
+  );
+  const padded = new Uint8Array(size);
+  padded.set(payload);
+  const view = new DataView(padded.buffer);
+
+  const values: Record<string, number> = {};
+  Object.entries(spec.fields).forEach(([name, [type, offset]]) => {
+    switch (type) {
+      case 'uint8_t': values[name] = view.getUint8(offset); break;
+      case 'int8_t': values[name] = view.getInt8(offset); break;
+      case 'uint16_t': values[name] = view.getUint16(offset, true); break;
+      case 'int16_t': values[name] = view.getInt16(offset, true); break;
+      case 'uint32_t': values[name] = view.getUint32(offset, true); break;
+      case 'int32_t': values[name] = view.getInt32(offset, true); break;
+      case 'float': values[name] = view.getFloat32(offset, true); break;
+    }
+  });
+  return values;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface VehicleLog {
+  sampler: TimelineSampler;
+  firstT: number;
+  lastT: number;
+}
+
+/**
+ * Read a .tlog file. Packets from GCSs, cameras and other components that
+ * are not flight controllers are ignored; when the log holds several
+ * vehicles, the one with the most telemetry is kept.
+ */
+export function parseTlog(buffer: ArrayBuffer, fileName: string): FlightLog {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  const warnings: string[] = [];
+  const vehicles = new Map<number, VehicleLog>();
+  const autopilots = new Set<number>(); // systems with a flight controller heartbeat
+  let skippedBytes = 0;
+
+  let offset = 0;
+  while (offset + TIMESTAMP_SIZE < bytes.length) {
+    const timeUs = view.getUint32(offset, false) * 2 ** 32 + view.getUint32(offset + 4, false);
+    const packet = timeUs >= MIN_EPOCH_US ? readPacket(bytes, offset + TIMESTAMP_SIZE) : null;
+
+    // Corrupt or cut-off packet: look for the next one byte by byte
+    if (!packet) {
+      offset++;
+      skippedBytes++;
+      continue;
+    }
+    offset += TIMESTAMP_SIZE + packet.length;
+
+    const spec = MESSAGES[packet.msgId];
+    if (!spec) continue;
+
+    const t = timeUs / 1000;
+    const fields = decodeFields(spec, packet.payload);
+
+    if (spec.name === 'heartbeat') {
+      if (fields.autopilot === MAV_AUTOPILOT.INVALID) continue;
+      autopilots.add(packet.systemId);
+    }
+
+    let vehicle = vehicles.get(packet.systemId);
+    if (!vehicle) {
+      vehicle = { sampler: createTimelineSampler(2), firstT: t, lastT: t };
+      vehicles.set(packet.systemId, vehicle);
+    }
+    vehicle.lastT = t;
+
+    switch (spec.name) {
+      case 'heartbeat':
+        vehicle.sampler.update(t, 'heartbeat', fields);
+        vehicle.sampler.update(
+          t,
+          'flight_mode',
+          fields.autopilot === MAV_AUTOPILOT.PX4 ? px4CustomModeName(fields.custom_mode) : `MODE_${fields.custom_mode}`
+        );
+        break;
+
+      case 'extended_sys_state':
+        if (fields.landed_state !== MAV_LANDED_STATE_UNDEFINED) {
+          vehicle.sampler.update(t, 'in_air', fields.landed_state !== MAV_LANDED_STATE_ON_GROUND);
+        }
+        break;
+
+      default:
+        vehicle.sampler.update(t, spec.name, fields);
+    }
+  }
+
+  const candidates = Array.from(vehicles.entries()).filter(([systemId]) => autopilots.has(systemId));
+  if (candidates.length === 0) {
+    throw new Error(`${fileName} has no vehicle telemetry`);
+  }
+
+  const [systemId, vehicle] = candidates.reduce((best, candidate) =>
+    candidate[1].sampler.sampleCount > best[1].sampler.sampleCount ? candidate : best
+  );
+
+  if (candidates.length > 1) {
+    warnings.push(`The log holds ${candidates.length} vehicles; showing system ${systemId}`);
+  }
+  if (skippedBytes > 0) {
+    warnings.push(`${skippedBytes} bytes of corrupt data were skipped`);
+  }
+
+  return {
+    format: 'tlog',
+    fileName,
+    vehicleId: String(systemId),
+    startedAt: vehicle.firstT,
+    endedAt: vehicle.lastT,
+    telemetry: vehicle.sampler.finish(String(systemId), 0),
+    warnings,
+  };
+}
+
+export default {
+  parseTlog,
+};
@@ -0,0 +1,401 @@
+/**
+ * ULog Import
+ * Reads PX4 ULog (.ulg) files into the canonical telemetry timeline
+ */
+
+import { FlightLog } from '@/types/flightLog';
+import { createTimelineSampler, px4NavStateName } from './flightLog';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ULOG_MAGIC = [0x55, 0x4c, 0x6f, 0x67, 0x01, 0x12, 0x35]; // "ULog" 01 12 35
+const HEADER_SIZE = 16;
+const MESSAGE_HEADER_SIZE = 3; // uint16 size, uint8 type
+
+const MSG_FLAG_BITS = 0x42; // 'B'
+const MSG_FORMAT = 0x46; // 'F'
+const MSG_PARAMETER = 0x50; // 'P'
+const MSG_ADD_LOGGED = 0x41; // 'A'
+const MSG_DATA = 0x44; // 'D'
+const MSG_DROPOUT = 0x4f; // 'O'
+
+const INCOMPAT_DATA_APPENDED = 1;
+
+const TYPE_SIZES: Record<string, number> = {
+  int8_t: 1,
+  uint8_t: 1,
+  bool: 1,
+  char: 1,
+  int16_t: 2,
+  uint16_t: 2,
+  int32_t: 4,
+  uint32_t: 4,
+  float: 4,
+  int64_t: 8,
+  uint64_t: 8,
+  double: 8,
+};
+
+// vehicle_status.arming_state
+const ARMING_STATE_ARMED = 2;
+
+// Topics read into the timeline, and the fields used from each
+const TOPIC_FIELDS: Record<string, string[]> = {
+  vehicle_global_position: ['lat', 'lon', 'alt'],
+  vehicle_local_position: ['z', 'vx', 'vy', 'vz', 'heading'],
+  vehicle_attitude: ['q'],
+  battery_status: ['voltage_v', 'voltage_filtered_v', 'current_a', 'remaining'],
+  vehicle_gps_position: ['fix_type', 'satellites_used', 'hdop', 'vdop', 'time_utc_usec'],
+  sensor_gps: ['fix_type', 'satellites_used', 'hdop', 'vdop', 'time_utc_usec'],
+  vehicle_status: ['arming_state', 'nav_state'],
+  vehicle_land_detected: ['landed'],
+  vehicle_imu_status: ['accel_vibration_metric', 'accel_clipping'],
+  mission_result: ['seq_current', 'seq_total'],
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FieldLayout {
+  type: string;
+  offset: number; // from the start of the message, timestamp included
+  count: number; // array length, 1 for scalars
+}
+
+interface Subscription {
+  topic: string;
+  fields: Map<string, FieldLayout>;
+}
+
+type TopicRecord = Record<string, number[]>;
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/**
+ * Parse "name:type field;type[n] field;..." into its field list
+ */
+function parseFormat(text: string): { name: string; fields: { type: string; name: string; count: number }[] } {
+  const [name, body = ''] = text.split(':');
+  const fields = body
+    .split(';')
+    .filter(Boolean)
+    .map((definition) => {
+      const [typeSpec, fieldName] = definition.trim().split(' ');
+      const match = typeSpec.match(/^(\w+)(?:\[(\d+)\])?$/);
+      return { type: match?.[1] ?? typeSpec, name: fieldName, count: match?.[2] ? Number(match[2]) : 1 };
+    });
+  return { name, fields };
+}
+
+/**
+ * Size in bytes of a type, nested formats included
+ */
+function typeSize(type: string, formats: Map<string, string>, parents: string[] = []): number {
+  if (TYPE_SIZES[type] !== undefined) return TYPE_SIZES[type];
+
+  const format = formats.get(type);
+  if (!format || parents.includes(type)) throw new Error(`ULog format ${type} is not defined`);
+
+  return parseFormat(format).fields.reduce(
+    (size, field) => size + typeSize(field.type, formats, [...parents, type]) * field.count,
+    0
+  );
+}
+
+function fieldLayouts(topic: string, formats: Map<string, string>): Map<string, FieldLayout> {
+  const layouts = new Map<string, FieldLayout>();
+  const format = formats.get(topic);
+  if (!format) return layouts;
+
+  let offset = 0;
+  parseFormat(format).fields.forEach((field) => {
+    layouts.set(field.name, { type: field.type, offset, count: field.count });
+    offset += typeSize(field.type, formats) * field.count;
+  });
+  return layouts;
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+function readValue(view: DataView, offset: number, type: string): number | undefined {
+  switch (type) {
+    case 'int8_t': return view.getInt8(offset);
+    case 'uint8_t':
+    case 'bool':
+    case 'char': return view.getUint8(offset);
+    case 'int16_t': return view.getInt16(offset, true);
+    case 'uint16_t': return view.getUint16(offset, true);
+    case 'int32_t': return view.getInt32(offset, true);
+    case 'uint32_t': return view.getUint32(offset, true);
+    case 'float': return view.getFloat32(offset, true);
+    case 'int64_t': return view.getUint32(offset, true) + view.getInt32(offset + 4, true) * 2 ** 32;
+    case 'uint64_t': return readUint64(view, offset);
+    case 'double': return view.getFloat64(offset, true);
+    default: return undefined; // nested formats are not read
+  }
+}
+
+/**
+ * Read the topic's fields of interest from a data message. Trailing padding
+ * may be cut from the message, so fields past its end are left out.
+ */
+function readRecord(view: DataView, start: number, length: number, subscription: Subscription): TopicRecord {
+  const record: TopicRecord = {};
+
+  TOPIC_FIELDS[subscription.topic].forEach((name) => {
+    const layout = subscription.fields.get(name);
+    const size = layout ? TYPE_SIZES[layout.type] : undefined;
+    if (!layout || size === undefined || layout.offset + size * layout.count > length) return;
+
+    const values: number[] = [];
+    for (let i = 0; i < layout.count; i++) {
+      const value = readValue(view, start + layout.offset + i * size, layout.type);
+      if (value !== undefined) values.push(value);
+    }
+    record[name] = values;
+  });
+
+  return record;
+}
+
+const radToDeg = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Roll, pitch and yaw in degrees from a w, x, y, z quaternion
+ */
+function quaternionToEuler([w, x, y, z]: number[]): { roll: number; pitch: number; yaw: number } {
+  return {
+    roll: radToDeg(Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y))),
+    pitch: radToDeg(Math.asin(Math.max(-1, Math.min(1, 2 * (w * y - z * x))))),
+    yaw: radToDeg(Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z))),
+  };
+}
+
+const finite = (value: number | undefined): number | undefined =>
+  value !== undefined && Number.isFinite(value) ? value : undefined;
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+export const isULog = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_SIZE && ULOG_MAGIC.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Read a ULog file. Times come from GPS UTC time when the log has it,
+ * otherwise the flight is placed to end at fileTime.
+ */
+export function parseULog(buffer: ArrayBuffer, fileName: string, fileTime: number = Date.now()): FlightLog {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  if (!isULog(bytes)) {
+    throw new Error(`${fileName} is not a ULog file`);
+  }
+
+  const decoder = new TextDecoder();
+  const text = (start: number, end: number) => decoder.decode(bytes.subarray(start, end));
+
+  const warnings: string[] = [];
+  const formats = new Map<string, string>();
+  const subscriptions = new Map<number, Subscription>();
+  const sampler = createTimelineSampler(1);
+
+  let systemId = 1;
+  let clockOffset: number | undefined; // epoch ms - boot ms, from GPS time
+  let firstT: number | undefined;
+  let lastT = 0;
+  let relativeAlt: number | undefined;
+  let dropouts = 0;
+
+  const applyRecord = (topic: string, record: TopicRecord, t: number) => {
+    const one = (name: string) => finite(record[name]?.[0]);
+
+    switch (topic) {
+      case 'vehicle_global_position':
+        sampler.update(t, 'position', {
+          lat: one('lat'),
+          lon: one('lon'),
+          alt: one('alt'),
+          relative_alt: relativeAlt,
+        });
+        break;
+
+      case 'vehicle_local_position': {
+        const z = one('z');
+        const vx = one('vx');
+        const vy = one('vy');
+        if (z !== undefined) relativeAlt = -z;
+        sampler.update(t, 'velocity', {
+          vx,
+          vy,
+          vz: one('vz'),
+          ground_speed: vx !== undefined && vy !== undefined ? Math.hypot(vx, vy) : undefined,
+        });
+        const heading = one('heading');
+        if (heading !== undefined) sampler.update(t, 'heading', radToDeg(heading));
+        break;
+      }
+
+      case 'vehicle_attitude':
+        if (record.q?.length === 4) sampler.update(t, 'attitude', quaternionToEuler(record.q));
+        break;
+
+      case 'battery_status': {
+        const remaining = one('remaining');
+        sampler.update(t, 'battery', {
+          voltage: one('voltage_v') ?? one('voltage_filtered_v'),
+          current: one('current_a'),
+          remaining: remaining !== undefined ? remaining * 100 : undefined,
+        });
+        break;
+      }
+
+      case 'vehicle_gps_position':
+      case 'sensor_gps': {
+        const utc = one('time_utc_usec');
+        if (clockOffset === undefined && utc) clockOffset = utc / 1000 - t;
+        sampler.update(t, 'gps', {
+          fix_type: one('fix_type'),
+          satellites: one('satellites_used'),
+          hdop: one('hdop'),
+          vdop: one('vdop'),
+        });
+        break;
+      }
+
+      case 'vehicle_status': {
+        const navState = one('nav_state');
+        sampler.update(t, 'status', {
+          armed: one('arming_state') === ARMING_STATE_ARMED,
+          mode: navState !== undefined ? px4NavStateName(navState) : undefined,
+        });
+        break;
+      }
+
+      case 'vehicle_land_detected':
+        sampler.update(t, 'in_air', one('landed') === 0);
+        break;
+
+      case 'vehicle_imu_status':
+        sampler.update(t, 'vibration', {
+          level: one('accel_vibration_metric'),
+          clipping: record.accel_clipping?.reduce((sum, count) => sum + count, 0),
+        });
+        break;
+
+      case 'mission_result':
+        sampler.update(t, 'mission', {
+          current_waypoint: one('seq_current'),
+          total_waypoints: one('seq_total'),
+        });
+        break;
+    }
+  };
+
+  let offset = HEADER_SIZE;
+  while (offset + MESSAGE_HEADER_SIZE <= bytes.length) {
+    const size = view.getUint16(offset, true);
+    const type = bytes[offset + 2];
+    const start = offset + MESSAGE_HEADER_SIZE;
+    const end = start + size;
+
+    if (end > bytes.length) {
+      warnings.push('The log ends part way through a message; the rest was skipped');
+      break;
+    }
+
+    switch (type) {
+      case MSG_FLAG_BITS:
+        // incompat_flags follow the 8 compat flag bytes
+        if (bytes[start + 8] & INCOMPAT_DATA_APPENDED) {
+          warnings.push('Data appended after the log was closed was not read');
+        }
+        break;
+
+      case MSG_FORMAT: {
+        const format = text(start, end);
+        formats.set(format.split(':')[0], format);
+        break;
+      }
+
+      case MSG_PARAMETER: {
+        const keyLength = bytes[start];
+        const key = text(start + 1, start + 1 + keyLength);
+        if (key === 'int32_t MAV_SYS_ID') systemId = view.getInt32(start + 1 + keyLength, true);
+        break;
+      }
+
+      case MSG_ADD_LOGGED: {
+        const multiId = bytes[start];
+        const msgId = view.getUint16(start + 1, true);
+        const topic = text(start + 3, end);
+        // Only the first instance of multi-instance topics, e.g. the primary battery
+        if (multiId === 0 && TOPIC_FIELDS[topic]) {
+          try {
+            subscriptions.set(msgId, { topic, fields: fieldLayouts(topic, formats) });
+          } catch (error) {
+            warnings.push(`${topic} could not be read: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        break;
+      }
+
+      case MSG_DATA: {
+        const subscription = subscriptions.get(view.getUint16(start, true));
+        if (!subscription) break;
+
+        const dataStart = start + 2;
+        const t = readUint64(view, dataStart) / 1000; // µs since boot
+        if (t <= 0) break;
+
+        if (firstT === undefined) firstT = t;
+        lastT = Math.max(lastT, t);
+        applyRecord(subscription.topic, readRecord(view, dataStart, end - dataStart, subscription), t);
+        break;
+      }
+
+      case MSG_DROPOUT:
+        dropouts++;
+        break;
+    }
+
+    offset = end;
+  }
+
+  if (sampler.sampleCount === 0 || firstT === undefined) {
+    throw new Error(`${fileName} has no position, attitude or battery data`);
+  }
+  if (dropouts > 0) {
+    warnings.push(`The logger dropped data ${dropouts} times; the timeline has gaps`);
+  }
+  if (clockOffset === undefined) {
+    warnings.push('The log has no GPS time; times are estimated from the file date');
+    clockOffset = fileTime - lastT;
+  }
+
+  return {
+    format: 'ulog',
+    fileName,
+    vehicleId: String(systemId),
+    startedAt: firstT + clockOffset,
+    endedAt: lastT + clockOffset,
+    telemetry: sampler.finish(String(systemId), clockOffset),
+    warnings,
+  };
+}
+
+export default {
+  isULog,
+  parseULog,
+};
@@ -0,0 +1,121 @@
+/**
+ * ZIP Archives
+ * Reads the small zip containers used by KMZ and zipped shapefiles
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZipEntry {
+  name: string; // path inside the archive
+  data: Uint8Array;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function inflateRaw(input: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed archives need a browser with DecompressionStream support');
+  }
+  const stream = new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = view.byteLength - EOCD_MIN_SIZE; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error('Not a zip archive');
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Extract the files of a zip archive. Directories are skipped; only stored
+ * and deflated entries are supported. Pass a filter to skip decompressing
+ * entries that are not needed.
+ */
+export async function readZip(
+  buffer: ArrayBuffer,
+  filter: (name: string) => boolean = () => true
+): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Zip central directory is corrupt');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !filter(name)) continue;
+    if (flags & 0x1) {
+      throw new Error(`Zip entry ${name} is encrypted`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Zip entry ${name} is corrupt`);
+    }
+
+    // Local header name/extra lengths can differ from the central directory
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: raw.slice() });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`Zip entry ${name} uses unsupported compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * File name without its directory, lower-cased for extension matching
+ */
+export const entryBaseName = (name: string): string => name.split('/').pop()!.toLowerCase();
+
+// ============================================================================
+// Export All
+// ============================================================================
+
+export default {
+  readZip,
+  entryBaseName,
+};